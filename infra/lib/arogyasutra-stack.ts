@@ -112,7 +112,7 @@ export class ArogyaSutraStack extends cdk.Stack {
             billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
             encryption: dynamodb.TableEncryption.AWS_MANAGED,
             removalPolicy: cdk.RemovalPolicy.RETAIN,
-            timeToLiveAttribute: "expiresAt",
+            timeToLiveAttribute: "ttl", // epoch seconds, a week past expiresAt
         });
 
         sessionTable.addGlobalSecondaryIndex({
@@ -175,6 +175,56 @@ export class ArogyaSutraStack extends cdk.Stack {
             removalPolicy: cdk.RemovalPolicy.RETAIN,
         });
 
+        // ====================================================
+        // 7c. DynamoDB — In-App Notifications Table
+        // ====================================================
+        const notificationsTable = new dynamodb.Table(this, "NotificationsTable", {
+            tableName: "arogyasutra-notifications",
+            partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+            sortKey: { name: "notificationId", type: dynamodb.AttributeType.STRING }, // "<createdAt>#<uuid>"
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            encryption: dynamodb.TableEncryption.AWS_MANAGED,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+            timeToLiveAttribute: "ttl", // epoch seconds, 90 days after creation
+        });
+
+        // ====================================================
+        // 7d. DynamoDB — Medication Adherence Table
+        // ====================================================
+        const adherenceTable = new dynamodb.Table(this, "AdherenceTable", {
+            tableName: "arogyasutra-adherence",
+            partitionKey: { name: "patientId", type: dynamodb.AttributeType.STRING },
+            sortKey: { name: "doseId", type: dynamodb.AttributeType.STRING }, // "<date>#<slot>#<medKey>"
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            encryption: dynamodb.TableEncryption.AWS_MANAGED,
+            pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        // ====================================================
+        // 7e. DynamoDB — Health Insights Table
+        // ====================================================
+        const insightsTable = new dynamodb.Table(this, "InsightsTable", {
+            tableName: "arogyasutra-insights",
+            partitionKey: { name: "patientId", type: dynamodb.AttributeType.STRING },
+            sortKey: { name: "insightId", type: dynamodb.AttributeType.STRING }, // "<type>#<finding>", stable per finding
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            encryption: dynamodb.TableEncryption.AWS_MANAGED,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        // ====================================================
+        // 7f. DynamoDB — Assistant Conversations Table
+        // ====================================================
+        const conversationsTable = new dynamodb.Table(this, "ConversationsTable", {
+            tableName: "arogyasutra-conversations",
+            partitionKey: { name: "ownerKey", type: dynamodb.AttributeType.STRING }, // "<userId>#<patientId>"
+            sortKey: { name: "conversationId", type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            encryption: dynamodb.TableEncryption.AWS_MANAGED,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
         // ====================================================
         // 7. SNS — Notifications Topic
         // ====================================================
@@ -291,6 +341,10 @@ export class ArogyaSutraStack extends cdk.Stack {
         appointmentsTable.grantReadWriteData(appRole);
         healthRecordsTable.grantReadWriteData(appRole);
         checkupsTable.grantReadWriteData(appRole);
+        notificationsTable.grantReadWriteData(appRole);
+        adherenceTable.grantReadWriteData(appRole);
+        insightsTable.grantReadWriteData(appRole);
+        conversationsTable.grantReadWriteData(appRole);
 
         appRole.addToPolicy(
             new iam.PolicyStatement({
@@ -475,6 +529,26 @@ export class ArogyaSutraStack extends cdk.Stack {
             description: "DYNAMODB_APPOINTMENTS_TABLE",
         });
 
+        new cdk.CfnOutput(this, "NotificationsTableName", {
+            value: notificationsTable.tableName,
+            description: "DYNAMODB_NOTIFICATIONS_TABLE",
+        });
+
+        new cdk.CfnOutput(this, "AdherenceTableName", {
+            value: adherenceTable.tableName,
+            description: "DYNAMODB_ADHERENCE_TABLE",
+        });
+
+        new cdk.CfnOutput(this, "InsightsTableName", {
+            value: insightsTable.tableName,
+            description: "DYNAMODB_INSIGHTS_TABLE",
+        });
+
+        new cdk.CfnOutput(this, "ConversationsTableName", {
+            value: conversationsTable.tableName,
+            description: "DYNAMODB_CONVERSATIONS_TABLE",
+        });
+
         new cdk.CfnOutput(this, "IdentityPoolId", {
             value: identityPool.ref,
             description: "NEXT_PUBLIC_IDENTITY_POOL_ID",
@@ -0,0 +1,19 @@
+// Unit and property tests (fast-check) — `npm test`.
+// ts-jest compiles to CommonJS; the app's tsconfig targets the bundler.
+
+/** @type {import("jest").Config} */
+const config = {
+    testEnvironment: "node",
+    roots: ["<rootDir>/src"],
+    testMatch: ["**/__tests__/**/*.test.ts"],
+    moduleNameMapper: {
+        "^@/(.*)$": "<rootDir>/src/$1",
+    },
+    transform: {
+        "^.+\\.tsx?$": ["ts-jest", {
+            tsconfig: { module: "commonjs", moduleResolution: "node", jsx: "react-jsx", isolatedModules: true },
+        }],
+    },
+};
+
+export default config;
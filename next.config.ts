@@ -10,7 +10,7 @@ const withPWA = withPWAInit({
 
 const nextConfig: NextConfig = withPWA({
   reactStrictMode: true,
-  serverExternalPackages: ["sharp"],
+  serverExternalPackages: ["sharp", "tesseract.js", "@tesseract.js-data/eng", "@hyzyla/pdfium", "web-push"],
   images: {
     // Sharp is installed in amplify.yml for Linux x64 — enable optimization.
     // Next.js will resize/compress on first request; Amplify CloudFront caches the result.
@@ -50,6 +50,10 @@ const nextConfig: NextConfig = withPWA({
     DYNAMODB_HEALTH_RECORDS_TABLE: process.env.DYNAMODB_HEALTH_RECORDS_TABLE ?? "",
     DYNAMODB_CHECKUPS_TABLE: process.env.DYNAMODB_CHECKUPS_TABLE ?? "",
     DYNAMODB_APPOINTMENTS_TABLE: process.env.DYNAMODB_APPOINTMENTS_TABLE ?? "",
+    DYNAMODB_NOTIFICATIONS_TABLE: process.env.DYNAMODB_NOTIFICATIONS_TABLE ?? "",
+    DYNAMODB_ADHERENCE_TABLE: process.env.DYNAMODB_ADHERENCE_TABLE ?? "",
+    DYNAMODB_INSIGHTS_TABLE: process.env.DYNAMODB_INSIGHTS_TABLE ?? "",
+    VAPID_SUBJECT: process.env.VAPID_SUBJECT ?? "",
   },
 
   async headers() {
@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { queryAuditLogs } from "../../../lib/aws/dynamodb";
+import { requirePatientAccess } from "../../../lib/auth/guard";
 import type { AuditLogEntry, AuditAction } from "../../../lib/types/audit";
 
 // Human-readable labels for every audit action
@@ -19,7 +20,9 @@ const ACTION_LABELS: Record<AuditAction, string> = {
     TIMELINE_SEARCH: "Searched health records",
     AI_EXTRACTION: "AI extracted record data",
     AI_QUERY: "Asked the AI assistant",
+    DOCTOR_REQUEST_ACCESS: "Requested access to your records",
     DOCTOR_GRANT_ACCESS: "Granted doctor access",
+    DOCTOR_DENY_ACCESS: "Declined a doctor's access request",
     DOCTOR_REVOKE_ACCESS: "Revoked doctor access",
     DOCTOR_VIEW_TIMELINE: "Viewed your health timeline",
     DOCTOR_APPEND_ENTRY: "Added a note to your timeline",
@@ -75,6 +78,9 @@ export async function GET(req: NextRequest) {
         return NextResponse.json({ error: "Missing patientId" }, { status: 400 });
     }
 
+    const access = await requirePatientAccess(req, patientId, "manage");
+    if (access instanceof NextResponse) return access;
+
     try {
         const { logs, lastKey } = await queryAuditLogs({
             patientId,
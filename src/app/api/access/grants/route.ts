@@ -0,0 +1,184 @@
+// ============================================================
+// Doctor Access Grants API — consent workflow, step 2
+// POST   /api/access/grants  (patient)
+//        { patientId, requestId, accessLevel, expiresInDays, encryptedAccessKey }
+//        Approves a PENDING request. The vault key arrives already
+//        RSA-wrapped for the doctor — the server never sees it.
+// GET    /api/access/grants?patientId=...
+//        patient → { grants }   active grants on their records
+//        doctor  → { grant }    own active grant for that patient
+// GET    /api/access/grants     (doctor) → { grants } all own active grants
+// DELETE /api/access/grants?grantId=...  (patient) → revoke
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import {
+    getAccessGrant,
+    getAccessRequest,
+    listDoctorGrants,
+    listPatientGrants,
+    putAccessGrant,
+    resolveAccessRequest,
+    revokeAccessGrant,
+} from "../../../../lib/aws/dynamodb";
+import { logAccess, patientActor } from "../../../../lib/services/audit.service";
+import { notifyUser } from "../../../../lib/services/notification.service";
+import {
+    forbidden,
+    isActiveGrant,
+    requireCaller,
+    requirePatientAccess,
+    resolvePatientAccess,
+} from "../../../../lib/auth/guard";
+import type { StoredAccessGrant } from "../../../../lib/types/audit";
+
+const isDev = process.env.NODE_ENV === "development";
+const MAX_EXPIRY_DAYS = 365;
+
+export async function POST(req: NextRequest) {
+    try {
+        const { patientId, requestId, accessLevel, expiresInDays, encryptedAccessKey } = await req.json();
+
+        if (!patientId || !requestId || typeof encryptedAccessKey !== "string" || !encryptedAccessKey) {
+            return NextResponse.json({ error: "patientId, requestId and encryptedAccessKey are required" }, { status: 400 });
+        }
+        if (accessLevel !== "READ" && accessLevel !== "READ_APPEND") {
+            return NextResponse.json({ error: "accessLevel must be READ or READ_APPEND" }, { status: 400 });
+        }
+        const days = Number(expiresInDays);
+        if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+            return NextResponse.json({ error: `expiresInDays must be 1–${MAX_EXPIRY_DAYS}` }, { status: 400 });
+        }
+
+        // Only the patient themself can consent — a guardian can't wrap their vault key
+        const access = await requirePatientAccess(req, patientId, "owner");
+        if (access instanceof NextResponse) return access;
+        const { caller } = access;
+
+        const request = await getAccessRequest(caller.userId, requestId);
+        if (!request) return NextResponse.json({ error: "Request not found" }, { status: 404 });
+        if (request.status !== "PENDING") {
+            return NextResponse.json({ error: "This request has already been answered" }, { status: 409 });
+        }
+
+        const now = new Date();
+        const grant: StoredAccessGrant = {
+            grantId: randomUUID(),
+            patientId: request.patientId,
+            doctorId: request.doctorId,
+            doctorName: request.doctorName,
+            doctorMci: request.doctorMci,
+            accessLevel,
+            encryptedAccessKey,
+            grantedAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + days * 86400000).toISOString(),
+            isActive: true,
+            requestId,
+        };
+        await putAccessGrant(grant);
+
+        try {
+            await resolveAccessRequest(request.patientId, requestId, "APPROVED", grant.grantId);
+        } catch (err) {
+            // Lost a race with another device answering the same request
+            await revokeAccessGrant(grant.grantId);
+            throw err;
+        }
+
+        // One live grant per doctor — the new one supersedes any older grant
+        const previous = (await listPatientGrants(request.patientId)).filter(
+            (g) => g.doctorId === request.doctorId && g.grantId !== grant.grantId
+        );
+        await Promise.all(previous.map((g) => revokeAccessGrant(g.grantId)));
+
+        await logAccess(
+            request.patientId,
+            "DOCTOR_GRANT_ACCESS",
+            patientActor(caller.userId, caller.name ?? caller.userId),
+            {
+                doctorId: request.doctorId,
+                doctorMci: request.doctorMci,
+                accessLevel,
+                expiresAt: grant.expiresAt!,
+            },
+            grant.grantId
+        );
+        await notifyUser(grant.doctorId, {
+            type: "ACCESS_GRANTED",
+            patientId: grant.patientId,
+            accessLevel,
+            expiresAt: grant.expiresAt!,
+        });
+
+        return NextResponse.json({ grant }, { status: 201 });
+    } catch (err: unknown) {
+        if ((err as Error).name === "ConditionalCheckFailedException") {
+            return NextResponse.json({ error: "This request has already been answered" }, { status: 409 });
+        }
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/access/grants POST]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to grant access" }, { status: 500 });
+    }
+}
+
+export async function GET(req: NextRequest) {
+    const caller = await requireCaller(req);
+    if (caller instanceof NextResponse) return caller;
+
+    const patientId = req.nextUrl.searchParams.get("patientId")?.toUpperCase();
+
+    try {
+        if (caller.role === "doctor") {
+            if (!patientId) {
+                const grants = await listDoctorGrants(caller.userId);
+                return NextResponse.json({ grants: grants.filter((g) => isActiveGrant(g)) });
+            }
+            const access = await resolvePatientAccess(caller, patientId, "read");
+            return NextResponse.json({ grant: access?.grant ?? null });
+        }
+
+        if (!patientId) {
+            return NextResponse.json({ error: "patientId is required" }, { status: 400 });
+        }
+        if (!(await resolvePatientAccess(caller, patientId, "owner"))) return forbidden();
+
+        const grants = await listPatientGrants(patientId);
+        return NextResponse.json({ grants: grants.filter((g) => isActiveGrant(g)) });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/access/grants GET]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to load access grants" }, { status: 500 });
+    }
+}
+
+export async function DELETE(req: NextRequest) {
+    const grantId = req.nextUrl.searchParams.get("grantId");
+    if (!grantId) {
+        return NextResponse.json({ error: "grantId is required" }, { status: 400 });
+    }
+
+    try {
+        const grant = await getAccessGrant(grantId);
+        if (!grant) return NextResponse.json({ error: "Grant not found" }, { status: 404 });
+
+        const access = await requirePatientAccess(req, grant.patientId, "owner");
+        if (access instanceof NextResponse) return access;
+
+        await revokeAccessGrant(grantId);
+        await logAccess(
+            grant.patientId,
+            "DOCTOR_REVOKE_ACCESS",
+            patientActor(access.caller.userId, access.caller.name ?? access.caller.userId),
+            { doctorId: grant.doctorId, doctorMci: grant.doctorMci },
+            grantId
+        );
+        await notifyUser(grant.doctorId, { type: "ACCESS_REVOKED", patientId: grant.patientId });
+
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/access/grants DELETE]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to revoke access" }, { status: 500 });
+    }
+}
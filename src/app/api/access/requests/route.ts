@@ -0,0 +1,191 @@
+// ============================================================
+// Doctor Access Requests API — consent workflow, step 1
+// POST /api/access/requests  (doctor)  { patientId, dob, publicKey, accessLevel?, reason? }
+//      → { grant } if already granted, else { request } (PENDING)
+// GET  /api/access/requests?patientId=...
+//      patient → { requests }            all requests for their records
+//      doctor  → { requests, grant }     own requests + active grant
+// PUT  /api/access/requests  { patientId, requestId, status }
+//      patient may DENY, the requesting doctor may CANCEL
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { getPatientUser } from "../../../../lib/aws/cognito";
+import {
+    getAccessRequest,
+    listAccessRequests,
+    listPatientGrants,
+    putAccessRequest,
+    resolveAccessRequest,
+} from "../../../../lib/aws/dynamodb";
+import { importPublicKey } from "../../../../lib/crypto/rsaOaep";
+import { logAccess, doctorActor, patientActor } from "../../../../lib/services/audit.service";
+import { notifyUser } from "../../../../lib/services/notification.service";
+import {
+    forbidden,
+    isActiveGrant,
+    requireCaller,
+    resolvePatientAccess,
+} from "../../../../lib/auth/guard";
+import type { AccessLevel, AccessRequest } from "../../../../lib/types/audit";
+
+const isDev = process.env.NODE_ENV === "development";
+
+export async function POST(req: NextRequest) {
+    const caller = await requireCaller(req, "doctor");
+    if (caller instanceof NextResponse) return caller;
+
+    try {
+        const { patientId, dob, publicKey, accessLevel, reason } = await req.json();
+
+        if (!patientId || !dob || !publicKey) {
+            return NextResponse.json({ error: "patientId, dob and publicKey are required" }, { status: 400 });
+        }
+        if (!/^AS-\d{4}-\d{4}-\d{4}$/i.test(patientId)) {
+            return NextResponse.json({ error: "Invalid card ID format. Expected AS-XXXX-XXXX-XXXX" }, { status: 400 });
+        }
+        try {
+            await importPublicKey(publicKey);
+        } catch {
+            return NextResponse.json({ error: "publicKey is not a valid RSA-OAEP SPKI key" }, { status: 400 });
+        }
+        const cardId = (patientId as string).toUpperCase();
+
+        // Card ID + DOB proves the doctor has the patient (or their card) in front of them
+        let storedDob = "";
+        try {
+            const user = await getPatientUser(cardId);
+            storedDob = user.UserAttributes?.find((a) => a.Name === "birthdate")?.Value ?? "";
+        } catch {
+            // fall through — same response as a DOB mismatch
+        }
+        if (!storedDob || storedDob !== dob) {
+            return NextResponse.json({ error: "Card not found or DOB does not match" }, { status: 404 });
+        }
+
+        const grant = (await listPatientGrants(cardId)).find(
+            (g) => g.doctorId === caller.userId && isActiveGrant(g)
+        );
+        if (grant) return NextResponse.json({ grant });
+
+        const pending = (await listAccessRequests(cardId)).find(
+            (r) => r.doctorId === caller.userId && r.status === "PENDING"
+        );
+        if (pending) {
+            // Same doctor on a new device — the patient must wrap for the new key
+            if (pending.doctorPublicKey !== publicKey) {
+                pending.doctorPublicKey = publicKey;
+                await putAccessRequest(pending);
+            }
+            return NextResponse.json({ request: pending });
+        }
+
+        const request: AccessRequest = {
+            requestId: randomUUID(),
+            patientId: cardId,
+            doctorId: caller.userId,
+            doctorName: caller.name ?? caller.userId,
+            doctorMci: caller.mciNumber ?? "",
+            institution: caller.institution,
+            doctorPublicKey: publicKey,
+            requestedLevel: (accessLevel === "READ" ? "READ" : "READ_APPEND") as AccessLevel,
+            reason: typeof reason === "string" && reason.trim() ? reason.trim().slice(0, 200) : undefined,
+            status: "PENDING",
+            requestedAt: new Date().toISOString(),
+        };
+        await putAccessRequest(request);
+
+        logAccess(
+            cardId,
+            "DOCTOR_REQUEST_ACCESS",
+            doctorActor(caller.userId, request.doctorName, request.doctorMci),
+            { requestedLevel: request.requestedLevel, ...(request.reason && { reason: request.reason }) },
+            request.requestId
+        ).catch((e) => console.error("[audit] DOCTOR_REQUEST_ACCESS write failed:", e));
+
+        await notifyUser(cardId, {
+            type: "ACCESS_REQUESTED",
+            patientId: cardId,
+            requestId: request.requestId,
+            doctorName: request.doctorName,
+        });
+
+        return NextResponse.json({ request }, { status: 201 });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/access/requests POST]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to request access" }, { status: 500 });
+    }
+}
+
+export async function GET(req: NextRequest) {
+    const caller = await requireCaller(req);
+    if (caller instanceof NextResponse) return caller;
+
+    const patientId = req.nextUrl.searchParams.get("patientId")?.toUpperCase();
+    if (!patientId) {
+        return NextResponse.json({ error: "patientId is required" }, { status: 400 });
+    }
+
+    try {
+        if (caller.role === "patient") {
+            if (!(await resolvePatientAccess(caller, patientId, "owner"))) return forbidden();
+            return NextResponse.json({ requests: await listAccessRequests(patientId) });
+        }
+
+        const [requests, grants] = await Promise.all([
+            listAccessRequests(patientId),
+            listPatientGrants(patientId),
+        ]);
+        return NextResponse.json({
+            requests: requests.filter((r) => r.doctorId === caller.userId),
+            grant: grants.find((g) => g.doctorId === caller.userId && isActiveGrant(g)) ?? null,
+        });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/access/requests GET]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to load access requests" }, { status: 500 });
+    }
+}
+
+export async function PUT(req: NextRequest) {
+    const caller = await requireCaller(req);
+    if (caller instanceof NextResponse) return caller;
+
+    try {
+        const { patientId, requestId, status } = await req.json();
+        if (!patientId || !requestId || (status !== "DENIED" && status !== "CANCELLED")) {
+            return NextResponse.json({ error: "patientId, requestId and status (DENIED | CANCELLED) are required" }, { status: 400 });
+        }
+
+        const request = await getAccessRequest(patientId.toUpperCase(), requestId);
+        if (!request) return NextResponse.json({ error: "Request not found" }, { status: 404 });
+
+        const allowed = status === "DENIED"
+            ? caller.role === "patient" && !!(await resolvePatientAccess(caller, request.patientId, "owner"))
+            : caller.role === "doctor" && caller.userId === request.doctorId;
+        if (!allowed) return forbidden();
+
+        await resolveAccessRequest(request.patientId, requestId, status);
+
+        if (status === "DENIED") {
+            logAccess(
+                request.patientId,
+                "DOCTOR_DENY_ACCESS",
+                patientActor(caller.userId, caller.name ?? caller.userId),
+                { doctorId: request.doctorId, doctorMci: request.doctorMci },
+                requestId
+            ).catch((e) => console.error("[audit] DOCTOR_DENY_ACCESS write failed:", e));
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        if ((err as Error).name === "ConditionalCheckFailedException") {
+            return NextResponse.json({ error: "This request has already been answered" }, { status: 409 });
+        }
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/access/requests PUT]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to update access request" }, { status: 500 });
+    }
+}
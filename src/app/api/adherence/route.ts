@@ -0,0 +1,102 @@
+// ============================================================
+// Medication Adherence API
+// GET   /api/adherence?patientId=&days=30&today=YYYY-MM-DD
+//       → { records, summary }            (owner, guardian, granted doctor)
+// PUT   /api/adherence  { patientId, date, doses: [{ slot, medication, sourceEntryId? }] }
+//       → registers the day's scheduled doses as pending
+// PATCH /api/adherence  { patientId, date, slot, medication, taken }
+//       → marks one dose taken / not taken  (owner, guardian)
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePatientAccess } from "../../../lib/auth/guard";
+import {
+    DEFAULT_WINDOW_DAYS,
+    getAdherence,
+    recordDose,
+    registerScheduledDoses,
+} from "../../../lib/services/adherence.service";
+import { addDaysIso } from "../../../lib/utils/date";
+
+const isDev = process.env.NODE_ENV === "development";
+const SLOTS = ["Morning", "Afternoon", "Evening", "Night"];
+const MAX_DAYS = 90;
+const MAX_DOSES = 60;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A client-local date within a day of the server's — time zones, not time travel. */
+function plausibleToday(date: unknown): date is string {
+    if (typeof date !== "string" || !ISO_DATE.test(date)) return false;
+    const serverToday = new Date().toISOString().split("T")[0];
+    return date >= addDaysIso(serverToday, -1) && date <= addDaysIso(serverToday, 1);
+}
+
+function validMedication(name: unknown): name is string {
+    return typeof name === "string" && name.trim().length > 0 && name.length <= 120;
+}
+
+export async function GET(req: NextRequest) {
+    const params = req.nextUrl.searchParams;
+    const patientId = params.get("patientId");
+    if (!patientId) {
+        return NextResponse.json({ error: "patientId is required" }, { status: 400 });
+    }
+    const access = await requirePatientAccess(req, patientId, "read");
+    if (access instanceof NextResponse) return access;
+
+    const days = Math.min(Math.max(Number(params.get("days")) || DEFAULT_WINDOW_DAYS, 1), MAX_DAYS);
+    const todayParam = params.get("today");
+    const today = plausibleToday(todayParam) ? todayParam : new Date().toISOString().split("T")[0];
+
+    try {
+        return NextResponse.json(await getAdherence(patientId, today, days));
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/adherence GET]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to load adherence" }, { status: 500 });
+    }
+}
+
+export async function PUT(req: NextRequest) {
+    const { patientId, date, doses } = await req.json().catch(() => ({}));
+    if (!patientId || !plausibleToday(date) || !Array.isArray(doses) || doses.length > MAX_DOSES
+        || !doses.every((d) => SLOTS.includes(d?.slot) && validMedication(d.medication)
+            && (d.sourceEntryId === undefined || typeof d.sourceEntryId === "string"))) {
+        return NextResponse.json(
+            { error: `patientId, today's date and doses [{ slot, medication, sourceEntryId? }] (max ${MAX_DOSES}) are required` },
+            { status: 400 }
+        );
+    }
+    const access = await requirePatientAccess(req, patientId, "manage");
+    if (access instanceof NextResponse) return access;
+
+    try {
+        await registerScheduledDoses(patientId, date, doses, access.caller.userId);
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/adherence PUT]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to register doses" }, { status: 500 });
+    }
+}
+
+export async function PATCH(req: NextRequest) {
+    const { patientId, date, slot, medication, taken } = await req.json().catch(() => ({}));
+    if (!patientId || !plausibleToday(date) || !SLOTS.includes(slot) || !validMedication(medication) || typeof taken !== "boolean") {
+        return NextResponse.json(
+            { error: "patientId, today's date, slot, medication and taken (boolean) are required" },
+            { status: 400 }
+        );
+    }
+    const access = await requirePatientAccess(req, patientId, "manage");
+    if (access instanceof NextResponse) return access;
+
+    try {
+        await recordDose(patientId, { date, slot, medication, taken }, access.caller.userId);
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/adherence PATCH]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to record the dose" }, { status: 500 });
+    }
+}
@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { updateAppointment, deleteAppointment } from "../../../../lib/aws/dynamodb";
+import { requirePatientAccess } from "../../../../lib/auth/guard";
 
 interface RouteParams {
     params: Promise<{ id: string }>;
@@ -18,6 +19,9 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
         return NextResponse.json({ error: "Missing patientId" }, { status: 400 });
     }
 
+    const access = await requirePatientAccess(req, patientId, "manage");
+    if (access instanceof NextResponse) return access;
+
     try {
         const updates = await req.json();
         await updateAppointment(patientId, appointmentId, updates);
@@ -36,6 +40,9 @@ export async function DELETE(req: NextRequest, { params }: RouteParams) {
         return NextResponse.json({ error: "Missing patientId" }, { status: 400 });
     }
 
+    const access = await requirePatientAccess(req, patientId, "manage");
+    if (access instanceof NextResponse) return access;
+
     try {
         await deleteAppointment(patientId, appointmentId);
         return NextResponse.json({ success: true });
@@ -9,6 +9,7 @@ import {
     listAppointments,
     putAppointment,
 } from "../../../lib/aws/dynamodb";
+import { requirePatientAccess } from "../../../lib/auth/guard";
 import type { Appointment } from "../../../lib/types/appointment";
 
 export async function GET(req: NextRequest) {
@@ -17,6 +18,9 @@ export async function GET(req: NextRequest) {
         return NextResponse.json({ error: "Missing patientId" }, { status: 400 });
     }
 
+    const access = await requirePatientAccess(req, patientId, "read");
+    if (access instanceof NextResponse) return access;
+
     try {
         const appointments = await listAppointments(patientId);
         return NextResponse.json({ appointments });
@@ -38,6 +42,9 @@ export async function POST(req: NextRequest) {
             );
         }
 
+        const access = await requirePatientAccess(req, patientId, "append");
+        if (access instanceof NextResponse) return access;
+
         const now = new Date().toISOString();
         const appt: Appointment = {
             patientId,
@@ -0,0 +1,86 @@
+// ============================================================
+// Assistant Conversation API — one of the caller's conversations
+// GET    /api/assistant/conversations/[conversationId]?patientId=AS-XXXX → ChatConversation
+// PATCH  /api/assistant/conversations/[conversationId]?patientId=AS-XXXX  { title }
+// DELETE /api/assistant/conversations/[conversationId]?patientId=AS-XXXX
+// Conversations are keyed by the caller, so another user's id
+// simply isn't found.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePatientAccess } from "../../../../../lib/auth/guard";
+import {
+    deleteConversation,
+    getConversation,
+    renameConversation,
+} from "../../../../../lib/services/conversation.service";
+
+const isDev = process.env.NODE_ENV === "development";
+const MAX_TITLE_LENGTH = 200;
+
+interface RouteParams {
+    params: Promise<{ conversationId: string }>;
+}
+
+/** The caller, once they may read the patient named in the query string */
+async function callerFor(req: NextRequest) {
+    const patientId = req.nextUrl.searchParams.get("patientId");
+    if (!patientId) {
+        return NextResponse.json({ error: "patientId is required" }, { status: 400 });
+    }
+    const access = await requirePatientAccess(req, patientId, "read");
+    if (access instanceof NextResponse) return access;
+    return { userId: access.caller.userId, patientId };
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+    const { conversationId } = await params;
+    const caller = await callerFor(req);
+    if (caller instanceof NextResponse) return caller;
+
+    try {
+        const conversation = await getConversation(caller.userId, caller.patientId, conversationId);
+        if (!conversation) return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+        return NextResponse.json(conversation);
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/assistant/conversations/[id] GET]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to load conversation" }, { status: 500 });
+    }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+    const { conversationId } = await params;
+    const caller = await callerFor(req);
+    if (caller instanceof NextResponse) return caller;
+
+    const { title } = await req.json().catch(() => ({}));
+    if (typeof title !== "string" || !title.trim() || title.length > MAX_TITLE_LENGTH) {
+        return NextResponse.json({ error: `title (1–${MAX_TITLE_LENGTH} characters) is required` }, { status: 400 });
+    }
+
+    try {
+        const renamed = await renameConversation(caller.userId, caller.patientId, conversationId, title);
+        if (!renamed) return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/assistant/conversations/[id] PATCH]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to rename conversation" }, { status: 500 });
+    }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+    const { conversationId } = await params;
+    const caller = await callerFor(req);
+    if (caller instanceof NextResponse) return caller;
+
+    try {
+        await deleteConversation(caller.userId, caller.patientId, conversationId);
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/assistant/conversations/[id] DELETE]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to delete conversation" }, { status: 500 });
+    }
+}
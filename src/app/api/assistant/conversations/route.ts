@@ -0,0 +1,32 @@
+// ============================================================
+// Assistant Conversations API
+// GET /api/assistant/conversations?patientId=AS-XXXX
+//   → { conversations: ConversationSummary[] }, most recent first
+// Only the caller's own conversations about the patient — a
+// doctor never sees the patient's, nor the patient a doctor's.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePatientAccess } from "../../../../lib/auth/guard";
+import { listConversations } from "../../../../lib/services/conversation.service";
+
+const isDev = process.env.NODE_ENV === "development";
+
+export async function GET(req: NextRequest) {
+    const patientId = req.nextUrl.searchParams.get("patientId");
+    if (!patientId) {
+        return NextResponse.json({ error: "patientId is required" }, { status: 400 });
+    }
+
+    const access = await requirePatientAccess(req, patientId, "read");
+    if (access instanceof NextResponse) return access;
+
+    try {
+        const conversations = await listConversations(access.caller.userId, patientId);
+        return NextResponse.json({ conversations });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/assistant/conversations GET]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to load conversations" }, { status: 500 });
+    }
+}
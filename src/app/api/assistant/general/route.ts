@@ -1,12 +1,18 @@
 // ============================================================
 // General LLM Chat API — No patient context
-// Used by doctors for generic medical knowledge queries
+// Used by doctors for generic medical knowledge queries.
+// Streams tokens over Server-Sent Events when the client accepts
+// text/event-stream, as /api/assistant/rag does.
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
-import { complete as kimiComplete } from "../../../../lib/llm/kimi";
+import { complete, completeStream } from "../../../../lib/llm";
+import type { LLMMessage } from "../../../../lib/llm";
 import { checkRateLimit } from "../../../../lib/utils/rateLimit";
 import { getPrompts } from "../../../../lib/rag/prompts";
+import { requireCaller } from "../../../../lib/auth/guard";
+import { sseResponse, wantsEventStream } from "../../../../lib/utils/sse";
+import type { AssistantStreamEvent } from "../../../../lib/types/rag";
 
 export const maxDuration = 60;
 
@@ -14,20 +20,18 @@ export const maxDuration = 60;
 // The prompt comes from the central prompts.ts file for easy editing.
 
 export async function POST(req: NextRequest) {
+    const caller = await requireCaller(req);
+    if (caller instanceof NextResponse) return caller;
+
     try {
-        const { query, conversationId, doctorId: bodyDoctorId } = await req.json();
+        const { query, conversationId } = await req.json();
 
         if (!query?.trim()) {
             return NextResponse.json({ error: "query is required" }, { status: 400 });
         }
 
-        // Rate limit: doctors 40 req/hr + 8/min burst
-        // Prefer explicit doctorId from body; fall back to x-user-id header; then IP
-        const doctorId: string =
-            bodyDoctorId ||
-            req.headers.get("x-user-id") ||
-            `ip-${req.headers.get("x-forwarded-for") || "unknown"}`;
-        const rl = checkRateLimit(doctorId, "DOCTOR", "general");
+        // Rate limit: doctors 40 req/hr + 8/min burst, keyed on the verified caller
+        const rl = checkRateLimit(caller.userId, "DOCTOR", "general");
         if (!rl.allowed) {
             return NextResponse.json(
                 { error: rl.reason },
@@ -38,17 +42,38 @@ export async function POST(req: NextRequest) {
             );
         }
 
-        const result = await kimiComplete(
-            [
-                { role: "system", content: getPrompts("DOCTOR").general },
-                { role: "user", content: query },
-            ],
-            { temperature: 0.3, maxTokens: 1200 }
-        );
+        const messages: LLMMessage[] = [
+            { role: "system", content: getPrompts("DOCTOR").general },
+            { role: "user", content: query },
+        ];
+        const generation = { temperature: 0.3, maxTokens: 1200 };
+        const id: string = conversationId || `general-${Date.now()}`;
+
+        if (wantsEventStream(req)) {
+            return sseResponse<AssistantStreamEvent>(async (send, signal) => {
+                try {
+                    const result = await completeStream(messages, {
+                        ...generation,
+                        signal,
+                        onToken: (text) => send({ type: "token", text }),
+                    });
+                    send({
+                        type: "done",
+                        response: { answer: result.text, conversationId: id, generatedAt: new Date().toISOString() },
+                    });
+                } catch (err) {
+                    if (signal.aborted) return;
+                    console.error("[assistant/general] stream failed:", err);
+                    send({ type: "error", error: "Failed to process query" });
+                }
+            }, req.signal);
+        }
+
+        const result = await complete(messages, generation);
 
         return NextResponse.json({
             answer: result.text,
-            conversationId: conversationId || `general-${Date.now()}`,
+            conversationId: id,
             generatedAt: new Date().toISOString(),
         });
     } catch (err) {
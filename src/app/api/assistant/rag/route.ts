@@ -2,13 +2,20 @@
 // Patient-Aware RAG Chat API
 // Used by patients (querying own records) and doctors
 // (querying a verified patient's records)
+//
+// With Accept: text/event-stream the answer is streamed: stage
+// events, then answer tokens, then a "done" event carrying the
+// final answer and its citations.
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
 import * as ragService from "../../../../lib/services/rag.service";
-import { complete as kimiComplete } from "../../../../lib/llm/kimi";
+import { complete } from "../../../../lib/llm";
 import { checkRateLimit } from "../../../../lib/utils/rateLimit";
 import { v4 as uuidv4 } from "uuid";
+import { requirePatientAccess } from "../../../../lib/auth/guard";
+import { sseResponse, wantsEventStream } from "../../../../lib/utils/sse";
+import type { AssistantStreamEvent, RAGQuery } from "../../../../lib/types/rag";
 
 // Extend Lambda/Edge compute timeout to 30 s (Amplify Hosting supports up to 60 s)
 export const maxDuration = 60;
@@ -20,8 +27,6 @@ export async function POST(req: NextRequest) {
         const body = await req.json();
         query = body.query ?? "";
         const patientId: string = body.patientId ?? "";
-        const queryBy = (body.queryBy === "DOCTOR" ? "DOCTOR" : "PATIENT") as "PATIENT" | "DOCTOR";
-        const queryByUserId: string = body.queryByUserId || patientId;
         conversationId = body.conversationId;
 
         if (!query.trim() || !patientId) {
@@ -31,9 +36,14 @@ export async function POST(req: NextRequest) {
             );
         }
 
+        const access = await requirePatientAccess(req, patientId, "read");
+        if (access instanceof NextResponse) return access;
+        // Who is asking comes from the token, not the request body
+        const queryBy = access.caller.role === "doctor" ? "DOCTOR" : "PATIENT";
+        const queryByUserId = access.caller.userId;
+
         // Rate limit: patients 20 req/hr + 5/min burst; doctors 60 req/hr + 10/min burst
-        const rateLimitUserId = queryByUserId || patientId;
-        const rl = checkRateLimit(rateLimitUserId, queryBy, "rag");
+        const rl = checkRateLimit(queryByUserId, queryBy, "rag");
         if (!rl.allowed) {
             return NextResponse.json(
                 { error: rl.reason },
@@ -44,23 +54,38 @@ export async function POST(req: NextRequest) {
             );
         }
 
-        const response = await ragService.query({
+        const ragQuery: RAGQuery = {
             queryText: query,
             patientId,
             queryBy,
             queryByUserId,
             conversationId,
-        });
+        };
+
+        if (wantsEventStream(req)) {
+            return sseResponse<AssistantStreamEvent>(async (send, signal) => {
+                try {
+                    const response = await ragService.query(ragQuery, { onProgress: send, signal });
+                    send({ type: "done", response });
+                } catch (err) {
+                    if (signal.aborted) return;
+                    console.error("[assistant/rag] stream failed:", err);
+                    send({ type: "error", error: "Failed to process query" });
+                }
+            }, req.signal);
+        }
+
+        const response = await ragService.query(ragQuery);
 
         return NextResponse.json(response);
     } catch (err) {
         console.error("[assistant/rag] service failed, using direct fallback:", err);
 
-        // Last-resort: call Kimi directly with anti-hallucination prompt
+        // Last-resort: call the generation chain directly with an anti-hallucination prompt
         if (query.trim()) {
             try {
                 const noContextSystem = "You are ArogyaSutra, a medical AI assistant. The patient asked a question but we were unable to retrieve their medical records due to a system issue. Tell them you could not access their records right now and suggest they try again shortly. Do NOT make up any medical information, prescriptions, or doctor names.";
-                const fallback = await kimiComplete(
+                const fallback = await complete(
                     [
                         { role: "system", content: noContextSystem },
                         { role: "user", content: query },
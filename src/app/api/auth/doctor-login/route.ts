@@ -10,6 +10,8 @@ import {
     InitiateAuthCommand,
     GetUserCommand,
 } from "@aws-sdk/client-cognito-identity-provider";
+import { verifyIdToken } from "../../../../lib/auth/cognitoJwt";
+import { setRefreshCookie, setSessionCookie } from "../../../../lib/auth/session";
 
 // No IAM credentials needed — InitiateAuth and GetUser are public/token-authed endpoints
 const cognito = new CognitoIdentityProviderClient({
@@ -68,7 +70,10 @@ export async function POST(req: NextRequest) {
             if (a.Name && a.Value) attrs[a.Name] = a.Value;
         });
 
-        return NextResponse.json({
+        // Canonical Cognito username — the identity the API guard sees in the token
+        const doctorId = userResult.Username || username;
+
+        const res = NextResponse.json({
             success: true,
             tokens: {
                 idToken: authResult.AuthenticationResult.IdToken,
@@ -77,7 +82,7 @@ export async function POST(req: NextRequest) {
                 expiresIn: authResult.AuthenticationResult.ExpiresIn,
             },
             doctor: {
-                doctorId: username,
+                doctorId,
                 fullName: attrs["name"] || username,
                 email: attrs["email"] || "",
                 phone: attrs["phone_number"] || "",
@@ -86,6 +91,13 @@ export async function POST(req: NextRequest) {
                 designation: attrs["custom:designation"] || "",
             },
         });
+
+        const idToken = authResult.AuthenticationResult.IdToken;
+        const claims = idToken ? await verifyIdToken(idToken) : null;
+        if (idToken && claims) setSessionCookie(res, idToken, claims.expiresAt);
+        const refreshToken = authResult.AuthenticationResult.RefreshToken;
+        if (claims && refreshToken) setRefreshCookie(res, "doctor", refreshToken);
+        return res;
     } catch (err: unknown) {
         const message = err instanceof Error ? err.message : "Unknown error";
         console.error("Doctor login error:", message);
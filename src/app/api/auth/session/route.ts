@@ -0,0 +1,58 @@
+// ============================================================
+// Session API — exchanges a Cognito ID token for an HttpOnly cookie
+// POST   /api/auth/session  { idToken, refreshToken? } → sets session cookies
+// GET    /api/auth/session  → { role, userId }, refreshing an expired
+//                              ID token; 401 once the session is over
+// DELETE /api/auth/session  → clears them
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken } from "../../../../lib/auth/cognitoJwt";
+import { clearSessionCookie, refreshSession, setRefreshCookie, setSessionCookie } from "../../../../lib/auth/session";
+import { getCaller, unauthorized } from "../../../../lib/auth/guard";
+
+export async function POST(req: NextRequest) {
+    try {
+        const { idToken, refreshToken } = await req.json();
+        if (!idToken || typeof idToken !== "string") {
+            return NextResponse.json({ error: "idToken is required" }, { status: 400 });
+        }
+
+        const claims = await verifyIdToken(idToken);
+        if (!claims) return unauthorized("Invalid or expired token");
+
+        const res = NextResponse.json({ success: true, role: claims.pool });
+        setSessionCookie(res, idToken, claims.expiresAt);
+        if (refreshToken && typeof refreshToken === "string") setRefreshCookie(res, claims.pool, refreshToken);
+        return res;
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/auth/session]", msg);
+        return NextResponse.json({ error: "Could not establish session" }, { status: 500 });
+    }
+}
+
+export async function GET(req: NextRequest) {
+    const caller = await getCaller(req);
+    if (caller) return NextResponse.json({ role: caller.role, userId: caller.userId });
+
+    const refreshed = await refreshSession(req);
+    if (!refreshed) {
+        const res = unauthorized("Your session has expired");
+        clearSessionCookie(res);
+        return res;
+    }
+    const { idToken, claims } = refreshed;
+    const res = NextResponse.json({
+        role: claims.pool,
+        userId: claims.pool === "patient" ? claims.username.toUpperCase() : claims.username,
+    });
+    setSessionCookie(res, idToken, claims.expiresAt);
+    return res;
+}
+
+export async function DELETE() {
+    const res = NextResponse.json({ success: true });
+    clearSessionCookie(res);
+    return res;
+}
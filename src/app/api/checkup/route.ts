@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { putCheckup, getCheckupHistory } from "../../../lib/aws/dynamodb";
+import { requirePatientAccess } from "../../../lib/auth/guard";
 
 export async function POST(req: NextRequest) {
     try {
@@ -16,6 +17,9 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: "patientId and recordedBy are required" }, { status: 400 });
         }
 
+        const access = await requirePatientAccess(req, patientId, "append");
+        if (access instanceof NextResponse) return access;
+
         const now = new Date().toISOString();
         await putCheckup({
             patientId,
@@ -45,6 +49,9 @@ export async function GET(req: NextRequest) {
             return NextResponse.json({ error: "patientId is required" }, { status: 400 });
         }
 
+        const access = await requirePatientAccess(req, patientId, "read");
+        if (access instanceof NextResponse) return access;
+
         const history = await getCheckupHistory(patientId, limit);
         return NextResponse.json({ success: true, history });
     } catch (err) {
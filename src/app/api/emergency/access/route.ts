@@ -1,13 +1,18 @@
 // ============================================================
 // Emergency Break-Glass Access API Route
-// POST /api/emergency/access
-// For first responders — logs access, returns emergency data
+// POST /api/emergency/access              — open a timed session
+// GET  /api/emergency/access?sessionId=…  — re-read while it is live
+// For first responders — logs access, returns emergency data.
+// The session is stored server-side; reads after expiresAt get 410.
 // ============================================================
 
 import { NextResponse } from "next/server";
-import { randomUUID } from "crypto";
-import { putAuditLog, getEmergencyContacts, getEmergencyInfo } from "../../../../lib/aws/dynamodb";
+import { getEmergencyContacts, getEmergencyInfo } from "../../../../lib/aws/dynamodb";
 import { getPatientUser } from "../../../../lib/aws/cognito";
+import { initiateBreakGlass, validateBreakGlassSession } from "../../../../lib/services/access.service";
+import { emergencyActor, logAccess } from "../../../../lib/services/audit.service";
+import { activeCourses, medicationKey, reconcileMedications } from "../../../../lib/medications";
+import type { CourseSource } from "../../../../lib/medications";
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, QueryCommand } from "@aws-sdk/lib-dynamodb";
 
@@ -61,190 +66,219 @@ interface AccessRequest {
     };
 }
 
-export async function POST(req: Request) {
+/** Live emergency view for a patient, and the fields it exposes */
+async function loadEmergencyData(upperId: string) {
+    // Fetch live patient data from Cognito + DynamoDB
+    let patientName = "Unknown";
+    let patientAge: number | null = null;
+    let bloodGroup = "Unknown";
+    let allergies: string[] = [];
+    let criticalMedications: string[] = [];
+    let activeConditions: string[] = [];
+    let emergencyContacts: { name: string; relationship: string; phone: string }[] = [];
+    let updatedAt = new Date().toISOString();
+
+    // Visibility defaults (patient can toggle these off in profile)
+    let showBloodGroup = true;
+    let showAllergies = true;
+    let showMeds = true;
+    let showContacts = true;
+
+    // 1. Cognito profile (name, age, blood group)
     try {
-        const body: AccessRequest = await req.json();
+        const user = await getPatientUser(upperId);
+        const attrs = user.UserAttributes ?? [];
+        patientName = attr(attrs, "name") || upperId;
+        patientAge  = calcAge(attr(attrs, "birthdate"));
+        bloodGroup  = attr(attrs, "custom:blood_group") || "Not recorded";
+        updatedAt   = user.UserLastModifiedDate?.toISOString() ?? updatedAt;
 
-        // Validate required fields
-        const { patientId, mciNumber, personnelName, institution, reason, geolocation } = body;
-        if (!patientId || !mciNumber || !personnelName || !institution || !reason) {
-            return NextResponse.json({ error: "All fields are required" }, { status: 400 });
+        // Cognito may also have allergies/meds — use as initial fallback
+        const cognitoAllergies = splitList(attr(attrs, "custom:allergies"));
+        const cognitoMeds     = splitList(attr(attrs, "custom:critical_meds"));
+        if (cognitoAllergies.length) allergies = cognitoAllergies;
+        if (cognitoMeds.length) criticalMedications = cognitoMeds;
+    } catch (cognitoErr) {
+        console.error("Cognito patient lookup failed:", cognitoErr);
+    }
+
+    // 2. DynamoDB prefs — emergency info (allergies, meds, visibility toggles)
+    //    This is the PRIMARY source for emergency data set by the patient in their profile.
+    try {
+        const emInfo = await getEmergencyInfo(upperId);
+        if (emInfo) {
+            // Override Cognito data with explicit emergency info if available
+            if (emInfo.allergies.length > 0) allergies = emInfo.allergies;
+            if (emInfo.criticalMeds.length > 0) criticalMedications = emInfo.criticalMeds;
+            showBloodGroup = emInfo.showBloodGroup;
+            showAllergies  = emInfo.showAllergies;
+            showMeds       = emInfo.showMeds;
+            showContacts   = emInfo.showContacts;
+            if (emInfo.updatedAt) updatedAt = emInfo.updatedAt;
         }
+    } catch (prefsErr) {
+        console.error("Emergency info prefs fetch failed:", prefsErr);
+    }
 
-        if (!patientId.match(/^AS-\d{4}-\d{4}-\d{4}$/i)) {
-            return NextResponse.json({ error: "Invalid Patient Card ID format. Expected AS-XXXX-XXXX-XXXX" }, { status: 400 });
+    // 3. DynamoDB prefs — emergency contacts
+    try {
+        const contacts = await getEmergencyContacts(upperId);
+        if (contacts.length > 0) {
+            emergencyContacts = contacts as { name: string; relationship: string; phone: string }[];
         }
+    } catch (contactsErr) {
+        console.error("Emergency contacts fetch failed:", contactsErr);
+    }
 
-        const sessionId = randomUUID();
-        const now = new Date().toISOString();
-
-        // Log the break-glass access to DynamoDB (Req 6.7) — non-blocking
-        putAuditLog({
-            logId: randomUUID(),
-            patientId: patientId.toUpperCase(),
-            action: "BREAKGLASS_INITIATE",
-            performedBy: {
-                type: "EMERGENCY_PERSONNEL",
-                userId: mciNumber,
-                name: personnelName,
-                mciNumber,
-            },
-            timestamp: now,
-            details: {
-                sessionId,
-                institution,
-                reason,
-                accessedData: "blood_group,allergies,critical_medications,emergency_contacts",
-                lat: String(geolocation.latitude),
-                lng: String(geolocation.longitude),
-            },
-            geoLocation: {
-                latitude: geolocation.latitude,
-                longitude: geolocation.longitude,
-            },
-        }).catch((dbErr) => console.error("DynamoDB audit log failed (non-blocking):", dbErr));
-
-        // Fetch live patient data from Cognito + DynamoDB
-        let patientName = "Unknown";
-        let patientAge: number | null = null;
-        let bloodGroup = "Unknown";
-        let allergies: string[] = [];
-        let criticalMedications: string[] = [];
-        let activeConditions: string[] = [];
-        let emergencyContacts: { name: string; relationship: string; phone: string }[] = [];
-        let updatedAt = new Date().toISOString();
-
-        // Visibility defaults (patient can toggle these off in profile)
-        let showBloodGroup = true;
-        let showAllergies = true;
-        let showMeds = true;
-        let showContacts = true;
+    // 4. Health records — supplement with AI-extracted data from uploaded documents
+    try {
+        const records = await _ddbClient.send(
+            new QueryCommand({
+                TableName: HEALTH_TABLE,
+                KeyConditionExpression: "patientId = :pid",
+                ExpressionAttributeValues: { ":pid": upperId },
+                ScanIndexForward: false,
+                Limit: 30,
+            })
+        );
 
-        const upperId = patientId.toUpperCase();
+        const recordAllergies = new Set<string>();
+        const recordConditions = new Set<string>();
 
-        // 1. Cognito profile (name, age, blood group)
-        try {
-            const user = await getPatientUser(upperId);
-            const attrs = user.UserAttributes ?? [];
-            patientName = attr(attrs, "name") || upperId;
-            patientAge  = calcAge(attr(attrs, "birthdate"));
-            bloodGroup  = attr(attrs, "custom:blood_group") || "Not recorded";
-            updatedAt   = user.UserLastModifiedDate?.toISOString() ?? updatedAt;
-
-            // Cognito may also have allergies/meds — use as initial fallback
-            const cognitoAllergies = splitList(attr(attrs, "custom:allergies"));
-            const cognitoMeds     = splitList(attr(attrs, "custom:critical_meds"));
-            if (cognitoAllergies.length) allergies = cognitoAllergies;
-            if (cognitoMeds.length) criticalMedications = cognitoMeds;
-        } catch (cognitoErr) {
-            console.error("Cognito patient lookup failed:", cognitoErr);
-        }
+        for (const item of records.Items ?? []) {
+            const meta = item.metadata as Record<string, unknown> | undefined;
+            if (!meta) continue;
 
-        // 2. DynamoDB prefs — emergency info (allergies, meds, visibility toggles)
-        //    This is the PRIMARY source for emergency data set by the patient in their profile.
-        try {
-            const emInfo = await getEmergencyInfo(upperId);
-            if (emInfo) {
-                // Override Cognito data with explicit emergency info if available
-                if (emInfo.allergies.length > 0) allergies = emInfo.allergies;
-                if (emInfo.criticalMeds.length > 0) criticalMedications = emInfo.criticalMeds;
-                showBloodGroup = emInfo.showBloodGroup;
-                showAllergies  = emInfo.showAllergies;
-                showMeds       = emInfo.showMeds;
-                showContacts   = emInfo.showContacts;
-                if (emInfo.updatedAt) updatedAt = emInfo.updatedAt;
+            if (Array.isArray(meta.allergies)) {
+                for (const a of meta.allergies) if (typeof a === "string" && a.trim()) recordAllergies.add(a.trim());
+            }
+            if (Array.isArray(meta.diagnoses)) {
+                for (const d of meta.diagnoses) if (typeof d === "string" && d.trim()) recordConditions.add(d.trim());
             }
-        } catch (prefsErr) {
-            console.error("Emergency info prefs fetch failed:", prefsErr);
         }
 
-        // 3. DynamoDB prefs — emergency contacts
-        try {
-            const contacts = await getEmergencyContacts(upperId);
-            if (contacts.length > 0) {
-                emergencyContacts = contacts as { name: string; relationship: string; phone: string }[];
+        // Merge: health records supplement profile data (dedup)
+        if (recordAllergies.size > 0) {
+            const merged = new Set(allergies.map(a => a.toLowerCase()));
+            for (const a of recordAllergies) {
+                if (!merged.has(a.toLowerCase())) { allergies.push(a); merged.add(a.toLowerCase()); }
             }
-        } catch (contactsErr) {
-            console.error("Emergency contacts fetch failed:", contactsErr);
         }
+        // Only what is being taken now — stopped, replaced and finished
+        // courses are left out; brand and generic duplicates collapse
+        const sources: CourseSource[] = (records.Items ?? []).map((item) => ({
+            entryId: item.entryId,
+            date: item.date,
+            title: item.title,
+            metadata: item.metadata && {
+                ...item.metadata,
+                medications: (Array.isArray(item.metadata.medications) ? item.metadata.medications : [])
+                    .map((m: unknown) => (typeof m === "string" ? { name: m.trim() } : m)),
+            },
+        }));
+        const merged = new Set(criticalMedications.map(medicationKey));
+        for (const course of activeCourses(reconcileMedications(sources))) {
+            if (!merged.has(course.key)) { criticalMedications.push(course.name); merged.add(course.key); }
+        }
+        if (recordConditions.size > 0) {
+            activeConditions = [...recordConditions];
+        }
+    } catch (recordsErr) {
+        console.error("Health records fetch failed (non-fatal):", recordsErr);
+    }
 
-        // 4. Health records — supplement with AI-extracted data from uploaded documents
-        try {
-            const records = await _ddbClient.send(
-                new QueryCommand({
-                    TableName: HEALTH_TABLE,
-                    KeyConditionExpression: "patientId = :pid",
-                    ExpressionAttributeValues: { ":pid": upperId },
-                    ScanIndexForward: false,
-                    Limit: 30,
-                })
-            );
-
-            const recordAllergies = new Set<string>();
-            const recordMeds = new Set<string>();
-            const recordConditions = new Set<string>();
-
-            for (const item of records.Items ?? []) {
-                const meta = item.metadata as Record<string, unknown> | undefined;
-                if (!meta) continue;
-
-                if (Array.isArray(meta.allergies)) {
-                    for (const a of meta.allergies) if (typeof a === "string" && a.trim()) recordAllergies.add(a.trim());
-                }
-                if (Array.isArray(meta.medications)) {
-                    for (const m of meta.medications) {
-                        if (typeof m === "string" && m.trim()) {
-                            recordMeds.add(m.trim());
-                        } else if (m && typeof m === "object" && "name" in m) {
-                            const name = (m as { name: string }).name?.trim();
-                            if (name) recordMeds.add(name);
-                        }
-                    }
-                }
-                if (Array.isArray(meta.diagnoses)) {
-                    for (const d of meta.diagnoses) if (typeof d === "string" && d.trim()) recordConditions.add(d.trim());
-                }
-            }
+    // 5. Apply patient's visibility preferences
+    const emergencyData = {
+        patientName,
+        patientAge,
+        bloodGroup: showBloodGroup ? bloodGroup : "Hidden by patient",
+        allergies: showAllergies ? allergies : [],
+        criticalMedications: showMeds ? criticalMedications : [],
+        emergencyContacts: showContacts ? emergencyContacts : [],
+        activeConditions,
+        updatedAt,
+    };
 
-            // Merge: health records supplement profile data (dedup)
-            if (recordAllergies.size > 0) {
-                const merged = new Set(allergies.map(a => a.toLowerCase()));
-                for (const a of recordAllergies) {
-                    if (!merged.has(a.toLowerCase())) { allergies.push(a); merged.add(a.toLowerCase()); }
-                }
-            }
-            if (recordMeds.size > 0) {
-                const merged = new Set(criticalMedications.map(m => m.toLowerCase()));
-                for (const m of recordMeds) {
-                    if (!merged.has(m.toLowerCase())) { criticalMedications.push(m); merged.add(m.toLowerCase()); }
-                }
-            }
-            if (recordConditions.size > 0) {
-                activeConditions = [...recordConditions];
-            }
-        } catch (recordsErr) {
-            console.error("Health records fetch failed (non-fatal):", recordsErr);
+    const accessedData = [
+        ...(showBloodGroup ? ["blood_group"] : []),
+        ...(showAllergies ? ["allergies"] : []),
+        ...(showMeds ? ["critical_medications"] : []),
+        ...(showContacts ? ["emergency_contacts"] : []),
+        "active_conditions",
+    ];
+
+    return { emergencyData, accessedData };
+}
+
+export async function POST(req: Request) {
+    try {
+        const body: AccessRequest = await req.json();
+
+        // Validate required fields
+        const { patientId, mciNumber, personnelName, institution, reason, geolocation } = body;
+        if (!patientId || !mciNumber || !personnelName || !institution || !reason) {
+            return NextResponse.json({ error: "All fields are required" }, { status: 400 });
+        }
+
+        if (!patientId.match(/^AS-\d{4}-\d{4}-\d{4}$/i)) {
+            return NextResponse.json({ error: "Invalid Patient Card ID format. Expected AS-XXXX-XXXX-XXXX" }, { status: 400 });
         }
 
-        // 5. Apply patient's visibility preferences
-        const emergencyData = {
-            patientName,
-            patientAge,
-            bloodGroup: showBloodGroup ? bloodGroup : "Hidden by patient",
-            allergies: showAllergies ? allergies : [],
-            criticalMedications: showMeds ? criticalMedications : [],
-            emergencyContacts: showContacts ? emergencyContacts : [],
-            activeConditions,
-            updatedAt,
-        };
+        const upperId = patientId.toUpperCase();
+        const { emergencyData, accessedData } = await loadEmergencyData(upperId);
+
+        // Persist the timed session and log it (Req 6.7) before any data leaves
+        const session = await initiateBreakGlass(
+            {
+                patientId: upperId,
+                credentials: {
+                    mciRegistrationNumber: mciNumber,
+                    personnelName,
+                    institution,
+                    designation: "",
+                },
+                geoLocation: geolocation,
+                reason,
+            },
+            accessedData
+        );
 
         return NextResponse.json({
-            sessionId,
-            expiresAt: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+            sessionId: session.sessionId,
+            expiresAt: session.expiresAt,
             emergencyData,
+            notified: (session.notifications ?? []).filter((n) => n.delivered).length,
         });
     } catch (err) {
+        const msg = (err as Error).message ?? "";
+        if (msg.startsWith("BREAKGLASS_GEOLOCATION_REQUIRED")) {
+            return NextResponse.json({ error: "Location access is required for emergency access." }, { status: 400 });
+        }
         console.error("Emergency access error:", err);
         return NextResponse.json({ error: "Emergency access request failed" }, { status: 500 });
     }
 }
+
+export async function GET(req: Request) {
+    const sessionId = new URL(req.url).searchParams.get("sessionId");
+    if (!sessionId) {
+        return NextResponse.json({ error: "sessionId is required" }, { status: 400 });
+    }
+
+    try {
+        const session = await validateBreakGlassSession(sessionId);
+        if (!session) {
+            return NextResponse.json({ error: "Emergency session has ended", code: "BREAKGLASS_EXPIRED" }, { status: 410 });
+        }
+
+        const { emergencyData } = await loadEmergencyData(session.patientId);
+        const { mciRegistrationNumber, personnelName } = session.personnelCredentials;
+        logAccess(session.patientId, "BREAKGLASS_VIEW", emergencyActor(mciRegistrationNumber, personnelName), {}, sessionId)
+            .catch((dbErr) => console.error("DynamoDB audit log failed (non-blocking):", dbErr));
+
+        return NextResponse.json({ sessionId, expiresAt: session.expiresAt, emergencyData });
+    } catch (err) {
+        console.error("Emergency session read error:", err);
+        return NextResponse.json({ error: "Emergency access request failed" }, { status: 500 });
+    }
+}
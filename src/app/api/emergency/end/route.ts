@@ -0,0 +1,31 @@
+// ============================================================
+// End Break-Glass Session
+// POST /api/emergency/end  { sessionId }
+// Called by the responder ("End Session") or when the client
+// countdown runs out. Writes the closing BreakGlassLog.
+// ============================================================
+
+import { NextResponse } from "next/server";
+import { endBreakGlassSession } from "../../../../lib/services/access.service";
+
+export async function POST(req: Request) {
+    try {
+        const { sessionId } = await req.json();
+        if (!sessionId || typeof sessionId !== "string") {
+            return NextResponse.json({ error: "sessionId is required" }, { status: 400 });
+        }
+
+        // The session ID is the responder's only credential — unknown and
+        // already-closed sessions get the same answer
+        const ended = await endBreakGlassSession(sessionId);
+        return NextResponse.json({ ended });
+    } catch (err) {
+        const msg = (err as Error).message ?? "Unknown error";
+        console.error("[/api/emergency/end]", msg);
+        const isDev = process.env.NODE_ENV === "development";
+        return NextResponse.json(
+            { error: isDev ? msg : "Failed to end emergency session." },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,34 @@
+// ============================================================
+// Break-Glass Sweeper
+// POST /api/emergency/sweep  { adminSecret }
+// Closes sessions that timed out without an explicit end (tab
+// closed, device lost). Run on a schedule, e.g. every minute
+// from EventBridge Scheduler. DynamoDB TTL only purges the items
+// a week later, once their closing log is written.
+// ============================================================
+
+import { NextResponse } from "next/server";
+import { sweepExpiredBreakGlassSessions } from "../../../../lib/services/access.service";
+
+export async function POST(req: Request) {
+    try {
+        const { adminSecret } = await req.json().catch(() => ({}));
+        if (!process.env.ADMIN_SECRET || adminSecret !== process.env.ADMIN_SECRET) {
+            return NextResponse.json(
+                { error: "Unauthorized — invalid admin secret" },
+                { status: 401 }
+            );
+        }
+
+        const closed = await sweepExpiredBreakGlassSessions();
+        return NextResponse.json({ closed });
+    } catch (err) {
+        const msg = (err as Error).message ?? "Unknown error";
+        console.error("[/api/emergency/sweep]", msg);
+        const isDev = process.env.NODE_ENV === "development";
+        return NextResponse.json(
+            { error: isDev ? msg : "Sweep failed." },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,44 @@
+// ============================================================
+// Guardian Links API
+// GET    /api/guardian/links              → { dependents: string[] }
+// DELETE /api/guardian/links?cardId=...   → unlinks a dependent
+// Always scoped to the calling guardian's own links.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { getGuardianDependents, putGuardianDependents } from "../../../../lib/aws/dynamodb";
+import { requireCaller } from "../../../../lib/auth/guard";
+
+const isDev = process.env.NODE_ENV === "development";
+
+export async function GET(req: NextRequest) {
+    const caller = await requireCaller(req, "patient");
+    if (caller instanceof NextResponse) return caller;
+
+    try {
+        const dependents = await getGuardianDependents(caller.userId);
+        return NextResponse.json({ dependents });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/guardian/links GET]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to load linked cards" }, { status: 500 });
+    }
+}
+
+export async function DELETE(req: NextRequest) {
+    const caller = await requireCaller(req, "patient");
+    if (caller instanceof NextResponse) return caller;
+
+    const cardId = req.nextUrl.searchParams.get("cardId")?.toUpperCase();
+    if (!cardId) return NextResponse.json({ error: "cardId is required" }, { status: 400 });
+
+    try {
+        const dependents = await getGuardianDependents(caller.userId);
+        await putGuardianDependents(caller.userId, dependents.filter((d) => d !== cardId));
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/guardian/links DELETE]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to unlink card" }, { status: 500 });
+    }
+}
@@ -2,29 +2,35 @@
 // Guardian Validate API
 // POST /api/guardian/validate
 // Verifies a dependent patient card ID and DOB match, returns profile.
-// Used by the guardian when linking a dependent card.
+// Used by the guardian when linking a dependent card. On success the
+// link is recorded server-side so the API guard honours it.
 // ============================================================
 
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getPatientUser } from "../../../../lib/aws/cognito";
+import { getGuardianDependents, putGuardianDependents } from "../../../../lib/aws/dynamodb";
+import { requireCaller } from "../../../../lib/auth/guard";
 
 function attr(attrs: { Name?: string; Value?: string }[], name: string): string {
     return attrs.find((a) => a.Name === name)?.Value ?? "";
 }
 
 interface ValidateRequest {
-    guardianId: string;
     dependentCardId: string;
     dependentDob: string; // YYYY-MM-DD
 }
 
-export async function POST(req: Request) {
+export async function POST(req: NextRequest) {
+    const caller = await requireCaller(req, "patient");
+    if (caller instanceof NextResponse) return caller;
+    const guardianId = caller.userId;
+
     try {
         const body: ValidateRequest = await req.json();
-        const { guardianId, dependentCardId, dependentDob } = body;
+        const { dependentCardId, dependentDob } = body;
 
-        if (!guardianId || !dependentCardId || !dependentDob) {
-            return NextResponse.json({ error: "guardianId, dependentCardId, and dependentDob are required" }, { status: 400 });
+        if (!dependentCardId || !dependentDob) {
+            return NextResponse.json({ error: "dependentCardId and dependentDob are required" }, { status: 400 });
         }
 
         // Basic card ID format validation
@@ -55,11 +61,18 @@ export async function POST(req: Request) {
         }
 
         const name = attr(attrs, "name") || dependentCardId.toUpperCase();
+        const gender = attr(attrs, "gender");
+
+        const linked = await getGuardianDependents(guardianId);
+        if (!linked.includes(dependentCardId.toUpperCase())) {
+            await putGuardianDependents(guardianId, [...linked, dependentCardId.toUpperCase()]);
+        }
 
         return NextResponse.json({
             cardId: dependentCardId.toUpperCase(),
             name,
             dob: storedDob,
+            ...(gender && { gender }),
         });
     } catch (err) {
         console.error("Guardian validate error:", err);
@@ -0,0 +1,53 @@
+// ============================================================
+// Health Insights API
+// GET   /api/insights?patientId=  → { insights } (rules re-run, then
+//       the open ones, most severe first)
+// PATCH /api/insights { patientId, insightIds, action: "read" | "dismiss" }
+//       → { ok } — the patient (or their guardian) marking insights
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePatientAccess } from "../../../lib/auth/guard";
+import { getPatientInsights, updateInsights } from "../../../lib/services/insight.service";
+
+const isDev = process.env.NODE_ENV === "development";
+const MAX_IDS = 100;
+
+export async function GET(req: NextRequest) {
+    const patientId = req.nextUrl.searchParams.get("patientId");
+    if (!patientId) {
+        return NextResponse.json({ error: "patientId is required" }, { status: 400 });
+    }
+    const access = await requirePatientAccess(req, patientId, "read");
+    if (access instanceof NextResponse) return access;
+
+    try {
+        return NextResponse.json({ insights: await getPatientInsights(patientId) });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/insights GET]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to load insights" }, { status: 500 });
+    }
+}
+
+export async function PATCH(req: NextRequest) {
+    const body = await req.json().catch(() => null);
+    const patientId = body?.patientId;
+    const insightIds = body?.insightIds;
+    const action = body?.action;
+    if (!patientId || !Array.isArray(insightIds) || insightIds.some((id: unknown) => typeof id !== "string") ||
+        (action !== "read" && action !== "dismiss")) {
+        return NextResponse.json({ error: "patientId, insightIds[] and action (read | dismiss) are required" }, { status: 400 });
+    }
+    const access = await requirePatientAccess(req, patientId, "manage");
+    if (access instanceof NextResponse) return access;
+
+    try {
+        await updateInsights(patientId, (insightIds as string[]).slice(0, MAX_IDS), action);
+        return NextResponse.json({ ok: true });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/insights PATCH]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to update insights" }, { status: 500 });
+    }
+}
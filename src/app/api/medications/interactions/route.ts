@@ -0,0 +1,36 @@
+// ============================================================
+// Interaction Check API
+// POST /api/medications/interactions { patientId, medications: string[] }
+//   → { warnings } — the listed medicines checked against each other,
+//     the patient's current courses and recorded allergies. Read-only:
+//     the prescribing screen calls it while the doctor types.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePatientAccess } from "../../../../lib/auth/guard";
+import { checkNewMedications } from "../../../../lib/services/medication.service";
+import { INTERACTION_DATA_VERSION } from "../../../../lib/medications/interactionData";
+
+const isDev = process.env.NODE_ENV === "development";
+const MAX_LINES = 30;
+
+export async function POST(req: NextRequest) {
+    const body = await req.json().catch(() => null);
+    const patientId = body?.patientId;
+    const medications = body?.medications;
+    if (!patientId || !Array.isArray(medications) || medications.some((m: unknown) => typeof m !== "string")) {
+        return NextResponse.json({ error: "patientId and medications[] are required" }, { status: 400 });
+    }
+    const access = await requirePatientAccess(req, patientId, "read");
+    if (access instanceof NextResponse) return access;
+
+    const lines = (medications as string[]).map((m) => m.trim()).filter(Boolean).slice(0, MAX_LINES);
+    try {
+        const warnings = lines.length ? await checkNewMedications(patientId, lines) : [];
+        return NextResponse.json({ warnings, datasetVersion: INTERACTION_DATA_VERSION });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/medications/interactions POST]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to check interactions" }, { status: 500 });
+    }
+}
@@ -0,0 +1,30 @@
+// ============================================================
+// Current Medications API
+// GET /api/medications?patientId=  → { active, courses }
+// Reconciled from prescriptions and stop/change instructions
+// (lib/medications/courses). Only entries the server can read
+// contribute — sealed ones are reconciled on the patient's device.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePatientAccess } from "../../../lib/auth/guard";
+import { getMedicationList } from "../../../lib/services/medication.service";
+
+const isDev = process.env.NODE_ENV === "development";
+
+export async function GET(req: NextRequest) {
+    const patientId = req.nextUrl.searchParams.get("patientId");
+    if (!patientId) {
+        return NextResponse.json({ error: "patientId is required" }, { status: 400 });
+    }
+    const access = await requirePatientAccess(req, patientId, "read");
+    if (access instanceof NextResponse) return access;
+
+    try {
+        return NextResponse.json(await getMedicationList(patientId));
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/medications GET]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to load medications" }, { status: 500 });
+    }
+}
@@ -0,0 +1,78 @@
+// ============================================================
+// Notifications API — the signed-in user's own notifications
+// GET   /api/notifications?category=&unread=1&limit=&cursor=
+//       → { notifications, nextCursor?, unreadCount }
+// PATCH /api/notifications  { ids: string[] } | { all: true }
+//       → marks them read
+// Notifications are created server-side by the routes that
+// cause them (lib/services/notification.service).
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { markAllNotificationsRead, markNotificationsRead } from "../../../lib/aws/dynamodb";
+import { requireCaller } from "../../../lib/auth/guard";
+import { getNotifications } from "../../../lib/services/notification.service";
+import type { NotificationCategory } from "../../../lib/types/notification";
+
+const isDev = process.env.NODE_ENV === "development";
+const CATEGORIES: NotificationCategory[] = ["system", "security", "health"];
+const MAX_LIMIT = 50;
+const MAX_IDS = 100;
+
+export async function GET(req: NextRequest) {
+    const caller = await requireCaller(req);
+    if (caller instanceof NextResponse) return caller;
+
+    const params = req.nextUrl.searchParams;
+    const category = params.get("category") as NotificationCategory | null;
+    if (category && !CATEGORIES.includes(category)) {
+        return NextResponse.json({ error: `category must be one of ${CATEGORIES.join(", ")}` }, { status: 400 });
+    }
+    const limit = Math.min(Number(params.get("limit")) || 20, MAX_LIMIT);
+
+    const cursor = params.get("cursor") ?? undefined;
+    if (cursor) {
+        try {
+            const key = JSON.parse(cursor);
+            if (key?.userId !== caller.userId) throw new Error("foreign cursor");
+        } catch {
+            return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+        }
+    }
+
+    try {
+        const page = await getNotifications({
+            userId: caller.userId,
+            category: category ?? undefined,
+            unreadOnly: params.get("unread") === "1",
+            limit,
+            cursor,
+        });
+        return NextResponse.json(page);
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/notifications GET]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to load notifications" }, { status: 500 });
+    }
+}
+
+export async function PATCH(req: NextRequest) {
+    const caller = await requireCaller(req);
+    if (caller instanceof NextResponse) return caller;
+
+    try {
+        const { ids, all } = await req.json().catch(() => ({}));
+        if (all === true) {
+            await markAllNotificationsRead(caller.userId);
+        } else if (Array.isArray(ids) && ids.length <= MAX_IDS && ids.every((id) => typeof id === "string")) {
+            await markNotificationsRead(caller.userId, ids);
+        } else {
+            return NextResponse.json({ error: `ids (string[], max ${MAX_IDS}) or all: true is required` }, { status: 400 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/notifications PATCH]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to update notifications" }, { status: 500 });
+    }
+}
@@ -0,0 +1,36 @@
+// ============================================================
+// Notification Reminder Sweeper
+// POST /api/notifications/sweep  { adminSecret }
+// Sends appointment reminders (the day before), refill-due
+// notices for doctor-written prescriptions, dose pushes and
+// preventive-care (vaccine and screening) reminders.
+// Run on a schedule, every 15 minutes from EventBridge Scheduler
+// so dose reminders land near their slot — each reminder is
+// claimed on its source item, so reruns are harmless.
+// ============================================================
+
+import { NextResponse } from "next/server";
+import { sendScheduledReminders } from "../../../../lib/services/notification.service";
+
+export async function POST(req: Request) {
+    try {
+        const { adminSecret } = await req.json().catch(() => ({}));
+        if (!process.env.ADMIN_SECRET || adminSecret !== process.env.ADMIN_SECRET) {
+            return NextResponse.json(
+                { error: "Unauthorized — invalid admin secret" },
+                { status: 401 }
+            );
+        }
+
+        const sent = await sendScheduledReminders();
+        return NextResponse.json(sent);
+    } catch (err) {
+        const msg = (err as Error).message ?? "Unknown error";
+        console.error("[/api/notifications/sweep]", msg);
+        const isDev = process.env.NODE_ENV === "development";
+        return NextResponse.json(
+            { error: isDev ? msg : "Sweep failed." },
+            { status: 500 }
+        );
+    }
+}
@@ -1,7 +1,8 @@
 // ============================================================
 // Patient Lookup API — Server-side, doctor-authenticated
 // POST /api/patient/lookup
-// Looks up patient profile by Card ID from Cognito Patient Pool
+// Looks up patient profile by Card ID from Cognito Patient Pool.
+// Requires an active access grant from the patient.
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
@@ -9,6 +10,7 @@ import {
     CognitoIdentityProviderClient,
     AdminGetUserCommand,
 } from "@aws-sdk/client-cognito-identity-provider";
+import { requireCaller, requirePatientAccess } from "../../../../lib/auth/guard";
 
 // Amplify blocks env vars starting with "AWS_" so we use APP_AWS_* as a workaround.
 const explicitCreds =
@@ -39,6 +41,9 @@ function calculateAge(dateOfBirth: string): number {
 }
 
 export async function POST(req: NextRequest) {
+    const caller = await requireCaller(req, "doctor");
+    if (caller instanceof NextResponse) return caller;
+
     try {
         const { cardId } = await req.json();
 
@@ -46,6 +51,9 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: "cardId is required" }, { status: 400 });
         }
 
+        const access = await requirePatientAccess(req, cardId, "read");
+        if (access instanceof NextResponse) return access;
+
         if (!PATIENT_POOL_ID) {
             return NextResponse.json({ error: "Patient pool not configured" }, { status: 500 });
         }
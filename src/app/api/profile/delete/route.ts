@@ -1,10 +1,15 @@
 // ============================================================
 // DELETE /api/profile/delete
-// Permanently deletes a patient account from Cognito.
+// Permanently deletes a patient account: the data kept beside the
+// health records (vault key, grants, notifications, doses, insights,
+// conversations) first, then the Cognito user — so a failure part
+// way leaves an account the patient can still sign in to and retry.
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
 import { deletePatientUser } from "../../../../lib/aws/cognito";
+import { deleteAccountData } from "../../../../lib/aws/dynamodb";
+import { requirePatientAccess } from "../../../../lib/auth/guard";
 
 export async function DELETE(req: NextRequest) {
     try {
@@ -12,6 +17,12 @@ export async function DELETE(req: NextRequest) {
         if (!userId) {
             return NextResponse.json({ error: "Missing userId" }, { status: 400 });
         }
+
+        // Account deletion is owner-only — guardians and doctors can't do it
+        const access = await requirePatientAccess(req, userId, "owner");
+        if (access instanceof NextResponse) return access;
+
+        await deleteAccountData(access.caller.userId);
         await deletePatientUser(userId);
         return NextResponse.json({ success: true });
     } catch (err) {
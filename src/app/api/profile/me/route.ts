@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import * as cognito from "../../../../lib/aws/cognito";
 import * as dynamodb from "../../../../lib/aws/dynamodb";
+import { forbidden, requireCaller, requirePatientAccess } from "../../../../lib/auth/guard";
 
 export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url);
@@ -17,6 +18,15 @@ export async function GET(req: NextRequest) {
         return NextResponse.json({ error: "Missing userId or role" }, { status: 400 });
     }
 
+    if (role === "patient") {
+        const access = await requirePatientAccess(req, userId, "read");
+        if (access instanceof NextResponse) return access;
+    } else {
+        const caller = await requireCaller(req, "doctor");
+        if (caller instanceof NextResponse) return caller;
+        if (caller.userId !== userId) return forbidden();
+    }
+
     try {
         if (role === "patient") {
             const [user, emergencyContacts] = await Promise.all([
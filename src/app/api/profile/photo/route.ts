@@ -1,7 +1,7 @@
 // ============================================================
 // Profile Photo API — Upload & Retrieve with KMS encryption
 // PUT /api/profile/photo  — Upload photo (multipart or base64)
-// GET /api/profile/photo?userId=xxx&role=patient|doctor
+// GET /api/profile/photo?userId=xxx&role=patient|doctor[&sessionId=<break-glass>]
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
@@ -11,6 +11,8 @@ import {
     GetObjectCommand,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { forbidden, requireCaller, requirePatientAccess } from "../../../../lib/auth/guard";
+import { validateBreakGlassSession } from "../../../../lib/services/access.service";
 
 const region = process.env.NEXT_PUBLIC_AWS_REGION || process.env.APP_AWS_REGION || "ap-south-1";
 const BUCKET = process.env.NEXT_PUBLIC_S3_BUCKET!;
@@ -45,6 +47,20 @@ export async function GET(req: NextRequest) {
             return NextResponse.json({ error: "userId is required" }, { status: 400 });
         }
 
+        // Doctor photos are shown to any signed-in user; patient photos follow
+        // record access, or a live Break-Glass session for that patient
+        const sessionId = searchParams.get("sessionId");
+        if (role === "patient" && sessionId) {
+            const session = await validateBreakGlassSession(sessionId);
+            if (!session || session.patientId !== userId.toUpperCase()) return forbidden();
+        } else if (role === "patient") {
+            const access = await requirePatientAccess(req, userId, "read");
+            if (access instanceof NextResponse) return access;
+        } else {
+            const caller = await requireCaller(req);
+            if (caller instanceof NextResponse) return caller;
+        }
+
         if (!BUCKET) {
             return NextResponse.json({ error: "S3 bucket not configured" }, { status: 500 });
         }
@@ -79,6 +95,10 @@ export async function PUT(req: NextRequest) {
             return NextResponse.json({ error: "userId and imageBase64 are required" }, { status: 400 });
         }
 
+        const caller = await requireCaller(req);
+        if (caller instanceof NextResponse) return caller;
+        if (caller.userId !== userId || caller.role !== role) return forbidden();
+
         if (!BUCKET) {
             return NextResponse.json({ error: "S3 bucket not configured" }, { status: 500 });
         }
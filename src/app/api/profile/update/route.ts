@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import * as cognito from "../../../../lib/aws/cognito";
 import * as dynamodb from "../../../../lib/aws/dynamodb";
+import { forbidden, requireCaller, requirePatientAccess } from "../../../../lib/auth/guard";
 
 export async function POST(req: NextRequest) {
     try {
@@ -21,6 +22,16 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
         }
 
+        // Callers may only edit their own profile; doctors reach patient
+        // vitals through targetPatientId, which needs an append grant
+        const caller = await requireCaller(req);
+        if (caller instanceof NextResponse) return caller;
+        if (caller.userId !== userId || caller.role !== role) return forbidden();
+        if (role === "doctor" && updates.targetPatientId) {
+            const access = await requirePatientAccess(req, updates.targetPatientId, "append");
+            if (access instanceof NextResponse) return access;
+        }
+
         if (role === "patient") {
             // Patients are NOT allowed to update BP or temperature (doctor-only fields)
             if (updates.bpSystolic || updates.bpDiastolic || updates.temperature) {
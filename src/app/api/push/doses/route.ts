@@ -0,0 +1,48 @@
+// ============================================================
+// Dose Reminder Plan API
+// PUT /api/push/doses  { planDate, doses: [{ slot, at, count }] }
+// The dashboard registers today's medication slots (worked out
+// client-side from decrypted prescriptions) so the sweep can
+// push a reminder at each one. Only times and counts arrive
+// here — never medication names.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireCaller } from "../../../../lib/auth/guard";
+import { registerDosePlan } from "../../../../lib/services/push.service";
+import type { TimeSlot } from "../../../../lib/utils/medSchedule";
+
+const isDev = process.env.NODE_ENV === "development";
+const SLOTS: TimeSlot[] = ["Morning", "Afternoon", "Evening", "Night"];
+
+export async function PUT(req: NextRequest) {
+    const caller = await requireCaller(req);
+    if (caller instanceof NextResponse) return caller;
+
+    const { planDate, doses } = await req.json().catch(() => ({}));
+    const valid = typeof planDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(planDate)
+        && Array.isArray(doses) && doses.length <= SLOTS.length
+        && doses.every((d) =>
+            SLOTS.includes(d?.slot)
+            && typeof d.at === "string" && !Number.isNaN(Date.parse(d.at))
+            && Number.isInteger(d.count) && d.count > 0);
+    if (!valid) {
+        return NextResponse.json(
+            { error: `planDate (YYYY-MM-DD) and doses [{ slot: ${SLOTS.join("|")}, at: ISO time, count }] are required` },
+            { status: 400 }
+        );
+    }
+
+    try {
+        await registerDosePlan(
+            caller.userId,
+            planDate,
+            doses.map((d: { slot: string; at: string; count: number }) => ({ slot: d.slot, at: new Date(d.at).toISOString(), count: d.count }))
+        );
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/push/doses PUT]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to register dose reminders" }, { status: 500 });
+    }
+}
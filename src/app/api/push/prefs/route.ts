@@ -0,0 +1,51 @@
+// ============================================================
+// Reminder Preferences API — the signed-in user's switches
+// GET   /api/push/prefs → { appointmentReminders, doseReminders, preventiveReminders }
+// PATCH /api/push/prefs  { appointmentReminders?, doseReminders?, preventiveReminders? }
+// Apply to every device; appointment reminders are also left
+// out of the in-app list when switched off.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireCaller } from "../../../../lib/auth/guard";
+import { getNotificationPrefs, updateNotificationPrefs } from "../../../../lib/services/push.service";
+import type { NotificationPrefs } from "../../../../lib/types/notification";
+
+const isDev = process.env.NODE_ENV === "development";
+const KEYS: (keyof NotificationPrefs)[] = ["appointmentReminders", "doseReminders", "preventiveReminders"];
+
+export async function GET(req: NextRequest) {
+    const caller = await requireCaller(req);
+    if (caller instanceof NextResponse) return caller;
+
+    try {
+        return NextResponse.json(await getNotificationPrefs(caller.userId));
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/push/prefs GET]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to load reminder settings" }, { status: 500 });
+    }
+}
+
+export async function PATCH(req: NextRequest) {
+    const caller = await requireCaller(req);
+    if (caller instanceof NextResponse) return caller;
+
+    const body = await req.json().catch(() => ({}));
+    const patch: Partial<NotificationPrefs> = {};
+    for (const key of KEYS) {
+        if (body[key] === undefined) continue;
+        if (typeof body[key] !== "boolean") {
+            return NextResponse.json({ error: `${key} must be a boolean` }, { status: 400 });
+        }
+        patch[key] = body[key];
+    }
+
+    try {
+        return NextResponse.json(await updateNotificationPrefs(caller.userId, patch));
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/push/prefs PATCH]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to save reminder settings" }, { status: 500 });
+    }
+}
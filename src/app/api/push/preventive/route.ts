@@ -0,0 +1,57 @@
+// ============================================================
+// Preventive Care Reminder Plan API
+// PUT /api/push/preventive  { patientId, patientName?, dates: [{ dueDate, vaccines, screenings }] }
+// The dashboard registers the upcoming vaccine and screening
+// dates of the patient on screen — the user's own, or a
+// dependent's for a guardian — worked out client-side from the
+// decrypted timeline. Only dates and counts arrive here.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePatientAccess } from "../../../../lib/auth/guard";
+import { registerPreventivePlan } from "../../../../lib/services/push.service";
+
+const isDev = process.env.NODE_ENV === "development";
+const MAX_DATES = 50;
+const MAX_NAME_LENGTH = 80;
+
+function isCount(n: unknown): boolean {
+    return Number.isInteger(n) && (n as number) >= 0;
+}
+
+export async function PUT(req: NextRequest) {
+    const { patientId, patientName, dates } = await req.json().catch(() => ({}));
+    const valid = typeof patientId === "string" && patientId.length > 0
+        && (patientName === undefined || (typeof patientName === "string" && patientName.length <= MAX_NAME_LENGTH))
+        && Array.isArray(dates) && dates.length <= MAX_DATES
+        && dates.every((d) =>
+            typeof d?.dueDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(d.dueDate)
+            && isCount(d.vaccines) && isCount(d.screenings) && d.vaccines + d.screenings > 0);
+    if (!valid) {
+        return NextResponse.json(
+            { error: `patientId and dates [{ dueDate: YYYY-MM-DD, vaccines, screenings }] (at most ${MAX_DATES}) are required` },
+            { status: 400 }
+        );
+    }
+
+    const access = await requirePatientAccess(req, patientId, "manage");
+    if (access instanceof NextResponse) return access;
+
+    try {
+        await registerPreventivePlan(
+            access.caller.userId,
+            patientId.toUpperCase(),
+            dates.map((d: { dueDate: string; vaccines: number; screenings: number }) => ({
+                dueDate: d.dueDate,
+                vaccines: d.vaccines,
+                screenings: d.screenings,
+            })),
+            patientName?.trim() || undefined
+        );
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/push/preventive PUT]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to register preventive care reminders" }, { status: 500 });
+    }
+}
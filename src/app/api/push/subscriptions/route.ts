@@ -0,0 +1,61 @@
+// ============================================================
+// Push Subscriptions API — this device's Web Push registration
+// POST   /api/push/subscriptions  { subscription: PushSubscriptionJSON }
+// DELETE /api/push/subscriptions  { endpoint }
+// Each signed-in user keeps one item per device; the Settings
+// "Push Notifications" switch adds or removes it.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireCaller } from "../../../../lib/auth/guard";
+import { registerPushSubscription, unregisterPushSubscription } from "../../../../lib/services/push.service";
+
+const isDev = process.env.NODE_ENV === "development";
+
+function isHttpsUrl(value: unknown): value is string {
+    return typeof value === "string" && value.length <= 1024 && value.startsWith("https://");
+}
+
+export async function POST(req: NextRequest) {
+    const caller = await requireCaller(req);
+    if (caller instanceof NextResponse) return caller;
+
+    const { subscription } = await req.json().catch(() => ({}));
+    if (!isHttpsUrl(subscription?.endpoint)
+        || typeof subscription.keys?.p256dh !== "string"
+        || typeof subscription.keys?.auth !== "string") {
+        return NextResponse.json({ error: "subscription with endpoint and keys is required" }, { status: 400 });
+    }
+
+    try {
+        const stored = await registerPushSubscription(
+            caller.userId,
+            subscription,
+            req.headers.get("user-agent") ?? undefined
+        );
+        return NextResponse.json({ subscriptionId: stored.subscriptionId }, { status: 201 });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/push/subscriptions POST]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to register this device" }, { status: 500 });
+    }
+}
+
+export async function DELETE(req: NextRequest) {
+    const caller = await requireCaller(req);
+    if (caller instanceof NextResponse) return caller;
+
+    const { endpoint } = await req.json().catch(() => ({}));
+    if (!isHttpsUrl(endpoint)) {
+        return NextResponse.json({ error: "endpoint is required" }, { status: 400 });
+    }
+
+    try {
+        await unregisterPushSubscription(caller.userId, endpoint);
+        return NextResponse.json({ success: true });
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/push/subscriptions DELETE]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to unregister this device" }, { status: 500 });
+    }
+}
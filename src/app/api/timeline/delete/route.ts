@@ -6,6 +6,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, DeleteCommand } from "@aws-sdk/lib-dynamodb";
+import { requirePatientAccess } from "../../../../lib/auth/guard";
+import { invalidateResourceCache } from "../../../../lib/rag/retriever";
 
 const region = process.env.NEXT_PUBLIC_AWS_REGION || process.env.APP_AWS_REGION || "ap-south-1";
 const creds =
@@ -22,7 +24,11 @@ export async function DELETE(req: NextRequest) {
         if (!patientId || !entryId) {
             return NextResponse.json({ error: "Missing patientId or entryId" }, { status: 400 });
         }
+
+        const access = await requirePatientAccess(req, patientId, "manage");
+        if (access instanceof NextResponse) return access;
         await db.send(new DeleteCommand({ TableName: TABLE, Key: { patientId, entryId } }));
+        invalidateResourceCache(patientId);
         return NextResponse.json({ success: true });
     } catch (err) {
         console.error("[/api/timeline/delete]", err);
@@ -0,0 +1,30 @@
+// ============================================================
+// GET /api/timeline/document-blob?s3Key=patients/...
+// Returns a sealed document (SerializedEncryptedBlob) for
+// decryption in the browser. Proxied rather than presigned so the
+// client can read the JSON body without bucket CORS rules.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { downloadEncryptedBlob } from "../../../../lib/aws/s3";
+import { patientIdFromKey, requirePatientAccess } from "../../../../lib/auth/guard";
+
+export async function GET(req: NextRequest) {
+    const s3Key = req.nextUrl.searchParams.get("s3Key");
+
+    const ownerId = s3Key ? patientIdFromKey(s3Key) : null;
+    if (!s3Key || !ownerId) {
+        return NextResponse.json({ error: "Missing or invalid s3Key" }, { status: 400 });
+    }
+
+    const access = await requirePatientAccess(req, ownerId, "read");
+    if (access instanceof NextResponse) return access;
+
+    try {
+        const blob = await downloadEncryptedBlob(s3Key);
+        return NextResponse.json({ blob });
+    } catch (err) {
+        console.error("[/api/timeline/document-blob]", (err as Error).message);
+        return NextResponse.json({ error: "Failed to load document" }, { status: 500 });
+    }
+}
@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { forbidden, patientIdFromKey, requirePatientAccess } from "../../../../lib/auth/guard";
 
 const region = process.env.NEXT_PUBLIC_AWS_REGION || process.env.APP_AWS_REGION || "ap-south-1";
 const S3_BUCKET = process.env.NEXT_PUBLIC_S3_BUCKET || "";
@@ -30,6 +31,11 @@ export async function GET(req: NextRequest) {
         return NextResponse.json({ error: "Missing s3Key" }, { status: 400 });
     }
 
+    const ownerId = patientIdFromKey(s3Key);
+    if (!ownerId) return forbidden();
+    const access = await requirePatientAccess(req, ownerId, "read");
+    if (access instanceof NextResponse) return access;
+
     if (!S3_BUCKET) {
         return NextResponse.json({ error: "S3 bucket not configured" }, { status: 500 });
     }
@@ -8,6 +8,7 @@ import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, QueryCommand } from "@aws-sdk/lib-dynamodb";
 import { randomUUID } from "crypto";
 import { putAuditLog } from "../../../../lib/aws/dynamodb";
+import { requirePatientAccess } from "../../../../lib/auth/guard";
 
 const region = process.env.NEXT_PUBLIC_AWS_REGION || process.env.APP_AWS_REGION || "ap-south-1";
 
@@ -29,15 +30,14 @@ const TABLE = process.env.DYNAMODB_HEALTH_RECORDS_TABLE || "arogyasutra-health-r
 export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const patientId = searchParams.get("patientId");
-    // Optional actor context passed by the client (doctor viewing patient records)
-    const viewerType = searchParams.get("viewerType") as "PATIENT" | "DOCTOR" | null;
-    const viewerId = searchParams.get("viewerId");
-    const viewerName = searchParams.get("viewerName");
 
     if (!patientId) {
         return NextResponse.json({ error: "Missing patientId" }, { status: 400 });
     }
 
+    const access = await requirePatientAccess(req, patientId, "read");
+    if (access instanceof NextResponse) return access;
+
     try {
         const result = await db.send(
             new QueryCommand({
@@ -61,16 +61,20 @@ export async function GET(req: NextRequest) {
             createdAt: item.createdAt,
             updatedAt: item.updatedAt,
             encryptedBlobKey: item.encryptedBlobKey ?? "",
+            pageBlobKeys: item.pageBlobKeys,
             fhirResourceIds: item.fhirResourceIds ?? [],
             confidenceScore: item.confidenceScore,
             addedBy: item.addedBy,
             metadata: item.metadata ?? {},
+            encryptedMetadata: item.encryptedMetadata,
         }));
 
-        // Write audit log non-blocking (failure must not block the response)
-        const actorType = viewerType === "DOCTOR" ? "DOCTOR" : "PATIENT";
-        const actorId = viewerId ?? patientId;
-        const actorName = viewerName ?? (actorType === "PATIENT" ? "Patient" : "Doctor");
+        // Write audit log non-blocking (failure must not block the response).
+        // The actor is the verified caller, not whatever the client claims.
+        const { caller } = access;
+        const actorType = caller.role === "doctor" ? "DOCTOR" : "PATIENT";
+        const actorId = caller.userId;
+        const actorName = caller.name ?? (actorType === "PATIENT" ? "Patient" : "Doctor");
         const auditAction = actorType === "DOCTOR" ? "DOCTOR_VIEW_TIMELINE" : "TIMELINE_VIEW";
         putAuditLog({
             logId: randomUUID(),
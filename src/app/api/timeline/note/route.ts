@@ -8,6 +8,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, PutCommand } from "@aws-sdk/lib-dynamodb";
 import { randomUUID } from "crypto";
+import { forbidden, requirePatientAccess } from "../../../../lib/auth/guard";
+import { invalidateResourceCache } from "../../../../lib/rag/retriever";
+import { notifyUser } from "../../../../lib/services/notification.service";
 
 const region = process.env.NEXT_PUBLIC_AWS_REGION || process.env.APP_AWS_REGION || "ap-south-1";
 
@@ -51,6 +54,10 @@ export async function POST(req: NextRequest) {
             );
         }
 
+        const access = await requirePatientAccess(req, patientId, "append");
+        if (access instanceof NextResponse) return access;
+        if (access.caller.role !== "doctor") return forbidden("Only doctors can add this record");
+
         const entryId = randomUUID();
         const now = new Date().toISOString();
         const today = now.split("T")[0];
@@ -72,7 +79,7 @@ export async function POST(req: NextRequest) {
             statusFlags: ["VERIFIED"],
             sourceInstitution: institution || undefined,
             doctorName: doctorName,
-            addedBy: { type: "DOCTOR", userId: mciNumber || doctorName, name: doctorName },
+            addedBy: { type: "DOCTOR", userId: access.caller.userId, name: doctorName, mciNumber: mciNumber || undefined },
             fhirResourceIds: [],
             metadata: {
                 chiefComplaint:       chiefComplaint || undefined,
@@ -88,6 +95,14 @@ export async function POST(req: NextRequest) {
         };
 
         await db.send(new PutCommand({ TableName: TABLE, Item: entry }));
+        invalidateResourceCache(patientId);
+        await notifyUser(patientId, {
+            type: "DOCTOR_ENTRY_ADDED",
+            patientId,
+            entryId,
+            entryTitle: title,
+            doctorName,
+        });
 
         return NextResponse.json({ success: true, entryId, entry }, { status: 201 });
     } catch (err) {
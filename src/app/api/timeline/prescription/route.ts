@@ -8,6 +8,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, PutCommand } from "@aws-sdk/lib-dynamodb";
 import { randomUUID } from "crypto";
+import { forbidden, requirePatientAccess } from "../../../../lib/auth/guard";
+import { invalidateResourceCache } from "../../../../lib/rag/retriever";
+import { notifyUser } from "../../../../lib/services/notification.service";
+import { raiseInteractionInsights } from "../../../../lib/services/medication.service";
+import { normalizeMedication } from "../../../../lib/medications";
 
 const region = process.env.NEXT_PUBLIC_AWS_REGION || process.env.APP_AWS_REGION || "ap-south-1";
 
@@ -49,6 +54,10 @@ export async function POST(req: NextRequest) {
             );
         }
 
+        const access = await requirePatientAccess(req, patientId, "append");
+        if (access instanceof NextResponse) return access;
+        if (access.caller.role !== "doctor") return forbidden("Only doctors can add this record");
+
         if (!medications || !medications.trim()) {
             return NextResponse.json(
                 { error: "At least one medication is required" },
@@ -60,12 +69,13 @@ export async function POST(req: NextRequest) {
         const now = new Date().toISOString();
         const today = now.split("T")[0];
 
-        // Parse medication lines into structured array
+        // Parse medication lines into structured array — each line kept as
+        // typed, with the generic, strength and form alongside
         const medicationList = (medications as string)
             .split("\n")
             .map((line: string) => line.trim())
             .filter(Boolean)
-            .map((line: string) => ({ name: line }));
+            .map((line: string) => normalizeMedication({ name: line }));
 
         const title = diagnosis
             ? `Prescription – ${diagnosis}`
@@ -84,7 +94,7 @@ export async function POST(req: NextRequest) {
             statusFlags: ["VERIFIED"],
             sourceInstitution: institution || undefined,
             doctorName: doctorName,
-            addedBy: { type: "DOCTOR", userId: mciNumber || doctorName, name: doctorName },
+            addedBy: { type: "DOCTOR", userId: access.caller.userId, name: doctorName, mciNumber: mciNumber || undefined },
             fhirResourceIds: [],
             metadata: {
                 diagnoses:     diagnosis ? [diagnosis] : undefined,
@@ -98,8 +108,19 @@ export async function POST(req: NextRequest) {
         };
 
         await db.send(new PutCommand({ TableName: TABLE, Item: entry }));
+        invalidateResourceCache(patientId);
+        await notifyUser(patientId, {
+            type: "DOCTOR_ENTRY_ADDED",
+            patientId,
+            entryId,
+            entryTitle: title,
+            doctorName,
+        });
+
+        // Saved regardless — the doctor saw these inline while writing it
+        const interactions = await raiseInteractionInsights(patientId, entryId, medicationList.map((m) => m.name));
 
-        return NextResponse.json({ success: true, entryId, entry }, { status: 201 });
+        return NextResponse.json({ success: true, entryId, entry, interactions }, { status: 201 });
     } catch (err) {
         const msg = (err as Error).message ?? "Unknown error";
         console.error("[/api/timeline/prescription]", msg);
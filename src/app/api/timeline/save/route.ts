@@ -1,12 +1,22 @@
 // ============================================================
 // POST /api/timeline/save
-// Saves a confirmed health record entry to DynamoDB
+// Saves a confirmed health record entry to DynamoDB.
+// Sealed entries carry encryptedMetadata + encryptedPhoto, or
+// encryptedPages for a multi-photo document (vault key, encrypted in
+// the browser); only the index fields below stay in the clear:
+// title, documentType, date, sourceInstitution, doctorName.
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, PutCommand } from "@aws-sdk/lib-dynamodb";
 import { randomUUID } from "crypto";
+import { uploadEncryptedBlob, getOriginalPhotoKey } from "../../../../lib/aws/s3";
+import { requirePatientAccess } from "../../../../lib/auth/guard";
+import { invalidateResourceCache } from "../../../../lib/rag/retriever";
+import { notifyUser } from "../../../../lib/services/notification.service";
+import { raiseInteractionInsights } from "../../../../lib/services/medication.service";
+import type { SerializedEncryptedBlob } from "../../../../lib/types/crypto";
 
 const region = process.env.NEXT_PUBLIC_AWS_REGION || process.env.APP_AWS_REGION || "ap-south-1";
 
@@ -26,6 +36,12 @@ const db = DynamoDBDocumentClient.from(client, {
 });
 
 const TABLE = process.env.DYNAMODB_HEALTH_RECORDS_TABLE || "arogyasutra-health-records";
+const MAX_PAGES = 10;
+
+function isSerializedBlob(b: unknown): b is SerializedEncryptedBlob {
+    const s = b as SerializedEncryptedBlob;
+    return !!s && typeof s.ciphertext === "string" && typeof s.iv === "string" && s.algorithm === "AES-GCM";
+}
 
 export async function POST(req: NextRequest) {
     try {
@@ -35,9 +51,13 @@ export async function POST(req: NextRequest) {
             title,
             documentType,
             date,
-            s3Key,
             confidence,
             metadata,
+            encryptedMetadata,
+            encryptedPhoto,
+            encryptedPages,
+            sourceInstitution,
+            doctorName,
         } = body;
 
         if (!patientId || !title || !documentType) {
@@ -46,9 +66,30 @@ export async function POST(req: NextRequest) {
                 { status: 400 }
             );
         }
+        const access = await requirePatientAccess(req, patientId, "append");
+        if (access instanceof NextResponse) return access;
+        const { caller } = access;
+
+        if ((encryptedMetadata && !isSerializedBlob(encryptedMetadata)) || (encryptedPhoto && !isSerializedBlob(encryptedPhoto))) {
+            return NextResponse.json({ error: "Malformed encrypted payload" }, { status: 400 });
+        }
+        if (encryptedPages !== undefined && (
+            !Array.isArray(encryptedPages) ||
+            encryptedPages.length > MAX_PAGES ||
+            !encryptedPages.every(isSerializedBlob)
+        )) {
+            return NextResponse.json({ error: "Malformed encrypted payload" }, { status: 400 });
+        }
 
         const entryId = randomUUID();
         const now = new Date().toISOString();
+        const sealed = !!encryptedMetadata;
+
+        // Ciphertext only — S3 never sees the photo in the clear
+        const photos: SerializedEncryptedBlob[] = encryptedPages?.length ? encryptedPages : encryptedPhoto ? [encryptedPhoto] : [];
+        const pageKeys = photos.map((_, i) => getOriginalPhotoKey(patientId, entryId, i));
+        await Promise.all(photos.map((photo, i) => uploadEncryptedBlob(pageKeys[i], photo, "application/json")));
+        const photoKey = pageKeys[0] ?? "";
 
         const entry = {
             patientId,
@@ -58,15 +99,21 @@ export async function POST(req: NextRequest) {
             date: date || now.split("T")[0],
             createdAt: now,
             updatedAt: now,
-            encryptedBlobKey: s3Key || "",
+            encryptedBlobKey: photoKey,
+            pageBlobKeys: pageKeys.length > 1 ? pageKeys : undefined,
             confidenceScore: confidence || 0,
             statusFlags: confidence >= 70 ? ["AI-READ"] : [],
-            addedBy: { type: "PATIENT", userId: patientId, name: patientId },
+            addedBy: {
+                type: caller.role === "doctor" ? "DOCTOR" : "PATIENT",
+                userId: caller.userId,
+                name: caller.name ?? caller.userId,
+            },
             fhirResourceIds: [],
-            metadata: metadata || {},
+            metadata: sealed ? {} : metadata || {},
+            encryptedMetadata: sealed ? encryptedMetadata : undefined,
             // Extract top-level fields for easy display
-            sourceInstitution: metadata?.institutions?.[0] || undefined,
-            doctorName: metadata?.doctors?.[0] || undefined,
+            sourceInstitution: sourceInstitution || metadata?.institutions?.[0] || undefined,
+            doctorName: doctorName || metadata?.doctors?.[0] || undefined,
         };
 
         await db.send(
@@ -75,8 +122,25 @@ export async function POST(req: NextRequest) {
                 Item: entry,
             })
         );
+        // The assistant's index of this patient's records is stale now
+        invalidateResourceCache(patientId);
+        if (caller.role === "doctor") {
+            await notifyUser(patientId, {
+                type: "DOCTOR_ENTRY_ADDED",
+                patientId,
+                entryId,
+                entryTitle: title,
+                doctorName: caller.name ?? caller.userId,
+            });
+        }
+
+        // Sealed scans were checked in the scan review, before sealing
+        const medicationLines: string[] = sealed || !Array.isArray(metadata?.medications)
+            ? []
+            : metadata.medications.map((m: { name?: string }) => m?.name).filter((n: unknown): n is string => typeof n === "string" && !!n.trim());
+        const interactions = await raiseInteractionInsights(patientId, entryId, medicationLines);
 
-        return NextResponse.json({ success: true, entryId, entry });
+        return NextResponse.json({ success: true, entryId, entry, interactions });
     } catch (err) {
         const msg = (err as Error).message ?? "Unknown error";
         console.error("[/api/timeline/save]", msg);
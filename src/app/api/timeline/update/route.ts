@@ -6,6 +6,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { requirePatientAccess } from "../../../../lib/auth/guard";
+import { invalidateResourceCache } from "../../../../lib/rag/retriever";
 
 const region = process.env.NEXT_PUBLIC_AWS_REGION || process.env.APP_AWS_REGION || "ap-south-1";
 const creds =
@@ -23,6 +25,9 @@ export async function PUT(req: NextRequest) {
             return NextResponse.json({ error: "Missing patientId or entryId" }, { status: 400 });
         }
 
+        const access = await requirePatientAccess(req, patientId, "manage");
+        if (access instanceof NextResponse) return access;
+
         await db.send(new UpdateCommand({
             TableName: TABLE,
             Key: { patientId, entryId },
@@ -35,6 +40,7 @@ export async function PUT(req: NextRequest) {
                 ":now": new Date().toISOString(),
             },
         }));
+        invalidateResourceCache(patientId);
 
         return NextResponse.json({ success: true });
     } catch (err) {
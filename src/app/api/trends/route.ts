@@ -0,0 +1,32 @@
+// ============================================================
+// Trends API
+// GET /api/trends?patientId=  → { series, demographics }
+// One series per lab test (keyed by LOINC code) or vital, built
+// from Lab entries' results, vitals on entries and doctor
+// checkups, each with its direction of change and any run of
+// out-of-range values. Only entries the server can read count —
+// sealed ones are added on the device that opens them.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePatientAccess } from "../../../lib/auth/guard";
+import { getTrends } from "../../../lib/services/trend.service";
+
+const isDev = process.env.NODE_ENV === "development";
+
+export async function GET(req: NextRequest) {
+    const patientId = req.nextUrl.searchParams.get("patientId");
+    if (!patientId) {
+        return NextResponse.json({ error: "patientId is required" }, { status: 400 });
+    }
+    const access = await requirePatientAccess(req, patientId, "read");
+    if (access instanceof NextResponse) return access;
+
+    try {
+        return NextResponse.json(await getTrends(patientId));
+    } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : "Unknown error";
+        console.error("[/api/trends GET]", msg);
+        return NextResponse.json({ error: isDev ? msg : "Failed to load trends" }, { status: 500 });
+    }
+}
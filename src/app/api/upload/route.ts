@@ -1,85 +1,106 @@
 // ============================================================
 // POST /api/upload
-// Receives image, runs Textract + Comprehend Medical,
-// uploads to S3, returns structured extraction for review.
+// Receives a document — one or more photos (one `file` field per
+// page, in order) or a single PDF — runs Textract + Comprehend
+// Medical page by page and returns one merged extraction for review.
+// Extraction only — the upload is processed in memory and never
+// stored. The browser encrypts the pages + metadata with the
+// vault key and persists them via /api/timeline/save.
 // ============================================================
 
 import { NextRequest, NextResponse } from "next/server";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
-import { analyzeDocument } from "../../../lib/aws/extraction";
-import { randomUUID } from "crypto";
+import { analyzeDocumentPages, splitPdfPages, type SourcePage } from "../../../lib/aws/extraction";
+import { requirePatientAccess } from "../../../lib/auth/guard";
+import { notifyUser } from "../../../lib/services/notification.service";
+import { getLabDemographics } from "../../../lib/services/lab.service";
 
-const region = process.env.NEXT_PUBLIC_AWS_REGION || "ap-south-1";
-const S3_BUCKET = process.env.NEXT_PUBLIC_S3_BUCKET || "";
-
-const creds =
-    process.env.APP_AWS_ACCESS_KEY_ID && process.env.APP_AWS_SECRET_ACCESS_KEY
-        ? {
-            credentials: {
-                accessKeyId: process.env.APP_AWS_ACCESS_KEY_ID,
-                secretAccessKey: process.env.APP_AWS_SECRET_ACCESS_KEY,
-            },
-        }
-        : {};
-
-const s3 = new S3Client({ region, ...creds });
-
-const MAX_BYTES = 10 * 1024 * 1024; // 10 MB
+const MAX_BYTES = 10 * 1024 * 1024; // 10 MB per file
+const MAX_PAGES = 10;
+const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const PDF_TYPE = "application/pdf";
 
 export async function POST(req: NextRequest) {
     try {
         const formData = await req.formData();
-        const file = formData.get("file") as File | null;
+        const files = formData.getAll("file").filter((f): f is File => f instanceof File);
         const patientId = formData.get("patientId") as string | null;
 
-        if (!file) {
+        if (files.length === 0) {
             return NextResponse.json({ error: "No file provided" }, { status: 400 });
         }
         if (!patientId) {
             return NextResponse.json({ error: "Missing patientId" }, { status: 400 });
         }
 
-        const allowedTypes = ["image/jpeg", "image/png", "image/webp"];
-        if (!allowedTypes.includes(file.type)) {
+        const access = await requirePatientAccess(req, patientId, "append");
+        if (access instanceof NextResponse) return access;
+
+        const isPdf = files[0].type === PDF_TYPE;
+        if (isPdf && files.length > 1) {
+            return NextResponse.json({ error: "Upload a PDF on its own, not together with photos." }, { status: 400 });
+        }
+        if (!isPdf && files.some((f) => !IMAGE_TYPES.includes(f.type))) {
             return NextResponse.json(
-                { error: "Unsupported file type. Please use JPEG or PNG." },
+                { error: "Unsupported file type. Please use JPEG, PNG or PDF." },
                 { status: 400 }
             );
         }
+        if (files.length > MAX_PAGES) {
+            return NextResponse.json({ error: `Too many pages (max ${MAX_PAGES})` }, { status: 400 });
+        }
 
-        const arrayBuffer = await file.arrayBuffer();
-        if (arrayBuffer.byteLength > MAX_BYTES) {
-            return NextResponse.json({ error: "File too large (max 10 MB)" }, { status: 413 });
+        const buffers: Buffer[] = [];
+        for (const file of files) {
+            const arrayBuffer = await file.arrayBuffer();
+            if (arrayBuffer.byteLength > MAX_BYTES) {
+                return NextResponse.json({ error: "File too large (max 10 MB)" }, { status: 413 });
+            }
+            buffers.push(Buffer.from(arrayBuffer));
         }
 
-        const imageBytes = Buffer.from(arrayBuffer);
+        let pages: SourcePage[];
+        if (isPdf) {
+            let pdfPages: Buffer[];
+            try {
+                pdfPages = await splitPdfPages(buffers[0]);
+            } catch {
+                return NextResponse.json(
+                    { error: "This PDF could not be read. It may be password-protected or damaged." },
+                    { status: 400 }
+                );
+            }
+            if (pdfPages.length > MAX_PAGES) {
+                return NextResponse.json({ error: `Too many pages (max ${MAX_PAGES})` }, { status: 400 });
+            }
+            pages = pdfPages.map((bytes) => ({ bytes, format: "pdf" }));
+        } else {
+            pages = buffers.map((bytes) => ({ bytes, format: "image" }));
+        }
 
         // ---- Run Textract + Comprehend ----
-        const extractionResult = await analyzeDocument(imageBytes, file.name);
+        const extractionResult = await analyzeDocumentPages(pages, files[0].name, await getLabDemographics(patientId));
 
-        // ---- Upload original to S3 ----
-        const ext = file.name.split(".").pop() ?? "jpg";
-        const s3Key = `patients/${patientId}/documents/${randomUUID()}.${ext}`;
-
-        if (S3_BUCKET) {
-            await s3.send(
-                new PutObjectCommand({
-                    Bucket: S3_BUCKET,
-                    Key: s3Key,
-                    Body: imageBytes,
-                    ContentType: file.type,
-                    Metadata: {
-                        patientId,
-                        documentType: extractionResult.documentType,
-                        uploadedAt: new Date().toISOString(),
-                    },
-                })
-            );
+        await notifyUser(access.caller.userId, {
+            type: "DOCUMENT_PROCESSED",
+            patientId,
+            documentTitle: extractionResult.title,
+            confidence: extractionResult.confidence,
+            pageCount: pages.length,
+        });
+        const abnormalCount = (extractionResult.metadata.labTests ?? []).filter(
+            (t) => t.status === "High" || t.status === "Low" || t.status === "Critical"
+        ).length;
+        if (abnormalCount > 0) {
+            await notifyUser(patientId, {
+                type: "ABNORMAL_LAB",
+                patientId,
+                documentTitle: extractionResult.title,
+                abnormalCount,
+            });
         }
 
         return NextResponse.json({
             success: true,
-            s3Key,
             extraction: {
                 rawText: extractionResult.rawText.slice(0, 2000),
                 documentType: extractionResult.documentType,
@@ -0,0 +1,81 @@
+// ============================================================
+// Vault Blobs API — legacy blob migration transport
+// GET /api/vault/blobs?patientId=... → encrypted blobs under the patient prefix
+// PUT /api/vault/blobs  { patientId, blobs: [{ key, blob }] } → overwrite in place
+// The server only moves ciphertext; decryption happens in the browser.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+    listPatientBlobs,
+    downloadEncryptedBlob,
+    uploadEncryptedBlob,
+} from "../../../../lib/aws/s3";
+import { requirePatientAccess } from "../../../../lib/auth/guard";
+import type { SerializedEncryptedBlob } from "../../../../lib/types/crypto";
+
+const MAX_BLOBS_PER_PUT = 50;
+
+function isSerializedBlob(b: unknown): b is SerializedEncryptedBlob {
+    const s = b as SerializedEncryptedBlob;
+    return !!s && typeof s.ciphertext === "string" && typeof s.iv === "string" && s.algorithm === "AES-GCM";
+}
+
+export async function GET(req: NextRequest) {
+    const patientId = req.nextUrl.searchParams.get("patientId");
+    if (!patientId) {
+        return NextResponse.json({ error: "patientId is required" }, { status: 400 });
+    }
+
+    const access = await requirePatientAccess(req, patientId, "owner");
+    if (access instanceof NextResponse) return access;
+
+    try {
+        // Keys use the Card ID as the access check normalises it
+        const keys = await listPatientBlobs(`patients/${patientId.toUpperCase()}/docs/`);
+        const blobs: { key: string; blob: SerializedEncryptedBlob }[] = [];
+
+        for (const key of keys) {
+            try {
+                const blob = await downloadEncryptedBlob(key);
+                if (isSerializedBlob(blob)) blobs.push({ key, blob });
+            } catch {
+                // Not a JSON blob (e.g. a raw image) — nothing to migrate
+            }
+        }
+
+        return NextResponse.json({ blobs });
+    } catch (err) {
+        console.error("[GET /api/vault/blobs]", (err as Error).message);
+        return NextResponse.json({ error: "Failed to list blobs" }, { status: 500 });
+    }
+}
+
+export async function PUT(req: NextRequest) {
+    try {
+        const { patientId, blobs } = await req.json();
+
+        if (!patientId || !Array.isArray(blobs) || blobs.length > MAX_BLOBS_PER_PUT) {
+            return NextResponse.json({ error: `patientId and up to ${MAX_BLOBS_PER_PUT} blobs are required` }, { status: 400 });
+        }
+
+        const access = await requirePatientAccess(req, patientId, "owner");
+        if (access instanceof NextResponse) return access;
+
+        const prefix = `patients/${patientId.toUpperCase()}/`;
+        for (const item of blobs as { key: string; blob: unknown }[]) {
+            if (typeof item.key !== "string" || !item.key.startsWith(prefix) || !isSerializedBlob(item.blob)) {
+                return NextResponse.json({ error: "Invalid blob entry" }, { status: 400 });
+            }
+        }
+
+        for (const item of blobs as { key: string; blob: SerializedEncryptedBlob }[]) {
+            await uploadEncryptedBlob(item.key, item.blob);
+        }
+
+        return NextResponse.json({ success: true, written: blobs.length });
+    } catch (err) {
+        console.error("[PUT /api/vault/blobs]", (err as Error).message);
+        return NextResponse.json({ error: "Failed to write blobs" }, { status: 500 });
+    }
+}
@@ -0,0 +1,67 @@
+// ============================================================
+// Vault Key API — wrapped patient DEK (ciphertext only)
+// GET /api/vault/key?patientId=AS-XXXX-XXXX-XXXX → { vault | null }
+// PUT /api/vault/key  { patientId, vault, previousKeyId? }
+//   - no previousKeyId → create (fails if a vault already exists)
+//   - previousKeyId    → re-wrap of the same DEK after a secret change
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { getVaultKey, putVaultKey } from "../../../../lib/aws/dynamodb";
+import { requirePatientAccess } from "../../../../lib/auth/guard";
+import type { WrappedVaultKey } from "../../../../lib/types/crypto";
+
+function isWrappedVaultKey(v: unknown): v is WrappedVaultKey {
+    const k = v as WrappedVaultKey;
+    return !!k
+        && k.version === 1
+        && k.algorithm === "AES-KW"
+        && typeof k.keyId === "string"
+        && typeof k.wrappedKey === "string"
+        && typeof k.salt === "string"
+        && typeof k.iterations === "number"
+        && k.iterations >= 100_000;
+}
+
+export async function GET(req: NextRequest) {
+    const patientId = req.nextUrl.searchParams.get("patientId");
+    if (!patientId) {
+        return NextResponse.json({ error: "patientId is required" }, { status: 400 });
+    }
+
+    const access = await requirePatientAccess(req, patientId, "owner");
+    if (access instanceof NextResponse) return access;
+
+    try {
+        const vault = await getVaultKey(patientId);
+        return NextResponse.json({ vault });
+    } catch (err) {
+        console.error("[GET /api/vault/key]", (err as Error).message);
+        return NextResponse.json({ error: "Failed to load vault key" }, { status: 500 });
+    }
+}
+
+export async function PUT(req: NextRequest) {
+    try {
+        const { patientId, vault, previousKeyId } = await req.json();
+
+        if (!patientId || !isWrappedVaultKey(vault)) {
+            return NextResponse.json({ error: "patientId and a valid vault record are required" }, { status: 400 });
+        }
+
+        const access = await requirePatientAccess(req, patientId, "owner");
+        if (access instanceof NextResponse) return access;
+        if (previousKeyId && previousKeyId !== vault.keyId) {
+            return NextResponse.json({ error: "Re-wrap must keep the same keyId" }, { status: 400 });
+        }
+
+        await putVaultKey(patientId, vault, previousKeyId || undefined);
+        return NextResponse.json({ success: true });
+    } catch (err) {
+        if ((err as Error).name === "ConditionalCheckFailedException") {
+            return NextResponse.json({ error: "Vault key changed or already exists" }, { status: 409 });
+        }
+        console.error("[PUT /api/vault/key]", (err as Error).message);
+        return NextResponse.json({ error: "Failed to save vault key" }, { status: 500 });
+    }
+}
@@ -31,13 +31,26 @@ function AppRouter() {
   const { t } = useLanguage();
   const [screen, setScreen] = useState("dashboard");
 
-  // Restore the last active screen on page refresh
+  // Restore the last active screen on page refresh — or open the one a
+  // tapped push notification points at (/?screen=<id>)
   useEffect(() => {
-    const saved = sessionStorage.getItem("app_screen");
+    const fromPush = new URLSearchParams(window.location.search).get("screen");
+    const saved = fromPush ?? sessionStorage.getItem("app_screen");
+    if (fromPush) window.history.replaceState(null, "", window.location.pathname);
     if (saved) setScreen(saved);
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // A push notification tapped while the app is already open
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.type === "NOTIFICATION_CLICK" && e.data.link?.screen) setScreen(e.data.link.screen);
+    };
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    return () => navigator.serviceWorker.removeEventListener("message", onMessage);
+  }, []);
+
   // Persist screen changes so refresh brings you back here
   useEffect(() => {
     sessionStorage.setItem("app_screen", screen);
@@ -1,6 +1,11 @@
 // ============================================================
 // RAG Clinical Assistant Screen
-// Dual-mode: patient RAG chat OR doctor general/context chat
+// Dual-mode: patient RAG chat OR doctor general/context chat.
+// Record chats are saved per user and patient: the history panel
+// lists, resumes, renames and deletes them, and a reload reopens
+// the one that was open. Answers stream in over Server-Sent Events
+// — what the assistant is doing, then the text as it is written —
+// and can be stopped part-way.
 // ============================================================
 
 "use client";
@@ -8,9 +13,23 @@
 import React, { useState, useRef, useEffect } from "react";
 import { useAuth } from "../../hooks/useAuth";
 import type { DoctorPatientContext } from "../dashboard/DoctorDashboard";
-import type { RAGResponse, ChatMessage, SourceCitation } from "../../lib/types/rag";
+import type {
+    AssistantStage,
+    AssistantStreamEvent,
+    ChatMessage,
+    ConversationSummary,
+    SourceCitation,
+} from "../../lib/types/rag";
+import {
+    fetchConversation,
+    fetchConversations,
+    removeConversation,
+    saveConversationTitle,
+} from "../../lib/services/conversation.service";
+import { fmtDateShort } from "../../lib/utils/date";
+import { readSse } from "../../lib/utils/sse";
 import styles from "./AssistantScreen.module.css";
-import { ChevronLeft, Paperclip, ArrowUp, Cross, RotateCcw } from "lucide-react";
+import { ChevronLeft, Paperclip, ArrowUp, Cross, RotateCcw, History, Pencil, Trash2, Check, X, Square } from "lucide-react";
 import { GeminiIcon } from "../common/GeminiIcon";
 
 // ---------------------------------------------------------------------------
@@ -83,6 +102,80 @@ function renderContent(
     return <>{nodes}</>;
 }
 
+/** The conversation open in this tab for a patient, so a reload picks it up again */
+function openConversationKey(patientId: string): string {
+    return `arogyasutra_assistant_${patientId}`;
+}
+
+function rememberOpenConversation(patientId: string, conversationId?: string): void {
+    try {
+        if (conversationId) sessionStorage.setItem(openConversationKey(patientId), conversationId);
+        else sessionStorage.removeItem(openConversationKey(patientId));
+    } catch { /* storage unavailable — nothing to resume */ }
+}
+
+type StreamedAnswer = Extract<AssistantStreamEvent, { type: "done" }>["response"];
+type StreamProgress = Extract<AssistantStreamEvent, { type: "stage" | "token" }>;
+
+// A request still running after this long is given up on
+const REQUEST_TIMEOUT_MS = 55_000;
+
+/**
+ * Ask a question as an event stream: stages and tokens go to onProgress as
+ * they arrive, and the final answer is returned. Errors raised before the
+ * stream starts (rate limit, access) still come back as JSON.
+ */
+async function askAssistant(
+    url: string,
+    body: Record<string, unknown>,
+    signal: AbortSignal,
+    onProgress: (event: StreamProgress) => void
+): Promise<StreamedAnswer> {
+    let res: Response;
+    try {
+        res = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+            body: JSON.stringify(body),
+            signal,
+        });
+    } catch (fetchErr) {
+        if (signal.aborted) throw fetchErr;
+        throw new Error("Network error — please check your connection and try again.");
+    }
+
+    if (!(res.headers.get("content-type") ?? "").includes("text/event-stream")) {
+        let data: Record<string, unknown>;
+        try {
+            const text = await res.text();
+            data = text.trim() ? JSON.parse(text) : {};
+        } catch {
+            throw new Error(res.ok ? "Received an invalid response from the server. Please try again." : `Request failed (${res.status})`);
+        }
+        if (!res.ok) throw new Error((data.error as string) || `Request failed (${res.status})`);
+        return data as unknown as StreamedAnswer;
+    }
+
+    const outcome: { answer?: StreamedAnswer; error?: string } = {};
+    await readSse<AssistantStreamEvent>(res, (event) => {
+        if (event.type === "done") outcome.answer = event.response;
+        else if (event.type === "error") outcome.error = event.error;
+        else onProgress(event);
+    });
+    if (outcome.error) throw new Error(outcome.error);
+    if (!outcome.answer) throw new Error("The answer was cut off. Please try again.");
+    return outcome.answer;
+}
+
+function stageLabel(stage: AssistantStage, count?: number): string {
+    switch (stage) {
+        case "classifying": return "Reading the question…";
+        case "retrieving": return count ? `Found ${count} relevant record${count === 1 ? "" : "s"}…` : "No matching records found…";
+        case "drafting": return "Drafting an answer…";
+        case "verifying": return "Checking the answer against the records…";
+    }
+}
+
 interface AssistantScreenProps {
     onNavigate: (screen: string) => void;
     /** When a doctor has a verified patient session, provide that patient's context. */
@@ -95,72 +188,115 @@ export default function AssistantScreen({ onNavigate, doctorPatientContext }: As
     const [input, setInput] = useState("");
     const [isLoading, setIsLoading] = useState(false);
     const [conversationId, setConversationId] = useState<string | undefined>();
+    const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+    const [showHistory, setShowHistory] = useState(false);
+    const [renaming, setRenaming] = useState<{ conversationId: string; title: string } | null>(null);
+    const [stage, setStage] = useState<{ stage: AssistantStage; count?: number } | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    // The running request, so Stop (or leaving the screen) can cancel it
+    const requestRef = useRef<AbortController | null>(null);
 
     // Determine mode
     const isDoctor = !patient; // doctors don't have a patient object from useAuth
     const hasPatientContext = isDoctor && !!doctorPatientContext;
     const isGeneralMode = isDoctor && !doctorPatientContext;
+    // Whose records the chat is about; general-mode chats aren't saved
+    const recordsPatientId = isGeneralMode
+        ? undefined
+        : hasPatientContext ? doctorPatientContext!.cardId : (effectivePatient ?? patient)?.patientId;
+
+    // Switching patient (e.g. to a dependent) starts from that patient's conversations
+    const [shownFor, setShownFor] = useState(recordsPatientId);
+    if (shownFor !== recordsPatientId) {
+        setShownFor(recordsPatientId);
+        setMessages([]);
+        setConversationId(undefined);
+        setConversations([]);
+        setRenaming(null);
+    }
+
+    useEffect(() => {
+        if (!recordsPatientId) return;
+        let cancelled = false;
+        fetchConversations(recordsPatientId)
+            .then((list) => { if (!cancelled) setConversations(list); })
+            .catch(() => { /* non-fatal — the history panel stays empty */ });
+        let openId: string | null = null;
+        try { openId = sessionStorage.getItem(openConversationKey(recordsPatientId)); } catch { /* storage unavailable */ }
+        if (openId) {
+            fetchConversation(recordsPatientId, openId)
+                .then((c) => {
+                    if (cancelled) return;
+                    setMessages(c.messages);
+                    setConversationId(c.conversationId);
+                })
+                .catch(() => rememberOpenConversation(recordsPatientId));
+        }
+        return () => { cancelled = true; };
+    }, [recordsPatientId]);
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }, [messages]);
 
+    useEffect(() => () => requestRef.current?.abort("stopped"), []);
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!input.trim() || isLoading) return;
 
+        const question = input;
         const userMsg: ChatMessage = {
             messageId: `msg-${Date.now()}`,
             role: "user",
-            content: input,
+            content: question,
             timestamp: new Date().toISOString(),
         };
         setMessages((prev) => [...prev, userMsg]);
         setInput("");
         setIsLoading(true);
+        setStage(null);
 
-        try {
-            let answer = "";
-            let newConversationId = conversationId;
-            let citations: SourceCitation[] | undefined;
+        // The answer appears with its first token and is updated in place
+        const answerId = `msg-${Date.now()}-resp`;
+        const showAnswer = (content: string, citations?: SourceCitation[]) => {
+            const answerMsg: ChatMessage = {
+                messageId: answerId,
+                role: "assistant",
+                content,
+                citations,
+                timestamp: new Date().toISOString(),
+            };
+            setMessages((prev) =>
+                prev.some((m) => m.messageId === answerId)
+                    ? prev.map((m) => (m.messageId === answerId ? answerMsg : m))
+                    : [...prev, answerMsg]
+            );
+        };
+        let streamed = "";
+        const onProgress = (event: StreamProgress) => {
+            if (event.type === "stage") {
+                setStage({ stage: event.stage, count: event.count });
+            } else {
+                streamed += event.text;
+                showAnswer(streamed);
+            }
+        };
+
+        const controller = new AbortController();
+        requestRef.current = controller;
+        const timer = setTimeout(() => controller.abort("timeout"), REQUEST_TIMEOUT_MS);
 
+        try {
+            let response: StreamedAnswer;
             if (isGeneralMode) {
                 // Doctor, no patient — call general LLM endpoint
-                const controller = new AbortController();
-                const timer = setTimeout(() => controller.abort(), 55_000);
-                let res: Response;
-                try {
-                    res = await fetch("/api/assistant/general", {
-                        method: "POST",
-                        headers: { "Content-Type": "application/json" },
-                        body: JSON.stringify({
-                            query: input,
-                            conversationId,
-                            doctorId: doctor?.doctorId,
-                        }),
-                        signal: controller.signal,
-                    });
-                } catch (fetchErr) {
-                    clearTimeout(timer);
-                    throw new Error(
-                        (fetchErr as Error).name === "AbortError"
-                            ? "The request timed out. Please try a shorter or simpler question."
-                            : "Network error — please check your connection and try again."
-                    );
-                } finally {
-                    clearTimeout(timer);
-                }
-                let data: Record<string, unknown>;
-                try {
-                    const text = await res.text();
-                    data = text.trim() ? JSON.parse(text) : {};
-                } catch {
-                    throw new Error(res.ok ? "Received an invalid response from the server. Please try again." : `Request failed (${res.status})`);
-                }
-                if (!res.ok) throw new Error((data.error as string) || `Request failed (${res.status})`);
-                answer = (data.answer as string) || "Sorry, I couldn't process that request.";
-                newConversationId = data.conversationId as string | undefined;
+                response = await askAssistant(
+                    "/api/assistant/general",
+                    { query: question, conversationId, doctorId: doctor?.doctorId },
+                    controller.signal,
+                    onProgress
+                );
             } else {
                 // Patient mode OR doctor with patient context — use RAG endpoint
                 const patientId = hasPatientContext
@@ -168,73 +304,84 @@ export default function AssistantScreen({ onNavigate, doctorPatientContext }: As
                     : (effectivePatient ?? patient)!.patientId;
                 const queryBy = hasPatientContext ? "DOCTOR" : "PATIENT";
                 const queryByUserId = hasPatientContext ? `doctor-${patientId}` : patientId;
-
-                const controller = new AbortController();
-                const timer = setTimeout(() => controller.abort(), 55_000);
-                let res: Response;
-                try {
-                    res = await fetch("/api/assistant/rag", {
-                        method: "POST",
-                        headers: { "Content-Type": "application/json" },
-                        body: JSON.stringify({
-                            query: input,
-                            patientId,
-                            queryBy,
-                            queryByUserId,
-                            conversationId,
-                        }),
-                        signal: controller.signal,
-                    });
-                } catch (fetchErr) {
-                    clearTimeout(timer);
-                    throw new Error(
-                        (fetchErr as Error).name === "AbortError"
-                            ? "The request timed out. Please try a shorter or simpler question."
-                            : "Network error — please check your connection and try again."
-                    );
-                } finally {
-                    clearTimeout(timer);
-                }
-                let data: RAGResponse;
-                try {
-                    const text = await res.text();
-                    data = text.trim() ? JSON.parse(text) : ({} as RAGResponse);
-                } catch {
-                    throw new Error(res.ok ? "Received an invalid response from the server. Please try again." : `Request failed (${res.status})`);
-                }
-                if (!res.ok) throw new Error((data as unknown as { error?: string }).error || `Request failed (${res.status})`);
-                answer = data.answer || "Sorry, I couldn't process that request.";
-                citations = data.citations;
-                newConversationId = data.conversationId;
+                response = await askAssistant(
+                    "/api/assistant/rag",
+                    { query: question, patientId, queryBy, queryByUserId, conversationId },
+                    controller.signal,
+                    onProgress
+                );
             }
 
+            const newConversationId = response.conversationId;
             if (!conversationId) setConversationId(newConversationId);
+            if (recordsPatientId && newConversationId) {
+                rememberOpenConversation(recordsPatientId, newConversationId);
+                fetchConversations(recordsPatientId).then(setConversations).catch(() => { /* list refreshes next time */ });
+            }
 
-            const assistantMsg: ChatMessage = {
-                messageId: `msg-${Date.now()}-resp`,
-                role: "assistant",
-                content: answer,
-                citations,
-                timestamp: new Date().toISOString(),
-            };
-            setMessages((prev) => [...prev, assistantMsg]);
+            // The final answer replaces the streamed text — verification may have rewritten it
+            showAnswer(response.answer || "Sorry, I couldn't process that request.", response.citations);
         } catch (err) {
-            const msg =
-                err instanceof Error && err.message
-                    ? err.message
-                    : "I apologize, but I encountered an error processing your query. Please try again.";
-            const errorMsg: ChatMessage = {
-                messageId: `msg-${Date.now()}-err`,
-                role: "assistant",
-                content: msg,
-                timestamp: new Date().toISOString(),
-            };
-            setMessages((prev) => [...prev, errorMsg]);
+            if (controller.signal.reason === "stopped") {
+                showAnswer(streamed ? `${streamed}\n\n(Stopped)` : "Stopped before an answer was ready.");
+            } else if (controller.signal.reason === "timeout") {
+                showAnswer("The request timed out. Please try a shorter or simpler question.");
+            } else {
+                showAnswer(
+                    err instanceof Error && err.message
+                        ? err.message
+                        : "I apologize, but I encountered an error processing your query. Please try again."
+                );
+            }
         } finally {
+            clearTimeout(timer);
+            if (requestRef.current === controller) requestRef.current = null;
             setIsLoading(false);
+            setStage(null);
+        }
+    };
+
+    const stopAnswer = () => requestRef.current?.abort("stopped");
+
+    const startNewChat = () => {
+        setMessages([]);
+        setConversationId(undefined);
+        if (recordsPatientId) rememberOpenConversation(recordsPatientId);
+    };
+
+    const resumeConversation = async (id: string) => {
+        if (!recordsPatientId || isLoading) return;
+        try {
+            const conversation = await fetchConversation(recordsPatientId, id);
+            setMessages(conversation.messages);
+            setConversationId(conversation.conversationId);
+            rememberOpenConversation(recordsPatientId, conversation.conversationId);
+            setShowHistory(false);
+        } catch {
+            setConversations((prev) => prev.filter((c) => c.conversationId !== id));
         }
     };
 
+    const handleRename = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!recordsPatientId || !renaming?.title.trim()) return;
+        const { conversationId: id, title } = renaming;
+        setRenaming(null);
+        try {
+            await saveConversationTitle(recordsPatientId, id, title.trim());
+            setConversations((prev) => prev.map((c) => (c.conversationId === id ? { ...c, title: title.trim() } : c)));
+        } catch { /* keeps the old name */ }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!recordsPatientId) return;
+        try {
+            await removeConversation(recordsPatientId, id);
+            setConversations((prev) => prev.filter((c) => c.conversationId !== id));
+            if (id === conversationId) startNewChat();
+        } catch { /* stays in the list */ }
+    };
+
     const suggestedQuestions = hasPatientContext
         ? [
             `Summarize ${doctorPatientContext!.name.split(" ")[0]}'s medical history`,
@@ -270,10 +417,21 @@ export default function AssistantScreen({ onNavigate, doctorPatientContext }: As
                             : "Powered by Amazon Bedrock"}
                     </span>
                 </div>
+                {recordsPatientId && (
+                    <button
+                        className={`${styles.newChatBtn} ${showHistory ? styles.newChatBtnActive : ""}`}
+                        onClick={() => setShowHistory((v) => !v)}
+                        title="Conversation history"
+                        aria-expanded={showHistory}
+                        type="button"
+                    >
+                        <History size={16} />
+                    </button>
+                )}
                 {messages.length > 0 && (
                     <button
                         className={styles.newChatBtn}
-                        onClick={() => { setMessages([]); setConversationId(undefined); }}
+                        onClick={startNewChat}
                         title="New conversation"
                         type="button"
                     >
@@ -282,6 +440,68 @@ export default function AssistantScreen({ onNavigate, doctorPatientContext }: As
                 )}
             </header>
 
+            {showHistory && recordsPatientId && (
+                <div className={styles.historyPanel}>
+                    {conversations.length === 0 ? (
+                        <p className={styles.historyEmpty}>No saved conversations yet.</p>
+                    ) : (
+                        <ul className={styles.historyList}>
+                            {conversations.map((c) => (
+                                <li
+                                    key={c.conversationId}
+                                    className={`${styles.historyItem} ${c.conversationId === conversationId ? styles.historyItemActive : ""}`}
+                                >
+                                    {renaming?.conversationId === c.conversationId ? (
+                                        <form className={styles.renameForm} onSubmit={handleRename}>
+                                            <input
+                                                className={styles.renameInput}
+                                                value={renaming.title}
+                                                onChange={(e) => setRenaming({ ...renaming, title: e.target.value })}
+                                                maxLength={80}
+                                                autoFocus
+                                            />
+                                            <button type="submit" className={styles.historyAction} title="Save name" aria-label="Save name">
+                                                <Check size={14} />
+                                            </button>
+                                            <button type="button" className={styles.historyAction} onClick={() => setRenaming(null)} title="Cancel" aria-label="Cancel">
+                                                <X size={14} />
+                                            </button>
+                                        </form>
+                                    ) : (
+                                        <>
+                                            <button type="button" className={styles.historyOpen} onClick={() => resumeConversation(c.conversationId)}>
+                                                <span className={styles.historyTitle}>{c.title || "Untitled conversation"}</span>
+                                                <span className={styles.historyMeta}>
+                                                    {fmtDateShort(c.lastMessageAt)} · {Math.ceil(c.messageCount / 2)} question{c.messageCount > 2 ? "s" : ""}
+                                                </span>
+                                            </button>
+                                            <button
+                                                type="button"
+                                                className={styles.historyAction}
+                                                onClick={() => setRenaming({ conversationId: c.conversationId, title: c.title })}
+                                                title="Rename"
+                                                aria-label="Rename"
+                                            >
+                                                <Pencil size={13} />
+                                            </button>
+                                            <button
+                                                type="button"
+                                                className={styles.historyAction}
+                                                onClick={() => handleDelete(c.conversationId)}
+                                                title="Delete"
+                                                aria-label="Delete"
+                                            >
+                                                <Trash2 size={13} />
+                                            </button>
+                                        </>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
             {/* Patient context banner for doctor mode */}
             {hasPatientContext && (
                 <div className={styles.contextBanner}>
@@ -358,10 +578,13 @@ export default function AssistantScreen({ onNavigate, doctorPatientContext }: As
                                 </span>
                             </div>
                         ))}
-                        {isLoading && (
+                        {isLoading && messages[messages.length - 1]?.role === "user" && (
                             <div className={`${styles.message} ${styles.assistant}`}>
-                                <div className={styles.typing}>
-                                    <span /><span /><span />
+                                <div className={styles.pending}>
+                                    <div className={styles.typing}>
+                                        <span /><span /><span />
+                                    </div>
+                                    {stage && <span className={styles.stageLabel}>{stageLabel(stage.stage, stage.count)}</span>}
                                 </div>
                             </div>
                         )}
@@ -390,9 +613,21 @@ export default function AssistantScreen({ onNavigate, doctorPatientContext }: As
                     onChange={(e) => setInput(e.target.value)}
                     disabled={isLoading}
                 />
-                <button type="submit" className={styles.sendButton} disabled={!input.trim() || isLoading}>
-                    <ArrowUp size={18} />
-                </button>
+                {isLoading ? (
+                    <button
+                        type="button"
+                        className={`${styles.sendButton} ${styles.stopButton}`}
+                        onClick={stopAnswer}
+                        title="Stop"
+                        aria-label="Stop"
+                    >
+                        <Square size={14} />
+                    </button>
+                ) : (
+                    <button type="submit" className={styles.sendButton} disabled={!input.trim()}>
+                        <ArrowUp size={18} />
+                    </button>
+                )}
             </form>
         </div>
     );
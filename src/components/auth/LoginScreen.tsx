@@ -10,6 +10,7 @@ import React, { useState } from "react";
 import { useAuth, type UserRole } from "../../hooks/useAuth";
 import { useCountdown } from "../../hooks/useCountdown";
 import { isValidCardId, normalizeCardSuffix } from "../../lib/utils/cardId";
+import { vaultSecretProblem } from "../../lib/services/vault.service";
 import LogoAnimated from "../common/LogoAnimated";
 import styles from "./LoginScreen.module.css";
 
@@ -20,6 +21,7 @@ interface LoginScreenProps {
 export default function LoginScreen({ onEmergencyAccess }: LoginScreenProps) {
     const {
         state, initiateLogin, verifyDob, verifyOtp,
+        vaultIsNew, unlockVault, logout,
         doctorLogin, error, isLoading, lockStatus,
     } = useAuth();
 
@@ -33,6 +35,10 @@ export default function LoginScreen({ onEmergencyAccess }: LoginScreenProps) {
     const [otp, setOtp] = useState("");
     const [maskedPhone, setMaskedPhone] = useState("");
     const [devOtp, setDevOtp] = useState("");
+    const [vaultSecret, setVaultSecret] = useState("");
+    const [vaultConfirm, setVaultConfirm] = useState("");
+    // Only new secrets are held to the current rules — older vaults keep their PIN
+    const vaultSecretIssue = vaultIsNew && vaultSecret ? vaultSecretProblem(vaultSecret) : null;
 
     // Doctor fields
     const [doctorId, setDoctorId] = useState("");
@@ -79,6 +85,18 @@ export default function LoginScreen({ onEmergencyAccess }: LoginScreenProps) {
         }
     };
 
+    const handleVaultSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (vaultIsNew && (vaultSecretIssue || vaultSecret !== vaultConfirm)) return;
+        try {
+            await unlockVault(vaultSecret);
+        } catch {
+            // error is already set in auth context
+            setVaultSecret("");
+            setVaultConfirm("");
+        }
+    };
+
     // ---- Doctor handler ----
     const handleDoctorLogin = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -203,15 +221,20 @@ export default function LoginScreen({ onEmergencyAccess }: LoginScreenProps) {
                                         <span className={styles.stepLabel}>Card ID</span>
                                     </div>
                                     <div className={styles.stepLine} />
-                                    <div className={`${styles.step} ${state === "DOB_VERIFIED" || state === "OTP_SENT" || state === "AUTHENTICATED" ? styles.stepActive : ""}`}>
+                                    <div className={`${styles.step} ${state === "DOB_VERIFIED" || state === "OTP_SENT" || state === "VAULT_LOCKED" || state === "AUTHENTICATED" ? styles.stepActive : ""}`}>
                                         <span className={styles.stepNumber}>2</span>
                                         <span className={styles.stepLabel}>DOB</span>
                                     </div>
                                     <div className={styles.stepLine} />
-                                    <div className={`${styles.step} ${state === "OTP_SENT" || state === "AUTHENTICATED" ? styles.stepActive : ""}`}>
+                                    <div className={`${styles.step} ${state === "OTP_SENT" || state === "VAULT_LOCKED" || state === "AUTHENTICATED" ? styles.stepActive : ""}`}>
                                         <span className={styles.stepNumber}>3</span>
                                         <span className={styles.stepLabel}>OTP</span>
                                     </div>
+                                    <div className={styles.stepLine} />
+                                    <div className={`${styles.step} ${state === "VAULT_LOCKED" || state === "AUTHENTICATED" ? styles.stepActive : ""}`}>
+                                        <span className={styles.stepNumber}>4</span>
+                                        <span className={styles.stepLabel}>Vault</span>
+                                    </div>
                                 </div>
 
                                 {/* Step 1: Card ID */}
@@ -294,7 +317,48 @@ export default function LoginScreen({ onEmergencyAccess }: LoginScreenProps) {
                                             <span>{otpCountdown.formatted}</span>
                                         </div>
                                         <button type="submit" className={styles.button} disabled={isLoading || otp.length !== 6}>
-                                            {isLoading ? "Authenticating..." : "Unlock Records"}
+                                            {isLoading ? "Authenticating..." : "Verify OTP"}
+                                        </button>
+                                    </form>
+                                )}
+
+                                {/* Step 4: Vault secret — unlocks (or creates) the records key */}
+                                {state === "VAULT_LOCKED" && (
+                                    <form onSubmit={handleVaultSubmit} className={styles.form}>
+                                        <label className={styles.label}>{vaultIsNew ? "Create a Vault PIN" : "Vault PIN"}</label>
+                                        <input
+                                            type="password"
+                                            className={styles.input}
+                                            placeholder={vaultIsNew ? "8+ characters, letters and numbers" : "Your vault PIN"}
+                                            value={vaultSecret}
+                                            onChange={(e) => setVaultSecret(e.target.value)}
+                                            autoComplete={vaultIsNew ? "new-password" : "current-password"}
+                                            autoFocus
+                                        />
+                                        {vaultIsNew && (
+                                            <input
+                                                type="password"
+                                                className={styles.input}
+                                                placeholder="Confirm PIN"
+                                                value={vaultConfirm}
+                                                onChange={(e) => setVaultConfirm(e.target.value)}
+                                                autoComplete="new-password"
+                                            />
+                                        )}
+                                        <p className={styles.hint}>
+                                            {vaultSecretIssue ?? (vaultIsNew
+                                                ? "This PIN encrypts your records on this device. We never see it — if you forget it, your records cannot be recovered."
+                                                : "Enter the PIN you chose to encrypt your records")}
+                                        </p>
+                                        <button
+                                            type="submit"
+                                            className={styles.button}
+                                            disabled={isLoading || !vaultSecret || !!vaultSecretIssue || (vaultIsNew && vaultSecret !== vaultConfirm)}
+                                        >
+                                            {isLoading ? "Unlocking..." : "Unlock Records"}
+                                        </button>
+                                        <button type="button" className={styles.switchModeBtn} onClick={() => logout()}>
+                                            Not you? Sign out
                                         </button>
                                     </form>
                                 )}
@@ -0,0 +1,113 @@
+// ============================================================
+// AdherenceCard — medication adherence rollup
+// 7- and 30-day percentages, streaks and a 30-day strip per
+// medicine. Used on the patient dashboard and, for doctors with
+// a grant, in the DoctorDashboard patient panel.
+// ============================================================
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Activity } from "lucide-react";
+import styles from "./AdherenceCard.module.css";
+import { fetchAdherence } from "../../lib/services/adherence.service";
+import { fmtDateShort } from "../../lib/utils/date";
+import type { AdherenceDay, AdherenceRate, AdherenceSummary } from "../../lib/types/adherence";
+
+interface AdherenceCardProps {
+    patientId: string;
+    /** Bump to reload, e.g. after a dose is ticked */
+    refreshKey?: number;
+    /** Whose doses these are, for the empty state */
+    audience?: "patient" | "doctor";
+}
+
+function pct(rate: AdherenceRate): string {
+    return rate.percent === null ? "—" : `${rate.percent}%`;
+}
+
+function dayClass(day: AdherenceDay): string {
+    if (day.taken + day.missed === 0) return styles.dayNone;
+    if (day.missed === 0) return styles.dayTaken;
+    return day.taken === 0 ? styles.dayMissed : styles.dayPartial;
+}
+
+export default function AdherenceCard({ patientId, refreshKey = 0, audience = "patient" }: AdherenceCardProps) {
+    const [summary, setSummary] = useState<AdherenceSummary | null>(null);
+    const [error, setError] = useState("");
+
+    useEffect(() => {
+        if (!patientId) return;
+        let cancelled = false;
+        fetchAdherence(patientId)
+            .then((report) => { if (!cancelled) { setSummary(report.summary); setError(""); } })
+            .catch((err) => { if (!cancelled) setError((err as Error).message); });
+        return () => { cancelled = true; };
+    }, [patientId, refreshKey]);
+
+    if (!summary) {
+        return error ? <p className={styles.empty}>{error}</p> : null;
+    }
+
+    return (
+        <section className={styles.card}>
+            <div className={styles.header}>
+                <Activity size={15} className={styles.headerIcon} />
+                <h3 className={styles.title}>Medication Adherence</h3>
+                <span className={styles.badge}>7 days · {pct(summary.weekly)}</span>
+            </div>
+
+            {summary.medications.length === 0 ? (
+                <p className={styles.empty}>
+                    {audience === "doctor"
+                        ? "The patient hasn't tracked any doses yet."
+                        : "No doses tracked yet. Tick doses on today's schedule to start."}
+                </p>
+            ) : (
+                <>
+                    <div className={styles.stats}>
+                        <div className={styles.stat}>
+                            <span className={styles.statValue}>{pct(summary.weekly)}</span>
+                            <span className={styles.statLabel}>Last 7 days</span>
+                        </div>
+                        <div className={styles.stat}>
+                            <span className={styles.statValue}>{pct(summary.monthly)}</span>
+                            <span className={styles.statLabel}>Last 30 days</span>
+                        </div>
+                        <div className={styles.stat}>
+                            <span className={styles.statValue}>{summary.perfectDays}</span>
+                            <span className={styles.statLabel}>Perfect days in a row</span>
+                        </div>
+                        <div className={`${styles.stat} ${summary.currentMissStreak > 0 ? styles.statAlert : ""}`}>
+                            <span className={styles.statValue}>{summary.currentMissStreak}</span>
+                            <span className={styles.statLabel}>Missed in a row (max {summary.longestMissStreak})</span>
+                        </div>
+                    </div>
+
+                    <div className={styles.medList}>
+                        {summary.medications.map((med) => (
+                            <div key={med.medKey} className={styles.med}>
+                                <div className={styles.medHeader}>
+                                    <span className={styles.medName}>{med.medication}</span>
+                                    <span className={styles.medPct}>{pct(med.monthly)}</span>
+                                </div>
+                                <div className={styles.strip} aria-label={`${med.medication}: daily adherence, last ${med.days.length} days`}>
+                                    {med.days.map((day) => (
+                                        <span
+                                            key={day.date}
+                                            className={`${styles.day} ${dayClass(day)}`}
+                                            title={`${fmtDateShort(day.date)} — ${day.taken} taken, ${day.missed} missed`}
+                                        />
+                                    ))}
+                                </div>
+                                {med.missStreak >= 2 && (
+                                    <span className={styles.medWarn}>Last {med.missStreak} doses missed</span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </section>
+    );
+}
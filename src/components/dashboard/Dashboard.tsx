@@ -4,7 +4,7 @@
 
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useAuth } from "../../hooks/useAuth";
 import { useTimeline } from "../../hooks/useTimeline";
 import styles from "./Dashboard.module.css";
@@ -19,7 +19,15 @@ import EntryDetailModal from "../timeline/EntryDetailModal";
 import ScanModal from "../scan/ScanModal";
 import type { HealthEntry } from "../../lib/types/timeline";
 import type { Appointment } from "../../lib/types/appointment";
-import { buildTodaySchedule, todayTakenKey, doseKey } from "../../lib/utils/medSchedule";
+import { buildTodaySchedule, groupBySlot, scheduleItems, todayTakenKey, doseKey } from "../../lib/utils/medSchedule";
+import * as offline from "../../lib/offline";
+import { syncDosePlan } from "../../lib/push/client";
+import { fetchAdherence, markDose, syncTodayDoses } from "../../lib/services/adherence.service";
+import { labDemographics } from "../../lib/labs";
+import AdherenceCard from "./AdherenceCard";
+import InsightsCard from "./InsightsCard";
+import PreventiveCard from "./PreventiveCard";
+import TrendsCard from "./TrendsCard";
 import type { TimeSlot, ScheduledMed } from "../../lib/utils/medSchedule";
 
 interface DashboardProps {
@@ -65,7 +73,11 @@ const DOC_TYPE_ICON_MAP: Record<string, string> = {
 };
 
 export default function Dashboard({ onNavigate }: DashboardProps) {
-    const { patient, effectivePatient } = useAuth();
+    const { patient, effectivePatient, masterKey, vaultKeyId } = useAuth();
+    const demographics = useMemo(
+        () => labDemographics(effectivePatient?.gender, effectivePatient?.dateOfBirth),
+        [effectivePatient?.gender, effectivePatient?.dateOfBirth]
+    );
     const { entries, loadTimeline, isLoading, updateEntry } = useTimeline();
     const [scanOpen, setScanOpen] = useState(false);
     const [selectedEntry, setSelectedEntry] = useState<HealthEntry | null>(null);
@@ -78,7 +90,9 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
     const [reschedSaving, setReschedSaving] = useState(false);
 
     // ---- Smart Medication Schedule ----
-    const todaySchedule = buildTodaySchedule(entries);
+    // Until entries load, show the schedule saved on this device
+    const [savedSchedule, setSavedSchedule] = useState<ScheduledMed[]>([]);
+    const todaySchedule = entries.length > 0 ? buildTodaySchedule(entries) : groupBySlot(savedSchedule);
     const hasTodayMeds = [...todaySchedule.values()].some((s) => s.length > 0);
     const [takenDoses, setTakenDoses] = useState<Set<string>>(() => {
         if (typeof window === "undefined") return new Set();
@@ -96,15 +110,54 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
         } catch { /* ignore */ }
     }, [effectivePatient?.patientId]);
 
+    useEffect(() => {
+        const ownerId = effectivePatient?.patientId;
+        if (!ownerId || !masterKey) return;
+        offline.loadCached<ScheduledMed[]>(ownerId, "medications", "today", masterKey, vaultKeyId ?? undefined)
+            .then((hit) => setSavedSchedule(hit?.value ?? []));
+    }, [effectivePatient?.patientId, masterKey, vaultKeyId]);
+
+    useEffect(() => {
+        const ownerId = effectivePatient?.patientId;
+        if (!ownerId || !masterKey || entries.length === 0) return;
+        offline.saveCached(ownerId, "medications", "today", scheduleItems(buildTodaySchedule(entries)), masterKey, vaultKeyId ?? undefined);
+    }, [entries, effectivePatient?.patientId, masterKey, vaultKeyId]);
+
+    // Register today's dose slots for push reminders — own schedule only,
+    // not a dependent's being viewed
+    useEffect(() => {
+        if (entries.length === 0 || !patient?.patientId || effectivePatient?.patientId !== patient.patientId) return;
+        syncDosePlan(buildTodaySchedule(entries)).catch(() => {});
+    }, [entries, patient?.patientId, effectivePatient?.patientId]);
+
+    // Persist today's schedule as adherence records, and pick up doses
+    // ticked on another device
+    const [adherenceVersion, setAdherenceVersion] = useState(0);
+    useEffect(() => {
+        const ownerId = effectivePatient?.patientId;
+        if (!ownerId || entries.length === 0) return;
+        syncTodayDoses(ownerId, buildTodaySchedule(entries))
+            .then(() => fetchAdherence(ownerId, 1))
+            .then(({ records }) => {
+                const taken = records.filter((r) => r.status === "taken").map((r) => doseKey(r.slot as TimeSlot, r.medication));
+                if (taken.length > 0) setTakenDoses((prev) => new Set([...prev, ...taken]));
+            })
+            .catch(() => { /* offline — localStorage still has today's ticks */ });
+    }, [entries, effectivePatient?.patientId]);
+
     const toggleDose = (slot: TimeSlot, med: ScheduledMed) => {
         if (!effectivePatient?.patientId) return;
         const key = doseKey(slot, med.name);
+        const taken = !takenDoses.has(key);
         setTakenDoses((prev) => {
             const next = new Set(prev);
-            next.has(key) ? next.delete(key) : next.add(key);
+            if (taken) next.add(key); else next.delete(key);
             try { localStorage.setItem(todayTakenKey(effectivePatient.patientId), JSON.stringify([...next])); } catch { /* ignore */ }
             return next;
         });
+        markDose(effectivePatient.patientId, slot, med.name, taken)
+            .then(() => setAdherenceVersion((v) => v + 1))
+            .catch(() => { /* offline — the tick stays on this device only */ });
     };
 
     const handleReschedule = async () => {
@@ -311,6 +364,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                                                             <span className={styles.scheduleMedName}>{med.name}</span>
                                                             {med.dosage && <span className={styles.scheduleMedDose}>{med.dosage}</span>}
                                                             {med.instructions && <span className={styles.scheduleMedInstr}>{med.instructions}</span>}
+                                                            {med.endDate && <span className={styles.scheduleMedInstr}>until {fmtDateShort(med.endDate)}</span>}
                                                         </button>
                                                     );
                                                 })}
@@ -319,10 +373,43 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                                     );
                                 })}
                             </div>
-                            <p className={styles.scheduleSource}>From prescriptions in the last 30 days · Tap a pill to mark taken</p>
+                            <p className={styles.scheduleSource}>Current courses from your prescriptions · Tap a pill to mark taken</p>
                         </section>
                     )}
 
+                    {effectivePatient?.patientId && (
+                        <InsightsCard
+                            patientId={effectivePatient.patientId}
+                            entries={entries}
+                            onOpenEntry={setSelectedEntry}
+                            demographics={demographics}
+                            birthDate={effectivePatient.dateOfBirth}
+                        />
+                    )}
+
+                    {effectivePatient?.patientId && (
+                        <PreventiveCard
+                            patientId={effectivePatient.patientId}
+                            entries={entries}
+                            birthDate={effectivePatient.dateOfBirth}
+                            gender={effectivePatient.gender}
+                            dependentName={effectivePatient.patientId !== patient?.patientId ? effectivePatient.fullName : undefined}
+                            onOpenEntry={setSelectedEntry}
+                        />
+                    )}
+
+                    {effectivePatient?.patientId && (
+                        <TrendsCard
+                            patientId={effectivePatient.patientId}
+                            entries={entries}
+                            onOpenEntry={(id) => setSelectedEntry(entries.find((e) => e.entryId === id) ?? null)}
+                        />
+                    )}
+
+                    {hasTodayMeds && effectivePatient?.patientId && (
+                        <AdherenceCard patientId={effectivePatient.patientId} refreshKey={adherenceVersion} />
+                    )}
+
 
                     {/* Recent Records */}
                     <section className={styles.recordsSection}>
@@ -553,6 +640,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
             </div >
             {scanOpen && (
                 <ScanModal
+                    entries={entries}
                     onClose={() => setScanOpen(false)}
                     onSaved={() => { setScanOpen(false); loadTimeline(); }}
                 />
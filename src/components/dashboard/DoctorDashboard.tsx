@@ -1,24 +1,34 @@
 // ============================================================
 // Doctor Dashboard — Light-mode UI
-// Flow: Empty state → Verify patient (Card ID → DOB → OTP) →
-//       View data → End Session → back to verify
+// Flow: Empty state → Request access (Card ID → DOB → patient
+//       consent) → View data → End Session → back to verify
 // ============================================================
 
 "use client";
 
 import React, { useState, Suspense, lazy } from "react";
 import { isValidCardId, normalizeCardSuffix } from "../../lib/utils/cardId";
+import { useAuth } from "../../hooks/useAuth";
+import * as accessService from "../../lib/services/access.service";
+import { openEntries } from "../../lib/services/timeline.service";
+import { loadAccessKeyPair } from "../../lib/crypto/keyStore";
+import type { AccessRequest, StoredAccessGrant } from "../../lib/types/audit";
+import type { HealthEntry } from "../../lib/types/timeline";
 import type { CheckupEntry } from "../../lib/aws/dynamodb";
 import { fmtDate, fmtDateShort } from "../../lib/utils/date";
 import { validateHeight, validateWeight, validateBpSys, validateBpDia, validateCommaList, validateMaxLen, firstError } from "../../lib/utils/validate";
 import styles from "./DoctorDashboard.module.css";
+import AdherenceCard from "./AdherenceCard";
+import TrendsCard from "./TrendsCard";
+import { fetchInteractionCheck } from "../../lib/services/medication.service";
+import type { InteractionWarning } from "../../lib/medications/interactions";
 
 // Lazy-load the 3D body model to avoid SSR issues with Three.js
 const BodyModel3D = lazy(() => import("../body3d/BodyModel3D"));
 import type { MedicalRecord } from "../body3d/BodyModel3D";
 
-// Dev mode OTP — in production, OTP comes from the patient's phone
-const DEV_OTP = process.env.NODE_ENV === "development" ? "000000" : null;
+// How often to check whether the patient has answered an access request
+const CONSENT_POLL_MS = 5000;
 
 
 
@@ -186,7 +196,7 @@ export interface DoctorPatientContext {
     history: { type: string; label: string; date: string }[];
 }
 
-type VerifyStep = "card" | "dob" | "otp";
+type VerifyStep = "card" | "dob" | "consent";
 
 // ---- Doctor Welcome Panel (shown when no patient is verified) ----
 function DoctorWelcomePanel({ doctorName }: { doctorName?: string }) {
@@ -266,7 +276,10 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
     const [cardId, setCardId] = useState(""); // stores suffix only: XXXX-XXXX-XXXX
     const fullCardId = `AS-${cardId}`;
     const [dob, setDob] = useState("");
-    const [otp, setOtp] = useState("");
+    const [accessReason, setAccessReason] = useState("");
+    const [pendingRequest, setPendingRequest] = useState<AccessRequest | null>(null);
+    const keyPairRef = React.useRef<Awaited<ReturnType<typeof loadAccessKeyPair>> | null>(null);
+    const { doctor } = useAuth();
     const [verifyError, setVerifyError] = useState("");
     const [isVerifying, setIsVerifying] = useState(false);
 
@@ -305,25 +318,85 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
         setVerifyStep("dob");
     };
 
-    const handleDobSubmit = (e: React.FormEvent) => {
+    const handleDobSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!dob) return;
+        if (!dob || !doctor) return;
+        setIsVerifying(true);
         setVerifyError("");
-        setVerifyStep("otp");
+
+        try {
+            const keys = await loadAccessKeyPair(doctor.doctorId);
+            keyPairRef.current = keys;
+            const { request, grant } = await accessService.requestDoctorAccess(
+                fullCardId, dob, keys.publicKeyBase64, accessReason || undefined
+            );
+            if (grant) {
+                await openPatientSession(grant);
+            } else if (request) {
+                setPendingRequest(request);
+                setVerifyStep("consent");
+            }
+        } catch (err) {
+            setVerifyError((err as Error).message || "Could not request access.");
+        } finally {
+            setIsVerifying(false);
+        }
     };
 
-    const handleOtpSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (otp.length !== 6) return;
-        setIsVerifying(true);
+    // Poll for the patient's decision while a request is pending
+    React.useEffect(() => {
+        if (verifyStep !== "consent" || !pendingRequest) return;
+        const patientId = pendingRequest.patientId;
+        const timer = setInterval(async () => {
+            try {
+                const { requests, grant } = await accessService.fetchDoctorAccess(patientId);
+                if (grant) {
+                    clearInterval(timer);
+                    await openPatientSession(grant);
+                    return;
+                }
+                const latest = requests.find((r) => r.requestId === pendingRequest.requestId);
+                if (latest && latest.status !== "PENDING" && latest.status !== "APPROVED") {
+                    clearInterval(timer);
+                    setPendingRequest(null);
+                    setVerifyStep("card");
+                    setVerifyError(latest.status === "DENIED" ? "The patient declined the access request." : "Access request withdrawn.");
+                }
+            } catch { /* transient — keep polling */ }
+        }, CONSENT_POLL_MS);
+        return () => clearInterval(timer);
+        // openPatientSession is recreated each render; the request id is what matters
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [verifyStep, pendingRequest?.requestId]);
+
+    const handleCancelRequest = async () => {
+        if (pendingRequest) {
+            await accessService.cancelAccessRequest(pendingRequest.patientId, pendingRequest.requestId).catch(() => { /* already answered */ });
+        }
+        setPendingRequest(null);
+        setVerifyStep("card");
         setVerifyError("");
+    };
 
+    /** Unwrap the patient's vault key; null if the grant was made for another device */
+    const openRecordKey = async (grant: StoredAccessGrant): Promise<CryptoKey | null> => {
         try {
-            // Simulate OTP verification delay (replace with real Cognito verify in production)
-            await new Promise((r) => setTimeout(r, 800));
+            const keys = keyPairRef.current ?? (doctor ? await loadAccessKeyPair(doctor.doctorId) : null);
+            return keys ? await accessService.openGrantKey(grant, keys.privateKey) : null;
+        } catch {
+            console.warn("Grant key was wrapped for a different device — sealed records stay locked");
+            return null;
+        }
+    };
 
+    const openPatientSession = async (grant: StoredAccessGrant) => {
+        setIsVerifying(true);
+        setVerifyError("");
+
+        const patientId = grant.patientId;
+        try {
             // ---- Fetch real patient data from Cognito via server-side API ----
-            let patientName = fullCardId;
+            let patientName = patientId;
             let patientAge = 0;
             let patientGender = "Unknown";
             let patientPhone = "";
@@ -339,12 +412,12 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
                 const res = await fetch("/api/patient/lookup", {
                     method: "POST",
                     headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ cardId: fullCardId }),
+                    body: JSON.stringify({ cardId: patientId }),
                 });
                 if (res.ok) {
                     const data = await res.json();
                     if (data.patient) {
-                        patientName = data.patient.name || fullCardId;
+                        patientName = data.patient.name || patientId;
                         patientAge = data.patient.age || 0;
                         patientGender = data.patient.gender || "Unknown";
                         patientPhone = data.patient.phone || "";
@@ -364,7 +437,7 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
             // Fetch checkup history (sparklines)
             let checkupHistory: CheckupEntry[] = [];
             try {
-                const hr = await fetch(`/api/checkup?patientId=${encodeURIComponent(fullCardId)}&limit=12`);
+                const hr = await fetch(`/api/checkup?patientId=${encodeURIComponent(patientId)}&limit=12`);
                 if (hr.ok) {
                     const hd = await hr.json();
                     checkupHistory = hd.history || [];
@@ -372,17 +445,21 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
             } catch { /* non-fatal */ }
 
             // Fetch timeline entries for body map (non-blocking)
-            fetch(`/api/timeline/entries?patientId=${encodeURIComponent(fullCardId)}&viewerType=DOCTOR&viewerId=${encodeURIComponent(doctorName ?? "")}&viewerName=${encodeURIComponent(doctorName ?? "")}`)
+            // Sealed entries open with the patient's vault key, unwrapped from the grant
+            const recordKey = await openRecordKey(grant);
+            fetch(`/api/timeline/entries?patientId=${encodeURIComponent(patientId)}`)
                 .then((r) => r.ok ? r.json() : null)
-                .then((data) => {
-                    if (!data?.entries) return;
-                    const recs: MedicalRecord[] = data.entries.map((e: Record<string, unknown>) => ({
+                .then((data) => data?.entries ? openEntries(data.entries as HealthEntry[], recordKey) : null)
+                .then((entries) => {
+                    if (!entries) return;
+                    setOpenedEntries(entries);
+                    const recs: MedicalRecord[] = entries.map((e) => ({
                         entryId:           e.entryId as string,
                         title:             e.title as string,
                         date:              e.date as string,
                         documentType:      e.documentType as string,
-                        summary:           (e.metadata as Record<string, unknown>)?.summary as string | undefined,
-                        sourceInstitution: e.sourceInstitution as string | undefined,
+                        summary:           e.metadata?.summary,
+                        sourceInstitution: e.sourceInstitution,
                         bodyPart:          (e.metadata as Record<string, unknown>)?.bodyPart as string | undefined,
                     }));
                     setTimelineRecords(recs);
@@ -390,7 +467,7 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
                 .catch(() => { /* non-fatal */ });
 
             const verifiedPatient: PatientData = {
-                cardId: fullCardId,
+                cardId: patientId,
                 name: patientName,
                 age: patientAge,
                 gender: patientGender,
@@ -418,10 +495,11 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
             });
             setCardId("");
             setDob("");
-            setOtp("");
+            setAccessReason("");
+            setPendingRequest(null);
             setVerifyStep("card");
         } catch {
-            setVerifyError("Verification failed. Please check credentials.");
+            setVerifyError("Could not load patient records.");
         } finally {
             setIsVerifying(false);
         }
@@ -434,8 +512,10 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
         setVerifyError("");
         setCardId("");
         setDob("");
-        setOtp("");
+        setAccessReason("");
+        setPendingRequest(null);
         setTimelineRecords([]);
+        setOpenedEntries([]);
         setSelectedBodyPart(null);
         setBodyPartRecords([]);
         setPatientAppointments([]);
@@ -446,6 +526,8 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
 
     // ---- Body map: timeline records + selected part ----
     const [timelineRecords, setTimelineRecords] = useState<MedicalRecord[]>([]);
+    // The same entries, opened — lab results and vitals feed the trends card
+    const [openedEntries, setOpenedEntries] = useState<HealthEntry[]>([]);
     const [selectedBodyPart, setSelectedBodyPart] = useState<string | null>(null);
     const [bodyPartRecords, setBodyPartRecords] = useState<MedicalRecord[]>([]);
 
@@ -561,6 +643,21 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
     const [rxSaving, setRxSaving]               = useState(false);
     const [rxDone, setRxDone]                   = useState(false);
     const [rxError, setRxError]                 = useState("");
+    const [rxWarnings, setRxWarnings]           = useState<InteractionWarning[]>([]);
+
+    // Check what is being written against the patient's current courses and
+    // allergies as the doctor types — a warning, never a block on saving
+    React.useEffect(() => {
+        const lines = rxMedications.split("\n").map(l => l.trim()).filter(Boolean);
+        if (!patient?.cardId || modalOpen !== "prescription" || lines.length === 0) { setRxWarnings([]); return; }
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            fetchInteractionCheck(patient.cardId, lines)
+                .then(warnings => { if (!cancelled) setRxWarnings(warnings); })
+                .catch(() => { /* non-fatal — the save still checks */ });
+        }, 600);
+        return () => { cancelled = true; clearTimeout(timer); };
+    }, [rxMedications, patient?.cardId, modalOpen]);
 
     const handleSavePrescription = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -793,19 +890,19 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
 
                         {/* Steps */}
                         <div className={styles.verifySteps}>
-                            <div className={`${styles.verifyStep} ${verifyStep === "card" || verifyStep === "dob" || verifyStep === "otp" ? styles.verifyStepActive : ""}`}>
+                            <div className={`${styles.verifyStep} ${verifyStep === "card" || verifyStep === "dob" || verifyStep === "consent" ? styles.verifyStepActive : ""}`}>
                                 <span className={styles.verifyStepNum}>1</span>
                                 <span className={styles.verifyStepLabel}>Card ID</span>
                             </div>
                             <div className={styles.verifyStepLine} />
-                            <div className={`${styles.verifyStep} ${verifyStep === "dob" || verifyStep === "otp" ? styles.verifyStepActive : ""}`}>
+                            <div className={`${styles.verifyStep} ${verifyStep === "dob" || verifyStep === "consent" ? styles.verifyStepActive : ""}`}>
                                 <span className={styles.verifyStepNum}>2</span>
                                 <span className={styles.verifyStepLabel}>DOB</span>
                             </div>
                             <div className={styles.verifyStepLine} />
-                            <div className={`${styles.verifyStep} ${verifyStep === "otp" ? styles.verifyStepActive : ""}`}>
+                            <div className={`${styles.verifyStep} ${verifyStep === "consent" ? styles.verifyStepActive : ""}`}>
                                 <span className={styles.verifyStepNum}>3</span>
-                                <span className={styles.verifyStepLabel}>OTP</span>
+                                <span className={styles.verifyStepLabel}>Consent</span>
                             </div>
                         </div>
 
@@ -838,37 +935,28 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
                                     <input type="date" className={`${styles.verifyInput} ${styles.verifyInputNormal}`}
                                         value={dob} onChange={(e) => setDob(e.target.value)} autoFocus />
                                 </div>
-                                <button type="submit" className={styles.verifyBtn} disabled={!dob}>Verify &amp; Send OTP</button>
-                            </form>
-                        )}
-                        {verifyStep === "otp" && (
-                            <form onSubmit={handleOtpSubmit} className={styles.verifyForm}>
                                 <div>
-                                    <label className={styles.verifyLabel}>Patient OTP</label>
-                                    <p className={styles.verifyHint} style={{ marginBottom: 8 }}>OTP sent to patient&apos;s registered mobile</p>
-                                    {DEV_OTP && <p className={styles.devOtpHint}>Dev OTP: {DEV_OTP}</p>}
-                                    <div className={styles.otpRow}>
-                                        {[0, 1, 2, 3, 4, 5].map((i) => (
-                                            <input key={i} type="text" className={styles.otpDigit} maxLength={1}
-                                                value={otp[i] || ""}
-                                                onChange={(e) => {
-                                                    const val = e.target.value.replace(/\D/g, "");
-                                                    const arr = otp.split(""); arr[i] = val; setOtp(arr.join(""));
-                                                    if (val && e.target.nextElementSibling) (e.target.nextElementSibling as HTMLInputElement).focus();
-                                                }}
-                                                onKeyDown={(e) => {
-                                                    if (e.key === "Backspace" && !otp[i] && e.currentTarget.previousElementSibling)
-                                                        (e.currentTarget.previousElementSibling as HTMLInputElement).focus();
-                                                }}
-                                                autoFocus={i === 0} />
-                                        ))}
-                                    </div>
+                                    <label className={styles.verifyLabel}>Reason for access (optional)</label>
+                                    <input type="text" className={`${styles.verifyInput} ${styles.verifyInputNormal}`}
+                                        placeholder="e.g. OPD consultation" maxLength={200}
+                                        value={accessReason} onChange={(e) => setAccessReason(e.target.value)} />
                                 </div>
-                                <button type="submit" className={styles.verifyBtn} disabled={isVerifying || otp.length !== 6}>
-                                    {isVerifying ? "Verifying..." : "Verify Patient"}
+                                <button type="submit" className={styles.verifyBtn} disabled={!dob || isVerifying}>
+                                    {isVerifying ? "Requesting..." : "Request Access"}
                                 </button>
                             </form>
                         )}
+                        {verifyStep === "consent" && (
+                            <div className={styles.verifyForm}>
+                                <p className={styles.verifyHint}>
+                                    Waiting for the patient to approve your request in their ArogyaSutra app
+                                    (Settings → Doctor Access). This page updates automatically.
+                                </p>
+                                <button type="button" className={styles.verifyBtn} onClick={handleCancelRequest} disabled={isVerifying}>
+                                    {isVerifying ? "Loading records..." : "Cancel Request"}
+                                </button>
+                            </div>
+                        )}
                     </div>
                 </div>
             ) : (
@@ -1109,6 +1197,13 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
                                 </div>
                             )}
 
+                            <TrendsCard
+                                patientId={patient.cardId}
+                                entries={openedEntries}
+                                onOpenEntry={(id) => onNavigate(`entry/${id}`)}
+                                refreshKey={patient.checkupHistory.length}
+                            />
+
                             {/* Allergies & Medications */}
                             <div className={styles.allergyMedGrid}>
                                 <div className={styles.allergyMedSection}>
@@ -1247,6 +1342,9 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
                                 )}
                             </div>
 
+                            {/* ---- Medication Adherence ---- */}
+                            <AdherenceCard patientId={patient.cardId} audience="doctor" />
+
 
                         </div>
                         <button
@@ -1418,6 +1516,19 @@ export default function DoctorDashboard({ onNavigate, doctorName, onPatientVerif
                                         placeholder={"Tab. Metformin 500mg — twice daily after meals\nCap. Vitamin D3 60000 IU — once weekly"}
                                         value={rxMedications} onChange={e => setRxMedications(e.target.value)} />
                                 </div>
+                                {rxWarnings.length > 0 && (
+                                    <div className={styles.rxWarnings} role="alert">
+                                        {rxWarnings.map(w => (
+                                            <div key={w.id} className={`${styles.rxWarning} ${w.severity === "contraindicated" || w.severity === "major" ? styles.rxWarningMajor : ""}`}>
+                                                <span className={styles.rxWarningTitle}>
+                                                    {w.kind === "allergy" ? `${w.drugs[0]} — allergy: ${w.allergy}` : `${w.drugs[0]} + ${w.drugs[1]}`}
+                                                    <span className={styles.rxWarningSeverity}>{w.severity}</span>
+                                                </span>
+                                                <span className={styles.rxWarningText}>{w.effect} {w.advice}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                                 <div className={styles.modalField}>
                                     <label className={styles.modalLabel}>Special Instructions</label>
                                     <textarea className={styles.modalTextarea} rows={2} maxLength={400}
@@ -0,0 +1,180 @@
+// ============================================================
+// InsightsCard — proactive health insights on the dashboard
+// Stored insights from the server, plus the same rules run here
+// over the decrypted timeline so sealed entries are covered.
+// Each insight cites the entries and values behind it; tapping
+// a source opens it. Insights can be marked read or dismissed.
+// ============================================================
+
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Check, Info, ShieldAlert, X } from "lucide-react";
+import styles from "./InsightsCard.module.css";
+import { fetchInsights, markInsights } from "../../lib/services/insight.service";
+import type { InsightAction } from "../../lib/services/insight.service";
+import { ABSENCE_TYPES, generateInsights } from "../../lib/insights/engine";
+import { fmtDateShort } from "../../lib/utils/date";
+import type { LabDemographics } from "../../lib/labs";
+import type { HealthInsight } from "../../lib/types/rag";
+import type { HealthEntry } from "../../lib/types/timeline";
+
+interface InsightsCardProps {
+    patientId: string;
+    entries: HealthEntry[];
+    onOpenEntry: (entry: HealthEntry) => void;
+    /** Sex and age, for default lab ranges */
+    demographics?: LabDemographics;
+    /** Places the vaccine and screening schedule */
+    birthDate?: string;
+}
+
+/** Read/dismissed state for insights found only on this device */
+interface LocalState {
+    read: string[];
+    dismissed: string[];
+}
+
+const SEVERITY_ICON: Record<HealthInsight["severity"], React.ReactNode> = {
+    alert: <ShieldAlert size={15} />,
+    warning: <AlertTriangle size={15} />,
+    info: <Info size={15} />,
+};
+
+const SEVERITY_ORDER: Record<HealthInsight["severity"], number> = { alert: 0, warning: 1, info: 2 };
+
+const MAX_POINTS = 4;
+
+const NO_LOCAL_STATE: LocalState = { read: [], dismissed: [] };
+
+function storageKey(patientId: string): string {
+    return `arogyasutra_insights_${patientId}`;
+}
+
+function loadLocalState(patientId: string): LocalState {
+    try {
+        const raw = localStorage.getItem(storageKey(patientId));
+        if (raw) return { read: [], dismissed: [], ...JSON.parse(raw) };
+    } catch { /* storage unavailable or corrupt — start fresh */ }
+    return { read: [], dismissed: [] };
+}
+
+export default function InsightsCard({ patientId, entries, onOpenEntry, demographics, birthDate }: InsightsCardProps) {
+    const [stored, setStored] = useState<HealthInsight[]>([]);
+    const [local, setLocal] = useState<{ patientId: string; state: LocalState } | null>(null);
+    // Reload this device's state when the card switches patient (e.g. to a dependent)
+    if (typeof window !== "undefined" && local?.patientId !== patientId) {
+        setLocal({ patientId, state: loadLocalState(patientId) });
+    }
+    const localState = local?.state ?? NO_LOCAL_STATE;
+
+    useEffect(() => {
+        if (!patientId) return;
+        let cancelled = false;
+        fetchInsights(patientId)
+            .then((insights) => { if (!cancelled) setStored(insights); })
+            .catch(() => { /* non-fatal — local checks still show */ });
+        return () => { cancelled = true; };
+    }, [patientId, entries.length]);
+
+    const insights = useMemo(() => {
+        const found = generateInsights({ patientId, entries, demographics, birthDate });
+        const foundIds = new Set(found.map((i) => i.insightId));
+        const byId = new Map(found.map((i) => [i.insightId, i]));
+        for (const insight of stored) {
+            // The server can't see sealed entries, so this device — which can — decides
+            // whether something is missing from the record
+            if (ABSENCE_TYPES.includes(insight.type) && !foundIds.has(insight.insightId)) continue;
+            // A stored copy carries read/dismiss state, so it wins
+            byId.set(insight.insightId, insight);
+        }
+        return [...byId.values()]
+            .filter((i) => !localState.dismissed.includes(i.insightId))
+            .map((i) => (localState.read.includes(i.insightId) ? { ...i, isRead: true } : i))
+            .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || Number(a.isRead) - Number(b.isRead));
+    }, [patientId, entries, demographics, birthDate, stored, localState]);
+
+    const entriesById = useMemo(() => new Map(entries.map((e) => [e.entryId, e])), [entries]);
+
+    const mark = (ids: string[], action: InsightAction) => {
+        const storedIds = new Set(stored.map((i) => i.insightId));
+        const remote = ids.filter((id) => storedIds.has(id));
+        const deviceOnly = ids.filter((id) => !storedIds.has(id));
+
+        if (remote.length > 0) {
+            setStored((prev) => action === "dismiss"
+                ? prev.filter((i) => !remote.includes(i.insightId))
+                : prev.map((i) => (remote.includes(i.insightId) ? { ...i, isRead: true } : i)));
+            markInsights(patientId, remote, action).catch(() => { /* non-fatal — it shows again next visit */ });
+        }
+        if (deviceOnly.length > 0) {
+            const key = action === "dismiss" ? "dismissed" : "read";
+            const next = { ...localState, [key]: [...new Set([...localState[key], ...deviceOnly])] };
+            setLocal({ patientId, state: next });
+            try { localStorage.setItem(storageKey(patientId), JSON.stringify(next)); } catch { /* storage full or unavailable */ }
+        }
+    };
+
+    if (insights.length === 0) return null;
+    const unread = insights.filter((i) => !i.isRead);
+
+    return (
+        <section className={styles.card}>
+            <div className={styles.header}>
+                <ShieldAlert size={15} className={styles.headerIcon} />
+                <h3 className={styles.title}>Health Insights</h3>
+                {unread.length > 0 && (
+                    <button className={styles.markAll} onClick={() => mark(unread.map((i) => i.insightId), "read")}>
+                        Mark all read
+                    </button>
+                )}
+                <span className={styles.badge}>{unread.length > 0 ? `${unread.length} new` : insights.length}</span>
+            </div>
+            <ul className={styles.list}>
+                {insights.map((insight) => (
+                    <li key={insight.insightId} className={`${styles.item} ${styles[insight.severity]} ${insight.isRead ? styles.read : ""}`}>
+                        <span className={styles.icon}>{SEVERITY_ICON[insight.severity]}</span>
+                        <div className={styles.body}>
+                            <span className={styles.itemTitle}>
+                                {!insight.isRead && <span className={styles.unreadDot} aria-label="New" />}
+                                {insight.title}
+                            </span>
+                            <p className={styles.description}>{insight.description}</p>
+                            {insight.dataPoints.length > 0 && (
+                                <div className={styles.points}>
+                                    {insight.dataPoints.slice(-MAX_POINTS).map((p, i) => (
+                                        <span key={`${p.entryId}-${p.date}-${i}`} className={styles.point}>
+                                            {p.value}{p.unit ? ` ${p.unit}` : ""} · {fmtDateShort(p.date)}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            {insight.relatedEntryIds.some((id) => entriesById.has(id)) && (
+                                <div className={styles.sources}>
+                                    {insight.relatedEntryIds.map((id) => {
+                                        const entry = entriesById.get(id);
+                                        return entry && (
+                                            <button key={id} className={styles.source} onClick={() => onOpenEntry(entry)}>
+                                                {entry.title} · {fmtDateShort(entry.date)}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                        <div className={styles.actions}>
+                            {!insight.isRead && (
+                                <button className={styles.action} onClick={() => mark([insight.insightId], "read")} title="Mark read" aria-label="Mark read">
+                                    <Check size={14} />
+                                </button>
+                            )}
+                            <button className={styles.action} onClick={() => mark([insight.insightId], "dismiss")} title="Dismiss" aria-label="Dismiss">
+                                <X size={14} />
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </section>
+    );
+}
@@ -0,0 +1,149 @@
+// ============================================================
+// PreventiveCard — vaccines and screenings on the dashboard
+// The schedule is built here from the decrypted timeline and the
+// profile's date of birth and sex, so a guardian viewing a child
+// sees the child schedule. Overdue and due items come first, then
+// what falls due in the next months. Upcoming dates — counts only
+// — are registered for reminders.
+// ============================================================
+
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { CalendarClock, CheckCircle2, Syringe } from "lucide-react";
+import styles from "./PreventiveCard.module.css";
+import { buildPreventiveSchedule, reminderDates } from "../../lib/preventive";
+import { syncPreventivePlan } from "../../lib/push/client";
+import { fmtDate, fmtDateShort, localIsoDate, addDaysIso } from "../../lib/utils/date";
+import type { PreventiveItem, PreventiveStatus } from "../../lib/types/preventive";
+import type { HealthEntry } from "../../lib/types/timeline";
+
+interface PreventiveCardProps {
+    patientId: string;
+    entries: HealthEntry[];
+    birthDate?: string;
+    gender?: string;
+    /** Set when a guardian is viewing a dependent — names them in reminders */
+    dependentName?: string;
+    onOpenEntry: (entry: HealthEntry) => void;
+}
+
+// Upcoming items shown are those due within this many days
+const UPCOMING_DAYS = 180;
+const MAX_UPCOMING = 4;
+
+const STATUS_LABEL: Record<PreventiveStatus, string> = {
+    overdue: "Overdue",
+    due: "Due",
+    upcoming: "Upcoming",
+    completed: "Done",
+};
+
+function itemLabel(item: PreventiveItem): string {
+    return item.dose ? `${item.name} · ${item.dose}` : item.name;
+}
+
+export default function PreventiveCard({ patientId, entries, birthDate, gender, dependentName, onOpenEntry }: PreventiveCardProps) {
+    const [showCompleted, setShowCompleted] = useState(false);
+    const today = localIsoDate();
+
+    const schedule = useMemo(
+        () => buildPreventiveSchedule({
+            entries,
+            birthDate,
+            sex: gender === "male" || gender === "female" ? gender : undefined,
+            today,
+        }),
+        [entries, birthDate, gender, today]
+    );
+
+    useEffect(() => {
+        if (!schedule.hasBirthDate) return;
+        syncPreventivePlan(patientId, reminderDates(schedule, today), dependentName).catch(() => { /* non-fatal — reminders only */ });
+    }, [patientId, schedule, today, dependentName]);
+
+    const entriesById = useMemo(() => new Map(entries.map((e) => [e.entryId, e])), [entries]);
+
+    const horizon = addDaysIso(today, UPCOMING_DAYS);
+    const pending = schedule.items.filter((i) => i.status === "overdue" || i.status === "due");
+    const upcoming = schedule.items
+        .filter((i) => i.status === "upcoming" && i.dueDate && i.dueDate <= horizon)
+        .slice(0, MAX_UPCOMING);
+    const completed = schedule.items.filter((i) => i.status === "completed");
+
+    const renderItem = (item: PreventiveItem) => {
+        const entry = item.entryId ? entriesById.get(item.entryId) : undefined;
+        const date = item.status === "completed" ? item.completedDate : item.dueDate;
+        return (
+            <li key={item.id} className={`${styles.item} ${styles[item.status]}`}>
+                <span className={styles.icon}>
+                    {item.status === "completed" ? <CheckCircle2 size={14} /> : item.kind === "vaccine" ? <Syringe size={14} /> : <CalendarClock size={14} />}
+                </span>
+                <div className={styles.body}>
+                    <span className={styles.itemTitle}>{itemLabel(item)}</span>
+                    <span className={styles.when}>
+                        {item.when}
+                        {date
+                            ? ` · ${item.status === "completed" ? "given" : "due"} ${fmtDateShort(date)}`
+                            : item.status !== "upcoming" && " · none on record"}
+                    </span>
+                    {entry && (
+                        <button className={styles.source} onClick={() => onOpenEntry(entry)}>
+                            {entry.title} · {fmtDateShort(entry.date)}
+                        </button>
+                    )}
+                </div>
+                <span className={styles.status}>{STATUS_LABEL[item.status]}</span>
+            </li>
+        );
+    };
+
+    if (schedule.hasBirthDate && schedule.items.length === 0) return null;
+
+    return (
+        <section className={styles.card}>
+            <div className={styles.header}>
+                <Syringe size={15} className={styles.headerIcon} />
+                <h3 className={styles.title}>Preventive care</h3>
+                {schedule.hasBirthDate && (
+                    <span className={styles.badge}>{schedule.audience === "child" ? "Child schedule" : "Adult schedule"}</span>
+                )}
+            </div>
+
+            {!schedule.hasBirthDate ? (
+                <p className={styles.empty}>A date of birth on the profile is needed to work out which vaccines and screenings are due.</p>
+            ) : (
+                <>
+                    {pending.length > 0 ? (
+                        <ul className={styles.list}>{pending.map(renderItem)}</ul>
+                    ) : (
+                        <p className={styles.empty}>Nothing due right now.</p>
+                    )}
+
+                    {upcoming.length > 0 && (
+                        <>
+                            <h4 className={styles.sectionLabel}>Coming up</h4>
+                            <ul className={styles.list}>{upcoming.map(renderItem)}</ul>
+                        </>
+                    )}
+
+                    {completed.length > 0 && (
+                        <>
+                            <button className={styles.toggle} onClick={() => setShowCompleted((v) => !v)}>
+                                {showCompleted ? "Hide" : "Show"} {completed.length} completed
+                            </button>
+                            {showCompleted && <ul className={styles.list}>{completed.map(renderItem)}</ul>}
+                        </>
+                    )}
+
+                    <p className={styles.footnote}>
+                        {schedule.audience === "child"
+                            ? "India's Universal Immunisation Programme schedule"
+                            : "Adult vaccines and screenings for age and sex"}
+                        {" "}· as of {fmtDate(today)}. Add vaccination cards to keep it current.
+                    </p>
+                </>
+            )}
+        </section>
+    );
+}
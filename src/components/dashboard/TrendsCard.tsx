@@ -0,0 +1,191 @@
+// ============================================================
+// TrendsCard — lab and vitals trends with an interactive chart
+// Series from /api/trends merged with ones built here over the
+// decrypted timeline, so sealed lab reports are charted too.
+// Pick a test, hover a point for its value, tap it to open the
+// report it came from. Used by both dashboards.
+// ============================================================
+
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Activity, Minus, TrendingDown, TrendingUp } from "lucide-react";
+import styles from "./TrendsCard.module.css";
+import { fetchTrends } from "../../lib/services/trend.service";
+import { buildTrends, mergeTrends } from "../../lib/trends/build";
+import { fmtDateShort } from "../../lib/utils/date";
+import type { HealthEntry } from "../../lib/types/timeline";
+import type { TrendPoint, TrendSeries, TrendsResponse } from "../../lib/types/trends";
+
+interface TrendsCardProps {
+    patientId: string;
+    /** Decrypted entries this screen already holds */
+    entries: HealthEntry[];
+    onOpenEntry: (entryId: string) => void;
+    /** Bump to refetch, e.g. after a checkup is saved */
+    refreshKey?: number;
+}
+
+const W = 320;
+const H = 150;
+const PAD = { top: 12, right: 12, bottom: 22, left: 36 };
+
+const DIRECTION_ICON: Record<TrendSeries["direction"], React.ReactNode> = {
+    rising: <TrendingUp size={13} />,
+    falling: <TrendingDown size={13} />,
+    stable: <Minus size={13} />,
+    insufficient: null,
+};
+
+function fmtValue(value: number, unit: string): string {
+    return `${value}${unit ? ` ${unit}` : ""}`;
+}
+
+function summaryOf(series: TrendSeries): string {
+    const parts: string[] = [];
+    if (series.direction === "insufficient") parts.push("One result so far");
+    else if (series.direction === "stable") parts.push("Holding steady");
+    else parts.push(`${series.direction === "rising" ? "Rising" : "Falling"}${series.changePct !== undefined ? ` ${Math.abs(series.changePct)}%` : ""} over the recent results`);
+    if (series.streak) {
+        parts.push(`${series.streak.status === "High" ? "above" : "below"} range on the last ${series.streak.count} since ${fmtDateShort(series.streak.since)}`);
+    }
+    if (series.assessment) parts.push(series.assessment === "worsening" ? "moving further out of range" : "moving back toward range");
+    return parts.join(" · ");
+}
+
+function Chart({ series, onOpenEntry }: { series: TrendSeries; onOpenEntry: (entryId: string) => void }) {
+    const [hover, setHover] = useState<number | null>(null);
+    const { points, range } = series;
+
+    const times = points.map((p) => Date.parse(p.date));
+    const t0 = Math.min(...times);
+    const t1 = Math.max(...times);
+    const values = [...points.map((p) => p.value), ...(range?.low !== undefined ? [range.low] : []), ...(range?.high !== undefined ? [range.high] : [])];
+    const lo = Math.min(...values);
+    const hi = Math.max(...values);
+    const span = hi - lo || Math.abs(hi) || 1;
+    const vMin = lo - span * 0.1;
+    const vMax = hi + span * 0.1;
+
+    const x = (t: number) => PAD.left + (t1 > t0 ? ((t - t0) / (t1 - t0)) : 0.5) * (W - PAD.left - PAD.right);
+    const y = (v: number) => PAD.top + (1 - (v - vMin) / (vMax - vMin)) * (H - PAD.top - PAD.bottom);
+    const coords = points.map((p, i) => ({ p, cx: x(times[i]), cy: y(p.value) }));
+    const hovered: TrendPoint | undefined = hover !== null ? points[hover] : undefined;
+
+    return (
+        <div className={styles.chartWrap}>
+            <svg className={styles.chart} viewBox={`0 0 ${W} ${H}`} role="img" aria-label={`${series.name} over time`}>
+                {range && (
+                    <rect
+                        className={styles.band}
+                        x={PAD.left}
+                        width={W - PAD.left - PAD.right}
+                        y={y(Math.min(range.high ?? vMax, vMax))}
+                        height={Math.max(0, y(Math.max(range.low ?? vMin, vMin)) - y(Math.min(range.high ?? vMax, vMax)))}
+                    />
+                )}
+                <text className={styles.axis} x={PAD.left - 6} y={PAD.top + 4} textAnchor="end">{+vMax.toPrecision(3)}</text>
+                <text className={styles.axis} x={PAD.left - 6} y={H - PAD.bottom} textAnchor="end">{+vMin.toPrecision(3)}</text>
+                <text className={styles.axis} x={PAD.left} y={H - 6}>{fmtDateShort(points[0].date)}</text>
+                {points.length > 1 && (
+                    <text className={styles.axis} x={W - PAD.right} y={H - 6} textAnchor="end">{fmtDateShort(points[points.length - 1].date)}</text>
+                )}
+                {coords.length > 1 && (
+                    <polyline className={styles.line} points={coords.map((c) => `${c.cx.toFixed(1)},${c.cy.toFixed(1)}`).join(" ")} />
+                )}
+                {coords.map(({ p, cx, cy }, i) => {
+                    const linked = p.source !== "checkup";
+                    const open = () => { if (linked) onOpenEntry(p.entryId); };
+                    return (
+                        <circle
+                            key={`${p.entryId}-${i}`}
+                            className={`${styles.point} ${p.status && p.status !== "Normal" ? styles.pointOut : ""} ${linked ? styles.pointLinked : ""}`}
+                            cx={cx}
+                            cy={cy}
+                            r={hover === i ? 6 : 4.5}
+                            tabIndex={linked ? 0 : -1}
+                            role={linked ? "button" : undefined}
+                            aria-label={`${fmtValue(p.value, p.unit)} on ${fmtDateShort(p.date)}`}
+                            onMouseEnter={() => setHover(i)}
+                            onMouseLeave={() => setHover(null)}
+                            onFocus={() => setHover(i)}
+                            onBlur={() => setHover(null)}
+                            onClick={open}
+                            onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); open(); } }}
+                        />
+                    );
+                })}
+            </svg>
+            <p className={styles.readout}>
+                {hovered ? (
+                    <>
+                        <strong>{fmtValue(hovered.value, hovered.unit)}</strong>
+                        {hovered.status && hovered.status !== "Normal" && <span className={styles.readoutFlag}>{hovered.status}</span>}
+                        {" · "}{fmtDateShort(hovered.date)}
+                        {" · "}{hovered.source === "checkup" ? "Clinic checkup" : `${hovered.label} — tap to open`}
+                    </>
+                ) : (
+                    <>Latest <strong>{fmtValue(points[points.length - 1].value, series.unit)}</strong> · {fmtDateShort(points[points.length - 1].date)}</>
+                )}
+            </p>
+        </div>
+    );
+}
+
+export default function TrendsCard({ patientId, entries, onOpenEntry, refreshKey }: TrendsCardProps) {
+    const [server, setServer] = useState<TrendsResponse | null>(null);
+    const [selected, setSelected] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!patientId) return;
+        let cancelled = false;
+        fetchTrends(patientId)
+            .then((res) => { if (!cancelled) setServer(res); })
+            .catch(() => { /* non-fatal — local series still show */ });
+        return () => { cancelled = true; };
+    }, [patientId, entries.length, refreshKey]);
+
+    const series = useMemo(
+        () => mergeTrends(server?.series ?? [], buildTrends({ entries }, server?.demographics)),
+        [server, entries]
+    );
+
+    if (series.length === 0) return null;
+    const current = series.find((s) => s.key === selected) ?? series[0];
+
+    return (
+        <section className={styles.card}>
+            <div className={styles.header}>
+                <Activity size={15} className={styles.headerIcon} />
+                <h3 className={styles.title}>Trends</h3>
+                <span className={styles.badge}>{series.length}</span>
+            </div>
+
+            <div className={styles.chips} role="tablist">
+                {series.map((s) => (
+                    <button
+                        key={s.key}
+                        role="tab"
+                        aria-selected={s.key === current.key}
+                        className={`${styles.chip} ${s.key === current.key ? styles.chipActive : ""} ${s.streak || s.assessment === "worsening" ? styles.chipConcern : ""}`}
+                        onClick={() => setSelected(s.key)}
+                    >
+                        {s.name}
+                        {DIRECTION_ICON[s.direction]}
+                    </button>
+                ))}
+            </div>
+
+            <Chart key={current.key} series={current} onOpenEntry={onOpenEntry} />
+            <p className={`${styles.summary} ${current.streak || current.assessment === "worsening" ? styles.summaryConcern : ""}`}>
+                {summaryOf(current)}
+            </p>
+            {current.range && (
+                <p className={styles.rangeNote}>
+                    Shaded: typical range{server?.demographics.sex ? ` for ${server.demographics.sex === "male" ? "men" : "women"}` : ""}
+                    {current.kind === "lab" ? " — your report's own range may differ" : ""}
+                </p>
+            )}
+        </section>
+    );
+}
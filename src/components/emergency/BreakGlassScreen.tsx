@@ -46,12 +46,13 @@ export default function BreakGlassScreen({ onClose }: Props) {
         emergencyContacts?: { name: string; relationship: string; phone: string }[];
     } | null>(null);
     const [sessionId, setSessionId] = useState<string>("");
+    const [notifiedCount, setNotifiedCount] = useState(0);
     const [error, setError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [patientPhotoUrl, setPatientPhotoUrl] = useState<string | null>(null);
 
     const countdown = useCountdown({
-        duration: 300, // 5 minutes per Req 6
+        duration: 300, // 5 minutes per Req 6 — display only, the server enforces expiresAt
         onExpire: () => {
             // Auto-terminate session
             endSession();
@@ -64,6 +65,7 @@ export default function BreakGlassScreen({ onClose }: Props) {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({ sessionId }),
+                keepalive: true, // overlay unmounts right after
             }).catch(() => { /* non-blocking */ });
         }
         onClose();
@@ -123,12 +125,13 @@ export default function BreakGlassScreen({ onClose }: Props) {
 
             setEmergencyData(data.emergencyData);
             setSessionId(data.sessionId);
+            setNotifiedCount(data.notified ?? 0);
             setStep("data");
             countdown.start();
 
             // Fetch patient profile photo (non-blocking)
             const fullPatientId = `AS-${form.patientId}`.toUpperCase().trim();
-            fetch(`/api/profile/photo?userId=${encodeURIComponent(fullPatientId)}&role=patient`)
+            fetch(`/api/profile/photo?userId=${encodeURIComponent(fullPatientId)}&role=patient&sessionId=${encodeURIComponent(data.sessionId)}`)
                 .then(r => r.json())
                 .then(d => { if (d.url) setPatientPhotoUrl(d.url); })
                 .catch(() => { /* non-fatal */ });
@@ -157,7 +160,7 @@ export default function BreakGlassScreen({ onClose }: Props) {
                     Emergency Access
                 </span>
                 <span className={styles.headerSpacer} />
-                <button className={styles.closeBtn} onClick={onClose} title="Cancel">✕</button>
+                <button className={styles.closeBtn} onClick={endSession} title={sessionId ? "End Session" : "Cancel"}>✕</button>
             </div>
 
             <div className={styles.body}>
@@ -418,7 +421,7 @@ export default function BreakGlassScreen({ onClose }: Props) {
                         {/* Audit notice */}
                         <div className={styles.auditFooter}>
                             <span className={styles.auditDot} />
-                            Access logged · Patient notified · Session ID: {sessionId.slice(0, 8)}
+                            Access logged · {notifiedCount > 0 ? `${notifiedCount} notified by SMS` : "No SMS alert delivered"} · Session ID: {sessionId.slice(0, 8)}
                         </div>
                     </div>
                 )}
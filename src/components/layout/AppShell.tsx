@@ -9,6 +9,7 @@
 import React, { useState, useEffect, useRef } from "react";
 import { useAuth } from "../../hooks/useAuth";
 import { useLanguage } from "../../hooks/useLanguage";
+import { useOutboxSync } from "../../hooks/useScanOutbox";
 import styles from "./AppShell.module.css";
 import {
     LayoutDashboard, ClipboardList, Camera, Link2,
@@ -16,10 +17,10 @@ import {
     Bell, Search, MoreVertical, CheckCheck, ShieldCheck, X, Users, Menu,
 } from "lucide-react";
 import { GeminiIcon } from "../common/GeminiIcon";
-import {
-    ALL_NOTIFICATIONS, applyReadIds, localReadIds, saveLocalReadIds,
-    type AppNotification,
-} from "../../lib/utils/notifications";
+import { notificationIcon, timeAgo } from "../../lib/utils/notifications";
+import { useNotifications } from "../../hooks/useNotifications";
+import { resyncDevicePush } from "../../lib/push/client";
+import type { AppNotification } from "../../lib/types/notification";
 
 interface NavItem {
     id: string;
@@ -78,6 +79,7 @@ export default function AppShell({
 }: AppShellProps) {
     const { logout, viewingAs, switchToDependent, switchToSelf, dependents } = useAuth();
     const { t } = useLanguage();
+    useOutboxSync();
     const isDoctor = userRole === "Doctor";
 
     const navMain: NavItem[] = isDoctor
@@ -179,6 +181,11 @@ export default function AppShell({
         await logout();
     };
 
+    // Keep this device's push subscription registered to whoever is signed in
+    useEffect(() => {
+        if (userId) resyncDevicePush().catch(() => {});
+    }, [userId]);
+
     // ---- Notification panel ----
     const [notifOpen, setNotifOpen] = useState(false);
     const notifRef = useRef<HTMLDivElement>(null);
@@ -194,50 +201,16 @@ export default function AppShell({
         return () => document.removeEventListener("mousedown", handleClick);
     }, [notifOpen]);
 
-    // Initialise from localStorage instantly (no flicker), then hydrate from DynamoDB
-    const [notifications, setNotifications] = useState<AppNotification[]>(() => {
-        if (!userId || typeof window === "undefined") return ALL_NOTIFICATIONS;
-        return applyReadIds(ALL_NOTIFICATIONS, localReadIds(userId));
-    });
-    // Only POST after the first DynamoDB GET hydration is complete — prevents spurious POSTs on mount
-    const notifHydratedRef = useRef(false);
+    const {
+        items: notifications, unreadCount, markRead, markAllRead: handleMarkAllRead,
+    } = useNotifications(userId, { pageSize: 5, poll: true });
 
-    // On mount: fetch authoritative read state from DynamoDB and reconcile
-    useEffect(() => {
-        if (!userId) return;
-        notifHydratedRef.current = false;
-        fetch(`/api/notifications/read-state?userId=${encodeURIComponent(userId)}`)
-            .then((r) => r.json())
-            .then(({ readIds }) => {
-                if (!Array.isArray(readIds)) return;
-                saveLocalReadIds(userId, readIds);
-                setNotifications(applyReadIds(ALL_NOTIFICATIONS, readIds));
-            })
-            .catch(() => { /* silently keep localStorage state */ })
-            .finally(() => { notifHydratedRef.current = true; });
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [userId]);
-
-    // Persist to both localStorage (instant) and DynamoDB (durable) on every user-driven change
-    useEffect(() => {
-        if (!userId || !notifHydratedRef.current) return;
-        const readIds = notifications.filter((n) => !n.unread).map((n) => n.id);
-        saveLocalReadIds(userId, readIds);
-        fetch("/api/notifications/read-state", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ userId, readIds }),
-        }).catch(() => { /* localStorage already updated — DynamoDB will sync next login */ });
-    }, [notifications, userId]);
-
-    const unreadCount = notifications.filter((n) => n.unread).length;
-
-    const handleMarkAllRead = () => {
-        setNotifications((prev) => prev.map((n) => ({ ...n, unread: false })));
-    };
-
-    const handleNotifClick = (id: number) => {
-        setNotifications((prev) => prev.map((n) => n.id === id ? { ...n, unread: false } : n));
+    const handleNotifClick = (n: AppNotification) => {
+        markRead(n);
+        if (n.link) {
+            setNotifOpen(false);
+            onNavigate(n.link.screen);
+        }
     };
 
     const handleViewAll = () => {
@@ -645,20 +618,23 @@ export default function AppShell({
                                     </button>
                                 </div>
                                 <div className={styles.notifList}>
-                                    {notifications.slice(0, 5).map((n) => (
+                                    {notifications.map((n) => (
                                         <div
-                                            key={n.id}
-                                            className={`${styles.notifItem} ${n.unread ? styles.notifItemUnread : ""}`}
-                                            onClick={() => handleNotifClick(n.id)}
+                                            key={n.notificationId}
+                                            className={`${styles.notifItem} ${!n.read ? styles.notifItemUnread : ""}`}
+                                            onClick={() => handleNotifClick(n)}
                                         >
-                                            <span className={styles.notifItemIcon}>{n.icon}</span>
+                                            <span className={styles.notifItemIcon}>{notificationIcon(n.type)}</span>
                                             <div className={styles.notifItemBody}>
                                                 <span className={styles.notifItemTitle}>{n.title}</span>
-                                                <span className={styles.notifItemDesc}>{n.desc}</span>
+                                                <span className={styles.notifItemDesc}>{n.body}</span>
                                             </div>
-                                            <span className={styles.notifItemTime}>{n.time}</span>
+                                            <span className={styles.notifItemTime}>{timeAgo(n.createdAt)}</span>
                                         </div>
                                     ))}
+                                    {notifications.length === 0 && (
+                                        <div className={styles.notifEmpty}>{t("notif_empty")}</div>
+                                    )}
                                 </div>
                                 <button className={styles.notifViewAll} onClick={handleViewAll}>{t("notif_view_all")}</button>
                             </div>
@@ -4,75 +4,39 @@
 
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import styles from "./NotificationsScreen.module.css";
 import {
     Bell, CheckCheck,
 } from "lucide-react";
-import {
-    ALL_NOTIFICATIONS, applyReadIds, localReadIds, saveLocalReadIds,
-    type AppNotification, type NotifCategory,
-} from "../../lib/utils/notifications";
+import { useNotifications } from "../../hooks/useNotifications";
+import { notificationIcon, timeAgo, type NotifFilter } from "../../lib/utils/notifications";
+import type { AppNotification } from "../../lib/types/notification";
 
 interface NotificationsScreenProps {
     onNavigate: (screen: string) => void;
     userId?: string;
 }
 
-type Filter = NotifCategory;
+type Filter = NotifFilter | "unread";
 
 export default function NotificationsScreen({ onNavigate, userId }: NotificationsScreenProps) {
-    // Initialise from localStorage instantly (no flicker), then hydrate from DynamoDB
-    const [notifications, setNotifications] = useState<AppNotification[]>(() => {
-        if (!userId || typeof window === "undefined") return ALL_NOTIFICATIONS;
-        return applyReadIds(ALL_NOTIFICATIONS, localReadIds(userId));
-    });
     const [filter, setFilter] = useState<Filter>("all");
+    const {
+        items: filtered, unreadCount, hasMore, isLoading, loadMore, markRead, markAllRead,
+    } = useNotifications(userId, {
+        category: filter === "all" || filter === "unread" ? undefined : filter,
+        unreadOnly: filter === "unread",
+    });
 
-    // On mount: fetch authoritative read state from DynamoDB
-    useEffect(() => {
-        if (!userId) return;
-        fetch(`/api/notifications/read-state?userId=${encodeURIComponent(userId)}`)
-            .then((r) => r.json())
-            .then(({ readIds }) => {
-                if (!Array.isArray(readIds)) return;
-                saveLocalReadIds(userId, readIds);
-                setNotifications(applyReadIds(ALL_NOTIFICATIONS, readIds));
-            })
-            .catch(() => { /* keep localStorage state on network/config error */ });
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [userId]);
-
-    // Persist to localStorage (instant) + DynamoDB (durable) on every change
-    useEffect(() => {
-        if (!userId) return;
-        const readIds = notifications.filter((n) => !n.unread).map((n) => n.id);
-        saveLocalReadIds(userId, readIds);
-        fetch("/api/notifications/read-state", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ userId, readIds }),
-        }).catch(() => { /* localStorage already updated — DynamoDB syncs next login */ });
-    }, [notifications, userId]);
-
-    const filtered = filter === "all"
-        ? notifications
-        : notifications.filter((n) => n.category === filter);
-
-    const unreadCount = notifications.filter((n) => n.unread).length;
-
-    const handleMarkAllRead = () => {
-        setNotifications((prev) => prev.map((n) => ({ ...n, unread: false })));
-    };
-
-    const handleClick = (id: number) => {
-        setNotifications((prev) =>
-            prev.map((n) => (n.id === id ? { ...n, unread: false } : n))
-        );
+    const handleClick = (n: AppNotification) => {
+        markRead(n);
+        if (n.link && n.link.screen !== "notifications") onNavigate(n.link.screen);
     };
 
     const FILTERS: { key: Filter; label: string }[] = [
         { key: "all", label: "All" },
+        { key: "unread", label: "Unread" },
         { key: "health", label: "Health" },
         { key: "security", label: "Security" },
         { key: "system", label: "System" },
@@ -86,7 +50,7 @@ export default function NotificationsScreen({ onNavigate, userId }: Notification
                 <div className={styles.headerActions}>
                     <button
                         className={styles.markReadBtn}
-                        onClick={handleMarkAllRead}
+                        onClick={markAllRead}
                         disabled={unreadCount === 0}
                     >
                         <CheckCheck size={13} style={{ marginRight: 4, verticalAlign: "middle" }} />
@@ -119,23 +83,31 @@ export default function NotificationsScreen({ onNavigate, userId }: Notification
                 <div className={styles.list}>
                     {filtered.map((n) => (
                         <div
-                            key={n.id}
-                            className={`${styles.item} ${n.unread ? styles.itemUnread : ""}`}
-                            onClick={() => handleClick(n.id)}
+                            key={n.notificationId}
+                            className={`${styles.item} ${!n.read ? styles.itemUnread : ""}`}
+                            onClick={() => handleClick(n)}
                         >
-                            <div className={styles.itemIcon}>{n.icon}</div>
+                            <div className={styles.itemIcon}>{notificationIcon(n.type)}</div>
                             <div className={styles.itemBody}>
                                 <span className={styles.itemTitle}>{n.title}</span>
-                                <span className={styles.itemDesc}>{n.desc}</span>
+                                <span className={styles.itemDesc}>{n.body}</span>
                             </div>
                             <div className={styles.itemMeta}>
-                                <span className={styles.itemTime}>{n.time}</span>
-                                {n.unread && <span className={styles.unreadDot} />}
+                                <span className={styles.itemTime}>{timeAgo(n.createdAt)}</span>
+                                {!n.read && <span className={styles.unreadDot} />}
                             </div>
                         </div>
                     ))}
                 </div>
             )}
+
+            {hasMore && (
+                <div className={styles.loadMoreRow}>
+                    <button className={styles.loadMoreBtn} onClick={loadMore} disabled={isLoading}>
+                        {isLoading ? "Loading…" : "Load older notifications"}
+                    </button>
+                </div>
+            )}
         </div>
     );
 }
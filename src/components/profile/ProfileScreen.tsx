@@ -10,12 +10,27 @@ import { useState, useRef, useEffect, useCallback } from "react";
 import { fmtDate } from "../../lib/utils/date";
 import { validateName, validatePhone, validateHeight, validateWeight, validatePincode, validateCommaList, validateMaxLen, firstError } from "../../lib/utils/validate";
 import { useAuth } from "../../hooks/useAuth";
+import * as offline from "../../lib/offline";
+import type { EmergencyContact } from "../../lib/types/patient";
 import styles from "./ProfileScreen.module.css";
 import {
     Pencil, Check, X, Camera, User, Phone, Heart, Shield,
-    MapPin, LogOut, Stethoscope, AlertTriangle,
+    MapPin, LogOut, Stethoscope, AlertTriangle, Bell, BellOff,
 } from "lucide-react";
 
+/** Emergency card as kept in the offline store */
+interface EmergencySnapshot {
+    bloodGroup?: string;
+    allergies: string[];
+    criticalMeds: string[];
+    contacts: EmergencyContact[];
+    showBloodGroup: boolean;
+    showAllergies: boolean;
+    showMeds: boolean;
+    showContacts: boolean;
+    updatedAt: string | null;
+}
+
 interface ProfileScreenProps {
     onNavigate: (screen: string) => void;
 }
@@ -99,7 +114,7 @@ const INDIA_STATE_CITIES: Record<string, string[]> = {
 };
 
 export default function ProfileScreen({ onNavigate }: ProfileScreenProps) {
-    const { patient, doctor, userRole, logout, updatePatient, updateDoctor } = useAuth();
+    const { patient, doctor, userRole, logout, updatePatient, updateDoctor, masterKey, vaultKeyId } = useAuth();
     const isDoctor = userRole === "doctor";
 
     const userId = isDoctor ? doctor?.doctorId : patient?.patientId;
@@ -153,7 +168,7 @@ export default function ProfileScreen({ onNavigate }: ProfileScreenProps) {
     const [emergencyUpdatedAt, setEmergencyUpdatedAt] = useState<string | null>(null);
 
     // Emergency Contacts
-    const [editContacts, setEditContacts] = useState<{name:string;relationship:string;phone:string}[]>([]);
+    const [editContacts, setEditContacts] = useState<{name:string;relationship:string;phone:string;notifyOnBreakGlass?:boolean}[]>([]);
     const [newContact, setNewContact] = useState({name:'',relationship:'',phone:''});
 
     // ---- Auto-fill city + state from pincode ----
@@ -249,6 +264,41 @@ export default function ProfileScreen({ onNavigate }: ProfileScreenProps) {
         }
     }, [isDoctor, doctor, patient]);
 
+    // Sealed copy of the emergency card for offline use; it also fills the
+    // card when this browser has no localStorage copy
+    useEffect(() => {
+        if (isDoctor || !userId || !masterKey) return;
+        if (localStorage.getItem(`arogyasutra_emergency_${userId}`)) return;
+        offline.loadCached<EmergencySnapshot>(userId, "emergency", "card", masterKey, vaultKeyId ?? undefined).then((hit) => {
+            if (!hit) return;
+            const snap = hit.value;
+            setEmergencyAllergies(snap.allergies);
+            setEmergencyCriticalMeds(snap.criticalMeds);
+            setEmShowBloodGroup(snap.showBloodGroup);
+            setEmShowAllergies(snap.showAllergies);
+            setEmShowMeds(snap.showMeds);
+            setEmShowContacts(snap.showContacts);
+            if (snap.updatedAt) setEmergencyUpdatedAt(snap.updatedAt);
+        });
+    }, [userId, isDoctor, masterKey, vaultKeyId]);
+
+    useEffect(() => {
+        if (isDoctor || !userId || !masterKey) return;
+        const snap: EmergencySnapshot = {
+            bloodGroup: patient?.bloodGroup,
+            allergies: emergencyAllergies,
+            criticalMeds: emergencyCriticalMeds,
+            contacts: patient?.emergencyContacts ?? [],
+            showBloodGroup: emShowBloodGroup,
+            showAllergies: emShowAllergies,
+            showMeds: emShowMeds,
+            showContacts: emShowContacts,
+            updatedAt: emergencyUpdatedAt,
+        };
+        offline.saveCached(userId, "emergency", "card", snap, masterKey, vaultKeyId ?? undefined);
+    }, [userId, isDoctor, masterKey, vaultKeyId, patient?.bloodGroup, patient?.emergencyContacts,
+        emergencyAllergies, emergencyCriticalMeds, emShowBloodGroup, emShowAllergies, emShowMeds, emShowContacts, emergencyUpdatedAt]);
+
     // ---- Re-fetch profile from API if data looks empty (fallback from login) ----
     const [profileLoading, setProfileLoading] = useState(false);
     useEffect(() => {
@@ -998,6 +1048,14 @@ export default function ProfileScreen({ onNavigate }: ProfileScreenProps) {
                                                     <div className={styles.contactName}>{c.name}</div>
                                                     <div className={styles.contactMeta}>{c.relationship} · {c.phone}</div>
                                                 </div>
+                                                <button
+                                                    className={`${styles.contactRemoveBtn} ${c.notifyOnBreakGlass ? styles.contactNotifyOn : ""}`}
+                                                    onClick={() => setEditContacts(prev => prev.map((x, j) => j === i ? { ...x, notifyOnBreakGlass: !x.notifyOnBreakGlass } : x))}
+                                                    aria-label={c.notifyOnBreakGlass ? "Stop emergency SMS alerts" : "Send SMS alert on emergency access"}
+                                                    title={c.notifyOnBreakGlass ? "SMS alert on emergency access: on" : "SMS alert on emergency access: off"}
+                                                >
+                                                    {c.notifyOnBreakGlass ? <Bell size={14} /> : <BellOff size={14} />}
+                                                </button>
                                                 <button
                                                     className={styles.contactRemoveBtn}
                                                     onClick={() => setEditContacts(prev => prev.filter((_, j) => j !== i))}
@@ -1041,6 +1099,7 @@ export default function ProfileScreen({ onNavigate }: ProfileScreenProps) {
                                                 name: newContact.name.trim(),
                                                 relationship: newContact.relationship.trim(),
                                                 phone: newContact.phone.trim(),
+                                                notifyOnBreakGlass: true,
                                             }]);
                                             setNewContact({name:'',relationship:'',phone:''});
                                         }}
@@ -1056,7 +1115,9 @@ export default function ProfileScreen({ onNavigate }: ProfileScreenProps) {
                                             <div className={styles.contactAvatar}>{c.name?.[0]?.toUpperCase() || "?"}</div>
                                             <div className={styles.contactInfo}>
                                                 <div className={styles.contactName}>{c.name}</div>
-                                                <div className={styles.contactMeta}>{c.relationship} · {c.phone}</div>
+                                                <div className={styles.contactMeta}>
+                                                    {c.relationship} · {c.phone}{c.notifyOnBreakGlass && " · SMS alerts on"}
+                                                </div>
                                             </div>
                                         </div>
                                     ))}
@@ -1,35 +1,24 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React from "react";
+import { useDocumentUrl } from "../../hooks/useDocumentUrl";
 
 interface DocThumbnailProps {
     s3Key: string;
+    /** Sealed entry — the stored blob is decrypted with the vault key */
+    encrypted?: boolean;
     alt?: string;
     className?: string;
     style?: React.CSSProperties;
 }
 
 /**
- * Lazy-loads a document image from S3 via a presigned URL.
+ * Lazy-loads a document image from S3 (presigned URL, or decrypted
+ * in the browser for sealed entries).
  * Renders nothing if s3Key is empty.
  */
-export default function DocThumbnail({ s3Key, alt = "Document", className, style }: DocThumbnailProps) {
-    const [url, setUrl] = useState<string | null>(null);
-    const [error, setError] = useState(false);
-
-    useEffect(() => {
-        if (!s3Key) return;
-        let cancelled = false;
-
-        fetch(`/api/timeline/document-url?s3Key=${encodeURIComponent(s3Key)}`)
-            .then((r) => r.json())
-            .then((data) => {
-                if (!cancelled && data.url) setUrl(data.url);
-            })
-            .catch(() => { if (!cancelled) setError(true); });
-
-        return () => { cancelled = true; };
-    }, [s3Key]);
+export default function DocThumbnail({ s3Key, encrypted = false, alt = "Document", className, style }: DocThumbnailProps) {
+    const { url, error, setError } = useDocumentUrl(s3Key, encrypted);
 
     if (!s3Key || error || !url) return null;
 
@@ -1,40 +1,37 @@
 // ============================================================
 // ScanModal — Inline document capture + AI extraction + review
 // Triggered from Dashboard FAB / Timeline FAB — no separate screen
+// A document is one or more photos (one per page) or a PDF.
+// With no connection the capture goes to the offline outbox;
+// queued scans come back here (`queued`) for review once extracted.
 // ============================================================
 
 "use client";
 
-import React, { useState, useRef, useCallback } from "react";
+import React, { useState, useRef, useCallback, useEffect } from "react";
 import { useAuth } from "../../hooks/useAuth";
 import { validateRequired } from "../../lib/utils/validate";
+import { extractDocument, sealMetadata, sealPhoto } from "../../lib/services/timeline.service";
+import * as scanQueue from "../../lib/services/scanQueue.service";
+import { checkScanMedications } from "../../lib/services/medication.service";
 import styles from "./ScanModal.module.css";
 import {
     Camera, FolderOpen, X, RefreshCw, Check, ChevronDown,
     Pill, FlaskConical, Building2, Stethoscope, Camera as ImagingIcon,
-    FileCheck2, FileText, Loader2,
+    FileCheck2, FileText, Loader2, CloudOff,
 } from "lucide-react";
-import type { DocumentTypeTag, MedicationDetail } from "../../lib/types/timeline";
+import type { DocumentTypeTag, EntryMetadata, HealthEntry, ScanExtraction } from "../../lib/types/timeline";
+import type { InteractionWarning } from "../../lib/medications/interactions";
 
 // ---- Types -------------------------------------------------------
 
-interface ExtractionResult {
-    documentType: DocumentTypeTag;
-    confidence: number;
-    title: string;
-    metadata: {
-        medications?: MedicationDetail[];
-        diagnoses?: string[];
-        labTests?: string[];
-        doctors?: string[];
-        institutions?: string[];
-        dates?: string[];
-    };
-}
-
 interface ScanModalProps {
     onClose: () => void;
     onSaved: () => void; // callback to refresh timeline after save
+    /** Outbox item extracted while offline — opens straight into review */
+    queued?: scanQueue.OutboxView;
+    /** The decrypted timeline, to check the scan's medicines against before sealing */
+    entries?: HealthEntry[];
 }
 
 // ---- Doc type picker data ----------------------------------------
@@ -49,83 +46,167 @@ const DOC_TYPE_OPTIONS: { value: DocumentTypeTag; label: string; icon: React.Rea
     { value: "Other", label: "Other", icon: <FileText size={14} /> },
 ];
 
-type Step = "capture" | "extracting" | "review" | "saving" | "done";
+type Step = "capture" | "extracting" | "queued" | "review" | "saving" | "done";
+
+const MAX_PAGES = 10;
+const PDF_TYPE = "application/pdf";
+
+/** A staged page; PDFs have no image preview */
+interface Page {
+    file: File;
+    preview: string | null;
+}
+
+function toPage(file: File): Page {
+    return { file, preview: file.type === PDF_TYPE ? null : URL.createObjectURL(file) };
+}
+
+/** Best-effort YYYY-MM-DD from the first date the extractor found. */
+function extractedDate(ext: ScanExtraction): string | null {
+    const d = ext.metadata.dates?.[0];
+    if (!d) return null;
+    // YYYY-MM-DD or YYYY/MM/DD
+    const isoMatch = d.match(/(\d{4})[\-\/](\d{2})[\-\/](\d{2})/);
+    // DD-MM-YYYY or DD/MM/YYYY or DD.MM.YYYY
+    const ddmmyyyyMatch = d.match(/(\d{2})[\-\/\.](\d{2})[\-\/\.](\d{4})/);
+    // DD-MM-YY or DD/MM/YY (2-digit year → assume 20xx)
+    const ddmmyyMatch = d.match(/^(\d{2})[\-\/\.](\d{2})[\-\/\.](\d{2})$/);
+    if (isoMatch) return `${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`;
+    if (ddmmyyyyMatch) return `${ddmmyyyyMatch[3]}-${ddmmyyyyMatch[2]}-${ddmmyyyyMatch[1]}`;
+    if (ddmmyyMatch) return `20${ddmmyyMatch[3]}-${ddmmyyMatch[2]}-${ddmmyyMatch[1]}`;
+    return null;
+}
 
 // ---- Component ---------------------------------------------------
 
-export default function ScanModal({ onClose, onSaved }: ScanModalProps) {
-    const { effectivePatient: patient } = useAuth();
+export default function ScanModal({ onClose, onSaved, queued, entries }: ScanModalProps) {
+    const { effectivePatient: patient, viewingAs, masterKey, vaultKeyId } = useAuth();
 
-    const [step, setStep] = useState<Step>("capture");
-    const [preview, setPreview] = useState<string | null>(null);
-    const [file, setFile] = useState<File | null>(null);
-    const [extraction, setExtraction] = useState<ExtractionResult | null>(null);
+    const [step, setStep] = useState<Step>(queued ? "extracting" : "capture");
+    const [pages, setPages] = useState<Page[]>([]);
+    const [extraction, setExtraction] = useState<ScanExtraction | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [warnings, setWarnings] = useState<InteractionWarning[]>([]);
 
     // Review form state
     const [title, setTitle] = useState("");
     const [docType, setDocType] = useState<DocumentTypeTag>("Other");
     const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
-    const [s3Key, setS3Key] = useState("");
     const [typePickerOpen, setTypePickerOpen] = useState(false);
 
     const cameraInputRef = useRef<HTMLInputElement>(null);
     const galleryInputRef = useRef<HTMLInputElement>(null);
+    const pagesRef = useRef<Page[]>([]);
 
-    const handleFile = useCallback(async (f: File) => {
+    // Only the patient's own vault can seal a scan for the outbox
+    const canQueue = !viewingAs && !!masterKey && !!patient;
+    const isPdf = pages[0]?.file.type === PDF_TYPE;
+
+    const replacePages = useCallback((next: Page[]) => {
+        for (const page of pagesRef.current) {
+            if (!next.includes(page) && page.preview) URL.revokeObjectURL(page.preview);
+        }
+        pagesRef.current = next;
+        setPages(next);
+    }, []);
+
+    // Release page previews when the modal closes
+    useEffect(() => () => {
+        for (const page of pagesRef.current) if (page.preview) URL.revokeObjectURL(page.preview);
+    }, []);
+
+    const applyExtraction = useCallback((ext: ScanExtraction) => {
+        setExtraction(ext);
+        setDocType(ext.documentType);
+        setTitle(ext.title);
+        // Pre-fill date from extracted dates if available
+        const extracted = extractedDate(ext);
+        if (extracted) setDate(extracted);
+        setStep("review");
+    }, []);
+
+    // Reopen a queued scan: decrypt its pages and jump to review
+    useEffect(() => {
+        if (!queued || !masterKey) return;
+        let cancelled = false;
+        scanQueue.openOutboxPages(queued.item, masterKey)
+            .then((files) => {
+                if (cancelled) return;
+                replacePages(files.map(toPage));
+                if (queued.extraction) applyExtraction(queued.extraction);
+                else setStep("capture");
+            })
+            .catch(() => {
+                if (cancelled) return;
+                setError("This scan could not be opened on this device.");
+                setStep("capture");
+            });
+        return () => { cancelled = true; };
+    }, [queued, masterKey, applyExtraction, replacePages]);
+
+    // Interactions and allergies for the scanned medicines — shown in review,
+    // a warning, never a block on saving
+    useEffect(() => {
+        const lines = (extraction?.metadata.medications ?? []).map((m) => m.name?.trim()).filter((n): n is string => !!n);
+        if (!patient || lines.length === 0) { setWarnings([]); return; }
+        let cancelled = false;
+        checkScanMedications(patient.patientId, lines, entries ?? [])
+            .then((found) => { if (!cancelled) setWarnings(found); });
+        return () => { cancelled = true; };
+    }, [extraction, entries, patient]);
+
+    /** Stage picked files as pages. A PDF stands alone; photos accumulate. */
+    const addFiles = (files: File[]) => {
         setError(null);
-        setFile(f);
-        // Show preview
-        const reader = new FileReader();
-        reader.onload = (e) => setPreview(e.target?.result as string);
-        reader.readAsDataURL(f);
+        if (files.length === 0) return;
+        const pdfs = files.filter((f) => f.type === PDF_TYPE);
+        if (pdfs.length > 0 && (files.length > 1 || pages.length > 0)) {
+            setError("Upload a PDF on its own, not together with photos.");
+            return;
+        }
+        if (isPdf) {
+            setError("Remove the PDF before adding photos.");
+            return;
+        }
+        if (pages.length + files.length > MAX_PAGES) {
+            setError(`A document can have at most ${MAX_PAGES} pages.`);
+            return;
+        }
+        replacePages([...pages, ...files.map(toPage)]);
+    };
+
+    const removePage = (index: number) => {
+        replacePages(pages.filter((_, i) => i !== index));
+    };
+
+    const queueFiles = useCallback(async (files: File[]) => {
+        await scanQueue.enqueueScan(patient!.patientId, files, masterKey!, vaultKeyId ?? undefined);
+        setStep("queued");
+    }, [patient, masterKey, vaultKeyId]);
 
-        // Upload + extract
+    const handleAnalyse = async () => {
+        const files = pages.map((p) => p.file);
+        if (files.length === 0) return;
+        setError(null);
+
+        // Upload + extract — or straight to the outbox when clearly offline
         setStep("extracting");
         try {
-            const form = new FormData();
-            form.append("file", f);
-            form.append("patientId", patient?.patientId ?? "");
-
-            const res = await fetch("/api/upload", { method: "POST", body: form });
-            // Read as text first — avoids JSON parse crash if server returns HTML error page
-            const text = await res.text();
-            let body: Record<string, unknown>;
-            try { body = JSON.parse(text); }
-            catch { throw new Error(`Server error (${res.status})`); }
-
-            if (!res.ok) throw new Error((body.error as string) ?? "Extraction failed");
-
-            const ext = body.extraction as ExtractionResult;
-            setExtraction(ext);
-            setDocType(ext.documentType);
-            setTitle(ext.title);
-            // Pre-fill date from extracted dates if available
-            if (ext.metadata.dates?.[0]) {
-                const d = ext.metadata.dates[0];
-                // YYYY-MM-DD or YYYY/MM/DD
-                const isoMatch = d.match(/(\d{4})[\-\/](\d{2})[\-\/](\d{2})/);
-                // DD-MM-YYYY or DD/MM/YYYY or DD.MM.YYYY
-                const ddmmyyyyMatch = d.match(/(\d{2})[\-\/\.](\d{2})[\-\/\.](\d{4})/);
-                // DD-MM-YY or DD/MM/YY (2-digit year → assume 20xx)
-                const ddmmyyMatch = d.match(/^(\d{2})[\-\/\.](\d{2})[\-\/\.](\d{2})$/);
-                if (isoMatch) {
-                    setDate(`${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`);
-                } else if (ddmmyyyyMatch) {
-                    setDate(`${ddmmyyyyMatch[3]}-${ddmmyyyyMatch[2]}-${ddmmyyyyMatch[1]}`);
-                } else if (ddmmyyMatch) {
-                    const year = `20${ddmmyyMatch[3]}`;
-                    setDate(`${year}-${ddmmyyMatch[2]}-${ddmmyyMatch[1]}`);
-                }
+            if (canQueue && !navigator.onLine) {
+                await queueFiles(files);
+                return;
             }
-            // Store s3Key for saving
-            setS3Key((body.s3Key as string) ?? "");
-            setStep("review");
+            applyExtraction(await extractDocument(files, patient?.patientId ?? ""));
         } catch (err) {
-            setError((err as Error).message);
+            // fetch rejects with a TypeError when the network is unreachable
+            const queuedOk = err instanceof TypeError && canQueue
+                ? await queueFiles(files).then(() => true, () => false)
+                : false;
+            if (queuedOk) return;
+            setError((err as Error).message.replace(/^[A-Z_]+:\s*/, ""));
             setStep("capture");
         }
-    }, [patient]);
+    };
 
     const handleSave = async () => {
         if (!extraction || !patient) return;
@@ -134,6 +215,23 @@ export default function ScanModal({ onClose, onSaved }: ScanModalProps) {
         setStep("saving");
         setError(null);
         try {
+            // Own records: seal pages + metadata with the vault key before upload.
+            // A guardian viewing a dependent holds no key for that vault, so the
+            // entry is saved as a plain index + metadata and the pages are not kept.
+            const metadata = extraction.metadata as EntryMetadata;
+            let sealed: Record<string, unknown> = { metadata };
+            if (!viewingAs && masterKey) {
+                const keyId = vaultKeyId ?? undefined;
+                const sealedPages = await Promise.all(
+                    pages.map(async (p) => sealPhoto(await p.file.arrayBuffer(), masterKey, keyId))
+                );
+                sealed = {
+                    encryptedMetadata: await sealMetadata(metadata, masterKey, keyId),
+                    // A single photo or PDF keeps the original one-blob shape
+                    ...(sealedPages.length > 1 ? { encryptedPages: sealedPages } : { encryptedPhoto: sealedPages[0] }),
+                };
+            }
+
             const res = await fetch("/api/timeline/save", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
@@ -142,9 +240,10 @@ export default function ScanModal({ onClose, onSaved }: ScanModalProps) {
                     title: title.trim(),
                     documentType: docType,
                     date,
-                    s3Key,
                     confidence: extraction.confidence,
-                    metadata: extraction.metadata,
+                    sourceInstitution: metadata.institutions?.[0],
+                    doctorName: metadata.doctors?.[0],
+                    ...sealed,
                 }),
             });
             const text = await res.text();
@@ -152,6 +251,11 @@ export default function ScanModal({ onClose, onSaved }: ScanModalProps) {
             try { body = JSON.parse(text); } catch { throw new Error(`Save failed (${res.status})`); }
             if (!res.ok) throw new Error((body.error as string) ?? "Failed to save");
 
+            if (queued) {
+                await scanQueue.removeOutboxItem(queued.item).catch((err) => {
+                    console.warn("[outbox] Saved scan could not be removed:", err);
+                });
+            }
             setStep("done");
             setTimeout(() => { onSaved(); onClose(); }, 1200);
         } catch (err) {
@@ -160,6 +264,11 @@ export default function ScanModal({ onClose, onSaved }: ScanModalProps) {
         }
     };
 
+    const pickFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+        addFiles(Array.from(e.target.files ?? []));
+        e.target.value = ""; // allow picking the same file again
+    };
+
     const selectedType = DOC_TYPE_OPTIONS.find((t) => t.value === docType);
 
     const confidenceColor =
@@ -177,6 +286,7 @@ export default function ScanModal({ onClose, onSaved }: ScanModalProps) {
                     <h2 className={styles.title}>
                         {step === "capture" && "Scan Document"}
                         {step === "extracting" && "Analysing…"}
+                        {step === "queued" && "Saved Offline"}
                         {step === "review" && "Review & Confirm"}
                         {step === "saving" && "Saving…"}
                         {step === "done" && "Saved!"}
@@ -191,34 +301,70 @@ export default function ScanModal({ onClose, onSaved }: ScanModalProps) {
                     <div className={styles.captureStep}>
                         {error && <div className={styles.errorBanner}>{error}</div>}
 
-                        <div className={styles.captureOptions}>
-                            <button
-                                className={styles.captureBtn}
-                                onClick={() => cameraInputRef.current?.click()}
-                            >
-                                <div className={styles.captureBtnIcon}>
-                                    <Camera size={28} />
-                                </div>
-                                <span className={styles.captureBtnLabel}>Open Camera</span>
-                                <span className={styles.captureBtnHint}>Take a photo</span>
-                            </button>
+                        {pages.length === 0 ? (
+                            <div className={styles.captureOptions}>
+                                <button
+                                    className={styles.captureBtn}
+                                    onClick={() => cameraInputRef.current?.click()}
+                                >
+                                    <div className={styles.captureBtnIcon}>
+                                        <Camera size={28} />
+                                    </div>
+                                    <span className={styles.captureBtnLabel}>Open Camera</span>
+                                    <span className={styles.captureBtnHint}>Take a photo</span>
+                                </button>
 
-                            <div className={styles.captureDivider}>or</div>
+                                <div className={styles.captureDivider}>or</div>
 
-                            <button
-                                className={styles.captureBtn}
-                                onClick={() => galleryInputRef.current?.click()}
-                            >
-                                <div className={styles.captureBtnIcon}>
-                                    <FolderOpen size={28} />
+                                <button
+                                    className={styles.captureBtn}
+                                    onClick={() => galleryInputRef.current?.click()}
+                                >
+                                    <div className={styles.captureBtnIcon}>
+                                        <FolderOpen size={28} />
+                                    </div>
+                                    <span className={styles.captureBtnLabel}>Choose File</span>
+                                    <span className={styles.captureBtnHint}>Gallery, storage or PDF</span>
+                                </button>
+                            </div>
+                        ) : (
+                            <>
+                                {/* Staged pages */}
+                                <div className={styles.pageStrip}>
+                                    {pages.map((page, i) => (
+                                        <div key={page.preview ?? page.file.name} className={styles.pageTile}>
+                                            {page.preview
+                                                ? <img src={page.preview} alt={`Page ${i + 1}`} className={styles.pageTileImg} />
+                                                : <div className={styles.pageTilePdf}><FileText size={22} /><span>{page.file.name}</span></div>}
+                                            <span className={styles.pageTileNumber}>{i + 1}</span>
+                                            <button
+                                                className={styles.pageTileRemove}
+                                                aria-label={`Remove page ${i + 1}`}
+                                                onClick={() => removePage(i)}
+                                            >
+                                                <X size={12} />
+                                            </button>
+                                        </div>
+                                    ))}
+                                    {!isPdf && pages.length < MAX_PAGES && (
+                                        <div className={styles.pageAdd}>
+                                            <button className={styles.pageAddBtn} onClick={() => cameraInputRef.current?.click()}>
+                                                <Camera size={16} /> Add page
+                                            </button>
+                                            <button className={styles.pageAddBtn} onClick={() => galleryInputRef.current?.click()}>
+                                                <FolderOpen size={16} /> From files
+                                            </button>
+                                        </div>
+                                    )}
                                 </div>
-                                <span className={styles.captureBtnLabel}>Choose File</span>
-                                <span className={styles.captureBtnHint}>Gallery or storage</span>
-                            </button>
-                        </div>
+                                <button className={styles.saveBtn} onClick={handleAnalyse}>
+                                    <Check size={16} /> Analyse {isPdf ? "PDF" : `${pages.length} page${pages.length !== 1 ? "s" : ""}`}
+                                </button>
+                            </>
+                        )}
 
                         <p className={styles.captureHint}>
-                            Supports JPEG · PNG · WebP · Max 10 MB
+                            Supports JPEG · PNG · WebP · PDF · Up to {MAX_PAGES} pages · Max 10 MB per file
                         </p>
 
                         {/* Hidden inputs */}
@@ -228,14 +374,15 @@ export default function ScanModal({ onClose, onSaved }: ScanModalProps) {
                             accept="image/*"
                             capture="environment"
                             style={{ display: "none" }}
-                            onChange={(e) => { const f = e.target.files?.[0]; if (f) handleFile(f); }}
+                            onChange={pickFiles}
                         />
                         <input
                             ref={galleryInputRef}
                             type="file"
-                            accept="image/jpeg,image/png,image/webp"
+                            accept="image/jpeg,image/png,image/webp,application/pdf"
+                            multiple
                             style={{ display: "none" }}
-                            onChange={(e) => { const f = e.target.files?.[0]; if (f) handleFile(f); }}
+                            onChange={pickFiles}
                         />
                     </div>
                 )}
@@ -243,8 +390,8 @@ export default function ScanModal({ onClose, onSaved }: ScanModalProps) {
                 {/* ---- Step: Extracting ---- */}
                 {step === "extracting" && (
                     <div className={styles.extractingStep}>
-                        {preview && (
-                            <img src={preview} alt="Document preview" className={styles.previewImg} />
+                        {pages[0]?.preview && (
+                            <img src={pages[0].preview} alt="Document preview" className={styles.previewImg} />
                         )}
                         <div className={styles.extractingStatus}>
                             <Loader2 size={24} className={styles.spinner} />
@@ -259,14 +406,28 @@ export default function ScanModal({ onClose, onSaved }: ScanModalProps) {
                     </div>
                 )}
 
+                {/* ---- Step: Queued (offline) ---- */}
+                {step === "queued" && (
+                    <div className={styles.savingStep}>
+                        <div className={styles.queuedIcon}><CloudOff size={32} /></div>
+                        <p>No connection — the scan is kept encrypted on this device.</p>
+                        <p className={styles.queuedHint}>
+                            It will be analysed when you are back online, then wait on your Timeline for you to review and save.
+                        </p>
+                        <button className={styles.saveBtn} onClick={onClose}>
+                            <Check size={16} /> Done
+                        </button>
+                    </div>
+                )}
+
                 {/* ---- Step: Review ---- */}
                 {step === "review" && extraction && (
                     <div className={styles.reviewStep}>
                         <div className={styles.reviewLayout}>
                             {/* Preview thumbnail */}
-                            {preview && (
-                                <img src={preview} alt="Document preview" className={styles.reviewThumb} />
-                            )}
+                            {pages[0]?.preview
+                                ? <img src={pages[0].preview} alt="Document preview" className={styles.reviewThumb} />
+                                : isPdf && <div className={`${styles.reviewThumb} ${styles.pageTilePdf}`}><FileText size={22} /></div>}
 
                             {/* AI Result badge */}
                             <div className={styles.aiResult}>
@@ -278,6 +439,9 @@ export default function ScanModal({ onClose, onSaved }: ScanModalProps) {
                                 >
                                     {extraction.confidence}% confidence
                                 </span>
+                                {(extraction.metadata.pageCount ?? 1) > 1 && (
+                                    <span className={styles.aiPages}>{extraction.metadata.pageCount} pages read</span>
+                                )}
                             </div>
                         </div>
 
@@ -373,12 +537,26 @@ export default function ScanModal({ onClose, onSaved }: ScanModalProps) {
 
                         </div>
 
+                        {warnings.length > 0 && (
+                            <div className={styles.warnings} role="alert">
+                                {warnings.map((w) => (
+                                    <div key={w.id} className={`${styles.warning} ${w.severity === "contraindicated" || w.severity === "major" ? styles.warningMajor : ""}`}>
+                                        <span className={styles.warningTitle}>
+                                            {w.kind === "allergy" ? `${w.drugs[0]} — allergy: ${w.allergy}` : `${w.drugs[0]} + ${w.drugs[1]}`}
+                                            <span className={styles.warningSeverity}>{w.severity}</span>
+                                        </span>
+                                        <span className={styles.warningText}>{w.effect} {w.advice}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
                         {error && <div className={styles.errorBanner}>{error}</div>}
 
                         <div className={styles.reviewActions}>
                             <button
                                 className={styles.retryBtn}
-                                onClick={() => { setStep("capture"); setPreview(null); setFile(null); setExtraction(null); }}
+                                onClick={() => { setStep("capture"); replacePages([]); setExtraction(null); }}
                             >
                                 <RefreshCw size={14} /> Retake
                             </button>
@@ -0,0 +1,200 @@
+// ============================================================
+// DoctorAccessCard — patient consent for doctor access
+// Pending requests (approve with level + expiry, or decline) and
+// active grants (revoke). Approving re-asks for the vault PIN so
+// the vault key can be wrapped for the doctor's device.
+// ============================================================
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Stethoscope, X } from "lucide-react";
+import styles from "./SettingsScreen.module.css";
+import { useAuth } from "../../hooks/useAuth";
+import * as accessService from "../../lib/services/access.service";
+import { fmtDate } from "../../lib/utils/date";
+import type { AccessLevel, AccessRequest, StoredAccessGrant } from "../../lib/types/audit";
+
+const LEVEL_LABELS: Record<AccessLevel, string> = {
+    READ: "View only",
+    READ_APPEND: "View + add notes",
+};
+
+function initials(name: string): string {
+    return name.replace(/^Dr\.?\s*/i, "").split(" ").map((n) => n[0]).join("").slice(0, 2).toUpperCase();
+}
+
+export default function DoctorAccessCard({ patientId }: { patientId: string }) {
+    const { shareVaultKey } = useAuth();
+
+    const [requests, setRequests] = useState<AccessRequest[]>([]);
+    const [grants, setGrants] = useState<StoredAccessGrant[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState("");
+
+    // Approval form (one request at a time)
+    const [approving, setApproving] = useState<AccessRequest | null>(null);
+    const [level, setLevel] = useState<AccessLevel>("READ_APPEND");
+    const [days, setDays] = useState<number>(7);
+    const [pin, setPin] = useState("");
+    const [busy, setBusy] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            const [reqs, active] = await Promise.all([
+                accessService.listAccessRequests(patientId),
+                accessService.listPatientGrants(patientId),
+            ]);
+            setRequests(reqs.filter((r) => r.status === "PENDING"));
+            setGrants(active);
+            setError("");
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, [patientId]);
+
+    useEffect(() => { load(); }, [load]);
+
+    const startApprove = (req: AccessRequest) => {
+        setApproving(req);
+        setLevel(req.requestedLevel);
+        setDays(7);
+        setPin("");
+        setError("");
+    };
+
+    const handleApprove = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!approving || !pin) return;
+        setBusy(true);
+        setError("");
+        try {
+            const wrapped = await shareVaultKey(approving.doctorPublicKey, pin);
+            await accessService.grantDoctorAccess(approving, level, days, wrapped);
+            setApproving(null);
+            setPin("");
+            await load();
+        } catch (err) {
+            const msg = (err as Error).message;
+            setError(msg.startsWith("VAULT_SECRET_INVALID") ? "Incorrect vault PIN." : msg.replace(/^[A-Z_]+:\s*/, ""));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleDeny = async (req: AccessRequest) => {
+        setBusy(true);
+        try {
+            await accessService.denyAccessRequest(patientId, req.requestId);
+            await load();
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRevoke = async (grant: StoredAccessGrant) => {
+        if (!window.confirm(`Revoke ${grant.doctorName}'s access to your records?`)) return;
+        setBusy(true);
+        try {
+            await accessService.revokeDoctorAccess(grant.grantId);
+            await load();
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className={styles.card}>
+            <h3 className={styles.cardTitle}><span><Stethoscope size={16} /></span> Doctor Access</h3>
+            <p className={styles.sectionDesc}>
+                Doctors can only open your records after you approve their request. Access ends automatically at the expiry you choose, or when you revoke it.
+            </p>
+
+            {loading && <p className={styles.rowDesc}>Loading…</p>}
+
+            {requests.length > 0 && <p className={styles.subHeading}>Pending requests</p>}
+            {requests.map((req) => (
+                <React.Fragment key={req.requestId}>
+                    <div className={styles.depRow}>
+                        <div className={styles.depAvatar}>{initials(req.doctorName)}</div>
+                        <div className={styles.depInfo}>
+                            <span className={styles.depName}>{req.doctorName}</span>
+                            <span className={styles.depMeta}>
+                                {[req.doctorMci && `MCI ${req.doctorMci}`, req.institution, fmtDate(req.requestedAt)].filter(Boolean).join(" · ")}
+                            </span>
+                            {req.reason && <span className={styles.requestReason}>“{req.reason}”</span>}
+                        </div>
+                        {approving?.requestId !== req.requestId && (
+                            <div className={styles.depBtns}>
+                                <button className={styles.depAction} onClick={() => startApprove(req)} disabled={busy}>Approve</button>
+                                <button className={styles.depRemove} onClick={() => handleDeny(req)} title="Decline" disabled={busy}>
+                                    <X size={13} />
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {approving?.requestId === req.requestId && (
+                        <form onSubmit={handleApprove} className={styles.addDepForm}>
+                            <div className={styles.addDepRow}>
+                                <select className={styles.select} value={level} onChange={(e) => setLevel(e.target.value as AccessLevel)}>
+                                    {(Object.keys(LEVEL_LABELS) as AccessLevel[]).map((l) => (
+                                        <option key={l} value={l}>{LEVEL_LABELS[l]}</option>
+                                    ))}
+                                </select>
+                                <select className={styles.select} value={days} onChange={(e) => setDays(Number(e.target.value))}>
+                                    {accessService.GRANT_EXPIRY_OPTIONS.map((o) => (
+                                        <option key={o.days} value={o.days}>For {o.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <input
+                                className={styles.depInput}
+                                type="password"
+                                placeholder="Vault PIN to confirm"
+                                value={pin}
+                                onChange={(e) => setPin(e.target.value)}
+                                autoComplete="current-password"
+                                required
+                            />
+                            {error && <p className={styles.formError}>{error}</p>}
+                            <div className={styles.formActions}>
+                                <button type="button" className={styles.cancelBtn} onClick={() => { setApproving(null); setError(""); }}>Cancel</button>
+                                <button type="submit" className={styles.actionBtn} disabled={busy || !pin}>
+                                    {busy ? "Approving…" : "Grant Access"}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+                </React.Fragment>
+            ))}
+
+            {grants.length > 0 && <p className={styles.subHeading}>Active access</p>}
+            {grants.map((grant) => (
+                <div className={styles.depRow} key={grant.grantId}>
+                    <div className={styles.depAvatar}>{initials(grant.doctorName)}</div>
+                    <div className={styles.depInfo}>
+                        <span className={styles.depName}>{grant.doctorName}</span>
+                        <span className={styles.depMeta}>
+                            {LEVEL_LABELS[grant.accessLevel]} · {grant.expiresAt ? `until ${fmtDate(grant.expiresAt)}` : "no expiry"}
+                        </span>
+                    </div>
+                    <div className={styles.depBtns}>
+                        <button className={styles.depAction} onClick={() => handleRevoke(grant)} disabled={busy}>Revoke</button>
+                    </div>
+                </div>
+            ))}
+
+            {!loading && requests.length === 0 && grants.length === 0 && (
+                <p className={styles.rowDesc}>No doctor has access to your records.</p>
+            )}
+            {error && !approving && <p className={styles.formError}>{error}</p>}
+        </div>
+    );
+}
@@ -6,32 +6,24 @@
 
 import React, { useState, useEffect } from "react";
 import styles from "./SettingsScreen.module.css";
-import { Palette, Bell, Package, TriangleAlert, CalendarClock, Download, Trash2, Users, Plus, X } from "lucide-react";
+import { Palette, Bell, Package, TriangleAlert, CalendarClock, Download, Trash2, Users, Plus, X, KeyRound, Pill, Syringe } from "lucide-react";
 import { useAuth } from "../../hooks/useAuth";
 import { broadcastLangChange } from "../../hooks/useLanguage";
 import type { SupportedLang } from "../../lib/i18n/translations";
 import type { GuardianLink } from "../../hooks/useAuth";
+import { openEntries } from "../../lib/services/timeline.service";
+import { vaultSecretProblem } from "../../lib/services/vault.service";
+import * as push from "../../lib/push/client";
+import DoctorAccessCard from "./DoctorAccessCard";
+import type { HealthEntry } from "../../lib/types/timeline";
+import type { NotificationPrefs } from "../../lib/types/notification";
 
 interface SettingsScreenProps {
     onNavigate: (screen: string) => void;
 }
 
-// ---- localStorage helpers ----
-function loadPref<T>(key: string, fallback: T): T {
-    if (typeof window === "undefined") return fallback;
-    try {
-        const raw = localStorage.getItem(key);
-        return raw !== null ? (JSON.parse(raw) as T) : fallback;
-    } catch {
-        return fallback;
-    }
-}
-function savePref<T>(key: string, val: T) {
-    try { localStorage.setItem(key, JSON.stringify(val)); } catch { /* ignore */ }
-}
-
 export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
-    const { patient, userRole, logout, updatePatient, dependents, linkDependent, unlinkDependent, switchToDependent, viewingAs, switchToSelf } = useAuth();
+    const { patient, userRole, logout, updatePatient, dependents, linkDependent, unlinkDependent, switchToDependent, viewingAs, switchToSelf, changeVaultSecret, masterKey } = useAuth();
     const patientId = patient?.patientId ?? "";
 
     // ---- Appearance ----
@@ -41,12 +33,26 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
     const [langSaved, setLangSaved] = useState(false);
 
     // ---- Notifications ----
-    const [pushNotifs, setPushNotifs] = useState(true);
+    const [pushNotifs, setPushNotifs] = useState(false);
+    const [pushBusy, setPushBusy] = useState(false);
+    const [pushError, setPushError] = useState("");
     const [apptReminders, setApptReminders] = useState(true);
+    const [doseReminders, setDoseReminders] = useState(true);
+    const [preventiveReminders, setPreventiveReminders] = useState(true);
 
     // ---- Export ----
     const [exporting, setExporting] = useState(false);
 
+    // ---- Vault PIN ----
+    const [pinOpen, setPinOpen] = useState(false);
+    const [pinOld, setPinOld] = useState("");
+    const [pinNew, setPinNew] = useState("");
+    const [pinConfirm, setPinConfirm] = useState("");
+    const pinIssue = pinNew ? vaultSecretProblem(pinNew) : null;
+    const [pinSaving, setPinSaving] = useState(false);
+    const [pinError, setPinError] = useState("");
+    const [pinSaved, setPinSaved] = useState(false);
+
     // ---- Delete account ----
     const [deleteStep, setDeleteStep] = useState<"idle" | "confirm">("idle");
     const [deleteInput, setDeleteInput] = useState("");
@@ -70,8 +76,19 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
     useEffect(() => {
         const savedTheme = localStorage.getItem("arogyasutra_theme");
         setDarkMode(savedTheme === "dark");
-        setPushNotifs(loadPref("arogyasutra_notif_push", true));
-        setApptReminders(loadPref("arogyasutra_notif_appt", true));
+    }, [patientId]);
+
+    // ---- Push state: this device's subscription + the account's reminder switches ----
+    useEffect(() => {
+        if (!patientId) return;
+        push.getDeviceSubscription().then((sub) => setPushNotifs(!!sub)).catch(() => {});
+        push.fetchNotificationPrefs()
+            .then((prefs) => {
+                setApptReminders(prefs.appointmentReminders);
+                setDoseReminders(prefs.doseReminders);
+                setPreventiveReminders(prefs.preventiveReminders);
+            })
+            .catch(() => {});
     }, [patientId]);
 
     // ---- Dark mode ----
@@ -108,13 +125,28 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
     };
 
     // ---- Notification toggles ----
-    const handlePushNotifs = (val: boolean) => {
-        setPushNotifs(val);
-        savePref("arogyasutra_notif_push", val);
+    const handlePushNotifs = async (val: boolean) => {
+        if (pushBusy) return;
+        setPushBusy(true);
+        setPushError("");
+        try {
+            if (val) await push.enableDevicePush();
+            else await push.disableDevicePush();
+            setPushNotifs(val);
+        } catch (err) {
+            setPushError((err as Error).message.replace(/^PUSH_\w+:\s*/, ""));
+        } finally {
+            setPushBusy(false);
+        }
     };
-    const handleApptReminders = (val: boolean) => {
-        setApptReminders(val);
-        savePref("arogyasutra_notif_appt", val);
+    const handleReminderPref = async (key: keyof NotificationPrefs, val: boolean) => {
+        const set = { appointmentReminders: setApptReminders, doseReminders: setDoseReminders, preventiveReminders: setPreventiveReminders }[key];
+        set(val);
+        try {
+            await push.saveNotificationPrefs({ [key]: val });
+        } catch {
+            set(!val);
+        }
     };
 
     // ---- Export ----
@@ -124,13 +156,14 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
         try {
             const res = await fetch(`/api/timeline/entries?patientId=${encodeURIComponent(patientId)}`);
             const data = await res.json();
-            const entries = data.entries ?? [];
+            // Export is for the patient's own use — decrypt sealed metadata first
+            const entries = await openEntries((data.entries ?? []) as HealthEntry[], masterKey);
             const bundle = {
                 resourceType: "Bundle",
                 type: "collection",
                 meta: { lastUpdated: new Date().toISOString(), patientId },
                 total: entries.length,
-                entry: entries.map((e: Record<string, unknown>) => ({
+                entry: entries.map((e) => ({
                     fullUrl: `urn:arogyasutra:entry:${e.entryId}`,
                     resource: {
                         resourceType: "DocumentReference",
@@ -140,7 +173,7 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
                         subject: { reference: `Patient/${patientId}` },
                         date: e.date,
                         description: e.title,
-                        author: e.doctorName ? [{ display: e.doctorName as string }] : [],
+                        author: e.doctorName ? [{ display: e.doctorName }] : [],
                         context: {
                             sourceInstitution: e.sourceInstitution,
                             metadata: e.metadata,
@@ -160,6 +193,30 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
         }
     };
 
+    // ---- Vault PIN: re-wrap the same records key under a new PIN ----
+    const handleChangePin = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (pinIssue || pinNew !== pinConfirm) return;
+        setPinSaving(true);
+        setPinError("");
+        try {
+            await changeVaultSecret(pinOld, pinNew);
+            setPinOpen(false);
+            setPinOld(""); setPinNew(""); setPinConfirm("");
+            setPinSaved(true);
+            setTimeout(() => setPinSaved(false), 2000);
+        } catch (err) {
+            const message = (err as Error).message;
+            setPinError(message.startsWith("VAULT_SECRET_INVALID")
+                ? "Current PIN is incorrect."
+                : message.startsWith("VAULT_SECRET_WEAK")
+                    ? message.replace(/^VAULT_SECRET_WEAK:\s*/, "")
+                    : "Failed to change PIN. Please try again.");
+        } finally {
+            setPinSaving(false);
+        }
+    };
+
     // ---- Guardian: Link dependent card ----
     const handleLinkDependent = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -170,7 +227,7 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
             const res = await fetch("/api/guardian/validate", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ guardianId: patientId, dependentCardId: `AS-${depCardId}`, dependentDob: depDob }),
+                body: JSON.stringify({ dependentCardId: `AS-${depCardId}`, dependentDob: depDob }),
             });
             const data = await res.json();
             if (!res.ok) throw new Error(data.error ?? "Verification failed");
@@ -178,6 +235,7 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
                 cardId: data.cardId as string,
                 name: data.name as string,
                 dob: data.dob as string,
+                ...(data.gender && { gender: data.gender as GuardianLink["gender"] }),
                 relationship: depRelationship,
                 linkedAt: new Date().toISOString(),
             });
@@ -204,7 +262,7 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
                 body: JSON.stringify({ userId: patientId }),
             });
             if (!res.ok) throw new Error("Failed");
-            await logout();
+            await logout({ accountDeleted: true });
         } catch {
             setDeleteError("Failed to delete account. Please contact support.");
         } finally {
@@ -266,14 +324,16 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
                 <div className={styles.row}>
                     <div className={styles.rowInfo}>
                         <span className={styles.rowLabel}>Push Notifications</span>
-                        <span className={styles.rowDesc}>Alerts for emergency access, doctor grants, and updates</span>
+                        <span className={styles.rowDesc}>Alerts on this device for emergency access, doctor grants, and updates</span>
                     </div>
                     <button
                         className={`${styles.toggle} ${pushNotifs ? styles.toggleOn : ""}`}
                         onClick={() => handlePushNotifs(!pushNotifs)}
+                        disabled={pushBusy}
                         aria-label="Toggle push notifications"
                     />
                 </div>
+                {pushError && <p className={styles.formError}>{pushError}</p>}
 
                 <div className={styles.row}>
                     <div className={styles.rowInfo}>
@@ -285,10 +345,40 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
                     </div>
                     <button
                         className={`${styles.toggle} ${apptReminders ? styles.toggleOn : ""}`}
-                        onClick={() => handleApptReminders(!apptReminders)}
+                        onClick={() => handleReminderPref("appointmentReminders", !apptReminders)}
                         aria-label="Toggle appointment reminders"
                     />
                 </div>
+
+                <div className={styles.row}>
+                    <div className={styles.rowInfo}>
+                        <span className={styles.rowLabel}>
+                            <span className={styles.rowLabelIcon}><Pill size={13} /></span>
+                            Medication Reminders
+                        </span>
+                        <span className={styles.rowDesc}>A push at each dose time on today&apos;s schedule</span>
+                    </div>
+                    <button
+                        className={`${styles.toggle} ${doseReminders ? styles.toggleOn : ""}`}
+                        onClick={() => handleReminderPref("doseReminders", !doseReminders)}
+                        aria-label="Toggle medication reminders"
+                    />
+                </div>
+
+                <div className={styles.row}>
+                    <div className={styles.rowInfo}>
+                        <span className={styles.rowLabel}>
+                            <span className={styles.rowLabelIcon}><Syringe size={13} /></span>
+                            Vaccination &amp; Screening Reminders
+                        </span>
+                        <span className={styles.rowDesc}>A few days before a vaccine or health check falls due, yours or a dependent&apos;s</span>
+                    </div>
+                    <button
+                        className={`${styles.toggle} ${preventiveReminders ? styles.toggleOn : ""}`}
+                        onClick={() => handleReminderPref("preventiveReminders", !preventiveReminders)}
+                        aria-label="Toggle vaccination and screening reminders"
+                    />
+                </div>
             </div>}
 
             {/* ======== Guardian Access ======== */}
@@ -380,6 +470,9 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
                 </div>
             )}
 
+            {/* ======== Doctor Access (own records only — consent needs the vault PIN) ======== */}
+            {userRole === "patient" && !viewingAs && patientId && <DoctorAccessCard patientId={patientId} />}
+
             {/* ======== Data & Privacy ======== */}
             {userRole !== "doctor" && <div className={styles.card}>
                 <h3 className={styles.cardTitle}><span><Package size={16} /></span> Data &amp; Privacy</h3>
@@ -400,6 +493,38 @@ export default function SettingsScreen({ onNavigate }: SettingsScreenProps) {
                     </button>
                 </div>
 
+                {/* Vault PIN */}
+                <div className={styles.expandableRow}>
+                    <div className={styles.rowFlex}>
+                        <div className={styles.rowInfo}>
+                            <span className={styles.rowLabel}>
+                                <span className={styles.rowLabelIcon}><KeyRound size={13} /></span>
+                                Vault PIN
+                            </span>
+                            <span className={styles.rowDesc}>Change the PIN that unlocks your encrypted records. Your records are not re-encrypted.</span>
+                        </div>
+                        {pinSaved && <span className={styles.savedHint}>✓ Changed</span>}
+                        {!pinOpen && (
+                            <button className={styles.actionBtn} onClick={() => setPinOpen(true)}>Change</button>
+                        )}
+                    </div>
+
+                    {pinOpen && (
+                        <form onSubmit={handleChangePin} className={styles.addDepForm}>
+                            <input className={styles.depInput} type="password" placeholder="Current PIN" value={pinOld} onChange={(e) => setPinOld(e.target.value)} autoComplete="current-password" required />
+                            <input className={styles.depInput} type="password" placeholder="New PIN (8+ characters, letters and numbers)" value={pinNew} onChange={(e) => setPinNew(e.target.value)} autoComplete="new-password" required />
+                            <input className={styles.depInput} type="password" placeholder="Confirm new PIN" value={pinConfirm} onChange={(e) => setPinConfirm(e.target.value)} autoComplete="new-password" required />
+                            {(pinError || pinIssue) && <p className={styles.formError}>{pinError || pinIssue}</p>}
+                            <div className={styles.formActions}>
+                                <button type="button" className={styles.cancelBtn} onClick={() => { setPinOpen(false); setPinError(""); setPinOld(""); setPinNew(""); setPinConfirm(""); }}>Cancel</button>
+                                <button type="submit" className={styles.actionBtn} disabled={pinSaving || !pinNew || !!pinIssue || pinNew !== pinConfirm}>
+                                    {pinSaving ? "Saving…" : "Change PIN"}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+
             </div>}
 
             {/* ======== Danger Zone ======== */}
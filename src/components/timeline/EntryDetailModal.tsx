@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { useAuth } from "../../hooks/useAuth";
 import { fmtDate } from "../../lib/utils/date";
 import {
@@ -10,6 +10,7 @@ import {
 } from "lucide-react";
 import type { HealthEntry, DocumentTypeTag } from "../../lib/types/timeline";
 import DocThumbnail from "../scan/DocThumbnail";
+import { useDocumentUrl } from "../../hooks/useDocumentUrl";
 import ZoomableImage from "../scan/ZoomableImage";
 import styles from "./EntryDetailModal.module.css";
 
@@ -35,16 +36,18 @@ export default function EntryDetailModal({ entry, onClose, onDeleted, onUpdated
     const [mode, setMode] = useState<"view" | "edit" | "confirmDelete">("view");
     const [saving, setSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [imgUrl, setImgUrl] = useState<string | null>(null);
-
-    // Fetch presigned URL once for the zoomable viewer
-    useEffect(() => {
-        if (!entry.encryptedBlobKey) return;
-        fetch(`/api/timeline/document-url?s3Key=${encodeURIComponent(entry.encryptedBlobKey)}`)
-            .then(r => r.json())
-            .then(d => { if (d.url) setImgUrl(d.url); })
-            .catch(() => { });
-    }, [entry.encryptedBlobKey]);
+    const meta = entry.metadata ?? {};
+    // Multi-photo entries store one blob per page; a PDF is one blob with pages inside
+    const pageKeys = entry.pageBlobKeys ?? [];
+    const isPdf = meta.sourceFormat === "pdf";
+    const pdfPages = isPdf ? meta.pageCount ?? 1 : 0;
+    const [page, setPage] = useState(0);
+    // Resolve the document once for the zoomable viewer (decrypts sealed photos)
+    const { url: imgUrl } = useDocumentUrl(
+        pageKeys[page] ?? entry.encryptedBlobKey,
+        !!entry.encryptedMetadata,
+        isPdf ? "application/pdf" : ""
+    );
 
     // Edit form state
     const [editTitle, setEditTitle] = useState(entry.title);
@@ -59,8 +62,6 @@ export default function EntryDetailModal({ entry, onClose, onDeleted, onUpdated
         catch { return entry.date; }
     })();
 
-    const meta = entry.metadata ?? {};
-
     // ---- handlers ----
 
     const handleSaveEdit = async () => {
@@ -213,7 +214,33 @@ export default function EntryDetailModal({ entry, onClose, onDeleted, onUpdated
                 {/* ---- View Mode ---- */}
                 {mode === "view" && (
                     <div className={styles.body}>
-                        {imgUrl && <ZoomableImage src={imgUrl} alt={entry.title} />}
+                        {imgUrl && (isPdf
+                            ? <iframe key={page} src={`${imgUrl}#page=${page + 1}`} title={entry.title} className={styles.pdfViewer} />
+                            : <ZoomableImage src={imgUrl} alt={entry.title} />)}
+
+                        {/* Page strip — photos show thumbnails, PDF pages are numbered */}
+                        {(pageKeys.length > 1 || pdfPages > 1) && (
+                            <div className={styles.pageStrip}>
+                                {(pageKeys.length > 1 ? pageKeys : Array.from({ length: pdfPages }, (_, i) => `pdf-${i}`)).map((key, i) => (
+                                    <button
+                                        key={key}
+                                        className={`${styles.pageThumb} ${i === page ? styles.pageThumbActive : ""}`}
+                                        onClick={() => setPage(i)}
+                                        aria-label={`Page ${i + 1}`}
+                                    >
+                                        {pageKeys.length > 1 && (
+                                            <DocThumbnail
+                                                s3Key={key}
+                                                encrypted={!!entry.encryptedMetadata}
+                                                alt={`Page ${i + 1}`}
+                                                style={{ width: "100%", height: "100%", border: "none", borderRadius: 0 }}
+                                            />
+                                        )}
+                                        <span className={styles.pageThumbNumber}>{i + 1}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
 
                         {/* Meta row */}
                         <div className={styles.metaRow}>
@@ -281,12 +308,29 @@ export default function EntryDetailModal({ entry, onClose, onDeleted, onUpdated
                                 <div className={styles.labTable}>
                                     {meta.labTests!.map((t, i) => (
                                         <div key={i} className={styles.labRow}>
-                                            <span className={styles.labName}>{t.name}</span>
-                                            <span className={styles.labValue}>{t.value}{t.unit ? ` ${t.unit}` : ""}</span>
-                                            {t.referenceRange && <span className={styles.labRange}>{t.referenceRange}</span>}
+                                            <span className={styles.labName} title={t.canonicalName && t.loinc ? `${t.canonicalName} · LOINC ${t.loinc}` : undefined}>{t.name}</span>
+                                            <span className={styles.labValue}>
+                                                {t.value}{t.unit ? ` ${t.unit}` : ""}
+                                                {t.canonicalValue !== undefined && t.unit && t.canonicalUnit !== t.unit && (
+                                                    <span className={styles.labConverted}> ≈ {t.canonicalValue} {t.canonicalUnit}</span>
+                                                )}
+                                            </span>
+                                            {t.referenceRange && (
+                                                <span
+                                                    className={`${styles.labRange} ${t.rangeSource === "default" ? styles.labRangeDefault : ""}`}
+                                                    title={t.rangeSource === "default" ? "Typical range — the report didn't print one" : undefined}
+                                                >
+                                                    {t.referenceRange}
+                                                </span>
+                                            )}
                                             {t.status && (
                                                 <span className={`${styles.labStatus} ${styles[`labStatus${t.status}`]}`}>{t.status}</span>
                                             )}
+                                            {t.page && (
+                                                <button className={styles.labPage} onClick={() => setPage(t.page! - 1)} title="Show this page">
+                                                    p.{t.page}
+                                                </button>
+                                            )}
                                         </div>
                                     ))}
                                 </div>
@@ -11,7 +11,7 @@ import styles from "./TimelineScreen.module.css";
 import {
     ClipboardList, Pill, FlaskConical, Building2, Stethoscope,
     Camera, FileCheck2, Search, X, Plus, ChevronLeft,
-    ChevronRight, Calendar,
+    ChevronRight, Calendar, CloudOff, RefreshCw,
 } from "lucide-react";
 import { fmtDate, fmtMonthYear, fmtMonthYearLong } from "../../lib/utils/date";
 import DocThumbnail from "../scan/DocThumbnail";
@@ -19,6 +19,8 @@ import ScanModal from "../scan/ScanModal";
 import EntryDetailModal from "./EntryDetailModal";
 import * as timelineService from "../../lib/services/timeline.service";
 import { useAuth } from "../../hooks/useAuth";
+import { useScanOutbox } from "../../hooks/useScanOutbox";
+import type { OutboxView } from "../../lib/services/scanQueue.service";
 import type { HealthEntry } from "../../lib/types/timeline";
 
 const DOC_TYPES: { value: DocumentTypeTag | "ALL"; label: string; icon: React.ReactNode }[] = [
@@ -71,8 +73,17 @@ interface MonthBucket {
 
 type Entry = ReturnType<typeof useTimeline>["entries"][number];
 
+function outboxStatusLabel({ item }: OutboxView): string {
+    switch (item.status) {
+        case "queued": return item.lastError ? `Waiting to upload · ${item.lastError}` : "Waiting to upload";
+        case "uploading": return "Analysing…";
+        case "review": return "Pending review";
+        case "failed": return `Could not be analysed · ${item.lastError ?? "unknown error"}`;
+    }
+}
+
 export default function TimelineScreen({ onNavigate, patientId, initialEntryId, onEntryOpened }: TimelineScreenProps) {
-    const { entries, isLoading, loadTimeline, loadMore, hasMore, updateEntry } = useTimeline(patientId);
+    const { entries, isLoading, loadTimeline, loadMore, hasMore, updateEntry, cachedAt } = useTimeline(patientId);
     const { effectivePatient } = useAuth();
     const resolvedId = patientId || effectivePatient?.patientId || "";
     const [activeFilter, setActiveFilter] = useState<DocumentTypeTag | "ALL">("ALL");
@@ -82,6 +93,8 @@ export default function TimelineScreen({ onNavigate, patientId, initialEntryId,
     const [popoverPos, setPopoverPos] = useState<{ x: number; y: number } | null>(null);
     const [scanOpen, setScanOpen] = useState(false);
     const [selectedEntry, setSelectedEntry] = useState<HealthEntry | null>(null);
+    const { items: outbox, discard: discardQueued, retry: retryQueued } = useScanOutbox();
+    const [reviewing, setReviewing] = useState<OutboxView | null>(null);
     const scrubberRef = useRef<HTMLDivElement>(null);
     const popoverRef = useRef<HTMLDivElement>(null);
     const sectionRefs = useRef<Record<string, HTMLDivElement | null>>({});
@@ -325,6 +338,52 @@ export default function TimelineScreen({ onNavigate, patientId, initialEntryId,
                     </div>
                 )}
 
+                {cachedAt && (
+                    <p className={styles.offlineNotice}>
+                        Showing records saved on this device on {fmtDate(cachedAt)} — they refresh once a connection is available.
+                    </p>
+                )}
+
+                {/* ---- Offline scans (outbox) ---- */}
+                {!patientId && outbox.length > 0 && (
+                    <div className={styles.outbox}>
+                        <div className={styles.outboxHeader}>
+                            <CloudOff size={14} />
+                            <span>Scans waiting on this device</span>
+                            <span className={styles.monthHeaderCount}>{outbox.length}</span>
+                        </div>
+                        {outbox.map((view) => (
+                            <div key={view.item.id} className={styles.outboxItem}>
+                                <div className={styles.outboxBody}>
+                                    <span className={styles.outboxTitle}>{view.extraction?.title ?? "Scanned document"}</span>
+                                    <span className={`${styles.outboxStatus} ${view.item.status === "failed" ? styles.outboxStatusFailed : ""}`}>
+                                        {fmtDate(view.item.createdAt)} · {outboxStatusLabel(view)}
+                                    </span>
+                                </div>
+                                {view.item.status === "review" && (
+                                    <button className={styles.outboxAction} onClick={() => setReviewing(view)}>
+                                        Review
+                                    </button>
+                                )}
+                                {view.item.status === "failed" && (
+                                    <button className={styles.outboxAction} onClick={() => retryQueued(view)}>
+                                        <RefreshCw size={12} /> Retry
+                                    </button>
+                                )}
+                                <button
+                                    className={styles.outboxDiscard}
+                                    aria-label="Discard scan"
+                                    onClick={() => {
+                                        if (window.confirm("Discard this scan? It has not been saved to your records.")) discardQueued(view);
+                                    }}
+                                >
+                                    <X size={14} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* ---- Search ---- */}
                 <div className={styles.searchBar}>
                     <span className={styles.searchIcon}><Search size={15} /></span>
@@ -435,6 +494,7 @@ export default function TimelineScreen({ onNavigate, patientId, initialEntryId,
                                                         <div className={styles.entryThumb}>
                                                             <DocThumbnail
                                                                 s3Key={entry.encryptedBlobKey}
+                                                                encrypted={!!entry.encryptedMetadata}
                                                                 alt={entry.title}
                                                                 style={{ width: "100%", height: "100%", borderRadius: "var(--radius-lg)" }}
                                                             />
@@ -463,11 +523,14 @@ export default function TimelineScreen({ onNavigate, patientId, initialEntryId,
                     <Plus size={22} />
                 </button>
             </div>
-            {scanOpen && (
+            {(scanOpen || reviewing) && (
                 <ScanModal
-                    onClose={() => setScanOpen(false)}
+                    queued={reviewing ?? undefined}
+                    entries={entries}
+                    onClose={() => { setScanOpen(false); setReviewing(null); }}
                     onSaved={() => {
                         setScanOpen(false);
+                        setReviewing(null);
                         // Preserve the active doc-type filter after saving a new record
                         const f: TimelineFilters = {};
                         if (activeFilter !== "ALL") f.documentTypes = [activeFilter];
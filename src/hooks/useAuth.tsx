@@ -1,15 +1,18 @@
 // ============================================================
 // Auth Context & Hook
 // Provides Master Key + auth state to all components
-// Supports both Patient (Card ID → DOB → OTP) and Doctor (email/MCI + password) flows
+// Supports both Patient (Card ID → DOB → OTP → vault secret) and Doctor (email/MCI + password) flows
 // ============================================================
 
 "use client";
 
 import React, { createContext, useContext, useState, useCallback, useRef, useEffect, type ReactNode } from "react";
 import * as authService from "../lib/services/auth.service";
+import * as vaultService from "../lib/services/vault.service";
+import * as offline from "../lib/offline";
 import type { AuthState, LoginSession, AuthResult, OTPChallenge, LockStatus } from "../lib/types/auth";
 import type { Patient } from "../lib/types/patient";
+import type { WrappedVaultKey } from "../lib/types/crypto";
 
 export type UserRole = "patient" | "doctor";
 
@@ -19,6 +22,8 @@ export interface GuardianLink {
     name: string;
     /** YYYY-MM-DD — stored locally so masterKey can be derived on-device */
     dob: string;
+    /** From the dependent's profile — picks sex-specific vaccines and screenings */
+    gender?: Patient["gender"];
     relationship: "child" | "parent" | "other";
     linkedAt: string; // ISO timestamp
 }
@@ -39,6 +44,8 @@ interface AuthContextType {
     doctor: DoctorProfile | null;
     userRole: UserRole | null;
     masterKey: CryptoKey | null;
+    /** keyId of the unlocked vault DEK — stamped on blobs encrypted with masterKey */
+    vaultKeyId: string | null;
     session: LoginSession | null;
     lockStatus: LockStatus;
 
@@ -47,6 +54,13 @@ interface AuthContextType {
     verifyDob: (cardId: string, dob: string) => Promise<Record<string, string>>;
     sendOtp: (cardId: string) => Promise<OTPChallenge>;
     verifyOtp: (cardId: string, otp: string) => Promise<AuthResult>;
+    /** True when the patient has no vault yet — the secret entered creates it */
+    vaultIsNew: boolean;
+    /** Unlock (or create) the vault with the patient's secret → AUTHENTICATED */
+    unlockVault: (secret: string) => Promise<void>;
+    changeVaultSecret: (oldSecret: string, newSecret: string) => Promise<void>;
+    /** Wrap the vault key for a doctor's public key (Base64) — needs the vault secret */
+    shareVaultKey: (doctorPublicKey: string, secret: string) => Promise<string>;
 
     // Doctor auth
     doctorLogin: (username: string, password: string) => Promise<void>;
@@ -55,7 +69,8 @@ interface AuthContextType {
     updatePatient: (partial: Partial<Patient>) => void;
     updateDoctor: (partial: Partial<DoctorProfile>) => void;
 
-    logout: () => Promise<void>;
+    /** Scans queued offline survive a sign-out; accountDeleted drops them too */
+    logout: (options?: { accountDeleted?: boolean }) => Promise<void>;
 
     // Guardian Access — link dependent cards
     dependents: GuardianLink[];
@@ -119,26 +134,56 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     const [isLoading, setIsLoading] = useState(false);
     const [hydrated, setHydrated] = useState(false);
     const masterKeyRef = useRef<CryptoKey | null>(null);
+    // undefined = not fetched yet (restored session), null = no vault exists
+    const vaultRef = useRef<WrappedVaultKey | null | undefined>(undefined);
+    const [vaultIsNew, setVaultIsNew] = useState(false);
 
     // ---- Guardian Access ----
     const [dependents, setDependents] = useState<GuardianLink[]>([]);
     const [viewingAs, setViewingAs] = useState<Patient | null>(null);
 
-    // Load persisted guardian links when patient logs in
+    // Load persisted guardian links when patient logs in. localStorage keeps the
+    // display details; the server list is what actually authorises access, so
+    // links it doesn't know about (made before links were stored server-side)
+    // are re-validated with their DOB or dropped.
     useEffect(() => {
-        if (!patient?.patientId) { setDependents([]); return; }
+        if (!patient?.patientId || state !== "AUTHENTICATED") { setDependents([]); return; }
+        const storageKey = `guardian_links_${patient.patientId}`;
+        let local: GuardianLink[] = [];
         try {
-            const raw = localStorage.getItem(`guardian_links_${patient.patientId}`);
-            if (raw) setDependents(JSON.parse(raw) as GuardianLink[]);
-            else setDependents([]);
-        } catch { setDependents([]); }
-    }, [patient?.patientId]);
+            const raw = localStorage.getItem(storageKey);
+            if (raw) local = JSON.parse(raw) as GuardianLink[];
+        } catch { /* ignore */ }
+        setDependents(local);
+
+        let cancelled = false;
+        (async () => {
+            const res = await fetch("/api/guardian/links");
+            if (!res.ok) return;
+            const { dependents: serverIds } = (await res.json()) as { dependents: string[] };
+            const kept: GuardianLink[] = [];
+            for (const link of local) {
+                if (serverIds.includes(link.cardId)) { kept.push(link); continue; }
+                const check = await fetch("/api/guardian/validate", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ dependentCardId: link.cardId, dependentDob: link.dob }),
+                });
+                if (check.ok) kept.push(link);
+            }
+            if (cancelled) return;
+            setDependents(kept);
+            try { localStorage.setItem(storageKey, JSON.stringify(kept)); } catch { /* ignore */ }
+        })().catch((err) => console.warn("[useAuth] Guardian link sync failed:", err));
+        return () => { cancelled = true; };
+    }, [patient?.patientId, state]);
 
     // Restore persisted session after first client-side mount (avoids hydration mismatch).
     useEffect(() => {
         const s = loadSession();
         if (s) {
-            setState(s.state);
+            // The vault DEK lives only in memory — a refreshed patient tab must unlock again
+            setState(s.userRole === "patient" ? "VAULT_LOCKED" : s.state);
             setPatient(s.patient);
             setDoctor(s.doctor);
             setUserRole(s.userRole);
@@ -208,12 +253,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setError(null);
         try {
             const result = await authService.verifyOTP(cardId, otp);
-            masterKeyRef.current = result.masterKey;
+            vaultRef.current = result.vault;
+            setVaultIsNew(!result.vault);
             setPatient(result.patient);
             setUserRole("patient");
-            setState("AUTHENTICATED");
-            // Persist so new/refreshed tabs restore state automatically
-            saveSession({ state: "AUTHENTICATED", userRole: "patient", patient: result.patient, doctor: null });
+            setState("VAULT_LOCKED");
             return result;
         } catch (e) {
             setError((e as Error).message);
@@ -223,6 +267,55 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
     }, []);
 
+    // ---- Vault ----
+    const unlockVault = useCallback(async (secret: string) => {
+        if (!patient) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            if (vaultRef.current === undefined) {
+                vaultRef.current = await vaultService.fetchVaultKey(patient.patientId).catch(async (err) => {
+                    // No network: the wrapped key saved on this device unlocks just as well
+                    const saved = err instanceof TypeError ? await offline.loadOfflineVault(patient.patientId) : null;
+                    if (!saved) throw err;
+                    return saved;
+                });
+                if (!vaultRef.current) {
+                    // Restored session but no vault on record — ask for a new secret (with confirmation)
+                    setVaultIsNew(true);
+                    throw new Error("VAULT_SETUP_REQUIRED: Please choose a vault PIN for your records");
+                }
+            }
+            const result = await vaultService.unlockVault(patient.patientId, secret, vaultRef.current);
+            masterKeyRef.current = result.masterKey;
+            vaultRef.current = result.vault;
+            offline.saveOfflineVault(patient.patientId, result.vault);
+            // Background, once per vault on this device — login doesn't wait on it
+            vaultService.migrateLegacyBlobs(patient.patientId, result.masterKey, result.vault)
+                .catch((err) => console.warn("[useAuth] Legacy blob check failed:", (err as Error).message));
+            setVaultIsNew(false);
+            setState("AUTHENTICATED");
+            // Persist so new/refreshed tabs restore state automatically
+            saveSession({ state: "AUTHENTICATED", userRole: "patient", patient, doctor: null });
+        } catch (e) {
+            setError((e as Error).message);
+            throw e;
+        } finally {
+            setIsLoading(false);
+        }
+    }, [patient]);
+
+    const changeVaultSecret = useCallback(async (oldSecret: string, newSecret: string) => {
+        if (!patient || !vaultRef.current) throw new Error("VAULT_LOCKED: Unlock your vault first");
+        vaultRef.current = await vaultService.changeVaultSecret(patient.patientId, oldSecret, newSecret, vaultRef.current);
+        offline.saveOfflineVault(patient.patientId, vaultRef.current);
+    }, [patient]);
+
+    const shareVaultKey = useCallback(async (doctorPublicKey: string, secret: string) => {
+        if (!patient || !vaultRef.current) throw new Error("VAULT_LOCKED: Unlock your vault first");
+        return vaultService.shareVaultKey(patient.patientId, secret, vaultRef.current, doctorPublicKey);
+    }, [patient]);
+
     // ---- Doctor Auth ----
     const doctorLogin = useCallback(async (username: string, password: string) => {
         setIsLoading(true);
@@ -254,14 +347,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }, []);
 
     // ---- Logout ----
-    const logout = useCallback(async () => {
-        // Try to notify server, but ALWAYS clear local state even if it fails
-        try {
-            if (patient) await authService.logout(patient.patientId);
-        } catch {
-            console.warn("Server-side logout failed — clearing local session anyway");
-        }
+    const clearAuth = useCallback(() => {
         masterKeyRef.current = null;
+        vaultRef.current = undefined;
+        setVaultIsNew(false);
         setPatient(null);
         setDoctor(null);
         setUserRole(null);
@@ -271,7 +360,46 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setViewingAs(null);
         setDependents([]);
         clearSession(); // Wipe persisted session
-    }, [patient]);
+    }, []);
+
+    const logout = useCallback(async ({ accountDeleted = false }: { accountDeleted?: boolean } = {}) => {
+        // Try to notify server, but ALWAYS clear local state even if it fails
+        try {
+            if (patient) await authService.logout(patient.patientId);
+            else await authService.endSession();
+        } catch {
+            console.warn("Server-side logout failed — clearing local session anyway");
+        }
+        clearAuth();
+        await offline.clearOfflineData(); // Cached records, photos and wrapped vault key
+        if (accountDeleted && patient) {
+            await offline.clearOutbox(patient.patientId)
+                .catch((err) => console.warn("[useAuth] Could not clear queued scans:", err));
+        }
+    }, [patient, clearAuth]);
+
+    // API calls renew an expired ID token from the refresh cookie. Once that
+    // stops working every call would fail with 401, so check when the app
+    // opens or comes back into view and ask the user to sign in again.
+    // The offline cache stays — it is encrypted and the same user is back.
+    useEffect(() => {
+        if (!hydrated || !userRole) return;
+        let cancelled = false;
+        const check = () => {
+            if (document.visibilityState !== "visible") return;
+            authService.checkSession().then((alive) => {
+                if (alive || cancelled) return;
+                clearAuth();
+                setError("AUTH_SESSION_EXPIRED: Your session has expired. Please sign in again.");
+            });
+        };
+        check();
+        document.addEventListener("visibilitychange", check);
+        return () => {
+            cancelled = true;
+            document.removeEventListener("visibilitychange", check);
+        };
+    }, [hydrated, userRole, clearAuth]);
 
     // ---- Guardian helpers ----
     const linkDependent = useCallback((dep: GuardianLink) => {
@@ -290,6 +418,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             try { localStorage.setItem(`guardian_links_${patient.patientId}`, JSON.stringify(next)); } catch { /* ignore */ }
             return next;
         });
+        fetch(`/api/guardian/links?cardId=${encodeURIComponent(cardId)}`, { method: "DELETE" })
+            .catch((err) => console.warn("[useAuth] Server unlink failed:", err));
         setViewingAs((prev) => (prev?.patientId === cardId ? null : prev));
     }, [patient?.patientId]);
 
@@ -300,7 +430,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             fullName: link.name,
             dateOfBirth: link.dob,
             phone: "",
-            gender: "other",
+            gender: link.gender || "other",
             address: { line1: "", city: "", state: "", pincode: "", country: "IN" },
             language: patient?.language ?? "en",
             emergencyContacts: [],
@@ -339,12 +469,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 doctor,
                 userRole,
                 masterKey: masterKeyRef.current,
+                vaultKeyId: vaultRef.current?.keyId ?? null,
                 session,
                 lockStatus: authService.getLockStatus(),
                 initiateLogin,
                 verifyDob,
                 sendOtp,
                 verifyOtp,
+                vaultIsNew,
+                unlockVault,
+                changeVaultSecret,
+                shareVaultKey,
                 doctorLogin,
                 updatePatient,
                 updateDoctor,
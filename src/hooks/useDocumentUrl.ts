@@ -0,0 +1,45 @@
+// ============================================================
+// Document URL Hook
+// Resolves a stored document to something an <img> can render:
+// a presigned URL for legacy plaintext uploads, or an object URL
+// of the photo decrypted in the browser for sealed entries.
+// ============================================================
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { openPhoto } from "../lib/services/timeline.service";
+import { useAuth } from "./useAuth";
+
+export function useDocumentUrl(s3Key: string, encrypted: boolean, type = "") {
+    const { masterKey } = useAuth();
+    const [url, setUrl] = useState<string | null>(null);
+    const [error, setError] = useState(false);
+
+    useEffect(() => {
+        if (!s3Key) return;
+        if (encrypted && !masterKey) return; // no key (e.g. doctor) — nothing to show
+        let cancelled = false;
+        let objectUrl: string | null = null;
+
+        const load = encrypted
+            ? openPhoto(s3Key, masterKey!, type).then((blob) => {
+                objectUrl = URL.createObjectURL(blob);
+                return objectUrl;
+            })
+            : fetch(`/api/timeline/document-url?s3Key=${encodeURIComponent(s3Key)}`)
+                .then((r) => r.json())
+                .then((data) => (data.url as string | undefined) ?? null);
+
+        load
+            .then((resolved) => { if (!cancelled) setUrl(resolved); })
+            .catch(() => { if (!cancelled) setError(true); });
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [s3Key, encrypted, masterKey, type]);
+
+    return { url, error, setError };
+}
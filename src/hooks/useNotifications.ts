@@ -0,0 +1,111 @@
+// ============================================================
+// Notifications Hook
+// Pages through the signed-in user's notifications with optional
+// category / unread filters. Every mounted instance (the AppShell
+// bell and NotificationsScreen) reloads when any of them marks
+// something read, and the bell polls for new arrivals.
+// ============================================================
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import * as notificationService from "../lib/services/notification.service";
+import type { AppNotification, NotificationCategory } from "../lib/types/notification";
+
+const POLL_INTERVAL_MS = 60_000;
+
+const _changeListeners = new Set<() => void>();
+
+function announceChange(): void {
+    _changeListeners.forEach((fn) => fn());
+}
+
+interface Options {
+    category?: NotificationCategory;
+    unreadOnly?: boolean;
+    pageSize?: number;
+    /** Re-fetch the first page on this interval and when the tab regains focus */
+    poll?: boolean;
+}
+
+export function useNotifications(userId: string | undefined, { category, unreadOnly = false, pageSize = 20, poll = false }: Options = {}) {
+    const [items, setItems] = useState<AppNotification[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
+    const [nextCursor, setNextCursor] = useState<string | undefined>();
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Drops responses from a superseded first-page load
+    const generationRef = useRef(0);
+
+    useEffect(() => {
+        if (!userId) return;
+        let cancelled = false;
+        const load = () => {
+            const generation = ++generationRef.current;
+            notificationService.fetchNotifications({ category, unreadOnly, limit: pageSize })
+                .then((page) => {
+                    if (cancelled || generation !== generationRef.current) return;
+                    setItems(page.notifications);
+                    setUnreadCount(page.unreadCount);
+                    setNextCursor(page.nextCursor);
+                    setError(null);
+                })
+                .catch((err) => { if (!cancelled) setError((err as Error).message); });
+        };
+
+        load();
+        _changeListeners.add(load);
+        const onFocus = () => load();
+        const timer = poll ? setInterval(load, POLL_INTERVAL_MS) : undefined;
+        if (poll) window.addEventListener("focus", onFocus);
+        return () => {
+            cancelled = true;
+            _changeListeners.delete(load);
+            if (timer) clearInterval(timer);
+            if (poll) window.removeEventListener("focus", onFocus);
+        };
+    }, [userId, category, unreadOnly, pageSize, poll]);
+
+    const loadMore = useCallback(async () => {
+        if (!nextCursor || isLoading) return;
+        const generation = generationRef.current;
+        setIsLoading(true);
+        try {
+            const page = await notificationService.fetchNotifications({ category, unreadOnly, limit: pageSize, cursor: nextCursor });
+            if (generation !== generationRef.current) return;
+            setItems((prev) => [...prev, ...page.notifications]);
+            setUnreadCount(page.unreadCount);
+            setNextCursor(page.nextCursor);
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [category, unreadOnly, pageSize, nextCursor, isLoading]);
+
+    const markRead = useCallback(async (notification: AppNotification) => {
+        if (notification.read) return;
+        setItems((prev) => prev.map((n) => n.notificationId === notification.notificationId ? { ...n, read: true } : n));
+        setUnreadCount((c) => Math.max(0, c - 1));
+        await notificationService.markNotificationsRead([notification.notificationId]).catch(() => {});
+        announceChange();
+    }, []);
+
+    const markAllRead = useCallback(async () => {
+        setItems((prev) => prev.map((n) => ({ ...n, read: true })));
+        setUnreadCount(0);
+        await notificationService.markNotificationsRead().catch(() => {});
+        announceChange();
+    }, []);
+
+    return {
+        items: userId ? items : [],
+        unreadCount: userId ? unreadCount : 0,
+        hasMore: !!nextCursor,
+        isLoading,
+        error,
+        loadMore,
+        markRead,
+        markAllRead,
+    };
+}
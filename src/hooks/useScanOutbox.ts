@@ -0,0 +1,75 @@
+// ============================================================
+// Scan Outbox Hooks
+// useScanOutbox lists the signed-in patient's offline scans;
+// useOutboxSync (mounted once in AppShell) drains the queue on
+// load, when the browser comes back online, and on a timer.
+// Only the patient's own vault can seal scans — guardians and
+// doctors get an empty outbox.
+// ============================================================
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import * as scanQueue from "../lib/services/scanQueue.service";
+import type { OutboxView } from "../lib/services/scanQueue.service";
+import { useAuth } from "./useAuth";
+
+const SYNC_INTERVAL_MS = 30_000;
+
+function useOutboxOwner() {
+    const { effectivePatient, viewingAs, masterKey, vaultKeyId } = useAuth();
+    const ownerId = !viewingAs && masterKey ? effectivePatient?.patientId ?? null : null;
+    return { ownerId, masterKey, vaultKeyId };
+}
+
+export function useScanOutbox() {
+    const { ownerId, masterKey, vaultKeyId } = useOutboxOwner();
+    const [items, setItems] = useState<OutboxView[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = () => {
+            const views: Promise<OutboxView[]> = ownerId && masterKey
+                ? scanQueue.listOutbox(ownerId, masterKey).catch(() => [])
+                : Promise.resolve([]);
+            views.then((v) => { if (!cancelled) setItems(v); });
+        };
+        load();
+        const unsubscribe = scanQueue.onOutboxChange((changed) => {
+            if (changed === ownerId) load();
+        });
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [ownerId, masterKey]);
+
+    const discard = useCallback((view: OutboxView) => scanQueue.removeOutboxItem(view.item), []);
+    const retry = useCallback(async (view: OutboxView) => {
+        await scanQueue.retryOutboxItem(view.item);
+        if (ownerId && masterKey) await scanQueue.processOutbox(ownerId, masterKey, vaultKeyId ?? undefined);
+    }, [ownerId, masterKey, vaultKeyId]);
+
+    return { items, discard, retry };
+}
+
+export function useOutboxSync() {
+    const { ownerId, masterKey, vaultKeyId } = useOutboxOwner();
+
+    useEffect(() => {
+        if (!ownerId || !masterKey) return;
+        const run = (ignoreBackoff: boolean) => {
+            scanQueue.processOutbox(ownerId, masterKey, vaultKeyId ?? undefined, ignoreBackoff)
+                .catch((err) => console.warn("[outbox] Sync pass failed:", err));
+        };
+        const onOnline = () => run(true);
+
+        run(false);
+        window.addEventListener("online", onOnline);
+        const timer = setInterval(() => { if (navigator.onLine) run(false); }, SYNC_INTERVAL_MS);
+        return () => {
+            window.removeEventListener("online", onOnline);
+            clearInterval(timer);
+        };
+    }, [ownerId, masterKey, vaultKeyId]);
+}
@@ -16,13 +16,15 @@ import type {
 import { useAuth } from "./useAuth";
 
 export function useTimeline(overridePatientId?: string) {
-    const { patient, doctor, userRole, effectivePatient } = useAuth();
+    const { patient, doctor, userRole, effectivePatient, masterKey, vaultKeyId } = useAuth();
     const [entries, setEntries] = useState<HealthEntry[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [hasMore, setHasMore] = useState(false);
     const [page, setPage] = useState(1);
     const [currentFilters, setCurrentFilters] = useState<TimelineFilters>({});
+    /** When the entries shown came from the offline copy, when it was saved */
+    const [cachedAt, setCachedAt] = useState<string | null>(null);
 
     // Monotonically increasing request counter — prevents stale async results
     // from overwriting the entries set by a newer request.
@@ -68,7 +70,7 @@ export function useTimeline(overridePatientId?: string) {
                     filters: appliedFilters,
                     options: { page: 1, pageSize: 20, sortOrder: "newest", groupBy: "date" },
                 };
-                const response = await timelineService.getTimeline(request, null as unknown as CryptoKey, viewerContext);
+                const response = await timelineService.getTimeline(request, masterKey, viewerContext, vaultKeyId ?? undefined);
 
                 // Only apply result if this is still the latest request
                 if (thisRequestId !== requestIdRef.current) return;
@@ -77,6 +79,7 @@ export function useTimeline(overridePatientId?: string) {
                 setHasMore(response.hasMore);
                 setPage(1);
                 setCurrentFilters(appliedFilters);
+                setCachedAt(response.cachedAt ?? null);
             } catch (e) {
                 if (thisRequestId !== requestIdRef.current) return;
                 setError((e as Error).message);
@@ -87,7 +90,7 @@ export function useTimeline(overridePatientId?: string) {
             }
         },
         // eslint-disable-next-line react-hooks/exhaustive-deps
-        [resolvedId, viewerContext?.viewerId]
+        [resolvedId, viewerContext?.viewerId, masterKey, vaultKeyId]
     );
 
     const loadMore = useCallback(async () => {
@@ -100,7 +103,7 @@ export function useTimeline(overridePatientId?: string) {
                 filters: currentFilters,
                 options: { page: page + 1, pageSize: 20, sortOrder: "newest", groupBy: "date" },
             };
-            const response = await timelineService.getTimeline(request, null as unknown as CryptoKey, viewerContext);
+            const response = await timelineService.getTimeline(request, masterKey, viewerContext, vaultKeyId ?? undefined);
             setEntries((prev) => [...prev, ...response.entries]);
             setHasMore(response.hasMore);
             setPage((p) => p + 1);
@@ -109,7 +112,14 @@ export function useTimeline(overridePatientId?: string) {
         } finally {
             setIsLoading(false);
         }
-    }, [resolvedId, hasMore, page, currentFilters, viewerContext?.viewerId]);
+    }, [resolvedId, hasMore, page, currentFilters, viewerContext?.viewerId, masterKey, vaultKeyId]);
+
+    // Stale-while-revalidate: reload once fresh entries replace the offline copy
+    useEffect(() => {
+        return timelineService.onTimelineRevalidated((patientId) => {
+            if (patientId === resolvedId) loadTimeline(currentFilters);
+        });
+    }, [resolvedId, loadTimeline, currentFilters]);
 
     const updateEntry = useCallback((entryId: string, changes: Partial<HealthEntry>) => {
         setEntries(prev => prev.map(e => e.entryId === entryId ? { ...e, ...changes } : e));
@@ -120,6 +130,7 @@ export function useTimeline(overridePatientId?: string) {
         isLoading,
         error,
         hasMore,
+        cachedAt,
         loadTimeline,
         loadMore,
         updateEntry,
@@ -0,0 +1,16 @@
+// ============================================================
+// Server Startup
+// Next.js calls register() once per server instance. Transports
+// that depend on Node-only libraries are installed here, so the
+// modules that use them stay safe to bundle for the browser.
+// ============================================================
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+    if (process.env.PUSH_SENDER !== "console") {
+        const { setPushSender } = await import("./lib/push/sender");
+        const { vapidPushSender } = await import("./lib/push/vapid");
+        setPushSender(vapidPushSender);
+    }
+}
@@ -0,0 +1,124 @@
+// ============================================================
+// Cognito JWT Verification (server-side only)
+// Verifies RS256 ID tokens from the patient and doctor pools
+// against each pool's published JWKS — no AWS credentials needed.
+// ============================================================
+
+import { createPublicKey, verify, type KeyObject, type JsonWebKey } from "crypto";
+
+const region = process.env.NEXT_PUBLIC_AWS_REGION || process.env.APP_AWS_REGION || "ap-south-1";
+
+const POOLS = {
+    patient: {
+        poolId: process.env.NEXT_PUBLIC_COGNITO_PATIENT_POOL_ID || "",
+        clientId: process.env.NEXT_PUBLIC_COGNITO_PATIENT_CLIENT_ID || "",
+    },
+    doctor: {
+        poolId: process.env.NEXT_PUBLIC_COGNITO_DOCTOR_POOL_ID || "",
+        clientId: process.env.NEXT_PUBLIC_COGNITO_DOCTOR_CLIENT_ID || "",
+    },
+} as const;
+
+export type TokenPool = keyof typeof POOLS;
+
+/** Claims we rely on from a verified Cognito ID token */
+export interface VerifiedIdToken {
+    pool: TokenPool;
+    sub: string;
+    username: string; // cognito:username — Card ID for patients, doctor username for doctors
+    name?: string;
+    mciNumber?: string; // custom:mci_number — doctors only
+    institution?: string; // custom:institution — doctors only
+    expiresAt: number; // epoch seconds
+}
+
+const JWKS_TTL_MS = 6 * 60 * 60 * 1000;
+const CLOCK_SKEW_S = 30;
+
+// poolId → kid → public key
+const _jwksCache = new Map<string, { keys: Map<string, KeyObject>; fetchedAt: number }>();
+
+function issuerFor(poolId: string): string {
+    return `https://cognito-idp.${region}.amazonaws.com/${poolId}`;
+}
+
+async function loadJwks(poolId: string): Promise<Map<string, KeyObject>> {
+    const res = await fetch(`${issuerFor(poolId)}/.well-known/jwks.json`);
+    if (!res.ok) throw new Error(`JWKS_FETCH_FAILED: ${res.status}`);
+    const { keys } = (await res.json()) as { keys: (JsonWebKey & { kid: string })[] };
+    const map = new Map<string, KeyObject>();
+    for (const jwk of keys) {
+        map.set(jwk.kid, createPublicKey({ key: jwk, format: "jwk" }));
+    }
+    _jwksCache.set(poolId, { keys: map, fetchedAt: Date.now() });
+    return map;
+}
+
+async function getSigningKey(poolId: string, kid: string): Promise<KeyObject | null> {
+    const cached = _jwksCache.get(poolId);
+    if (cached && Date.now() - cached.fetchedAt < JWKS_TTL_MS && cached.keys.has(kid)) {
+        return cached.keys.get(kid)!;
+    }
+    // Unknown kid or stale cache — Cognito may have rotated keys
+    const fresh = await loadJwks(poolId);
+    return fresh.get(kid) ?? null;
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === "string" && value ? value : undefined;
+}
+
+function decodeSegment<T>(segment: string): T {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+}
+
+/**
+ * Verify a Cognito ID token from either pool.
+ * @returns Verified claims, or null if the token is malformed, forged,
+ *          expired, or not an ID token for one of our app clients.
+ */
+export async function verifyIdToken(token: string): Promise<VerifiedIdToken | null> {
+    const parts = token.split(".");
+    if (parts.length !== 3) return null;
+
+    let header: { alg?: string; kid?: string };
+    let payload: Record<string, unknown>;
+    try {
+        header = decodeSegment(parts[0]);
+        payload = decodeSegment(parts[1]);
+    } catch {
+        return null;
+    }
+    if (header.alg !== "RS256" || !header.kid) return null;
+
+    const pool = (Object.keys(POOLS) as TokenPool[]).find(
+        (p) => POOLS[p].poolId && payload.iss === issuerFor(POOLS[p].poolId)
+    );
+    if (!pool) return null;
+
+    const key = await getSigningKey(POOLS[pool].poolId, header.kid);
+    if (!key) return null;
+
+    const signatureValid = verify(
+        "RSA-SHA256",
+        Buffer.from(`${parts[0]}.${parts[1]}`),
+        key,
+        Buffer.from(parts[2], "base64url")
+    );
+    if (!signatureValid) return null;
+
+    const now = Math.floor(Date.now() / 1000);
+    if (payload.token_use !== "id") return null;
+    if (payload.aud !== POOLS[pool].clientId) return null;
+    if (typeof payload.exp !== "number" || payload.exp + CLOCK_SKEW_S < now) return null;
+
+    return {
+        pool,
+        sub: String(payload.sub ?? ""),
+        username: String(payload["cognito:username"] ?? ""),
+        name: typeof payload.name === "string" ? payload.name : undefined,
+        mciNumber: optionalString(payload["custom:mci_number"]),
+        institution: optionalString(payload["custom:institution"]),
+        expiresAt: payload.exp,
+    };
+}
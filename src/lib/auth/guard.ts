@@ -0,0 +1,150 @@
+// ============================================================
+// API Route Guard — identity + per-patient authorization
+//
+// Identity always comes from a verified Cognito ID token (session
+// cookie or Authorization: Bearer), never from body/query params.
+//
+// Patient access policy:
+//   owner    — patient token whose Card ID is the record's patientId
+//   guardian — patient token with the patientId in its linked dependents
+//   grant    — doctor token with an active StoredAccessGrant
+//
+//   level     owner  guardian  grant
+//   read        ✓       ✓      any active grant
+//   append      ✓       ✓      READ_APPEND grant
+//   manage      ✓       ✓        ✗
+//   owner       ✓       ✗        ✗
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyIdToken } from "./cognitoJwt";
+import { SESSION_COOKIE } from "./session";
+import { getGuardianDependents, listPatientGrants } from "../aws/dynamodb";
+import type { StoredAccessGrant } from "../types/audit";
+
+export type CallerRole = "patient" | "doctor";
+
+/** The authenticated user behind a request */
+export interface Caller {
+    userId: string; // Card ID (patient) or Cognito username (doctor)
+    role: CallerRole;
+    name?: string;
+    mciNumber?: string; // doctors only
+    institution?: string; // doctors only
+}
+
+export type PatientAccessLevel = "read" | "append" | "manage" | "owner";
+export type AccessBasis = "owner" | "guardian" | "grant";
+
+export interface PatientAccess {
+    caller: Caller;
+    basis: AccessBasis;
+    grant?: StoredAccessGrant;
+}
+
+// ---- Consistent error responses ----
+
+export function unauthorized(message = "Authentication required"): NextResponse {
+    return NextResponse.json({ error: message, code: "AUTH_REQUIRED" }, { status: 401 });
+}
+
+export function forbidden(message = "You do not have access to this resource"): NextResponse {
+    return NextResponse.json({ error: message, code: "AUTH_UNAUTHORIZED" }, { status: 403 });
+}
+
+// ---- Identity ----
+
+function readToken(req: NextRequest): string | null {
+    const header = req.headers.get("authorization");
+    if (header?.startsWith("Bearer ")) return header.slice("Bearer ".length).trim();
+    return req.cookies.get(SESSION_COOKIE)?.value ?? null;
+}
+
+/** Resolve the caller from the request token, or null if absent/invalid. */
+export async function getCaller(req: NextRequest): Promise<Caller | null> {
+    const token = readToken(req);
+    if (!token) return null;
+    try {
+        const claims = await verifyIdToken(token);
+        if (!claims || !claims.username) return null;
+        return {
+            userId: claims.pool === "patient" ? claims.username.toUpperCase() : claims.username,
+            role: claims.pool,
+            name: claims.name,
+            mciNumber: claims.mciNumber,
+            institution: claims.institution,
+        };
+    } catch (err) {
+        console.error("[auth] token verification failed:", (err as Error).message);
+        return null;
+    }
+}
+
+/**
+ * Require an authenticated caller (optionally of a specific role).
+ * Returns the Caller, or a 401/403 response to return as-is.
+ */
+export async function requireCaller(
+    req: NextRequest,
+    role?: CallerRole
+): Promise<Caller | NextResponse> {
+    const caller = await getCaller(req);
+    if (!caller) return unauthorized();
+    if (role && caller.role !== role) return forbidden(`This action requires a ${role} account`);
+    return caller;
+}
+
+/** True if a grant is active and not past its expiry. */
+export function isActiveGrant(grant: StoredAccessGrant, now: number = Date.now()): boolean {
+    if (!grant.isActive || grant.revokedAt) return false;
+    return !grant.expiresAt || Date.parse(grant.expiresAt) > now;
+}
+
+/**
+ * Decide whether `caller` may access `patientId`'s records at `level`.
+ * @returns The basis for access, or null when denied.
+ */
+export async function resolvePatientAccess(
+    caller: Caller,
+    patientId: string,
+    level: PatientAccessLevel
+): Promise<PatientAccess | null> {
+    const target = patientId.toUpperCase();
+
+    if (caller.role === "patient") {
+        if (caller.userId === target) return { caller, basis: "owner" };
+        if (level === "owner") return null;
+        const dependents = await getGuardianDependents(caller.userId);
+        return dependents.some((d) => d.toUpperCase() === target)
+            ? { caller, basis: "guardian" }
+            : null;
+    }
+
+    if (level === "manage" || level === "owner") return null;
+    const grants = await listPatientGrants(target);
+    const grant = grants.find((g) => g.doctorId === caller.userId && isActiveGrant(g));
+    if (!grant) return null;
+    if (level === "append" && grant.accessLevel !== "READ_APPEND") return null;
+    return { caller, basis: "grant", grant };
+}
+
+/**
+ * Require the caller to have `level` access to `patientId`.
+ * Returns the PatientAccess, or a 401/403 response to return as-is.
+ */
+export async function requirePatientAccess(
+    req: NextRequest,
+    patientId: string,
+    level: PatientAccessLevel
+): Promise<PatientAccess | NextResponse> {
+    const caller = await getCaller(req);
+    if (!caller) return unauthorized();
+    const access = await resolvePatientAccess(caller, patientId, level);
+    return access ?? forbidden();
+}
+
+/** Extract the owning patientId from a patient-scoped S3 key (patients/{id}/...). */
+export function patientIdFromKey(s3Key: string): string | null {
+    const match = s3Key.match(/^patients\/([^/]+)\//);
+    return match ? match[1] : null;
+}
@@ -0,0 +1,22 @@
+// Barrel export for server-side auth (API routes only)
+export { verifyIdToken } from "./cognitoJwt";
+export type { VerifiedIdToken, TokenPool } from "./cognitoJwt";
+export {
+    SESSION_COOKIE,
+    REFRESH_COOKIE,
+    setSessionCookie,
+    setRefreshCookie,
+    clearSessionCookie,
+    refreshSession,
+} from "./session";
+export {
+    unauthorized,
+    forbidden,
+    getCaller,
+    requireCaller,
+    isActiveGrant,
+    resolvePatientAccess,
+    requirePatientAccess,
+    patientIdFromKey,
+} from "./guard";
+export type { Caller, CallerRole, PatientAccessLevel, AccessBasis, PatientAccess } from "./guard";
@@ -0,0 +1,69 @@
+// ============================================================
+// Session Cookies (server-side only)
+// as_session carries the Cognito ID token and expires with it
+// (about an hour). as_refresh carries the pool's refresh token,
+// so an expired session is renewed without signing in again —
+// by the proxy for API calls, and by GET /api/auth/session.
+// ============================================================
+
+import type { NextRequest, NextResponse } from "next/server";
+import { refreshIdToken } from "../aws/cognito";
+import { verifyIdToken, type TokenPool, type VerifiedIdToken } from "./cognitoJwt";
+
+export const SESSION_COOKIE = "as_session";
+export const REFRESH_COOKIE = "as_refresh";
+
+// Cognito's default refresh token validity; a shorter pool setting just
+// makes the refresh fail sooner, which signs the user out
+const REFRESH_MAX_AGE_S = 30 * 24 * 60 * 60;
+
+const secure = process.env.NODE_ENV === "production";
+
+/** Cookie lives exactly as long as the ID token it carries. */
+export function setSessionCookie(res: NextResponse, idToken: string, expiresAt: number): void {
+    res.cookies.set(SESSION_COOKIE, idToken, {
+        httpOnly: true,
+        secure,
+        sameSite: "strict",
+        path: "/",
+        maxAge: Math.max(0, expiresAt - Math.floor(Date.now() / 1000)),
+    });
+}
+
+/** Only API routes see the refresh token — pages never need it. */
+export function setRefreshCookie(res: NextResponse, pool: TokenPool, refreshToken: string): void {
+    res.cookies.set(REFRESH_COOKIE, `${pool}:${refreshToken}`, {
+        httpOnly: true,
+        secure,
+        sameSite: "strict",
+        path: "/api",
+        maxAge: REFRESH_MAX_AGE_S,
+    });
+}
+
+export function clearSessionCookie(res: NextResponse): void {
+    res.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+    res.cookies.set(REFRESH_COOKIE, "", { httpOnly: true, path: "/api", maxAge: 0 });
+}
+
+/**
+ * A fresh ID token from the request's refresh cookie, or null when there
+ * is none or Cognito no longer accepts it (expired, revoked, user deleted).
+ */
+export async function refreshSession(req: NextRequest): Promise<{ idToken: string; claims: VerifiedIdToken } | null> {
+    const value = req.cookies.get(REFRESH_COOKIE)?.value ?? "";
+    const split = value.indexOf(":");
+    const pool = value.slice(0, split);
+    const refreshToken = value.slice(split + 1);
+    if (split < 0 || (pool !== "patient" && pool !== "doctor") || !refreshToken) return null;
+
+    try {
+        const idToken = await refreshIdToken(refreshToken, pool);
+        const claims = idToken ? await verifyIdToken(idToken) : null;
+        if (!idToken || !claims || claims.pool !== pool) return null;
+        return { idToken, claims };
+    } catch (err) {
+        console.warn("[auth] session refresh failed:", (err as Error).message);
+        return null;
+    }
+}
@@ -1,33 +1,11 @@
 // ============================================================
 // Amazon Bedrock Integration
-// RAG-powered clinical assistant using Nova Pro
+// Single-shot clinical Q&A over given contexts. The model call
+// goes through the generation provider chain (lib/llm), so it
+// is Bedrock only when that chain is.
 // ============================================================
 
-import {
-    BedrockRuntimeClient,
-    ConverseCommand,
-    type ConverseCommandInput,
-    type Message,
-    type SystemContentBlock,
-} from "@aws-sdk/client-bedrock-runtime";
-
-// Amplify blocks "AWS_" prefix env vars — use APP_AWS_* workaround.
-// Falls back to default credential chain (IAM role / local ~/.aws).
-const _appCreds =
-    process.env.APP_AWS_ACCESS_KEY_ID && process.env.APP_AWS_SECRET_ACCESS_KEY
-        ? { credentials: { accessKeyId: process.env.APP_AWS_ACCESS_KEY_ID, secretAccessKey: process.env.APP_AWS_SECRET_ACCESS_KEY } }
-        : {};
-
-
-// Claude 4 cross-region inference profiles only work in us-east-1 / us-west-2
-const bedrockRegion = ["us-east-1", "us-west-2"].includes(process.env.NEXT_PUBLIC_AWS_REGION || "")
-    ? process.env.NEXT_PUBLIC_AWS_REGION!
-    : "us-east-1";
-const bedrockClient = new BedrockRuntimeClient({ region: bedrockRegion, ..._appCreds });
-// Nova Pro is the GUARANTEED fallback model — hardcoded, never configurable via env var.
-// Do NOT use BEDROCK_MODEL_ID here; if that var points to Kimi, we'd loop into the same failure.
-// Nova Pro cross-region inference profile works in us-east-1 with no Marketplace subscription.
-const NOVA_MODEL_ID = "us.amazon.nova-pro-v1:0";
+import { complete } from "../llm";
 
 /** RAG context document */
 export interface RAGContext {
@@ -40,7 +18,7 @@ export interface RAGContext {
     s3Key?: string;
 }
 
-/** Bedrock model response */
+/** Model response */
 export interface BedrockResponse {
     answer: string;
     inputTokens: number;
@@ -48,7 +26,7 @@ export interface BedrockResponse {
 }
 
 /**
- * Invokes Amazon Bedrock with a clinical query + patient context.
+ * Answers a clinical query from patient context.
  *
  * @param query     Patient or doctor question
  * @param contexts  Relevant timeline entries (decrypted client-side)
@@ -84,57 +62,17 @@ Guidelines:
         ? `Here are the patient's relevant medical records:\n\n${contextBlock}\n\nQuestion: ${query}`
         : query;
 
-    const converseMessages: Message[] = [
-        { role: "user", content: [{ text: userText }] },
-    ];
-
-    const input: ConverseCommandInput = {
-        modelId: NOVA_MODEL_ID,
-        messages: converseMessages,
-        system: [{ text: systemPrompt || defaultSystem } as SystemContentBlock],
-        inferenceConfig: {
-            maxTokens: 2048,
-            temperature: 0.3,
-        },
-    };
-
-    const result = await bedrockClient.send(new ConverseCommand(input));
-
-    const text =
-        result.output?.message?.content
-            ?.map((b) => ("text" in b ? b.text ?? "" : ""))
-            .join("") ?? "";
+    const result = await complete(
+        [
+            { role: "system", content: systemPrompt || defaultSystem },
+            { role: "user", content: userText },
+        ],
+        { maxTokens: 2048, temperature: 0.3 }
+    );
 
     return {
-        answer: text,
-        inputTokens: result.usage?.inputTokens ?? 0,
-        outputTokens: result.usage?.outputTokens ?? 0,
+        answer: result.text,
+        inputTokens: result.promptTokens ?? 0,
+        outputTokens: result.completionTokens ?? 0,
     };
 }
-
-/**
- * Generates proactive health insights by analyzing timeline trends.
- *
- * @param contexts    All relevant timeline entries
- * @returns           Structured insights
- */
-export async function generateInsights(
-    contexts: RAGContext[]
-): Promise<BedrockResponse> {
-    const insightPrompt = `Analyze these medical records and identify:
-1. Trends (rising/declining values over time)
-2. Potential drug interactions between current medications
-3. Missed follow-ups or overdue screenings
-4. Any abnormal lab values
-
-Format each insight as:
-TYPE: [trend_rising|trend_declining|drug_interaction|missed_followup|abnormal_lab]
-SEVERITY: [info|warning|alert]
-TITLE: Brief title
-DESCRIPTION: One-line explanation
-SOURCES: [Source numbers]
-
-Only report clinically meaningful insights. Do NOT report normal values.`;
-
-    return invokeModel(insightPrompt, contexts);
-}
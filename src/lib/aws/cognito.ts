@@ -254,6 +254,25 @@ export async function initiateDoctorAuth(
     );
 }
 
+// ---- Sessions ----
+
+/** A new ID token for a refresh token issued by either pool; null if Cognito returns none. */
+export async function refreshIdToken(
+    refreshToken: string,
+    pool: "patient" | "doctor"
+): Promise<string | null> {
+    const result = await cognitoClient.send(
+        new InitiateAuthCommand({
+            AuthFlow: "REFRESH_TOKEN_AUTH",
+            ClientId: pool === "patient" ? requirePatientClientId() : requireDoctorClientId(),
+            AuthParameters: {
+                REFRESH_TOKEN: refreshToken,
+            },
+        })
+    );
+    return result.AuthenticationResult?.IdToken ?? null;
+}
+
 /** Permanently delete a patient from the user pool. */
 export async function deletePatientUser(userId: string): Promise<void> {
     await cognitoClient.send(
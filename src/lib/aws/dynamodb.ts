@@ -13,10 +13,26 @@ import {
     QueryCommand,
     DeleteCommand,
     UpdateCommand,
+    ScanCommand,
 } from "@aws-sdk/lib-dynamodb";
-import type { AuditLogEntry, StoredAccessGrant, AuditLogQuery } from "../types/audit";
+import type { AuditLogEntry, StoredAccessGrant, AuditLogQuery, AccessRequest, AccessRequestStatus } from "../types/audit";
 import type { BreakGlassSession, BreakGlassLog } from "../types/emergency";
 import type { Appointment, UpdateAppointmentInput } from "../types/appointment";
+import type { WrappedVaultKey } from "../types/crypto";
+import type { DoseRecord } from "../types/adherence";
+import type { PreventivePlan } from "../types/preventive";
+import type { MedicationDetail } from "../types/timeline";
+import type { CourseSource } from "../medications/courses";
+import type { TrendEntry } from "../trends/build";
+import type { InsightEntry } from "../insights/engine";
+import type { ChatConversation, ConversationSummary, HealthInsight } from "../types/rag";
+import type {
+    AppNotification,
+    DosePlan,
+    NotificationPrefs,
+    NotificationQuery,
+    StoredPushSubscription,
+} from "../types/notification";
 
 // Amplify blocks "AWS_" prefix env vars — use APP_AWS_* workaround.
 // Falls back to default credential chain (IAM role / local ~/.aws).
@@ -36,6 +52,11 @@ const SESSION_TABLE = process.env.DYNAMODB_SESSION_TABLE || "arogyasutra-session
 const PREFS_TABLE = process.env.DYNAMODB_PREFS_TABLE || "arogyasutra-user-prefs";
 const APPT_TABLE = process.env.DYNAMODB_APPOINTMENTS_TABLE || "arogyasutra-appointments";
 const CHECKUP_TABLE = process.env.DYNAMODB_CHECKUP_TABLE || "arogyasutra-checkups";
+const NOTIFICATIONS_TABLE = process.env.DYNAMODB_NOTIFICATIONS_TABLE || "arogyasutra-notifications";
+const HEALTH_RECORDS_TABLE = process.env.DYNAMODB_HEALTH_RECORDS_TABLE || "arogyasutra-health-records";
+const ADHERENCE_TABLE = process.env.DYNAMODB_ADHERENCE_TABLE || "arogyasutra-adherence";
+const INSIGHTS_TABLE = process.env.DYNAMODB_INSIGHTS_TABLE || "arogyasutra-insights";
+const CONVERSATIONS_TABLE = process.env.DYNAMODB_CONVERSATIONS_TABLE || "arogyasutra-conversations";
 
 // ---- Audit Logs (Immutable — no update/delete) ----
 
@@ -190,8 +211,90 @@ export async function revokeAccessGrant(grantId: string): Promise<void> {
     );
 }
 
+// ---- Access Requests (PREFS_TABLE, prefType "access_request#<id>") ----
+
+const ACCESS_REQUEST_PREFIX = "access_request#";
+
+/** Store a doctor's access request under the patient. */
+export async function putAccessRequest(request: AccessRequest): Promise<void> {
+    await dynamodb.send(
+        new PutCommand({
+            TableName: PREFS_TABLE,
+            Item: {
+                userId: request.patientId,
+                prefType: `${ACCESS_REQUEST_PREFIX}${request.requestId}`,
+                ...request,
+            },
+        })
+    );
+}
+
+/** Get one access request for a patient. */
+export async function getAccessRequest(
+    patientId: string,
+    requestId: string
+): Promise<AccessRequest | null> {
+    const result = await dynamodb.send(
+        new GetCommand({
+            TableName: PREFS_TABLE,
+            Key: { userId: patientId, prefType: `${ACCESS_REQUEST_PREFIX}${requestId}` },
+        })
+    );
+    return (result.Item as AccessRequest) || null;
+}
+
+/** List all access requests made for a patient, newest first. */
+export async function listAccessRequests(patientId: string): Promise<AccessRequest[]> {
+    const result = await dynamodb.send(
+        new QueryCommand({
+            TableName: PREFS_TABLE,
+            KeyConditionExpression: "userId = :userId AND begins_with(prefType, :prefix)",
+            ExpressionAttributeValues: {
+                ":userId": patientId,
+                ":prefix": ACCESS_REQUEST_PREFIX,
+            },
+        })
+    );
+    return ((result.Items || []) as AccessRequest[]).sort((a, b) =>
+        b.requestedAt.localeCompare(a.requestedAt)
+    );
+}
+
+/**
+ * Move a request out of PENDING. Conditional, so two devices can't
+ * both approve (or approve one and deny the other).
+ */
+export async function resolveAccessRequest(
+    patientId: string,
+    requestId: string,
+    status: Exclude<AccessRequestStatus, "PENDING">,
+    grantId?: string
+): Promise<void> {
+    await dynamodb.send(
+        new UpdateCommand({
+            TableName: PREFS_TABLE,
+            Key: { userId: patientId, prefType: `${ACCESS_REQUEST_PREFIX}${requestId}` },
+            UpdateExpression: grantId
+                ? "SET #s = :status, respondedAt = :now, grantId = :grantId"
+                : "SET #s = :status, respondedAt = :now",
+            ConditionExpression: "#s = :pending",
+            ExpressionAttributeNames: { "#s": "status" },
+            ExpressionAttributeValues: {
+                ":status": status,
+                ":pending": "PENDING",
+                ":now": new Date().toISOString(),
+                ...(grantId && { ":grantId": grantId }),
+            },
+        })
+    );
+}
+
 // ---- Break-Glass Sessions ----
 
+// Expired sessions stay readable this long so the sweeper can close them
+// (closing BreakGlassLog) before DynamoDB TTL deletes the item.
+const BREAKGLASS_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
 /** Store a Break-Glass session. */
 export async function putBreakGlassSession(
     session: BreakGlassSession
@@ -199,12 +302,15 @@ export async function putBreakGlassSession(
     await dynamodb.send(
         new PutCommand({
             TableName: SESSION_TABLE,
-            Item: { ...session, ttl: Math.floor(Date.parse(session.expiresAt) / 1000) },
+            Item: {
+                ...session,
+                ttl: Math.floor(Date.parse(session.expiresAt) / 1000) + BREAKGLASS_RETENTION_SECONDS,
+            },
         })
     );
 }
 
-/** Get an active Break-Glass session. */
+/** Get a Break-Glass session (active or not). */
 export async function getBreakGlassSession(
     sessionId: string
 ): Promise<BreakGlassSession | null> {
@@ -217,70 +323,161 @@ export async function getBreakGlassSession(
     return (result.Item as BreakGlassSession) || null;
 }
 
-/** Expire a Break-Glass session. */
+/** Record the outcome of the Break-Glass SMS alerts. */
+export async function markBreakGlassNotified(
+    sessionId: string,
+    status: Pick<BreakGlassSession, "patientNotified" | "emergencyContactsNotified" | "notifications">
+): Promise<void> {
+    await dynamodb.send(
+        new UpdateCommand({
+            TableName: SESSION_TABLE,
+            Key: { sessionId },
+            UpdateExpression: "SET patientNotified = :p, emergencyContactsNotified = :c, notifications = :n",
+            ExpressionAttributeValues: {
+                ":p": status.patientNotified,
+                ":c": status.emergencyContactsNotified,
+                ":n": status.notifications ?? [],
+            },
+        })
+    );
+}
+
+/**
+ * Expire a Break-Glass session.
+ * Conditional on the session still being active, so exactly one caller
+ * (end route, read-time validation or sweeper) wins and writes the closing log.
+ * @throws ConditionalCheckFailedException if it was already closed.
+ */
 export async function expireBreakGlassSession(
-    sessionId: string
+    sessionId: string,
+    endedAt: string
 ): Promise<void> {
     await dynamodb.send(
         new UpdateCommand({
             TableName: SESSION_TABLE,
             Key: { sessionId },
-            UpdateExpression: "SET isActive = :inactive",
-            ExpressionAttributeValues: { ":inactive": false },
+            UpdateExpression: "SET isActive = :inactive, endedAt = :endedAt",
+            ConditionExpression: "isActive = :active",
+            ExpressionAttributeValues: { ":inactive": false, ":active": true, ":endedAt": endedAt },
         })
     );
 }
 
-// ---- User Preferences (notification read state, etc.) ----
+/** List sessions still marked active whose expiry has passed. */
+export async function listExpiredBreakGlassSessions(
+    now: string
+): Promise<BreakGlassSession[]> {
+    const sessions: BreakGlassSession[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new ScanCommand({
+                TableName: SESSION_TABLE,
+                FilterExpression: "isActive = :active AND expiresAt <= :now",
+                ExpressionAttributeValues: { ":active": true, ":now": now },
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        sessions.push(...((result.Items ?? []) as BreakGlassSession[]));
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return sessions;
+}
+
+// ---- User Preferences (emergency contacts, guardian links, etc.) ----
 
-/** Get the list of read notification IDs for a user. */
-export async function getNotifReadIds(userId: string): Promise<number[]> {
+/** Get emergency contacts for a user. Stored in PREFS_TABLE (custom:emergency_contacts is not in Cognito schema). */
+export async function getEmergencyContacts(userId: string): Promise<object[]> {
     const result = await dynamodb.send(
         new GetCommand({
             TableName: PREFS_TABLE,
-            Key: { userId, prefType: "notif_read" },
+            Key: { userId, prefType: "emergency_contacts" },
         })
     );
-    return (result.Item?.readIds as number[]) || [];
+    return (result.Item?.contacts as object[]) || [];
 }
 
-/** Persist the list of read notification IDs for a user. */
-export async function putNotifReadIds(userId: string, readIds: number[]): Promise<void> {
+/** Persist emergency contacts for a user in PREFS_TABLE. */
+export async function putEmergencyContacts(userId: string, contacts: object[]): Promise<void> {
     await dynamodb.send(
         new PutCommand({
             TableName: PREFS_TABLE,
             Item: {
                 userId,
-                prefType: "notif_read",
-                readIds,
+                prefType: "emergency_contacts",
+                contacts,
                 updatedAt: new Date().toISOString(),
             },
         })
     );
 }
 
-/** Get emergency contacts for a user. Stored in PREFS_TABLE (custom:emergency_contacts is not in Cognito schema). */
-export async function getEmergencyContacts(userId: string): Promise<object[]> {
+// ---- Guardian Links (server-side record of linked dependents) ----
+
+/** Get the dependent Card IDs a guardian has linked. */
+export async function getGuardianDependents(guardianId: string): Promise<string[]> {
     const result = await dynamodb.send(
         new GetCommand({
             TableName: PREFS_TABLE,
-            Key: { userId, prefType: "emergency_contacts" },
+            Key: { userId: guardianId, prefType: "guardian_links" },
         })
     );
-    return (result.Item?.contacts as object[]) || [];
+    return (result.Item?.dependents as string[]) || [];
 }
 
-/** Persist emergency contacts for a user in PREFS_TABLE. */
-export async function putEmergencyContacts(userId: string, contacts: object[]): Promise<void> {
+/** Persist the dependent Card IDs a guardian has linked. */
+export async function putGuardianDependents(guardianId: string, dependents: string[]): Promise<void> {
+    await dynamodb.send(
+        new PutCommand({
+            TableName: PREFS_TABLE,
+            Item: {
+                userId: guardianId,
+                prefType: "guardian_links",
+                dependents,
+                updatedAt: new Date().toISOString(),
+            },
+        })
+    );
+}
+
+// ---- Vault Key (wrapped DEK — ciphertext only, never the KEK) ----
+
+/** Get a patient's wrapped vault key, or null if no vault exists yet. */
+export async function getVaultKey(userId: string): Promise<WrappedVaultKey | null> {
+    const result = await dynamodb.send(
+        new GetCommand({
+            TableName: PREFS_TABLE,
+            Key: { userId, prefType: "vault_key" },
+        })
+    );
+    return (result.Item?.vault as WrappedVaultKey) || null;
+}
+
+/**
+ * Persist a wrapped vault key.
+ * Without expectedKeyId the write only succeeds if no vault exists (creation);
+ * with it, the stored keyId must match (re-wrap of the same DEK).
+ */
+export async function putVaultKey(
+    userId: string,
+    vault: WrappedVaultKey,
+    expectedKeyId?: string
+): Promise<void> {
     await dynamodb.send(
         new PutCommand({
             TableName: PREFS_TABLE,
             Item: {
                 userId,
-                prefType: "emergency_contacts",
-                contacts,
+                prefType: "vault_key",
+                vault,
                 updatedAt: new Date().toISOString(),
             },
+            ...(expectedKeyId
+                ? {
+                    ConditionExpression: "vault.keyId = :keyId",
+                    ExpressionAttributeValues: { ":keyId": expectedKeyId },
+                }
+                : { ConditionExpression: "attribute_not_exists(userId)" }),
         })
     );
 }
@@ -339,12 +536,37 @@ export async function putEmergencyInfo(userId: string, info: Partial<EmergencyIn
     );
 }
 
-/** Store a Break-Glass audit log. */
+/**
+ * Store the closing Break-Glass log. Written to the audit table with the
+ * AuditLogEntry fields as well, so it shows up in the patient's access log.
+ */
 export async function putBreakGlassLog(log: BreakGlassLog): Promise<void> {
+    const entry: AuditLogEntry = {
+        logId: log.logId,
+        patientId: log.patientId,
+        action: "BREAKGLASS_EXPIRE",
+        performedBy: {
+            type: "EMERGENCY_PERSONNEL",
+            userId: log.personnelMci,
+            name: log.personnelName,
+            mciNumber: log.personnelMci,
+        },
+        timestamp: log.endedAt ?? new Date().toISOString(),
+        geoLocation: { latitude: log.geoLocation.latitude, longitude: log.geoLocation.longitude },
+        details: {
+            sessionId: log.sessionId,
+            institution: log.institution,
+            endReason: log.endReason ?? "ended",
+            accessedData: log.dataAccessed.join(","),
+            patientNotified: String(log.patientNotified),
+            emergencyContactsNotified: String(log.emergencyContactsNotified),
+        },
+        resourceId: log.sessionId,
+    };
     await dynamodb.send(
         new PutCommand({
             TableName: AUDIT_TABLE,
-            Item: { ...log, action: "BREAKGLASS_INITIATE" },
+            Item: { ...log, ...entry },
             ConditionExpression: "attribute_not_exists(logId)",
         })
     );
@@ -418,6 +640,833 @@ export async function deleteAppointment(
     );
 }
 
+/**
+ * Scheduled appointments on one date that have not been reminded yet.
+ * Scans — run from the reminder sweeper, not on request paths.
+ */
+export async function listAppointmentsDueForReminder(date: string): Promise<Appointment[]> {
+    const appointments: Appointment[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new ScanCommand({
+                TableName: APPT_TABLE,
+                FilterExpression: "appointmentDate = :date AND #s = :scheduled AND attribute_not_exists(reminderSentAt)",
+                ExpressionAttributeNames: { "#s": "status" },
+                ExpressionAttributeValues: { ":date": date, ":scheduled": "scheduled" },
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        appointments.push(...((result.Items ?? []) as Appointment[]));
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return appointments;
+}
+
+/**
+ * Claim an appointment's reminder. Conditional, so overlapping sweeps
+ * send it once.
+ * @throws ConditionalCheckFailedException if it was already claimed.
+ */
+export async function markAppointmentReminded(patientId: string, appointmentId: string): Promise<void> {
+    await dynamodb.send(
+        new UpdateCommand({
+            TableName: APPT_TABLE,
+            Key: { patientId, appointmentId },
+            UpdateExpression: "SET reminderSentAt = :now",
+            ConditionExpression: "attribute_not_exists(reminderSentAt)",
+            ExpressionAttributeValues: { ":now": new Date().toISOString() },
+        })
+    );
+}
+
+// ---- Doctor Prescriptions (plaintext RX entries, for refill reminders) ----
+
+export interface RefillCandidate {
+    patientId: string;
+    entryId: string;
+    date: string;
+    title: string;
+    medications: MedicationDetail[];
+}
+
+/**
+ * Doctor-written prescriptions dated on or after `since` that allow
+ * refills and have not been reminded. Sealed entries are invisible
+ * here by design — their medications are ciphertext.
+ */
+export async function listRefillCandidates(since: string): Promise<RefillCandidate[]> {
+    const candidates: RefillCandidate[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new ScanCommand({
+                TableName: HEALTH_RECORDS_TABLE,
+                FilterExpression:
+                    "documentType = :rx AND addedBy.#t = :doctor AND #d >= :since AND metadata.refillsAllowed > :zero AND attribute_not_exists(refillRemindedAt)",
+                ExpressionAttributeNames: { "#t": "type", "#d": "date" },
+                ExpressionAttributeValues: { ":rx": "RX", ":doctor": "DOCTOR", ":since": since, ":zero": 0 },
+                ProjectionExpression: "patientId, entryId, #d, title, metadata.medications",
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        for (const item of result.Items ?? []) {
+            candidates.push({
+                patientId: item.patientId,
+                entryId: item.entryId,
+                date: item.date,
+                title: item.title,
+                medications: item.metadata?.medications ?? [],
+            });
+        }
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return candidates;
+}
+
+/**
+ * Claim a prescription's refill reminder (once per entry).
+ * @throws ConditionalCheckFailedException if it was already claimed.
+ */
+export async function markRefillReminded(patientId: string, entryId: string): Promise<void> {
+    await dynamodb.send(
+        new UpdateCommand({
+            TableName: HEALTH_RECORDS_TABLE,
+            Key: { patientId, entryId },
+            UpdateExpression: "SET refillRemindedAt = :now",
+            ConditionExpression: "attribute_not_exists(refillRemindedAt)",
+            ExpressionAttributeValues: { ":now": new Date().toISOString() },
+        })
+    );
+}
+
+// ---- Medication Sources (server-readable entries, for course reconciliation) ----
+
+/**
+ * A patient's entries dated on or after `since`, reduced to what the
+ * medication course engine reads. Sealed entries come back without
+ * metadata — only plaintext (doctor-written, unsealed) ones contribute.
+ */
+export async function listMedicationSources(patientId: string, since: string): Promise<CourseSource[]> {
+    const sources: CourseSource[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new QueryCommand({
+                TableName: HEALTH_RECORDS_TABLE,
+                KeyConditionExpression: "patientId = :pid",
+                FilterExpression: "#d >= :since AND attribute_exists(metadata)",
+                ExpressionAttributeNames: { "#d": "date" },
+                ExpressionAttributeValues: { ":pid": patientId, ":since": since },
+                ProjectionExpression: "entryId, #d, title, metadata.medications, metadata.treatmentPlan, metadata.advice, metadata.dischargeInstructions",
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        for (const item of result.Items ?? []) {
+            sources.push({ entryId: item.entryId, date: item.date, title: item.title, metadata: item.metadata ?? {} });
+        }
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return sources;
+}
+
+/** Lab results and vitals on a patient's server-readable entries — the inputs to /api/trends. */
+export async function listTrendSources(patientId: string): Promise<TrendEntry[]> {
+    const entries: TrendEntry[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new QueryCommand({
+                TableName: HEALTH_RECORDS_TABLE,
+                KeyConditionExpression: "patientId = :pid",
+                FilterExpression: "size(metadata.labTests) > :zero OR size(metadata.vitals) > :zero",
+                ExpressionAttributeNames: { "#d": "date" },
+                ExpressionAttributeValues: { ":pid": patientId, ":zero": 0 },
+                ProjectionExpression: "entryId, #d, metadata.labTests, metadata.vitals",
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        for (const item of result.Items ?? []) {
+            entries.push({ entryId: item.entryId, date: item.date, metadata: item.metadata ?? {} });
+        }
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return entries;
+}
+
+/**
+ * Every entry with the fields the insight rules read. Sealed entries
+ * come back with only their id, date and title — still a visit on
+ * the record when checking follow-ups.
+ */
+export async function listInsightSources(patientId: string): Promise<InsightEntry[]> {
+    const entries: InsightEntry[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new QueryCommand({
+                TableName: HEALTH_RECORDS_TABLE,
+                KeyConditionExpression: "patientId = :pid",
+                ExpressionAttributeNames: { "#d": "date" },
+                ExpressionAttributeValues: { ":pid": patientId },
+                ProjectionExpression:
+                    "entryId, #d, title, doctorName, documentType, metadata.labTests, metadata.vitals, " +
+                    "metadata.followUpDate, metadata.medications, metadata.treatmentPlan, metadata.advice, " +
+                    "metadata.dischargeInstructions, metadata.allergies, metadata.modality, metadata.procedures, " +
+                    "metadata.vaccineName, metadata.doseNumber, metadata.nextDueDate",
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        for (const item of result.Items ?? []) {
+            entries.push({
+                entryId: item.entryId,
+                date: item.date,
+                title: item.title,
+                ...(item.doctorName && { doctorName: item.doctorName }),
+                ...(item.documentType && { documentType: item.documentType }),
+                metadata: item.metadata ?? {},
+            });
+        }
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return entries;
+}
+
+/** Allergies written on a patient's server-readable entries (doctor notes, unsealed scans). */
+export async function listRecordedAllergies(patientId: string): Promise<string[]> {
+    const allergies = new Set<string>();
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new QueryCommand({
+                TableName: HEALTH_RECORDS_TABLE,
+                KeyConditionExpression: "patientId = :pid",
+                FilterExpression: "size(metadata.allergies) > :zero",
+                ExpressionAttributeValues: { ":pid": patientId, ":zero": 0 },
+                ProjectionExpression: "metadata.allergies",
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        for (const item of result.Items ?? []) {
+            for (const a of item.metadata?.allergies ?? []) if (typeof a === "string" && a.trim()) allergies.add(a.trim());
+        }
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return [...allergies];
+}
+
+// ---- Notifications ----
+
+// Read or not, notifications age out after this (DynamoDB TTL)
+const NOTIFICATION_RETENTION_SECONDS = 90 * 24 * 60 * 60;
+const NOTIFICATION_PAGE_SIZE = 20;
+
+/** Store a notification for its recipient. */
+export async function putNotification(notification: AppNotification): Promise<void> {
+    await dynamodb.send(
+        new PutCommand({
+            TableName: NOTIFICATIONS_TABLE,
+            Item: {
+                ...notification,
+                ttl: Math.floor(Date.parse(notification.createdAt) / 1000) + NOTIFICATION_RETENTION_SECONDS,
+            },
+        })
+    );
+}
+
+function notificationFilter(query: Pick<NotificationQuery, "category" | "unreadOnly">) {
+    const parts: string[] = [];
+    const names: Record<string, string> = {};
+    const values: Record<string, unknown> = {};
+    if (query.category) {
+        parts.push("category = :category");
+        values[":category"] = query.category;
+    }
+    if (query.unreadOnly) {
+        parts.push("#read = :unread");
+        names["#read"] = "read";
+        values[":unread"] = false;
+    }
+    return {
+        ...(parts.length > 0 && { FilterExpression: parts.join(" AND ") }),
+        ...(Object.keys(names).length > 0 && { ExpressionAttributeNames: names }),
+        values,
+    };
+}
+
+/**
+ * One page of a user's notifications, newest first.
+ * Filters apply after DynamoDB's page limit, so this keeps reading
+ * until the page is full; the cursor is the last item returned.
+ */
+export async function queryNotifications(
+    query: NotificationQuery
+): Promise<{ notifications: AppNotification[]; cursor?: string }> {
+    const limit = query.limit || NOTIFICATION_PAGE_SIZE;
+    const { values, ...filter } = notificationFilter(query);
+    const notifications: AppNotification[] = [];
+    let startKey: Record<string, unknown> | undefined = query.cursor ? JSON.parse(query.cursor) : undefined;
+    let exhausted = false;
+
+    while (notifications.length < limit && !exhausted) {
+        const result = await dynamodb.send(
+            new QueryCommand({
+                TableName: NOTIFICATIONS_TABLE,
+                KeyConditionExpression: "userId = :userId",
+                ExpressionAttributeValues: { ":userId": query.userId, ...values },
+                ...filter,
+                ScanIndexForward: false, // Newest first
+                Limit: limit,
+                ExclusiveStartKey: startKey,
+            })
+        );
+        notifications.push(...((result.Items ?? []) as AppNotification[]));
+        startKey = result.LastEvaluatedKey;
+        exhausted = !startKey;
+    }
+
+    const page = notifications.slice(0, limit);
+    const last = page[page.length - 1];
+    const more = notifications.length > limit || !exhausted;
+    return {
+        notifications: page,
+        cursor: more && last ? JSON.stringify({ userId: last.userId, notificationId: last.notificationId }) : undefined,
+    };
+}
+
+/** Number of unread notifications for a user. */
+export async function countUnreadNotifications(userId: string): Promise<number> {
+    let count = 0;
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new QueryCommand({
+                TableName: NOTIFICATIONS_TABLE,
+                KeyConditionExpression: "userId = :userId",
+                FilterExpression: "#read = :unread",
+                ExpressionAttributeNames: { "#read": "read" },
+                ExpressionAttributeValues: { ":userId": userId, ":unread": false },
+                Select: "COUNT",
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        count += result.Count ?? 0;
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return count;
+}
+
+/** Mark notifications read. Unknown or already-read IDs are ignored. */
+export async function markNotificationsRead(userId: string, notificationIds: string[]): Promise<void> {
+    const now = new Date().toISOString();
+    await Promise.all(notificationIds.map(async (notificationId) => {
+        try {
+            await dynamodb.send(
+                new UpdateCommand({
+                    TableName: NOTIFICATIONS_TABLE,
+                    Key: { userId, notificationId },
+                    UpdateExpression: "SET #read = :read, readAt = :now",
+                    ConditionExpression: "attribute_exists(notificationId) AND #read = :unread",
+                    ExpressionAttributeNames: { "#read": "read" },
+                    ExpressionAttributeValues: { ":read": true, ":unread": false, ":now": now },
+                })
+            );
+        } catch (err) {
+            if ((err as Error).name !== "ConditionalCheckFailedException") throw err;
+        }
+    }));
+}
+
+/** Mark every unread notification read. */
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+    const ids: string[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new QueryCommand({
+                TableName: NOTIFICATIONS_TABLE,
+                KeyConditionExpression: "userId = :userId",
+                FilterExpression: "#read = :unread",
+                ExpressionAttributeNames: { "#read": "read" },
+                ExpressionAttributeValues: { ":userId": userId, ":unread": false },
+                ProjectionExpression: "notificationId",
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        ids.push(...(result.Items ?? []).map((item) => item.notificationId as string));
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    await markNotificationsRead(userId, ids);
+}
+
+// ---- Web Push (PREFS_TABLE: "push_sub#<id>", "notification_prefs", "dose_plan", "preventive_plan#<patientId>") ----
+
+const PUSH_SUB_PREFIX = "push_sub#";
+
+/** Register (or refresh) one device's push subscription. */
+export async function putPushSubscription(userId: string, subscription: StoredPushSubscription): Promise<void> {
+    await dynamodb.send(
+        new PutCommand({
+            TableName: PREFS_TABLE,
+            Item: {
+                userId,
+                prefType: `${PUSH_SUB_PREFIX}${subscription.subscriptionId}`,
+                ...subscription,
+            },
+        })
+    );
+}
+
+/** Every device the user has push enabled on. */
+export async function listPushSubscriptions(userId: string): Promise<StoredPushSubscription[]> {
+    const result = await dynamodb.send(
+        new QueryCommand({
+            TableName: PREFS_TABLE,
+            KeyConditionExpression: "userId = :userId AND begins_with(prefType, :prefix)",
+            ExpressionAttributeValues: { ":userId": userId, ":prefix": PUSH_SUB_PREFIX },
+        })
+    );
+    return (result.Items ?? []).map((item) => ({
+        subscriptionId: item.subscriptionId,
+        endpoint: item.endpoint,
+        keys: item.keys,
+        userAgent: item.userAgent,
+        createdAt: item.createdAt,
+    }));
+}
+
+export async function deletePushSubscription(userId: string, subscriptionId: string): Promise<void> {
+    await dynamodb.send(
+        new DeleteCommand({
+            TableName: PREFS_TABLE,
+            Key: { userId, prefType: `${PUSH_SUB_PREFIX}${subscriptionId}` },
+        })
+    );
+}
+
+/** Reminder switches; both default on until the user changes them. */
+export async function getNotificationPrefs(userId: string): Promise<NotificationPrefs> {
+    const result = await dynamodb.send(
+        new GetCommand({
+            TableName: PREFS_TABLE,
+            Key: { userId, prefType: "notification_prefs" },
+        })
+    );
+    return {
+        appointmentReminders: result.Item?.appointmentReminders ?? true,
+        doseReminders: result.Item?.doseReminders ?? true,
+        preventiveReminders: result.Item?.preventiveReminders ?? true,
+    };
+}
+
+export async function putNotificationPrefs(userId: string, prefs: NotificationPrefs): Promise<void> {
+    await dynamodb.send(
+        new PutCommand({
+            TableName: PREFS_TABLE,
+            Item: {
+                userId,
+                prefType: "notification_prefs",
+                ...prefs,
+                updatedAt: new Date().toISOString(),
+            },
+        })
+    );
+}
+
+/**
+ * Replace the user's dose plan. Re-registering the same day keeps the
+ * slots already reminded; a new day starts clean.
+ */
+export async function putDosePlan(userId: string, planDate: string, doses: DosePlan["doses"]): Promise<void> {
+    const now = new Date().toISOString();
+    try {
+        await dynamodb.send(
+            new UpdateCommand({
+                TableName: PREFS_TABLE,
+                Key: { userId, prefType: "dose_plan" },
+                UpdateExpression: "SET doses = :doses, updatedAt = :now",
+                ConditionExpression: "planDate = :date",
+                ExpressionAttributeValues: { ":doses": doses, ":now": now, ":date": planDate },
+            })
+        );
+    } catch (err) {
+        if ((err as Error).name !== "ConditionalCheckFailedException") throw err;
+        await dynamodb.send(
+            new PutCommand({
+                TableName: PREFS_TABLE,
+                Item: { userId, prefType: "dose_plan", planDate, doses, remindedSlots: [], updatedAt: now },
+            })
+        );
+    }
+}
+
+/** Every registered dose plan. Scans — run from the reminder sweeper only. */
+export async function listDosePlans(): Promise<(DosePlan & { userId: string })[]> {
+    const plans: (DosePlan & { userId: string })[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new ScanCommand({
+                TableName: PREFS_TABLE,
+                FilterExpression: "prefType = :dosePlan",
+                ExpressionAttributeValues: { ":dosePlan": "dose_plan" },
+                ProjectionExpression: "userId, planDate, doses, remindedSlots",
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        plans.push(...((result.Items ?? []) as (DosePlan & { userId: string })[]));
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return plans;
+}
+
+/**
+ * Claim one slot's dose reminder for the plan's day.
+ * @throws ConditionalCheckFailedException if it was already claimed
+ *         or the plan has moved on to another day.
+ */
+export async function markDoseReminded(userId: string, planDate: string, slot: string): Promise<void> {
+    await dynamodb.send(
+        new UpdateCommand({
+            TableName: PREFS_TABLE,
+            Key: { userId, prefType: "dose_plan" },
+            UpdateExpression: "SET remindedSlots = list_append(remindedSlots, :slots)",
+            ConditionExpression: "planDate = :date AND NOT contains(remindedSlots, :slot)",
+            ExpressionAttributeValues: { ":slots": [slot], ":slot": slot, ":date": planDate },
+        })
+    );
+}
+
+/**
+ * Replace the due dates registered for one patient's preventive care
+ * — the user's own, or a dependent's for a guardian. Dates already
+ * reminded stay claimed.
+ */
+export async function putPreventivePlan(
+    userId: string,
+    patientId: string,
+    dates: PreventivePlan["dates"],
+    patientName?: string
+): Promise<void> {
+    await dynamodb.send(
+        new UpdateCommand({
+            TableName: PREFS_TABLE,
+            Key: { userId, prefType: `preventive_plan#${patientId}` },
+            UpdateExpression:
+                "SET patientId = :pid, dates = :dates, remindedDates = if_not_exists(remindedDates, :none), updatedAt = :now" +
+                (patientName ? ", patientName = :name" : " REMOVE patientName"),
+            ExpressionAttributeValues: {
+                ":pid": patientId,
+                ":dates": dates,
+                ":none": [],
+                ":now": new Date().toISOString(),
+                ...(patientName && { ":name": patientName }),
+            },
+        })
+    );
+}
+
+/** Every registered preventive plan. Scans — run from the reminder sweeper only. */
+export async function listPreventivePlans(): Promise<(PreventivePlan & { userId: string })[]> {
+    const plans: (PreventivePlan & { userId: string })[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new ScanCommand({
+                TableName: PREFS_TABLE,
+                FilterExpression: "begins_with(prefType, :plan)",
+                ExpressionAttributeValues: { ":plan": "preventive_plan#" },
+                ProjectionExpression: "userId, patientId, patientName, dates, remindedDates",
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        plans.push(...((result.Items ?? []) as (PreventivePlan & { userId: string })[]));
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return plans;
+}
+
+/**
+ * Claim the reminder for one due date of a preventive plan.
+ * @throws ConditionalCheckFailedException if it was already claimed.
+ */
+export async function markPreventiveReminded(userId: string, patientId: string, dueDate: string): Promise<void> {
+    await dynamodb.send(
+        new UpdateCommand({
+            TableName: PREFS_TABLE,
+            Key: { userId, prefType: `preventive_plan#${patientId}` },
+            UpdateExpression: "SET remindedDates = list_append(remindedDates, :dates)",
+            ConditionExpression: "attribute_exists(remindedDates) AND NOT contains(remindedDates, :date)",
+            ExpressionAttributeValues: { ":dates": [dueDate], ":date": dueDate },
+        })
+    );
+}
+
+// ---- Medication Adherence ----
+
+/**
+ * Register a day's scheduled doses. Existing records keep their status,
+ * so re-registering after a dose was marked taken changes nothing.
+ */
+export async function registerDoses(records: Omit<DoseRecord, "status" | "takenAt">[]): Promise<void> {
+    await Promise.all(records.map((r) =>
+        dynamodb.send(
+            new UpdateCommand({
+                TableName: ADHERENCE_TABLE,
+                Key: { patientId: r.patientId, doseId: r.doseId },
+                UpdateExpression:
+                    "SET #date = :date, slot = :slot, medication = :medication, medKey = :medKey, " +
+                    "#status = if_not_exists(#status, :pending), recordedBy = if_not_exists(recordedBy, :by), updatedAt = :now" +
+                    (r.sourceEntryId ? ", sourceEntryId = :entry" : ""),
+                ExpressionAttributeNames: { "#date": "date", "#status": "status" },
+                ExpressionAttributeValues: {
+                    ":date": r.date,
+                    ":slot": r.slot,
+                    ":medication": r.medication,
+                    ":medKey": r.medKey,
+                    ":pending": "pending",
+                    ":by": r.recordedBy,
+                    ":now": r.updatedAt,
+                    ...(r.sourceEntryId && { ":entry": r.sourceEntryId }),
+                },
+            })
+        )
+    ));
+}
+
+/** Mark one dose taken or back to pending, creating it if it was never registered. */
+export async function setDoseStatus(
+    record: Omit<DoseRecord, "takenAt" | "sourceEntryId">
+): Promise<void> {
+    const taken = record.status === "taken";
+    await dynamodb.send(
+        new UpdateCommand({
+            TableName: ADHERENCE_TABLE,
+            Key: { patientId: record.patientId, doseId: record.doseId },
+            UpdateExpression:
+                "SET #date = :date, slot = :slot, medication = :medication, medKey = :medKey, " +
+                "#status = :status, recordedBy = :by, updatedAt = :now" +
+                (taken ? ", takenAt = :now" : " REMOVE takenAt"),
+            ExpressionAttributeNames: { "#date": "date", "#status": "status" },
+            ExpressionAttributeValues: {
+                ":date": record.date,
+                ":slot": record.slot,
+                ":medication": record.medication,
+                ":medKey": record.medKey,
+                ":status": record.status,
+                ":by": record.recordedBy,
+                ":now": record.updatedAt,
+            },
+        })
+    );
+}
+
+/** Dose records dated `from`..`to` inclusive (YYYY-MM-DD), oldest first. */
+export async function listDoseRecords(patientId: string, from: string, to: string): Promise<DoseRecord[]> {
+    const records: DoseRecord[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new QueryCommand({
+                TableName: ADHERENCE_TABLE,
+                KeyConditionExpression: "patientId = :pid AND doseId BETWEEN :from AND :to",
+                // "~" sorts after "#", so the whole of the `to` day is included
+                ExpressionAttributeValues: { ":pid": patientId, ":from": from, ":to": `${to}~` },
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        records.push(...((result.Items ?? []) as DoseRecord[]));
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return records;
+}
+
+/** Date of the patient's earliest dose record — when they started tracking — or null. */
+export async function firstDoseDate(patientId: string): Promise<string | null> {
+    const result = await dynamodb.send(
+        new QueryCommand({
+            TableName: ADHERENCE_TABLE,
+            KeyConditionExpression: "patientId = :pid",
+            ExpressionAttributeNames: { "#date": "date" },
+            ExpressionAttributeValues: { ":pid": patientId },
+            ProjectionExpression: "#date",
+            Limit: 1,
+        })
+    );
+    return (result.Items?.[0]?.date as string | undefined) ?? null;
+}
+
+// ---- Health Insights ----
+
+/**
+ * Create or refresh an insight. The same insightId updates the text,
+ * severity and cited entries but keeps its read/dismissed state and
+ * when it was first raised.
+ */
+export async function upsertInsight(insight: HealthInsight): Promise<void> {
+    await dynamodb.send(
+        new UpdateCommand({
+            TableName: INSIGHTS_TABLE,
+            Key: { patientId: insight.patientId, insightId: insight.insightId },
+            UpdateExpression:
+                "SET #type = :type, title = :title, description = :description, severity = :severity, " +
+                "relatedEntryIds = :entries, dataPoints = :points, updatedAt = :now, " +
+                "generatedAt = if_not_exists(generatedAt, :generated), " +
+                "isRead = if_not_exists(isRead, :false), isDismissed = if_not_exists(isDismissed, :false)" +
+                (insight.phrasedFrom ? ", phrasedFrom = :phrasedFrom" : " REMOVE phrasedFrom"),
+            ExpressionAttributeNames: { "#type": "type" },
+            ExpressionAttributeValues: {
+                ":type": insight.type,
+                ":title": insight.title,
+                ":description": insight.description,
+                ":severity": insight.severity,
+                ":entries": insight.relatedEntryIds,
+                ":points": insight.dataPoints,
+                ":now": new Date().toISOString(),
+                ":generated": insight.generatedAt,
+                ":false": false,
+                ...(insight.phrasedFrom && { ":phrasedFrom": insight.phrasedFrom }),
+            },
+        })
+    );
+}
+
+/** Mark insights read or dismissed. Ids that aren't stored are skipped, not created. */
+export async function setInsightState(patientId: string, insightIds: string[], state: "isRead" | "isDismissed"): Promise<void> {
+    await Promise.all(insightIds.map(async (insightId) => {
+        try {
+            await dynamodb.send(
+                new UpdateCommand({
+                    TableName: INSIGHTS_TABLE,
+                    Key: { patientId, insightId },
+                    UpdateExpression: "SET #state = :true, updatedAt = :now",
+                    ConditionExpression: "attribute_exists(insightId)",
+                    ExpressionAttributeNames: { "#state": state },
+                    ExpressionAttributeValues: { ":true": true, ":now": new Date().toISOString() },
+                })
+            );
+        } catch (err) {
+            if ((err as { name?: string }).name !== "ConditionalCheckFailedException") throw err;
+        }
+    }));
+}
+
+/** Remove insights whose finding no longer holds. */
+export async function deleteInsights(patientId: string, insightIds: string[]): Promise<void> {
+    await Promise.all(insightIds.map((insightId) =>
+        dynamodb.send(new DeleteCommand({ TableName: INSIGHTS_TABLE, Key: { patientId, insightId } }))
+    ));
+}
+
+/** A patient's insights, dismissed ones excluded unless asked for. */
+export async function listInsights(patientId: string, includeDismissed = false): Promise<HealthInsight[]> {
+    const insights: HealthInsight[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new QueryCommand({
+                TableName: INSIGHTS_TABLE,
+                KeyConditionExpression: "patientId = :pid",
+                ...(includeDismissed
+                    ? { ExpressionAttributeValues: { ":pid": patientId } }
+                    : { FilterExpression: "isDismissed = :false", ExpressionAttributeValues: { ":pid": patientId, ":false": false } }),
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        insights.push(...((result.Items ?? []) as HealthInsight[]));
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return insights;
+}
+
+// ---- Assistant Conversations ----
+
+/** Conversations are keyed by who asks and about whom, so each asker only ever sees their own */
+function conversationOwner(userId: string, patientId: string): string {
+    return `${userId}#${patientId}`;
+}
+
+export async function getConversation(userId: string, patientId: string, conversationId: string): Promise<ChatConversation | null> {
+    const result = await dynamodb.send(
+        new GetCommand({
+            TableName: CONVERSATIONS_TABLE,
+            Key: { ownerKey: conversationOwner(userId, patientId), conversationId },
+            ProjectionExpression: "conversationId, userId, patientId, title, messages, startedAt, lastMessageAt",
+        })
+    );
+    return (result.Item as ChatConversation | undefined) ?? null;
+}
+
+/** A user's conversations about one patient, most recent first, without their messages. */
+export async function listConversations(userId: string, patientId: string): Promise<ConversationSummary[]> {
+    const conversations: ConversationSummary[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new QueryCommand({
+                TableName: CONVERSATIONS_TABLE,
+                KeyConditionExpression: "ownerKey = :owner",
+                ExpressionAttributeValues: { ":owner": conversationOwner(userId, patientId) },
+                ProjectionExpression: "conversationId, userId, patientId, title, startedAt, lastMessageAt, messageCount",
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        conversations.push(...((result.Items ?? []) as ConversationSummary[]));
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return conversations.sort((a, b) => b.lastMessageAt.localeCompare(a.lastMessageAt));
+}
+
+/**
+ * Store a conversation's messages. The title is set only when it is
+ * new, so a rename made meanwhile is kept.
+ */
+export async function saveConversation(conversation: ChatConversation): Promise<void> {
+    await dynamodb.send(
+        new UpdateCommand({
+            TableName: CONVERSATIONS_TABLE,
+            Key: { ownerKey: conversationOwner(conversation.userId, conversation.patientId), conversationId: conversation.conversationId },
+            UpdateExpression:
+                "SET userId = :user, patientId = :pid, messages = :messages, messageCount = :count, lastMessageAt = :last, " +
+                "startedAt = if_not_exists(startedAt, :started), title = if_not_exists(title, :title)",
+            ExpressionAttributeValues: {
+                ":user": conversation.userId,
+                ":pid": conversation.patientId,
+                ":messages": conversation.messages,
+                ":count": conversation.messages.length,
+                ":last": conversation.lastMessageAt,
+                ":started": conversation.startedAt,
+                ":title": conversation.title,
+            },
+        })
+    );
+}
+
+/**
+ * Rename a conversation.
+ * @throws ConditionalCheckFailedException if it doesn't exist.
+ */
+export async function renameConversation(userId: string, patientId: string, conversationId: string, title: string): Promise<void> {
+    await dynamodb.send(
+        new UpdateCommand({
+            TableName: CONVERSATIONS_TABLE,
+            Key: { ownerKey: conversationOwner(userId, patientId), conversationId },
+            UpdateExpression: "SET title = :title",
+            ConditionExpression: "attribute_exists(conversationId)",
+            ExpressionAttributeValues: { ":title": title },
+        })
+    );
+}
+
+export async function deleteConversation(userId: string, patientId: string, conversationId: string): Promise<void> {
+    await dynamodb.send(
+        new DeleteCommand({
+            TableName: CONVERSATIONS_TABLE,
+            Key: { ownerKey: conversationOwner(userId, patientId), conversationId },
+        })
+    );
+}
+
 // ---- Checkup History ----
 
 export interface CheckupEntry {
@@ -457,3 +1506,76 @@ export async function getCheckupHistory(
     );
     return (result.Items || []) as CheckupEntry[];
 }
+
+// ---- Account Deletion ----
+
+/** Every key in one partition, across pages. */
+async function partitionKeys(
+    table: string,
+    partitionKey: string,
+    sortKey: string,
+    value: string,
+    indexName?: string
+): Promise<Record<string, unknown>[]> {
+    const keys: Record<string, unknown>[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new QueryCommand({
+                TableName: table,
+                IndexName: indexName,
+                KeyConditionExpression: "#pk = :value",
+                ExpressionAttributeNames: { "#pk": partitionKey, "#sk": sortKey },
+                ExpressionAttributeValues: { ":value": value },
+                ProjectionExpression: "#pk, #sk",
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        keys.push(...(result.Items ?? []));
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+    return keys;
+}
+
+async function deleteKeys(table: string, keys: Record<string, unknown>[]): Promise<void> {
+    await Promise.all(keys.map((Key) => dynamodb.send(new DeleteCommand({ TableName: table, Key }))));
+}
+
+/**
+ * Remove everything stored for a patient outside their health records:
+ * preferences (wrapped vault key, push subscriptions, reminder plans,
+ * guardian links, access requests), access grants and the keys wrapped
+ * into them, notifications, dose records, insights, and every assistant
+ * conversation about them — whoever asked. Audit logs are immutable and
+ * stay.
+ */
+export async function deleteAccountData(patientId: string): Promise<void> {
+    const grantKeys = (await partitionKeys(ACCESS_TABLE, "patientId", "grantId", patientId, "patientId-index"))
+        .map(({ grantId }) => ({ grantId }));
+
+    // Conversations are keyed by asker, so guardians' and doctors' ones are found by scanning
+    const conversationKeys: Record<string, unknown>[] = [];
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+        const result = await dynamodb.send(
+            new ScanCommand({
+                TableName: CONVERSATIONS_TABLE,
+                FilterExpression: "patientId = :pid OR userId = :pid",
+                ExpressionAttributeValues: { ":pid": patientId },
+                ProjectionExpression: "ownerKey, conversationId",
+                ExclusiveStartKey: lastKey,
+            })
+        );
+        conversationKeys.push(...(result.Items ?? []));
+        lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    await Promise.all([
+        partitionKeys(PREFS_TABLE, "userId", "prefType", patientId).then((keys) => deleteKeys(PREFS_TABLE, keys)),
+        deleteKeys(ACCESS_TABLE, grantKeys),
+        partitionKeys(NOTIFICATIONS_TABLE, "userId", "notificationId", patientId).then((keys) => deleteKeys(NOTIFICATIONS_TABLE, keys)),
+        partitionKeys(ADHERENCE_TABLE, "patientId", "doseId", patientId).then((keys) => deleteKeys(ADHERENCE_TABLE, keys)),
+        partitionKeys(INSIGHTS_TABLE, "patientId", "insightId", patientId).then((keys) => deleteKeys(INSIGHTS_TABLE, keys)),
+        deleteKeys(CONVERSATIONS_TABLE, conversationKeys),
+    ]);
+}
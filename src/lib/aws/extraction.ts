@@ -1,164 +1,31 @@
 // ============================================================
 // Document Extraction Service — Deep Multi-Type Parser
-// Textract OCR → Comprehend Medical (with attributes) →
-// document-type-specific regex parsers → RAG summary
+// Vision titling → OCR → medical NER → document-type-specific
+// regex parsers → RAG summary. The three engines come from
+// lib/extraction: Bedrock/Textract/Comprehend Medical by default,
+// or Tesseract and rule-based NER with EXTRACTION_PROVIDER=local.
+// Multi-page uploads (several photos, or a PDF split into
+// single pages) are read page by page and merged into one
+// EntryMetadata.
 // ============================================================
 
-import {
-    TextractClient,
-    DetectDocumentTextCommand,
-    type Block,
-} from "@aws-sdk/client-textract";
-import {
-    ComprehendMedicalClient,
-    DetectEntitiesV2Command,
-    type Entity,
-} from "@aws-sdk/client-comprehendmedical";
-import {
-    BedrockRuntimeClient,
-    ConverseCommand,
-} from "@aws-sdk/client-bedrock-runtime";
 import type {
     DocumentTypeTag,
     EntryMetadata,
-    MedicationDetail,
     LabTestResult,
 } from "../types/timeline";
 import sharp from "sharp";
+import { PDFDocument } from "pdf-lib";
+import {
+    emptyEntities,
+    getExtractionProviders,
+    type MedicalEntities,
+    type SourcePage,
+} from "../extraction";
+import { medicationKey, normalizeMedications } from "../medications";
+import { findAnalyte, normalizeLabResults, type LabDemographics } from "../labs";
 
-const region = process.env.NEXT_PUBLIC_AWS_REGION || "ap-south-1";
-
-const creds =
-    process.env.APP_AWS_ACCESS_KEY_ID && process.env.APP_AWS_SECRET_ACCESS_KEY
-        ? {
-            credentials: {
-                accessKeyId: process.env.APP_AWS_ACCESS_KEY_ID,
-                secretAccessKey: process.env.APP_AWS_SECRET_ACCESS_KEY,
-            },
-        }
-        : {};
-
-const textractClient = new TextractClient({ region, ...creds });
-
-// Comprehend Medical is only available in certain regions
-const cmRegion = ["us-east-1", "us-east-2", "us-west-2", "eu-west-1", "ap-southeast-2"].includes(region)
-    ? region
-    : "us-east-1";
-const comprehendClient = new ComprehendMedicalClient({ region: cmRegion, ...creds });
-
-// Kimi K2.5 — vision-capable model for document/image analysis
-const bedrockRegion = ["us-east-1", "us-west-2"].includes(region) ? region : "us-east-1";
-const VISION_MODEL = process.env.KIMI_BEDROCK_MODEL?.trim() || "moonshotai.kimi-k2.5";
-// Keep Nova Pro as fallback if Kimi vision fails
-const FALLBACK_VISION_MODEL = process.env.BEDROCK_MODEL_ID?.trim() || "us.amazon.nova-pro-v1:0";
-const bedrockClient = new BedrockRuntimeClient({ region: bedrockRegion, ...creds });
-let bedrockVisionDisabledReason: string | null =
-    process.env.DISABLE_BEDROCK_VISION === "true" ? "Disabled by DISABLE_BEDROCK_VISION" : null;
-
-// ── Bedrock Vision — clinical image analysis ────────────────────────
-
-interface VisionAnalysis {
-    documentCategory: 'scan' | 'document' | 'unknown'; // is this a medical imaging scan or a text document?
-    modality?: string;   // X-Ray, MRI, CT Scan, Ultrasound, etc.
-    bodyPart?: string;   // Chest, Abdomen, Right Knee, Brain, etc.
-    findings?: string;   // Visible pathology or normal
-    impression?: string; // One-line clinical summary
-    prescriptionText?: string;       // Full handwritten text reading for prescriptions
-    extractedMedications?: string[]; // Medications extracted by vision model
-    title: string;       // e.g. "Chest X-Ray – Bilateral Pleural Effusion (Fluid Around Lungs)"
-}
-
-async function analyzeImageWithBedrock(jpegBytes: Buffer): Promise<VisionAnalysis | null> {
-    if (bedrockVisionDisabledReason) return null;
-
-    const prompt = `You are an expert Indian medical document reader with decades of experience reading doctor handwriting, prescriptions, lab reports, hospital records, and medical imaging scans.
-
-Look at this image carefully. First determine what kind of document this is, then extract every detail.
-
-IMPORTANT RULES FOR PRESCRIPTIONS & HANDWRITTEN DOCUMENTS:
-- Indian doctors often write in cursive English or mixed Hindi-English (Hinglish).
-- Common abbreviations: OD = once daily, BD = twice daily, TDS = three times a day, QID = four times daily, SOS = as needed, HS = at bedtime, AC = before food, PC = after food, stat = immediately.
-- Tab = Tablet, Cap = Capsule, Inj = Injection, Syr = Syrup, Oint = Ointment.
-- Read medications character by character if handwriting is unclear. Guess the most likely drug name.
-- Look for Rx symbol (℞) which marks the start of prescriptions.
-- Extract ALL medications, dosages, frequencies, and duration even if partially legible.
-
-Respond ONLY with a valid JSON object (no markdown fences, no explanation):
-{
-  "documentCategory": "<scan|document|unknown>",
-  "modality": "<X-Ray|MRI|CT Scan|Ultrasound|PET Scan|Mammogram|Echo|Other — null if not a scan>",
-  "bodyPart": "<specific body region, e.g. Chest, Right Knee, Brain — null if not a scan>",
-  "findings": "<clinical description of visible pathology — null if not a scan>",
-  "impression": "<one-sentence clinical impression — null if not a scan>",
-  "prescriptionText": "<for prescriptions/handwritten docs: your best reading of ALL handwritten text, line by line, preserving medication names, dosages, and instructions exactly as written — null if not applicable>",
-  "extractedMedications": ["<med1 name dosage frequency duration>", "<med2 ...>"],
-  "title": "<descriptive title: for scans use 'Modality BodyPart – Finding (Plain English)' e.g. 'Chest X-Ray – Bilateral Pleural Effusion (Fluid Around Lungs)'; for prescriptions use 'Prescription – Dr. Name – keyMeds' e.g. 'Prescription – Dr. Sharma – Metformin, Amlodipine'; for lab reports use 'Lab Report – testNames' e.g. 'Lab Report – CBC, Lipid Panel'; for other docs describe the content>"
-}
-Always include a title. Read every word and number you can see.`;
-
-    // Try Kimi K2.5 first, fall back to Nova Pro
-    for (const modelId of [VISION_MODEL, FALLBACK_VISION_MODEL]) {
-        try {
-            const abort = new AbortController();
-            const timer = setTimeout(() => abort.abort(), 15_000);
-            let res;
-            try {
-                res = await bedrockClient.send(
-                    new ConverseCommand({
-                        modelId,
-                        messages: [
-                            {
-                                role: "user",
-                                content: [
-                                    {
-                                        image: {
-                                            format: "jpeg",
-                                            source: { bytes: jpegBytes },
-                                        },
-                                    },
-                                    { text: prompt },
-                                ],
-                            },
-                        ],
-                        inferenceConfig: { maxTokens: 1024, temperature: 0.1 },
-                    }),
-                    { abortSignal: abort.signal }
-                );
-            } finally {
-                clearTimeout(timer);
-            }
-
-            const content =
-                res.output?.message?.content
-                    ?.map((b) => ("text" in b ? b.text ?? "" : ""))
-                    .join("") ?? "";
-
-            // Strip any accidental markdown fences
-            const jsonStr = content.replace(/```json\n?|```/g, "").trim();
-            const vision: VisionAnalysis = JSON.parse(jsonStr);
-            console.info(`[Bedrock vision] ${modelId} succeeded`);
-            return vision;
-        } catch (e) {
-            const message = (e as Error).message ?? "Unknown Bedrock error";
-
-            // Circuit breaker for account/subscription issues
-            if (
-                /INVALID_PAYMENT_INSTRUMENT|AWS Marketplace subscription|Model access is denied|Access denied/i.test(message)
-            ) {
-                // Only disable globally if BOTH models fail with access issues
-                if (modelId === FALLBACK_VISION_MODEL) {
-                    bedrockVisionDisabledReason = message;
-                    console.warn("[Bedrock vision] disabled for this server session:", message);
-                }
-            }
-
-            console.warn(`[Bedrock vision] ${modelId} failed:`, message);
-            // Continue to fallback model
-        }
-    }
-
-    return null;
-}
+export type { SourcePage } from "../extraction";
 
 // ── Public result type ───────────────────────────────────────────────
 
@@ -180,115 +47,58 @@ async function toJpegBuffer(imageBytes: Buffer): Promise<Buffer> {
         .toBuffer();
 }
 
-/**
- * Textract DetectDocumentText Bytes limit is 5 MB.
- * Progressively reduce quality / resolution until the buffer fits.
- */
-async function toTextractBuffer(imageBytes: Buffer): Promise<Buffer> {
-    const MAX_BYTES = 4.5 * 1024 * 1024; // 4.5 MB — leave margin below 5 MB
-    const steps: Array<{ width: number; quality: number }> = [
-        { width: 2400, quality: 85 },
-        { width: 2000, quality: 75 },
-        { width: 1600, quality: 65 },
-        { width: 1200, quality: 55 },
-        { width: 900,  quality: 45 },
-    ];
-    for (const { width, quality } of steps) {
-        const buf = await sharp(imageBytes)
-            .resize({ width, height: Math.round(width * 1.5), fit: "inside", withoutEnlargement: true })
-            .jpeg({ quality })
-            .toBuffer();
-        if (buf.byteLength <= MAX_BYTES) return buf;
-    }
-    // Last resort: tiny thumbnail — OCR quality is poor but won't crash Textract
-    return sharp(imageBytes).resize({ width: 800 }).jpeg({ quality: 40 }).toBuffer();
-}
-
+/** OCR a single photo with the configured engine. */
 export async function extractTextFromImage(imageBytes: Buffer): Promise<string> {
-    const jpegBytes = await toTextractBuffer(imageBytes);
-    const result = await textractClient.send(
-        new DetectDocumentTextCommand({ Document: { Bytes: jpegBytes } })
-    );
-    const blocks: Block[] = result.Blocks ?? [];
-    return blocks
-        .filter((b) => b.BlockType === "LINE" && b.Text)
-        .map((b) => b.Text as string)
-        .join("\n");
+    return getExtractionProviders().ocr.extractText({ bytes: imageBytes, format: "image" });
 }
 
-// ── Comprehend Medical — enriched entity extraction ──────────────────
+// ── Multi-page input ─────────────────────────────────────────────────
 
-interface ComprehendResult {
-    medications: MedicationDetail[];
-    diagnoses: string[];
-    labEntities: string[];   // raw test/procedure names from Comprehend
-    allergies: string[];
-    entities: Entity[];      // raw for further processing
+/**
+ * Split a PDF into single-page PDFs — Textract's synchronous API
+ * rejects multi-page documents, and the original is never staged in S3
+ * for the async one.
+ */
+export async function splitPdfPages(pdfBytes: Buffer): Promise<Buffer[]> {
+    const source = await PDFDocument.load(pdfBytes);
+    const pages: Buffer[] = [];
+    for (const index of source.getPageIndices()) {
+        const single = await PDFDocument.create();
+        const [page] = await single.copyPages(source, [index]);
+        single.addPage(page);
+        pages.push(Buffer.from(await single.save()));
+    }
+    return pages;
 }
 
-async function runComprehend(text: string): Promise<ComprehendResult> {
-    const truncated = text.slice(0, 19500);
-    try {
-        const result = await comprehendClient.send(
-            new DetectEntitiesV2Command({ Text: truncated })
-        );
-        const entities: Entity[] = result.Entities ?? [];
-
-        const medications: MedicationDetail[] = [];
-        const diagnoses: string[] = [];
-        const labEntities: string[] = [];
-        const allergies: string[] = [];
-
-        for (const entity of entities) {
-            if (!entity.Text || (entity.Score ?? 0) < 0.65) continue;
-
-            switch (entity.Category) {
-                case "MEDICATION": {
-                    const med: MedicationDetail = { name: entity.Text };
-                    for (const attr of entity.Attributes ?? []) {
-                        if (!attr.Text) continue;
-                        switch (attr.Type) {
-                            case "DOSAGE": med.dosage = attr.Text; break;
-                            case "FREQUENCY": med.frequency = attr.Text; break;
-                            case "DURATION": med.duration = attr.Text; break;
-                            case "ROUTE_OR_MODE": med.route = attr.Text; break;
-                            case "FORM": if (!med.dosage) med.dosage = attr.Text; break;
-                        }
-                    }
-                    if (!medications.some(m => m.name.toLowerCase() === med.name.toLowerCase())) {
-                        medications.push(med);
-                    }
-                    break;
-                }
-                case "MEDICAL_CONDITION":
-                    if (!diagnoses.includes(entity.Text)) diagnoses.push(entity.Text);
-                    break;
-                case "TEST_TREATMENT_PROCEDURE":
-                    if (!labEntities.includes(entity.Text)) labEntities.push(entity.Text);
-                    break;
-                case "PROTECTED_HEALTH_INFORMATION":
-                    // skip names/dates from PHI
-                    break;
-            }
+/** Join per-page OCR; page markers only appear when there is more than one page. */
+function joinPages(pageTexts: string[]): string {
+    if (pageTexts.length === 1) return pageTexts[0];
+    return pageTexts.map((text, i) => `--- Page ${i + 1} ---\n${text}`).join("\n\n");
+}
 
-            // Check traits for allergy
-            if (entity.Traits?.some(t => t.Name === "NEGATION" || t.Name === "HYPOTHETICAL")) continue;
-            if (entity.Category === "MEDICATION" && entity.Traits?.some(t => t.Name === "PAST_HISTORY")) {
-                // could be allergy context — handled below
-            }
-        }
+// ── Medical entities ─────────────────────────────────────────────────
 
-        // Allergy detection heuristic
-        const allergySection = text.match(/allerg[yi][^\n]{0,200}/gi) ?? [];
-        for (const chunk of allergySection) {
-            const words = chunk.replace(/allerg[yi]/i, "").trim().split(/[\s,;]+/);
-            allergies.push(...words.filter(w => w.length > 2).slice(0, 5));
+/**
+ * NER per page (each page gets the engine's full text budget instead of
+ * the document being truncated), merged with duplicates dropped.
+ */
+async function detectEntitiesPages(pageTexts: string[]): Promise<MedicalEntities> {
+    const { ner } = getExtractionProviders();
+    if (pageTexts.length === 1) return ner.detectEntities(pageTexts[0]);
+
+    const merged = emptyEntities();
+    for (const text of pageTexts) {
+        if (text.trim().length < 20) continue;
+        const page = await ner.detectEntities(text);
+        for (const med of page.medications) {
+            if (!merged.medications.some(m => m.name.toLowerCase() === med.name.toLowerCase())) merged.medications.push(med);
         }
-
-        return { medications, diagnoses, labEntities, allergies: [...new Set(allergies)], entities };
-    } catch {
-        return { medications: [], diagnoses: [], labEntities: [], allergies: [], entities: [] };
+        merged.diagnoses.push(...page.diagnoses.filter(d => !merged.diagnoses.includes(d)));
+        merged.labEntities.push(...page.labEntities.filter(l => !merged.labEntities.includes(l)));
+        merged.allergies.push(...page.allergies.filter(a => !merged.allergies.includes(a)));
     }
+    return merged;
 }
 
 // ── Classification ───────────────────────────────────────────────────
@@ -362,7 +172,7 @@ const RULES: Array<{ type: DocumentTypeTag; patterns: RegExp[] }> = [
     },
 ];
 
-function classify(text: string, cm: ComprehendResult, filename = ""): ClassifyResult {
+function classify(text: string, cm: MedicalEntities, filename = ""): ClassifyResult {
     const scores: Partial<Record<DocumentTypeTag, number>> = {};
 
     for (const rule of RULES) {
@@ -398,12 +208,41 @@ function classify(text: string, cm: ComprehendResult, filename = ""): ClassifyRe
 
 // ── Document-type-specific deep parsers ─────────────────────────────
 
+/**
+ * Lab results page by page, so a row never runs across a page break.
+ * Rows repeated on continuation pages (same test, same value) are kept once.
+ */
+function parseLabResultPages(pageTexts: string[]): LabTestResult[] {
+    const results: LabTestResult[] = [];
+    pageTexts.forEach((text, i) => {
+        for (const row of parseLabResults(text)) {
+            const seen = results.some(r => r.name.toLowerCase() === row.name.toLowerCase() && r.value === row.value);
+            if (!seen) results.push(pageTexts.length > 1 ? { ...row, page: i + 1 } : row);
+        }
+    });
+    return results;
+}
+
+// Units as labs print them — longest first so "mg/dL" isn't read as "mg".
+// lib/labs converts whichever one was used to the test's canonical unit.
+const LAB_UNITS = [
+    "mL\\/min\\/1\\.73\\s?m(?:2|²)", "mmol\\/mol", "mmol\\/L", "µmol\\/L", "umol\\/L", "nmol\\/L", "pmol\\/L", "mEq\\/L",
+    "g\\/dL", "mg\\/dL", "µg\\/dL", "ug\\/dL", "mcg\\/dL", "ng\\/dL", "mg\\/L", "µg\\/L", "ug\\/L", "g\\/L",
+    "ng\\/mL", "pg\\/mL", "µIU\\/mL", "uIU\\/mL", "mIU\\/L", "IU\\/L", "U\\/L",
+    "(?:x|×)\\s?10\\^?[369³⁶]\\s?\\/\\s?(?:µL|uL|L|cumm)", "(?:x|×)\\s?10\\^?[369³⁶]",
+    "(?:lakhs?|lacs?|mill(?:ion)?s?|cells)\\s?\\/\\s?(?:cumm|µL|uL)", "\\/cumm", "\\/µL",
+    "mm\\/1st\\s?hr", "mm\\/hr?", "mL\\/min", "fL", "pg", "%",
+].join("|");
+
 /** Extract lab test results from raw text lines */
 function parseLabResults(text: string): LabTestResult[] {
     const results: LabTestResult[] = [];
     // Pattern: "Test Name   value  unit  (range)"
-    // e.g. "Hemoglobin  13.2  g/dL  (13.0-17.0)"
-    const pattern = /([A-Za-z][A-Za-z0-9 \-\/()]{2,40})\s{2,}(\d[\d.]*)\s*(g\/dL|mg\/dL|U\/L|mmol\/L|mEq\/L|%|g\/L|x10\^3|x10\^6|IU\/L|ng\/mL|pg\/mL|µg\/dL|µIU\/mL|mL\/min|fL|pg|mm\/hr)?\s*(?:[(\[]?([\d.]+\s*[-–]\s*[\d.]+)[)\]]?)?/gm;
+    // e.g. "Hemoglobin  13.2  g/dL  (13.0-17.0)", "Cholesterol  212  mg/dL  < 200"
+    const pattern = new RegExp(
+        `([A-Za-z][A-Za-z0-9 \\-\\/()]{2,40})\\s{2,}(\\d[\\d.]*)\\s*(${LAB_UNITS})?\\s*(?:[(\\[]?([\\d.]+\\s*[-–]\\s*[\\d.]+|[<>≤≥]\\s*[\\d.]+)[)\\]]?)?`,
+        "gmi"
+    );
     let m: RegExpExecArray | null;
     while ((m = pattern.exec(text)) !== null) {
         const name = m[1].trim();
@@ -413,17 +252,25 @@ function parseLabResults(text: string): LabTestResult[] {
 
         // Determine status from reference range
         let status: LabTestResult["status"];
-        if (referenceRange && value) {
-            const [low, high] = referenceRange.split(/[-–]/).map(Number);
-            const val = parseFloat(value);
-            if (!isNaN(val) && !isNaN(low) && !isNaN(high)) {
-                if (val < low) status = "Low";
-                else if (val > high) status = "High";
-                else status = "Normal";
+        const val = parseFloat(value);
+        if (referenceRange && !isNaN(val)) {
+            const bound = referenceRange.match(/^([<>≤≥])\s*([\d.]+)$/);
+            if (bound) {
+                const limit = Number(bound[2]);
+                const upper = bound[1] === "<" || bound[1] === "≤";
+                status = upper ? (val > limit ? "High" : "Normal") : (val < limit ? "Low" : "Normal");
+            } else {
+                const [low, high] = referenceRange.split(/[-–]/).map(Number);
+                if (!isNaN(low) && !isNaN(high)) {
+                    if (val < low) status = "Low";
+                    else if (val > high) status = "High";
+                    else status = "Normal";
+                }
             }
         }
 
-        if (name.length > 3 && name.length < 50 && value) {
+        // Short names only when they're a known test ("TSH", "ESR", "TLC")
+        if ((name.length > 3 || findAnalyte(name)) && name.length < 50 && value) {
             results.push({ name, value, unit, referenceRange, status });
         }
     }
@@ -570,7 +417,7 @@ function extractNamedEntities(text: string) {
 
 /**
  * Derive a plain-English finding hint from impression/findings text.
- * Used as fallback when Bedrock vision is unavailable.
+ * Used as fallback when vision titling is unavailable.
  * e.g. "no fracture" → "No Fracture", "pleural effusion" → "Pleural Effusion (Fluid Around Lungs)"
  */
 function imagingFindingHint(text: string): string | undefined {
@@ -640,7 +487,7 @@ function buildTitle(
 function buildSummary(
     docType: DocumentTypeTag,
     namedEntities: ReturnType<typeof extractNamedEntities>,
-    cm: ComprehendResult,
+    cm: MedicalEntities,
     meta: Partial<EntryMetadata>
 ): string {
     const parts: string[] = [];
@@ -653,7 +500,7 @@ function buildSummary(
         if (cm.diagnoses.length) parts.push(`Diagnosis: ${cm.diagnoses.join(", ")}.`);
         if (cm.medications.length) {
             const medSummary = cm.medications.map(m =>
-                [m.name, m.dosage, m.frequency, m.duration].filter(Boolean).join(" ")
+                [m.name, m.generic && `(${m.generic})`, m.dosage, m.frequency, m.duration].filter(Boolean).join(" ")
             ).join("; ");
             parts.push(`Medications: ${medSummary}.`);
         }
@@ -692,35 +539,68 @@ function buildSummary(
 
 // ── Main entry point ─────────────────────────────────────────────────
 
-export async function analyzeDocument(imageBytes: Buffer, filename = ""): Promise<ExtractionResult> {
-    // 0. Run Bedrock vision analysis FIRST for ALL images before OCR.
+export async function analyzeDocument(imageBytes: Buffer, filename = "", patient: LabDemographics = {}): Promise<ExtractionResult> {
+    return analyzeDocumentPages([{ bytes: imageBytes, format: "image" }], filename, patient);
+}
+
+/**
+ * Analyse an ordered set of pages as one document. `patient` picks the
+ * default reference ranges for lab results printed without one.
+ */
+export async function analyzeDocumentPages(pages: SourcePage[], filename = "", patient: LabDemographics = {}): Promise<ExtractionResult> {
+    if (pages.length === 0) throw new Error("EXTRACTION_EMPTY: No pages to analyse");
+
+    const { ocr, vision } = getExtractionProviders();
+
+    // 0. Run vision analysis FIRST, before OCR, on the first photo.
     //    This lets us detect medical scans early, produce descriptive clinical titles,
     //    and avoid mis-classifying scans that have little extractable text.
-    const jpegBytesForVision = await toJpegBuffer(imageBytes);
-    const visionEarly = await analyzeImageWithBedrock(jpegBytesForVision);
+    //    PDFs have no photo to look at and go straight to OCR.
+    const firstImage = pages.find((p) => p.format === "image");
+    const visionEarly = firstImage
+        ? await vision.analyzeImage(await toJpegBuffer(firstImage.bytes))
+        : null;
     const visionDetectedScan = visionEarly?.documentCategory === "scan" && !!visionEarly.modality;
 
-    // 1. OCR (still run for all types — needed for text-based documents)
-    let rawText = await extractTextFromImage(imageBytes);
+    // 1. OCR every page (still run for all types — needed for text-based documents).
+    //    Sequential: Textract's sync API is rate limited per account, and
+    //    the local engine shares one Tesseract worker.
+    const pageTexts: string[] = [];
+    for (const page of pages) pageTexts.push(await ocr.extractText(page));
 
     // 1b. Supplement OCR with vision model's prescription text reading.
     //     Kimi K2.5 is far better at reading handwritten prescriptions than Textract.
-    //     If the vision model read the document, append its reading for Comprehend to process.
-    if (visionEarly?.prescriptionText && visionEarly.documentCategory === "document") {
+    //     If the vision model read the document, append its reading for NER to process.
+    if (visionEarly?.prescriptionText && visionEarly.documentCategory === "document" && firstImage) {
+        const visionPage = pages.indexOf(firstImage);
+        const ocrText = pageTexts[visionPage];
         const visionText = visionEarly.prescriptionText.trim();
-        if (visionText.length > rawText.trim().length * 0.5) {
+        if (visionText.length > ocrText.trim().length * 0.5) {
             // Vision model read significantly more content — merge with OCR output
-            rawText = rawText.trim()
-                ? `${rawText}\n\n--- AI-Read Content ---\n${visionText}`
+            pageTexts[visionPage] = ocrText.trim()
+                ? `${ocrText}\n\n--- AI-Read Content ---\n${visionText}`
                 : visionText;
         }
     }
+    const rawText = joinPages(pageTexts);
 
-    // 2. Comprehend Medical — skip if OCR is blank (raw scan image)
-    const looksLikeRawScan = rawText.trim().length < 80;
+    // 2. Medical NER — skip if OCR is blank (raw scan image)
+    const looksLikeRawScan = pageTexts.join("").trim().length < 80;
     const cm = looksLikeRawScan
-        ? { medications: [], diagnoses: [], labEntities: [], allergies: [], entities: [] }
-        : await runComprehend(rawText);
+        ? emptyEntities()
+        : await detectEntitiesPages(pageTexts);
+
+    // 2b. Brand names and OCR misreadings → generic, strength and form
+    //     (the text as read stays in `name`). The vision model's own
+    //     medication list adds what NER missed on handwritten pages.
+    cm.medications = normalizeMedications(cm.medications);
+    if (visionEarly?.documentCategory === "document") {
+        const found = new Set(cm.medications.map((m) => medicationKey(m.generic ?? m.name)));
+        for (const med of normalizeMedications((visionEarly.extractedMedications ?? []).map((name) => ({ name })))) {
+            const key = medicationKey(med.generic ?? med.name);
+            if (key && !found.has(key)) { cm.medications.push(med); found.add(key); }
+        }
+    }
 
     // 3. Classify — pass filename for hint-based boosting
     const { documentType, confidence } = classify(rawText, cm, filename);
@@ -747,10 +627,11 @@ export async function analyzeDocument(imageBytes: Buffer, filename = ""): Promis
     let docSpecific: Partial<EntryMetadata> = {};
     switch (resolvedType) {
         case "Lab": {
-            const results = parseLabResults(rawText);
+            const results = parseLabResultPages(pageTexts);
             const labName = namedEntities.institutions[0];
             docSpecific = {
-                labTests: results.length ? results : cm.labEntities.map(l => ({ name: l })),
+                // LOINC code, canonical value and unit, default range where missing
+                labTests: normalizeLabResults(results.length ? results : cm.labEntities.map(l => ({ name: l })), patient),
                 labName,
                 referredBy: namedEntities.doctors[0],
             };
@@ -759,7 +640,7 @@ export async function analyzeDocument(imageBytes: Buffer, filename = ""): Promis
         case "Imaging": {
             // Parse any existing text-based fields
             const textParsed = parseImaging(rawText);
-            // Reuse the vision result already obtained at step 0 — no second Bedrock call needed.
+            // Reuse the vision result already obtained at step 0 — no second vision call needed.
             const vision = visionEarly;
             docSpecific = {
                 ...textParsed,
@@ -801,6 +682,8 @@ export async function analyzeDocument(imageBytes: Buffer, filename = ""): Promis
         medications: cm.medications.length ? cm.medications : undefined,
         diagnoses: cm.diagnoses.length ? cm.diagnoses : undefined,
         allergies: cm.allergies.length ? cm.allergies : undefined,
+        pageCount: pages.length > 1 ? pages.length : undefined,
+        sourceFormat: pages[0].format === "pdf" ? "pdf" : undefined,
         ...cleanDocSpecific,
     };
 
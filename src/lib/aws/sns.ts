@@ -19,6 +19,59 @@ const _appCreds =
 const region = process.env.NEXT_PUBLIC_AWS_REGION || "ap-south-1";
 const snsClient = new SNSClient({ region, ..._appCreds });
 
+// ---- SMS Transport ----
+
+/** Anything that can deliver a transactional SMS */
+export interface SmsSender {
+    /** @returns Provider message ID */
+    send(phoneNumber: string, message: string, withSenderId: boolean): Promise<string>;
+}
+
+const snsSender: SmsSender = {
+    async send(phoneNumber, message, withSenderId) {
+        const result = await snsClient.send(
+            new PublishCommand({
+                PhoneNumber: phoneNumber,
+                Message: message,
+                MessageAttributes: {
+                    ...(withSenderId && {
+                        "AWS.SNS.SMS.SenderID": {
+                            DataType: "String",
+                            StringValue: "ArogyaSutra",
+                        },
+                    }),
+                    "AWS.SNS.SMS.SMSType": {
+                        DataType: "String",
+                        StringValue: "Transactional",
+                    },
+                },
+            })
+        );
+        return result.MessageId ?? "";
+    },
+};
+
+/**
+ * Local stand-in: keeps messages in memory (and logs them) instead of
+ * sending. Selected with SMS_SENDER=console, or installed via setSmsSender().
+ */
+export class ConsoleSmsSender implements SmsSender {
+    readonly sent: { phoneNumber: string; message: string }[] = [];
+
+    async send(phoneNumber: string, message: string): Promise<string> {
+        this.sent.push({ phoneNumber, message });
+        console.info(`[sms → ${phoneNumber}] ${message}`);
+        return `local-${this.sent.length}`;
+    }
+}
+
+let sender: SmsSender = process.env.SMS_SENDER === "console" ? new ConsoleSmsSender() : snsSender;
+
+/** Swap the SMS transport (tests, local development). */
+export function setSmsSender(next: SmsSender): void {
+    sender = next;
+}
+
 /**
  * Sends an OTP to the patient's phone number.
  *
@@ -29,56 +82,41 @@ export async function sendOtp(
     phoneNumber: string,
     otp: string
 ): Promise<void> {
-    await snsClient.send(
-        new PublishCommand({
-            PhoneNumber: phoneNumber,
-            Message: `Your ArogyaSutra verification code is: ${otp}. Valid for 5 minutes. Do not share this code.`,
-            MessageAttributes: {
-                "AWS.SNS.SMS.SenderID": {
-                    DataType: "String",
-                    StringValue: "ArogyaSutra",
-                },
-                "AWS.SNS.SMS.SMSType": {
-                    DataType: "String",
-                    StringValue: "Transactional",
-                },
-            },
-        })
+    await sender.send(
+        phoneNumber,
+        `Your ArogyaSutra verification code is: ${otp}. Valid for 5 minutes. Do not share this code.`,
+        true
     );
 }
 
 /**
- * Sends a Break-Glass notification to the patient and emergency contacts.
+ * Sends a Break-Glass alert to the patient or one of their emergency contacts.
  *
- * @param phoneNumber  Recipient phone number
- * @param personnelName Name of emergency personnel
- * @param institution   Institution name
- * @param location      Access location
+ * @param phoneNumber     Recipient phone number
+ * @param alert.patientName  Set when the recipient is an emergency contact
+ * @param alert.location     Approximate location (coarse, not the exact fix)
+ * @returns Provider message ID
  */
 export async function sendBreakGlassNotification(
     phoneNumber: string,
-    personnelName: string,
-    institution: string,
-    location: string
-): Promise<void> {
+    alert: {
+        personnelName: string;
+        institution: string;
+        location: string;
+        durationMinutes: number;
+        patientName?: string;
+    }
+): Promise<string> {
+    const whose = alert.patientName ? `${alert.patientName}'s` : "Your";
     const message =
-        `⚠️ ALERT: Your ArogyaSutra health records were accessed via Emergency Protocol ` +
-        `by ${personnelName} (${institution}). ` +
-        `Location: ${location}. ` +
-        `If you did not authorize this, contact support immediately.`;
+        `⚠️ ALERT: ${whose} ArogyaSutra health records were accessed via Emergency Protocol ` +
+        `by ${alert.personnelName} (${alert.institution}) near ${alert.location}. ` +
+        `Access ends automatically after ${alert.durationMinutes} minutes. ` +
+        (alert.patientName
+            ? "You are receiving this as an emergency contact."
+            : "If you did not authorize this, contact support immediately.");
 
-    await snsClient.send(
-        new PublishCommand({
-            PhoneNumber: phoneNumber,
-            Message: message,
-            MessageAttributes: {
-                "AWS.SNS.SMS.SMSType": {
-                    DataType: "String",
-                    StringValue: "Transactional",
-                },
-            },
-        })
-    );
+    return sender.send(phoneNumber, message, false);
 }
 
 /**
@@ -88,20 +126,5 @@ export async function sendNotification(
     phoneNumber: string,
     message: string
 ): Promise<void> {
-    await snsClient.send(
-        new PublishCommand({
-            PhoneNumber: phoneNumber,
-            Message: message,
-            MessageAttributes: {
-                "AWS.SNS.SMS.SenderID": {
-                    DataType: "String",
-                    StringValue: "ArogyaSutra",
-                },
-                "AWS.SNS.SMS.SMSType": {
-                    DataType: "String",
-                    StringValue: "Transactional",
-                },
-            },
-        })
-    );
+    await sender.send(phoneNumber, message, true);
 }
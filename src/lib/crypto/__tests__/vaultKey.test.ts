@@ -0,0 +1,66 @@
+// ============================================================
+// Vault Key — property tests (Correctness Property 6)
+// The properties are about wrapping, not KDF cost, so PBKDF2
+// runs at a low iteration count here to keep 100 runs quick.
+// ============================================================
+
+import { describe, expect, jest, test } from "@jest/globals";
+import fc from "fast-check";
+import { createVaultKey, rewrapVaultKey, unwrapVaultKey, verifyVaultKeyInvariants } from "../vaultKey";
+import { decryptToString, encryptString } from "../aesGcm";
+
+jest.mock("../keyDerivation", () => ({
+    ...jest.requireActual<typeof import("../keyDerivation")>("../keyDerivation"),
+    VAULT_KDF_ITERATIONS: 1_000,
+}));
+
+const cardIdArb = fc
+    .array(fc.integer({ min: 0, max: 9 }), { minLength: 12, maxLength: 12 })
+    .map((d) => `AS-${d.slice(0, 4).join("")}-${d.slice(4, 8).join("")}-${d.slice(8).join("")}`);
+const secretArb = fc.string({ minLength: 1, maxLength: 64, unit: "grapheme" });
+const distinctSecretsArb = fc.tuple(secretArb, secretArb).filter(([a, b]) => a !== b);
+
+describe("vault key", () => {
+    // Feature: arogya-sutra, Property 6: Stable Vault Key
+    test("unwrap returns the DEK, and re-wrap keeps it while rejecting the old PIN", async () => {
+        await fc.assert(
+            fc.asyncProperty(cardIdArb, secretArb, secretArb, (cardId, secret, newSecret) =>
+                verifyVaultKeyInvariants(cardId, secret, newSecret)
+            ),
+            { numRuns: 100 }
+        );
+    }, 30_000);
+
+    // Feature: arogya-sutra, Property 6: Stable Vault Key
+    test("a wrong PIN or Card ID fails with VAULT_SECRET_INVALID instead of yielding a key", async () => {
+        await fc.assert(
+            fc.asyncProperty(cardIdArb, cardIdArb, distinctSecretsArb, async (cardId, otherCardId, [secret, wrong]) => {
+                const { wrapped } = await createVaultKey(cardId, secret);
+                await expect(unwrapVaultKey(cardId, wrong, wrapped)).rejects.toThrow(/^VAULT_SECRET_INVALID/);
+                if (otherCardId !== cardId) {
+                    await expect(unwrapVaultKey(otherCardId, secret, wrapped)).rejects.toThrow(/^VAULT_SECRET_INVALID/);
+                }
+            }),
+            { numRuns: 100 }
+        );
+    }, 30_000);
+
+    // Feature: arogya-sutra, Property 6: Stable Vault Key
+    test("records sealed before a PIN change open with the new PIN", async () => {
+        await fc.assert(
+            fc.asyncProperty(cardIdArb, distinctSecretsArb, fc.string(), async (cardId, [secret, newSecret], record) => {
+                const { wrapped, dataKey } = await createVaultKey(cardId, secret);
+                const sealed = await encryptString(record, dataKey, wrapped.keyId);
+
+                const rewrapped = await rewrapVaultKey(cardId, secret, newSecret, wrapped);
+                expect(rewrapped.keyId).toBe(wrapped.keyId);
+                expect(rewrapped.createdAt).toBe(wrapped.createdAt);
+                expect(rewrapped.salt).not.toBe(wrapped.salt);
+
+                const reopened = await unwrapVaultKey(cardId, newSecret, rewrapped);
+                expect(await decryptToString(sealed, reopened)).toBe(record);
+            }),
+            { numRuns: 100 }
+        );
+    }, 30_000);
+});
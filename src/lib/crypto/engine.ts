@@ -5,6 +5,9 @@
 // ============================================================
 
 import { deriveMasterKey, verifyKeyConsistency } from "./keyDerivation";
+import { createVaultKey, unwrapVaultKey, rewrapVaultKey } from "./vaultKey";
+import { migrateLegacyBlobs } from "./migration";
+import type { MigrationCandidate, MigrationReport } from "./migration";
 import {
     encrypt,
     decrypt,
@@ -19,6 +22,8 @@ import {
     unwrapKeyWithPrivate,
     exportPublicKey,
     importPublicKey,
+    wrapKeyForRecipient,
+    unwrapKeyFromBase64,
 } from "./rsaOaep";
 import {
     deriveEmergencyKey,
@@ -30,6 +35,7 @@ import type {
     SerializedEncryptedBlob,
     EncryptedEmergencyBlob,
     KeyPairRef,
+    WrappedVaultKey,
 } from "../types/crypto";
 
 /**
@@ -38,23 +44,69 @@ import type {
  *
  * Usage:
  *   const engine = new CryptographyEngine();
- *   const masterKey = await engine.deriveKey(cardId, otp);
+ *   const { wrapped, dataKey } = await engine.createVault(cardId, secret);
+ *   const masterKey = await engine.unlockVault(cardId, secret, wrapped);
  *   const encrypted = await engine.encrypt(data, masterKey);
  *   const decrypted = await engine.decrypt(encrypted, masterKey);
  *
  * SECURITY INVARIANTS:
- * 1. masterKey is CryptoKey — non-extractable, memory-only
+ * 1. masterKey is the vault DEK — non-extractable, memory-only
  * 2. All encrypt/decrypt happens in the browser
- * 3. No key material is ever persisted, serialized, or transmitted
+ * 3. The DEK only leaves memory wrapped (AES-KW by the vault KEK,
+ *    or RSA-OAEP for doctor grants); the KEK is never persisted
  */
 export class CryptographyEngine {
     // ---- Key Derivation ----
 
-    /** Derive ephemeral Master Key from Card ID + OTP */
+    /**
+     * Derive the legacy OTP-bound Master Key.
+     * @deprecated Pre-vault only; its OTPs can't be replayed, so nothing it
+     * sealed can be recovered — see vault.service migrateLegacyBlobs().
+     */
     async deriveKey(cardId: string, otp: string): Promise<CryptoKey> {
         return deriveMasterKey(cardId, otp);
     }
 
+    // ---- Vault Key (stable DEK) ----
+
+    /** Create a new vault: random DEK wrapped by the Card ID + secret KEK */
+    async createVault(
+        cardId: string,
+        secret: string
+    ): Promise<{ wrapped: WrappedVaultKey; dataKey: CryptoKey }> {
+        return createVaultKey(cardId, secret);
+    }
+
+    /** Unwrap the vault DEK — this is the session's masterKey */
+    async unlockVault(
+        cardId: string,
+        secret: string,
+        wrapped: WrappedVaultKey,
+        extractable = false
+    ): Promise<CryptoKey> {
+        return unwrapVaultKey(cardId, secret, wrapped, extractable);
+    }
+
+    /** Re-wrap the same DEK under a new vault secret */
+    async rewrapVault(
+        cardId: string,
+        oldSecret: string,
+        newSecret: string,
+        wrapped: WrappedVaultKey
+    ): Promise<WrappedVaultKey> {
+        return rewrapVaultKey(cardId, oldSecret, newSecret, wrapped);
+    }
+
+    /** Re-encrypt blobs one of `legacyKeys` opens under the vault DEK */
+    async migrateBlobs(
+        candidates: MigrationCandidate[],
+        legacyKeys: CryptoKey[],
+        vaultKey: CryptoKey,
+        vaultKeyId: string
+    ): Promise<MigrationReport> {
+        return migrateLegacyBlobs(candidates, legacyKeys, vaultKey, vaultKeyId);
+    }
+
     /** Verify two keys are functionally equivalent (for testing) */
     async verifyKeys(key1: CryptoKey, key2: CryptoKey): Promise<boolean> {
         return verifyKeyConsistency(key1, key2);
@@ -113,7 +165,7 @@ export class CryptographyEngine {
         return generateKeyPair();
     }
 
-    /** Wrap Master Key with doctor's public key */
+    /** Wrap Master Key with doctor's public key (needs the extractable DEK from unlockVault) */
     async wrapKeyForDoctor(
         masterKey: CryptoKey,
         doctorPublicKey: CryptoKey
@@ -129,6 +181,29 @@ export class CryptographyEngine {
         return unwrapKeyWithPrivate(wrappedKey, doctorPrivateKey);
     }
 
+    /**
+     * Wrap the vault DEK for a doctor's Base64 public key. Re-derives an
+     * extractable DEK from the vault secret just for this call, so the
+     * session masterKey can stay non-extractable.
+     */
+    async shareVaultKey(
+        cardId: string,
+        secret: string,
+        wrapped: WrappedVaultKey,
+        doctorPublicKeyBase64: string
+    ): Promise<string> {
+        const dek = await unwrapVaultKey(cardId, secret, wrapped, true);
+        return wrapKeyForRecipient(dek, doctorPublicKeyBase64);
+    }
+
+    /** Recover a patient's DEK from a grant's encryptedAccessKey */
+    async openGrantKey(
+        encryptedAccessKey: string,
+        doctorPrivateKey: CryptoKey
+    ): Promise<CryptoKey> {
+        return unwrapKeyFromBase64(encryptedAccessKey, doctorPrivateKey);
+    }
+
     /** Export public key to Base64 for storage */
     async exportPublicKey(publicKey: CryptoKey): Promise<string> {
         return exportPublicKey(publicKey);
@@ -1,5 +1,13 @@
 // Barrel export for crypto module
-export { deriveMasterKey, verifyKeyConsistency } from "./keyDerivation";
+export { deriveMasterKey, deriveKeyEncryptionKey, verifyKeyConsistency } from "./keyDerivation";
+export {
+    createVaultKey,
+    unwrapVaultKey,
+    rewrapVaultKey,
+    verifyVaultKeyInvariants,
+} from "./vaultKey";
+export { migrateLegacyBlobs } from "./migration";
+export type { MigrationCandidate, MigrationReport } from "./migration";
 export {
     encrypt,
     decrypt,
@@ -14,7 +22,10 @@ export {
     unwrapKeyWithPrivate,
     exportPublicKey,
     importPublicKey,
+    wrapKeyForRecipient,
+    unwrapKeyFromBase64,
 } from "./rsaOaep";
+export { loadAccessKeyPair, clearAccessKeyPair } from "./keyStore";
 export {
     deriveEmergencyKey,
     encryptEmergencyData,
@@ -1,6 +1,9 @@
 // ============================================================
 // PBKDF2 Key Derivation
-// Master_Key = PBKDF2(Card_ID || OTP, salt=Card_ID, 100k, SHA-256, 256-bit)
+// KEK = PBKDF2(Card_ID || Vault_Secret, salt=random, 600k, SHA-256, 256-bit)
+// Legacy: Master_Key = PBKDF2(Card_ID || OTP, salt=Card_ID, 100k, ...)
+// — OTPs are single-use, so blobs it sealed can't be reopened later
+// (see vault.service migrateLegacyBlobs).
 //
 // CRITICAL: The derived CryptoKey must NEVER be:
 //   - Exported to raw/JWK
@@ -10,6 +13,9 @@
 // ============================================================
 
 const PBKDF2_ITERATIONS = 100_000;
+// The wrapped key and its salt are stored server-side, so the vault
+// secret must withstand offline guessing: OWASP's PBKDF2-SHA256 figure
+const VAULT_PBKDF2_ITERATIONS = 600_000;
 const KEY_LENGTH_BITS = 256;
 const HASH_ALGORITHM = "SHA-256";
 
@@ -21,7 +27,11 @@ function encode(text: string): Uint8Array {
 }
 
 /**
- * Derives the ephemeral Master Key from Card ID + OTP.
+ * Derives the legacy OTP-bound Master Key from Card ID + OTP.
+ *
+ * @deprecated Every OTP yields a different key, so data encrypted with it is
+ * unreadable on the next login. Use the vault key (vaultKey.ts) instead; this
+ * remains for migrating blobs written before the vault existed.
  *
  * The key is created as a non-extractable CryptoKey with
  * usages restricted to encrypt/decrypt only.
@@ -69,6 +79,56 @@ export async function deriveMasterKey(
     return masterKey;
 }
 
+/**
+ * Derives the Key Encryption Key that wraps the patient's vault DEK.
+ *
+ * Unlike the legacy master key, the inputs are stable across logins:
+ * the Card ID and a patient-chosen vault secret (PIN / passphrase).
+ * The salt is random per patient and stored next to the wrapped key.
+ *
+ * @param cardId  Patient Card ID (AS-XXXX-XXXX-XXXX)
+ * @param secret  Patient vault secret — never leaves the browser
+ * @param salt    16-byte random salt from the WrappedVaultKey record
+ * @returns       Non-extractable AES-KW key usable only for wrap/unwrap
+ */
+export async function deriveKeyEncryptionKey(
+    cardId: string,
+    secret: string,
+    salt: Uint8Array,
+    iterations: number = VAULT_PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey(
+        "raw",
+        encode(`${cardId}||${secret}`) as BufferSource,
+        "PBKDF2",
+        false,
+        ["deriveKey"]
+    );
+
+    return crypto.subtle.deriveKey(
+        {
+            name: "PBKDF2",
+            salt: salt as BufferSource,
+            iterations,
+            hash: HASH_ALGORITHM,
+        },
+        baseKey,
+        {
+            name: "AES-KW",
+            length: KEY_LENGTH_BITS,
+        },
+        false,
+        ["wrapKey", "unwrapKey"]
+    );
+}
+
+/**
+ * PBKDF2 iteration count for newly created or re-wrapped vault keys.
+ * Records wrapped at a lower count still unwrap (the count is stored
+ * with them) and are upgraded on the next unlock.
+ */
+export const VAULT_KDF_ITERATIONS = VAULT_PBKDF2_ITERATIONS;
+
 /**
  * Verifies that two derivations with the same inputs produce
  * functionally equivalent keys by test-encrypting and cross-decrypting.
@@ -0,0 +1,65 @@
+// ============================================================
+// Device Key Store — doctor's RSA-OAEP key pair in IndexedDB
+//
+// The private key is generated non-extractable and stored as a
+// CryptoKey object (structured clone), so its bytes never reach
+// JavaScript. Grants are wrapped for this device's public key;
+// a new device means a new key pair and a fresh patient approval.
+// ============================================================
+
+import { generateKeyPair, exportPublicKey } from "./rsaOaep";
+import type { KeyPairRef } from "../types/crypto";
+
+const DB_NAME = "arogyasutra-keys";
+const STORE = "access-keypairs";
+
+interface StoredKeyPair extends KeyPairRef {
+    publicKeyBase64: string;
+}
+
+function openDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+async function withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const req = run(db.transaction(STORE, mode).objectStore(STORE));
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Returns this device's access key pair for `ownerId`, creating and
+ * persisting one on first use.
+ */
+export async function loadAccessKeyPair(ownerId: string): Promise<StoredKeyPair> {
+    const existing = await withStore<StoredKeyPair | undefined>("readonly", (s) => s.get(ownerId));
+    if (existing) return existing;
+
+    const pair = await generateKeyPair();
+    const stored: StoredKeyPair = {
+        ...pair,
+        publicKeyBase64: await exportPublicKey(pair.publicKey),
+    };
+    await withStore("readwrite", (s) => s.put(stored, ownerId));
+    return stored;
+}
+
+/** Forget this device's key pair — grants wrapped for it become unreadable here. */
+export async function clearAccessKeyPair(ownerId: string): Promise<void> {
+    await withStore("readwrite", (s) => s.delete(ownerId));
+}
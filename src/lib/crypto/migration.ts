@@ -0,0 +1,77 @@
+// ============================================================
+// Legacy Blob Migration — unstamped blobs → vault DEK
+//
+// Blobs not stamped with the vault keyId are tried against the
+// supplied keys and, on success, re-encrypted under the vault DEK.
+// Nothing is dropped: blobs no key opens are reported back. Those
+// sealed with PBKDF2(Card_ID || OTP) before the vault existed are
+// among them — the session OTP that keyed each is gone.
+// ============================================================
+
+import { decrypt, encrypt, serializeBlob, deserializeBlob } from "./aesGcm";
+import type { SerializedEncryptedBlob } from "../types/crypto";
+
+/** A stored blob addressed by its S3 key */
+export interface MigrationCandidate {
+    key: string;
+    blob: SerializedEncryptedBlob;
+}
+
+export interface MigrationReport {
+    /** Re-encrypted under the vault key — caller must persist these */
+    migrated: MigrationCandidate[];
+    /** Already carry the vault keyId — left untouched */
+    skipped: string[];
+    /** No legacy key could decrypt them */
+    unrecoverable: string[];
+}
+
+/**
+ * Re-encrypts legacy blobs under the vault DEK.
+ *
+ * @param candidates  Blobs to examine (any keyId)
+ * @param legacyKeys  Keys that may have written them
+ * @param vaultKey    Unwrapped vault DEK
+ * @param vaultKeyId  WrappedVaultKey.keyId — stamped on the new blobs
+ */
+export async function migrateLegacyBlobs(
+    candidates: MigrationCandidate[],
+    legacyKeys: CryptoKey[],
+    vaultKey: CryptoKey,
+    vaultKeyId: string
+): Promise<MigrationReport> {
+    const report: MigrationReport = { migrated: [], skipped: [], unrecoverable: [] };
+
+    for (const { key, blob } of candidates) {
+        if (blob.keyId === vaultKeyId) {
+            report.skipped.push(key);
+            continue;
+        }
+
+        const plaintext = await tryDecrypt(blob, legacyKeys);
+        if (!plaintext) {
+            report.unrecoverable.push(key);
+            continue;
+        }
+
+        const reEncrypted = await encrypt(plaintext, vaultKey, vaultKeyId);
+        report.migrated.push({ key, blob: serializeBlob(reEncrypted) });
+    }
+
+    return report;
+}
+
+async function tryDecrypt(
+    serialized: SerializedEncryptedBlob,
+    keys: CryptoKey[]
+): Promise<ArrayBuffer | null> {
+    const blob = deserializeBlob(serialized);
+    for (const key of keys) {
+        try {
+            return await decrypt(blob, key);
+        } catch {
+            // GCM tag mismatch — wrong key, try the next one
+        }
+    }
+    return null;
+}
@@ -107,6 +107,28 @@ export async function importPublicKey(base64Key: string): Promise<CryptoKey> {
     );
 }
 
+/**
+ * Wraps an AES key for a recipient given their Base64 SPKI public key.
+ * @returns Base64 ciphertext, as stored in StoredAccessGrant.encryptedAccessKey
+ */
+export async function wrapKeyForRecipient(
+    key: CryptoKey,
+    publicKeyBase64: string
+): Promise<string> {
+    const publicKey = await importPublicKey(publicKeyBase64);
+    return arrayBufferToBase64(await wrapKeyWithPublic(key, publicKey));
+}
+
+/**
+ * Unwraps a Base64 key produced by wrapKeyForRecipient().
+ */
+export async function unwrapKeyFromBase64(
+    wrappedBase64: string,
+    privateKey: CryptoKey
+): Promise<CryptoKey> {
+    return unwrapKeyWithPrivate(base64ToArrayBuffer(wrappedBase64), privateKey);
+}
+
 // ---- Internal Helpers ----
 
 async function computeFingerprint(keyBuffer: ArrayBuffer): Promise<string> {
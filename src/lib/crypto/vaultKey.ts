@@ -0,0 +1,178 @@
+// ============================================================
+// Patient Vault Key — stable DEK wrapped by a derived KEK
+//
+// DEK = random AES-256-GCM key, generated once per patient
+// KEK = PBKDF2(Card_ID || Vault_Secret) → AES-KW
+// Server stores only AES-KW(KEK, DEK) + salt (WrappedVaultKey).
+//
+// The OTP never touches key material: it only gates the Cognito
+// session. Changing the vault secret re-wraps the same DEK, so no
+// record ever needs re-encrypting.
+// ============================================================
+
+import {
+    deriveKeyEncryptionKey,
+    verifyKeyConsistency,
+    VAULT_KDF_ITERATIONS,
+} from "./keyDerivation";
+import type { WrappedVaultKey } from "../types/crypto";
+
+const DEK_LENGTH_BITS = 256;
+const SALT_LENGTH = 16;
+
+/**
+ * Generates a fresh Data Encryption Key.
+ * Extractable only so it can be wrapped — callers hold the
+ * non-extractable copy returned by unwrapVaultKey().
+ */
+async function generateDataKey(): Promise<CryptoKey> {
+    return crypto.subtle.generateKey(
+        { name: "AES-GCM", length: DEK_LENGTH_BITS },
+        true,
+        ["encrypt", "decrypt"]
+    );
+}
+
+/**
+ * Creates a new vault for a patient.
+ *
+ * @returns The wrapped record to persist, and the in-memory DEK
+ *          (non-extractable) to use for this session.
+ */
+export async function createVaultKey(
+    cardId: string,
+    secret: string
+): Promise<{ wrapped: WrappedVaultKey; dataKey: CryptoKey }> {
+    const dek = await generateDataKey();
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    const kek = await deriveKeyEncryptionKey(cardId, secret, salt, VAULT_KDF_ITERATIONS);
+    const wrappedKey = await crypto.subtle.wrapKey("raw", dek, kek, "AES-KW");
+
+    const wrapped: WrappedVaultKey = {
+        version: 1,
+        keyId: `vault-${toHex(crypto.getRandomValues(new Uint8Array(8)))}`,
+        wrappedKey: toBase64(new Uint8Array(wrappedKey)),
+        salt: toBase64(salt),
+        iterations: VAULT_KDF_ITERATIONS,
+        algorithm: "AES-KW",
+        createdAt: new Date().toISOString(),
+    };
+
+    // Hand back a non-extractable copy — the extractable original goes out of scope
+    const dataKey = await unwrapVaultKey(cardId, secret, wrapped);
+    return { wrapped, dataKey };
+}
+
+/**
+ * Unwraps the patient's DEK with the vault secret.
+ *
+ * @param extractable  Only true when the DEK must be re-wrapped
+ *                     (secret change, RSA grant for a doctor).
+ * @throws VAULT_SECRET_INVALID when the secret (or Card ID) is wrong —
+ *         AES-KW integrity check fails rather than yielding a bad key.
+ */
+export async function unwrapVaultKey(
+    cardId: string,
+    secret: string,
+    wrapped: WrappedVaultKey,
+    extractable = false
+): Promise<CryptoKey> {
+    const kek = await deriveKeyEncryptionKey(
+        cardId,
+        secret,
+        fromBase64(wrapped.salt),
+        wrapped.iterations
+    );
+
+    try {
+        return await crypto.subtle.unwrapKey(
+            "raw",
+            fromBase64(wrapped.wrappedKey) as BufferSource,
+            kek,
+            "AES-KW",
+            { name: "AES-GCM", length: DEK_LENGTH_BITS },
+            extractable,
+            ["encrypt", "decrypt"]
+        );
+    } catch {
+        throw new Error("VAULT_SECRET_INVALID: Vault secret does not match");
+    }
+}
+
+/**
+ * Re-wraps the same DEK under a new vault secret (fresh salt).
+ * keyId and createdAt are preserved so existing blobs stay readable.
+ */
+export async function rewrapVaultKey(
+    cardId: string,
+    oldSecret: string,
+    newSecret: string,
+    wrapped: WrappedVaultKey
+): Promise<WrappedVaultKey> {
+    const dek = await unwrapVaultKey(cardId, oldSecret, wrapped, true);
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    const kek = await deriveKeyEncryptionKey(cardId, newSecret, salt, VAULT_KDF_ITERATIONS);
+    const wrappedKey = await crypto.subtle.wrapKey("raw", dek, kek, "AES-KW");
+
+    return {
+        ...wrapped,
+        wrappedKey: toBase64(new Uint8Array(wrappedKey)),
+        salt: toBase64(salt),
+        iterations: VAULT_KDF_ITERATIONS,
+        rewrappedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Checks the vault invariants for one Card ID + secret pair:
+ *   1. unwrap(wrap(DEK)) is functionally the same DEK
+ *   2. rewrap under a new secret preserves the DEK
+ *   3. the old secret no longer unwraps after rewrap
+ *
+ * Used in property tests (Correctness Property 6).
+ */
+export async function verifyVaultKeyInvariants(
+    cardId: string,
+    secret: string,
+    newSecret: string
+): Promise<boolean> {
+    const { wrapped, dataKey } = await createVaultKey(cardId, secret);
+
+    const unwrapped = await unwrapVaultKey(cardId, secret, wrapped);
+    if (!(await verifyKeyConsistency(dataKey, unwrapped))) return false;
+
+    const rewrapped = await rewrapVaultKey(cardId, secret, newSecret, wrapped);
+    const afterRewrap = await unwrapVaultKey(cardId, newSecret, rewrapped);
+    if (!(await verifyKeyConsistency(dataKey, afterRewrap))) return false;
+
+    if (secret === newSecret) return true;
+    try {
+        await unwrapVaultKey(cardId, secret, rewrapped);
+        return false;
+    } catch {
+        return true;
+    }
+}
+
+// ---- Internal Helpers ----
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = "";
+    for (let i = 0; i < bytes.byteLength; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,67 @@
+// ============================================================
+// Bedrock Embedding Provider — Amazon Titan Text Embeddings V2
+// Multilingual, so a Hindi question lands near the English
+// record it is about. Titan embeds one text per request; a few
+// run at a time. The client is created on first use.
+// ============================================================
+
+import { BedrockRuntimeClient, InvokeModelCommand } from "@aws-sdk/client-bedrock-runtime";
+import { normalize, type EmbeddingProvider } from "./types";
+
+const region = process.env.NEXT_PUBLIC_AWS_REGION || "ap-south-1";
+
+const creds =
+    process.env.APP_AWS_ACCESS_KEY_ID && process.env.APP_AWS_SECRET_ACCESS_KEY
+        ? {
+            credentials: {
+                accessKeyId: process.env.APP_AWS_ACCESS_KEY_ID,
+                secretAccessKey: process.env.APP_AWS_SECRET_ACCESS_KEY,
+            },
+        }
+        : {};
+
+const MODEL_ID = process.env.EMBEDDING_MODEL_ID?.trim() || "amazon.titan-embed-text-v2:0";
+const DIMENSIONS = 512;
+const CONCURRENCY = 8;
+// Titan V2 accepts 8k tokens; record chunks are far shorter
+const MAX_INPUT_CHARS = 8_000;
+
+let _client: BedrockRuntimeClient | null = null;
+
+function client(): BedrockRuntimeClient {
+    return (_client ??= new BedrockRuntimeClient({ region, ...creds }));
+}
+
+async function embedOne(text: string): Promise<Float32Array> {
+    const response = await client().send(new InvokeModelCommand({
+        modelId: MODEL_ID,
+        contentType: "application/json",
+        accept: "application/json",
+        body: JSON.stringify({
+            inputText: text.slice(0, MAX_INPUT_CHARS) || " ",
+            dimensions: DIMENSIONS,
+            normalize: true,
+        }),
+    }));
+    const { embedding } = JSON.parse(new TextDecoder().decode(response.body)) as { embedding?: number[] };
+    if (!embedding?.length) throw new Error(`${MODEL_ID} returned no embedding`);
+    return normalize(Float32Array.from(embedding));
+}
+
+export const titanEmbedder: EmbeddingProvider = {
+    name: `bedrock:${MODEL_ID}:${DIMENSIONS}`,
+    dimensions: DIMENSIONS,
+    minSimilarity: 0.2,
+    async embed(texts: string[]): Promise<Float32Array[]> {
+        const vectors: Float32Array[] = new Array(texts.length);
+        let next = 0;
+        const worker = async () => {
+            while (next < texts.length) {
+                const i = next++;
+                vectors[i] = await embedOne(texts[i]);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(CONCURRENCY, texts.length) }, worker));
+        return vectors;
+    },
+};
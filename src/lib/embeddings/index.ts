@@ -0,0 +1,54 @@
+// ============================================================
+// Embedding Providers — Barrel, Selection & Cache
+// EMBEDDING_PROVIDER=local uses the hashing embedder; anything
+// else uses Bedrock Titan. Tests and scripts can swap it with
+// setEmbeddingProvider(). Vectors are cached by provider and
+// text, so re-indexing a patient only embeds what is new.
+// ============================================================
+
+import { createHash } from "crypto";
+import { titanEmbedder } from "./bedrock";
+import { hashingEmbedder } from "./local";
+import type { EmbeddingProvider } from "./types";
+
+export * from "./types";
+export { titanEmbedder } from "./bedrock";
+export { hashingEmbedder } from "./local";
+
+let provider: EmbeddingProvider = process.env.EMBEDDING_PROVIDER === "local" ? hashingEmbedder : titanEmbedder;
+
+// About 20 MB of vectors at Titan's 512 dimensions
+const CACHE_MAX = 10_000;
+const _cache = new Map<string, Float32Array>();
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+    return provider;
+}
+
+/** Replace the embedder (tests, local development). */
+export function setEmbeddingProvider(next: EmbeddingProvider): void {
+    provider = next;
+}
+
+/** Embed with the current provider, reusing cached vectors. Throws if the provider does. */
+export async function embedTexts(texts: string[]): Promise<Float32Array[]> {
+    const current = provider;
+    const keys = texts.map((t) => `${current.name}:${createHash("sha1").update(t).digest("base64")}`);
+    const found = new Map<string, Float32Array>();
+    const textOf = new Map<string, string>();
+    keys.forEach((k, i) => {
+        const cached = _cache.get(k);
+        if (cached) found.set(k, cached);
+        else textOf.set(k, texts[i]);
+    });
+    if (textOf.size > 0) {
+        const missing = [...textOf.keys()];
+        const vectors = await current.embed(missing.map((k) => textOf.get(k)!));
+        missing.forEach((k, i) => {
+            found.set(k, vectors[i]);
+            if (_cache.size >= CACHE_MAX) _cache.delete(_cache.keys().next().value!);
+            _cache.set(k, vectors[i]);
+        });
+    }
+    return keys.map((k) => found.get(k)!);
+}
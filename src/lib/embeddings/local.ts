@@ -0,0 +1,100 @@
+// ============================================================
+// Local Embedding Provider — feature hashing, no network
+// Each word is folded to a concept where the lexicon knows one
+// ("sugar", "शुगर" and "glucose" are all glucose), then the word
+// and its character trigrams are hashed into a fixed-size
+// vector. Deterministic: the same text always gives the same
+// vector, which is what tests and offline development need.
+// It is no language model — only the lexicon's synonyms and
+// near-identical spellings ("haemoglobin", "hemoglobin") meet.
+// ============================================================
+
+import { normalize, type EmbeddingProvider } from "./types";
+
+const DIMENSIONS = 256;
+const WORD_WEIGHT = 1;
+const CONCEPT_WEIGHT = 1.5;
+const TRIGRAM_WEIGHT = 0.4;
+
+/** Concept → the English, romanised Hindi and Devanagari words for it */
+const LEXICON: Record<string, string[]> = {
+    glucose: ["glucose", "sugar", "sugars", "fbs", "ppbs", "rbs", "shakkar", "शुगर", "शक्कर", "शर्करा", "ग्लूकोज"],
+    diabetes: ["diabetes", "diabetic", "madhumeh", "मधुमेह", "डायबिटीज"],
+    hba1c: ["hba1c", "a1c", "glycated", "glycosylated"],
+    hypertension: ["hypertension", "hypertensive", "bp", "pressure", "raktchap", "रक्तचाप", "बीपी"],
+    cholesterol: ["cholesterol", "lipid", "lipids", "ldl", "hdl", "triglycerides", "कोलेस्ट्रॉल"],
+    hemoglobin: ["hemoglobin", "haemoglobin", "hb", "हीमोग्लोबिन"],
+    anemia: ["anemia", "anaemia", "anemic", "anaemic", "एनीमिया"],
+    thyroid: ["thyroid", "tsh", "thyroxine", "hypothyroidism", "hyperthyroidism", "थायराइड"],
+    kidney: ["kidney", "kidneys", "renal", "gurda", "गुर्दा", "गुर्दे", "किडनी"],
+    liver: ["liver", "hepatic", "jigar", "लीवर", "यकृत", "जिगर"],
+    heart: ["heart", "cardiac", "dil", "दिल", "हृदय"],
+    fever: ["fever", "febrile", "pyrexia", "bukhar", "बुखार", "ज्वर"],
+    cough: ["cough", "khansi", "खांसी", "खाँसी"],
+    pain: ["pain", "ache", "aches", "dard", "दर्द"],
+    medicine: ["medicine", "medicines", "medication", "medications", "drug", "drugs", "tablet", "tablets", "dawa", "dawai", "दवा", "दवाई", "दवाइयाँ"],
+    blood: ["blood", "khoon", "खून", "रक्त"],
+    urine: ["urine", "urinary", "peshab", "पेशाब", "मूत्र"],
+    pregnancy: ["pregnancy", "pregnant", "antenatal", "garbh", "गर्भ", "गर्भावस्था"],
+    vaccine: ["vaccine", "vaccines", "vaccination", "immunisation", "immunization", "teeka", "टीका", "टीकाकरण"],
+    weight: ["weight", "bmi", "vajan", "wajan", "वजन", "वज़न"],
+    allergy: ["allergy", "allergies", "allergic", "एलर्जी"],
+    xray: ["xray", "radiograph", "एक्सरे"],
+};
+
+const CONCEPT_OF = new Map<string, string>(
+    Object.entries(LEXICON).flatMap(([concept, words]) => words.map((w) => [w.normalize("NFC"), concept] as [string, string]))
+);
+
+function words(text: string): string[] {
+    return text
+        .normalize("NFC")
+        .toLowerCase()
+        .replace(/x-ray/g, "xray")
+        .replace(/[^\p{L}\p{M}\p{N}\s]/gu, " ")
+        .split(/\s+/)
+        .filter(Boolean);
+}
+
+/** FNV-1a, 32-bit */
+function hash(feature: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+        h ^= feature.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+function add(vector: Float32Array, feature: string, weight: number): void {
+    const h = hash(feature);
+    // The top bit picks the sign, so unrelated features cancel out on average
+    vector[h % DIMENSIONS] += h & 0x80000000 ? -weight : weight;
+}
+
+function embedText(text: string): Float32Array {
+    const vector = new Float32Array(DIMENSIONS);
+    for (const word of words(text)) {
+        const concept = CONCEPT_OF.get(word);
+        if (concept) {
+            add(vector, `c:${concept}`, CONCEPT_WEIGHT);
+            continue;
+        }
+        add(vector, `w:${word}`, WORD_WEIGHT);
+        const padded = `^${word}$`;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+            add(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+        }
+    }
+    return normalize(vector);
+}
+
+export const hashingEmbedder: EmbeddingProvider = {
+    name: `local:hashing:${DIMENSIONS}`,
+    dimensions: DIMENSIONS,
+    // Every word of a chunk the question doesn't share dilutes the match
+    minSimilarity: 0.1,
+    async embed(texts: string[]): Promise<Float32Array[]> {
+        return texts.map(embedText);
+    },
+};
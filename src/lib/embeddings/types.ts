@@ -0,0 +1,35 @@
+// ============================================================
+// Embedding Provider Contract
+// Dense vectors for assistant retrieval. Bedrock Titan in
+// production; a deterministic local embedder for development
+// and tests. Vectors from different providers are not
+// comparable, so callers key anything they cache by name.
+// ============================================================
+
+export interface EmbeddingProvider {
+    /** Identifies the model — part of every cache key */
+    readonly name: string;
+    readonly dimensions: number;
+    /** Cosine similarity below which two texts are unrelated, for this model */
+    readonly minSimilarity: number;
+    /** One unit-length vector per text, in order. Throws if the engine is unavailable. */
+    embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+/** Cosine similarity of two unit-length vectors */
+export function cosine(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    const n = Math.min(a.length, b.length);
+    for (let i = 0; i < n; i++) dot += a[i] * b[i];
+    return dot;
+}
+
+export function normalize(vector: Float32Array): Float32Array {
+    let norm = 0;
+    for (const v of vector) norm += v * v;
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+        for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+    }
+    return vector;
+}
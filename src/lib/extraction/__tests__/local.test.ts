@@ -0,0 +1,73 @@
+// ============================================================
+// Local Extraction — the whole analyzeDocument pipeline on the
+// Tesseract + rules engines, against a fixture prescription.
+// Runs offline: language data and PDFium come from node_modules.
+// ============================================================
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { noVision, ruleBasedNer, setExtractionProviders, terminateTesseract, tesseractOcr } from "..";
+import { analyzeDocument, analyzeDocumentPages } from "../../aws/extraction";
+
+const prescription = readFileSync(join(__dirname, "fixtures", "prescription.png"));
+
+/** The fixture photo as a one-page PDF with no text layer, like a phone scanner app makes. */
+async function scannedPdf(): Promise<Buffer> {
+    const doc = await PDFDocument.create();
+    const image = await doc.embedPng(prescription);
+    const page = doc.addPage([image.width * 72 / 200, image.height * 72 / 200]);
+    page.drawImage(image, { x: 0, y: 0, width: page.getWidth(), height: page.getHeight() });
+    return Buffer.from(await doc.save());
+}
+
+/** A printed lab report: a PDF with a real text layer. */
+async function printedPdf(lines: string[]): Promise<Buffer> {
+    const doc = await PDFDocument.create();
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+    const page = doc.addPage([420, 300]);
+    lines.forEach((line, i) => page.drawText(line, { x: 24, y: 270 - i * 18, size: 10, font }));
+    return Buffer.from(await doc.save());
+}
+
+beforeAll(() => {
+    setExtractionProviders({ ocr: tesseractOcr, ner: ruleBasedNer, vision: noVision });
+});
+
+afterAll(() => terminateTesseract());
+
+const names = (meds: { name: string }[] | undefined) => (meds ?? []).map((m) => m.name.toLowerCase());
+
+describe("local analyzeDocument", () => {
+    test("reads a prescription photo", async () => {
+        const result = await analyzeDocument(prescription, "prescription.png");
+
+        expect(result.rawText).toMatch(/Metformin/);
+        expect(result.documentType).toBe("RX");
+        expect(names(result.metadata.medications)).toEqual(expect.arrayContaining(["metformin", "amlodipine"]));
+        const metformin = result.metadata.medications?.find((m) => /metformin/i.test(m.name));
+        expect(metformin).toMatchObject({ dosage: "500mg", frequency: "1-0-1", duration: "30 days" });
+        expect(result.metadata.diagnoses).toEqual(expect.arrayContaining(["Hypertension"]));
+    }, 120_000);
+
+    test("renders a scanned PDF page and reads it", async () => {
+        const result = await analyzeDocumentPages([{ bytes: await scannedPdf(), format: "pdf" }], "scan.pdf");
+
+        expect(result.documentType).toBe("RX");
+        expect(names(result.metadata.medications)).toEqual(expect.arrayContaining(["metformin", "amlodipine"]));
+    }, 120_000);
+
+    test("takes a PDF's text layer as is", async () => {
+        const pdf = await printedPdf([
+            "Metropolis Healthcare - Laboratory Report",
+            "Test            Result    Unit     Reference",
+            "HbA1c           7.2       %        4.0 - 5.6",
+            "Fasting Blood Sugar  132  mg/dL    70 - 100",
+        ]);
+        const text = await tesseractOcr.extractText({ bytes: pdf, format: "pdf" });
+
+        expect(text.split("\n")[0]).toBe("Metropolis Healthcare - Laboratory Report");
+        expect(text).toMatch(/HbA1c\s+7\.2/);
+    }, 30_000);
+});
@@ -0,0 +1,157 @@
+// ============================================================
+// AWS Extraction Providers
+// Textract OCR and Comprehend Medical NER.
+// Clients are created on first use, so importing this module
+// costs nothing when a local engine is selected.
+// ============================================================
+
+import {
+    TextractClient,
+    DetectDocumentTextCommand,
+    type Block,
+} from "@aws-sdk/client-textract";
+import {
+    ComprehendMedicalClient,
+    DetectEntitiesV2Command,
+    type Entity,
+} from "@aws-sdk/client-comprehendmedical";
+import sharp from "sharp";
+import type { MedicationDetail } from "../types/timeline";
+import { findAllergies } from "./rules";
+import {
+    emptyEntities,
+    type MedicalEntities,
+    type MedicalNerProvider,
+    type OcrProvider,
+    type SourcePage,
+} from "./types";
+
+const region = process.env.NEXT_PUBLIC_AWS_REGION || "ap-south-1";
+
+const creds =
+    process.env.APP_AWS_ACCESS_KEY_ID && process.env.APP_AWS_SECRET_ACCESS_KEY
+        ? {
+            credentials: {
+                accessKeyId: process.env.APP_AWS_ACCESS_KEY_ID,
+                secretAccessKey: process.env.APP_AWS_SECRET_ACCESS_KEY,
+            },
+        }
+        : {};
+
+// Comprehend Medical is only available in certain regions
+const cmRegion = ["us-east-1", "us-east-2", "us-west-2", "eu-west-1", "ap-southeast-2"].includes(region)
+    ? region
+    : "us-east-1";
+
+let _textract: TextractClient | null = null;
+let _comprehend: ComprehendMedicalClient | null = null;
+
+function textractClient(): TextractClient {
+    return (_textract ??= new TextractClient({ region, ...creds }));
+}
+
+function comprehendClient(): ComprehendMedicalClient {
+    return (_comprehend ??= new ComprehendMedicalClient({ region: cmRegion, ...creds }));
+}
+
+// ── Textract OCR ─────────────────────────────────────────────────────
+
+/**
+ * Textract DetectDocumentText Bytes limit is 5 MB.
+ * Progressively reduce quality / resolution until the buffer fits.
+ */
+async function toTextractBuffer(imageBytes: Buffer): Promise<Buffer> {
+    const MAX_BYTES = 4.5 * 1024 * 1024; // 4.5 MB — leave margin below 5 MB
+    const steps: Array<{ width: number; quality: number }> = [
+        { width: 2400, quality: 85 },
+        { width: 2000, quality: 75 },
+        { width: 1600, quality: 65 },
+        { width: 1200, quality: 55 },
+        { width: 900,  quality: 45 },
+    ];
+    for (const { width, quality } of steps) {
+        const buf = await sharp(imageBytes)
+            .resize({ width, height: Math.round(width * 1.5), fit: "inside", withoutEnlargement: true })
+            .jpeg({ quality })
+            .toBuffer();
+        if (buf.byteLength <= MAX_BYTES) return buf;
+    }
+    // Last resort: tiny thumbnail — OCR quality is poor but won't crash Textract
+    return sharp(imageBytes).resize({ width: 800 }).jpeg({ quality: 40 }).toBuffer();
+}
+
+/** Textract sync OCR; accepts JPEG/PNG or a single-page PDF (≤ 5 MB). */
+async function detectLines(documentBytes: Buffer): Promise<string> {
+    const result = await textractClient().send(
+        new DetectDocumentTextCommand({ Document: { Bytes: documentBytes } })
+    );
+    const blocks: Block[] = result.Blocks ?? [];
+    return blocks
+        .filter((b) => b.BlockType === "LINE" && b.Text)
+        .map((b) => b.Text as string)
+        .join("\n");
+}
+
+export const textractOcr: OcrProvider = {
+    source: "TEXTRACT",
+    async extractText(page: SourcePage): Promise<string> {
+        return page.format === "pdf" ? detectLines(page.bytes) : detectLines(await toTextractBuffer(page.bytes));
+    },
+};
+
+// ── Comprehend Medical — enriched entity extraction ──────────────────
+
+export const comprehendNer: MedicalNerProvider = {
+    name: "comprehend-medical",
+    async detectEntities(text: string): Promise<MedicalEntities> {
+        const truncated = text.slice(0, 19500);
+        try {
+            const result = await comprehendClient().send(
+                new DetectEntitiesV2Command({ Text: truncated })
+            );
+            const entities: Entity[] = result.Entities ?? [];
+
+            const medications: MedicationDetail[] = [];
+            const diagnoses: string[] = [];
+            const labEntities: string[] = [];
+
+            for (const entity of entities) {
+                if (!entity.Text || (entity.Score ?? 0) < 0.65) continue;
+
+                switch (entity.Category) {
+                    case "MEDICATION": {
+                        const med: MedicationDetail = { name: entity.Text };
+                        for (const attr of entity.Attributes ?? []) {
+                            if (!attr.Text) continue;
+                            switch (attr.Type) {
+                                case "DOSAGE": med.dosage = attr.Text; break;
+                                case "FREQUENCY": med.frequency = attr.Text; break;
+                                case "DURATION": med.duration = attr.Text; break;
+                                case "ROUTE_OR_MODE": med.route = attr.Text; break;
+                                case "FORM": if (!med.dosage) med.dosage = attr.Text; break;
+                            }
+                        }
+                        if (!medications.some(m => m.name.toLowerCase() === med.name.toLowerCase())) {
+                            medications.push(med);
+                        }
+                        break;
+                    }
+                    case "MEDICAL_CONDITION":
+                        if (!diagnoses.includes(entity.Text)) diagnoses.push(entity.Text);
+                        break;
+                    case "TEST_TREATMENT_PROCEDURE":
+                        if (!labEntities.includes(entity.Text)) labEntities.push(entity.Text);
+                        break;
+                    case "PROTECTED_HEALTH_INFORMATION":
+                        // skip names/dates from PHI
+                        break;
+                }
+            }
+
+            // Comprehend has no allergy category — fall back to the text heuristic
+            return { medications, diagnoses, labEntities, allergies: findAllergies(text) };
+        } catch {
+            return emptyEntities();
+        }
+    },
+};
@@ -0,0 +1,30 @@
+// ============================================================
+// Extraction Providers — Barrel & Selection
+// EXTRACTION_PROVIDER=local runs the whole pipeline on this
+// machine (Tesseract + rules); anything else uses AWS, with
+// photos read by the "vision" LLM chain. Tests and scripts can
+// swap individual engines with setExtractionProviders().
+// ============================================================
+
+import { comprehendNer, textractOcr } from "./aws";
+import { noVision, ruleBasedNer, tesseractOcr } from "./local";
+import { llmVision } from "./vision";
+import type { ExtractionProviders } from "./types";
+
+export * from "./types";
+export { textractOcr, comprehendNer } from "./aws";
+export { tesseractOcr, ruleBasedNer, noVision, terminateTesseract } from "./local";
+export { llmVision } from "./vision";
+
+let providers: ExtractionProviders = process.env.EXTRACTION_PROVIDER === "local"
+    ? { ocr: tesseractOcr, ner: ruleBasedNer, vision: noVision }
+    : { ocr: textractOcr, ner: comprehendNer, vision: llmVision };
+
+export function getExtractionProviders(): ExtractionProviders {
+    return providers;
+}
+
+/** Replace some or all engines (tests, local development). */
+export function setExtractionProviders(next: Partial<ExtractionProviders>): void {
+    providers = { ...providers, ...next };
+}
@@ -0,0 +1,143 @@
+// ============================================================
+// Local Extraction Providers
+// Tesseract (WASM) OCR, a rule-based medical NER and a vision
+// stand-in that always declines. Nothing here needs AWS or the
+// network: English language data ships in @tesseract.js-data/eng
+// (TESSERACT_LANG_PATH can point elsewhere), and PDF pages are
+// read from their text layer or rendered with PDFium (WASM).
+// ============================================================
+
+import sharp from "sharp";
+import type { Worker } from "tesseract.js";
+import type { PDFiumLibrary } from "@hyzyla/pdfium";
+import { findAllergies, findDiagnoses, findLabTests, findMedications } from "./rules";
+import {
+    emptyEntities,
+    type MedicalEntities,
+    type MedicalNerProvider,
+    type OcrProvider,
+    type SourcePage,
+    type VisionAnalysis,
+    type VisionProvider,
+} from "./types";
+
+// A page whose text layer has fewer characters than this is a scan
+const MIN_TEXT_LAYER_CHARS = 20;
+// PDF units are 1/72 inch; scans are read at 200 dpi
+const PDF_RENDER_SCALE = 200 / 72;
+
+let _worker: Promise<Worker> | null = null;
+let _pdfium: Promise<PDFiumLibrary> | null = null;
+
+/** One worker per server process — loading the language model takes seconds. */
+function tesseractWorker(): Promise<Worker> {
+    if (!_worker) {
+        _worker = Promise.all([import("tesseract.js"), import("@tesseract.js-data/eng")])
+            .then(([{ createWorker }, { default: eng }]) => createWorker("eng", undefined, {
+                langPath: process.env.TESSERACT_LANG_PATH || eng.langPath,
+                gzip: !process.env.TESSERACT_LANG_PATH && eng.gzip,
+                // Read from disk each start rather than writing a copy to the working directory
+                cacheMethod: "none",
+            }))
+            .catch((err) => {
+                _worker = null; // let the next page try again
+                throw err;
+            });
+    }
+    return _worker;
+}
+
+function pdfiumLibrary(): Promise<PDFiumLibrary> {
+    if (!_pdfium) {
+        _pdfium = import("@hyzyla/pdfium")
+            .then(({ PDFiumLibrary }) => PDFiumLibrary.init())
+            .catch((err) => {
+                _pdfium = null;
+                throw err;
+            });
+    }
+    return _pdfium;
+}
+
+/** Grayscale, contrast-stretched PNG around 2000 px wide — Tesseract's sweet spot. */
+async function toTesseractBuffer(imageBytes: Buffer): Promise<Buffer> {
+    return sharp(imageBytes)
+        .rotate()
+        .resize({ width: 2000, withoutEnlargement: true })
+        .grayscale()
+        .normalise()
+        .png()
+        .toBuffer();
+}
+
+/**
+ * A single-page PDF as text when it has a text layer (printed lab
+ * reports usually do), otherwise as a rendered image for OCR.
+ */
+async function readPdfPage(pdfBytes: Buffer): Promise<{ text: string } | { image: Buffer }> {
+    const library = await pdfiumLibrary();
+    const document = await library.loadDocument(new Uint8Array(pdfBytes));
+    try {
+        const page = document.getPage(0);
+        const text = page.getText();
+        if (text.replace(/\s/g, "").length >= MIN_TEXT_LAYER_CHARS) return { text };
+        const { data, width, height } = await page.render({ scale: PDF_RENDER_SCALE, colorSpace: "Gray" });
+        return { image: await sharp(Buffer.from(data), { raw: { width, height, channels: 1 } }).png().toBuffer() };
+    } finally {
+        document.destroy();
+    }
+}
+
+function tidyLines(text: string): string {
+    return text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .join("\n");
+}
+
+export const tesseractOcr: OcrProvider = {
+    source: "TESSERACT",
+    async extractText(page: SourcePage): Promise<string> {
+        let image = page.bytes;
+        if (page.format === "pdf") {
+            const read = await readPdfPage(page.bytes);
+            if ("text" in read) return tidyLines(read.text);
+            image = read.image;
+        }
+        const worker = await tesseractWorker();
+        const { data } = await worker.recognize(await toTesseractBuffer(image));
+        return tidyLines(data.text);
+    },
+};
+
+/** Stop the OCR worker, for scripts and tests that should exit when done. */
+export async function terminateTesseract(): Promise<void> {
+    const worker = _worker;
+    _worker = null;
+    if (worker) await (await worker).terminate();
+}
+
+export const ruleBasedNer: MedicalNerProvider = {
+    name: "rules",
+    async detectEntities(text: string): Promise<MedicalEntities> {
+        try {
+            return {
+                medications: findMedications(text),
+                diagnoses: findDiagnoses(text),
+                labEntities: findLabTests(text),
+                allergies: findAllergies(text),
+            };
+        } catch {
+            return emptyEntities();
+        }
+    },
+};
+
+/** No local model titles photos; the pipeline falls back to OCR-derived titles. */
+export const noVision: VisionProvider = {
+    name: "none",
+    async analyzeImage(): Promise<VisionAnalysis | null> {
+        return null;
+    },
+};
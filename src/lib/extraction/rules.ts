@@ -0,0 +1,107 @@
+// ============================================================
+// Rule-Based Medical Entity Rules
+// Regex readers for the way Indian prescriptions and reports are
+// usually written. They back the local NER engine, and the
+// allergy heuristic is shared with Comprehend, which has no
+// allergy category of its own.
+// ============================================================
+
+import type { MedicationDetail } from "../types/timeline";
+
+const FORM_ROUTE: Record<string, string> = {
+    tab: "Oral", tablet: "Oral", cap: "Oral", capsule: "Oral",
+    syp: "Oral", syr: "Oral", syrup: "Oral", susp: "Oral",
+    inj: "Injection", injection: "Injection",
+    oint: "Topical", ointment: "Topical", cream: "Topical", gel: "Topical",
+    drop: "Drops", drops: "Drops",
+};
+
+// "Tab. Metformin 500 mg 1-0-1 x 30 days" — form, name (1–2 words), optional strength
+const MEDICATION_LINE =
+    /\b(tab|tablet|cap|capsule|syp|syr|syrup|susp|inj|injection|oint|ointment|cream|gel|drops?)\b\.?\s+([A-Za-z][A-Za-z0-9\-]{2,}(?:\s+(?!\d)[A-Za-z][A-Za-z0-9\-]{2,})?)\s*(\d+(?:\.\d+)?\s*(?:mg|mcg|g|ml|iu|%))?/gi;
+const FREQUENCY =
+    /\b(OD|BD|BID|TDS|TID|QID|SOS|HS|STAT|once daily|twice daily|thrice daily|[01]\s*-\s*[01]\s*-\s*[01])\b/i;
+const DURATION = /\b(?:x|for)\s*(\d+\s*(?:days?|weeks?|months?))\b/i;
+const INSTRUCTION = /\b(before food|after food|empty stomach|with food|at bedtime|AC|PC)\b/i;
+
+const DIAGNOSIS_LINE =
+    /^\s*(?:diagnosis|dx|provisional diagnosis|final diagnosis|impression|c\/o|complaints?)\s*[:\-]\s*(.+)$/gim;
+
+// Canonical names for common panels and analytes on Indian lab reports
+const LAB_TESTS: [string, RegExp][] = [
+    ["CBC", /\b(cbc|complete blood count)\b/i],
+    ["Hemoglobin", /\bh(a)?emoglobin\b|\bhb\b/i],
+    ["HbA1c", /\bhba1c\b|glycated h(a)?emoglobin/i],
+    ["Fasting Blood Sugar", /\b(fbs|fasting (blood )?(sugar|glucose))\b/i],
+    ["Postprandial Blood Sugar", /\b(ppbs|post.?prandial)\b/i],
+    ["Creatinine", /\bcreatinine\b/i],
+    ["Urea", /\b(blood )?urea\b/i],
+    ["TSH", /\btsh\b/i],
+    ["Total Cholesterol", /\b(total )?cholesterol\b/i],
+    ["Triglycerides", /\btriglycerides?\b/i],
+    ["HDL", /\bhdl\b/i],
+    ["LDL", /\bldl\b/i],
+    ["SGPT", /\b(sgpt|alt)\b/i],
+    ["SGOT", /\b(sgot|ast)\b/i],
+    ["Bilirubin", /\bbilirubin\b/i],
+    ["Platelet Count", /\bplatelets?\b/i],
+    ["WBC", /\b(wbc|tlc|total leu[ck]ocyte count)\b/i],
+    ["ESR", /\besr\b/i],
+    ["Vitamin D", /\bvitamin\s*d\b|25.?oh/i],
+    ["Vitamin B12", /\bvitamin\s*b\s*12\b/i],
+    ["Uric Acid", /\buric acid\b/i],
+    ["Sodium", /\bsodium\b/i],
+    ["Potassium", /\bpotassium\b/i],
+];
+
+/** Medications from "Tab./Cap./Syp. Name strength frequency duration" lines. */
+export function findMedications(text: string): MedicationDetail[] {
+    const meds: MedicationDetail[] = [];
+    for (const line of text.split("\n")) {
+        MEDICATION_LINE.lastIndex = 0;
+        const m = MEDICATION_LINE.exec(line);
+        if (!m) continue;
+        const name = m[2].trim();
+        if (meds.some(x => x.name.toLowerCase() === name.toLowerCase())) continue;
+        const rest = line.slice(m.index + m[0].length);
+        meds.push({
+            name,
+            dosage: m[3]?.replace(/\s+/g, ""),
+            frequency: rest.match(FREQUENCY)?.[1]?.replace(/\s+/g, ""),
+            duration: rest.match(DURATION)?.[1],
+            route: FORM_ROUTE[m[1].toLowerCase()],
+            instructions: rest.match(INSTRUCTION)?.[1],
+        });
+    }
+    return meds;
+}
+
+/** Conditions listed after "Diagnosis:", "Dx:", "Impression:" or "C/o". */
+export function findDiagnoses(text: string): string[] {
+    const found: string[] = [];
+    let m: RegExpExecArray | null;
+    DIAGNOSIS_LINE.lastIndex = 0;
+    while ((m = DIAGNOSIS_LINE.exec(text)) !== null) {
+        for (const part of m[1].split(/[,;]| and /)) {
+            const d = part.replace(/[.\s]+$/, "").trim();
+            if (d.length >= 3 && d.length <= 60 && !found.includes(d)) found.push(d);
+        }
+    }
+    return found;
+}
+
+/** Known test names mentioned anywhere in the text, canonicalised. */
+export function findLabTests(text: string): string[] {
+    return LAB_TESTS.filter(([, pattern]) => pattern.test(text)).map(([name]) => name);
+}
+
+/** Words following "allergy"/"allergic" — a coarse heuristic, not a parser. */
+export function findAllergies(text: string): string[] {
+    const allergies: string[] = [];
+    const allergySection = text.match(/allerg[yi][^\n]{0,200}/gi) ?? [];
+    for (const chunk of allergySection) {
+        const words = chunk.replace(/allerg[yi]/i, "").trim().split(/[\s,;]+/);
+        allergies.push(...words.filter(w => w.length > 2).slice(0, 5));
+    }
+    return [...new Set(allergies)];
+}
@@ -0,0 +1,63 @@
+// ============================================================
+// Extraction Provider Contracts
+// The three engines the Med-Vision pipeline depends on. Each
+// has an AWS implementation and a local one that needs no
+// network or credentials.
+// ============================================================
+
+import type { OCRSource } from "../types/medvision";
+import type { MedicationDetail } from "../types/timeline";
+
+/** One page of an upload: a photo, or one page split out of a PDF */
+export interface SourcePage {
+    bytes: Buffer;
+    format: "image" | "pdf";
+}
+
+/** Clinical entities found in a page of text */
+export interface MedicalEntities {
+    medications: MedicationDetail[];
+    diagnoses: string[];
+    labEntities: string[];   // raw test/procedure names
+    allergies: string[];
+}
+
+/** What a vision model reads off a photo before OCR */
+export interface VisionAnalysis {
+    documentCategory: 'scan' | 'document' | 'unknown'; // is this a medical imaging scan or a text document?
+    modality?: string;   // X-Ray, MRI, CT Scan, Ultrasound, etc.
+    bodyPart?: string;   // Chest, Abdomen, Right Knee, Brain, etc.
+    findings?: string;   // Visible pathology or normal
+    impression?: string; // One-line clinical summary
+    prescriptionText?: string;       // Full handwritten text reading for prescriptions
+    extractedMedications?: string[]; // Medications extracted by vision model
+    title: string;       // e.g. "Chest X-Ray – Bilateral Pleural Effusion (Fluid Around Lungs)"
+}
+
+export interface OcrProvider {
+    readonly source: OCRSource;
+    /** Plain text of one page, one line per detected text line. */
+    extractText(page: SourcePage): Promise<string>;
+}
+
+export interface MedicalNerProvider {
+    readonly name: string;
+    /** Never throws — an engine failure yields empty entities. */
+    detectEntities(text: string): Promise<MedicalEntities>;
+}
+
+export interface VisionProvider {
+    readonly name: string;
+    /** @param jpegBytes  JPEG photo; null when the engine cannot help */
+    analyzeImage(jpegBytes: Buffer): Promise<VisionAnalysis | null>;
+}
+
+export interface ExtractionProviders {
+    ocr: OcrProvider;
+    ner: MedicalNerProvider;
+    vision: VisionProvider;
+}
+
+export function emptyEntities(): MedicalEntities {
+    return { medications: [], diagnoses: [], labEntities: [], allergies: [] };
+}
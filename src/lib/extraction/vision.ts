@@ -0,0 +1,64 @@
+// ============================================================
+// LLM Vision — clinical image analysis
+// Sends the photo to the "vision" LLM chain (LLM_VISION, or the
+// LLM_PROVIDER default: Kimi K2.5 then Nova Pro on Bedrock) and
+// reads back a VisionAnalysis.
+// ============================================================
+
+import { completeJSON } from "../llm";
+import type { VisionAnalysis, VisionProvider } from "./types";
+
+// Set once every model refuses for account reasons, so later uploads don't wait on it
+let visionDisabledReason: string | null =
+    process.env.DISABLE_BEDROCK_VISION === "true" ? "Disabled by DISABLE_BEDROCK_VISION" : null;
+
+const VISION_PROMPT = `You are an expert Indian medical document reader with decades of experience reading doctor handwriting, prescriptions, lab reports, hospital records, and medical imaging scans.
+
+Look at this image carefully. First determine what kind of document this is, then extract every detail.
+
+IMPORTANT RULES FOR PRESCRIPTIONS & HANDWRITTEN DOCUMENTS:
+- Indian doctors often write in cursive English or mixed Hindi-English (Hinglish).
+- Common abbreviations: OD = once daily, BD = twice daily, TDS = three times a day, QID = four times daily, SOS = as needed, HS = at bedtime, AC = before food, PC = after food, stat = immediately.
+- Tab = Tablet, Cap = Capsule, Inj = Injection, Syr = Syrup, Oint = Ointment.
+- Read medications character by character if handwriting is unclear. Guess the most likely drug name.
+- Look for Rx symbol (℞) which marks the start of prescriptions.
+- Extract ALL medications, dosages, frequencies, and duration even if partially legible.
+
+Respond ONLY with a valid JSON object (no markdown fences, no explanation):
+{
+  "documentCategory": "<scan|document|unknown>",
+  "modality": "<X-Ray|MRI|CT Scan|Ultrasound|PET Scan|Mammogram|Echo|Other — null if not a scan>",
+  "bodyPart": "<specific body region, e.g. Chest, Right Knee, Brain — null if not a scan>",
+  "findings": "<clinical description of visible pathology — null if not a scan>",
+  "impression": "<one-sentence clinical impression — null if not a scan>",
+  "prescriptionText": "<for prescriptions/handwritten docs: your best reading of ALL handwritten text, line by line, preserving medication names, dosages, and instructions exactly as written — null if not applicable>",
+  "extractedMedications": ["<med1 name dosage frequency duration>", "<med2 ...>"],
+  "title": "<descriptive title: for scans use 'Modality BodyPart – Finding (Plain English)' e.g. 'Chest X-Ray – Bilateral Pleural Effusion (Fluid Around Lungs)'; for prescriptions use 'Prescription – Dr. Name – keyMeds' e.g. 'Prescription – Dr. Sharma – Metformin, Amlodipine'; for lab reports use 'Lab Report – testNames' e.g. 'Lab Report – CBC, Lipid Panel'; for other docs describe the content>"
+}
+Always include a title. Read every word and number you can see.`;
+
+export const llmVision: VisionProvider = {
+    name: "llm",
+    async analyzeImage(jpegBytes: Buffer): Promise<VisionAnalysis | null> {
+        if (visionDisabledReason) return null;
+
+        try {
+            const { data, model, provider } = await completeJSON<VisionAnalysis>(
+                [{ role: "user", content: VISION_PROMPT, images: [{ bytes: jpegBytes, format: "jpeg" }] }],
+                { task: "vision", maxTokens: 1024, temperature: 0.1 }
+            );
+            if (!data) throw new Error(`${provider}:${model} did not return JSON`);
+            console.info(`[Vision] ${provider}:${model} succeeded`);
+            return data;
+        } catch (e) {
+            // complete() throws the last model's error, so this is the whole chain failing
+            const message = (e as Error).message ?? "Unknown vision error";
+            if (/INVALID_PAYMENT_INSTRUMENT|AWS Marketplace subscription|Model access is denied|Access denied/i.test(message)) {
+                visionDisabledReason = message;
+                console.warn("[Vision] disabled for this server session:", message);
+            }
+            console.warn("[Vision] analysis failed:", message);
+            return null;
+        }
+    },
+};
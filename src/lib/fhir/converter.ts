@@ -1,6 +1,7 @@
 // ============================================================
 // FHIR Converter
 // Transforms ClinicalEntities (from Comprehend) → FHIR Resources
+// Lab observations carry LOINC codes and UCUM units (lib/labs)
 // ============================================================
 
 import type { ClinicalEntities, Medication, Diagnosis, LabResult, VitalSign, Procedure } from "../types/medvision";
@@ -13,6 +14,7 @@ import type {
     FHIRDocumentReference,
     FHIRReference,
 } from "./types";
+import { findAnalyte, toCanonical } from "../labs";
 import { v4 as uuidv4 } from "uuid";
 
 const PATIENT_REF = (patientId: string): FHIRReference => ({
@@ -124,6 +126,10 @@ function toLabObservation(
     date: string
 ): FHIRObservation {
     const value = parseFloat(lab.value);
+    // LOINC-coded, with the value in the test's canonical UCUM unit when
+    // the catalogue knows both — so results from different labs line up
+    const analyte = findAnalyte(lab.testName);
+    const canonical = analyte && !isNaN(value) ? toCanonical(analyte, value, lab.unit || undefined) : undefined;
 
     return {
         resourceType: "Observation",
@@ -140,12 +146,25 @@ function toLabObservation(
                 ],
             },
         ],
-        code: { text: lab.testName },
+        code: {
+            text: lab.testName,
+            ...(analyte && {
+                coding: [
+                    {
+                        system: "http://loinc.org",
+                        code: analyte.loinc,
+                        display: analyte.name,
+                    },
+                ],
+            }),
+        },
         subject: PATIENT_REF(patientId),
         effectiveDateTime: date,
         ...(isNaN(value)
             ? { valueString: lab.value }
-            : { valueQuantity: { value, unit: lab.unit } }),
+            : analyte && canonical !== undefined
+                ? { valueQuantity: { value: canonical, unit: analyte.unit, system: "http://unitsofmeasure.org", code: analyte.ucum } }
+                : { valueQuantity: { value, unit: lab.unit } }),
         ...(lab.referenceRange && {
             referenceRange: [{ text: lab.referenceRange }],
         }),
@@ -22,6 +22,7 @@ export interface Translations {
     notif_title: string;
     notif_mark_all: string;
     notif_view_all: string;
+    notif_empty: string;
     // User card menu
     my_profile: string;
     sign_out: string;
@@ -54,6 +55,7 @@ const en: Translations = {
     notif_title: "Notifications",
     notif_mark_all: "Mark all read",
     notif_view_all: "View all notifications",
+    notif_empty: "You're all caught up",
     my_profile: "My Profile",
     sign_out: "Sign Out",
     page_dashboard: "Dashboard",
@@ -83,6 +85,7 @@ const hi: Translations = {
     notif_title: "सूचनाएं",
     notif_mark_all: "सभी पढ़ा हुआ चिह्नित करें",
     notif_view_all: "सभी सूचनाएं देखें",
+    notif_empty: "कोई नई सूचना नहीं",
     my_profile: "मेरी प्रोफ़ाइल",
     sign_out: "साइन आउट",
     page_dashboard: "डैशबोर्ड",
@@ -112,6 +115,7 @@ const ta: Translations = {
     notif_title: "அறிவிப்புகள்",
     notif_mark_all: "அனைத்தும் படித்தாகவே கருதுக",
     notif_view_all: "அனைத்து அறிவிப்புகளையும் காண்க",
+    notif_empty: "புதிய அறிவிப்புகள் இல்லை",
     my_profile: "என் சுயவிவரம்",
     sign_out: "வெளியேறு",
     page_dashboard: "டாஷ்போர்டு",
@@ -141,6 +145,7 @@ const te: Translations = {
     notif_title: "నోటిఫికేషన్లు",
     notif_mark_all: "అన్నీ చదివినట్లు గుర్తించు",
     notif_view_all: "అన్ని నోటిఫికేషన్లు చూడండి",
+    notif_empty: "కొత్త నోటిఫికేషన్లు లేవు",
     my_profile: "నా ప్రొఫైల్",
     sign_out: "సైన్ అవుట్",
     page_dashboard: "డాష్‌బోర్డ్",
@@ -170,6 +175,7 @@ const bn: Translations = {
     notif_title: "বিজ্ঞপ্তি",
     notif_mark_all: "সব পড়া হিসেবে চিহ্নিত করুন",
     notif_view_all: "সব বিজ্ঞপ্তি দেখুন",
+    notif_empty: "কোনো নতুন বিজ্ঞপ্তি নেই",
     my_profile: "আমার প্রোফাইল",
     sign_out: "সাইন আউট",
     page_dashboard: "ড্যাশবোর্ড",
@@ -199,6 +205,7 @@ const mr: Translations = {
     notif_title: "सूचना",
     notif_mark_all: "सर्व वाचले म्हणून चिन्हांकित करा",
     notif_view_all: "सर्व सूचना पाहा",
+    notif_empty: "कोणत्याही नवीन सूचना नाहीत",
     my_profile: "माझी प्रोफाइल",
     sign_out: "साइन आउट",
     page_dashboard: "डॅशबोर्ड",
@@ -228,6 +235,7 @@ const gu: Translations = {
     notif_title: "સૂચનાઓ",
     notif_mark_all: "બધા વાંચ્યા તરીકે ચિહ્નિત કરો",
     notif_view_all: "બધી સૂચનાઓ જુઓ",
+    notif_empty: "કોઈ નવી સૂચના નથી",
     my_profile: "મારી પ્રોફાઇલ",
     sign_out: "સાઇન આઉટ",
     page_dashboard: "ડૅશબોર્ડ",
@@ -257,6 +265,7 @@ const kn: Translations = {
     notif_title: "ಅಧಿಸೂಚನೆಗಳು",
     notif_mark_all: "ಎಲ್ಲವನ್ನೂ ಓದಿದ ರೀತಿ ಗುರುತಿಸಿ",
     notif_view_all: "ಎಲ್ಲ ಅಧಿಸೂಚನೆಗಳನ್ನು ವೀಕ್ಷಿಸಿ",
+    notif_empty: "ಹೊಸ ಅಧಿಸೂಚನೆಗಳಿಲ್ಲ",
     my_profile: "ನನ್ನ ಪ್ರೊಫೈಲ್",
     sign_out: "ಸೈನ್ ಔಟ್",
     page_dashboard: "ಡ್ಯಾಶ್‌ಬೋರ್ಡ್",
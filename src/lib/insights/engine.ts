@@ -0,0 +1,364 @@
+// ============================================================
+// Insights Engine
+// Deterministic rules over a patient's records: trends moving
+// out of (or back into) range, abnormal lab results, overdue
+// follow-ups, long-running medicines due a review, interactions
+// among current medicines, and vaccines and screenings due
+// on the patient's preventive schedule.
+// Every insight cites the entries and values behind it and has
+// a stable id, so a re-run updates it rather than adding another.
+// Pure — the server runs it over readable entries, the patient's
+// device over the decrypted timeline (see InsightsCard).
+// ============================================================
+
+import { findAnalyte, labKey } from "../labs";
+import type { LabDemographics } from "../labs";
+import { activeCourses, reconcileMedications } from "../medications/courses";
+import { checkCourses, interactionInsights } from "../medications/interactions";
+import { buildTrends } from "../trends/build";
+import type { TrendCheckup } from "../trends/build";
+import { addDaysIso, fmtDate } from "../utils/date";
+import type { DataPoint, HealthInsight, InsightType } from "../types/rag";
+import type { DocumentTypeTag, EntryMetadata, LabTestResult } from "../types/timeline";
+import type { TrendPoint, TrendSeries } from "../types/trends";
+import { buildPreventiveSchedule, SCREENINGS } from "../preventive";
+import type { PreventiveItem } from "../types/preventive";
+import { parseFollowUp } from "./followUp";
+
+/** The parts of an entry the rules read — a HealthEntry fits */
+export interface InsightEntry {
+    entryId: string;
+    date: string;
+    title?: string;
+    doctorName?: string;
+    documentType?: DocumentTypeTag;
+    metadata?: Pick<EntryMetadata,
+        "labTests" | "vitals" | "followUpDate" | "medications" | "treatmentPlan" | "advice" |
+        "dischargeInstructions" | "allergies" | "modality" | "procedures" |
+        "vaccineName" | "doseNumber" | "nextDueDate">;
+}
+
+export interface InsightSources {
+    patientId: string;
+    entries: InsightEntry[];
+    checkups?: TrendCheckup[];
+    /** Allergies recorded outside the entries, e.g. the emergency profile */
+    allergies?: string[];
+    demographics?: LabDemographics;
+    /** Places the vaccine and screening schedule; without it neither is checked */
+    birthDate?: string;
+    today?: string;   // YYYY-MM-DD
+}
+
+// Rules that report something missing from the record rather than
+// something on it. Only a reader of the whole timeline can say that.
+export const ABSENCE_TYPES: InsightType[] = ["missed_followup", "medication_review", "preventive_care"];
+
+const TREND_WINDOW = 6;
+const TREND_MIN_POINTS = 3;
+// An in-range value this close to a limit, and heading for it, is worth a note
+const NEAR_LIMIT_PCT = 10;
+
+const ABNORMAL_LOOKBACK_DAYS = 730;
+const RECHECK_DAYS = 180;
+
+const FOLLOWUP_GRACE_DAYS = 7;
+const FOLLOWUP_LOOKBACK_DAYS = 365;
+const FOLLOWUP_LATE_DAYS = 30;
+// A visit this soon before the due date still counts as the follow-up
+const FOLLOWUP_EARLY_DAYS = 7;
+
+const LONG_TERM_DAYS = 180;
+const REVIEW_AFTER_DAYS = 90;
+
+const SEVERITY_ORDER: Record<HealthInsight["severity"], number> = { alert: 0, warning: 1, info: 2 };
+
+type Draft = Pick<HealthInsight, "insightId" | "type" | "title" | "description" | "severity" | "relatedEntryIds" | "dataPoints">;
+
+function dayOf(date: string): string {
+    return date.split("T")[0];
+}
+
+function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+function toDataPoint(p: TrendPoint): DataPoint {
+    return { label: p.label, value: p.value, unit: p.unit, date: p.date, entryId: p.entryId, ...(p.loinc && { loinc: p.loinc }) };
+}
+
+/** Entries a set of points came from — checkup rows have none to open */
+function entryIdsOf(points: TrendPoint[]): string[] {
+    return [...new Set(points.filter((p) => p.source !== "checkup").map((p) => p.entryId))];
+}
+
+function fmtPoint(p: { value: number; unit: string }): string {
+    return `${p.value}${!p.unit ? "" : p.unit === "%" ? "%" : ` ${p.unit}`}`;
+}
+
+function fmtRange(range?: { low?: number; high?: number }): string | undefined {
+    if (!range || (range.low === undefined && range.high === undefined)) return undefined;
+    if (range.low !== undefined && range.high !== undefined) return `${range.low}–${range.high}`;
+    return range.low !== undefined ? `above ${range.low}` : `below ${range.high}`;
+}
+
+// ---- Trends ----
+
+function trendDraft(s: TrendSeries): Draft | undefined {
+    if (s.key === "vital:height" || s.points.length < TREND_MIN_POINTS) return undefined;
+    if (s.direction !== "rising" && s.direction !== "falling") return undefined;
+
+    const recent = s.points.slice(-TREND_WINDOW);
+    const first = recent[0];
+    const latest = recent[recent.length - 1];
+    const rising = s.direction === "rising";
+    let severity: HealthInsight["severity"] = "info";
+    let note: string;
+
+    if (s.assessment === "worsening") {
+        severity = "warning";
+        note = `now ${rising ? "above" : "below"} the typical range (${fmtRange(s.range)}) and still moving away from it`;
+    } else if (s.assessment === "improving") {
+        note = `moving back toward the typical range (${fmtRange(s.range)})`;
+    } else {
+        const limit = rising ? s.range?.high : s.range?.low;
+        if (limit === undefined) return undefined;
+        const inRange = rising ? latest.value <= limit : latest.value >= limit;
+        if (!inRange || Math.abs(limit - latest.value) > Math.abs(limit) * NEAR_LIMIT_PCT / 100) return undefined;
+        note = `still in range, but close to the ${rising ? "upper" : "lower"} limit of ${limit}`;
+    }
+
+    return {
+        insightId: `trend#${s.key}`,
+        type: rising ? "trend_rising" : "trend_declining",
+        title: `${s.name} ${rising ? "rising" : "falling"}`,
+        description: `${s.name} went from ${fmtPoint(first)} to ${fmtPoint(latest)} over ${recent.length} results since ${fmtDate(first.date)} — ${note}.`,
+        severity,
+        relatedEntryIds: entryIdsOf(recent),
+        dataPoints: recent.map(toDataPoint),
+    };
+}
+
+// ---- Abnormal labs ----
+
+function abnormalSeriesDraft(s: TrendSeries, today: string): Draft | undefined {
+    const latest = s.points[s.points.length - 1];
+    if (!latest || (latest.status !== "High" && latest.status !== "Low" && latest.status !== "Critical")) return undefined;
+    if (latest.date < addDaysIso(today, -ABNORMAL_LOOKBACK_DAYS)) return undefined;
+
+    const critical = latest.status === "Critical";
+    const range = fmtRange(s.range);
+    const parts = [`${latest.label}: ${fmtPoint(latest)} on ${fmtDate(latest.date)}${range ? `, typical range ${range} ${s.unit}` : ""}.`];
+    if (s.streak) parts.push(`It has been out of range on the last ${s.streak.count} results, since ${fmtDate(s.streak.since)}.`);
+    if (latest.date < addDaysIso(today, -RECHECK_DAYS)) parts.push("It has not been rechecked since.");
+    parts.push(critical ? "Contact your doctor promptly." : "Discuss it with your doctor.");
+
+    const recent = s.points.slice(-TREND_WINDOW);
+    return {
+        insightId: `abnormal_lab#${s.key}`,
+        type: "abnormal_lab",
+        title: critical ? `${s.name} at a critical level` : `${s.name} ${latest.status === "High" ? "high" : "low"}`,
+        description: parts.join(" "),
+        severity: critical ? "alert" : "warning",
+        relatedEntryIds: entryIdsOf(s.streak ? s.points.slice(-s.streak.count) : [latest]),
+        dataPoints: recent.map(toDataPoint),
+    };
+}
+
+/** Flagged rows for tests the LOINC catalogue doesn't know, latest result per test */
+function uncataloguedDrafts(entries: InsightEntry[], today: string): Draft[] {
+    const latest = new Map<string, { entry: InsightEntry; row: LabTestResult }>();
+    for (const entry of entries) {
+        for (const row of entry.metadata?.labTests ?? []) {
+            if (row.loinc || findAnalyte(row.canonicalName ?? row.name)) continue;
+            const key = labKey(row.name).replace(/ /g, "_");
+            const seen = latest.get(key);
+            if (key && (!seen || seen.entry.date <= entry.date)) latest.set(key, { entry, row });
+        }
+    }
+
+    const drafts: Draft[] = [];
+    for (const [key, { entry, row }] of latest) {
+        if (row.status !== "High" && row.status !== "Low" && row.status !== "Critical") continue;
+        const date = dayOf(entry.date);
+        if (date < addDaysIso(today, -ABNORMAL_LOOKBACK_DAYS)) continue;
+        const critical = row.status === "Critical";
+        const value = parseFloat(row.value ?? "");
+        drafts.push({
+            insightId: `abnormal_lab#${key}`,
+            type: "abnormal_lab",
+            title: critical ? `${row.name} at a critical level` : `${row.name} ${row.status === "High" ? "high" : "low"}`,
+            description: `${row.name}: ${[row.value, row.unit].filter(Boolean).join(" ")} on ${fmtDate(date)}` +
+                `${row.referenceRange ? `, report range ${row.referenceRange}` : ""}. ` +
+                (critical ? "Contact your doctor promptly." : "Discuss it with your doctor."),
+            severity: critical ? "alert" : "warning",
+            relatedEntryIds: [entry.entryId],
+            dataPoints: isNaN(value) ? [] : [{ label: row.name, value, unit: row.unit ?? "", date, entryId: entry.entryId }],
+        });
+    }
+    return drafts;
+}
+
+// ---- Follow-ups ----
+
+function followUpDrafts(entries: InsightEntry[], checkups: TrendCheckup[], today: string): Draft[] {
+    const visits = [
+        ...entries.map((e) => ({ id: e.entryId, date: dayOf(e.date) })),
+        ...checkups.map((c) => ({ id: `checkup:${c.checkupId}`, date: dayOf(c.recordedAt) })),
+    ];
+    const drafts: Draft[] = [];
+    for (const entry of entries) {
+        const text = entry.metadata?.followUpDate;
+        const visitDate = dayOf(entry.date);
+        const due = parseFollowUp(text, visitDate);
+        if (!due || due <= visitDate) continue;
+        if (due > addDaysIso(today, -FOLLOWUP_GRACE_DAYS) || due < addDaysIso(today, -FOLLOWUP_LOOKBACK_DAYS)) continue;
+
+        const earliest = addDaysIso(due, -FOLLOWUP_EARLY_DAYS);
+        if (visits.some((v) => v.id !== entry.entryId && v.date > visitDate && v.date >= earliest)) continue;
+
+        const overdue = daysBetween(due, today);
+        const asWritten = text && !text.includes(due) ? ` ("${text.trim()}")` : "";
+        drafts.push({
+            insightId: `missed_followup#${entry.entryId}`,
+            type: "missed_followup",
+            title: `Follow-up overdue${entry.title ? `: ${entry.title}` : ""}`,
+            description: `${entry.doctorName ?? "Your doctor"} asked to see you again by ${fmtDate(due)}${asWritten}, ` +
+                `${overdue} days ago. Nothing newer is on your record — book the visit if it hasn't happened.`,
+            severity: overdue > FOLLOWUP_LATE_DAYS ? "warning" : "info",
+            relatedEntryIds: [entry.entryId],
+            dataPoints: [],
+        });
+    }
+    return drafts;
+}
+
+// ---- Medicines ----
+
+function medicationDrafts(entries: InsightEntry[], allergies: string[], patientId: string, today: string): Draft[] {
+    const active = activeCourses(reconcileMedications(entries, today));
+    const drafts: Draft[] = interactionInsights(patientId, checkCourses(active, allergies));
+
+    for (const c of active) {
+        if (c.startDate > addDaysIso(today, -LONG_TERM_DAYS)) continue;
+        if (c.lastPrescribedDate > addDaysIso(today, -REVIEW_AFTER_DAYS)) continue;
+        drafts.push({
+            insightId: `medication_review#${c.key}`,
+            type: "medication_review",
+            title: `Time to review ${c.name}`,
+            description: `You have been taking ${c.name} since ${fmtDate(c.startDate)}; ` +
+                `it was last prescribed on ${fmtDate(c.lastPrescribedDate)}. A medicine taken long-term needs a periodic check that it and its dose still suit you.`,
+            severity: "info",
+            relatedEntryIds: c.sourceEntryIds,
+            dataPoints: [],
+        });
+    }
+    return drafts;
+}
+
+// ---- Preventive care ----
+
+// Doses named in one vaccine insight; the rest are counted
+const MAX_LISTED_DOSES = 4;
+
+function doseLabel(item: PreventiveItem): string {
+    return item.dose ? `${item.name} (${item.dose.toLowerCase()})` : item.name;
+}
+
+function listDoses(items: PreventiveItem[], describe: (item: PreventiveItem) => string): string {
+    const listed = items.slice(0, MAX_LISTED_DOSES).map(describe).join("; ");
+    const more = items.length - MAX_LISTED_DOSES;
+    return more > 0 ? `${listed}; and ${more} more` : listed;
+}
+
+function preventiveDrafts(items: PreventiveItem[], today: string): Draft[] {
+    const drafts: Draft[] = [];
+
+    for (const item of items) {
+        const rule = SCREENINGS.find((r) => `screening:${r.id}` === item.id);
+        if (!rule || item.status === "completed" || item.status === "upcoming") continue;
+        drafts.push({
+            insightId: `preventive_care#${rule.id}`,
+            type: "preventive_care",
+            title: `${rule.name} ${item.completedDate ? (item.status === "overdue" ? "overdue" : "due") : "recommended"}`,
+            description: (item.completedDate
+                ? `Your last ${rule.name.toLowerCase()} on record was on ${fmtDate(item.completedDate)}. `
+                : `There is no ${rule.name.toLowerCase()} on your record. `) +
+                `${rule.reason} It is suggested ${item.when}.`,
+            severity: "info",
+            relatedEntryIds: item.entryId ? [item.entryId] : [],
+            dataPoints: item.evidence ? [item.evidence] : [],
+        });
+    }
+
+    // Vaccines are grouped: a child can have several doses fall due on one visit
+    const vaccines = items.filter((i) => i.kind === "vaccine");
+    const earlierDoses = (pending: PreventiveItem[]) => {
+        const names = new Set(pending.map((i) => i.name));
+        return [...new Set(vaccines.filter((i) => names.has(i.name) && i.entryId).map((i) => i.entryId!))];
+    };
+    const overdue = vaccines.filter((i) => i.status === "overdue");
+    if (overdue.length > 0) {
+        drafts.push({
+            insightId: "preventive_care#vaccines_overdue",
+            type: "preventive_care",
+            title: overdue.length === 1 ? `${overdue[0].name} vaccine overdue` : `${overdue.length} vaccine doses overdue`,
+            description: `${listDoses(overdue, (i) => `${doseLabel(i)} was due on ${fmtDate(i.dueDate)}`)}. ` +
+                (overdue.length === 1
+                    ? "If it was given, add the vaccination record; otherwise ask your doctor about a catch-up dose."
+                    : "If they were given, add the vaccination records; otherwise ask your doctor about catch-up doses."),
+            severity: "warning",
+            relatedEntryIds: earlierDoses(overdue),
+            dataPoints: [],
+        });
+    }
+    const due = vaccines.filter((i) => i.status === "due");
+    if (due.length > 0) {
+        drafts.push({
+            insightId: "preventive_care#vaccines_due",
+            type: "preventive_care",
+            title: due.length === 1 ? `${due[0].name} vaccine due` : `${due.length} vaccine doses due`,
+            description: `${listDoses(due, (i) => `${doseLabel(i)}, ${i.when.toLowerCase()}`)}. ` +
+                `Due as of ${fmtDate(due.reduce((d, i) => (i.dueDate && i.dueDate < d ? i.dueDate : d), today))}.`,
+            severity: "info",
+            relatedEntryIds: earlierDoses(due),
+            dataPoints: [],
+        });
+    }
+    return drafts;
+}
+
+/**
+ * Every insight the rules find in the sources, most severe first.
+ * Ids are "<type>#<subject>" — the trend or test, entry, medicine,
+ * screening or vaccine group — so the same finding keeps its id across runs.
+ */
+export function generateInsights(sources: InsightSources, now: string = new Date().toISOString()): HealthInsight[] {
+    const today = sources.today ?? now.split("T")[0];
+    const who = sources.demographics ?? {};
+    const checkups = sources.checkups ?? [];
+    const series = buildTrends({ entries: sources.entries, checkups }, who);
+    const schedule = buildPreventiveSchedule({ entries: sources.entries, checkups, birthDate: sources.birthDate, sex: who.sex, today });
+    const allergies = [...new Set([...(sources.allergies ?? []), ...sources.entries.flatMap((e) => e.metadata?.allergies ?? [])])];
+
+    const trends = series.map(trendDraft).filter((d): d is Draft => !!d);
+    // A series already reported as moving out of range isn't repeated as abnormal unless critical
+    const moving = new Set(trends.filter((d) => d.severity === "warning").map((d) => d.insightId.slice("trend#".length)));
+    const abnormal = series
+        .filter((s) => s.kind === "lab")
+        .map((s) => abnormalSeriesDraft(s, today))
+        .filter((d): d is Draft => !!d && (d.severity === "alert" || !moving.has(d.insightId.slice("abnormal_lab#".length))));
+
+    const drafts = [
+        ...trends,
+        ...abnormal,
+        ...uncataloguedDrafts(sources.entries, today),
+        ...followUpDrafts(sources.entries, checkups, today),
+        ...medicationDrafts(sources.entries, allergies, sources.patientId, today),
+        ...preventiveDrafts(schedule.items, today),
+    ];
+
+    return drafts
+        .map((d): HealthInsight => ({ ...d, patientId: sources.patientId, generatedAt: now, isRead: false, isDismissed: false }))
+        .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
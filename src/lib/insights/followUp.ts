@@ -0,0 +1,60 @@
+// ============================================================
+// Follow-up Dates
+// Consultation notes write the follow-up as a date ("12/03/2026",
+// from the doctor's date picker as "2026-03-12") or as an interval
+// from the visit ("review after 2 weeks", "1/12", "in 10 days").
+// Both become an ISO due date; "SOS" and "if needed" do not.
+// ============================================================
+
+import { addDaysIso } from "../utils/date";
+
+const UNIT_DAYS: Record<string, number> = { d: 1, day: 1, w: 7, wk: 7, week: 7, m: 30, mo: 30, month: 30, y: 365, yr: 365, year: 365 };
+
+// Shorthand written as count/period: 3/7 days, 2/52 weeks, 1/12 months
+const SLASH_PERIOD_DAYS: Record<string, number> = { "7": 1, "52": 7, "12": 30 };
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function isoOf(year: number, month: number, day: number): string | undefined {
+    if (year < 100) year += 2000;
+    const d = new Date(Date.UTC(year, month - 1, day));
+    if (d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return undefined;
+    return d.toISOString().split("T")[0];
+}
+
+/**
+ * The date a follow-up falls due, or undefined when the text sets none.
+ *
+ * @param visitDate The entry's date — intervals count from it
+ */
+export function parseFollowUp(text: string | undefined, visitDate: string): string | undefined {
+    if (!text) return undefined;
+    const t = text.toLowerCase().trim();
+    if (/\b(sos|prn|if needed|as needed|if required)\b/.test(t)) return undefined;
+
+    let m = t.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+    if (m) return isoOf(Number(m[1]), Number(m[2]), Number(m[3]));
+
+    // Day first, as written in India
+    m = t.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+    if (m) return isoOf(Number(m[3]), Number(m[2]), Number(m[1]));
+
+    m = t.match(/\b(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3})[a-z]*,?\s+(\d{4})\b/);
+    if (m && MONTHS.includes(m[2])) return isoOf(Number(m[3]), MONTHS.indexOf(m[2]) + 1, Number(m[1]));
+
+    const visit = visitDate.split("T")[0];
+    m = t.match(/\b(\d{1,2})\s*\/\s*(7|52|12)\b/);
+    if (m) return addDaysIso(visit, Number(m[1]) * SLASH_PERIOD_DAYS[m[2]]);
+
+    m = t.match(/\b(\d{1,3}|a|one|two|three|six)\s*(days?|d|weeks?|wks?|w|months?|mo|m|years?|yrs?|y)\b/);
+    if (m) {
+        const words: Record<string, number> = { a: 1, one: 1, two: 2, three: 3, six: 6 };
+        const count = words[m[1]] ?? Number(m[1]);
+        const unit = m[2].replace(/s$/, "");
+        const days = UNIT_DAYS[unit];
+        if (days && count > 0) return addDaysIso(visit, count * days);
+    }
+    if (/\bnext week\b/.test(t)) return addDaysIso(visit, 7);
+    if (/\bnext month\b/.test(t)) return addDaysIso(visit, 30);
+    return undefined;
+}
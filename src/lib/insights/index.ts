@@ -0,0 +1,6 @@
+// ============================================================
+// Insights — Barrel
+// ============================================================
+
+export * from "./engine";
+export * from "./followUp";
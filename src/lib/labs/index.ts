@@ -0,0 +1,6 @@
+// ============================================================
+// Labs — Barrel
+// ============================================================
+
+export * from "./loincData";
+export * from "./normalize";
@@ -0,0 +1,433 @@
+// ============================================================
+// Lab Analyte Catalogue — bundled, versioned
+// The common tests on Indian lab reports, each with its LOINC
+// code, the name we show, the names reports use for it, one
+// canonical unit, conversions from the other units labs print,
+// and adult reference ranges for when a report leaves them out.
+// Aliases are lowercase words with punctuation removed and
+// "haem"/"oes" already folded to "hem"/"es" (see labKey()).
+// Bump the version with any change.
+// ============================================================
+
+export const LAB_DATA_VERSION = "2026.10.1";
+
+/** Multiply by `factor` (then add `offset`) to reach the canonical unit */
+export type UnitConversion = number | { factor: number; offset: number };
+
+export interface DefaultRange {
+    low?: number;
+    high?: number;
+    sex?: "male" | "female";
+    minAge?: number;   // years, inclusive
+    maxAge?: number;   // years, exclusive
+}
+
+export interface LabAnalyte {
+    loinc: string;
+    name: string;
+    aliases: string[];
+    /** Canonical unit as shown, and its UCUM code for FHIR */
+    unit: string;
+    ucum: string;
+    /** Other units, keyed by unitKey(), and how to convert them */
+    conversions?: Record<string, UnitConversion>;
+    /** Most specific first — the first one that fits the patient applies */
+    ranges?: DefaultRange[];
+    decimals?: number;
+}
+
+const GLUCOSE_MMOL = { mmoll: 18.016 };
+const CHOLESTEROL_MMOL = { mmoll: 38.67 };
+const PER_UL = { ul: 0.001, cellsul: 0.001, "10^3ul": 1, "10^9l": 1, lakhul: 100, "10^5ul": 100 };
+
+export const LAB_ANALYTES: LabAnalyte[] = [
+    // ---- Diabetes ----
+    {
+        loinc: "1558-6", name: "Fasting glucose", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["fasting glucose", "glucose fasting", "fasting blood sugar", "blood sugar fasting", "fasting blood glucose",
+            "fasting plasma glucose", "fbs", "fbg", "fpg", "sugar fasting", "glucose f"],
+        conversions: GLUCOSE_MMOL,
+        ranges: [{ low: 70, high: 100 }],
+    },
+    {
+        loinc: "1521-0", name: "Post-meal glucose", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["post prandial glucose", "postprandial glucose", "glucose post prandial", "glucose pp", "post prandial blood sugar",
+            "postprandial blood sugar", "blood sugar pp", "sugar pp", "ppbs", "ppbg", "plbs", "post prandial", "postprandial",
+            "glucose 2 hr", "glucose 2hr", "2 hr post meal glucose"],
+        conversions: GLUCOSE_MMOL,
+        ranges: [{ high: 140 }],
+    },
+    {
+        loinc: "2345-7", name: "Glucose", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["glucose", "blood sugar", "random blood sugar", "blood sugar random", "random glucose", "glucose random",
+            "rbs", "rbg", "plasma glucose", "blood glucose"],
+        conversions: GLUCOSE_MMOL,
+        ranges: [{ low: 70, high: 140 }],
+    },
+    {
+        loinc: "4548-4", name: "HbA1c", unit: "%", ucum: "%",
+        aliases: ["hba1c", "hb a1c", "a1c", "glycated hemoglobin", "glycosylated hemoglobin", "glycated hb", "glycosylated hb",
+            "glyco hemoglobin", "hemoglobin a1c"],
+        // IFCC mmol/mol → NGSP %
+        conversions: { mmolmol: { factor: 0.09148, offset: 2.152 } },
+        ranges: [{ low: 4, high: 5.6 }],
+        decimals: 1,
+    },
+
+    // ---- Complete blood count ----
+    {
+        loinc: "718-7", name: "Hemoglobin", unit: "g/dL", ucum: "g/dL",
+        aliases: ["hemoglobin", "hb", "hgb"],
+        conversions: { gl: 0.1, mmoll: 1.611 },
+        ranges: [
+            { low: 13, high: 17, sex: "male", minAge: 12 },
+            { low: 12, high: 15.5, sex: "female", minAge: 12 },
+            { low: 11, high: 14.5, maxAge: 12 },
+        ],
+        decimals: 1,
+    },
+    {
+        loinc: "6690-2", name: "White blood cells", unit: "×10³/µL", ucum: "10*3/uL",
+        aliases: ["wbc", "wbc count", "total wbc count", "white blood cells", "white blood cell count", "total leucocyte count",
+            "total leukocyte count", "tlc", "leucocytes", "leukocytes", "total count"],
+        conversions: PER_UL,
+        ranges: [{ low: 4, high: 11 }],
+        decimals: 1,
+    },
+    {
+        loinc: "789-8", name: "Red blood cells", unit: "×10⁶/µL", ucum: "10*6/uL",
+        aliases: ["rbc", "rbc count", "red blood cells", "red blood cell count", "total rbc count", "erythrocytes", "erythrocyte count"],
+        conversions: { millionul: 1, "10^6ul": 1, "10^12l": 1 },
+        ranges: [
+            { low: 4.5, high: 5.5, sex: "male" },
+            { low: 3.8, high: 4.8, sex: "female" },
+        ],
+        decimals: 2,
+    },
+    {
+        loinc: "777-3", name: "Platelets", unit: "×10³/µL", ucum: "10*3/uL",
+        aliases: ["platelets", "platelet count", "plt", "thrombocytes", "thrombocyte count"],
+        conversions: PER_UL,
+        ranges: [{ low: 150, high: 410 }],
+        decimals: 0,
+    },
+    {
+        loinc: "4544-3", name: "Hematocrit", unit: "%", ucum: "%",
+        aliases: ["hematocrit", "hct", "pcv", "packed cell volume"],
+        conversions: { ll: 100 },
+        ranges: [
+            { low: 40, high: 50, sex: "male" },
+            { low: 36, high: 46, sex: "female" },
+        ],
+        decimals: 1,
+    },
+    {
+        loinc: "787-2", name: "MCV", unit: "fL", ucum: "fL",
+        aliases: ["mcv", "mean corpuscular volume", "mean cell volume"],
+        ranges: [{ low: 83, high: 101 }],
+    },
+    {
+        loinc: "785-6", name: "MCH", unit: "pg", ucum: "pg",
+        aliases: ["mch", "mean corpuscular hemoglobin", "mean cell hemoglobin"],
+        ranges: [{ low: 27, high: 32 }],
+    },
+    {
+        loinc: "786-4", name: "MCHC", unit: "g/dL", ucum: "g/dL",
+        aliases: ["mchc", "mean corpuscular hemoglobin concentration", "mean cell hemoglobin concentration"],
+        conversions: { gl: 0.1 },
+        ranges: [{ low: 31.5, high: 34.5 }],
+    },
+    {
+        loinc: "770-8", name: "Neutrophils", unit: "%", ucum: "%",
+        aliases: ["neutrophils", "neutrophil", "polymorphs", "segmented neutrophils"],
+        ranges: [{ low: 40, high: 80 }],
+    },
+    {
+        loinc: "736-9", name: "Lymphocytes", unit: "%", ucum: "%",
+        aliases: ["lymphocytes", "lymphocyte"],
+        ranges: [{ low: 20, high: 40 }],
+    },
+    {
+        loinc: "4537-7", name: "ESR", unit: "mm/h", ucum: "mm/h",
+        aliases: ["esr", "erythrocyte sedimentation rate", "sedimentation rate"],
+        conversions: { mmhr: 1, mm1sthr: 1, mm1hr: 1 },
+        ranges: [
+            { high: 15, sex: "male" },
+            { high: 20, sex: "female" },
+        ],
+        decimals: 0,
+    },
+
+    // ---- Lipids ----
+    {
+        loinc: "2093-3", name: "Total cholesterol", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["cholesterol", "total cholesterol", "cholesterol total", "serum cholesterol"],
+        conversions: CHOLESTEROL_MMOL,
+        ranges: [{ high: 200 }],
+        decimals: 0,
+    },
+    {
+        loinc: "2085-9", name: "HDL cholesterol", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["hdl", "hdl cholesterol", "cholesterol hdl", "hdl c", "high density lipoprotein"],
+        conversions: CHOLESTEROL_MMOL,
+        ranges: [
+            { low: 40, sex: "male" },
+            { low: 50, sex: "female" },
+        ],
+        decimals: 0,
+    },
+    {
+        loinc: "2089-1", name: "LDL cholesterol", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["ldl", "ldl cholesterol", "cholesterol ldl", "ldl c", "low density lipoprotein", "ldl direct", "ldl calculated"],
+        conversions: CHOLESTEROL_MMOL,
+        ranges: [{ high: 100 }],
+        decimals: 0,
+    },
+    {
+        loinc: "13458-5", name: "VLDL cholesterol", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["vldl", "vldl cholesterol", "cholesterol vldl", "very low density lipoprotein"],
+        conversions: CHOLESTEROL_MMOL,
+        ranges: [{ high: 30 }],
+        decimals: 0,
+    },
+    {
+        loinc: "2571-8", name: "Triglycerides", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["triglycerides", "triglyceride", "tg", "trigs"],
+        conversions: { mmoll: 88.57 },
+        ranges: [{ high: 150 }],
+        decimals: 0,
+    },
+
+    // ---- Kidney ----
+    {
+        loinc: "2160-0", name: "Creatinine", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["creatinine", "serum creatinine", "creat"],
+        conversions: { umoll: 0.01131 },
+        ranges: [
+            { low: 0.7, high: 1.3, sex: "male" },
+            { low: 0.6, high: 1.1, sex: "female" },
+        ],
+        decimals: 2,
+    },
+    {
+        loinc: "3091-6", name: "Urea", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["urea", "blood urea", "serum urea"],
+        conversions: { mmoll: 6.006 },
+        ranges: [{ low: 17, high: 43 }],
+        decimals: 0,
+    },
+    {
+        loinc: "3094-0", name: "Blood urea nitrogen", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["bun", "blood urea nitrogen", "urea nitrogen"],
+        conversions: { mmoll: 2.801 },
+        ranges: [{ low: 7, high: 20 }],
+        decimals: 0,
+    },
+    {
+        loinc: "3084-1", name: "Uric acid", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["uric acid", "serum uric acid", "urate"],
+        conversions: { umoll: 0.0168, mmoll: 16.8 },
+        ranges: [
+            { low: 3.5, high: 7.2, sex: "male" },
+            { low: 2.6, high: 6, sex: "female" },
+        ],
+        decimals: 1,
+    },
+    {
+        loinc: "62238-1", name: "eGFR", unit: "mL/min/1.73m²", ucum: "mL/min/{1.73_m2}",
+        aliases: ["egfr", "estimated gfr", "gfr", "glomerular filtration rate"],
+        conversions: { mlmin173m2: 1, mlmin: 1 },
+        ranges: [{ low: 90 }],
+        decimals: 0,
+    },
+    {
+        loinc: "2951-2", name: "Sodium", unit: "mmol/L", ucum: "mmol/L",
+        aliases: ["sodium", "na", "serum sodium"],
+        conversions: { meql: 1 },
+        ranges: [{ low: 136, high: 145 }],
+        decimals: 0,
+    },
+    {
+        loinc: "2823-3", name: "Potassium", unit: "mmol/L", ucum: "mmol/L",
+        aliases: ["potassium", "k", "serum potassium"],
+        conversions: { meql: 1 },
+        ranges: [{ low: 3.5, high: 5.1 }],
+        decimals: 1,
+    },
+    {
+        loinc: "2075-0", name: "Chloride", unit: "mmol/L", ucum: "mmol/L",
+        aliases: ["chloride", "cl", "serum chloride"],
+        conversions: { meql: 1 },
+        ranges: [{ low: 98, high: 107 }],
+        decimals: 0,
+    },
+    {
+        loinc: "17861-6", name: "Calcium", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["calcium", "serum calcium", "total calcium", "ca"],
+        conversions: { mmoll: 4.008 },
+        ranges: [{ low: 8.6, high: 10.2 }],
+        decimals: 1,
+    },
+    {
+        loinc: "2777-1", name: "Phosphorus", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["phosphorus", "phosphate", "inorganic phosphorus", "serum phosphorus"],
+        conversions: { mmoll: 3.097 },
+        ranges: [{ low: 2.5, high: 4.5 }],
+        decimals: 1,
+    },
+    {
+        loinc: "19123-9", name: "Magnesium", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["magnesium", "serum magnesium", "mg"],
+        conversions: { mmoll: 2.431 },
+        ranges: [{ low: 1.7, high: 2.2 }],
+        decimals: 1,
+    },
+
+    // ---- Liver ----
+    {
+        loinc: "1975-2", name: "Total bilirubin", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["bilirubin", "total bilirubin", "bilirubin total", "serum bilirubin", "t bilirubin", "tbil"],
+        conversions: { umoll: 0.05848 },
+        ranges: [{ low: 0.3, high: 1.2 }],
+        decimals: 1,
+    },
+    {
+        loinc: "1968-7", name: "Direct bilirubin", unit: "mg/dL", ucum: "mg/dL",
+        aliases: ["direct bilirubin", "bilirubin direct", "conjugated bilirubin", "d bilirubin", "dbil"],
+        conversions: { umoll: 0.05848 },
+        ranges: [{ high: 0.3 }],
+        decimals: 1,
+    },
+    {
+        loinc: "1742-6", name: "ALT (SGPT)", unit: "U/L", ucum: "U/L",
+        aliases: ["alt", "sgpt", "alanine aminotransferase", "alanine transaminase", "sgpt alt", "alt sgpt"],
+        conversions: { iul: 1 },
+        ranges: [{ high: 45, sex: "male" }, { high: 34, sex: "female" }, { high: 45 }],
+        decimals: 0,
+    },
+    {
+        loinc: "1920-8", name: "AST (SGOT)", unit: "U/L", ucum: "U/L",
+        aliases: ["ast", "sgot", "aspartate aminotransferase", "aspartate transaminase", "sgot ast", "ast sgot"],
+        conversions: { iul: 1 },
+        ranges: [{ high: 40 }],
+        decimals: 0,
+    },
+    {
+        loinc: "6768-6", name: "Alkaline phosphatase", unit: "U/L", ucum: "U/L",
+        aliases: ["alkaline phosphatase", "alp", "alk phos", "sap"],
+        conversions: { iul: 1 },
+        ranges: [{ low: 44, high: 147, minAge: 18 }],
+        decimals: 0,
+    },
+    {
+        loinc: "2324-2", name: "GGT", unit: "U/L", ucum: "U/L",
+        aliases: ["ggt", "gamma gt", "ggtp", "gamma glutamyl transferase", "gamma glutamyl transpeptidase"],
+        conversions: { iul: 1 },
+        ranges: [{ high: 55, sex: "male" }, { high: 38, sex: "female" }],
+        decimals: 0,
+    },
+    {
+        loinc: "1751-7", name: "Albumin", unit: "g/dL", ucum: "g/dL",
+        aliases: ["albumin", "serum albumin", "alb"],
+        conversions: { gl: 0.1 },
+        ranges: [{ low: 3.5, high: 5.2 }],
+        decimals: 1,
+    },
+    {
+        loinc: "2885-2", name: "Total protein", unit: "g/dL", ucum: "g/dL",
+        aliases: ["total protein", "protein total", "serum protein", "total proteins"],
+        conversions: { gl: 0.1 },
+        ranges: [{ low: 6.4, high: 8.3 }],
+        decimals: 1,
+    },
+
+    // ---- Thyroid ----
+    {
+        loinc: "3016-3", name: "TSH", unit: "µIU/mL", ucum: "u[IU]/mL",
+        aliases: ["tsh", "thyroid stimulating hormone", "ultrasensitive tsh", "tsh ultrasensitive", "thyrotropin"],
+        conversions: { miul: 1, uiuml: 1 },
+        ranges: [{ low: 0.4, high: 4.5 }],
+        decimals: 2,
+    },
+    {
+        loinc: "3053-6", name: "T3 (total)", unit: "ng/dL", ucum: "ng/dL",
+        aliases: ["t3", "total t3", "t3 total", "triiodothyronine", "total triiodothyronine"],
+        conversions: { nmoll: 65.1, ngml: 100 },
+        ranges: [{ low: 80, high: 200 }],
+        decimals: 0,
+    },
+    {
+        loinc: "3026-2", name: "T4 (total)", unit: "µg/dL", ucum: "ug/dL",
+        aliases: ["t4", "total t4", "t4 total", "thyroxine", "total thyroxine"],
+        conversions: { nmoll: 0.0777 },
+        ranges: [{ low: 5, high: 12 }],
+        decimals: 1,
+    },
+    {
+        loinc: "3051-0", name: "Free T3", unit: "pg/mL", ucum: "pg/mL",
+        aliases: ["free t3", "ft3", "free triiodothyronine"],
+        conversions: { pmoll: 0.651 },
+        ranges: [{ low: 2.3, high: 4.2 }],
+        decimals: 2,
+    },
+    {
+        loinc: "3024-7", name: "Free T4", unit: "ng/dL", ucum: "ng/dL",
+        aliases: ["free t4", "ft4", "free thyroxine"],
+        conversions: { pmoll: 0.0777 },
+        ranges: [{ low: 0.8, high: 1.8 }],
+        decimals: 2,
+    },
+
+    // ---- Vitamins, iron, inflammation ----
+    {
+        loinc: "62292-8", name: "Vitamin D (25-OH)", unit: "ng/mL", ucum: "ng/mL",
+        aliases: ["vitamin d", "vit d", "25 oh vitamin d", "25 hydroxy vitamin d", "vitamin d total", "vitamin d3", "25 oh vit d",
+            "25 hydroxyvitamin d"],
+        conversions: { nmoll: 0.4006, ugl: 1 },
+        ranges: [{ low: 30, high: 100 }],
+        decimals: 1,
+    },
+    {
+        loinc: "2132-9", name: "Vitamin B12", unit: "pg/mL", ucum: "pg/mL",
+        aliases: ["vitamin b12", "vit b12", "b12", "cyanocobalamin", "cobalamin"],
+        conversions: { pmoll: 1.355, ngl: 1 },
+        ranges: [{ low: 200, high: 900 }],
+        decimals: 0,
+    },
+    {
+        loinc: "2276-4", name: "Ferritin", unit: "ng/mL", ucum: "ng/mL",
+        aliases: ["ferritin", "serum ferritin"],
+        conversions: { ugl: 1 },
+        ranges: [{ low: 30, high: 400, sex: "male" }, { low: 13, high: 150, sex: "female" }],
+        decimals: 0,
+    },
+    {
+        loinc: "2498-4", name: "Iron", unit: "µg/dL", ucum: "ug/dL",
+        aliases: ["iron", "serum iron"],
+        conversions: { umoll: 5.585 },
+        ranges: [{ low: 65, high: 175, sex: "male" }, { low: 50, high: 170, sex: "female" }],
+        decimals: 0,
+    },
+    {
+        loinc: "1988-5", name: "CRP", unit: "mg/L", ucum: "mg/L",
+        aliases: ["crp", "c reactive protein", "hs crp", "hscrp", "high sensitivity crp"],
+        conversions: { mgdl: 10 },
+        ranges: [{ high: 5 }],
+        decimals: 1,
+    },
+
+    // ---- Other ----
+    {
+        loinc: "2857-1", name: "PSA", unit: "ng/mL", ucum: "ng/mL",
+        aliases: ["psa", "prostate specific antigen", "total psa", "psa total"],
+        conversions: { ugl: 1 },
+        ranges: [{ high: 4, sex: "male", minAge: 40 }],
+        decimals: 2,
+    },
+    {
+        loinc: "6301-6", name: "INR", unit: "", ucum: "{INR}",
+        aliases: ["inr", "international normalized ratio", "pt inr"],
+        ranges: [{ low: 0.8, high: 1.2 }],
+        decimals: 1,
+    },
+];
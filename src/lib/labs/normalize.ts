@@ -0,0 +1,169 @@
+// ============================================================
+// Lab Normalisation
+// Maps a lab row as printed ("Glycated Hb 53 mmol/mol") to its
+// LOINC code, our name for the test and its value in the one
+// unit we trend in (HbA1c, 7.0 %), and supplies a default
+// reference range when the report has none. The report's own
+// name, value, unit and range stay as read.
+// Pure — runs during extraction and over stored entries alike.
+// ============================================================
+
+import type { LabTestResult } from "../types/timeline";
+import { LAB_ANALYTES } from "./loincData";
+import type { DefaultRange, LabAnalyte, UnitConversion } from "./loincData";
+
+/** Who the results belong to — picks sex- and age-specific default ranges */
+export interface LabDemographics {
+    sex?: "male" | "female";
+    ageYears?: number;
+}
+
+/** Demographics from a profile's gender and YYYY-MM-DD birthdate; anything unreadable is left out. */
+export function labDemographics(gender?: string, birthdate?: string, today: Date = new Date()): LabDemographics {
+    const who: LabDemographics = {};
+    if (gender === "male" || gender === "female") who.sex = gender;
+    const birth = birthdate ? new Date(birthdate) : undefined;
+    if (birth && !isNaN(birth.getTime())) {
+        let age = today.getFullYear() - birth.getFullYear();
+        if (today.getMonth() < birth.getMonth() ||
+            (today.getMonth() === birth.getMonth() && today.getDate() < birth.getDate())) age--;
+        who.ageYears = age;
+    }
+    return who;
+}
+
+// Words that name a different test when added to an analyte's name —
+// "Free PSA", "Urine glucose", "LDL/HDL ratio", "Non-HDL cholesterol"
+const QUALIFIERS = new Set([
+    "ratio", "urine", "urinary", "csf", "fluid", "stool", "free", "non", "absolute", "indirect", "unconjugated",
+    "ionised", "ionized", "binding", "saturation", "transferrin", "index", "antibody", "antibodies",
+]);
+const NOISE = new Set(["serum", "s", "plasma", "level", "levels", "test", "value", "result"]);
+
+/** Lowercase words, punctuation dropped, British spellings folded. */
+export function labKey(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/haem/g, "hem")
+        .replace(/oes/g, "es")
+        .replace(/[^a-z0-9]+/g, " ")
+        .trim();
+}
+
+/** "µmol/L" → "umoll", "/cumm" → "ul", "x10^3/µL" → "10^3ul" */
+export function unitKey(unit: string): string {
+    return unit
+        .toLowerCase()
+        .replace(/[µμ]/g, "u")
+        .replace(/mcg/g, "ug")
+        .replace(/³/g, "^3").replace(/⁶/g, "^6").replace(/²/g, "2")
+        .replace(/10\s*[*e]\s*(\d+)/g, "10^$1")
+        .replace(/\bthou\b/g, "10^3")
+        .replace(/\b(lakhs?|lacs?)\b/g, "lakh")
+        .replace(/\bmill(ion)?s?\b/g, "million")
+        .replace(/cu\s*mm|mm\^?3/g, "ul")
+        .replace(/[^a-z0-9^%]/g, "")
+        .replace(/^x(?=10)/, "");
+}
+
+const ALIASES = LAB_ANALYTES.flatMap((analyte) =>
+    analyte.aliases.map((alias) => ({ analyte, tokens: alias.split(" ") })));
+
+/**
+ * The catalogue entry a report's test name refers to. Every word of an
+ * alias must appear in the name, and the longest such alias wins;
+ * one- and two-letter aliases ("Hb", "K") must be the whole name.
+ */
+export function findAnalyte(name: string): LabAnalyte | undefined {
+    const words = labKey(name).split(" ").filter((w) => w && !NOISE.has(w));
+    if (words.length === 0) return undefined;
+    const wordSet = new Set(words);
+
+    let best: { analyte: LabAnalyte; size: number } | undefined;
+    for (const { analyte, tokens } of ALIASES) {
+        if (!tokens.every((t) => wordSet.has(t))) continue;
+        if (words.some((w) => QUALIFIERS.has(w) && !tokens.includes(w))) continue;
+        if (tokens.length === 1 && tokens[0].length <= 2 && words.length > 1) continue;
+        if (!best || tokens.length > best.size) best = { analyte, size: tokens.length };
+    }
+    return best?.analyte;
+}
+
+function applyConversion(value: number, conversion: UnitConversion): number {
+    return typeof conversion === "number" ? value * conversion : value * conversion.factor + conversion.offset;
+}
+
+function round(value: number, decimals: number): number {
+    const f = 10 ** decimals;
+    return Math.round(value * f) / f;
+}
+
+/**
+ * A value in the analyte's canonical unit, or undefined when the unit
+ * isn't one we know for it. A missing unit is taken as canonical —
+ * what Indian labs print for nearly every test in the catalogue.
+ */
+export function toCanonical(analyte: LabAnalyte, value: number, unit?: string): number | undefined {
+    const decimals = analyte.decimals ?? 1;
+    if (!unit || unitKey(unit) === unitKey(analyte.unit)) return round(value, decimals);
+    const conversion = analyte.conversions?.[unitKey(unit)];
+    return conversion === undefined ? undefined : round(applyConversion(value, conversion), decimals);
+}
+
+/** The default range that fits the patient, most specific first. */
+export function defaultRange(analyte: LabAnalyte, who: LabDemographics = {}): DefaultRange | undefined {
+    return analyte.ranges?.find((r) =>
+        (!r.sex || r.sex === who.sex) &&
+        (r.minAge === undefined || (who.ageYears !== undefined && who.ageYears >= r.minAge)) &&
+        (r.maxAge === undefined || (who.ageYears !== undefined && who.ageYears < r.maxAge)));
+}
+
+function rangeText(range: DefaultRange, unit: string): string {
+    const text = range.low !== undefined && range.high !== undefined
+        ? `${range.low}-${range.high}`
+        : range.high !== undefined ? `< ${range.high}` : `> ${range.low}`;
+    return unit ? `${text} ${unit}` : text;
+}
+
+function statusFor(value: number, range: DefaultRange): LabTestResult["status"] {
+    if (range.low !== undefined && value < range.low) return "Low";
+    if (range.high !== undefined && value > range.high) return "High";
+    return "Normal";
+}
+
+/**
+ * The row with `loinc`, `canonicalName`, `canonicalValue` and
+ * `canonicalUnit` filled in when the test is in the catalogue, and a
+ * default `referenceRange` (with `rangeSource: "default"`) and status
+ * when the report gave no range. Unknown tests come back unchanged.
+ */
+export function normalizeLabResult(row: LabTestResult, who: LabDemographics = {}): LabTestResult {
+    const analyte = findAnalyte(row.name);
+    if (!analyte) return row;
+
+    const out: LabTestResult = { ...row, loinc: analyte.loinc, canonicalName: analyte.name };
+    const value = row.value !== undefined ? parseFloat(row.value.replace(/,/g, "")) : NaN;
+    const canonical = isNaN(value) ? undefined : toCanonical(analyte, value, row.unit);
+    if (canonical !== undefined) {
+        out.canonicalValue = canonical;
+        out.canonicalUnit = analyte.unit;
+    }
+
+    if (row.referenceRange) {
+        out.rangeSource = "report";
+        return out;
+    }
+    // A default range is only compared against a value whose unit was read —
+    // a dropped "mmol/L" would otherwise flag every glucose as low
+    const range = defaultRange(analyte, who);
+    if (range) {
+        out.referenceRange = rangeText(range, analyte.unit);
+        out.rangeSource = "default";
+        if (canonical !== undefined && (row.unit || !analyte.unit)) out.status = statusFor(canonical, range);
+    }
+    return out;
+}
+
+export function normalizeLabResults(rows: LabTestResult[], who: LabDemographics = {}): LabTestResult[] {
+    return rows.map((row) => normalizeLabResult(row, who));
+}
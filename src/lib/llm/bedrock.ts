@@ -0,0 +1,134 @@
+// ============================================================
+// Bedrock LLM Provider — Converse / ConverseStream
+// One factory for every Bedrock chat model (Kimi K2.5, Devstral,
+// Nova Pro); clients are shared per region.
+// ============================================================
+
+import {
+    BedrockRuntimeClient,
+    ConverseCommand,
+    ConverseStreamCommand,
+    type ConverseCommandInput,
+    type ContentBlock,
+    type ImageFormat,
+    type Message,
+} from "@aws-sdk/client-bedrock-runtime";
+import { deadline, systemText, type LLMMessage, type LLMOptions, type LLMProvider, type LLMResult, type LLMStreamOptions } from "./types";
+
+// Amplify blocks "AWS_" prefix env vars — use APP_AWS_* workaround.
+// Falls back to default credential chain (IAM role / local ~/.aws).
+const creds =
+    process.env.APP_AWS_ACCESS_KEY_ID && process.env.APP_AWS_SECRET_ACCESS_KEY
+        ? { credentials: { accessKeyId: process.env.APP_AWS_ACCESS_KEY_ID, secretAccessKey: process.env.APP_AWS_SECRET_ACCESS_KEY } }
+        : {};
+
+const _clients = new Map<string, BedrockRuntimeClient>();
+
+function client(region: string): BedrockRuntimeClient {
+    let c = _clients.get(region);
+    if (!c) {
+        c = new BedrockRuntimeClient({ region, ...creds });
+        _clients.set(region, c);
+    }
+    return c;
+}
+
+export interface BedrockLLMOptions {
+    region: string;
+    /** Per request, measured to the end of a stream */
+    timeoutMs?: number;
+}
+
+function converseInput(messages: LLMMessage[], options: LLMOptions, modelId: string): ConverseCommandInput {
+    const system = systemText(messages, options);
+
+    // Images go ahead of the text — vision models expect them first
+    const converseMessages: Message[] = messages
+        .filter((m) => m.role !== "system")
+        .map((m) => ({
+            role: m.role as "user" | "assistant",
+            content: [
+                ...(m.images ?? []).map((img): ContentBlock => ({
+                    image: { format: img.format as ImageFormat, source: { bytes: img.bytes } },
+                })),
+                { text: m.content },
+            ],
+        }));
+
+    // Bedrock Converse API requires the conversation to start with a user turn
+    if (converseMessages.length === 0 || converseMessages[0].role !== "user") {
+        converseMessages.unshift({ role: "user", content: [{ text: "(start)" }] });
+    }
+
+    return {
+        modelId,
+        messages: converseMessages,
+        inferenceConfig: {
+            maxTokens: options.maxTokens ?? 2048,
+            temperature: options.temperature ?? 0.3,
+        },
+        ...(system ? { system: [{ text: system }] } : {}),
+    };
+}
+
+export function bedrockLLM(modelId: string, { region, timeoutMs = 30_000 }: BedrockLLMOptions): LLMProvider {
+    return {
+        name: "bedrock",
+        model: modelId,
+
+        async complete(messages, options): Promise<LLMResult> {
+            const limit = deadline(timeoutMs);
+            const response = await client(region)
+                .send(new ConverseCommand(converseInput(messages, options, modelId)), { abortSignal: limit.signal })
+                .finally(limit.clear);
+
+            const text = response.output?.message?.content?.map((b) => ("text" in b ? b.text ?? "" : "")).join("") ?? "";
+            // Filtered, unavailable or contentless — let the next provider answer
+            if (!text.trim()) {
+                throw new Error(`${modelId} returned an empty response (stopReason: ${response.stopReason ?? "unknown"})`);
+            }
+            return {
+                text,
+                model: modelId,
+                provider: "bedrock",
+                promptTokens: response.usage?.inputTokens,
+                completionTokens: response.usage?.outputTokens,
+            };
+        },
+
+        async stream(messages, options: LLMStreamOptions): Promise<LLMResult> {
+            const limit = deadline(timeoutMs, options.signal);
+            let text = "";
+            let stopReason: string | undefined;
+            let usage: { inputTokens?: number; outputTokens?: number } | undefined;
+            try {
+                const response = await client(region).send(
+                    new ConverseStreamCommand(converseInput(messages, options, modelId)),
+                    { abortSignal: limit.signal }
+                );
+                for await (const event of response.stream ?? []) {
+                    const delta = event.contentBlockDelta?.delta?.text;
+                    if (delta) {
+                        text += delta;
+                        options.onToken(delta);
+                    }
+                    if (event.messageStop) stopReason = event.messageStop.stopReason;
+                    if (event.metadata) usage = event.metadata.usage;
+                }
+            } finally {
+                limit.clear();
+            }
+
+            if (!text.trim()) {
+                throw new Error(`${modelId} returned an empty stream (stopReason: ${stopReason ?? "unknown"})`);
+            }
+            return {
+                text,
+                model: modelId,
+                provider: "bedrock",
+                promptTokens: usage?.inputTokens,
+                completionTokens: usage?.outputTokens,
+            };
+        },
+    };
+}
@@ -0,0 +1,177 @@
+// ============================================================
+// LLM Providers — Barrel, Selection & Fallback Chains
+// Each task has a chain of providers, tried in order until one
+// answers. LLM_PROVIDER picks the default chains: "openai" for
+// a self-hosted OpenAI-compatible server, "mock" for scripted
+// replies, anything else Bedrock (Kimi K2.5, then Devstral; Nova
+// Pro backs up vision). LLM_GENERATION, LLM_GROUNDING,
+// LLM_PLANNING and LLM_VISION override a task's chain with
+// comma-separated specs: "bedrock:<model>[@<region>]",
+// "openai:<model>" or "mock". Tests can swap chains with
+// setLLMProviders().
+// ============================================================
+
+import { bedrockLLM } from "./bedrock";
+import { openAICompatibleLLM } from "./openai";
+import { mockLLM } from "./mock";
+import type { LLMMessage, LLMOptions, LLMProvider, LLMResult, LLMStreamOptions, LLMTask } from "./types";
+
+export * from "./types";
+export { bedrockLLM } from "./bedrock";
+export { openAICompatibleLLM } from "./openai";
+export { scriptedLLM, mockLLM, type ScriptRule, type ScriptedLLM } from "./mock";
+
+const TASKS: LLMTask[] = ["generation", "grounding", "planning", "vision"];
+
+// Kimi K2.5 and Nova Pro cross-region inference profiles work in us-east-1 / us-west-2
+const usRegion = ["us-east-1", "us-west-2"].includes(process.env.NEXT_PUBLIC_AWS_REGION || "")
+    ? process.env.NEXT_PUBLIC_AWS_REGION!
+    : "us-east-1";
+const KIMI_MODEL_ID = process.env.KIMI_BEDROCK_MODEL?.trim() || "moonshotai.kimi-k2.5";
+// Mistral Devstral-2-123B — backup model, served from ap-south-1
+const DEVSTRAL_MODEL_ID = process.env.DEVSTRAL_BEDROCK_MODEL?.trim() || "mistral.devstral-2-123b";
+const DEVSTRAL_REGION = process.env.DEVSTRAL_BEDROCK_REGION || "ap-south-1";
+const NOVA_MODEL_ID = process.env.BEDROCK_MODEL_ID?.trim() || "us.amazon.nova-pro-v1:0";
+
+// Ollama's default address; any OpenAI-compatible server works
+const openAIOptions = {
+    baseUrl: process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+    apiKey: process.env.OPENAI_API_KEY,
+};
+const OPENAI_MODEL = process.env.OPENAI_MODEL || "llama3.1";
+const OPENAI_VISION_MODEL = process.env.OPENAI_VISION_MODEL || OPENAI_MODEL;
+
+function defaultChain(task: LLMTask): LLMProvider[] {
+    switch (process.env.LLM_PROVIDER) {
+        case "mock":
+            return [mockLLM];
+        case "openai":
+            return [openAICompatibleLLM(task === "vision" ? OPENAI_VISION_MODEL : OPENAI_MODEL, openAIOptions)];
+        default:
+            // Fallbacks get less time — the primary has used some already
+            return task === "vision"
+                ? [bedrockLLM(KIMI_MODEL_ID, { region: usRegion, timeoutMs: 15_000 }), bedrockLLM(NOVA_MODEL_ID, { region: usRegion, timeoutMs: 15_000 })]
+                : [bedrockLLM(KIMI_MODEL_ID, { region: usRegion }), bedrockLLM(DEVSTRAL_MODEL_ID, { region: DEVSTRAL_REGION, timeoutMs: 15_000 })];
+    }
+}
+
+/** "bedrock:mistral.devstral-2-123b@ap-south-1", "openai:qwen2.5:7b", "mock" */
+function providerFromSpec(spec: string): LLMProvider | null {
+    const [kind, ...rest] = spec.split(":");
+    const model = rest.join(":");
+    switch (kind) {
+        case "mock":
+            return mockLLM;
+        case "openai":
+            return openAICompatibleLLM(model || OPENAI_MODEL, openAIOptions);
+        case "bedrock": {
+            const [modelId, region] = model.split("@");
+            return modelId ? bedrockLLM(modelId, { region: region || usRegion }) : null;
+        }
+        default:
+            return null;
+    }
+}
+
+function configuredChain(task: LLMTask): LLMProvider[] {
+    const variable = `LLM_${task.toUpperCase()}`;
+    const specs = (process.env[variable] ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+    const chain: LLMProvider[] = [];
+    for (const spec of specs) {
+        const provider = providerFromSpec(spec);
+        if (provider) chain.push(provider);
+        else console.error(`[LLM] Ignoring "${spec}" in ${variable} — expected bedrock:<model>[@<region>], openai:<model> or mock`);
+    }
+    return chain.length > 0 ? chain : defaultChain(task);
+}
+
+let chains = Object.fromEntries(TASKS.map((task) => [task, configuredChain(task)])) as Record<LLMTask, LLMProvider[]>;
+
+export function getLLMChain(task: LLMTask): LLMProvider[] {
+    return chains[task];
+}
+
+/** Replace the chain for some or all tasks (tests, local development). */
+export function setLLMProviders(next: Partial<Record<LLMTask, LLMProvider[]>>): void {
+    chains = { ...chains, ...next };
+}
+
+const label = (p: LLMProvider) => `${p.name}:${p.model}`;
+
+// --------------- Calls ---------------
+
+/**
+ * A chat completion from the first provider in the task's chain that
+ * answers. Throws the last provider's error if none does.
+ */
+export async function complete(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResult> {
+    const task = options.task ?? "generation";
+    const chain = chains[task];
+    let lastError: unknown = new Error(`No LLM provider for ${task}`);
+    for (const [i, provider] of chain.entries()) {
+        try {
+            return await provider.complete(messages, { ...options, task });
+        } catch (err) {
+            lastError = err;
+            const next = chain[i + 1];
+            console.warn(`[LLM] ${task}: ${label(provider)} failed${next ? `, falling back to ${label(next)}` : ""}:`, (err as Error).message);
+        }
+    }
+    throw lastError;
+}
+
+/**
+ * Streaming counterpart of complete(): text deltas go to options.onToken
+ * as they arrive and the whole answer is returned at the end. The chain
+ * moves on only while no text has been emitted — once tokens have
+ * reached the caller they can't be taken back, so a later failure (or
+ * an abort) is thrown.
+ */
+export async function completeStream(messages: LLMMessage[], options: LLMStreamOptions): Promise<LLMResult> {
+    const task = options.task ?? "generation";
+    const chain = chains[task];
+    let emitted = false;
+    const tracked: LLMStreamOptions = {
+        ...options,
+        task,
+        onToken: (text) => {
+            emitted = true;
+            options.onToken(text);
+        },
+    };
+    let lastError: unknown = new Error(`No LLM provider for ${task}`);
+    for (const [i, provider] of chain.entries()) {
+        try {
+            return await provider.stream(messages, tracked);
+        } catch (err) {
+            if (emitted || options.signal?.aborted) throw err;
+            lastError = err;
+            const next = chain[i + 1];
+            console.warn(`[LLM] ${task}: ${label(provider)} stream failed${next ? `, falling back to ${label(next)}` : ""}:`, (err as Error).message);
+        }
+    }
+    throw lastError;
+}
+
+/**
+ * Convenience: complete and parse the result as JSON.
+ * Returns null data if JSON parsing fails; raw text is always returned.
+ */
+export async function completeJSON<T = Record<string, unknown>>(
+    messages: LLMMessage[],
+    options: LLMOptions = {}
+): Promise<{ data: T | null; raw: string; model: string; provider: string }> {
+    const result = await complete(messages, { ...options, jsonMode: true });
+    let data: T | null = null;
+    try {
+        const cleaned = result.text
+            .replace(/^```json\s*/i, "")
+            .replace(/^```\s*/i, "")
+            .replace(/```\s*$/i, "")
+            .trim();
+        data = JSON.parse(cleaned) as T;
+    } catch {
+        // returns null data with raw text
+    }
+    return { data, raw: result.text, model: result.model, provider: result.provider };
+}
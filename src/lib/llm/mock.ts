@@ -0,0 +1,77 @@
+// ============================================================
+// Scripted LLM Provider — deterministic, no network
+// Replies come from a script of rules, checked in order against
+// the task and the last user message. Without a matching rule:
+//   - JSON requests get an approving object (full scores, the
+//     draft accepted, nothing to plan or reword), so grounding
+//     and reflection loops end after one round;
+//   - text requests echo the question, citing the first source
+//     when records were given.
+// The latest calls are kept in `calls`, for tests to inspect.
+// ============================================================
+
+import type { LLMMessage, LLMOptions, LLMProvider, LLMResult, LLMTask } from "./types";
+
+export interface ScriptRule {
+    /** Only for this task */
+    task?: LLMTask;
+    /** Tested against the last user message */
+    match?: RegExp;
+    reply: string | ((messages: LLMMessage[], options: LLMOptions) => string);
+}
+
+export interface ScriptedLLM extends LLMProvider {
+    readonly calls: { task: LLMTask; messages: LLMMessage[] }[];
+}
+
+const MAX_CALLS = 100;
+const APPROVAL = JSON.stringify({ score: 1, confidence: 1, groundingScore: 1, draftAccepted: true });
+
+function defaultReply(messages: LLMMessage[], options: LLMOptions): string {
+    if (options.jsonMode) return APPROVAL;
+    const last = [...messages].reverse().find((m) => m.role === "user");
+    if (options.task === "vision") return `Mock description of ${last?.images?.length ?? 0} image(s).`;
+    const content = last?.content ?? "";
+    const question = /(?:^|\n)(?:Patient query|Question|Query): (.+)/.exec(content)?.[1] ?? content;
+    const cites = /\[Source 1[\]:]/.test(content) ? " [Source 1]" : "";
+    return `Mock answer to: ${question.trim().slice(0, 200)}${cites}`;
+}
+
+export function scriptedLLM(script: ScriptRule[] = [], model = "scripted"): ScriptedLLM {
+    const calls: ScriptedLLM["calls"] = [];
+
+    function reply(messages: LLMMessage[], options: LLMOptions): LLMResult {
+        const task = options.task ?? "generation";
+        // The most recent calls only — mockLLM may serve a long-running dev server
+        if (calls.length >= MAX_CALLS) calls.shift();
+        calls.push({ task, messages });
+        const last = [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+        const rule = script.find((r) => (!r.task || r.task === task) && (!r.match || r.match.test(last)));
+        const text = rule
+            ? typeof rule.reply === "function" ? rule.reply(messages, options) : rule.reply
+            : defaultReply(messages, { ...options, task });
+        if (!text.trim()) throw new Error(`${model} script gave an empty reply`);
+        return { text, model, provider: "mock" };
+    }
+
+    return {
+        name: "mock",
+        model,
+        calls,
+        async complete(messages, options) {
+            return reply(messages, options);
+        },
+        async stream(messages, options) {
+            const result = reply(messages, options);
+            // Word by word, as a real stream arrives
+            for (const piece of result.text.match(/\S+\s*|\s+/g) ?? []) {
+                if (options.signal?.aborted) throw new Error("Aborted");
+                options.onToken(piece);
+            }
+            return result;
+        },
+    };
+}
+
+/** The provider LLM_PROVIDER=mock selects for every task */
+export const mockLLM = scriptedLLM([], "mock");
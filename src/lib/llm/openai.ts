@@ -0,0 +1,127 @@
+// ============================================================
+// OpenAI-Compatible LLM Provider — self-hosted models
+// Talks /chat/completions, which Ollama, vLLM, llama.cpp's
+// server and LM Studio all serve, so the assistant can run on a
+// model hosted anywhere (or on this machine) without AWS.
+// ============================================================
+
+import { deadline, systemText, type LLMMessage, type LLMOptions, type LLMProvider, type LLMResult, type LLMStreamOptions } from "./types";
+
+export interface OpenAICompatibleOptions {
+    /** Up to and including the version path, e.g. "http://localhost:11434/v1" */
+    baseUrl: string;
+    apiKey?: string;
+    /** Per request, measured to the end of a stream — local models can be slow */
+    timeoutMs?: number;
+}
+
+type ContentPart =
+    | { type: "text"; text: string }
+    | { type: "image_url"; image_url: { url: string } };
+
+function chatBody(messages: LLMMessage[], options: LLMOptions, model: string, stream: boolean) {
+    const system = systemText(messages, options);
+    const chat = messages
+        .filter((m) => m.role !== "system")
+        .map((m) => ({
+            role: m.role,
+            content: m.images?.length
+                ? [
+                    ...m.images.map((img): ContentPart => ({
+                        type: "image_url",
+                        image_url: { url: `data:image/${img.format};base64,${Buffer.from(img.bytes).toString("base64")}` },
+                    })),
+                    { type: "text", text: m.content } as ContentPart,
+                ]
+                : m.content,
+        }));
+    return {
+        model,
+        messages: system ? [{ role: "system", content: system }, ...chat] : chat,
+        temperature: options.temperature ?? 0.3,
+        max_tokens: options.maxTokens ?? 2048,
+        stream,
+        ...(options.jsonMode && { response_format: { type: "json_object" } }),
+    };
+}
+
+export function openAICompatibleLLM(model: string, { baseUrl, apiKey, timeoutMs = 60_000 }: OpenAICompatibleOptions): LLMProvider {
+    const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+    async function post(body: object, signal: AbortSignal): Promise<Response> {
+        const res = await fetch(url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+            },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!res.ok) {
+            const detail = (await res.text().catch(() => "")).slice(0, 200);
+            throw new Error(`${url} returned ${res.status}${detail ? `: ${detail}` : ""}`);
+        }
+        return res;
+    }
+
+    return {
+        name: "openai",
+        model,
+
+        async complete(messages, options): Promise<LLMResult> {
+            const limit = deadline(timeoutMs);
+            try {
+                const res = await post(chatBody(messages, options, model, false), limit.signal);
+                const data = await res.json() as {
+                    choices?: { message?: { content?: string | null } }[];
+                    usage?: { prompt_tokens?: number; completion_tokens?: number };
+                };
+                const text = data.choices?.[0]?.message?.content ?? "";
+                if (!text.trim()) throw new Error(`${model} returned an empty response`);
+                return {
+                    text,
+                    model,
+                    provider: "openai",
+                    promptTokens: data.usage?.prompt_tokens,
+                    completionTokens: data.usage?.completion_tokens,
+                };
+            } finally {
+                limit.clear();
+            }
+        },
+
+        async stream(messages, options: LLMStreamOptions): Promise<LLMResult> {
+            const limit = deadline(timeoutMs, options.signal);
+            let text = "";
+            try {
+                const res = await post(chatBody(messages, options, model, true), limit.signal);
+                if (!res.body) throw new Error(`${url} sent no stream`);
+                const reader = res.body.getReader();
+                const decoder = new TextDecoder();
+                let buffer = "";
+                for (;;) {
+                    const { value, done } = await reader.read();
+                    if (done) break;
+                    buffer += decoder.decode(value, { stream: true });
+                    const lines = buffer.split("\n");
+                    buffer = lines.pop() ?? "";
+                    for (const line of lines) {
+                        const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+                        if (!data || data === "[DONE]") continue;
+                        const chunk = JSON.parse(data) as { choices?: { delta?: { content?: string | null } }[] };
+                        const delta = chunk.choices?.[0]?.delta?.content;
+                        if (delta) {
+                            text += delta;
+                            options.onToken(delta);
+                        }
+                    }
+                }
+            } finally {
+                limit.clear();
+            }
+            if (!text.trim()) throw new Error(`${model} returned an empty stream`);
+            return { text, model, provider: "openai" };
+        },
+    };
+}
@@ -0,0 +1,78 @@
+// ============================================================
+// LLM Provider Contract
+// Every model the app calls — Bedrock, a self-hosted server
+// speaking the OpenAI API, or the scripted mock — sits behind
+// LLMProvider. Callers name a task, not a model; index.ts maps
+// each task to a chain of providers to try in order.
+// ============================================================
+
+/** What a call is for — each task has its own provider chain */
+export type LLMTask = "generation" | "grounding" | "planning" | "vision";
+
+/** An image attachment to include in a message (for vision-capable models). */
+export interface LLMImageAttachment {
+    /** Raw image bytes (NOT base64) */
+    bytes: Uint8Array;
+    /** Image format */
+    format: "jpeg" | "png" | "webp" | "gif";
+}
+
+export interface LLMMessage {
+    role: "system" | "user" | "assistant";
+    content: string;
+    /** Optional image attachments — sent ahead of the message text */
+    images?: LLMImageAttachment[];
+}
+
+export interface LLMOptions {
+    /** Picks the provider chain; "generation" when omitted */
+    task?: LLMTask;
+    temperature?: number;
+    maxTokens?: number;
+    /** JSON mode hint — the provider asks the model for a bare JSON object */
+    jsonMode?: boolean;
+}
+
+export interface LLMStreamOptions extends LLMOptions {
+    /** Called with each text delta as the model produces it */
+    onToken: (text: string) => void;
+    /** Aborts the request, e.g. when the client disconnects */
+    signal?: AbortSignal;
+}
+
+export interface LLMResult {
+    text: string;
+    model: string;
+    /** Name of the provider that answered: "bedrock", "openai", "mock" */
+    provider: string;
+    promptTokens?: number;
+    completionTokens?: number;
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    readonly model: string;
+    /** Throws on any failure, an empty reply included, so a chain can move on. */
+    complete(messages: LLMMessage[], options: LLMOptions): Promise<LLMResult>;
+    /** As complete(), with text deltas passed to options.onToken as they arrive. */
+    stream(messages: LLMMessage[], options: LLMStreamOptions): Promise<LLMResult>;
+}
+
+const JSON_INSTRUCTION = "Respond with valid JSON only. Do not wrap in markdown code fences.";
+
+/** The system messages as one prompt, with the JSON instruction appended in JSON mode */
+export function systemText(messages: LLMMessage[], options: LLMOptions): string {
+    const text = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n").trim();
+    if (!options.jsonMode) return text;
+    return text ? `${text}\n\n${JSON_INSTRUCTION}` : JSON_INSTRUCTION;
+}
+
+/** An AbortSignal that fires after timeoutMs or when `signal` does; call clear() once done */
+export function deadline(timeoutMs: number, signal?: AbortSignal): { signal: AbortSignal; clear: () => void } {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    return {
+        signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal,
+        clear: () => clearTimeout(timer),
+    };
+}
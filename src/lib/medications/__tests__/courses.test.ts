@@ -0,0 +1,106 @@
+import { describe, expect, test } from "@jest/globals";
+import { parseDuration, parseInstructions, reconcileMedications, type CourseSource } from "../courses";
+
+const rx = (entryId: string, date: string, metadata: CourseSource["metadata"]): CourseSource =>
+    ({ entryId, date, title: `Prescription ${date}`, metadata });
+
+describe("parseDuration", () => {
+    test("reads written durations and clinical shorthand", () => {
+        expect(parseDuration("5 days")).toEqual({ kind: "days", days: 5 });
+        expect(parseDuration("x 2 weeks")).toEqual({ kind: "days", days: 14 });
+        expect(parseDuration("3/52")).toEqual({ kind: "days", days: 21 });
+        expect(parseDuration("2 wk")).toEqual({ kind: "days", days: 14 });
+        expect(parseDuration("6 mths")).toEqual({ kind: "days", days: 180 });
+        expect(parseDuration("6 mnths")).toEqual({ kind: "days", days: 180 });
+        expect(parseDuration("1 mon")).toEqual({ kind: "days", days: 30 });
+        expect(parseDuration("3 mos")).toEqual({ kind: "days", days: 90 });
+        expect(parseDuration("till review")).toEqual({ kind: "ongoing" });
+        expect(parseDuration(undefined)).toEqual({ kind: "unspecified" });
+    });
+});
+
+describe("parseInstructions", () => {
+    test("finds stops and changes", () => {
+        expect(parseInstructions("Stop Amlodipine. Switch Glycomet to Janumet.")).toEqual([
+            { action: "change", from: "Glycomet", to: "Janumet" },
+            { action: "stop", drug: "Amlodipine" },
+        ]);
+    });
+
+    test("skips negated stops", () => {
+        expect(parseInstructions("Do not stop metformin without advice")).toEqual([]);
+        expect(parseInstructions("Don't stop Ecosprin. Never discontinue statins.")).toEqual([]);
+        expect(parseInstructions("Advised not to stop insulin")).toEqual([]);
+    });
+
+    test("skips conditional holds", () => {
+        expect(parseInstructions("Hold if BP < 100")).toEqual([]);
+        expect(parseInstructions("Hold Telma if BP below 100/60")).toEqual([]);
+        expect(parseInstructions("Omit metformin before contrast scans")).toEqual([]);
+        expect(parseInstructions("Hold Telma if dizzy. Stop Amlodipine.")).toEqual([{ action: "stop", drug: "Amlodipine" }]);
+    });
+
+    test("skips pauses for a set time", () => {
+        expect(parseInstructions("Hold Metformin for 2 days")).toEqual([]);
+        expect(parseInstructions("Omit Ecosprin for a week before the procedure")).toEqual([]);
+        expect(parseInstructions("Hold Metformin for 2 days. Stop Amlodipine.")).toEqual([{ action: "stop", drug: "Amlodipine" }]);
+    });
+});
+
+describe("reconcileMedications", () => {
+    test("a line that says not to stop it is still prescribed", () => {
+        const courses = reconcileMedications([
+            rx("e1", "2025-03-01", {
+                medications: [{ name: "Metoprolol 50", duration: "till review", instructions: "Do not stop abruptly" }],
+            }),
+        ], "2025-03-10");
+        expect(courses).toHaveLength(1);
+        expect(courses[0]).toMatchObject({ status: "active", duration: { kind: "ongoing" } });
+    });
+
+    test("negated advice leaves the course active", () => {
+        const courses = reconcileMedications([
+            rx("e1", "2025-03-01", { medications: [{ name: "Metformin 500", duration: "till review" }] }),
+            rx("e2", "2025-04-01", { advice: ["Do not stop metformin without advice"] }),
+        ], "2025-04-10");
+        expect(courses[0]).toMatchObject({ name: "Metformin 500", status: "active" });
+    });
+
+    test("a line saying when to stop it is prescribed for that long", () => {
+        const courses = reconcileMedications([
+            rx("e1", "2025-03-01", {
+                medications: [
+                    { name: "Augmentin 625", instructions: "Stop after 5 days" },
+                    { name: "Crocin 650", instructions: "Stop once fever subsides" },
+                ],
+            }),
+        ], "2025-03-03");
+        expect(courses).toHaveLength(2);
+        expect(courses.find((c) => c.name === "Augmentin 625"))
+            .toMatchObject({ status: "active", duration: { kind: "days", days: 5 }, endDate: "2025-03-05" });
+        expect(courses.find((c) => c.name === "Crocin 650")).toMatchObject({ status: "active" });
+    });
+
+    test("a pause for a set time leaves the course active", () => {
+        const courses = reconcileMedications([
+            rx("e1", "2025-03-01", { medications: [{ name: "Metformin 500", duration: "till review" }] }),
+            rx("e2", "2025-04-01", { advice: ["Hold Metformin for 2 days"] }),
+        ], "2025-04-10");
+        expect(courses[0]).toMatchObject({ name: "Metformin 500", status: "active" });
+    });
+
+    test("a stop instruction closes the course", () => {
+        const courses = reconcileMedications([
+            rx("e1", "2025-03-01", { medications: [{ name: "Amlodipine 5", duration: "till review" }] }),
+            rx("e2", "2025-04-01", { advice: ["Stop amlodipine"] }),
+        ], "2025-04-10");
+        expect(courses[0]).toMatchObject({ status: "stopped", endDate: "2025-04-01" });
+    });
+
+    test("strengths in the name are not read as durations", () => {
+        const courses = reconcileMedications([
+            rx("e1", "2025-03-01", { medications: [{ name: "Pan 40 D" }] }),
+        ], "2025-03-10");
+        expect(courses[0].duration).toEqual({ kind: "unspecified" });
+    });
+});
@@ -0,0 +1,349 @@
+// ============================================================
+// Indian Brand Dictionary — bundled, versioned
+// Brand → generic molecule(s) for frequently prescribed Indian
+// brands. Keys are lowercase brand names as drugNameOf() reduces
+// them ("telma h", not "Telma-H 40"); combinations join their
+// molecules with " + ". Bump the version with any change.
+// ============================================================
+
+export const BRAND_DICTIONARY_VERSION = "2026.10.1";
+
+export const BRAND_GENERICS: Record<string, string> = {
+    // Diabetes
+    glycomet: "metformin",
+    "glycomet gp": "metformin + glimepiride",
+    gluconorm: "metformin",
+    "gluconorm g": "metformin + glimepiride",
+    obimet: "metformin",
+    glyciphage: "metformin",
+    cetapin: "metformin",
+    janumet: "sitagliptin + metformin",
+    januvia: "sitagliptin",
+    istavel: "sitagliptin",
+    galvus: "vildagliptin",
+    "galvus met": "vildagliptin + metformin",
+    jalra: "vildagliptin",
+    zita: "teneligliptin",
+    tenepride: "teneligliptin",
+    amaryl: "glimepiride",
+    "amaryl m": "glimepiride + metformin",
+    glimy: "glimepiride",
+    diamicron: "gliclazide",
+    glizid: "gliclazide",
+    glynase: "glipizide",
+    daonil: "glibenclamide",
+    jardiance: "empagliflozin",
+    gibtulio: "empagliflozin",
+    forxiga: "dapagliflozin",
+    dapanorm: "dapagliflozin",
+    voglibos: "voglibose",
+    pioz: "pioglitazone",
+    lantus: "insulin glargine",
+    basalog: "insulin glargine",
+    huminsulin: "insulin",
+    mixtard: "insulin",
+    novomix: "insulin aspart",
+    ryzodeg: "insulin degludec + insulin aspart",
+    // Blood pressure & heart
+    telma: "telmisartan",
+    "telma h": "telmisartan + hydrochlorothiazide",
+    "telma am": "telmisartan + amlodipine",
+    telmikind: "telmisartan",
+    telvas: "telmisartan",
+    amlong: "amlodipine",
+    amlokind: "amlodipine",
+    "amlokind at": "amlodipine + atenolol",
+    stamlo: "amlodipine",
+    amlopres: "amlodipine",
+    losar: "losartan",
+    repace: "losartan",
+    "losar h": "losartan + hydrochlorothiazide",
+    olmezest: "olmesartan",
+    olmat: "olmesartan",
+    cilacar: "cilnidipine",
+    cardace: "ramipril",
+    envas: "enalapril",
+    aten: "atenolol",
+    tenormin: "atenolol",
+    "met xl": "metoprolol",
+    metolar: "metoprolol",
+    seloken: "metoprolol",
+    concor: "bisoprolol",
+    nebicard: "nebivolol",
+    carca: "carvedilol",
+    ciplar: "propranolol",
+    inderal: "propranolol",
+    aldactone: "spironolactone",
+    lasix: "furosemide",
+    dytor: "torsemide",
+    tide: "torsemide",
+    aquazide: "hydrochlorothiazide",
+    lanoxin: "digoxin",
+    cordarone: "amiodarone",
+    sorbitrate: "isosorbide dinitrate",
+    monotrate: "isosorbide mononitrate",
+    nikoran: "nicorandil",
+    ecosprin: "aspirin",
+    "ecosprin av": "aspirin + atorvastatin",
+    disprin: "aspirin",
+    loprin: "aspirin",
+    clopilet: "clopidogrel",
+    clavix: "clopidogrel",
+    deplatt: "clopidogrel",
+    "clopilet a": "clopidogrel + aspirin",
+    brilinta: "ticagrelor",
+    warf: "warfarin",
+    acitrom: "acenocoumarol",
+    xarelto: "rivaroxaban",
+    eliquis: "apixaban",
+    pradaxa: "dabigatran",
+    clexane: "enoxaparin",
+    // Cholesterol
+    atorva: "atorvastatin",
+    lipitor: "atorvastatin",
+    storvas: "atorvastatin",
+    atocor: "atorvastatin",
+    tonact: "atorvastatin",
+    rosuvas: "rosuvastatin",
+    rozavel: "rosuvastatin",
+    rozat: "rosuvastatin",
+    crestor: "rosuvastatin",
+    // Pain, fever, inflammation
+    crocin: "paracetamol",
+    dolo: "paracetamol",
+    calpol: "paracetamol",
+    pacimol: "paracetamol",
+    metacin: "paracetamol",
+    sumo: "nimesulide + paracetamol",
+    nise: "nimesulide",
+    brufen: "ibuprofen",
+    ibugesic: "ibuprofen",
+    combiflam: "ibuprofen + paracetamol",
+    voveran: "diclofenac",
+    dynapar: "diclofenac",
+    zerodol: "aceclofenac",
+    "zerodol p": "aceclofenac + paracetamol",
+    "zerodol sp": "aceclofenac + paracetamol + serratiopeptidase",
+    hifenac: "aceclofenac",
+    meftal: "mefenamic acid",
+    "meftal spas": "mefenamic acid + dicyclomine",
+    etoshine: "etoricoxib",
+    nucoxia: "etoricoxib",
+    ketorol: "ketorolac",
+    contramal: "tramadol",
+    ultracet: "tramadol + paracetamol",
+    tapal: "tapentadol",
+    colchicum: "colchicine",
+    zyloric: "allopurinol",
+    febuget: "febuxostat",
+    // Stomach
+    pan: "pantoprazole",
+    "pan d": "pantoprazole + domperidone",
+    pantocid: "pantoprazole",
+    "pantocid dsr": "pantoprazole + domperidone",
+    pantop: "pantoprazole",
+    omez: "omeprazole",
+    "omez d": "omeprazole + domperidone",
+    ocid: "omeprazole",
+    razo: "rabeprazole",
+    "razo d": "rabeprazole + domperidone",
+    rablet: "rabeprazole",
+    nexpro: "esomeprazole",
+    sompraz: "esomeprazole",
+    lanzol: "lansoprazole",
+    aciloc: "ranitidine",
+    rantac: "ranitidine",
+    famocid: "famotidine",
+    domstal: "domperidone",
+    emeset: "ondansetron",
+    vomikind: "ondansetron",
+    ondem: "ondansetron",
+    perinorm: "metoclopramide",
+    cyclopam: "dicyclomine",
+    drotin: "drotaverine",
+    sucral: "sucralfate",
+    digene: "antacid",
+    gelusil: "antacid",
+    cremaffin: "liquid paraffin + milk of magnesia",
+    duphalac: "lactulose",
+    looz: "lactulose",
+    dulcolax: "bisacodyl",
+    eldoper: "loperamide",
+    imodium: "loperamide",
+    udiliv: "ursodeoxycholic acid",
+    // Antibiotics & anti-infectives
+    augmentin: "amoxicillin + clavulanic acid",
+    clavam: "amoxicillin + clavulanic acid",
+    moxikind: "amoxicillin + clavulanic acid",
+    "moxikind cv": "amoxicillin + clavulanic acid",
+    mox: "amoxicillin",
+    novamox: "amoxicillin",
+    azithral: "azithromycin",
+    azee: "azithromycin",
+    zithrox: "azithromycin",
+    claribid: "clarithromycin",
+    roxid: "roxithromycin",
+    ciplox: "ciprofloxacin",
+    cifran: "ciprofloxacin",
+    levoflox: "levofloxacin",
+    glevo: "levofloxacin",
+    oflox: "ofloxacin",
+    zanocin: "ofloxacin",
+    norflox: "norfloxacin",
+    septran: "cotrimoxazole",
+    bactrim: "cotrimoxazole",
+    flagyl: "metronidazole",
+    metrogyl: "metronidazole",
+    o2: "ofloxacin + ornidazole",
+    zifi: "cefixime",
+    "taxim o": "cefixime",
+    cefspan: "cefixime",
+    monocef: "ceftriaxone",
+    cepodem: "cefpodoxime",
+    ceftum: "cefuroxime",
+    sporidex: "cefalexin",
+    doxy: "doxycycline",
+    doxt: "doxycycline",
+    "doxt sl": "doxycycline",
+    linospan: "linezolid",
+    nitrofur: "nitrofurantoin",
+    forcan: "fluconazole",
+    zocon: "fluconazole",
+    itaspor: "itraconazole",
+    canditral: "itraconazole",
+    terbicip: "terbinafine",
+    valcivir: "valacyclovir",
+    acivir: "acyclovir",
+    zovirax: "acyclovir",
+    hcqs: "hydroxychloroquine",
+    lariago: "chloroquine",
+    zentel: "albendazole",
+    // Respiratory & allergy
+    allegra: "fexofenadine",
+    montair: "montelukast",
+    "montair lc": "montelukast + levocetirizine",
+    montek: "montelukast",
+    "montek lc": "montelukast + levocetirizine",
+    levocet: "levocetirizine",
+    xyzal: "levocetirizine",
+    cetzine: "cetirizine",
+    okacet: "cetirizine",
+    avil: "pheniramine",
+    atarax: "hydroxyzine",
+    asthalin: "salbutamol",
+    levolin: "levosalbutamol",
+    foracort: "formoterol + budesonide",
+    budecort: "budesonide",
+    seroflo: "salmeterol + fluticasone",
+    duolin: "levosalbutamol + ipratropium",
+    deriphyllin: "etofylline + theophylline",
+    ascoril: "terbutaline + bromhexine + guaifenesin",
+    benadryl: "diphenhydramine",
+    grilinctus: "dextromethorphan + chlorpheniramine",
+    wikoryl: "chlorpheniramine + phenylephrine + paracetamol",
+    // Thyroid & hormones
+    thyronorm: "levothyroxine",
+    eltroxin: "levothyroxine",
+    thyrox: "levothyroxine",
+    neomercazole: "carbimazole",
+    wysolone: "prednisolone",
+    omnacortil: "prednisolone",
+    medrol: "methylprednisolone",
+    dexona: "dexamethasone",
+    deviry: "medroxyprogesterone",
+    duphaston: "dydrogesterone",
+    susten: "progesterone",
+    // Neuro & psychiatry
+    fludac: "fluoxetine",
+    nexito: "escitalopram",
+    cipralex: "escitalopram",
+    daxid: "sertraline",
+    serta: "sertraline",
+    restyl: "alprazolam",
+    alprax: "alprazolam",
+    clonotril: "clonazepam",
+    rivotril: "clonazepam",
+    petril: "clonazepam",
+    licab: "lithium",
+    eptoin: "phenytoin",
+    tegretol: "carbamazepine",
+    valparin: "sodium valproate",
+    encorate: "sodium valproate",
+    levipil: "levetiracetam",
+    keppra: "levetiracetam",
+    gabapin: "gabapentin",
+    pregeb: "pregabalin",
+    "pregeb m": "pregabalin + methylcobalamin",
+    lyrica: "pregabalin",
+    tryptomer: "amitriptyline",
+    sizodon: "risperidone",
+    oleanz: "olanzapine",
+    donep: "donepezil",
+    syndopa: "levodopa + carbidopa",
+    vertin: "betahistine",
+    stugeron: "cinnarizine",
+    // Vitamins & supplements
+    shelcal: "calcium carbonate + vitamin d3",
+    calcimax: "calcium + vitamin d3",
+    uprise: "cholecalciferol",
+    "uprise d3": "cholecalciferol",
+    calcirol: "cholecalciferol",
+    "d rise": "cholecalciferol",
+    neurobion: "vitamin b complex",
+    becosules: "vitamin b complex + vitamin c",
+    methycobal: "methylcobalamin",
+    nurokind: "methylcobalamin",
+    livogen: "ferrous fumarate + folic acid",
+    autrin: "ferrous fumarate + folic acid",
+    orofer: "ferrous ascorbate + folic acid",
+    "orofer xt": "ferrous ascorbate + folic acid",
+    dexorange: "ferric ammonium citrate + vitamin b12 + folic acid",
+    folvite: "folic acid",
+    limcee: "vitamin c",
+    celin: "vitamin c",
+    zincovit: "multivitamin + zinc",
+    supradyn: "multivitamin",
+    evion: "vitamin e",
+    // Urology
+    urimax: "tamsulosin",
+    veltam: "tamsulosin",
+    "urimax d": "tamsulosin + dutasteride",
+    penegra: "sildenafil",
+    manforce: "sildenafil",
+    tadacip: "tadalafil",
+    // Immunology & oncology supportive
+    folitrax: "methotrexate",
+    azoran: "azathioprine",
+    saaz: "sulfasalazine",
+    // Skin & eye (common topical)
+    betnovate: "betamethasone",
+    "betnovate n": "betamethasone + neomycin",
+    candid: "clotrimazole",
+    "candid b": "clotrimazole + beclomethasone",
+    soframycin: "framycetin",
+    "t bact": "mupirocin",
+    fucidin: "fusidic acid",
+    moisturex: "urea + lactic acid",
+    vigamox: "moxifloxacin",
+    refresh: "carboxymethylcellulose",
+};
+
+/**
+ * Generics written out on prescriptions, beyond those the brands
+ * above map to — fuzzy matching corrects OCR misreads of these too.
+ */
+export const COMMON_GENERICS: string[] = [
+    "metformin", "glimepiride", "gliclazide", "sitagliptin", "vildagliptin", "teneligliptin", "dapagliflozin", "empagliflozin",
+    "insulin", "telmisartan", "losartan", "olmesartan", "amlodipine", "cilnidipine", "atenolol", "metoprolol", "bisoprolol",
+    "nebivolol", "carvedilol", "propranolol", "ramipril", "enalapril", "hydrochlorothiazide", "chlorthalidone", "furosemide",
+    "torsemide", "spironolactone", "digoxin", "amiodarone", "aspirin", "clopidogrel", "ticagrelor", "warfarin", "acenocoumarol",
+    "rivaroxaban", "apixaban", "atorvastatin", "rosuvastatin", "paracetamol", "ibuprofen", "diclofenac", "aceclofenac",
+    "naproxen", "etoricoxib", "tramadol", "pantoprazole", "omeprazole", "rabeprazole", "esomeprazole", "domperidone",
+    "ondansetron", "amoxicillin", "azithromycin", "clarithromycin", "ciprofloxacin", "levofloxacin", "ofloxacin",
+    "metronidazole", "cefixime", "ceftriaxone", "cefuroxime", "cefpodoxime", "doxycycline", "fluconazole",
+    "itraconazole", "hydroxychloroquine", "fexofenadine", "montelukast", "levocetirizine", "cetirizine", "salbutamol",
+    "budesonide", "levothyroxine", "carbimazole", "prednisolone", "methylprednisolone", "dexamethasone", "escitalopram",
+    "sertraline", "fluoxetine", "alprazolam", "clonazepam", "lithium", "levetiracetam", "gabapentin", "pregabalin",
+    "amitriptyline", "methylcobalamin", "cholecalciferol", "folic acid", "tamsulosin", "methotrexate", "allopurinol",
+    "febuxostat", "colchicine", "sildenafil", "tadalafil", "phenytoin", "carbamazepine", "sodium valproate",
+];
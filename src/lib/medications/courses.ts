@@ -0,0 +1,291 @@
+// ============================================================
+// Medication Courses — the reconciled "what am I taking now" list
+// Replays prescriptions and stop/change instructions in date
+// order. Each medicine (brand and generic merged) gets a course
+// with a start, an end worked out from its duration, and a status.
+// ============================================================
+
+import type { EntryMetadata, MedicationDetail } from "../types/timeline";
+import { addDaysIso } from "../utils/date";
+import { drugNameOf, medicationKey } from "./names";
+
+/** How long a medicine is taken, as far as the prescription says */
+export type CourseDuration =
+    | { kind: "days"; days: number }
+    | { kind: "ongoing" }          // "till review", "continue", "lifelong"
+    | { kind: "unspecified" };
+
+export type CourseStatus = "active" | "completed" | "stopped" | "replaced";
+
+export interface MedicationCourse {
+    key: string;                   // medicationKey(): brand and generic share one
+    name: string;                  // as last prescribed
+    aliases: string[];             // other names it was prescribed under
+    dosage?: string;
+    frequency?: string;
+    route?: string;
+    instructions?: string;
+    duration: CourseDuration;
+    durationText?: string;         // as written on the prescription
+    startDate: string;             // YYYY-MM-DD, first prescription of this course
+    lastPrescribedDate: string;
+    endDate?: string;              // when it ends / ended; absent while open-ended
+    status: CourseStatus;
+    statusReason?: string;
+    replacedBy?: string;
+    sourceEntryIds: string[];      // prescriptions that make up the course
+}
+
+/** The parts of a timeline entry the engine reads — HealthEntry fits */
+export interface CourseSource {
+    entryId: string;
+    date: string;
+    title?: string;
+    metadata?: Pick<EntryMetadata, "medications" | "treatmentPlan" | "advice" | "dischargeInstructions">;
+}
+
+// No duration written: assume a month, as the old 30-day window did
+const UNSPECIFIED_COURSE_DAYS = 30;
+// "Till review" that is never re-prescribed stops counting as current
+const ONGOING_STALE_DAYS = 180;
+
+const UNIT_DAYS: Record<string, number> = {
+    d: 1, day: 1,
+    w: 7, wk: 7, week: 7,
+    m: 30, mo: 30, mon: 30, mth: 30, mnth: 30, month: 30,
+    y: 365, yr: 365, year: 365,
+};
+
+/**
+ * "5 days", "x 2 weeks", "for 1 month", "6 mths", "3/7", "2/52", "1/12" → days;
+ * "till review", "continue", "lifelong", "long term" → ongoing.
+ */
+export function parseDuration(text?: string): CourseDuration {
+    if (!text) return { kind: "unspecified" };
+    const t = text.toLowerCase();
+    if (/\b(till|until|untill)\s+(next\s+)?(review|visit|follow[\s-]?up|further\s+advice|advised)\b|\b(continue|cont\.?|lifelong|life\s*long|long[\s-]?term|indefinitely|ongoing)\b/.test(t)) {
+        return { kind: "ongoing" };
+    }
+    const unit = t.match(/\b(\d+)\s*(days?|d|weeks?|wks?|w|months?|mnths?|mths?|mons?|mos?|m|years?|yrs?|y)\b/);
+    if (unit) {
+        const key = unit[2].replace(/s$/, "");
+        return { kind: "days", days: parseInt(unit[1], 10) * (UNIT_DAYS[key] ?? 1) };
+    }
+    // Clinical shorthand: n/7 days, n/52 weeks, n/12 months
+    const shorthand = t.match(/\b(\d+)\s*\/\s*(7|52|12)\b/);
+    if (shorthand) {
+        const n = parseInt(shorthand[1], 10);
+        return { kind: "days", days: shorthand[2] === "7" ? n : shorthand[2] === "52" ? n * 7 : n * 30 };
+    }
+    return { kind: "unspecified" };
+}
+
+type Instruction =
+    | { action: "stop"; drug: string }
+    | { action: "change"; from: string; to: string };
+
+// One drug word, after an optional "taking" and dosage form
+const DRUG = "(?:taking\\s+|using\\s+)?(?:tab\\.?|cap\\.?|syp\\.?|inj\\.?)?\\s*([a-z][a-z0-9+-]*)";
+const STOP_RE = new RegExp(`\\b(?:stop|discontinue|d\\/c|withdraw|hold|omit)\\s+${DRUG}`, "gi");
+const CHANGE_RE = new RegExp(`\\b(?:change|switch|shift)\\s+(?:from\\s+)?${DRUG}\\s+to\\s+${DRUG}`, "gi");
+const REPLACE_RE = new RegExp(`\\breplace\\s+${DRUG}\\s+with\\s+${DRUG}`, "gi");
+const CHANGED_RE = new RegExp(`\\b${DRUG}\\s+(?:changed|switched)\\s+to\\s+${DRUG}`, "gi");
+
+const STOP_WORD = /\b(?:stop|stopped|discontinued?|d\/c|omit)\b/gi;
+// "Do not stop", "don't stop", "never discontinue", "advised not to stop"
+const NEGATED = /(?:\bnot(?:\s+to)?|n['’]t|\bnever)\s+$/i;
+// "Hold if BP < 100", "stop if rash appears", "omit before surgery",
+// "stop after 5 days", "stop once fever subsides" — advice for later
+// or the course's own end, not a change now. Checked to the end of the clause.
+const CONDITIONAL = /^[^.;\n]*?\b(?:if|when|whenever|unless|in\s+case|during|before|after|once)\b/i;
+// "Hold metformin for 2 days" — a pause the course resumes from, not a stop
+const TEMPORARY = /^[^.;\n]*?\bfor\s+(?:\d+|a|an|one|two|three|few|a\s+few)\s*(?:days?|d|weeks?|wks?|w|doses?)\b/i;
+// "Stop after 5 days" on a prescribed line — when the course ends
+const END_OF_COURSE = /\b(?:stop|discontinue)\s+(?:after|once|when)\b[^.;\n]*/i;
+
+/** Whether the instruction starting at `index` applies now: neither negated nor conditional */
+function appliesNow(text: string, index: number): boolean {
+    return !NEGATED.test(text.slice(Math.max(0, index - 24), index)) && !CONDITIONAL.test(text.slice(index));
+}
+
+/** Whether the stop starting at `index` ends the course, rather than pausing it or not applying yet */
+function stopsNow(text: string, index: number): boolean {
+    return appliesNow(text, index) && !TEMPORARY.test(text.slice(index));
+}
+
+/** Stop / change instructions in free text ("Stop Amlodipine. Switch Glycomet to Janumet.") */
+export function parseInstructions(text: string): Instruction[] {
+    const found: Instruction[] = [];
+    for (const re of [CHANGE_RE, REPLACE_RE, CHANGED_RE]) {
+        for (const m of text.matchAll(re)) {
+            if (appliesNow(text, m.index)) found.push({ action: "change", from: m[1], to: m[2] });
+        }
+    }
+    for (const m of text.matchAll(STOP_RE)) {
+        if (stopsNow(text, m.index)) found.push({ action: "stop", drug: m[1] });
+    }
+    return found;
+}
+
+/** A medicine line whose own instructions say to stop it */
+function saysStop(med: MedicationDetail): boolean {
+    const text = `${med.instructions ?? ""} ${med.duration ?? ""}`;
+    return [...text.matchAll(STOP_WORD)].some((m) => stopsNow(text, m.index));
+}
+
+function instructionTexts(metadata: NonNullable<CourseSource["metadata"]>): string[] {
+    return [
+        metadata.treatmentPlan,
+        metadata.dischargeInstructions,
+        ...(metadata.advice ?? []),
+    ].filter((t): t is string => !!t);
+}
+
+function endOf(course: MedicationCourse): string | undefined {
+    switch (course.duration.kind) {
+        case "days": return addDaysIso(course.lastPrescribedDate, course.duration.days - 1);
+        case "unspecified": return addDaysIso(course.lastPrescribedDate, UNSPECIFIED_COURSE_DAYS - 1);
+        case "ongoing": return undefined;
+    }
+}
+
+function isOpen(course: MedicationCourse, on: string): boolean {
+    if (course.status !== "active") return false;
+    const end = endOf(course);
+    return end === undefined ? on <= addDaysIso(course.lastPrescribedDate, ONGOING_STALE_DAYS) : on <= end;
+}
+
+/**
+ * Replay every prescription and stop/change instruction, oldest first.
+ *
+ * @param today YYYY-MM-DD the statuses are worked out for
+ * @returns Every course, newest first — current ones have status "active"
+ */
+export function reconcileMedications(sources: CourseSource[], today: string = new Date().toISOString().split("T")[0]): MedicationCourse[] {
+    const courses: MedicationCourse[] = [];
+    const current = new Map<string, MedicationCourse>();
+
+    // Instructions name a drug by one word, brand or generic
+    const findCurrent = (drug: string): MedicationCourse | undefined => {
+        const direct = current.get(medicationKey(drug));
+        if (direct) return direct;
+        const name = drugNameOf(drug);
+        if (!name) return undefined;
+        return [...current.values()].find((c) =>
+            c.key.split(" ")[0] === name || [c.name, ...c.aliases].some((a) => drugNameOf(a).split(" ")[0] === name));
+    };
+
+    const close = (course: MedicationCourse, date: string, status: "stopped" | "replaced", reason: string, replacedBy?: string) => {
+        if (course.status !== "active") return;
+        course.status = status;
+        course.endDate = date;
+        course.statusReason = reason;
+        if (replacedBy) course.replacedBy = replacedBy;
+        current.delete(course.key);
+    };
+
+    const prescribe = (med: MedicationDetail, source: CourseSource) => {
+        const key = medicationKey(med.generic ?? med.name);
+        if (!key) return;
+        // Only the duration field — names carry strengths ("Pan 40 D") —
+        // or the line's own "stop after 5 days"
+        let duration = parseDuration(med.duration);
+        const endsWhen = med.instructions?.match(END_OF_COURSE);
+        if (duration.kind === "unspecified" && endsWhen) duration = parseDuration(endsWhen[0]);
+        const existing = current.get(key);
+        if (existing && isOpen(existing, source.date)) {
+            // A repeat without a duration carries the course's own forward
+            if (duration.kind === "unspecified") duration = existing.duration;
+            if (existing.name !== med.name) {
+                existing.aliases = [...new Set([...existing.aliases, existing.name])].filter((a) => a !== med.name);
+            }
+            Object.assign(existing, {
+                name: med.name,
+                dosage: med.dosage ?? existing.dosage,
+                frequency: med.frequency ?? existing.frequency,
+                route: med.route ?? existing.route,
+                instructions: med.instructions ?? existing.instructions,
+                duration,
+                durationText: med.duration ?? existing.durationText,
+                lastPrescribedDate: source.date,
+            });
+            if (!existing.sourceEntryIds.includes(source.entryId)) existing.sourceEntryIds.push(source.entryId);
+            return;
+        }
+        if (existing) {
+            existing.status = "completed";
+            existing.endDate = endOf(existing);
+            current.delete(key);
+        }
+        const course: MedicationCourse = {
+            key,
+            name: med.name,
+            aliases: [],
+            dosage: med.dosage,
+            frequency: med.frequency,
+            route: med.route,
+            instructions: med.instructions,
+            duration,
+            durationText: med.duration,
+            startDate: source.date,
+            lastPrescribedDate: source.date,
+            status: "active",
+            sourceEntryIds: [source.entryId],
+        };
+        courses.push(course);
+        current.set(key, course);
+    };
+
+    const ordered = [...sources]
+        .filter((s) => s.metadata && s.date)
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    for (const source of ordered) {
+        const date = source.date.split("T")[0];
+        const entry = { ...source, date };
+        const where = source.title ? `"${source.title}"` : "a later record";
+        const meds = (source.metadata!.medications ?? []).filter((m) => m?.name);
+
+        // Same-record stops win over the prescriptions listed next to them
+        for (const med of meds) if (!saysStop(med)) prescribe(med, entry);
+        for (const med of meds.filter(saysStop)) {
+            const course = findCurrent(med.name);
+            if (course) close(course, date, "stopped", `Stopped in ${where}`);
+        }
+        for (const text of instructionTexts(source.metadata!)) {
+            for (const ins of parseInstructions(text)) {
+                if (ins.action === "stop") {
+                    const course = findCurrent(ins.drug);
+                    if (course) close(course, date, "stopped", `Stopped in ${where}`);
+                } else {
+                    const course = findCurrent(ins.from);
+                    if (course) close(course, date, "replaced", `Changed to ${ins.to} in ${where}`, ins.to);
+                    if (!current.has(medicationKey(ins.to))) prescribe({ name: ins.to }, entry);
+                }
+            }
+        }
+    }
+
+    // Settle what is still open against today
+    for (const course of current.values()) {
+        if (isOpen(course, today)) {
+            course.endDate = endOf(course);
+            continue;
+        }
+        course.status = "completed";
+        course.endDate = endOf(course) ?? addDaysIso(course.lastPrescribedDate, ONGOING_STALE_DAYS);
+        course.statusReason = course.duration.kind === "ongoing"
+            ? `Not re-prescribed in ${ONGOING_STALE_DAYS} days`
+            : course.duration.kind === "unspecified"
+                ? `No duration given; assumed ${UNSPECIFIED_COURSE_DAYS} days`
+                : undefined;
+        if (!course.statusReason) delete course.statusReason;
+    }
+
+    return courses.sort((a, b) => b.lastPrescribedDate.localeCompare(a.lastPrescribedDate));
+}
+
+/** Only the courses being taken now. */
+export function activeCourses(courses: MedicationCourse[]): MedicationCourse[] {
+    return courses.filter((c) => c.status === "active");
+}
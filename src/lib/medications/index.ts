@@ -0,0 +1,10 @@
+// ============================================================
+// Medications — Barrel
+// ============================================================
+
+export * from "./names";
+export * from "./courses";
+export * from "./interactions";
+export * from "./interactionData";
+export * from "./brands";
+export * from "./normalize";
@@ -0,0 +1,316 @@
+// ============================================================
+// Interaction Dataset — bundled, versioned
+// Drug–drug interactions and allergy classes the checker reads.
+// Terms are lowercase generics or "class:<id>"; brand names reach
+// them through medicationKey(). Bump the version with any change
+// so stored insights can say which dataset raised them.
+// Curated from standard references for commonly co-prescribed
+// medicines in Indian practice — a safety net, not a formulary.
+// ============================================================
+
+export const INTERACTION_DATA_VERSION = "2026.10.1";
+
+export type InteractionSeverity = "minor" | "moderate" | "major" | "contraindicated";
+
+export interface InteractionRule {
+    a: string;
+    b: string;
+    severity: InteractionSeverity;
+    effect: string;
+    advice: string;
+}
+
+export interface AllergyClass {
+    id: string;
+    label: string;
+    /** Words in a recorded allergy that point at this class */
+    triggers: string[];
+    /** Generics (or "class:<id>") the allergy rules out */
+    members: string[];
+    /** Related generics with partial cross-reactivity */
+    crossReactive?: string[];
+}
+
+/** Drug classes rules can name instead of listing every generic */
+export const DRUG_CLASSES: Record<string, string[]> = {
+    nsaid: [
+        "ibuprofen", "diclofenac", "aceclofenac", "naproxen", "ketorolac", "etoricoxib",
+        "mefenamic acid", "piroxicam", "nimesulide", "indomethacin", "celecoxib", "ketoprofen",
+    ],
+    anticoagulant: ["warfarin", "acenocoumarol", "apixaban", "rivaroxaban", "dabigatran", "heparin", "enoxaparin"],
+    vka: ["warfarin", "acenocoumarol"],
+    antiplatelet: ["aspirin", "clopidogrel", "prasugrel", "ticagrelor"],
+    ace_inhibitor: ["enalapril", "ramipril", "lisinopril", "perindopril", "captopril"],
+    arb: ["telmisartan", "losartan", "olmesartan", "valsartan", "irbesartan"],
+    potassium_sparing: ["spironolactone", "eplerenone", "amiloride"],
+    loop_thiazide: ["furosemide", "torsemide", "hydrochlorothiazide", "chlorthalidone", "indapamide"],
+    cyp3a4_statin: ["atorvastatin", "simvastatin", "lovastatin"],
+    strong_cyp3a4_inhibitor: ["clarithromycin", "erythromycin", "ketoconazole", "itraconazole", "voriconazole", "ritonavir"],
+    azole: ["fluconazole", "ketoconazole", "itraconazole", "voriconazole"],
+    ssri: ["fluoxetine", "sertraline", "escitalopram", "paroxetine", "citalopram", "fluvoxamine"],
+    serotonergic: ["tramadol", "linezolid", "methylene blue", "ondansetron"],
+    fluoroquinolone: ["ciprofloxacin", "levofloxacin", "ofloxacin", "moxifloxacin", "norfloxacin"],
+    polyvalent_cation: ["calcium", "iron", "ferrous", "magnesium", "aluminium", "zinc", "sucralfate"],
+    sulfonylurea: ["glimepiride", "gliclazide", "glibenclamide", "glipizide"],
+    nitrate: ["isosorbide mononitrate", "isosorbide dinitrate", "nitroglycerin", "glyceryl trinitrate", "nicorandil"],
+    pde5_inhibitor: ["sildenafil", "tadalafil", "vardenafil"],
+    beta_blocker: ["metoprolol", "atenolol", "propranolol", "bisoprolol", "carvedilol", "nebivolol"],
+    rate_limiting_ccb: ["verapamil", "diltiazem"],
+    qt_prolonging: [
+        "azithromycin", "clarithromycin", "erythromycin", "hydroxychloroquine", "chloroquine",
+        "ondansetron", "domperidone", "levofloxacin", "moxifloxacin", "amiodarone", "haloperidol",
+    ],
+    cephalosporin: ["cefalexin", "cephalexin", "cefadroxil", "cefuroxime", "cefixime", "cefpodoxime", "ceftriaxone", "cefotaxime", "cefdinir"],
+    penicillin: ["penicillin", "amoxicillin", "ampicillin", "cloxacillin", "piperacillin", "benzathine penicillin"],
+    macrolide: ["azithromycin", "clarithromycin", "erythromycin", "roxithromycin"],
+    sulfonamide: ["sulfamethoxazole", "cotrimoxazole", "sulfadiazine", "sulfasalazine"],
+    opioid: ["tramadol", "codeine", "morphine", "tapentadol", "fentanyl"],
+};
+
+export const INTERACTION_RULES: InteractionRule[] = [
+    {
+        a: "class:vka", b: "class:nsaid", severity: "major",
+        effect: "NSAIDs raise the bleeding risk with warfarin-type anticoagulants and can injure the stomach lining.",
+        advice: "Prefer paracetamol for pain; if an NSAID is essential, monitor INR and add gastric protection.",
+    },
+    {
+        a: "class:anticoagulant", b: "class:antiplatelet", severity: "major",
+        effect: "An anticoagulant with an antiplatelet greatly increases the risk of bleeding.",
+        advice: "Combine only with a clear indication and review the need for both regularly.",
+    },
+    {
+        a: "class:anticoagulant", b: "class:anticoagulant", severity: "contraindicated",
+        effect: "Two anticoagulants together cause additive, potentially severe bleeding.",
+        advice: "Do not combine outside a supervised switch between agents.",
+    },
+    {
+        a: "class:vka", b: "class:fluoroquinolone", severity: "major",
+        effect: "Fluoroquinolones can sharply raise INR on warfarin or acenocoumarol.",
+        advice: "Check INR within a few days of starting and adjust the dose.",
+    },
+    {
+        a: "class:vka", b: "class:azole", severity: "major",
+        effect: "Azole antifungals inhibit warfarin metabolism and raise INR.",
+        advice: "Monitor INR closely; a dose reduction is often needed.",
+    },
+    {
+        a: "class:vka", b: "metronidazole", severity: "major",
+        effect: "Metronidazole inhibits warfarin metabolism and raises INR.",
+        advice: "Monitor INR closely during and after the course.",
+    },
+    {
+        a: "class:vka", b: "cotrimoxazole", severity: "major",
+        effect: "Co-trimoxazole raises INR on warfarin-type anticoagulants.",
+        advice: "Choose another antibiotic or monitor INR closely.",
+    },
+    {
+        a: "class:antiplatelet", b: "class:nsaid", severity: "moderate",
+        effect: "NSAIDs add to the bleeding and stomach-ulcer risk of antiplatelets; ibuprofen can also blunt low-dose aspirin.",
+        advice: "Use the lowest NSAID dose for the shortest time, with gastric protection.",
+    },
+    {
+        a: "clopidogrel", b: "omeprazole", severity: "moderate",
+        effect: "Omeprazole reduces activation of clopidogrel and may weaken its protection.",
+        advice: "Prefer pantoprazole or rabeprazole if acid suppression is needed.",
+    },
+    {
+        a: "clopidogrel", b: "esomeprazole", severity: "moderate",
+        effect: "Esomeprazole reduces activation of clopidogrel and may weaken its protection.",
+        advice: "Prefer pantoprazole or rabeprazole if acid suppression is needed.",
+    },
+    {
+        a: "class:ace_inhibitor", b: "class:potassium_sparing", severity: "major",
+        effect: "Together they can push potassium to dangerous levels, especially with kidney disease.",
+        advice: "Check potassium and creatinine within a week of starting and periodically after.",
+    },
+    {
+        a: "class:arb", b: "class:potassium_sparing", severity: "major",
+        effect: "Together they can push potassium to dangerous levels, especially with kidney disease.",
+        advice: "Check potassium and creatinine within a week of starting and periodically after.",
+    },
+    {
+        a: "class:ace_inhibitor", b: "class:arb", severity: "major",
+        effect: "Dual blockade of the renin–angiotensin system raises the risk of kidney injury and high potassium without added benefit.",
+        advice: "Avoid the combination; use one agent.",
+    },
+    {
+        a: "lithium", b: "class:nsaid", severity: "major",
+        effect: "NSAIDs reduce lithium clearance and can cause lithium toxicity.",
+        advice: "Avoid if possible; otherwise monitor lithium levels closely.",
+    },
+    {
+        a: "lithium", b: "class:ace_inhibitor", severity: "major",
+        effect: "ACE inhibitors raise lithium levels.",
+        advice: "Monitor lithium levels when starting or changing the dose.",
+    },
+    {
+        a: "lithium", b: "class:arb", severity: "major",
+        effect: "ARBs raise lithium levels.",
+        advice: "Monitor lithium levels when starting or changing the dose.",
+    },
+    {
+        a: "lithium", b: "class:loop_thiazide", severity: "major",
+        effect: "Diuretics, thiazides especially, reduce lithium clearance.",
+        advice: "Monitor lithium levels and watch for toxicity.",
+    },
+    {
+        a: "class:cyp3a4_statin", b: "class:strong_cyp3a4_inhibitor", severity: "major",
+        effect: "Blocked statin metabolism raises the risk of muscle damage (rhabdomyolysis).",
+        advice: "Pause the statin during the course or switch to rosuvastatin or pravastatin.",
+    },
+    {
+        a: "simvastatin", b: "amlodipine", severity: "moderate",
+        effect: "Amlodipine raises simvastatin levels and the risk of muscle pain.",
+        advice: "Keep simvastatin at 20 mg a day or less.",
+    },
+    {
+        a: "class:nitrate", b: "class:pde5_inhibitor", severity: "contraindicated",
+        effect: "Nitrates with sildenafil-type drugs can cause a severe, life-threatening drop in blood pressure.",
+        advice: "Do not combine; allow at least 24–48 hours between them.",
+    },
+    {
+        a: "class:ssri", b: "class:serotonergic", severity: "major",
+        effect: "The combination can cause serotonin syndrome (agitation, fever, tremor).",
+        advice: "Avoid if possible; otherwise start low and watch for symptoms.",
+    },
+    {
+        a: "class:ssri", b: "class:nsaid", severity: "moderate",
+        effect: "SSRIs with NSAIDs increase the risk of stomach bleeding.",
+        advice: "Add gastric protection or use paracetamol instead.",
+    },
+    {
+        a: "class:fluoroquinolone", b: "class:polyvalent_cation", severity: "moderate",
+        effect: "Calcium, iron, magnesium and zinc bind the antibiotic and stop it being absorbed.",
+        advice: "Take the antibiotic 2 hours before or 6 hours after these supplements.",
+    },
+    {
+        a: "levothyroxine", b: "class:polyvalent_cation", severity: "moderate",
+        effect: "Calcium and iron reduce levothyroxine absorption.",
+        advice: "Take levothyroxine on an empty stomach, 4 hours apart from these supplements.",
+    },
+    {
+        a: "ciprofloxacin", b: "theophylline", severity: "major",
+        effect: "Ciprofloxacin raises theophylline levels and can cause seizures or arrhythmia.",
+        advice: "Choose another antibiotic or reduce the theophylline dose and monitor levels.",
+    },
+    {
+        a: "digoxin", b: "amiodarone", severity: "major",
+        effect: "Amiodarone roughly doubles digoxin levels.",
+        advice: "Halve the digoxin dose and monitor levels.",
+    },
+    {
+        a: "digoxin", b: "class:rate_limiting_ccb", severity: "major",
+        effect: "Verapamil and diltiazem raise digoxin levels and slow the heart further.",
+        advice: "Reduce the digoxin dose and monitor heart rate and levels.",
+    },
+    {
+        a: "class:beta_blocker", b: "class:rate_limiting_ccb", severity: "major",
+        effect: "Together they can cause severe slowing of the heart and heart block.",
+        advice: "Avoid, or monitor heart rate and ECG closely.",
+    },
+    {
+        a: "methotrexate", b: "cotrimoxazole", severity: "contraindicated",
+        effect: "Co-trimoxazole adds to methotrexate's bone-marrow suppression.",
+        advice: "Do not combine; choose another antibiotic.",
+    },
+    {
+        a: "methotrexate", b: "class:nsaid", severity: "major",
+        effect: "NSAIDs reduce methotrexate clearance and raise its toxicity.",
+        advice: "Avoid with anti-cancer doses; monitor blood counts and kidney function with low weekly doses.",
+    },
+    {
+        a: "class:sulfonylurea", b: "class:fluoroquinolone", severity: "moderate",
+        effect: "Fluoroquinolones can cause severe low or high blood sugar with sulfonylureas.",
+        advice: "Monitor blood sugar closely during the course.",
+    },
+    {
+        a: "class:sulfonylurea", b: "fluconazole", severity: "moderate",
+        effect: "Fluconazole raises sulfonylurea levels and the risk of low blood sugar.",
+        advice: "Monitor blood sugar; a lower dose may be needed.",
+    },
+    {
+        a: "class:qt_prolonging", b: "class:qt_prolonging", severity: "moderate",
+        effect: "Two QT-prolonging drugs together raise the risk of a dangerous heart rhythm.",
+        advice: "Check an ECG and potassium and magnesium levels if the combination is needed.",
+    },
+    {
+        a: "clarithromycin", b: "colchicine", severity: "contraindicated",
+        effect: "Clarithromycin blocks colchicine clearance and can cause fatal colchicine toxicity.",
+        advice: "Do not combine; choose another antibiotic.",
+    },
+    {
+        a: "allopurinol", b: "azathioprine", severity: "contraindicated",
+        effect: "Allopurinol blocks azathioprine breakdown and can cause severe bone-marrow suppression.",
+        advice: "Avoid, or cut the azathioprine dose to a quarter under specialist care.",
+    },
+    {
+        a: "class:opioid", b: "class:opioid", severity: "major",
+        effect: "Two opioids together add up to dangerous drowsiness and breathing depression.",
+        advice: "Use a single opioid.",
+    },
+    {
+        a: "class:opioid", b: "alprazolam", severity: "major",
+        effect: "Opioids with benzodiazepines can cause profound sedation and breathing depression.",
+        advice: "Avoid the combination or use the lowest doses for the shortest time.",
+    },
+    {
+        a: "class:opioid", b: "clonazepam", severity: "major",
+        effect: "Opioids with benzodiazepines can cause profound sedation and breathing depression.",
+        advice: "Avoid the combination or use the lowest doses for the shortest time.",
+    },
+];
+
+export const ALLERGY_CLASSES: AllergyClass[] = [
+    {
+        id: "penicillin",
+        label: "penicillin",
+        triggers: ["penicillin", "amoxicillin", "amoxycillin", "ampicillin", "augmentin", "cloxacillin"],
+        members: ["class:penicillin"],
+        crossReactive: ["class:cephalosporin"],
+    },
+    {
+        id: "cephalosporin",
+        label: "cephalosporin",
+        triggers: ["cephalosporin", "cefixime", "ceftriaxone", "cefuroxime", "cefalexin", "cephalexin", "cefpodoxime"],
+        members: ["class:cephalosporin"],
+    },
+    {
+        id: "sulfonamide",
+        label: "sulfa",
+        triggers: ["sulfa", "sulpha", "sulfonamide", "sulphonamide", "cotrimoxazole", "septran", "bactrim", "sulfamethoxazole"],
+        members: ["class:sulfonamide"],
+    },
+    {
+        id: "nsaid",
+        label: "NSAID / aspirin",
+        triggers: ["nsaid", "aspirin", "ibuprofen", "diclofenac", "aceclofenac", "naproxen", "painkiller", "brufen", "combiflam", "voveran"],
+        members: ["class:nsaid", "aspirin"],
+    },
+    {
+        id: "fluoroquinolone",
+        label: "quinolone",
+        triggers: ["quinolone", "ciprofloxacin", "levofloxacin", "ofloxacin", "norfloxacin", "ciplox"],
+        members: ["class:fluoroquinolone"],
+    },
+    {
+        id: "macrolide",
+        label: "macrolide",
+        triggers: ["macrolide", "azithromycin", "clarithromycin", "erythromycin", "azithral"],
+        members: ["class:macrolide"],
+    },
+    {
+        id: "opioid",
+        label: "opioid",
+        triggers: ["opioid", "opiate", "codeine", "morphine", "tramadol"],
+        members: ["class:opioid"],
+    },
+];
+
+/**
+ * Medicines where a dosing error does outsized harm. Entries that
+ * list one are flagged CRITICAL on the timeline.
+ */
+export const HIGH_ALERT_GENERICS = [
+    "warfarin", "acenocoumarol", "heparin", "enoxaparin", "insulin", "methotrexate",
+    "digoxin", "lithium", "amiodarone", "phenytoin", "carbamazepine", "tacrolimus",
+];
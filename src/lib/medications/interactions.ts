@@ -0,0 +1,187 @@
+// ============================================================
+// Interaction Checker
+// Checks medicines against each other and against recorded
+// allergies using the bundled dataset (interactionData.ts).
+// Pure — the server runs it when a prescription or readable scan
+// is saved; the patient's device runs it over the decrypted
+// timeline, so sealed scans are covered too.
+// ============================================================
+
+import type { HealthInsight } from "../types/rag";
+import { drugNameOf, medicationKey } from "./names";
+import {
+    ALLERGY_CLASSES,
+    DRUG_CLASSES,
+    HIGH_ALERT_GENERICS,
+    INTERACTION_DATA_VERSION,
+    INTERACTION_RULES,
+} from "./interactionData";
+import type { AllergyClass, InteractionSeverity } from "./interactionData";
+
+/** A medicine to check, with the entries that prescribed it */
+export interface CheckedDrug {
+    name: string;
+    entryIds: string[];
+}
+
+export interface InteractionWarning {
+    id: string;                    // stable per pair, e.g. "ibuprofen+warfarin"
+    kind: "drug" | "allergy";
+    severity: InteractionSeverity;
+    drugs: string[];               // display names; one for an allergy warning
+    allergy?: string;              // the recorded allergy, as written
+    effect: string;
+    advice: string;
+    entryIds: string[];            // entries that prescribed the conflicting medicines
+    datasetVersion: string;
+}
+
+export interface InteractionCheck {
+    /** Medicines being added — checked against each other and everything else */
+    proposed: CheckedDrug[];
+    /** Medicines already being taken */
+    current?: CheckedDrug[];
+    allergies?: string[];
+}
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = { minor: 0, moderate: 1, major: 2, contraindicated: 3 };
+
+function hasGeneric(key: string, generic: string): boolean {
+    return ` ${key} `.includes(` ${generic} `);
+}
+
+function matchesTerm(key: string, term: string): boolean {
+    return term.startsWith("class:")
+        ? (DRUG_CLASSES[term.slice("class:".length)] ?? []).some((g) => hasGeneric(key, g))
+        : hasGeneric(key, term);
+}
+
+/** "Tab. Warf 5mg OD" → "Warf" */
+export function displayDrugName(line: string): string {
+    const name = drugNameOf(line);
+    return name ? name.replace(/\b[a-z]/g, (c) => c.toUpperCase()) : line.trim();
+}
+
+/** True for warfarin, insulin and the other medicines flagged CRITICAL on the timeline. */
+export function isHighAlert(name: string): boolean {
+    const key = medicationKey(name);
+    return HIGH_ALERT_GENERICS.some((g) => hasGeneric(key, g));
+}
+
+function drugPair(x: CheckedDrug, y: CheckedDrug): InteractionWarning | undefined {
+    const kx = medicationKey(x.name);
+    const ky = medicationKey(y.name);
+    if (!kx || !ky || kx === ky) return undefined;
+    const rule = INTERACTION_RULES
+        .filter((r) => (matchesTerm(kx, r.a) && matchesTerm(ky, r.b)) || (matchesTerm(kx, r.b) && matchesTerm(ky, r.a)))
+        .sort((p, q) => SEVERITY_RANK[q.severity] - SEVERITY_RANK[p.severity])[0];
+    if (!rule) return undefined;
+    return {
+        id: [kx, ky].sort().join("+"),
+        kind: "drug",
+        severity: rule.severity,
+        drugs: [displayDrugName(x.name), displayDrugName(y.name)],
+        effect: rule.effect,
+        advice: rule.advice,
+        entryIds: [...new Set([...x.entryIds, ...y.entryIds])],
+        datasetVersion: INTERACTION_DATA_VERSION,
+    };
+}
+
+function classesFor(allergy: string): AllergyClass[] {
+    const text = allergy.toLowerCase();
+    const key = medicationKey(allergy);
+    return ALLERGY_CLASSES.filter((c) =>
+        c.triggers.some((t) => hasGeneric(text.replace(/[^a-z0-9\s]/g, " "), t) || hasGeneric(key, t)) ||
+        c.members.some((m) => matchesTerm(key, m)));
+}
+
+function allergyWarning(drug: CheckedDrug, allergy: string): InteractionWarning | undefined {
+    const key = medicationKey(drug.name);
+    const allergyKey = medicationKey(allergy);
+    if (!key) return undefined;
+    const name = displayDrugName(drug.name);
+    const base = { kind: "allergy" as const, drugs: [name], allergy, entryIds: drug.entryIds, datasetVersion: INTERACTION_DATA_VERSION };
+
+    for (const c of classesFor(allergy)) {
+        if (c.members.some((m) => matchesTerm(key, m))) {
+            return {
+                ...base,
+                id: `allergy:${c.id}+${key}`,
+                severity: "contraindicated",
+                effect: `${name} is a ${c.label} medicine and the patient has a recorded ${c.label} allergy ("${allergy}").`,
+                advice: "Do not give unless the allergy has been ruled out; choose an unrelated alternative.",
+            };
+        }
+        if (c.crossReactive?.some((m) => matchesTerm(key, m))) {
+            return {
+                ...base,
+                id: `allergy:${c.id}+${key}`,
+                severity: "moderate",
+                effect: `${name} can cross-react in a small share of patients with a ${c.label} allergy ("${allergy}").`,
+                advice: "Ask about the severity of the original reaction; avoid after anaphylaxis.",
+            };
+        }
+    }
+    if (allergyKey && (hasGeneric(key, allergyKey) || hasGeneric(allergyKey, key))) {
+        return {
+            ...base,
+            id: `allergy:${allergyKey}+${key}`,
+            severity: "contraindicated",
+            effect: `The patient has a recorded allergy to ${allergy}.`,
+            advice: "Do not give; choose an unrelated alternative.",
+        };
+    }
+    return undefined;
+}
+
+/**
+ * Every interaction the proposed medicines bring: among themselves,
+ * with what is already being taken, and with recorded allergies.
+ * Most severe first; one warning per pair.
+ */
+export function checkInteractions({ proposed, current = [], allergies = [] }: InteractionCheck): InteractionWarning[] {
+    const found = new Map<string, InteractionWarning>();
+    const add = (w: InteractionWarning | undefined) => {
+        if (!w) return;
+        const seen = found.get(w.id);
+        if (seen) seen.entryIds = [...new Set([...seen.entryIds, ...w.entryIds])];
+        else found.set(w.id, w);
+    };
+
+    const proposedKeys = new Set(proposed.map((d) => medicationKey(d.name)));
+    // A re-prescribed medicine is checked once, as proposed
+    const others = current.filter((d) => !proposedKeys.has(medicationKey(d.name)));
+
+    proposed.forEach((x, i) => {
+        proposed.slice(i + 1).forEach((y) => add(drugPair(x, y)));
+        others.forEach((y) => add(drugPair(x, y)));
+        allergies.filter((a) => a.trim()).forEach((a) => add(allergyWarning(x, a.trim())));
+    });
+
+    return [...found.values()].sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
+
+/** Interactions within a reconciled list — what is being taken now — and with allergies. */
+export function checkCourses(courses: { name: string; sourceEntryIds: string[] }[], allergies: string[] = []): InteractionWarning[] {
+    return checkInteractions({ proposed: courses.map((c) => ({ name: c.name, entryIds: c.sourceEntryIds })), allergies });
+}
+
+/** Patient-facing insights for a set of warnings — one per pair, so re-checks update rather than repeat. */
+export function interactionInsights(patientId: string, warnings: InteractionWarning[], now: string = new Date().toISOString()): HealthInsight[] {
+    return warnings.map((w) => ({
+        insightId: `drug_interaction#${w.id}`,
+        patientId,
+        type: "drug_interaction",
+        title: w.kind === "allergy"
+            ? `${w.drugs[0]} may not be safe with your allergy`
+            : `${w.drugs[0]} and ${w.drugs[1]} may interact`,
+        description: `${w.effect} ${w.advice} Talk to your doctor before changing anything.`,
+        severity: SEVERITY_RANK[w.severity] >= SEVERITY_RANK.major ? "alert" : w.severity === "moderate" ? "warning" : "info",
+        relatedEntryIds: w.entryIds,
+        dataPoints: [],
+        generatedAt: now,
+        isRead: false,
+        isDismissed: false,
+    }));
+}
@@ -0,0 +1,172 @@
+// ============================================================
+// Medication Names
+// Reduces a prescribed line ("Tab. Glycomet 500mg BD x 30 days")
+// to the drug it names, and resolves Indian brands — and OCR
+// misreadings of them — to their generic so the same medicine
+// matches across prescriptions.
+// ============================================================
+
+import { BRAND_GENERICS, COMMON_GENERICS } from "./brands";
+
+// Dosage-form words written before or after the drug name
+const FORM_WORDS = new Set([
+    "tab", "tabs", "tablet", "tablets", "cap", "caps", "capsule", "capsules",
+    "syp", "syr", "syrup", "susp", "suspension", "inj", "injection", "oint", "ointment",
+    "cream", "gel", "drops", "drop", "sachet", "powder", "inhaler", "spray", "lotion", "soln", "solution",
+    "sr", "er", "xr", "cr", "od", "mr", "ds", "forte", "plus",
+]);
+
+// Tokens that start the dose / frequency / duration part of a line
+const TAIL_START = /^(\d|x\d*$|for$|bd$|bid$|od$|tds$|tid$|qid$|qds$|hs$|sos$|prn$|once$|twice$|daily$|morning$|night$|after$|before$|with$|mg$|ml$)/;
+
+/** "Tab. Metformin 500mg BD x 30 days" → "metformin" (lowercase, no form/dose/frequency). */
+export function drugNameOf(line: string): string {
+    const tokens = line
+        .toLowerCase()
+        .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+        .replace(/\(.*?\)/g, " ")
+        .replace(/[^a-z0-9+\s-]/g, " ")
+        .split(/[\s-]+/)
+        .filter(Boolean);
+    const name: string[] = [];
+    for (const token of tokens) {
+        if (TAIL_START.test(token) && name.length > 0) break;
+        if (FORM_WORDS.has(token) || TAIL_START.test(token)) continue;
+        name.push(token);
+    }
+    return name.join(" ");
+}
+
+/** The generic a line names, if written in brackets: "Glycomet (Metformin) 500" → "metformin". */
+function bracketedGeneric(line: string): string | undefined {
+    const inner = line.match(/\(([^)]+)\)/)?.[1];
+    const name = inner ? drugNameOf(inner) : "";
+    return name && !/^\d/.test(name) ? name : undefined;
+}
+
+export type GenericMatch = "bracketed" | "brand" | "generic" | "ocr" | "fuzzy" | "none";
+
+export interface ResolvedGeneric {
+    generic: string;               // lowercase molecule(s); the drug name itself when unmatched
+    brand?: string;                // dictionary brand it matched, if any
+    confidence: number;            // 0–1
+    matchedBy: GenericMatch;
+}
+
+// Below this similarity a fuzzy match is no match
+const FUZZY_MIN_SIMILARITY = 0.8;
+// Short names are too easy to confuse to correct
+const FUZZY_MIN_LENGTH = 5;
+
+const KNOWN_GENERICS = new Set([...COMMON_GENERICS, ...Object.values(BRAND_GENERICS)]);
+
+/**
+ * Readings of a name with common OCR confusions undone: digits read
+ * for letters inside a word ("glyc0met") and letter pairs read for
+ * one letter ("glycornet", "clolo").
+ */
+function ocrVariants(name: string): string[] {
+    const digitsFixed = name.split(" ").map((token) =>
+        /[a-z]/.test(token) ? token.replace(/0/g, "o").replace(/1/g, "l").replace(/5/g, "s").replace(/8/g, "b") : token
+    ).join(" ");
+    const variants = new Set([digitsFixed, digitsFixed.replace(/rn/g, "m"), digitsFixed.replace(/cl/g, "d"), digitsFixed.replace(/vv/g, "w")]);
+    variants.delete(name);
+    return [...variants];
+}
+
+function editDistance(a: string, b: string): number {
+    const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        let diag = prev[0];
+        prev[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = prev[j];
+            prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diag = above;
+        }
+    }
+    return prev[b.length];
+}
+
+function similarity(a: string, b: string): number {
+    return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+function exactLookup(name: string): Omit<ResolvedGeneric, "confidence" | "matchedBy"> | undefined {
+    const tokens = name.split(" ");
+    // Longest first, so "telma h" wins over "telma"
+    for (const candidate of [name, tokens.slice(0, 2).join(" "), tokens[0]]) {
+        if (BRAND_GENERICS[candidate]) return { generic: BRAND_GENERICS[candidate], brand: candidate };
+        if (KNOWN_GENERICS.has(candidate)) return { generic: candidate };
+    }
+    return undefined;
+}
+
+function fuzzyLookup(token: string): { generic: string; brand?: string; score: number } | undefined {
+    if (token.length < FUZZY_MIN_LENGTH) return undefined;
+    let best: { generic: string; brand?: string; score: number } | undefined;
+    let runnerUp = 0;
+    const consider = (candidate: string, generic: string, brand?: string) => {
+        if (Math.abs(candidate.length - token.length) > 2 || candidate.length < FUZZY_MIN_LENGTH) return;
+        const score = similarity(token, candidate);
+        if (!best || score > best.score) {
+            if (best && best.generic !== generic) runnerUp = best.score;
+            best = { generic, brand, score };
+        } else if (generic !== best.generic) {
+            runnerUp = Math.max(runnerUp, score);
+        }
+    };
+    for (const [brand, generic] of Object.entries(BRAND_GENERICS)) if (!brand.includes(" ")) consider(brand, generic, brand);
+    for (const generic of KNOWN_GENERICS) if (!generic.includes(" ")) consider(generic, generic);
+    if (!best || best.score < FUZZY_MIN_SIMILARITY) return undefined;
+    // Two different medicines almost as close: trust it less
+    return best.score - runnerUp < 0.1 ? { ...best, score: best.score * 0.8 } : best;
+}
+
+/**
+ * What a prescribed line names: the generic written in brackets, a
+ * dictionary brand or generic, the same after fixing OCR digit
+ * misreads, or the closest brand/generic by edit distance.
+ */
+export function resolveGeneric(line: string): ResolvedGeneric {
+    const bracketed = bracketedGeneric(line);
+    if (bracketed) {
+        const hit = exactLookup(bracketed);
+        return { generic: hit?.generic ?? bracketed, confidence: 1, matchedBy: "bracketed" };
+    }
+    const name = drugNameOf(line);
+    if (!name) return { generic: "", confidence: 0, matchedBy: "none" };
+
+    const exact = exactLookup(name);
+    if (exact) return { ...exact, confidence: 1, matchedBy: exact.brand ? "brand" : "generic" };
+
+    const variants = ocrVariants(name);
+    for (const variant of variants) {
+        const ocr = exactLookup(variant);
+        if (ocr) return { ...ocr, confidence: 0.9, matchedBy: "ocr" };
+    }
+
+    const fuzzy = fuzzyLookup((variants[0] ?? name).split(" ")[0]);
+    if (fuzzy) {
+        return {
+            generic: fuzzy.generic,
+            ...(fuzzy.brand && { brand: fuzzy.brand }),
+            confidence: Math.round(fuzzy.score * 100) / 100,
+            matchedBy: "fuzzy",
+        };
+    }
+    return { generic: name, confidence: 0, matchedBy: "none" };
+}
+
+// A fuzzy guess this sure is safe to group medicines by
+const KEY_MIN_CONFIDENCE = 0.8;
+
+/**
+ * Key that groups brand and generic names of one medicine:
+ * "Glycomet 500", "Metformin SR 1g", "Tab. Glycomet (Metformin)" and
+ * an OCR-garbled "Glycornet 500" all give "metformin".
+ */
+export function medicationKey(line: string): string {
+    const resolved = resolveGeneric(line);
+    return resolved.confidence >= KEY_MIN_CONFIDENCE ? resolved.generic : drugNameOf(line);
+}
@@ -0,0 +1,90 @@
+// ============================================================
+// Medication Normalisation
+// Fills in the generic molecule, strength and form of an
+// extracted MedicationDetail ("Glycomet 500" → metformin, 500 mg,
+// tablet). The text as written stays in `name`; the added fields
+// say how sure the match is.
+// ============================================================
+
+import type { MedicationDetail } from "../types/timeline";
+import { medicationKey, resolveGeneric } from "./names";
+
+// Below this a guess is left off the medication altogether
+const MIN_CONFIDENCE = 0.6;
+
+const FORMS: [RegExp, string][] = [
+    [/\b(tab|tabs|tablet|tablets)\b/i, "tablet"],
+    [/\b(cap|caps|capsule|capsules)\b/i, "capsule"],
+    [/\b(syp|syr|syrup)\b/i, "syrup"],
+    [/\b(susp|suspension)\b/i, "suspension"],
+    [/\b(inj|injection)\b/i, "injection"],
+    [/\b(oint|ointment)\b/i, "ointment"],
+    [/\bcream\b/i, "cream"],
+    [/\bgel\b/i, "gel"],
+    [/\b(drop|drops)\b/i, "drops"],
+    [/\b(inhaler|rotacap|rotacaps|mdi)\b/i, "inhaler"],
+    [/\b(respule|respules|neb)\b/i, "nebuliser solution"],
+    [/\bspray\b/i, "spray"],
+    [/\bsachet\b/i, "sachet"],
+    [/\blotion\b/i, "lotion"],
+];
+
+const UNIT_ALIASES: Record<string, string> = {
+    mg: "mg", mcg: "mcg", "µg": "mcg", ug: "mcg", g: "g", gm: "g", ml: "ml",
+    iu: "IU", unit: "units", units: "units", "%": "%", k: "000 IU",
+};
+
+/** "500mg", "0.5 mg", "60K", "10 units" — the strength written on a line. */
+function strengthOf(line: string, generic: string): string | undefined {
+    const m = line.match(/(\d+(?:\.\d+)?)\s*(mg|mcg|µg|ug|gm|g|ml|iu|units?|%|k)\b/i);
+    if (m) {
+        const unit = UNIT_ALIASES[m[2].toLowerCase()];
+        return unit === "000 IU" ? `${m[1]},000 IU` : `${m[1]} ${unit}`;
+    }
+    // "Dolo 650", "Telma 40": a bare number straight after the name is the
+    // strength in mg — except for combinations, whose one number is ambiguous
+    const bare = line.match(/^[^\d]*?[a-z)\]]\s*-?\s*(\d+(?:\.\d+)?)(?![\d.])(?!\s*(?:-\s*\d|\/|days?|weeks?|months?|times?|tabs?)\b)/i);
+    if (!bare) return undefined;
+    return generic.includes("+") ? bare[1] : `${bare[1]} mg`;
+}
+
+function formOf(line: string): string | undefined {
+    return FORMS.find(([pattern]) => pattern.test(line))?.[1];
+}
+
+/**
+ * The medication with `generic`, `strength`, `form` and
+ * `matchConfidence` filled in where they can be worked out.
+ * Fields already set (a dosage read by the NER engine) win.
+ */
+export function normalizeMedication(med: MedicationDetail): MedicationDetail {
+    const resolved = resolveGeneric(med.name);
+    const known = resolved.matchedBy !== "none" && resolved.confidence >= MIN_CONFIDENCE;
+    const strength = med.strength ?? strengthOf(med.name, known ? resolved.generic : "");
+    const form = med.form ?? formOf(med.name);
+    return {
+        ...med,
+        ...(known && { generic: resolved.generic, matchConfidence: resolved.confidence }),
+        ...(strength && { strength }),
+        // A unitless combination strength ("Glycomet GP 2") is not a dose
+        ...(!med.dosage && strength && /\D$/.test(strength) && { dosage: strength }),
+        ...(form && { form }),
+    };
+}
+
+/**
+ * Normalise a list and drop repeats of the same medicine at the same
+ * strength — "Glycomet 500" and "Metformin 500mg" on one page are one
+ * prescription. The first mention is kept.
+ */
+export function normalizeMedications(meds: MedicationDetail[]): MedicationDetail[] {
+    const seen = new Set<string>();
+    const result: MedicationDetail[] = [];
+    for (const med of meds.map(normalizeMedication)) {
+        const key = `${med.generic ?? medicationKey(med.name)}|${(med.strength ?? "").replace(/\s/g, "").toLowerCase()}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        result.push(med);
+    }
+    return result;
+}
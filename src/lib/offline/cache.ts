@@ -0,0 +1,127 @@
+// ============================================================
+// Encrypted Offline Cache
+// Typed get/put over the offline database. Values are sealed
+// with the vault key before they are written; reads that fail
+// to decrypt (other vault, corrupted row) behave as a miss.
+// Cache failures are logged and swallowed — the network path
+// must never break because IndexedDB did.
+// ============================================================
+
+import { encryptString, decryptToString, serializeBlob, deserializeBlob } from "../crypto/aesGcm";
+import { getOfflineDb, offlineAvailable, type CacheKind } from "./db";
+import type { SerializedEncryptedBlob, WrappedVaultKey } from "../types/crypto";
+
+export interface CacheHit<T> {
+    value: T;
+    cachedAt: string;
+}
+
+/** Store a blob that is already encrypted (e.g. a sealed photo from S3). */
+export async function putSealed(
+    ownerId: string,
+    kind: CacheKind,
+    id: string,
+    blob: SerializedEncryptedBlob
+): Promise<void> {
+    if (!offlineAvailable()) return;
+    try {
+        const db = await getOfflineDb();
+        await db.put("records", { ownerId, kind, id, blob, cachedAt: new Date().toISOString() });
+    } catch (err) {
+        console.warn(`[offline] Could not cache ${kind}/${id}:`, err);
+    }
+}
+
+/** Read a stored blob as-is; the caller decrypts. */
+export async function getSealed(
+    ownerId: string,
+    kind: CacheKind,
+    id: string
+): Promise<CacheHit<SerializedEncryptedBlob> | null> {
+    if (!offlineAvailable()) return null;
+    try {
+        const db = await getOfflineDb();
+        const row = await db.get("records", [ownerId, kind, id]);
+        return row ? { value: row.blob, cachedAt: row.cachedAt } : null;
+    } catch (err) {
+        console.warn(`[offline] Could not read ${kind}/${id}:`, err);
+        return null;
+    }
+}
+
+/** Seal a JSON-serialisable value under the vault key and store it. */
+export async function saveCached<T>(
+    ownerId: string,
+    kind: CacheKind,
+    id: string,
+    value: T,
+    masterKey: CryptoKey,
+    keyId?: string
+): Promise<void> {
+    if (!offlineAvailable()) return;
+    try {
+        const sealed = await encryptString(JSON.stringify(value), masterKey, keyId);
+        await putSealed(ownerId, kind, id, serializeBlob(sealed));
+    } catch (err) {
+        console.warn(`[offline] Could not seal ${kind}/${id}:`, err);
+    }
+}
+
+/**
+ * Load and open a value stored with saveCached().
+ * @param keyId  When given, a value sealed under another vault key is a miss
+ */
+export async function loadCached<T>(
+    ownerId: string,
+    kind: CacheKind,
+    id: string,
+    masterKey: CryptoKey,
+    keyId?: string
+): Promise<CacheHit<T> | null> {
+    const hit = await getSealed(ownerId, kind, id);
+    if (!hit) return null;
+    if (keyId && hit.value.keyId && hit.value.keyId !== keyId) return null;
+    try {
+        const json = await decryptToString(deserializeBlob(hit.value), masterKey);
+        return { value: JSON.parse(json) as T, cachedAt: hit.cachedAt };
+    } catch {
+        return null;
+    }
+}
+
+/** Keep the wrapped vault key so the PIN can unlock it offline. */
+export async function saveOfflineVault(ownerId: string, vault: WrappedVaultKey): Promise<void> {
+    if (!offlineAvailable()) return;
+    try {
+        const db = await getOfflineDb();
+        await db.put("vault", { ownerId, vault });
+    } catch (err) {
+        console.warn("[offline] Could not cache vault key:", err);
+    }
+}
+
+export async function loadOfflineVault(ownerId: string): Promise<WrappedVaultKey | null> {
+    if (!offlineAvailable()) return null;
+    try {
+        const db = await getOfflineDb();
+        return (await db.get("vault", ownerId))?.vault ?? null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Remove every cached record and vault key on this device. Scans in
+ * the outbox stay: they are sealed, and upload once their owner signs
+ * in again.
+ */
+export async function clearOfflineData(): Promise<void> {
+    if (!offlineAvailable()) return;
+    try {
+        const db = await getOfflineDb();
+        const tx = db.transaction(["records", "vault"], "readwrite");
+        await Promise.all([tx.objectStore("records").clear(), tx.objectStore("vault").clear(), tx.done]);
+    } catch (err) {
+        console.warn("[offline] Could not wipe offline data:", err);
+    }
+}
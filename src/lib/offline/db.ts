@@ -0,0 +1,102 @@
+// ============================================================
+// Offline Database (IndexedDB via idb)
+//
+// One database per browser profile, partitioned by ownerId
+// (patient Card ID). Everything record-derived is stored as an
+// AES-GCM blob under the vault key — IndexedDB never holds
+// plaintext health data. The wrapped vault key is kept too so
+// the vault PIN can unlock it with no network, and scans taken
+// offline wait in the outbox until they can be uploaded.
+// ============================================================
+
+import { openDB, type DBSchema, type IDBPDatabase } from "idb";
+import type { SerializedEncryptedBlob, WrappedVaultKey } from "../types/crypto";
+
+const DB_NAME = "arogyasutra-offline";
+const DB_VERSION = 2;
+
+/** What a cached record holds */
+export type CacheKind = "timeline" | "photo" | "emergency" | "medications";
+
+export interface CachedRecord {
+    ownerId: string;
+    kind: CacheKind;
+    id: string;
+    blob: SerializedEncryptedBlob;
+    cachedAt: string; // ISO 8601
+}
+
+/**
+ * Outbox lifecycle:
+ *   queued → uploading → review   (extraction done, waiting for the user)
+ *   queued → uploading → queued   (network error, retried with backoff)
+ *   queued → uploading → failed   (rejected by the server, or out of retries)
+ */
+export type OutboxStatus = "queued" | "uploading" | "review" | "failed";
+
+/** One captured page (photo or PDF), sealed */
+export interface OutboxPage {
+    fileName: string;
+    mimeType: string;
+    blob: SerializedEncryptedBlob;
+}
+
+/** A captured document waiting to be extracted and saved */
+export interface OutboxItem {
+    id: string;
+    ownerId: string;
+    status: OutboxStatus;
+    pages: OutboxPage[];
+    extraction?: SerializedEncryptedBlob; // sealed /api/upload result, once status is "review"
+    attempts: number;
+    nextAttemptAt: string; // ISO 8601
+    lastError?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface OfflineSchema extends DBSchema {
+    records: {
+        key: [string, CacheKind, string];
+        value: CachedRecord;
+        indexes: { "by-owner": string };
+    };
+    vault: {
+        key: string;
+        value: { ownerId: string; vault: WrappedVaultKey };
+    };
+    outbox: {
+        key: string;
+        value: OutboxItem;
+        indexes: { "by-owner": string };
+    };
+}
+
+let dbPromise: Promise<IDBPDatabase<OfflineSchema>> | null = null;
+
+/** True where IndexedDB exists (not during SSR, not in some private modes). */
+export function offlineAvailable(): boolean {
+    return typeof indexedDB !== "undefined";
+}
+
+export function getOfflineDb(): Promise<IDBPDatabase<OfflineSchema>> {
+    if (!dbPromise) {
+        dbPromise = openDB<OfflineSchema>(DB_NAME, DB_VERSION, {
+            upgrade(db, oldVersion) {
+                if (oldVersion < 1) {
+                    const records = db.createObjectStore("records", { keyPath: ["ownerId", "kind", "id"] });
+                    records.createIndex("by-owner", "ownerId");
+                    db.createObjectStore("vault", { keyPath: "ownerId" });
+                }
+                if (oldVersion < 2) {
+                    const outbox = db.createObjectStore("outbox", { keyPath: "id" });
+                    outbox.createIndex("by-owner", "ownerId");
+                }
+            },
+        }).catch((err) => {
+            dbPromise = null; // let the next call retry
+            throw err;
+        });
+    }
+    return dbPromise;
+}
@@ -0,0 +1,20 @@
+// Barrel export for the browser-side offline store
+export {
+    offlineAvailable,
+    type CacheKind,
+    type CachedRecord,
+    type OutboxItem,
+    type OutboxPage,
+    type OutboxStatus,
+} from "./db";
+export {
+    putSealed,
+    getSealed,
+    saveCached,
+    loadCached,
+    saveOfflineVault,
+    loadOfflineVault,
+    clearOfflineData,
+} from "./cache";
+export type { CacheHit } from "./cache";
+export { putOutboxItem, getOutboxItem, listOutboxItems, deleteOutboxItem, clearOutbox } from "./outbox";
@@ -0,0 +1,44 @@
+// ============================================================
+// Scan Outbox Store
+// Raw reads/writes on the "outbox" object store. Unlike the
+// cache, failures here are surfaced: a scan the user believes
+// is queued must not vanish silently. Sealing, retry policy and
+// upload live in scanQueue.service.
+// ============================================================
+
+import { getOfflineDb, offlineAvailable, type OutboxItem } from "./db";
+
+export async function putOutboxItem(item: OutboxItem): Promise<void> {
+    if (!offlineAvailable()) throw new Error("OUTBOX_UNAVAILABLE: This browser cannot store scans offline");
+    const db = await getOfflineDb();
+    await db.put("outbox", item);
+}
+
+export async function getOutboxItem(id: string): Promise<OutboxItem | null> {
+    if (!offlineAvailable()) return null;
+    const db = await getOfflineDb();
+    return (await db.get("outbox", id)) ?? null;
+}
+
+/** Every outbox item for one owner, oldest first. */
+export async function listOutboxItems(ownerId: string): Promise<OutboxItem[]> {
+    if (!offlineAvailable()) return [];
+    const db = await getOfflineDb();
+    const items = await db.getAllFromIndex("outbox", "by-owner", ownerId);
+    return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function deleteOutboxItem(id: string): Promise<void> {
+    if (!offlineAvailable()) return;
+    const db = await getOfflineDb();
+    await db.delete("outbox", id);
+}
+
+/** Drop every queued scan of one owner (account deletion). */
+export async function clearOutbox(ownerId: string): Promise<void> {
+    if (!offlineAvailable()) return;
+    const db = await getOfflineDb();
+    const tx = db.transaction("outbox", "readwrite");
+    const ids = await tx.store.index("by-owner").getAllKeys(ownerId);
+    await Promise.all([...ids.map((id) => tx.store.delete(id)), tx.done]);
+}
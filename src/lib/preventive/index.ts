@@ -0,0 +1,7 @@
+// ============================================================
+// Preventive Care — Barrel
+// ============================================================
+
+export * from "./vaccineData";
+export * from "./screenings";
+export * from "./schedule";
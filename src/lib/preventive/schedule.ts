@@ -0,0 +1,283 @@
+// ============================================================
+// Preventive Schedule
+// Places the vaccine schedule on the patient's date of birth and
+// checks it against their vaccination records (Vacc entries: the
+// vaccine name, dose number and next due date written on them),
+// then adds the screenings due at their age and sex. Every item
+// comes out completed, due, overdue or upcoming.
+// Pure — the dashboard runs it over the decrypted timeline (of a
+// dependent too, for a guardian), the insight rules over what the
+// server can read.
+// ============================================================
+
+import { labDemographics } from "../labs";
+import { parseFollowUp } from "../insights/followUp";
+import { buildTrends } from "../trends/build";
+import type { TrendCheckup } from "../trends/build";
+import { addDaysIso } from "../utils/date";
+import type { DataPoint } from "../types/rag";
+import type { EntryMetadata, DocumentTypeTag } from "../types/timeline";
+import type { PreventiveItem, PreventiveSchedule, PreventiveStatus } from "../types/preventive";
+import type { TrendPoint } from "../types/trends";
+import { ADULT_VACCINES, CHILD_VACCINES, VACCINE_SCHEDULE_VERSION } from "./vaccineData";
+import type { AdultVaccine, ChildVaccine } from "./vaccineData";
+import { screeningsFor } from "./screenings";
+import type { ScreeningRule } from "./screenings";
+
+/** The parts of an entry the schedule reads — a HealthEntry fits */
+export interface PreventiveEntry {
+    entryId: string;
+    date: string;
+    title?: string;
+    documentType?: DocumentTypeTag;
+    metadata?: Pick<EntryMetadata,
+        "vaccineName" | "doseNumber" | "nextDueDate" | "labTests" | "vitals" | "modality" | "procedures">;
+}
+
+export interface PreventiveSources {
+    entries: PreventiveEntry[];
+    checkups?: TrendCheckup[];
+    birthDate?: string;          // YYYY-MM-DD
+    sex?: "male" | "female";
+    today?: string;              // YYYY-MM-DD
+}
+
+const CHILD_AGE_LIMIT = 18;
+// A child's dose is overdue this long after its date; adults get longer
+const CHILD_GRACE_DAYS = 28;
+const ADULT_GRACE_DAYS = 90;
+// A dose given this far ahead of its date still counts for it
+const EARLY_DOSE_DAYS = 28;
+// Doses of one series are at least this far apart
+const MIN_DOSE_GAP_DAYS = 28;
+
+const STATUS_ORDER: Record<PreventiveStatus, number> = { overdue: 0, due: 1, upcoming: 2, completed: 3 };
+
+/** A vaccination on the record */
+interface GivenDose {
+    entryId: string;
+    date: string;
+    name: string;
+    doseText?: string;
+    nextDueDate?: string;
+}
+
+function dayOf(date: string): string {
+    return date.split("T")[0];
+}
+
+function vaccinationsOf(entries: PreventiveEntry[]): GivenDose[] {
+    return entries
+        .filter((e) => e.documentType === "Vacc" || e.metadata?.vaccineName)
+        .map((e) => {
+            const date = dayOf(e.date);
+            const next = parseFollowUp(e.metadata?.nextDueDate, date);
+            return {
+                entryId: e.entryId,
+                date,
+                name: (e.metadata?.vaccineName ?? e.title ?? "").toLowerCase(),
+                ...(e.metadata?.doseNumber && { doseText: e.metadata.doseNumber.toLowerCase() }),
+                ...(next && { nextDueDate: next }),
+            };
+        })
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function given(vaccine: { match: RegExp; exclude?: RegExp }, doses: GivenDose[]): GivenDose[] {
+    return doses.filter((d) => vaccine.match.test(d.name) && !vaccine.exclude?.test(d.name));
+}
+
+function statusFor(dueDate: string | undefined, today: string, graceDays: number): PreventiveStatus {
+    if (!dueDate || dueDate > today) return "upcoming";
+    return dueDate < addDaysIso(today, -graceDays) ? "overdue" : "due";
+}
+
+/** The dose a record names — "2", "2nd dose", "Booster 1", "B2", "Birth dose" — if it names one */
+function namedDose(text: string | undefined, labels: string[]): number | undefined {
+    if (!text) return undefined;
+    const n = text.match(/\d+/)?.[0];
+    const booster = /booster|\bb\s*\d/.test(text);
+    const index = labels.findIndex((label) => {
+        const l = label.toLowerCase();
+        if (/birth|zero/.test(text)) return l === "birth" || l === "0";
+        if (booster) return l.startsWith("booster") && (!n || l === "booster" || l.endsWith(` ${n}`));
+        return n !== undefined && l === n;
+    });
+    return index >= 0 ? index : undefined;
+}
+
+// ---- Children ----
+
+function childItems(vaccine: ChildVaccine, doses: GivenDose[], birthDate: string, today: string): PreventiveItem[] {
+    const scheduled = vaccine.doses.map((d) => addDaysIso(birthDate, d.ageDays));
+    const slots: (GivenDose | undefined)[] = vaccine.doses.map(() => undefined);
+
+    for (const dose of given(vaccine, doses)) {
+        let i = namedDose(dose.doseText, vaccine.doses.map((d) => d.label));
+        if (i === undefined || slots[i]) {
+            // Unnumbered: the free dose whose date it is closest to, if it isn't too early for it
+            i = undefined;
+            for (let j = 0; j < slots.length; j++) {
+                if (slots[j] || dose.date < addDaysIso(scheduled[j], -EARLY_DOSE_DAYS)) continue;
+                const distance = Math.abs(Date.parse(dose.date) - Date.parse(scheduled[j]));
+                if (i === undefined || distance < Math.abs(Date.parse(dose.date) - Date.parse(scheduled[i]))) i = j;
+            }
+        }
+        if (i !== undefined) slots[i] = dose;
+    }
+
+    const lastGiven = slots.reduce<GivenDose | undefined>((last, s) => (s && (!last || s.date >= last.date) ? s : last), undefined);
+    const nextFree = slots.findIndex((s) => !s);
+
+    return vaccine.doses.map((d, i) => {
+        const done = slots[i];
+        const previous = slots[i - 1];
+        let dueDate = scheduled[i];
+        if (previous && addDaysIso(previous.date, MIN_DOSE_GAP_DAYS) > dueDate) dueDate = addDaysIso(previous.date, MIN_DOSE_GAP_DAYS);
+        // The date written on the last card for the next dose wins
+        if (i === nextFree && lastGiven?.nextDueDate) dueDate = lastGiven.nextDueDate;
+        return {
+            id: `vaccine:${vaccine.id}#${d.label}`,
+            kind: "vaccine",
+            name: vaccine.name,
+            dose: /^\d+$/.test(d.label) ? `Dose ${d.label}` : d.label === "Birth" ? "Birth dose" : d.label,
+            when: d.when,
+            ...(done
+                ? { status: "completed" as const, completedDate: done.date, entryId: done.entryId }
+                : { status: statusFor(dueDate, today, CHILD_GRACE_DAYS), dueDate }),
+        };
+    });
+}
+
+// ---- Adults ----
+
+function adultItems(vaccine: AdultVaccine, doses: GivenDose[], today: string): PreventiveItem[] {
+    const taken = given(vaccine, doses);
+    const base = { kind: "vaccine" as const, name: vaccine.name, when: vaccine.when };
+
+    if (vaccine.everyDays) {
+        const last = taken[taken.length - 1];
+        // Never recorded: due, but not overdue — it may have been given off the record
+        if (!last) return [{ ...base, id: `vaccine:${vaccine.id}`, status: "due" }];
+        const dueDate = last.nextDueDate ?? addDaysIso(last.date, vaccine.everyDays);
+        return [{
+            ...base,
+            id: `vaccine:${vaccine.id}`,
+            status: dueDate > today ? "completed" : statusFor(dueDate, today, ADULT_GRACE_DAYS),
+            dueDate,
+            completedDate: last.date,
+            entryId: last.entryId,
+        }];
+    }
+
+    return Array.from({ length: vaccine.doses }, (_, i): PreventiveItem => {
+        const done = taken[i];
+        const previous = taken[i - 1];
+        const item = { ...base, id: `vaccine:${vaccine.id}${vaccine.doses > 1 ? `#${i + 1}` : ""}`, ...(vaccine.doses > 1 && { dose: `Dose ${i + 1}` }) };
+        if (done) return { ...item, status: "completed", completedDate: done.date, entryId: done.entryId };
+        if (i === 0) return { ...item, status: "due" };
+        if (!previous) return { ...item, status: "upcoming" };
+        const dueDate = previous.nextDueDate ?? addDaysIso(previous.date, vaccine.gapDays ?? MIN_DOSE_GAP_DAYS);
+        return { ...item, status: statusFor(dueDate, today, ADULT_GRACE_DAYS), dueDate };
+    });
+}
+
+// ---- Screenings ----
+
+function toDataPoint(p: TrendPoint): DataPoint {
+    return { label: p.label, value: p.value, unit: p.unit, date: p.date, entryId: p.entryId, ...(p.loinc && { loinc: p.loinc }) };
+}
+
+function every(days: number): string {
+    const years = Math.round(days / 365);
+    return years <= 1 ? "every year" : `every ${years} years`;
+}
+
+function screeningItem(
+    rule: ScreeningRule,
+    entries: PreventiveEntry[],
+    pointsByKey: Map<string, TrendPoint[]>,
+    today: string
+): PreventiveItem {
+    // The most recent evidence of it: a point on a matching series or a matching entry
+    let last: { date: string; entryId?: string; point?: TrendPoint } | undefined;
+    for (const key of [...(rule.loinc ?? []), ...(rule.series ?? [])]) {
+        const points = pointsByKey.get(key) ?? [];
+        const p = points[points.length - 1];
+        if (p && (!last || p.date > last.date)) last = { date: p.date, point: p, ...(p.source !== "checkup" && { entryId: p.entryId }) };
+    }
+    if (rule.pattern) {
+        for (const e of entries) {
+            const text = [e.title, e.metadata?.modality, ...(e.metadata?.procedures ?? [])].filter(Boolean).join(" ");
+            if (rule.pattern.test(text) && (!last || dayOf(e.date) > last.date)) last = { date: dayOf(e.date), entryId: e.entryId };
+        }
+    }
+
+    const item = { id: `screening:${rule.id}`, kind: "screening" as const, name: rule.name, when: `${every(rule.intervalDays)} from ${rule.minAge}` };
+    if (!last) return { ...item, status: "due" };
+    const dueDate = addDaysIso(last.date, rule.intervalDays);
+    return {
+        ...item,
+        status: dueDate > today ? "completed" : statusFor(dueDate, today, ADULT_GRACE_DAYS),
+        dueDate,
+        completedDate: last.date,
+        ...(last.entryId && { entryId: last.entryId }),
+        ...(last.point && { evidence: toDataPoint(last.point) }),
+    };
+}
+
+/**
+ * The patient's schedule, overdue first, then due, upcoming and done,
+ * each by date. Under 18: the child immunisation schedule. Adults:
+ * adult vaccines and screenings for their age and sex. Without a
+ * date of birth nothing can be placed, and the schedule is empty.
+ */
+export function buildPreventiveSchedule(sources: PreventiveSources, now: string = new Date().toISOString()): PreventiveSchedule {
+    const today = sources.today ?? now.split("T")[0];
+    const who = labDemographics(sources.sex, sources.birthDate, new Date(`${today}T12:00:00Z`));
+    const birthDate = sources.birthDate ? dayOf(sources.birthDate) : undefined;
+    if (!birthDate || who.ageYears === undefined) {
+        return { audience: "adult", items: [], hasBirthDate: false, version: VACCINE_SCHEDULE_VERSION };
+    }
+
+    const doses = vaccinationsOf(sources.entries);
+    const audience = who.ageYears < CHILD_AGE_LIMIT ? "child" : "adult";
+    const fits = (v: { sex?: string }) => !v.sex || v.sex === who.sex;
+    let items: PreventiveItem[];
+
+    if (audience === "child") {
+        items = CHILD_VACCINES.filter(fits).flatMap((v) => childItems(v, doses, birthDate, today));
+    } else {
+        const series = buildTrends({ entries: sources.entries, checkups: sources.checkups }, who);
+        const pointsByKey = new Map(series.map((s) => [s.key, s.points]));
+        items = [
+            ...ADULT_VACCINES
+                .filter((v) => fits(v) && who.ageYears! >= v.minAge && (v.maxAge === undefined || who.ageYears! <= v.maxAge))
+                .flatMap((v) => adultItems(v, doses, today)),
+            ...screeningsFor(who).map((rule) => screeningItem(rule, sources.entries, pointsByKey, today)),
+        ];
+    }
+
+    items.sort((a, b) =>
+        STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+        (a.status === "completed"
+            ? (b.completedDate ?? "").localeCompare(a.completedDate ?? "")
+            : (a.dueDate ?? "9999").localeCompare(b.dueDate ?? "9999")));
+    return { audience, items, hasBirthDate: true, version: VACCINE_SCHEDULE_VERSION };
+}
+
+/**
+ * Due dates from today on, with how many vaccines and screenings fall
+ * on each — what a device registers for reminders.
+ */
+export function reminderDates(schedule: PreventiveSchedule, today: string): { dueDate: string; vaccines: number; screenings: number }[] {
+    const byDate = new Map<string, { dueDate: string; vaccines: number; screenings: number }>();
+    for (const item of schedule.items) {
+        if (item.status === "completed" || !item.dueDate || item.dueDate < today) continue;
+        const day = byDate.get(item.dueDate) ?? { dueDate: item.dueDate, vaccines: 0, screenings: 0 };
+        if (item.kind === "vaccine") day.vaccines++;
+        else day.screenings++;
+        byDate.set(item.dueDate, day);
+    }
+    return [...byDate.values()].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
@@ -0,0 +1,101 @@
+// ============================================================
+// Screening Schedule
+// Routine adult screenings by age and sex, with the intervals
+// used in India's NCD programme and common practice. Each rule
+// says what on the record counts as having had it: a lab result
+// by LOINC code, a vital, or words in an entry's title.
+// ============================================================
+
+import type { LabDemographics } from "../labs";
+
+export interface ScreeningRule {
+    id: string;
+    name: string;
+    /** Why it matters, one sentence for the patient */
+    reason: string;
+    sex?: "male" | "female";
+    minAge: number;
+    maxAge?: number;
+    intervalDays: number;
+    /** Lab results that count, by LOINC code */
+    loinc?: string[];
+    /** Trend series that count, e.g. "vital:bp_systolic" */
+    series?: string[];
+    /** Entry titles, procedures or imaging that count */
+    pattern?: RegExp;
+}
+
+export const SCREENINGS: ScreeningRule[] = [
+    {
+        id: "blood_pressure",
+        name: "Blood pressure check",
+        reason: "High blood pressure rarely causes symptoms until it has done damage.",
+        minAge: 18,
+        intervalDays: 365,
+        series: ["vital:bp_systolic"],
+    },
+    {
+        id: "diabetes",
+        name: "Diabetes screening",
+        reason: "Type 2 diabetes is common in Indian adults from 30 and often found late.",
+        minAge: 30,
+        intervalDays: 3 * 365,
+        loinc: ["1558-6", "1521-0", "2345-7", "4548-4"],
+    },
+    {
+        id: "lipids",
+        name: "Lipid profile",
+        reason: "Cholesterol levels guide heart-disease prevention.",
+        minAge: 35,
+        intervalDays: 5 * 365,
+        loinc: ["2093-3", "2089-1", "2085-9", "2571-8"],
+    },
+    {
+        id: "cervical",
+        name: "Cervical cancer screening",
+        reason: "A Pap smear, HPV or VIA test finds changes years before cancer develops.",
+        sex: "female",
+        minAge: 30,
+        maxAge: 65,
+        intervalDays: 5 * 365,
+        pattern: /\b(pap|cervical (?:cytology|screening)|hpv|via test|colposcopy)\b/i,
+    },
+    {
+        id: "breast",
+        name: "Mammogram",
+        reason: "Screening mammograms find breast cancer while it is most treatable.",
+        sex: "female",
+        minAge: 40,
+        maxAge: 74,
+        intervalDays: 2 * 365,
+        pattern: /\bmammo/i,
+    },
+    {
+        id: "bone_density",
+        name: "Bone density scan",
+        reason: "A DEXA scan shows osteoporosis before a fracture does.",
+        sex: "female",
+        minAge: 65,
+        intervalDays: 2 * 365,
+        pattern: /\b(dexa|dxa|bone density|bmd)\b/i,
+    },
+    {
+        id: "bone_density_male",
+        name: "Bone density scan",
+        reason: "A DEXA scan shows osteoporosis before a fracture does.",
+        sex: "male",
+        minAge: 70,
+        intervalDays: 2 * 365,
+        pattern: /\b(dexa|dxa|bone density|bmd)\b/i,
+    },
+];
+
+/** The screenings that apply at the patient's age and sex; none when age is unknown. */
+export function screeningsFor(who: LabDemographics): ScreeningRule[] {
+    if (who.ageYears === undefined) return [];
+    const age = who.ageYears;
+    return SCREENINGS.filter((s) =>
+        age >= s.minAge &&
+        (s.maxAge === undefined || age <= s.maxAge) &&
+        (!s.sex || s.sex === who.sex));
+}
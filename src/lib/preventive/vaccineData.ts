@@ -0,0 +1,190 @@
+// ============================================================
+// Vaccine Schedule Data
+// The Universal Immunisation Programme schedule for children
+// (MoHFW, with the fIPV third dose and single-dose HPV for
+// girls) and adult vaccines commonly recommended in India.
+// Bump VACCINE_SCHEDULE_VERSION when the schedule changes.
+// ============================================================
+
+export const VACCINE_SCHEDULE_VERSION = "2026.10.1";
+
+const WEEK = 7;
+const MONTH = 30;
+const YEAR = 365;
+
+/** One dose of a child series, given at an age counted from birth */
+export interface ChildDose {
+    label: string;               // "Birth", "1", "Booster"
+    ageDays: number;
+    when: string;                // the schedule's own wording
+}
+
+export interface ChildVaccine {
+    id: string;
+    name: string;
+    /** Names and brands a vaccination record may use for it */
+    match: RegExp;
+    /** Names that contain a match but are a different vaccine */
+    exclude?: RegExp;
+    sex?: "male" | "female";
+    doses: ChildDose[];
+}
+
+export interface AdultVaccine {
+    id: string;
+    name: string;
+    match: RegExp;
+    sex?: "male" | "female";
+    minAge: number;
+    maxAge?: number;
+    /** Repeat this often; absent for a series given once */
+    everyDays?: number;
+    /** Doses in the series, and the gap between them */
+    doses: number;
+    gapDays?: number;
+    when: string;
+}
+
+// Combination vaccines are matched by every component they cover:
+// a hexavalent shot counts as both pentavalent and IPV.
+const HEXAVALENT = /hexa|hexaxim|infanrix.?hexa/;
+
+export const CHILD_VACCINES: ChildVaccine[] = [
+    {
+        id: "bcg",
+        name: "BCG",
+        match: /\bbcg\b/,
+        doses: [{ label: "Birth", ageDays: 0, when: "At birth" }],
+    },
+    {
+        id: "hepb_birth",
+        name: "Hepatitis B",
+        match: /\bhep(?:atitis)?[\s-]?b\b|\bhbv\b|engerix/,
+        exclude: /penta|hexa|hib/,
+        doses: [{ label: "Birth", ageDays: 0, when: "At birth, within 24 hours" }],
+    },
+    {
+        id: "opv",
+        name: "Oral polio (OPV)",
+        match: /\bopv\b|oral polio|polio drops|\bbopv\b/,
+        doses: [
+            { label: "0", ageDays: 0, when: "At birth" },
+            { label: "1", ageDays: 6 * WEEK, when: "6 weeks" },
+            { label: "2", ageDays: 10 * WEEK, when: "10 weeks" },
+            { label: "3", ageDays: 14 * WEEK, when: "14 weeks" },
+            { label: "Booster", ageDays: 16 * MONTH, when: "16–24 months" },
+        ],
+    },
+    {
+        id: "penta",
+        name: "Pentavalent (DPT-HepB-Hib)",
+        match: new RegExp(`penta|dtw?p.?hep.?b.?hib|easyfive|${HEXAVALENT.source}`),
+        doses: [
+            { label: "1", ageDays: 6 * WEEK, when: "6 weeks" },
+            { label: "2", ageDays: 10 * WEEK, when: "10 weeks" },
+            { label: "3", ageDays: 14 * WEEK, when: "14 weeks" },
+        ],
+    },
+    {
+        id: "ipv",
+        name: "Inactivated polio (fIPV)",
+        match: new RegExp(`\\bf?ipv\\b|inactivated polio|${HEXAVALENT.source}`),
+        doses: [
+            { label: "1", ageDays: 6 * WEEK, when: "6 weeks" },
+            { label: "2", ageDays: 14 * WEEK, when: "14 weeks" },
+            { label: "3", ageDays: 9 * MONTH, when: "9 months" },
+        ],
+    },
+    {
+        id: "rota",
+        name: "Rotavirus",
+        match: /rota/,
+        doses: [
+            { label: "1", ageDays: 6 * WEEK, when: "6 weeks" },
+            { label: "2", ageDays: 10 * WEEK, when: "10 weeks" },
+            { label: "3", ageDays: 14 * WEEK, when: "14 weeks" },
+        ],
+    },
+    {
+        id: "pcv",
+        name: "Pneumococcal (PCV)",
+        match: /\bpcv|pneumoc|prevenar|synflorix|pneumosil/,
+        doses: [
+            { label: "1", ageDays: 6 * WEEK, when: "6 weeks" },
+            { label: "2", ageDays: 14 * WEEK, when: "14 weeks" },
+            { label: "Booster", ageDays: 9 * MONTH, when: "9 months" },
+        ],
+    },
+    {
+        id: "mr",
+        name: "Measles-Rubella (MR / MMR)",
+        match: /\bm?mr\b|measles|rubella/,
+        doses: [
+            { label: "1", ageDays: 9 * MONTH, when: "9–12 months" },
+            { label: "2", ageDays: 16 * MONTH, when: "16–24 months" },
+        ],
+    },
+    {
+        id: "dpt",
+        name: "DPT booster",
+        match: /\bdpt\b|\bdta?w?p\b|triple antigen|tripacel|infanrix(?!.?hexa)/,
+        doses: [
+            { label: "Booster 1", ageDays: 16 * MONTH, when: "16–24 months" },
+            { label: "Booster 2", ageDays: 5 * YEAR, when: "5–6 years" },
+        ],
+    },
+    {
+        id: "td",
+        name: "Td (tetanus-diphtheria)",
+        match: /\btd(?:ap)?\b|tetanus|\btt\b|boostrix|adacel/,
+        doses: [
+            { label: "1", ageDays: 10 * YEAR, when: "10 years" },
+            { label: "2", ageDays: 16 * YEAR, when: "16 years" },
+        ],
+    },
+    {
+        id: "hpv",
+        name: "HPV",
+        match: /\bhpv\b|gardasil|cervavac|cervarix/,
+        sex: "female",
+        doses: [{ label: "1", ageDays: 9 * YEAR, when: "9–14 years (girls)" }],
+    },
+];
+
+export const ADULT_VACCINES: AdultVaccine[] = [
+    {
+        id: "td_adult",
+        name: "Td / Tdap",
+        match: /\btd(?:ap)?\b|tetanus|\btt\b|boostrix|adacel/,
+        minAge: 18,
+        everyDays: 10 * YEAR,
+        doses: 1,
+        when: "Every 10 years",
+    },
+    {
+        id: "influenza",
+        name: "Influenza",
+        match: /influenza|\bflu\b|vaxigrip|fluarix|influvac/,
+        minAge: 65,
+        everyDays: YEAR,
+        doses: 1,
+        when: "Every year from 65",
+    },
+    {
+        id: "pneumococcal_adult",
+        name: "Pneumococcal",
+        match: /\bpcv|ppsv|pneumoc|prevenar|pneumovax/,
+        minAge: 65,
+        doses: 1,
+        when: "Once from 65",
+    },
+    {
+        id: "zoster",
+        name: "Shingles (zoster)",
+        match: /zoster|shingl/,
+        minAge: 50,
+        doses: 2,
+        gapDays: 2 * MONTH,
+        when: "Two doses from 50, 2–6 months apart",
+    },
+];
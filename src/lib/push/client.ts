@@ -0,0 +1,163 @@
+// ============================================================
+// Push Client (browser only)
+// Subscribe or unsubscribe this device, edit reminder switches,
+// and register today's dose slots and upcoming preventive-care
+// dates — all through /api/push. Kept apart from push.service,
+// which pulls in DynamoDB and web-push, so client components
+// never bundle server code.
+// ============================================================
+
+import { SLOT_HOURS } from "../utils/medSchedule";
+import { localIsoDate } from "../utils/date";
+import type { ScheduledMed, TimeSlot } from "../utils/medSchedule";
+import type { NotificationPrefs } from "../types/notification";
+import type { PreventivePlan } from "../types/preventive";
+
+async function readJson<T>(res: Response, fallback: string): Promise<T> {
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || fallback);
+    return data as T;
+}
+
+function vapidKeyBytes(base64url: string): Uint8Array<ArrayBuffer> {
+    const base64 = (base64url + "=".repeat((4 - (base64url.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+    const raw = atob(base64);
+    const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+    for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+    return bytes;
+}
+
+/** Whether this browser can receive push and the app has a VAPID key. */
+export function isPushSupported(): boolean {
+    return typeof window !== "undefined"
+        && "serviceWorker" in navigator
+        && "PushManager" in window
+        && !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+}
+
+/** This device's current subscription, or null. */
+export async function getDeviceSubscription(): Promise<PushSubscription | null> {
+    if (!isPushSupported()) return null;
+    const registration = await navigator.serviceWorker.getRegistration();
+    return registration ? registration.pushManager.getSubscription() : null;
+}
+
+async function saveDeviceSubscription(subscription: PushSubscription): Promise<void> {
+    const res = await fetch("/api/push/subscriptions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscription: subscription.toJSON() }),
+    });
+    await readJson(res, "Failed to register this device for push");
+}
+
+/**
+ * Ask for permission, subscribe this device and register it for the
+ * signed-in user.
+ * @throws PUSH_UNSUPPORTED / PUSH_DENIED with a readable message
+ */
+export async function enableDevicePush(): Promise<void> {
+    const registration = isPushSupported() ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (!registration) {
+        throw new Error("PUSH_UNSUPPORTED: Push notifications aren't available in this browser or build.");
+    }
+    if (await Notification.requestPermission() !== "granted") {
+        throw new Error("PUSH_DENIED: Notifications are blocked for this site. Allow them in your browser settings.");
+    }
+    const subscription = await registration.pushManager.getSubscription()
+        ?? await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: vapidKeyBytes(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!),
+        });
+    await saveDeviceSubscription(subscription);
+}
+
+/** Stop push on this device, server registration first. */
+export async function disableDevicePush(): Promise<void> {
+    const subscription = await getDeviceSubscription();
+    if (!subscription) return;
+    const res = await fetch("/api/push/subscriptions", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ endpoint: subscription.endpoint }),
+    });
+    await readJson(res, "Failed to unregister this device");
+    await subscription.unsubscribe();
+}
+
+/**
+ * Re-register an existing subscription for whoever is signed in now —
+ * browsers rotate subscriptions, and devices change hands.
+ */
+export async function resyncDevicePush(): Promise<void> {
+    if (!isPushSupported() || Notification.permission !== "granted") return;
+    const subscription = await getDeviceSubscription();
+    if (subscription) await saveDeviceSubscription(subscription);
+}
+
+export async function fetchNotificationPrefs(): Promise<NotificationPrefs> {
+    const res = await fetch("/api/push/prefs");
+    return readJson<NotificationPrefs>(res, "Failed to load reminder settings");
+}
+
+export async function saveNotificationPrefs(patch: Partial<NotificationPrefs>): Promise<NotificationPrefs> {
+    const res = await fetch("/api/push/prefs", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+    });
+    return readJson<NotificationPrefs>(res, "Failed to save reminder settings");
+}
+
+let lastDosePlan = "";
+
+/**
+ * Register today's dose slots (from buildTodaySchedule) for reminders.
+ * Sends only slot times and counts. Skips the request when nothing
+ * changed since the last call.
+ */
+export async function syncDosePlan(bySlot: Map<TimeSlot, ScheduledMed[]>): Promise<void> {
+    const today = new Date();
+    const planDate = localIsoDate(today);
+    const doses = [...bySlot]
+        .filter(([, meds]) => meds.length > 0)
+        .map(([slot, meds]) => {
+            const at = new Date(today);
+            at.setHours(SLOT_HOURS[slot], 0, 0, 0);
+            return { slot, at: at.toISOString(), count: meds.length };
+        });
+    const signature = JSON.stringify({ planDate, doses });
+    if (signature === lastDosePlan) return;
+
+    const res = await fetch("/api/push/doses", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ planDate, doses }),
+    });
+    await readJson(res, "Failed to register dose reminders");
+    lastDosePlan = signature;
+}
+
+const lastPreventivePlan = new Map<string, string>();
+
+/**
+ * Register a patient's upcoming preventive-care dates (from
+ * reminderDates) for reminders — counts per date only. Skips the
+ * request when nothing changed since the last call for that patient.
+ */
+export async function syncPreventivePlan(
+    patientId: string,
+    dates: PreventivePlan["dates"],
+    patientName?: string
+): Promise<void> {
+    const signature = JSON.stringify({ dates, patientName });
+    if (lastPreventivePlan.get(patientId) === signature) return;
+
+    const res = await fetch("/api/push/preventive", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ patientId, dates, ...(patientName && { patientName }) }),
+    });
+    await readJson(res, "Failed to register preventive care reminders");
+    lastPreventivePlan.set(patientId, signature);
+}
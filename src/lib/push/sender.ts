@@ -0,0 +1,53 @@
+// ============================================================
+// Web Push Transport
+// A swappable sender like the SMS transport in aws/sns.ts. The
+// VAPID sender (push/vapid.ts) needs Node's net/tls, so it is
+// installed at server start by instrumentation.ts rather than
+// imported here — services that reach this module are bundled
+// for the browser too. Until it is installed, sends fail with
+// PUSH_NOT_CONFIGURED.
+// ============================================================
+
+import type { PushMessage, StoredPushSubscription } from "../types/notification";
+
+/** "gone" means the push service no longer knows the subscription — drop it */
+export type PushOutcome = "sent" | "gone";
+
+/** Anything that can deliver a push message to one subscription */
+export interface PushSender {
+    send(subscription: StoredPushSubscription, message: PushMessage): Promise<PushOutcome>;
+}
+
+/**
+ * Local stand-in: keeps messages in memory (and logs them) instead of
+ * sending. Selected with PUSH_SENDER=console, or installed via setPushSender().
+ */
+export class ConsolePushSender implements PushSender {
+    readonly sent: { endpoint: string; message: PushMessage }[] = [];
+    /** Endpoints to report as expired, to exercise cleanup */
+    readonly gone = new Set<string>();
+
+    async send(subscription: StoredPushSubscription, message: PushMessage): Promise<PushOutcome> {
+        if (this.gone.has(subscription.endpoint)) return "gone";
+        this.sent.push({ endpoint: subscription.endpoint, message });
+        console.info(`[push → ${subscription.subscriptionId}] ${message.title}: ${message.body}`);
+        return "sent";
+    }
+}
+
+const unconfiguredSender: PushSender = {
+    async send() {
+        throw new Error("PUSH_NOT_CONFIGURED: no push transport installed (see instrumentation.ts)");
+    },
+};
+
+let sender: PushSender = process.env.PUSH_SENDER === "console" ? new ConsolePushSender() : unconfiguredSender;
+
+export function getPushSender(): PushSender {
+    return sender;
+}
+
+/** Swap the push transport (tests, local development). */
+export function setPushSender(next: PushSender): void {
+    sender = next;
+}
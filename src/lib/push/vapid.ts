@@ -0,0 +1,39 @@
+// ============================================================
+// VAPID Push Sender (server only)
+// Signs and delivers messages with the web-push library.
+// Installed by instrumentation.ts when the server starts.
+// ============================================================
+
+import { sendNotification, WebPushError } from "web-push";
+import type { PushSender } from "./sender";
+
+// How long a push service may hold a message for an offline device
+const PUSH_TTL_SECONDS = 4 * 60 * 60;
+
+export const vapidPushSender: PushSender = {
+    async send(subscription, message) {
+        const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+        const privateKey = process.env.VAPID_PRIVATE_KEY;
+        if (!publicKey || !privateKey) {
+            throw new Error("PUSH_NOT_CONFIGURED: NEXT_PUBLIC_VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set");
+        }
+        try {
+            await sendNotification(
+                { endpoint: subscription.endpoint, keys: subscription.keys },
+                JSON.stringify(message),
+                {
+                    vapidDetails: {
+                        subject: process.env.VAPID_SUBJECT || "mailto:support@arogyasutra.app",
+                        publicKey,
+                        privateKey,
+                    },
+                    TTL: PUSH_TTL_SECONDS,
+                }
+            );
+            return "sent";
+        } catch (err) {
+            if (err instanceof WebPushError && (err.statusCode === 404 || err.statusCode === 410)) return "gone";
+            throw err;
+        }
+    },
+};
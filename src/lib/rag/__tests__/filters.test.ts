@@ -0,0 +1,23 @@
+import { describe, expect, test } from "@jest/globals";
+import { extractFilters } from "../filters";
+
+const TODAY = "2026-10-19";
+const institution = (query: string) => extractFilters(query, TODAY).institution;
+
+describe("extractFilters — institution", () => {
+    test("reads the hospital, clinic or lab a question names", () => {
+        expect(institution("What did Apollo Hospital say about my BP?")).toBe("apollo");
+        expect(institution("reports from Metropolis")).toBe("metropolis");
+        expect(institution("my visit at Fortis last month")).toBe("fortis");
+        expect(institution("Sir Ganga Ram Hospital discharge summary")).toBe("ram");
+        expect(institution("tests done at the Thyrocare lab")).toBe("thyrocare");
+    });
+
+    test("does not read tests, medicines or times of day as places", () => {
+        expect(institution("Show my HbA1c lab results")).toBeUndefined();
+        expect(institution("Thyroid labs this year")).toBeUndefined();
+        expect(institution("Did my sugar improve after switching from Metformin?")).toBeUndefined();
+        expect(institution("Is my BP higher at Night?")).toBeUndefined();
+        expect(institution("prescriptions from March")).toBeUndefined();
+    });
+});
@@ -0,0 +1,88 @@
+// ============================================================
+// Retriever — runs over an in-memory records table with the
+// local hashing embedder, so nothing leaves the process.
+// ============================================================
+
+import { beforeAll, beforeEach, describe, expect, jest, test } from "@jest/globals";
+import { invalidateResourceCache, retrieve, sealedRecordCount, usableFilters } from "../retriever";
+import { hashingEmbedder, setEmbeddingProvider } from "../../embeddings";
+
+let mockItems: Record<string, unknown>[] = [];
+
+jest.mock("@aws-sdk/lib-dynamodb", () => ({
+    ...jest.requireActual<typeof import("@aws-sdk/lib-dynamodb")>("@aws-sdk/lib-dynamodb"),
+    DynamoDBDocumentClient: { from: () => ({ send: async () => ({ Items: mockItems }) }) },
+}));
+jest.mock("../../aws/dynamodb", () => ({
+    listDoseRecords: async () => [],
+    firstDoseDate: async () => null,
+    listMedicationSources: async () => [],
+}));
+
+const PATIENT = "AS-0000-0000-0001";
+
+const record = (entryId: string, date: string, documentType: string, title: string, metadata: Record<string, unknown>, sourceInstitution?: string) =>
+    ({ patientId: PATIENT, entryId, date, documentType, title, sourceInstitution, metadata });
+
+beforeAll(() => {
+    setEmbeddingProvider(hashingEmbedder);
+    jest.spyOn(console, "info").mockImplementation(() => {});
+});
+
+beforeEach(() => {
+    invalidateResourceCache(PATIENT);
+    mockItems = [
+        record("e1", "2025-02-10", "LAB_REPORT", "Lipid profile", { summary: "LDL 160 mg/dL, high" }, "Apollo Hospitals"),
+        record("e2", "2025-03-05", "LAB_REPORT", "HbA1c", { summary: "HbA1c 7.2 %" }, "Metropolis Healthcare"),
+    ];
+});
+
+describe("institution filters", () => {
+    test("narrow to records from that place", async () => {
+        const results = await retrieve(PATIENT, "cholesterol results", { filters: { institution: "apollo" } });
+        expect(results.map((r) => r.entryId)).toEqual(["e1"]);
+    });
+
+    test("are dropped when no record is from that place", async () => {
+        expect(await usableFilters(PATIENT, { institution: "fortis", documentTypes: ["Lab"] }))
+            .toEqual({ documentTypes: ["Lab"] });
+        const results = await retrieve(PATIENT, "lab results", { filters: { institution: "fortis" } });
+        expect(results.map((r) => r.entryId).sort()).toEqual(["e1", "e2"]);
+    });
+});
+
+describe("hybrid ranking", () => {
+    beforeEach(() => {
+        mockItems.push(record("e3", "2025-01-20", "LAB_REPORT", "Fasting blood glucose", { summary: "Glucose 126 mg/dL, high" }));
+    });
+
+    test("a keyword match ranks first", async () => {
+        const [top] = await retrieve(PATIENT, "LDL cholesterol");
+        expect(top.entryId).toBe("e1");
+        expect(top.keywordScore).toBeGreaterThan(0);
+    });
+
+    test("a synonym with no words in common is found by the embedder", async () => {
+        // "शुगर" (sugar) shares no token with the record, only the lexicon's glucose concept
+        const [top] = await retrieve(PATIENT, "शुगर");
+        expect(top.entryId).toBe("e3");
+        expect(top.keywordScore).toBe(0);
+        expect(top.semanticScore).toBeGreaterThan(0);
+    });
+});
+
+describe("sealed records", () => {
+    beforeEach(() => {
+        mockItems.push({
+            ...record("e4", "2025-04-02", "LAB_REPORT", "Thyroid profile", {}),
+            encryptedMetadata: { ciphertext: "", iv: "", algorithm: "AES-GCM", keyId: "k1" },
+        });
+    });
+
+    test("are found by their index fields and marked sealed", async () => {
+        const results = await retrieve(PATIENT, "thyroid");
+        expect(results[0]).toMatchObject({ entryId: "e4", sealed: true });
+        expect(results.find((r) => r.entryId === "e1")?.sealed).toBeUndefined();
+        expect(await sealedRecordCount(PATIENT)).toBe(1);
+    });
+});
@@ -0,0 +1,51 @@
+// ============================================================
+// Agentic RAG — BM25
+// Okapi BM25 over one patient's record chunks. Document
+// frequencies come from that patient's records alone, so a term
+// on every one of their reports ("hospital", their doctor's
+// name) counts for little, and a rare one counts for a lot.
+// ============================================================
+
+const K1 = 1.2;
+const B = 0.75;
+
+export interface Bm25Index {
+    /** Term frequencies per document, in the order given */
+    docs: Map<string, number>[];
+    lengths: number[];
+    avgLength: number;
+    /** Number of documents containing each term */
+    docFreq: Map<string, number>;
+}
+
+export function buildBm25Index(documents: string[][]): Bm25Index {
+    const docFreq = new Map<string, number>();
+    const docs = documents.map((tokens) => {
+        const tf = new Map<string, number>();
+        for (const t of tokens) tf.set(t, (tf.get(t) ?? 0) + 1);
+        for (const t of tf.keys()) docFreq.set(t, (docFreq.get(t) ?? 0) + 1);
+        return tf;
+    });
+    const lengths = documents.map((d) => d.length);
+    const avgLength = lengths.reduce((a, b) => a + b, 0) / (lengths.length || 1);
+    return { docs, lengths, avgLength: avgLength || 1, docFreq };
+}
+
+/** BM25 score of every document for the query, in index order (0 = no term in common) */
+export function bm25Scores(index: Bm25Index, queryTokens: string[]): number[] {
+    const n = index.docs.length;
+    const terms = [...new Set(queryTokens)];
+    const idf = new Map(terms.map((t) => {
+        const df = index.docFreq.get(t) ?? 0;
+        return [t, Math.log(1 + (n - df + 0.5) / (df + 0.5))];
+    }));
+    return index.docs.map((tf, i) => {
+        let score = 0;
+        const norm = K1 * (1 - B + (B * index.lengths[i]) / index.avgLength);
+        for (const t of terms) {
+            const f = tf.get(t);
+            if (f) score += idf.get(t)! * ((f * (K1 + 1)) / (f + norm));
+        }
+        return score;
+    });
+}
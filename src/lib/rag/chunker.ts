@@ -0,0 +1,83 @@
+// ============================================================
+// Agentic RAG — Record Chunking
+// A record is indexed as its sections (summary, medications,
+// report text, …), and a long section as several passages, so
+// the part of a discharge summary a question is about can be
+// found and shown even when it sits far into the report.
+// ============================================================
+
+/** One labelled part of a record, e.g. { heading: "Diagnoses", text: "…" } */
+export interface RecordSection {
+    heading: string;
+    text: string;
+}
+
+export interface RecordChunk {
+    chunkId: string;
+    entryId: string;
+    /** Position within the record, for restoring reading order */
+    index: number;
+    /** "Heading: passage" — what is shown to the model */
+    text: string;
+}
+
+// Passages are packed up to this many characters, on sentence or line boundaries
+const CHUNK_CHARS = 600;
+// A very long report stops being indexed after this many passages
+const MAX_CHUNKS_PER_RECORD = 24;
+
+export function chunkRecord(entryId: string, sections: RecordSection[]): RecordChunk[] {
+    const chunks: RecordChunk[] = [];
+    for (const section of sections) {
+        for (const passage of splitPassages(section.text.trim())) {
+            if (chunks.length >= MAX_CHUNKS_PER_RECORD) return chunks;
+            chunks.push({
+                chunkId: `${entryId}#${chunks.length}`,
+                entryId,
+                index: chunks.length,
+                text: section.heading ? `${section.heading}: ${passage}` : passage,
+            });
+        }
+    }
+    return chunks;
+}
+
+function splitPassages(text: string): string[] {
+    if (!text) return [];
+    if (text.length <= CHUNK_CHARS) return [text];
+
+    // Lines first (reports are line-oriented), then sentences within long lines
+    const pieces = text
+        .split(/\n+/)
+        .flatMap((line) => (line.length <= CHUNK_CHARS ? [line] : line.split(/(?<=[.;:!?])\s+/)))
+        .flatMap((piece) => hardSplit(piece.trim()))
+        .filter(Boolean);
+
+    const passages: string[] = [];
+    let current = "";
+    for (const piece of pieces) {
+        if (current && current.length + piece.length + 1 > CHUNK_CHARS) {
+            passages.push(current);
+            current = piece;
+        } else {
+            current = current ? `${current}\n${piece}` : piece;
+        }
+    }
+    if (current) passages.push(current);
+    return passages;
+}
+
+/** An unbroken run longer than a passage (a table row, OCR noise) is cut at spaces */
+function hardSplit(piece: string): string[] {
+    if (piece.length <= CHUNK_CHARS) return [piece];
+    const out: string[] = [];
+    let rest = piece;
+    while (rest.length > CHUNK_CHARS) {
+        const cut = rest.lastIndexOf(" ", CHUNK_CHARS);
+        const at = cut > CHUNK_CHARS / 2 ? cut : CHUNK_CHARS;
+        out.push(rest.slice(0, at).trim());
+        rest = rest.slice(at).trim();
+    }
+    if (rest) out.push(rest);
+    return out;
+}
@@ -4,7 +4,7 @@
 // retrieved contexts. If not, re-retrieves and regenerates.
 // ============================================================
 
-import { complete, completeJSON } from "../llm/kimi";
+import { complete, completeJSON } from "../llm";
 import type { ScoredContext, GroundingResult, CorrectionResult, GroundingVerdict } from "./types";
 
 const MAX_CORRECTION_ITERATIONS = 2;
@@ -59,7 +59,7 @@ export async function checkGrounding(
                 content: `Query: ${query}\n\nAnswer to verify:\n${answer}\n\nContexts:\n${contextSummary}`,
             },
         ],
-        { temperature: 0.1, maxTokens: 512 }
+        { task: "grounding", temperature: 0.1, maxTokens: 512 }
     );
 
     if (!result.data) {
@@ -81,7 +81,7 @@ export async function checkGrounding(
 export async function generateCorrected(
     query: string,
     contexts: ScoredContext[]
-): Promise<{ answer: string; provider: "kimi" | "bedrock" }> {
+): Promise<{ answer: string; provider: string }> {
     const contextBlock = buildContextBlock(contexts);
 
     const result = await complete(
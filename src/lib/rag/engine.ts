@@ -2,28 +2,32 @@
 // Agentic RAG — Engine Orchestrator
 //
 // Strategy routing:
-//   DIRECT               → retrieve → generate (Kimi/Bedrock)
+//   DIRECT               → retrieve → generate
 //   QUERY_PLAN           → plan → parallel retrieve → merge → generate
-//   SPECULATIVE          → draft (Kimi) + retrieve in parallel → verify
+//   SPECULATIVE          → draft + retrieve in parallel → verify
 //   ITERATIVE_CORRECTIVE → retrieve → generate → correct loop → reflect loop
 //
-// All strategies record outcomes for adaptive learning.
+// All strategies record outcomes for adaptive learning. A streaming
+// caller (options.onProgress) hears each stage as it starts; answers
+// that are final as generated are streamed token by token, while
+// drafts that a later step verifies are not.
 // ============================================================
 
-import { complete } from "../llm/kimi";
-import type { LLMImageAttachment, LLMMessage } from "../llm/kimi";
-import { retrieve, retrieveRefined } from "./retriever";
+import { complete, completeStream } from "../llm";
+import type { LLMImageAttachment, LLMMessage, LLMResult } from "../llm";
+import { retrieve, retrieveRefined, sealedRecordCount, usableFilters } from "./retriever";
 import { classifyQuery, topKForQueryType } from "./router";
+import { describeFilters, hasFilters } from "./filters";
 import { plan, executeSubQueries, mergeContexts } from "./planner";
 import { correctiveLoop } from "./corrective";
 import { reflectiveLoop } from "./reflective";
 import { selectStrategy, recordOutcome } from "./adaptive";
 import { speculateAndVerify } from "./speculative";
 import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
-import { BedrockRuntimeClient, ConverseCommand } from "@aws-sdk/client-bedrock-runtime";
 import type {
     RAGEngineOptions,
     RAGEngineResult,
+    RAGProgressEvent,
     RAGStrategy,
     ScoredContext,
 } from "./types";
@@ -40,7 +44,8 @@ const RESPONSE_CACHE_MAX    = 500;
 const PIPELINE_TIMEOUT_MS   = 35_000;
 
 function _cacheKey(o: RAGEngineOptions): string {
-    return `${o.patientId}||${o.queryText.trim().toLowerCase().slice(0, 120)}`;
+    // A follow-up means something else in another conversation, so its context is part of the key
+    return `${o.patientId}||${standaloneQuery(o).trim().toLowerCase().slice(0, 240)}`;
 }
 function _lruSet(key: string, result: RAGEngineResult): void {
     if (_responseCache.size >= RESPONSE_CACHE_MAX) {
@@ -57,6 +62,21 @@ function _withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
     ]);
 }
 
+// ── Follow-ups ─────────────────────────────────────────────────────────
+// "And what about last year?" names nothing to retrieve on; the previous
+// question supplies the subject. Generation still sees the question as
+// asked, with the conversation history.
+const FOLLOW_UP_PATTERN = /^(and|but|also|so|then|what about|how about|same)\b|\b(it|its|that|those|this|these|them|they)\b/i;
+const FOLLOW_UP_MAX_WORDS = 3;
+
+function standaloneQuery(options: RAGEngineOptions): string {
+    const previous = [...(options.conversationHistory ?? [])].reverse().find((m) => m.role === "user");
+    if (!previous) return options.queryText;
+    const words = options.queryText.trim().split(/\s+/).length;
+    if (words > FOLLOW_UP_MAX_WORDS && !FOLLOW_UP_PATTERN.test(options.queryText.trim())) return options.queryText;
+    return `${previous.content.slice(0, 200)} ${options.queryText}`;
+}
+
 // ── S3 Image Fetching for multimodal RAG ──────────────────────────────
 const _s3Creds =
     process.env.APP_AWS_ACCESS_KEY_ID && process.env.APP_AWS_SECRET_ACCESS_KEY
@@ -145,34 +165,21 @@ async function fetchContextImages(
     return imageMap;
 }
 
-// ── Vision Model — describe images as text for the RAG context ────────
-// Kimi K2.5 is used for vision — excellent at reading handwritten
-// prescriptions and extracting medical details from document photos.
-const _visionRegion = ["us-east-1", "us-west-2"].includes(_s3Region) ? _s3Region : "us-east-1";
-const _visionClient = new BedrockRuntimeClient({ region: _visionRegion, ..._s3Creds });
-const VISION_MODEL_ID = process.env.KIMI_BEDROCK_MODEL?.trim() || "moonshotai.kimi-k2.5";
-// Fallback to Nova Pro if Kimi is unavailable
-const FALLBACK_VISION_MODEL_ID = process.env.BEDROCK_MODEL_ID?.trim() || "us.amazon.nova-pro-v1:0";
+// ── Vision — describe images as text for the RAG context ──────────────
+// The "vision" provider chain (Kimi K2.5, then Nova Pro, by default)
+// reads handwritten prescriptions and document photos well.
 
 /**
- * Uses Kimi K2.5 (vision-capable) to describe medical content of document images.
- * Falls back to Nova Pro if Kimi is unavailable.
- * Returns a text description suitable for inclusion in the RAG context block.
+ * Describes the medical content of document images with the vision chain.
+ * Returns a text description for the RAG context block, or "" if no
+ * provider could read them.
  */
 async function describeImagesWithVision(
     images: Array<{ bytes: Uint8Array; format: LLMImageAttachment["format"]; title: string }>
 ): Promise<string> {
     if (images.length === 0) return "";
 
-    const contentBlocks = [
-        ...images.map((img) => ({
-            image: {
-                format: img.format,
-                source: { bytes: img.bytes },
-            },
-        })),
-        {
-            text: `You are an expert Indian medical document reader. Read and describe the medical content visible in ${images.length > 1 ? "these" : "this"} document image${images.length > 1 ? "s" : ""}.
+    const instructions = `You are an expert Indian medical document reader. Read and describe the medical content visible in ${images.length > 1 ? "these" : "this"} document image${images.length > 1 ? "s" : ""}.
 
 IMPORTANT for handwritten prescriptions:
 - Indian doctors write in cursive English or mixed Hindi-English. Read every word carefully.
@@ -182,44 +189,19 @@ IMPORTANT for handwritten prescriptions:
 
 For each image extract ALL visible data: document type, medication names (with dosages and frequency), test results (values, units, reference ranges), diagnoses, vital signs, doctor/hospital names, dates, and handwritten notes.
 For medical scans (X-rays, MRI, CT, etc.), describe findings in clinical terms.
-Be thorough — include every number and value visible. Output plain text, no JSON.`,
-        },
-    ];
+Be thorough — include every number and value visible. Output plain text, no JSON.`;
 
-    // Try Kimi K2.5 first, fall back to Nova Pro
-    for (const modelId of [VISION_MODEL_ID, FALLBACK_VISION_MODEL_ID]) {
-        try {
-            const controller = new AbortController();
-            const timer = setTimeout(() => controller.abort(), 15_000);
-
-            const response = await _visionClient
-                .send(
-                    new ConverseCommand({
-                        modelId,
-                        messages: [{ role: "user" as const, content: contentBlocks }],
-                        inferenceConfig: { maxTokens: 1024, temperature: 0.1 },
-                    }),
-                    { abortSignal: controller.signal }
-                )
-                .finally(() => clearTimeout(timer));
-
-            const result = (
-                response.output?.message?.content
-                    ?.map((b) => ("text" in b ? b.text ?? "" : ""))
-                    .join("") ?? ""
-            ).trim();
-
-            if (result) {
-                console.info(`[RAG Engine] Vision (${modelId}) succeeded`);
-                return result;
-            }
-        } catch (err) {
-            console.warn(`[RAG Engine] Vision ${modelId} failed:`, (err as Error).message);
-            // Continue to fallback model
-        }
+    try {
+        const result = await complete(
+            [{ role: "user", content: instructions, images: images.map(({ bytes, format }) => ({ bytes, format })) }],
+            { task: "vision", maxTokens: 1024, temperature: 0.1 }
+        );
+        console.info(`[RAG Engine] Vision (${result.model}) succeeded`);
+        return result.text.trim();
+    } catch (err) {
+        console.warn("[RAG Engine] Vision failed:", (err as Error).message);
+        return "";
     }
-
-    return "";
 }
 
 // --------------- Generation Prompts ---------------
@@ -240,8 +222,11 @@ export async function ragQuery(options: RAGEngineOptions): Promise<RAGEngineResu
         return cached.result;
     }
 
-    // 2. In-flight dedup — share the existing Promise for identical concurrent requests
-    const inflight = _inflight.get(key);
+    // 2. In-flight dedup — share the existing Promise for identical concurrent requests.
+    // Streaming requests run their own pipeline: a shared one sends its tokens to
+    // whoever started it, and that client cancelling would abort it for everyone.
+    const streaming = !!options.onProgress;
+    const inflight = streaming ? undefined : _inflight.get(key);
     if (inflight) return inflight;
 
     // 3. Execute with a hard deadline
@@ -250,15 +235,18 @@ export async function ragQuery(options: RAGEngineOptions): Promise<RAGEngineResu
             _lruSet(key, result);
             return result;
         })
-        .finally(() => _inflight.delete(key));
-    _inflight.set(key, promise);
+        .finally(() => {
+            if (_inflight.get(key) === promise) _inflight.delete(key);
+        });
+    if (!streaming) _inflight.set(key, promise);
     return promise;
 }
 
 async function _ragQueryInner(options: RAGEngineOptions): Promise<RAGEngineResult> {
     const startTime = Date.now();
 
-    const classified = classifyQuery(options.queryText);
+    progress(options, { type: "stage", stage: "classifying" });
+    const classified = classifyQuery(standaloneQuery(options));
     const hasHistory = (options.conversationHistory?.length ?? 0) > 0;
     const strategy: RAGStrategy = options.forceStrategy ||
         selectStrategy(classified.queryType, classified.complexity, hasHistory);
@@ -293,6 +281,8 @@ async function _ragQueryInner(options: RAGEngineOptions): Promise<RAGEngineResul
         }
     }
 
+    if (!isGeneralKnowledge) result = await noteSealedRecords(options.patientId, result);
+
     // Record outcome for adaptive learning
     recordOutcome({
         strategy,
@@ -305,6 +295,23 @@ async function _ragQueryInner(options: RAGEngineOptions): Promise<RAGEngineResul
     return result;
 }
 
+/**
+ * Sealed records are searchable by title, type, date and source only.
+ * When the answer found nothing or leans on one, say so — otherwise
+ * "nothing about that" reads as "not in your records".
+ */
+async function noteSealedRecords(patientId: string, result: RAGEngineResult): Promise<RAGEngineResult> {
+    const usedSealed = result.contexts.some((c) => c.sealed);
+    if (!usedSealed && result.contexts.length > 0) return result;
+    const sealed = await sealedRecordCount(patientId);
+    if (sealed === 0) return result;
+    const records = sealed === 1 ? "1 record is" : `${sealed} records are`;
+    return {
+        ...result,
+        answer: `${result.answer}\n\n_${records} sealed with the vault key, so only their titles, dates and sources could be searched here — not what they say. Open them in the timeline to read them._`,
+    };
+}
+
 // --------------- Strategy Implementations ---------------
 
 /** DIRECT: simple retrieve → generate */
@@ -313,7 +320,8 @@ async function runDirectWithRetrieval(
     classified: ReturnType<typeof classifyQuery>
 ): Promise<RAGEngineResult> {
     const topK = options.topK || topKForQueryType(classified.queryType);
-    const contexts = await retrieve(options.patientId, options.queryText, { topK });
+    const contexts = await retrieve(options.patientId, standaloneQuery(options), { topK, filters: classified.filters });
+    progress(options, { type: "stage", stage: "retrieving", count: contexts.length });
 
     console.info(`[RAG Engine] Retrieved ${contexts.length} contexts for patient=${options.patientId} (topK=${topK})`);
     if (contexts.length > 0) {
@@ -323,15 +331,15 @@ async function runDirectWithRetrieval(
     return runDirect(options, contexts, "DIRECT");
 }
 
-/** Core generation: build prompt from contexts, call Kimi K2.5 */
+/** Core generation: build prompt from contexts, call the generation chain */
 async function runDirect(
     options: RAGEngineOptions,
     contexts: ScoredContext[],
     strategy: RAGStrategy,
     generalMode = false
 ): Promise<RAGEngineResult> {
-    const classified = classifyQuery(options.queryText);
-    const historyBlock = buildHistoryBlock(options.conversationHistory);
+    const classified = classifyQuery(standaloneQuery(options));
+    const historyBlock = buildHistoryBlock(options.conversationHistory, options.userRole);
 
     // Choose the right system prompt based on role (DOCTOR vs PATIENT) and context:
     // 1. General mode (no patient data needed) → general prompt
@@ -349,8 +357,8 @@ async function runDirect(
         systemPrompt = prompts.generation;
     }
 
-    // Fetch images from S3 and describe them with a vision model (Nova Pro).
-    // Kimi K2.5 doesn't support vision, so we convert images → text with Nova Pro first.
+    // Fetch images from S3 and describe them with the vision chain first,
+    // so the answer comes from text whichever generation model is configured.
     let imageDescription = "";
     let imageCount = 0;
     if (hasContexts) {
@@ -383,6 +391,10 @@ async function runDirect(
         messages.push({ role: "user", content: historyBlock });
     }
 
+    if (contexts.some((c) => c.sealed)) {
+        messages[0].content += "\n- Records marked sealed show only their title, type, date and source; their contents cannot be read here. Do not say such a record lacks something — say its contents are not available to you.";
+    }
+
     if (imageDescription) {
         messages[0].content += "\n- Some health records include AI-analyzed document images. Use the [Image Analysis] section for additional medical data that may not appear in the text summaries.";
     }
@@ -393,18 +405,35 @@ async function runDirect(
         ? `\n\n---\n\n[Image Analysis — extracted from document photos by AI vision]\n${imageDescription}`
         : "";
 
+    // Say how the records were narrowed, so "none in March" isn't read as "none at all"
+    const filters = generalMode ? undefined : await usableFilters(options.patientId, classified.filters);
+    const scope = hasFilters(filters) ? describeFilters(filters) : "";
     messages.push({
         role: "user",
         content: hasContexts
-            ? `Health records:\n${contextBlock}${imageBlock}\n\nQuestion: ${options.queryText}`
-            : options.queryText,
+            ? `Health records${scope ? ` (only ${scope})` : ""}:\n${contextBlock}${imageBlock}\n\nQuestion: ${options.queryText}`
+            : scope
+                ? `${options.queryText}\n\n(No health records matched: ${scope}.)`
+                : options.queryText,
     });
 
-    // All queries go through Kimi K2.5 for consistent, high-quality reasoning.
-    const result = await complete(messages, {
+    const generation = {
         temperature: generalMode ? 0.3 : 0.35,
         maxTokens: generalMode ? 600 : 1200,
-    });
+    };
+    // ITERATIVE_CORRECTIVE's first answer is a draft its loops may rewrite
+    const onProgress = options.onProgress;
+    let result: LLMResult;
+    if (onProgress && strategy !== "ITERATIVE_CORRECTIVE") {
+        result = await completeStream(messages, {
+            ...generation,
+            signal: options.signal,
+            onToken: (text) => onProgress({ type: "token", text }),
+        });
+    } else {
+        progress(options, { type: "stage", stage: "drafting" });
+        result = await complete(messages, generation);
+    }
 
     console.info(`[RAG Engine] Generation complete: model=${result.model} provider=${result.provider} contexts=${contexts.length} images=${imageCount} strategy=${strategy}`);
 
@@ -429,9 +458,11 @@ async function runQueryPlan(
     const subResults = await executeSubQueries(
         queryPlan,
         options.patientId,
-        options.topK ? Math.ceil(options.topK / 2) : 6
+        options.topK ? Math.ceil(options.topK / 2) : 6,
+        classified.filters
     );
     const mergedContexts = mergeContexts(subResults, options.topK || 12);
+    progress(options, { type: "stage", stage: "retrieving", count: mergedContexts.length });
 
     const result = await runDirect(options, mergedContexts, "QUERY_PLAN");
 
@@ -451,7 +482,8 @@ async function runSpeculative(
 
     // DynamoDB retrieval is sub-100ms — no point overlapping with an LLM draft call.
     // Retrieve first, then run a single speculateAndVerify (draft + verify = 2 LLM calls).
-    const contexts = await retrieve(options.patientId, options.queryText, { topK });
+    const contexts = await retrieve(options.patientId, standaloneQuery(options), { topK, filters: classified.filters });
+    progress(options, { type: "stage", stage: "retrieving", count: contexts.length });
 
     // If retrieval returned nothing, skip speculation entirely
     if (contexts.length === 0) {
@@ -463,7 +495,8 @@ async function runSpeculative(
     const verified = await speculateAndVerify(
         options.queryText,
         contexts,
-        options.conversationHistory
+        options.conversationHistory,
+        (stage) => progress(options, { type: "stage", stage })
     );
 
     return {
@@ -473,8 +506,8 @@ async function runSpeculative(
         queryType: classified.queryType,
         confidence: Math.min(0.88, 0.6 + verified.groundingScore * 0.3),
         groundingScore: verified.groundingScore,
-        provider: "kimi",
-        modelId: process.env.KIMI_BEDROCK_MODEL || "moonshotai.kimi-k2.5",
+        provider: verified.provider,
+        modelId: verified.modelId,
     };
 }
 
@@ -484,16 +517,18 @@ async function runIterativeCorrective(
     classified: ReturnType<typeof classifyQuery>
 ): Promise<RAGEngineResult> {
     const topK = options.topK || topKForQueryType(classified.queryType);
-    let contexts = await retrieve(options.patientId, options.queryText, { topK });
+    let contexts = await retrieve(options.patientId, standaloneQuery(options), { topK, filters: classified.filters });
+    progress(options, { type: "stage", stage: "retrieving", count: contexts.length });
 
     // Initial generation
     const initial = await runDirect(options, contexts, "ITERATIVE_CORRECTIVE");
     let answer = initial.answer;
     let provider = initial.provider;
+    progress(options, { type: "stage", stage: "verifying" });
 
     // Re-retrieve helper for correction/reflection loops
     const reRetrieve = async (refinedQuery: string): Promise<ScoredContext[]> => {
-        return retrieveRefined(options.patientId, contexts, refinedQuery, topK);
+        return retrieveRefined(options.patientId, contexts, refinedQuery, topK, classified.filters);
     };
 
     // Corrective loop
@@ -520,21 +555,26 @@ async function runIterativeCorrective(
 
 // --------------- Helpers ---------------
 
+function progress(options: RAGEngineOptions, event: RAGProgressEvent): void {
+    options.onProgress?.(event);
+}
+
 function buildContextBlock(contexts: ScoredContext[]): string {
     if (contexts.length === 0) return "(No relevant records found)";
     return contexts
         .slice(0, 12)
-        .map((c, i) => `[Source ${i + 1}] ${c.title} (${c.date || "date unknown"})\n${c.content.slice(0, 400)}`)
+        .map((c, i) => `[Source ${i + 1}] ${c.title} (${c.date || "date unknown"})${c.sealed ? " [sealed]" : ""}\n${c.content.slice(0, 400)}`)
         .join("\n\n---\n\n");
 }
 
 function buildHistoryBlock(
-    history: Array<{ role: "user" | "assistant"; content: string }> | undefined
+    history: Array<{ role: "user" | "assistant"; content: string }> | undefined,
+    userRole?: RAGEngineOptions["userRole"]
 ): string {
     if (!history || history.length === 0) return "";
     return "Previous conversation:\n" +
         history
             .slice(-6)
-            .map((m) => `${m.role === "user" ? "Patient" : "Assistant"}: ${m.content.slice(0, 200)}`)
+            .map((m) => `${m.role === "user" ? (userRole === "DOCTOR" ? "Doctor" : "Patient") : "Assistant"}: ${m.content.slice(0, 200)}`)
             .join("\n");
 }
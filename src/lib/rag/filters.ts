@@ -0,0 +1,400 @@
+// ============================================================
+// Agentic RAG — Query Filters
+// Reads the constraints a question puts on which records count —
+// "in March", "last 6 months", "Dr. Rao", "at Apollo Hospital",
+// "my prescriptions", "HbA1c" — into RetrievalFilters, which the
+// retriever applies before it scores anything.
+// Rule-based and pure. Dates resolve against `today`; numeric
+// dates are read day first (12/03/2025 is 12 March), a month or
+// day without a year is the most recent one, and when a question
+// names several periods the last one wins — a follow-up appended
+// to the previous question narrows what that question asked.
+// ============================================================
+
+import { LAB_ANALYTES, labKey } from "../labs";
+import { BRAND_GENERICS, COMMON_GENERICS } from "../medications/brands";
+import { addDaysIso, fmtDate, localIsoDate } from "../utils/date";
+import type { DocumentTypeTag } from "../types/timeline";
+import type { RetrievalFilters } from "./types";
+
+interface DateRange {
+    from?: string;
+    to?: string;
+}
+
+interface DateMention {
+    range: DateRange;
+    index: number;
+    end: number;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH = "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const ORDINAL = "(?:st|nd|rd|th)?";
+
+// Earliest alternative wins at a position, so fuller forms come first.
+// A bare month needs a preposition before it — "may" is usually a verb.
+const ABSOLUTE_DATE = new RegExp([
+    `\\b(?<isoY>\\d{4})-(?<isoM>\\d{1,2})-(?<isoD>\\d{1,2})\\b`,
+    `\\b(?<numD>\\d{1,2})[/.-](?<numM>\\d{1,2})[/.-](?<numY>\\d{4}|\\d{2})\\b`,
+    `\\b(?<dayD>\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?(?<dayM>${MONTH})\\.?(?:,?\\s+(?<dayY>\\d{4}))?\\b`,
+    `\\b(?<mdM>${MONTH})\\.?\\s+(?<mdD>\\d{1,2})${ORDINAL},?\\s+(?<mdY>\\d{4})\\b`,
+    `\\b(?<myM>${MONTH})\\.?,?\\s+(?<myY>\\d{4})\\b`,
+    `(?<=\\b(?:in|on|of|since|from|during|before|after|until|till|through|between|and|to)\\s+)(?<onlyM>${MONTH})\\b`,
+    // "2000 mg" is a dose, not a year
+    `\\b(?<year>(?:19|20)\\d{2})\\b(?!\\s*(?:mg|mcg|ml|g|iu|units?|kcal|calories|steps)\\b)`,
+].join("|"), "gi");
+
+const COUNT = "\\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|few|couple(?:\\s+of)?";
+const UNIT = "days?|weeks?|months?|years?";
+const RELATIVE_DATE = new RegExp([
+    `\\b(?<dir>last|past|previous|recent|this|current)\\s+(?:(?<n>${COUNT})\\s+)?(?<unit>${UNIT})\\b`,
+    `\\b(?<agoN>${COUNT})\\s+(?<agoUnit>${UNIT})\\s+ago\\b`,
+    `\\b(?<day>today|yesterday)\\b`,
+].join("|"), "gi");
+
+const NUMBER_WORDS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+    seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, few: 3, couple: 2,
+};
+
+type Relation = "from" | "after" | "before" | "until" | "and";
+const RELATION_BEFORE = /\b(since|from|after|before|until|till|through|between|and|to)\s+(?:the\s+)?$/i;
+
+const DOCUMENT_TYPES: { type: DocumentTypeTag; label: string; regex: RegExp }[] = [
+    { type: "RX", label: "prescriptions", regex: /\b(prescri\w*|rx)\b/i },
+    { type: "Lab", label: "lab reports", regex: /\b(labs?|lab reports?|laboratory|blood tests?|blood work|test results?|investigations?)\b/i },
+    { type: "H", label: "hospital and discharge summaries", regex: /\b(discharge summar\w*|discharged|hospitali[sz]\w*|admission|admitted)\b/i },
+    { type: "Consult", label: "consultation notes", regex: /\b(consultations?|consult notes?|opd notes?)\b/i },
+    { type: "Vacc", label: "vaccination records", regex: /\b(vaccin\w*|immuni[sz]\w*)\b/i },
+    { type: "Imaging", label: "imaging reports", regex: /\b(x-?rays?|mri|ct scans?|ultrasound|sonography|usg|imaging|radiology|scans?)\b/i },
+    { type: "Insurance", label: "insurance documents", regex: /\b(insurance|claims?|policy)\b/i },
+];
+
+// The word before "Hospital", "Clinic" … names the place unless it is one of these
+const GENERIC_PLACE_WORDS = new Set([
+    "a", "an", "the", "my", "our", "his", "her", "their", "which", "what", "any", "that", "this", "same",
+    "last", "recent", "previous", "latest", "other", "all", "new", "old", "blood", "urine", "path", "pathology",
+    "eye", "dental", "city", "government", "govt", "private", "general", "local", "nearby", "district", "diagnostic",
+]);
+// Test, medicine and time words name no place: "HbA1c lab results",
+// "Thyroid labs", "stopped from Metformin", "sugar at Night"
+const NOT_PLACE_WORDS = new Set([
+    ...LAB_ANALYTES.flatMap((a) => a.aliases),
+    ...Object.entries(BRAND_GENERICS).flat(),
+    ...COMMON_GENERICS,
+    "morning", "afternoon", "evening", "night", "midnight", "noon", "bedtime", "today", "tonight", "yesterday",
+    "tomorrow", "weekend", "breakfast", "lunch", "dinner", "meals", "home", "work", "school", "times",
+    "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday",
+].flatMap((name) => labKey(name).split(" ")).filter((word) => word.length > 2));
+const PLACE_SUFFIX = /\b([\p{L}][\p{L}\p{N}&'-]*)\s+(?:hospitals?|clinics?|diagnostics?|labs?|laborator(?:y|ies)|nursing\s+home|medical\s+(?:cent(?:re|er)|college)|health\s*care|imaging|scan\s+cent(?:re|er))\b/giu;
+const PLACE_AFTER_PREPOSITION = /\b(?:at|from)\s+(?:the\s+)?([A-Z][\p{L}\p{N}&'-]+)/gu;
+const DOCTOR = /\b(dr\.?|doctor)\s+((?:[a-z](?:\.\s*|\s+)){0,3}[a-z][a-z'-]+)/gi;
+
+// --------------- Public API ---------------
+
+/** The filters a question implies. Empty when it names none. */
+export function extractFilters(query: string, today: string = localIsoDate()): RetrievalFilters {
+    const filters: RetrievalFilters = {};
+
+    const dates = extractDateRange(query, today);
+    if (dates.from) filters.dateFrom = dates.from;
+    if (dates.to) filters.dateTo = dates.to;
+
+    const doctor = extractDoctor(query);
+    if (doctor) filters.doctor = doctor;
+
+    const institution = extractInstitution(query);
+    if (institution) filters.institution = institution;
+
+    const documentTypes = DOCUMENT_TYPES.filter((d) => d.regex.test(query)).map((d) => d.type);
+    if (documentTypes.length > 0) filters.documentTypes = documentTypes;
+
+    const analytes = extractAnalytes(query);
+    if (analytes.length > 0) filters.analytes = analytes;
+
+    return filters;
+}
+
+export function hasFilters(filters: RetrievalFilters | undefined): filters is RetrievalFilters {
+    return !!filters && Object.values(filters).some((v) => (Array.isArray(v) ? v.length > 0 : v !== undefined));
+}
+
+/** "prescriptions, by Dr. rao, dated 01/03/2026 to 31/03/2026" — for prompts and logs */
+export function describeFilters(filters: RetrievalFilters): string {
+    const parts: string[] = [];
+    if (filters.documentTypes?.length) {
+        parts.push(filters.documentTypes.map((t) => DOCUMENT_TYPES.find((d) => d.type === t)?.label ?? t).join(" or "));
+    }
+    if (filters.doctor) parts.push(`by Dr. ${filters.doctor}`);
+    if (filters.institution) parts.push(`from ${filters.institution}`);
+    if (filters.dateFrom && filters.dateTo) {
+        parts.push(filters.dateFrom === filters.dateTo
+            ? `dated ${fmtDate(filters.dateFrom)}`
+            : `dated ${fmtDate(filters.dateFrom)} to ${fmtDate(filters.dateTo)}`);
+    } else if (filters.dateFrom) {
+        parts.push(`dated ${fmtDate(filters.dateFrom)} or later`);
+    } else if (filters.dateTo) {
+        parts.push(`dated ${fmtDate(filters.dateTo)} or earlier`);
+    }
+    if (filters.analytes?.length) {
+        const names = filters.analytes.map((loinc) => LAB_ANALYTES.find((a) => a.loinc === loinc)?.name ?? loinc);
+        parts.push(`lab reports only where they include ${[...new Set(names)].join(", ")}`);
+    }
+    return parts.join(", ");
+}
+
+/** Keeps the values that are document type tags — for types named by the query planner's LLM. */
+export function documentTypesFrom(values: string[] | undefined): DocumentTypeTag[] | undefined {
+    const known = new Set<string>([...DOCUMENT_TYPES.map((d) => d.type), "Other"]);
+    const types = (values ?? []).filter((v) => known.has(v)) as DocumentTypeTag[];
+    return types.length > 0 ? types : undefined;
+}
+
+// --------------- Dates ---------------
+
+function extractDateRange(query: string, today: string): DateRange {
+    const mentions = [...absoluteMentions(query, today), ...relativeMentions(query, today)]
+        .sort((a, b) => a.index - b.index);
+    return mentions.length > 0 ? mentions[mentions.length - 1].range : {};
+}
+
+function absoluteMentions(query: string, today: string): DateMention[] {
+    const found: (DateMention & { relation?: Relation })[] = [];
+    for (const match of query.matchAll(ABSOLUTE_DATE)) {
+        const range = resolveAbsolute(match.groups ?? {}, today);
+        if (!range) continue;
+        const index = match.index ?? 0;
+        const word = RELATION_BEFORE.exec(query.slice(0, index))?.[1].toLowerCase();
+        const relation: Relation | undefined =
+            // A lone "from" is where the records come from — "prescriptions from December"
+            word === "since" ? "from"
+            : word === "after" ? "after"
+            : word === "before" ? "before"
+            : word === "until" || word === "till" || word === "through" || word === "to" ? "until"
+            : word === "and" ? "and"
+            : undefined;
+        found.push({ range, index, end: index + match[0].length, relation });
+    }
+
+    const mentions: DateMention[] = [];
+    for (let i = 0; i < found.length; i++) {
+        const { range, index, end, relation } = found[i];
+        const next = found[i + 1];
+        // "from March to June", "between 2023 and 2024", "01/01/2024 - 30/06/2024"
+        const gap = next ? query.slice(end, next.index) : "";
+        if (next && /^\s*(?:and|to|till|until|through|-|–)\s*(?:the\s+)?$/i.test(gap)) {
+            mentions.push({ range: { from: range.from, to: next.range.to }, index, end: next.end });
+            i++;
+            continue;
+        }
+        switch (relation) {
+            case "from":   mentions.push({ range: { from: range.from }, index, end }); break;
+            case "after":  mentions.push({ range: { from: range.to && addDaysIso(range.to, 1) }, index, end }); break;
+            case "before": mentions.push({ range: { to: range.from && addDaysIso(range.from, -1) }, index, end }); break;
+            case "until":  mentions.push({ range: { to: range.to }, index, end }); break;
+            default:       mentions.push({ range, index, end });
+        }
+    }
+    return mentions;
+}
+
+function resolveAbsolute(g: Record<string, string | undefined>, today: string): DateRange | null {
+    const [thisYear, thisMonth] = today.split("-").map(Number);
+    if (g.isoY) return day(Number(g.isoY), Number(g.isoM), Number(g.isoD));
+    if (g.numD) return day(fullYear(g.numY!, thisYear), Number(g.numM), Number(g.numD));
+    if (g.dayD) {
+        const month = monthNumber(g.dayM!);
+        const d = Number(g.dayD);
+        if (g.dayY) return day(Number(g.dayY), month, d);
+        const candidate = day(thisYear, month, d);
+        return candidate && candidate.from! > today ? day(thisYear - 1, month, d) : candidate;
+    }
+    if (g.mdM) return day(Number(g.mdY), monthNumber(g.mdM), Number(g.mdD));
+    if (g.myM) return month(Number(g.myY), monthNumber(g.myM));
+    if (g.onlyM) {
+        const m = monthNumber(g.onlyM);
+        return month(m > thisMonth ? thisYear - 1 : thisYear, m);
+    }
+    if (g.year) return { from: `${g.year}-01-01`, to: `${g.year}-12-31` };
+    return null;
+}
+
+function relativeMentions(query: string, today: string): DateMention[] {
+    const mentions: DateMention[] = [];
+    for (const match of query.matchAll(RELATIVE_DATE)) {
+        const g = match.groups ?? {};
+        const index = match.index ?? 0;
+        const end = index + match[0].length;
+        if (g.day) {
+            const date = g.day.toLowerCase() === "today" ? today : addDaysIso(today, -1);
+            mentions.push({ range: { from: date, to: date }, index, end });
+            continue;
+        }
+        if (g.agoUnit) {
+            const unit = unitOf(g.agoUnit);
+            const point = shift(today, unit, -count(g.agoN));
+            mentions.push({ range: periodContaining(point, unit), index, end });
+            continue;
+        }
+        const unit = unitOf(g.unit!);
+        const dir = g.dir!.toLowerCase();
+        if (dir === "this" || dir === "current") {
+            mentions.push({ range: { from: periodContaining(today, unit).from, to: today }, index, end });
+            continue;
+        }
+        // "last 6 months", "past year", "recent months" — a window ending today
+        const n = g.n ? count(g.n) : /s$/i.test(g.unit!) ? NUMBER_WORDS.few : 1;
+        mentions.push({ range: { from: addDaysIso(shift(today, unit, -n), 1), to: today }, index, end });
+    }
+    return mentions;
+}
+
+type Unit = "day" | "week" | "month" | "year";
+
+function unitOf(word: string): Unit {
+    return word.toLowerCase().replace(/s$/, "") as Unit;
+}
+
+function count(word: string | undefined): number {
+    if (!word) return 1;
+    const key = word.toLowerCase().split(/\s+/)[0];
+    return NUMBER_WORDS[key] ?? (Number(key) || 1);
+}
+
+function monthNumber(word: string): number {
+    return MONTHS.indexOf(word.slice(0, 3).toLowerCase()) + 1;
+}
+
+/** "25" → 2025, "98" → 1998 */
+function fullYear(text: string, thisYear: number): number {
+    if (text.length === 4) return Number(text);
+    const century = Math.floor(thisYear / 100) * 100;
+    const year = century + Number(text);
+    return year > thisYear ? year - 100 : year;
+}
+
+function daysIn(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function iso(year: number, month: number, dayOfMonth: number): string {
+    return `${year}-${String(month).padStart(2, "0")}-${String(dayOfMonth).padStart(2, "0")}`;
+}
+
+function day(year: number, month: number, dayOfMonth: number): DateRange | null {
+    if (month < 1 || month > 12 || dayOfMonth < 1 || dayOfMonth > daysIn(year, month)) return null;
+    const date = iso(year, month, dayOfMonth);
+    return { from: date, to: date };
+}
+
+function month(year: number, m: number): DateRange {
+    return { from: iso(year, m, 1), to: iso(year, m, daysIn(year, m)) };
+}
+
+/** An ISO date moved by whole units; month and year moves keep the day where the month has it */
+function shift(date: string, unit: Unit, n: number): string {
+    if (unit === "day") return addDaysIso(date, n);
+    if (unit === "week") return addDaysIso(date, 7 * n);
+    const [y, m, d] = date.split("-").map(Number);
+    const months = y * 12 + (m - 1) + (unit === "year" ? 12 * n : n);
+    const year = Math.floor(months / 12);
+    const mon = (months % 12) + 1;
+    return iso(year, mon, Math.min(d, daysIn(year, mon)));
+}
+
+/** The calendar day, Monday-to-Sunday week, month or year a date falls in */
+function periodContaining(date: string, unit: Unit): DateRange {
+    const [y, m] = date.split("-").map(Number);
+    switch (unit) {
+        case "day":
+            return { from: date, to: date };
+        case "week": {
+            const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+            const monday = addDaysIso(date, -weekday);
+            return { from: monday, to: addDaysIso(monday, 6) };
+        }
+        case "month":
+            return month(y, m);
+        case "year":
+            return { from: `${y}-01-01`, to: `${y}-12-31` };
+    }
+}
+
+// --------------- People, places, tests ---------------
+
+/** The last-named doctor's surname, lowercase: "Dr. S. K. Rao" → "rao" */
+function extractDoctor(query: string): string | undefined {
+    let doctor: string | undefined;
+    for (const match of query.matchAll(DOCTOR)) {
+        const name = match[2].trim();
+        // "doctor" is also a plain noun — only a capitalised name after it counts
+        if (match[1].toLowerCase() === "doctor" && !/^[A-Z]/.test(name)) continue;
+        doctor = name.split(/[\s.]+/).filter(Boolean).pop()!.toLowerCase().replace(/'s$/, "");
+    }
+    return doctor;
+}
+
+/** Whether a word could be a place's name rather than a test, a medicine, a date or a record type */
+function couldNamePlace(word: string): boolean {
+    const lower = word.toLowerCase();
+    return !GENERIC_PLACE_WORDS.has(lower)
+        && !NOT_PLACE_WORDS.has(labKey(word))
+        && !new RegExp(`^${MONTH}$`, "i").test(lower)
+        && lower !== "dr" && lower !== "doctor"
+        && !DOCUMENT_TYPES.some((d) => d.regex.test(lower));
+}
+
+/** One distinctive word of the last-named institution, lowercase: "Sir Ganga Ram Hospital" → "ram" */
+function extractInstitution(query: string): string | undefined {
+    const candidates: { word: string; index: number }[] = [];
+    for (const match of query.matchAll(PLACE_SUFFIX)) {
+        const word = match[1];
+        const index = match.index ?? 0;
+        const introduced = /\b(?:at|from|in)\s+(?:the\s+)?$/i.test(query.slice(0, index));
+        if ((/^\p{Lu}/u.test(word) || introduced) && couldNamePlace(word)) {
+            candidates.push({ word, index });
+        }
+    }
+    for (const match of query.matchAll(PLACE_AFTER_PREPOSITION)) {
+        if (couldNamePlace(match[1])) {
+            candidates.push({ word: match[1], index: match.index ?? 0 });
+        }
+    }
+    candidates.sort((a, b) => a.index - b.index);
+    return candidates.pop()?.word.toLowerCase();
+}
+
+// Words that make a test's name more specific without making it another test
+const VARIANT_WORDS = new Set(["fasting", "random", "post", "prandial", "postprandial", "pp", "2", "hr", "2hr", "meal", "plasma", "blood", "total"]);
+
+/**
+ * LOINC codes of the lab tests the question names. A general name
+ * covers its specific forms: "blood sugar" is fasting, post-meal and
+ * random glucose alike, "fasting blood sugar" only the first — but
+ * "hemoglobin" is not HbA1c.
+ */
+function extractAnalytes(query: string): string[] {
+    const words = new Set(labKey(query).split(" ").filter(Boolean));
+    const named = LAB_ANALYTES.flatMap((a) => a.aliases)
+        .map((alias) => labKey(alias).split(" "))
+        // Short codes ("k", "hb", "mg") are too easily something else in a sentence
+        .filter((tokens) => tokens.length > 1 || tokens[0].length > 2)
+        .filter((tokens) => tokens.every((t) => words.has(t)));
+    const widest = named.filter((tokens) =>
+        !named.some((other) => other.length > tokens.length && tokens.every((t) => other.includes(t))));
+
+    const loincs = new Set<string>();
+    for (const tokens of widest) {
+        for (const analyte of LAB_ANALYTES) {
+            const covers = (alias: string) => {
+                const words = labKey(alias).split(" ");
+                return tokens.every((t) => words.includes(t)) && words.every((w) => tokens.includes(w) || VARIANT_WORDS.has(w));
+            };
+            if (analyte.aliases.some(covers)) {
+                loincs.add(analyte.loinc);
+            }
+        }
+    }
+    return [...loincs];
+}
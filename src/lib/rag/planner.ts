@@ -4,11 +4,13 @@
 // retrieved and answered in parallel, then merged.
 // ============================================================
 
-import { complete } from "../llm/kimi";
+import { complete } from "../llm";
 import { retrieve } from "./retriever";
+import { documentTypesFrom } from "./filters";
 import type {
     ClassifiedQuery,
     PlannerResult,
+    RetrievalFilters,
     SubQuery,
     SubQueryResult,
     ScoredContext,
@@ -22,11 +24,12 @@ Break the user's health query into 2-4 focused sub-queries that together fully a
 Respond with JSON only, format:
 {
   "subQueries": [
-    { "text": "<sub-query>", "purpose": "<what this sub-query answers>", "targetDocTypes": ["Observation","Condition"] }
+    { "text": "<sub-query>", "purpose": "<what this sub-query answers>", "targetDocTypes": ["Lab","RX"] }
   ],
   "parallel": true
 }
-Valid targetDocTypes: Observation, Condition, MedicationRequest, Procedure, DiagnosticReport, Encounter, AllergyIntolerance.
+Valid targetDocTypes: RX (prescriptions), Lab (lab reports), H (hospital and discharge summaries), Consult (consultation notes), Vacc (vaccinations), Imaging, Insurance, Other.
+Omit targetDocTypes when any kind of record could answer the sub-query.
 Keep sub-queries concise and medically focused.`;
 
 // --------------- Public API ---------------
@@ -50,17 +53,19 @@ export async function plan(classified: ClassifiedQuery): Promise<PlannerResult>
 
 /**
  * Execute a query plan: retrieve contexts for all sub-queries (in parallel if flagged).
+ * `filters` are the ones the user's question names; they hold for every sub-query.
  */
 export async function executeSubQueries(
     planResult: PlannerResult,
     patientId: string,
-    topKPerQuery = 6
+    topKPerQuery = 6,
+    filters: RetrievalFilters = {}
 ): Promise<SubQueryResult[]> {
     if (planResult.strategy === "direct") {
         const sq = planResult.subQueries[0];
         const contexts = await retrieve(patientId, sq.text, {
             topK: topKPerQuery * 2,
-            docTypeFilter: sq.targetDocTypes,
+            filters: subQueryFilters(sq, filters),
         });
         return [{ subQuery: sq, contexts, partialAnswer: "" }];
     }
@@ -71,7 +76,7 @@ export async function executeSubQueries(
             planResult.subQueries.map(async (sq) => {
                 const contexts = await retrieve(patientId, sq.text, {
                     topK: topKPerQuery,
-                    docTypeFilter: sq.targetDocTypes,
+                    filters: subQueryFilters(sq, filters),
                 });
                 return { subQuery: sq, contexts, partialAnswer: "" };
             })
@@ -84,7 +89,7 @@ export async function executeSubQueries(
     for (const sq of planResult.subQueries) {
         const contexts = await retrieve(patientId, sq.text, {
             topK: topKPerQuery,
-            docTypeFilter: sq.targetDocTypes,
+            filters: subQueryFilters(sq, filters),
         });
         results.push({ subQuery: sq, contexts, partialAnswer: "" });
     }
@@ -113,6 +118,11 @@ export function mergeContexts(subResults: SubQueryResult[], totalTopK = 12): Sco
 
 // --------------- Helpers ---------------
 
+/** The question's own record types win over the planner's guess for a sub-query */
+function subQueryFilters(sq: SubQuery, filters: RetrievalFilters): RetrievalFilters {
+    return { ...filters, documentTypes: filters.documentTypes ?? documentTypesFrom(sq.targetDocTypes) };
+}
+
 function directPlan(queryText: string): PlannerResult {
     return {
         subQueries: [
@@ -137,7 +147,7 @@ async function llmDecompose(classified: ClassifiedQuery): Promise<PlannerResult>
                 content: `Decompose this health query: "${classified.original}"\nDetected type: ${classified.queryType}`,
             },
         ],
-        { jsonMode: true, temperature: 0.2, maxTokens: 512 }
+        { task: "planning", jsonMode: true, temperature: 0.2, maxTokens: 512 }
     );
 
     const json = safeParseJSON<{ subQueries: Array<{ text: string; purpose: string; targetDocTypes?: string[] }>; parallel: boolean }>(
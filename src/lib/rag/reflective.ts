@@ -4,7 +4,7 @@
 // it when completeness or accuracy is insufficient.
 // ============================================================
 
-import { complete, completeJSON } from "../llm/kimi";
+import { complete, completeJSON } from "../llm";
 import type { ScoredContext, ReflectionResult, ReflectionVerdict, RefinedAnswer } from "./types";
 
 const MAX_REFLECTION_ITERATIONS = 2;
@@ -57,7 +57,7 @@ export async function reflect(
                 ].join("\n\n"),
             },
         ],
-        { temperature: 0.1, maxTokens: 512 }
+        { task: "grounding", temperature: 0.1, maxTokens: 512 }
     );
 
     if (!result.data) {
@@ -80,7 +80,7 @@ export async function refine(
     originalAnswer: string,
     reflection: ReflectionResult,
     additionalContexts: ScoredContext[]
-): Promise<{ answer: string; provider: "kimi" | "bedrock" }> {
+): Promise<{ answer: string; provider: string }> {
     const contextBlock = additionalContexts
         .slice(0, 8)
         .map((c, i) => `[Source ${i + 1}] ${c.title} (${c.date}): ${c.content.slice(0, 350)}`)
@@ -1,13 +1,28 @@
 // ============================================================
 // Agentic RAG — Enhanced Retriever
-// Fetches patient contexts from HealthLake + DynamoDB health
-// records table and scores them using keyword overlap + recency.
+// Fetches patient contexts from the DynamoDB health records
+// table, splits each record into section chunks and ranks the
+// chunks two ways — BM25 over the patient's own records, and
+// embedding similarity — fused with reciprocal rank fusion.
+// A record's score is its best chunk's, blended with recency.
+// Filters the question names (filters.ts) are applied first:
+// a record outside them is never scored.
 // ============================================================
 
 // import * as healthlake from "../aws/healthlake"; // re-enable with HealthLake datastore
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, QueryCommand } from "@aws-sdk/lib-dynamodb";
-import type { ScoredContext, RetrievalOptions } from "./types";
+import type { ScoredContext, RetrievalFilters, RetrievalOptions } from "./types";
+import { describeFilters, hasFilters } from "./filters";
+import { chunkRecord, type RecordChunk, type RecordSection } from "./chunker";
+import { buildBm25Index, bm25Scores, type Bm25Index } from "./bm25";
+import { cosine, embedTexts, getEmbeddingProvider } from "../embeddings";
+import { getAdherence } from "../services/adherence.service";
+import { activeCourses, reconcileMedications } from "../medications";
+import type { CourseSource, MedicationCourse } from "../medications";
+import { findAnalyte } from "../labs";
+import type { LabTestResult } from "../types/timeline";
+import { addDaysIso, fmtDate } from "../utils/date";
 
 const _region = process.env.NEXT_PUBLIC_AWS_REGION || process.env.APP_AWS_REGION || "ap-south-1";
 const _creds =
@@ -24,11 +39,31 @@ const HEALTH_RECORDS_TABLE = process.env.DYNAMODB_HEALTH_RECORDS_TABLE || "arogy
 const _resourceCache = new Map<string, { resources: Record<string, unknown>[]; ts: number }>();
 const RESOURCE_CACHE_TTL_MS = 45_000;
 
-/** Invalidate resource cache after upload/delete so next query is fresh. */
+// Chunk index per patient, built from (and living as long as) the cached resources
+interface PatientIndex {
+    resources: Record<string, unknown>[];
+    chunks: RecordChunk[];
+    bm25: Bm25Index;
+    /** null when the embedding provider is unavailable — ranking falls back to BM25 alone */
+    vectors: Promise<Float32Array[] | null>;
+}
+const _indexCache = new Map<string, PatientIndex>();
+
+/** Invalidate resource cache and chunk index after upload/delete so next query is fresh. */
 export function invalidateResourceCache(patientId: string): void {
     _resourceCache.delete(patientId);
+    _indexCache.delete(patientId);
 }
 
+// Reciprocal rank fusion constant. Lower than the usual 60: one patient's
+// lists are short, and the fused score is blended with recency, so the
+// top few ranks need to stand apart.
+const RRF_K = 10;
+// Dense matches past this rank, or below the embedder's minSimilarity, don't count
+const DENSE_CANDIDATES = 30;
+// Characters of a record given to the model — its best-matching chunks first
+const CONTEXT_CHARS = 1200;
+
 const DEFAULT_OPTIONS: RetrievalOptions = {
     topK: 12,
     minScore: 0.1,
@@ -62,53 +97,81 @@ export async function retrieve(
         console.info(`[RAG Retriever] Patient has ≤10 records — minScore overridden to 0 (include all)`);
     }
 
-    const queryTokens = tokenize(query);
+    const usable = usableFiltersFor(resources, opts.filters);
+    const filters = hasFilters(usable) ? usable : undefined;
+    const candidates = filters ? resources.filter((r) => matchesFilters(r, filters)) : resources;
+    if (filters) {
+        console.info(`[RAG Retriever] Filters: ${describeFilters(filters)} → ${candidates.length} of ${resources.length} resources`);
+        if (candidates.length === 0) return [];
+        // The question chose these records itself; a weak text match is no reason to drop one
+        opts.minScore = 0;
+    }
+
+    const index = indexFor(patientId, resources);
+    const [vectors, queryVector] = await Promise.all([index.vectors, embedQuery(query)]);
+
+    // Rank chunks lexically and semantically, then fuse the two rankings
+    const lexical = bm25Scores(index.bm25, tokenize(query));
+    const dense = vectors && queryVector ? vectors.map((v) => cosine(v, queryVector)) : null;
+    const rankings = [ranking(lexical, (s) => s > 0)];
+    if (dense) {
+        const { minSimilarity } = getEmbeddingProvider();
+        rankings.push(ranking(dense, (s) => s >= minSimilarity, DENSE_CANDIDATES));
+    }
+    const best = rankings.length / (RRF_K + 1);
+    const fused = index.chunks.map((_, i) =>
+        rankings.reduce((sum, r) => sum + (r.has(i) ? 1 / (RRF_K + r.get(i)! + 1) : 0), 0) / best
+    );
+    const topLexical = Math.max(0, ...lexical) || 1;
+
+    const chunksOf = new Map<string, number[]>();
+    index.chunks.forEach((c, i) => {
+        const list = chunksOf.get(c.entryId);
+        if (list) list.push(i);
+        else chunksOf.set(c.entryId, [i]);
+    });
+
     const now = Date.now();
     const oldest = findOldestTimestamp(resources);
     const ageRange = now - oldest || 1;
 
-    const scored: ScoredContext[] = resources.map((r) => {
-        // DynamoDB entries pre-build a rich _content string; FHIR resources use JSON serialisation
-        const content = ((r._content as string) || JSON.stringify(r)).slice(0, 1200);
-        const title =
-            (r.description as string) ||
-            (r.code as { text?: string })?.text ||
-            (r.resourceType as string) ||
-            "";
-        const date =
-            (r.effectiveDateTime as string) ||
-            (r.date as string) ||
-            (r.recordedDate as string) ||
-            (r.onsetDateTime as string) ||
-            "";
-        const docType = (r.resourceType as string) || "UNKNOWN";
+    const scored: ScoredContext[] = candidates.map((r) => {
+        const { entryId, title, date, docType } = describe(r);
+        const own = chunksOf.get(entryId) ?? [];
 
-        const keywordScore = computeKeywordScore(queryTokens, tokenize(title + " " + content));
+        const relevance = Math.max(0, ...own.map((i) => fused[i]));
+        const keywordScore = Math.max(0, ...own.map((i) => lexical[i])) / topLexical;
+        const semanticScore = dense ? Math.max(0, ...own.map((i) => dense[i])) : 0;
         const recencyScore = computeRecencyScore(date, now, ageRange);
         const score =
-            (1 - opts.recencyWeight) * keywordScore + opts.recencyWeight * recencyScore;
+            (1 - opts.recencyWeight) * relevance + opts.recencyWeight * recencyScore;
+
+        // Matching chunks best first, then the rest in reading order
+        const ordered = [...own].sort((a, b) => fused[b] - fused[a] || a - b);
+        let content = "";
+        for (const i of ordered) {
+            const text = index.chunks[i].text;
+            if (content && content.length + text.length + 2 > CONTEXT_CHARS) break;
+            content = content ? `${content}\n\n${text}` : text;
+        }
 
         return {
-            entryId: (r.id as string) || `res-${Math.random().toString(36).slice(2)}`,
+            entryId,
             title,
             date,
-            content,
+            content: content.slice(0, CONTEXT_CHARS),
             documentType: docType,
             s3Key: (r._s3Key as string) || undefined,
             score,
             keywordScore,
+            semanticScore,
             recencyScore,
+            ...(r._sealed === true && { sealed: true }),
         };
     });
 
     const results = scored
-        .filter((c) => {
-            if (c.score < opts.minScore) return false;
-            if (opts.docTypeFilter && opts.docTypeFilter.length > 0) {
-                return opts.docTypeFilter.includes(c.documentType);
-            }
-            return true;
-        })
+        .filter((c) => c.score >= opts.minScore)
         .sort((a, b) => b.score - a.score)
         .slice(0, opts.topK);
 
@@ -120,6 +183,21 @@ export async function retrieve(
     return results;
 }
 
+/**
+ * The filters retrieve() will apply for this patient. The institution is
+ * a word guessed from free text, so it only narrows when some record is
+ * from a place of that name — otherwise it is dropped rather than
+ * leaving the question with no records at all.
+ */
+export async function usableFilters(patientId: string, filters?: RetrievalFilters): Promise<RetrievalFilters | undefined> {
+    return usableFiltersFor(await fetchAllResources(patientId), filters);
+}
+
+/** How many of the patient's records are sealed, so their contents can't be searched. */
+export async function sealedRecordCount(patientId: string): Promise<number> {
+    return (await fetchAllResources(patientId)).filter((r) => r._sealed === true).length;
+}
+
 /**
  * Re-retrieve with a refined query (used by corrective/reflective modules).
  */
@@ -127,9 +205,10 @@ export async function retrieveRefined(
     patientId: string,
     originalContexts: ScoredContext[],
     refinedQuery: string,
-    topK = 8
+    topK = 8,
+    filters?: RetrievalFilters
 ): Promise<ScoredContext[]> {
-    const fresh = await retrieve(patientId, refinedQuery, { topK });
+    const fresh = await retrieve(patientId, refinedQuery, { topK, filters });
     // Merge: fresh results first, then add originals not already included
     const seen = new Set(fresh.map((c) => c.entryId));
     const merged = [...fresh];
@@ -144,6 +223,116 @@ export async function retrieveRefined(
 
 // --------------- Helpers ---------------
 
+// Ids for resources that lack one (none today), stable for the resource's lifetime
+const _fallbackIds = new WeakMap<Record<string, unknown>, string>();
+
+function describe(r: Record<string, unknown>): { entryId: string; title: string; date: string; docType: string } {
+    let entryId = r.id as string;
+    if (!entryId) {
+        entryId = _fallbackIds.get(r) ?? `res-${Math.random().toString(36).slice(2)}`;
+        _fallbackIds.set(r, entryId);
+    }
+    const title =
+        (r.description as string) ||
+        (r.code as { text?: string })?.text ||
+        (r.resourceType as string) ||
+        "";
+    const date =
+        (r.effectiveDateTime as string) ||
+        (r.date as string) ||
+        (r.recordedDate as string) ||
+        (r.onsetDateTime as string) ||
+        "";
+    return { entryId, title, date, docType: (r.resourceType as string) || "UNKNOWN" };
+}
+
+function usableFiltersFor(resources: Record<string, unknown>[], filters?: RetrievalFilters): RetrievalFilters | undefined {
+    const institution = filters?.institution;
+    if (!filters || !institution) return filters;
+    if (resources.some((r) => names(r._institutions).some((words) => words.includes(institution)))) return filters;
+    console.info(`[RAG Retriever] No records from "${institution}" — not filtering by institution`);
+    const rest = { ...filters };
+    delete rest.institution;
+    return rest;
+}
+
+// Synthetic resources built from prescriptions and dose tracking pass a prescription filter
+const FILTER_TYPE: Record<string, string> = { CURRENT_MEDICATIONS: "RX", ADHERENCE: "RX" };
+
+/** Whether a resource meets every filter. A resource that doesn't say (no date, no doctor) fails that filter. */
+function matchesFilters(r: Record<string, unknown>, filters: RetrievalFilters): boolean {
+    const { date, docType } = describe(r);
+    const day = date.slice(0, 10);
+    if (filters.dateFrom && !(day && day >= filters.dateFrom)) return false;
+    if (filters.dateTo && !(day && day <= filters.dateTo)) return false;
+    if (filters.documentTypes && !filters.documentTypes.some((t) => t === (FILTER_TYPE[docType] ?? docType))) return false;
+    if (filters.doctor && !names(r._doctors).some((words) => words.includes(filters.doctor!))) return false;
+    if (filters.institution && !names(r._institutions).some((words) => words.includes(filters.institution!))) return false;
+    if (filters.analytes && docType === "Lab") {
+        const reported = (r._loincs as string[] | undefined) ?? [];
+        if (!filters.analytes.some((loinc) => reported.includes(loinc))) return false;
+    }
+    return true;
+}
+
+/** Each name as its lowercase words: "Dr. S.K. Rao" → ["dr", "s", "k", "rao"] */
+function names(value: unknown): string[][] {
+    return Array.isArray(value)
+        ? value.map((name) => String(name).toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean))
+        : [];
+}
+
+/** DynamoDB entries carry labelled sections; synthetic and FHIR resources are one block of text */
+function sectionsOf(r: Record<string, unknown>): RecordSection[] {
+    if (Array.isArray(r._sections)) return r._sections as RecordSection[];
+    return [{ heading: "", text: (r._content as string) || JSON.stringify(r) }];
+}
+
+function indexFor(patientId: string, resources: Record<string, unknown>[]): PatientIndex {
+    const cached = _indexCache.get(patientId);
+    if (cached && cached.resources === resources) return cached;
+
+    const chunks: RecordChunk[] = [];
+    const documents: string[] = [];
+    for (const r of resources) {
+        const { entryId, title } = describe(r);
+        for (const chunk of chunkRecord(entryId, sectionsOf(r))) {
+            chunks.push(chunk);
+            // The title is indexed with every chunk: "HbA1c" in a title says what the numbers are
+            documents.push(`${title}\n${chunk.text}`);
+        }
+    }
+    const index: PatientIndex = {
+        resources,
+        chunks,
+        bm25: buildBm25Index(documents.map(tokenize)),
+        vectors: embedTexts(documents).catch((err) => {
+            console.warn("[RAG Retriever] Embedding failed, ranking by BM25 only:", (err as Error).message);
+            return null;
+        }),
+    };
+    _indexCache.set(patientId, index);
+    return index;
+}
+
+async function embedQuery(query: string): Promise<Float32Array | null> {
+    try {
+        return (await embedTexts([query]))[0];
+    } catch {
+        return null; // already reported by the index build, or BM25 carries the query alone
+    }
+}
+
+/** Rank (0 = best) of each qualifying chunk, by descending score */
+function ranking(scores: number[], qualifies: (score: number) => boolean, limit = Infinity): Map<number, number> {
+    const order = scores
+        .map((score, i) => ({ score, i }))
+        .filter((x) => qualifies(x.score))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    return new Map(order.map((x, rank) => [x.i, rank]));
+}
+
 async function fetchAllResources(patientId: string): Promise<Record<string, unknown>[]> {
     // Serve from cache if fresh — prevents N DynamoDB calls per QUERY_PLAN sub-query
     const cached = _resourceCache.get(patientId);
@@ -153,7 +342,11 @@ async function fetchAllResources(patientId: string): Promise<Record<string, unkn
     // HealthLake ($0.27/hr datastore fee) has been removed — delete the datastore
     // in the AWS Console (HealthLake → Data stores → Delete) to stop billing.
     // To re-enable FHIR: uncomment the healthlake import and the block below.
-    const resources = await fetchDynamoRecords(patientId);
+    const [records, adherence] = await Promise.all([
+        fetchDynamoRecords(patientId),
+        fetchAdherenceResources(patientId),
+    ]);
+    const resources = [...records, ...adherence];
 
     _resourceCache.set(patientId, { resources, ts: Date.now() });
     return resources;
@@ -173,67 +366,172 @@ async function fetchDynamoRecords(patientId: string): Promise<Record<string, unk
                 Limit: 150,
             })
         );
-        return (result.Items ?? []).map((item) => {
+        const items = result.Items ?? [];
+        const resources = items.map((item) => {
             const meta: Record<string, unknown> = (item.metadata as Record<string, unknown>) ?? {};
-            // Build rich content from structured metadata for better keyword matching
-            const parts: string[] = [];
-            if (meta.summary) parts.push(`Summary: ${meta.summary}`);
-            if (meta.rawText) parts.push((meta.rawText as string).slice(0, 800));
+            // One section per structured field, then the full report text —
+            // chunked at index time, so nothing is cut off here
+            const sections: RecordSection[] = [];
+            const add = (heading: string, text: unknown) => {
+                if (typeof text === "string" && text.trim()) sections.push({ heading, text });
+            };
+            add("Summary", meta.summary);
             if (Array.isArray(meta.medications) && meta.medications.length)
-                parts.push(`Medications: ${(meta.medications as { name?: string }[]).map((m) => m.name).filter(Boolean).join(", ")}`);
+                add("Medications", (meta.medications as { name?: string; generic?: string }[])
+                    .filter((m) => m.name)
+                    .map((m) => (m.generic ? `${m.name} (${m.generic})` : m.name))
+                    .join(", "));
             if (Array.isArray(meta.diagnoses) && meta.diagnoses.length)
-                parts.push(`Diagnoses: ${(meta.diagnoses as string[]).join(", ")}`);
+                add("Diagnoses", (meta.diagnoses as string[]).join(", "));
             if (Array.isArray(meta.labTests) && meta.labTests.length)
-                parts.push(`Lab Tests: ${(meta.labTests as { name?: string; value?: string; unit?: string; status?: string }[]).map((t) => `${t.name}: ${t.value ?? ""}${t.unit ?? ""} (${t.status ?? ""})`).join(", ")}`);
-            if (meta.findings) parts.push(`Findings: ${meta.findings}`);
-            if (meta.impression) parts.push(`Impression: ${meta.impression}`);
-            if (meta.chiefComplaint) parts.push(`Chief Complaint: ${meta.chiefComplaint}`);
-            if (meta.treatmentPlan) parts.push(`Treatment Plan: ${meta.treatmentPlan}`);
+                add("Lab Tests", (meta.labTests as LabTestResult[]).map(labLine).join(", "));
+            add("Findings", meta.findings);
+            add("Impression", meta.impression);
+            add("Chief Complaint", meta.chiefComplaint);
+            add("Treatment Plan", meta.treatmentPlan);
             if (Array.isArray(meta.allergies) && meta.allergies.length)
-                parts.push(`Allergies: ${(meta.allergies as string[]).join(", ")}`);
+                add("Allergies", (meta.allergies as string[]).join(", "));
             if (Array.isArray(meta.vitals) && meta.vitals.length)
-                parts.push(`Vitals: ${JSON.stringify(meta.vitals).slice(0, 200)}`);
-            if (meta.dischargeInstructions) parts.push(`Discharge Instructions: ${meta.dischargeInstructions}`);
+                add("Vitals", JSON.stringify(meta.vitals).slice(0, 200));
+            add("Discharge Instructions", meta.dischargeInstructions);
             if (Array.isArray(meta.advice) && meta.advice.length)
-                parts.push(`Advice: ${(meta.advice as string[]).join("; ")}`);
+                add("Advice", (meta.advice as string[]).join("; "));
+            add("Report text", meta.rawText);
+
+            // Who and where, for filters — every name the record gives
+            const all = (...values: unknown[]) => values
+                .flatMap((v) => (Array.isArray(v) ? v : [v]))
+                .filter((v): v is string => typeof v === "string" && v.trim() !== "");
+            const people = all(item.doctorName, meta.doctors, meta.referredBy, meta.radiologist, meta.surgeons);
+            const places = all(item.sourceInstitution, meta.institutions, meta.labName);
+            const loincs = Array.isArray(meta.labTests)
+                ? (meta.labTests as LabTestResult[]).map((t) => t.loinc ?? findAnalyte(t.name)?.loinc)
+                : [];
 
             return {
                 id: item.entryId as string,
                 resourceType: item.documentType as string,
                 description: item.title as string,
                 date: item.date as string,
-                _content: parts.join("\n").slice(0, 1500),
-                _institution: item.sourceInstitution,
-                _doctor: item.doctorName,
+                _sections: sections,
+                _doctors: people,
+                _institutions: places,
+                _loincs: loincs.filter(Boolean),
                 _s3Key: item.encryptedBlobKey as string | undefined,
+                // Sealed in the browser — the server only sees the index fields
+                _sealed: !!item.encryptedMetadata,
                 _isDynamo: true,
             };
         });
+        const medications = currentMedicationsResource(items.map((item) => ({
+            entryId: item.entryId,
+            date: item.date,
+            title: item.title,
+            metadata: item.metadata,
+        })));
+        return medications ? [medications, ...resources] : resources;
     } catch (err) {
         console.warn("[retriever] DynamoDB fetch failed:", (err as Error).message);
         return [];
     }
 }
 
-function tokenize(text: string): Set<string> {
-    return new Set(
-        text
-            .toLowerCase()
-            .replace(/[^a-z0-9\s]/g, " ")
-            .split(/\s+/)
-            .filter((t) => t.length > 2 && !STOP_WORDS.has(t))
-    );
+/**
+ * "Glycated Hb: 53 mmol/mol = HbA1c 7 % (High)" — the canonical name and
+ * value ride along, so the model can compare results across labs.
+ */
+function labLine(t: LabTestResult): string {
+    const reported = `${t.name}: ${t.value ?? ""}${t.unit ? ` ${t.unit}` : ""}`;
+    const canonical = t.canonicalValue !== undefined && (t.canonicalName !== t.name || t.canonicalUnit !== t.unit)
+        ? ` = ${t.canonicalName} ${t.canonicalValue}${t.canonicalUnit ? ` ${t.canonicalUnit}` : ""}`
+        : "";
+    return `${reported}${canonical} (${t.status ?? ""})`;
+}
+
+/**
+ * The reconciled medication list as one resource, so "what am I taking
+ * now?" is answered from courses — not from whichever old prescription
+ * happens to score highest. Courses that ended in the last 90 days are
+ * listed with why, so "why was X stopped?" has an answer too.
+ */
+function currentMedicationsResource(sources: CourseSource[]): Record<string, unknown> | null {
+    const today = new Date().toISOString().split("T")[0];
+    const courses = reconcileMedications(sources, today);
+    if (courses.length === 0) return null;
+    const describe = (c: MedicationCourse) =>
+        [c.name, c.dosage, c.frequency, c.aliases.length ? `(also written as ${c.aliases.join(", ")})` : ""].filter(Boolean).join(" ");
+    const active = activeCourses(courses);
+    const ended = courses.filter((c) => c.status !== "active" && c.endDate && c.endDate >= addDaysIso(today, -90));
+
+    const parts = [`Current medications (reconciled from prescriptions, as of ${fmtDate(today)}):`];
+    if (active.length === 0) parts.push("No medication course is currently active.");
+    for (const c of active) {
+        parts.push(`- ${describe(c)}: since ${fmtDate(c.startDate)}, ${c.endDate ? `until ${fmtDate(c.endDate)}` : "ongoing"}.`);
+    }
+    if (ended.length > 0) {
+        parts.push("Recently ended courses:");
+        for (const c of ended) {
+            parts.push(`- ${describe(c)}: ${c.status} on ${fmtDate(c.endDate as string)}${c.statusReason ? ` — ${c.statusReason}` : ""}.`);
+        }
+    }
+    return {
+        id: "current-medications",
+        resourceType: "CURRENT_MEDICATIONS",
+        description: "Current medications",
+        date: today,
+        _content: parts.join("\n"),
+        _isDynamo: true,
+    };
 }
 
-function computeKeywordScore(queryTokens: Set<string>, docTokens: Set<string>): number {
-    if (queryTokens.size === 0) return 0;
-    let hits = 0;
-    for (const token of queryTokens) {
-        if (docTokens.has(token)) hits++;
+/**
+ * One synthetic resource per medicine summarising the last 30 days of
+ * dose tracking, so "did I miss any metformin doses last week?" has
+ * something to match. Dates are spelled out because the LLM answers
+ * from this text alone.
+ */
+async function fetchAdherenceResources(patientId: string): Promise<Record<string, unknown>[]> {
+    try {
+        const today = new Date().toISOString().split("T")[0];
+        const { records, summary } = await getAdherence(patientId, today, 30);
+        if (records.length === 0) return [];
+        const rate = (r: { taken: number; missed: number; percent: number | null }) =>
+            r.percent === null ? "no doses due" : `${r.taken} of ${r.taken + r.missed} doses taken (${r.percent}%)`;
+        const weekFrom = addDaysIso(today, -6);
+
+        return summary.medications.map((med) => {
+            const missedThisWeek = med.missedDoses.filter((d) => d.date >= weekFrom);
+            const missedList = (doses: { date: string; slot: string }[]) =>
+                doses.map((d) => `${fmtDate(d.date)} ${d.slot.toLowerCase()}`).join(", ");
+            const parts = [
+                `Medication adherence for ${med.medication} (dose tracking, as of ${fmtDate(today)}).`,
+                `Last 7 days: ${rate(med.weekly)}. Missed doses in the last 7 days: ${missedThisWeek.length ? missedList(missedThisWeek) : "none"}.`,
+                `Last 30 days: ${rate(med.monthly)}. Missed doses in the last 30 days: ${med.missedDoses.length ? missedList(med.missedDoses) : "none"}.`,
+            ];
+            if (med.missStreak > 0) parts.push(`The most recent ${med.missStreak} dose${med.missStreak === 1 ? " was" : "s were"} missed.`);
+            return {
+                id: `adherence-${med.medKey}`,
+                resourceType: "ADHERENCE",
+                description: `Medication adherence — ${med.medication}`,
+                date: today,
+                _content: parts.join("\n"),
+                _isDynamo: true,
+            };
+        });
+    } catch (err) {
+        console.warn("[retriever] Adherence fetch failed:", (err as Error).message);
+        return [];
     }
-    // Jaccard-ish: hits / union size, but capped for clinical terms
-    const union = queryTokens.size + docTokens.size - hits;
-    return union === 0 ? 0 : hits / Math.sqrt(union);
+}
+
+/** Lowercased words of any script (Devanagari keeps its vowel signs), minus stop words */
+function tokenize(text: string): string[] {
+    return text
+        .normalize("NFC")
+        .toLowerCase()
+        .replace(/[^\p{L}\p{M}\p{N}\s]/gu, " ")
+        .split(/\s+/)
+        .filter((t) => t.length > 2 && !STOP_WORDS.has(t));
 }
 
 function computeRecencyScore(
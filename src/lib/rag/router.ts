@@ -1,10 +1,13 @@
 // ============================================================
 // Agentic RAG — Query Router / Classifier
 // Classifies the user's query so the engine can pick the
-// optimal retrieval strategy without an LLM call.
+// optimal retrieval strategy without an LLM call, and reads the
+// record filters it names (see filters.ts).
 // ============================================================
 
 import type { ClassifiedQuery, QueryType } from "./types";
+import { extractFilters } from "./filters";
+import { localIsoDate } from "../utils/date";
 
 // --------------- Keyword Patterns ---------------
 
@@ -55,6 +58,7 @@ const MEDICAL_ENTITY_PATTERNS = [
 // --------------- Public API ---------------
 
 // Memoize results — classifyQuery is pure and often called 2-4× per QUERY_PLAN request.
+// Keyed by day too: "last month" means something else tomorrow.
 const _classifyCache = new Map<string, ClassifiedQuery>();
 
 /**
@@ -62,10 +66,13 @@ const _classifyCache = new Map<string, ClassifiedQuery>();
  * Pure CPU — no LLM call, so sub-millisecond. Results are memoized (2 000 entry LRU).
  */
 export function classifyQuery(queryText: string): ClassifiedQuery {
-    const prior = _classifyCache.get(queryText);
+    const today = localIsoDate();
+    const key = `${today}|${queryText}`;
+    const prior = _classifyCache.get(key);
     if (prior) return prior;
     const normalized = normalize(queryText);
     const entities = extractEntities(queryText);
+    const filters = extractFilters(queryText, today);
 
     for (const pattern of PATTERNS) {
         if (pattern.regex.test(queryText)) {
@@ -75,9 +82,10 @@ export function classifyQuery(queryText: string): ClassifiedQuery {
                 normalized,
                 entities,
                 complexity: pattern.complexity + (entities.length > 3 ? 1 : 0),
+                filters,
             };
             if (_classifyCache.size >= 2000) _classifyCache.delete(_classifyCache.keys().next().value!);
-            _classifyCache.set(queryText, result);
+            _classifyCache.set(key, result);
             return result;
         }
     }
@@ -89,9 +97,10 @@ export function classifyQuery(queryText: string): ClassifiedQuery {
         normalized,
         entities,
         complexity: 2,
+        filters,
     };
     if (_classifyCache.size >= 2000) _classifyCache.delete(_classifyCache.keys().next().value!);
-    _classifyCache.set(queryText, classified);
+    _classifyCache.set(key, classified);
     return classified;
 }
 
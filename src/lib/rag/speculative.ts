@@ -7,8 +7,9 @@
 // or simple queries while maintaining accuracy.
 // ============================================================
 
-import { complete, completeJSON } from "../llm/kimi";
+import { complete, completeJSON } from "../llm";
 import type { ScoredContext, SpeculativeResult } from "./types";
+import type { AssistantStage } from "../types/rag";
 
 // --------------- Prompts ---------------
 
@@ -41,12 +42,15 @@ If inaccurate, rewrite fully from the records.`;
 export async function speculateAndVerify(
     query: string,
     contexts: ScoredContext[],
-    conversationHistory: Array<{ role: "user" | "assistant"; content: string }> = []
+    conversationHistory: Array<{ role: "user" | "assistant"; content: string }> = [],
+    onStage?: (stage: Extract<AssistantStage, "drafting" | "verifying">) => void
 ): Promise<SpeculativeResult> {
     // Phase 1: speculative draft
     // In a production system this would be started before retrieval finishes.
+    onStage?.("drafting");
     const draftResult = await generateDraft(query, conversationHistory);
     const draft = draftResult.text;
+    const drafter = { provider: draftResult.provider, modelId: draftResult.model };
 
     if (contexts.length === 0) {
         // No context to verify against — return draft as-is
@@ -55,10 +59,12 @@ export async function speculateAndVerify(
             verified: draft.replace(" [SPECULATIVE]", ""),
             draftAccepted: true,
             groundingScore: 0.5,
+            ...drafter,
         };
     }
 
     // Phase 2: verify draft against retrieved contexts
+    onStage?.("verifying");
     const contextBlock = contexts
         .slice(0, 8)
         .map((c, i) => `[Source ${i + 1}] ${c.title} (${c.date}): ${c.content.slice(0, 350)}`)
@@ -80,7 +86,7 @@ export async function speculateAndVerify(
                 ].join("\n\n"),
             },
         ],
-        { temperature: 0.1, maxTokens: 1200 }
+        { task: "grounding", temperature: 0.1, maxTokens: 1200 }
     );
 
     if (!verifyResult.data) {
@@ -90,6 +96,7 @@ export async function speculateAndVerify(
             verified: draft.replace(" [SPECULATIVE]", ""),
             draftAccepted: true,
             groundingScore: 0.5,
+            ...drafter,
         };
     }
 
@@ -98,6 +105,7 @@ export async function speculateAndVerify(
         verified: verifyResult.data.finalAnswer || draft.replace(" [SPECULATIVE]", ""),
         draftAccepted: verifyResult.data.draftAccepted,
         groundingScore: verifyResult.data.groundingScore ?? 0.5,
+        ...(verifyResult.data.finalAnswer ? { provider: verifyResult.provider, modelId: verifyResult.model } : drafter),
     };
 }
 
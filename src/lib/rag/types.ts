@@ -3,6 +3,8 @@
 // ============================================================
 
 import type { RAGContext } from "../aws/bedrock";
+import type { AssistantStreamEvent } from "../types/rag";
+import type { DocumentTypeTag } from "../types/timeline";
 
 export type { RAGContext };
 
@@ -25,6 +27,8 @@ export interface ClassifiedQuery {
     entities: string[];
     /** Estimated complexity 1–5 */
     complexity: number;
+    /** Constraints the question names — dates, doctor, place, record type, tests */
+    filters: RetrievalFilters;
 }
 
 // --------------- Retrieval ---------------
@@ -32,10 +36,14 @@ export interface ClassifiedQuery {
 export interface ScoredContext extends RAGContext {
     /** Combined retrieval score 0–1 */
     score: number;
-    /** BM25-style keyword overlap score 0–1 */
+    /** BM25 score of the record's best chunk, relative to the query's best match, 0–1 */
     keywordScore: number;
+    /** Embedding similarity of the record's best chunk (0 when embeddings are unavailable) */
+    semanticScore: number;
     /** Recency score 0–1 (more recent → higher) */
     recencyScore: number;
+    /** Sealed entry: only its title, type, date and source could be searched */
+    sealed?: boolean;
 }
 
 export interface RetrievalOptions {
@@ -45,8 +53,22 @@ export interface RetrievalOptions {
     minScore: number;
     /** Boost recency in ranking */
     recencyWeight: number;
-    /** Filter by specific doc types */
-    docTypeFilter?: string[];
+    /** Records outside these are dropped before scoring */
+    filters?: RetrievalFilters;
+}
+
+/** Every constraint given must hold for a record to be retrieved */
+export interface RetrievalFilters {
+    /** ISO dates, inclusive; a record with no date fails either */
+    dateFrom?: string;
+    dateTo?: string;
+    /** Lowercase surname, matched against a word of any doctor the record names */
+    doctor?: string;
+    /** Lowercase word, matched against a word of any institution or lab the record names */
+    institution?: string;
+    documentTypes?: DocumentTypeTag[];
+    /** LOINC codes — lab reports must include one; other records are unaffected */
+    analytes?: string[];
 }
 
 // --------------- Query Planning ---------------
@@ -137,6 +159,9 @@ export interface SpeculativeResult {
     /** Whether the draft was accepted without major changes */
     draftAccepted: boolean;
     groundingScore: number;
+    /** Provider and model of the call that wrote `verified` */
+    provider: string;
+    modelId: string;
 }
 
 // --------------- Engine ---------------
@@ -144,6 +169,7 @@ export interface SpeculativeResult {
 export interface RAGEngineOptions {
     patientId: string;
     queryText: string;
+    /** Earlier turns of the conversation, oldest first; follow-ups are resolved against them */
     conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>;
     /** Override strategy selection */
     forceStrategy?: RAGStrategy;
@@ -151,8 +177,15 @@ export interface RAGEngineOptions {
     topK?: number;
     /** Who is querying — controls prompt tone (clinical vs plain language) */
     userRole?: "PATIENT" | "DOCTOR";
+    /** Streaming callers get stage changes and answer tokens as they happen */
+    onProgress?: (event: RAGProgressEvent) => void;
+    /** Aborts the pipeline's model calls, e.g. when the client disconnects */
+    signal?: AbortSignal;
 }
 
+/** Stage and token events of a running query; the result still arrives as RAGEngineResult */
+export type RAGProgressEvent = Extract<AssistantStreamEvent, { type: "stage" | "token" }>;
+
 export interface RAGEngineResult {
     answer: string;
     contexts: ScoredContext[];
@@ -160,6 +193,7 @@ export interface RAGEngineResult {
     queryType: QueryType;
     confidence: number;
     groundingScore: number;
-    provider: "kimi" | "bedrock";
+    /** LLMResult.provider of the call that wrote the answer */
+    provider: string;
     modelId: string;
 }
@@ -0,0 +1,85 @@
+// ============================================================
+// Break-Glass alerts — sent through ConsoleSmsSender, with the
+// stores mocked, so nothing leaves the process.
+// ============================================================
+
+import { beforeAll, beforeEach, describe, expect, jest, test } from "@jest/globals";
+import { initiateBreakGlass } from "../access.service";
+import { ConsoleSmsSender, setSmsSender } from "../../aws/sns";
+import type { BreakGlassRequest, EmergencyContactInfo } from "../../types/emergency";
+
+let mockContacts: EmergencyContactInfo[] = [];
+const mockMarkNotified = jest.fn<(...args: unknown[]) => Promise<void>>(async () => {});
+
+jest.mock("uuid", () => ({ v4: () => "session-1" }));
+jest.mock("../../aws/dynamodb", () => ({
+    putBreakGlassSession: async () => {},
+    getEmergencyContacts: async () => mockContacts,
+    markBreakGlassNotified: (...args: unknown[]) => mockMarkNotified(...args),
+}));
+jest.mock("../../aws/cognito", () => ({
+    getPatientUser: async () => ({
+        UserAttributes: [
+            { Name: "phone_number", Value: "+919800000001" },
+            { Name: "name", Value: "Asha Rao" },
+        ],
+    }),
+}));
+jest.mock("../audit.service", () => ({ logAccess: async () => {}, emergencyActor: () => ({}) }));
+jest.mock("../notification.service", () => ({ notifyUser: async () => {} }));
+
+const request: BreakGlassRequest = {
+    patientId: "AS-0000-0000-0001",
+    credentials: { mciRegistrationNumber: "MCI-1", personnelName: "Dr. Iyer", institution: "City ER", designation: "Physician" },
+    geoLocation: { latitude: 12.97161, longitude: 77.59456, accuracy: 10, timestamp: "2025-03-01T10:00:00.000Z" },
+    reason: "Unconscious on arrival",
+};
+
+let sms: ConsoleSmsSender;
+
+beforeAll(() => {
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+beforeEach(() => {
+    sms = new ConsoleSmsSender();
+    setSmsSender(sms);
+    mockMarkNotified.mockClear();
+    mockContacts = [
+        { name: "Ravi Rao", relationship: "Spouse", phone: "+919800000002", notifyOnBreakGlass: true },
+        { name: "Meena Rao", relationship: "Sister", phone: "+919800000003", notifyOnBreakGlass: false },
+    ];
+});
+
+describe("initiateBreakGlass", () => {
+    test("alerts the patient and every opted-in contact", async () => {
+        const session = await initiateBreakGlass(request, ["bloodGroup"]);
+
+        expect(sms.sent.map((m) => m.phoneNumber)).toEqual(["+919800000001", "+919800000002"]);
+        expect(sms.sent[0].message).toContain("Your ArogyaSutra health records");
+        expect(sms.sent[1].message).toContain("Asha Rao's ArogyaSutra health records");
+        // Coarse location only
+        expect(sms.sent[0].message).toContain("near 12.97, 77.59");
+        expect(session).toMatchObject({ patientNotified: true, emergencyContactsNotified: true });
+        expect(mockMarkNotified).toHaveBeenCalledTimes(1);
+    });
+
+    test("records a failed send without blocking access", async () => {
+        setSmsSender({
+            async send(phoneNumber, message) {
+                if (phoneNumber.endsWith("0002")) throw new Error("Unreachable");
+                return sms.send(phoneNumber, message);
+            },
+        });
+
+        const session = await initiateBreakGlass(request, ["bloodGroup"]);
+
+        expect(session.isActive).toBe(true);
+        expect(session).toMatchObject({ patientNotified: true, emergencyContactsNotified: false });
+        expect(session.notifications).toEqual([
+            expect.objectContaining({ recipient: "PATIENT", phoneLast4: "0001", delivered: true }),
+            expect.objectContaining({ recipient: "EMERGENCY_CONTACT", phoneLast4: "0002", delivered: false, error: "Unreachable" }),
+        ]);
+    });
+});
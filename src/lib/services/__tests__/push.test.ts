@@ -0,0 +1,54 @@
+// ============================================================
+// Push fan-out — sent through ConsolePushSender over an
+// in-memory subscription store, so nothing leaves the process.
+// ============================================================
+
+import { beforeAll, beforeEach, describe, expect, jest, test } from "@jest/globals";
+import { pushToUser } from "../push.service";
+import { ConsolePushSender, setPushSender } from "../../push/sender";
+import type { StoredPushSubscription } from "../../types/notification";
+
+let mockSubscriptions: StoredPushSubscription[] = [];
+
+jest.mock("../../aws/dynamodb", () => ({
+    listPushSubscriptions: async () => mockSubscriptions,
+    deletePushSubscription: async (_userId: string, subscriptionId: string) => {
+        mockSubscriptions = mockSubscriptions.filter((s) => s.subscriptionId !== subscriptionId);
+    },
+}));
+
+const USER = "AS-0000-0000-0001";
+const MESSAGE = { title: "Time for your morning medicines", body: "2 doses due." };
+
+const subscription = (subscriptionId: string): StoredPushSubscription => ({
+    subscriptionId,
+    endpoint: `https://push.example/${subscriptionId}`,
+    keys: { p256dh: "p256dh", auth: "auth" },
+    createdAt: "2025-03-01T10:00:00.000Z",
+});
+
+let push: ConsolePushSender;
+
+beforeAll(() => {
+    jest.spyOn(console, "info").mockImplementation(() => {});
+});
+
+beforeEach(() => {
+    push = new ConsolePushSender();
+    setPushSender(push);
+    mockSubscriptions = [subscription("phone"), subscription("laptop")];
+});
+
+describe("pushToUser", () => {
+    test("sends to every registered device", async () => {
+        expect(await pushToUser(USER, MESSAGE)).toBe(2);
+        expect(push.sent.map((s) => s.endpoint)).toEqual(["https://push.example/phone", "https://push.example/laptop"]);
+    });
+
+    test("drops subscriptions the push service reports gone", async () => {
+        push.gone.add("https://push.example/laptop");
+
+        expect(await pushToUser(USER, MESSAGE)).toBe(1);
+        expect(mockSubscriptions.map((s) => s.subscriptionId)).toEqual(["phone"]);
+    });
+});
@@ -6,15 +6,18 @@
 import * as dynamodb from "../aws/dynamodb";
 import * as sns from "../aws/sns";
 import * as cognito from "../aws/cognito";
-import { wrapKeyWithPublic, importPublicKey } from "../crypto/rsaOaep";
+import { cryptoEngine } from "../crypto/engine";
 import { deriveEmergencyKey, encryptEmergencyData, decryptEmergencyData } from "../crypto/emergency";
-import { logAccess, doctorActor, emergencyActor } from "./audit.service";
-import type { StoredAccessGrant } from "../types/audit";
+import { logAccess, emergencyActor } from "./audit.service";
+import { notifyUser } from "./notification.service";
+import type { AccessLevel, AccessRequest, StoredAccessGrant } from "../types/audit";
 import type {
+    BreakGlassNotification,
     BreakGlassRequest,
-    BreakGlassResponse,
     BreakGlassSession,
+    EmergencyContactInfo,
     EmergencyData,
+    GeoLocation,
 } from "../types/emergency";
 import { v4 as uuidv4 } from "uuid";
 import { uploadEncryptedBlob, downloadEncryptedBlob, getEmergencyDataKey } from "../aws/s3";
@@ -23,114 +26,143 @@ import { serializeBlob, deserializeBlob } from "../crypto/aesGcm";
 const BREAKGLASS_DURATION_MINUTES = 5;
 
 // ---- Doctor Consent Flow ----
+//
+// 1. Doctor: requestDoctorAccess() with Card ID + DOB and this
+//    device's RSA public key → PENDING AccessRequest
+// 2. Patient: grantDoctorAccess() wraps the vault key for that
+//    public key and picks accessLevel + expiry → StoredAccessGrant
+//    (or denyAccessRequest())
+// 3. Doctor: fetchDoctorAccess() until a grant appears, then
+//    openGrantKey() to decrypt sealed entries
+// API routes enforce the grant on every read/append (lib/auth/guard).
+
+/** Expiry choices offered to the patient when approving */
+export const GRANT_EXPIRY_OPTIONS = [
+    { days: 1, label: "24 hours" },
+    { days: 7, label: "7 days" },
+    { days: 30, label: "30 days" },
+    { days: 90, label: "90 days" },
+] as const;
+
+async function readJson<T>(res: Response, fallback: string): Promise<T> {
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || fallback);
+    return data as T;
+}
 
 /**
- * Patient grants a doctor access to their records.
- * Wraps the Master Key with the doctor's RSA public key.
+ * Doctor asks a patient for access.
+ * @returns The existing grant if one is already active, else the pending request.
  */
-export async function grantDoctorAccess(
+export async function requestDoctorAccess(
     patientId: string,
-    patientName: string,
-    doctorId: string,
-    doctorName: string,
-    doctorMci: string,
+    dob: string,
     doctorPublicKeyBase64: string,
-    masterKey: CryptoKey,
-    expiresInDays?: number
-): Promise<StoredAccessGrant> {
-    // Import doctor's public key
-    const doctorPublicKey = await importPublicKey(doctorPublicKeyBase64);
-
-    // Wrap the patient's Master Key with doctor's public key
-    const wrappedKey = await wrapKeyWithPublic(masterKey, doctorPublicKey);
-
-    // Convert to Base64 for storage
-    const bytes = new Uint8Array(wrappedKey);
-    let binary = "";
-    for (let i = 0; i < bytes.byteLength; i++) {
-        binary += String.fromCharCode(bytes[i]);
-    }
-    const encryptedKeyBase64 = btoa(binary);
+    reason?: string,
+    accessLevel: AccessLevel = "READ_APPEND"
+): Promise<{ request?: AccessRequest; grant?: StoredAccessGrant }> {
+    const res = await fetch("/api/access/requests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ patientId, dob, publicKey: doctorPublicKeyBase64, reason, accessLevel }),
+    });
+    return readJson(res, "Could not send access request");
+}
 
-    const grant: StoredAccessGrant = {
-        grantId: uuidv4(),
-        patientId,
-        doctorId,
-        doctorName,
-        doctorMci: doctorMci,
-        accessLevel: "READ_APPEND",
-        encryptedAccessKey: encryptedKeyBase64,
-        grantedAt: new Date().toISOString(),
-        expiresAt: expiresInDays
-            ? new Date(Date.now() + expiresInDays * 86400000).toISOString()
-            : undefined,
-        isActive: true,
-    };
+/**
+ * Doctor polls for the outcome of their request(s) for a patient.
+ */
+export async function fetchDoctorAccess(
+    patientId: string
+): Promise<{ requests: AccessRequest[]; grant: StoredAccessGrant | null }> {
+    const res = await fetch(`/api/access/requests?patientId=${encodeURIComponent(patientId)}`);
+    return readJson(res, "Could not check access status");
+}
 
-    await dynamodb.putAccessGrant(grant);
+/** Doctor withdraws a pending request. */
+export async function cancelAccessRequest(patientId: string, requestId: string): Promise<void> {
+    const res = await fetch("/api/access/requests", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ patientId, requestId, status: "CANCELLED" }),
+    });
+    await readJson(res, "Could not cancel request");
+}
 
-    await logAccess(
-        patientId,
-        "DOCTOR_GRANT_ACCESS",
-        { type: "PATIENT", userId: patientId, name: patientName },
-        { doctorId, doctorMci: doctorMci }
-    );
+/** Patient lists every access request made for their records. */
+export async function listAccessRequests(patientId: string): Promise<AccessRequest[]> {
+    const res = await fetch(`/api/access/requests?patientId=${encodeURIComponent(patientId)}`);
+    const { requests } = await readJson<{ requests: AccessRequest[] }>(res, "Could not load access requests");
+    return requests;
+}
 
-    return grant;
+/** Patient declines a pending request. */
+export async function denyAccessRequest(patientId: string, requestId: string): Promise<void> {
+    const res = await fetch("/api/access/requests", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ patientId, requestId, status: "DENIED" }),
+    });
+    await readJson(res, "Could not decline request");
 }
 
 /**
- * Patient revokes a doctor's access.
+ * Patient approves a request.
+ * @param encryptedAccessKey  Vault key wrapped for request.doctorPublicKey
+ *                            (vault.service.shareVaultKey)
  */
-export async function revokeDoctorAccess(
-    grantId: string,
-    patientId: string,
-    patientName: string
-): Promise<void> {
-    await dynamodb.revokeAccessGrant(grantId);
+export async function grantDoctorAccess(
+    request: AccessRequest,
+    accessLevel: AccessLevel,
+    expiresInDays: number,
+    encryptedAccessKey: string
+): Promise<StoredAccessGrant> {
+    const res = await fetch("/api/access/grants", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+            patientId: request.patientId,
+            requestId: request.requestId,
+            accessLevel,
+            expiresInDays,
+            encryptedAccessKey,
+        }),
+    });
+    const { grant } = await readJson<{ grant: StoredAccessGrant }>(res, "Could not grant access");
+    return grant;
+}
 
-    await logAccess(
-        patientId,
-        "DOCTOR_REVOKE_ACCESS",
-        { type: "PATIENT", userId: patientId, name: patientName },
-        { grantId }
-    );
+/** Patient revokes a doctor's access. Takes effect on the doctor's next request. */
+export async function revokeDoctorAccess(grantId: string): Promise<void> {
+    const res = await fetch(`/api/access/grants?grantId=${encodeURIComponent(grantId)}`, {
+        method: "DELETE",
+    });
+    await readJson(res, "Could not revoke access");
 }
 
-/**
- * Lists active access grants for a patient.
- */
-export async function listPatientGrants(
-    patientId: string
-): Promise<StoredAccessGrant[]> {
-    return dynamodb.listPatientGrants(patientId);
+/** Lists active access grants on a patient's records. */
+export async function listPatientGrants(patientId: string): Promise<StoredAccessGrant[]> {
+    const res = await fetch(`/api/access/grants?patientId=${encodeURIComponent(patientId)}`);
+    const { grants } = await readJson<{ grants: StoredAccessGrant[] }>(res, "Could not load access grants");
+    return grants;
 }
 
-/**
- * Lists patients a doctor has access to.
- */
-export async function listDoctorGrants(
-    doctorId: string
-): Promise<StoredAccessGrant[]> {
-    return dynamodb.listDoctorGrants(doctorId);
+/** Lists the calling doctor's active grants across patients. */
+export async function listDoctorGrants(): Promise<StoredAccessGrant[]> {
+    const res = await fetch("/api/access/grants");
+    const { grants } = await readJson<{ grants: StoredAccessGrant[] }>(res, "Could not load access grants");
+    return grants;
 }
 
 /**
- * Checks if a doctor has active access to a patient.
+ * Doctor recovers the patient's vault key from a grant.
+ * Fails if the grant was wrapped for a different device's key pair.
  */
-export async function checkDoctorAccess(
-    doctorId: string,
-    patientId: string
-): Promise<StoredAccessGrant | null> {
-    const grants = await dynamodb.listDoctorGrants(doctorId);
-    return (
-        grants.find(
-            (g) =>
-                g.patientId === patientId &&
-                g.isActive &&
-                (!g.expiresAt || new Date(g.expiresAt) > new Date())
-        ) || null
-    );
+export async function openGrantKey(
+    grant: StoredAccessGrant,
+    doctorPrivateKey: CryptoKey
+): Promise<CryptoKey> {
+    return cryptoEngine.openGrantKey(grant.encryptedAccessKey, doctorPrivateKey);
 }
 
 // ---- Break-Glass Emergency Protocol ----
@@ -175,15 +207,19 @@ export async function saveEmergencyData(
  *
  * 1. Validates MCI credentials
  * 2. Captures geolocation
- * 3. Creates timed session (countdown)
- * 4. Retrieves emergency data
- * 5. Notifies patient + emergency contacts
+ * 3. Persists the timed session — the server, not the client
+ *    countdown, decides when it ends
+ * 4. SMS-alerts the patient + opted-in emergency contacts and
+ *    records delivery on the session (copied to the closing log)
+ * 5. Leaves an in-app notification for the patient
  *
- * @returns Break-Glass response with emergency data + countdown
+ * @param accessedData  Emergency fields the responder will be shown
+ * @returns The stored session; callers load the emergency data
  */
 export async function initiateBreakGlass(
-    request: BreakGlassRequest
-): Promise<BreakGlassResponse> {
+    request: BreakGlassRequest,
+    accessedData: string[]
+): Promise<BreakGlassSession> {
     // 1. Validate MCI credentials (would call an external MCI registry in production)
     // For now, verify the doctor exists in Cognito's doctor pool
     try {
@@ -205,18 +241,20 @@ export async function initiateBreakGlass(
         patientId: request.patientId,
         personnelCredentials: request.credentials,
         geoLocation: request.geoLocation,
+        reason: request.reason,
         startedAt: new Date().toISOString(),
         expiresAt: new Date(
             Date.now() + BREAKGLASS_DURATION_MINUTES * 60 * 1000
         ).toISOString(),
         durationMinutes: BREAKGLASS_DURATION_MINUTES,
         isActive: true,
-        accessedData: ["blood_group", "allergies", "critical_medications", "active_conditions"],
+        accessedData,
+        patientNotified: false,
+        emergencyContactsNotified: false,
     };
 
     await dynamodb.putBreakGlassSession(session);
 
-    // 4. Log the access
     await logAccess(
         request.patientId,
         "BREAKGLASS_INITIATE",
@@ -224,53 +262,87 @@ export async function initiateBreakGlass(
         {
             institution: request.credentials.institution,
             reason: request.reason,
+            accessedData: accessedData.join(","),
             lat: String(request.geoLocation.latitude),
             lng: String(request.geoLocation.longitude),
         },
         session.sessionId
     );
 
-    // 5. Notify patient (best-effort, don't fail if notification fails)
+    // 4. Notify patient + opted-in contacts (best-effort, never blocks access)
     try {
-        const patientUser = await cognito.getPatientUser(request.patientId);
-        const phone = patientUser.UserAttributes?.find(
-            (a) => a.Name === "phone_number"
-        )?.Value;
-        if (phone) {
-            await sns.sendBreakGlassNotification(
-                phone,
-                request.credentials.personnelName,
-                request.credentials.institution,
-                `${request.geoLocation.latitude}, ${request.geoLocation.longitude}`
-            );
-        }
-    } catch {
-        console.error("Failed to notify patient of Break-Glass access");
+        Object.assign(session, await notifyBreakGlass(session));
+        await dynamodb.markBreakGlassNotified(session.sessionId, session);
+    } catch (err) {
+        console.error("Failed to notify Break-Glass access:", err);
     }
+    await notifyUser(session.patientId, {
+        type: "BREAK_GLASS_ACCESSED",
+        patientId: session.patientId,
+        sessionId: session.sessionId,
+        personnelName: request.credentials.personnelName,
+        institution: request.credentials.institution,
+    });
 
-    // 6. Return emergency data placeholder (actual decryption requires
-    // the emergency key, which is derived from the Master Key)
-    const emergencyData: EmergencyData = {
-        patientId: request.patientId,
-        bloodGroup: "Unknown",
-        allergies: [],
-        criticalMedications: [],
-        activeConditions: [],
-        emergencyContacts: [],
-        updatedAt: new Date().toISOString(),
-    };
+    return session;
+}
+
+/**
+ * SMS the patient and every emergency contact with notifyOnBreakGlass set.
+ * Each send is independent; failures are recorded, not thrown.
+ */
+async function notifyBreakGlass(
+    session: BreakGlassSession
+): Promise<Pick<BreakGlassSession, "patientNotified" | "emergencyContactsNotified" | "notifications">> {
+    const patientUser = await cognito.getPatientUser(session.patientId).catch(() => null);
+    const attrs = patientUser?.UserAttributes ?? [];
+    const patientPhone = attrs.find((a) => a.Name === "phone_number")?.Value;
+    const patientName = attrs.find((a) => a.Name === "name")?.Value || session.patientId;
 
+    const contacts = (await dynamodb.getEmergencyContacts(session.patientId)) as EmergencyContactInfo[];
+    const recipients = [
+        ...(patientPhone ? [{ recipient: "PATIENT" as const, name: patientName, phone: patientPhone }] : []),
+        ...contacts
+            .filter((c) => c.notifyOnBreakGlass && c.phone)
+            .map((c) => ({ recipient: "EMERGENCY_CONTACT" as const, name: c.name, phone: c.phone })),
+    ];
+
+    const { personnelName, institution } = session.personnelCredentials;
+    const location = approximateLocation(session.geoLocation);
+
+    const notifications = await Promise.all(recipients.map(async (r): Promise<BreakGlassNotification> => {
+        const base = { recipient: r.recipient, name: r.name, phoneLast4: r.phone.slice(-4), sentAt: new Date().toISOString() };
+        try {
+            const messageId = await sns.sendBreakGlassNotification(r.phone, {
+                personnelName,
+                institution,
+                location,
+                durationMinutes: session.durationMinutes,
+                patientName: r.recipient === "EMERGENCY_CONTACT" ? patientName : undefined,
+            });
+            return { ...base, delivered: true, messageId };
+        } catch (err) {
+            return { ...base, delivered: false, error: (err as Error).message };
+        }
+    }));
+
+    const toContacts = notifications.filter((n) => n.recipient === "EMERGENCY_CONTACT");
     return {
-        sessionId: session.sessionId,
-        emergencyData,
-        expiresAt: session.expiresAt,
-        durationMinutes: BREAKGLASS_DURATION_MINUTES,
-        countdownStartedAt: session.startedAt,
+        patientNotified: notifications.some((n) => n.recipient === "PATIENT" && n.delivered),
+        emergencyContactsNotified: toContacts.length > 0 && toContacts.every((n) => n.delivered),
+        notifications,
     };
 }
 
+/** ~1 km precision — enough to say where, without the exact fix */
+function approximateLocation(geo: GeoLocation): string {
+    return `${geo.latitude.toFixed(2)}, ${geo.longitude.toFixed(2)}`;
+}
+
 /**
  * Checks if an active Break-Glass session exists and is still valid.
+ * Called on every emergency read; a session past its expiry is closed here
+ * if the sweeper has not got to it yet.
  */
 export async function validateBreakGlassSession(
     sessionId: string
@@ -279,26 +351,77 @@ export async function validateBreakGlassSession(
     if (!session) return null;
     if (!session.isActive) return null;
     if (new Date(session.expiresAt) <= new Date()) {
-        // Expired — mark as inactive
-        await dynamodb.expireBreakGlassSession(sessionId);
+        await closeBreakGlassSession(session, "expired");
         return null;
     }
     return session;
 }
 
 /**
- * Manually ends a Break-Glass session.
+ * Ends a Break-Glass session at the responder's request.
+ * @returns false if the session does not exist or was already closed.
  */
 export async function endBreakGlassSession(
-    sessionId: string,
-    patientId: string
-): Promise<void> {
-    await dynamodb.expireBreakGlassSession(sessionId);
+    sessionId: string
+): Promise<boolean> {
+    const session = await dynamodb.getBreakGlassSession(sessionId);
+    if (!session || !session.isActive) return false;
+    const expired = new Date(session.expiresAt) <= new Date();
+    return closeBreakGlassSession(session, expired ? "expired" : "ended");
+}
 
-    await logAccess(
-        patientId,
-        "BREAKGLASS_EXPIRE",
-        { type: "SYSTEM", userId: "system", name: "System" },
-        { sessionId, reason: "manual_or_auto_expiry" }
-    );
+/**
+ * Closes every session that timed out without being ended.
+ * Meant to run on a schedule (see /api/emergency/sweep).
+ * @returns Number of sessions closed by this run.
+ */
+export async function sweepExpiredBreakGlassSessions(): Promise<number> {
+    const expired = await dynamodb.listExpiredBreakGlassSessions(new Date().toISOString());
+    let closed = 0;
+    for (const session of expired) {
+        try {
+            if (await closeBreakGlassSession(session, "expired")) closed++;
+        } catch (err) {
+            console.error(`Failed to close Break-Glass session ${session.sessionId}:`, err);
+        }
+    }
+    return closed;
+}
+
+/**
+ * Marks the session inactive and writes its closing BreakGlassLog.
+ * Returns false when another caller closed it first.
+ */
+async function closeBreakGlassSession(
+    session: BreakGlassSession,
+    endReason: "ended" | "expired"
+): Promise<boolean> {
+    // An expired session ends at its deadline, however late it is swept
+    const endedAt = endReason === "expired" ? session.expiresAt : new Date().toISOString();
+    try {
+        await dynamodb.expireBreakGlassSession(session.sessionId, endedAt);
+    } catch (err) {
+        if ((err as Error).name === "ConditionalCheckFailedException") return false;
+        throw err;
+    }
+
+    await dynamodb.putBreakGlassLog({
+        logId: uuidv4(),
+        sessionId: session.sessionId,
+        patientId: session.patientId,
+        personnelMci: session.personnelCredentials.mciRegistrationNumber,
+        personnelName: session.personnelCredentials.personnelName,
+        institution: session.personnelCredentials.institution,
+        geoLocation: session.geoLocation,
+        reason: session.reason,
+        startedAt: session.startedAt,
+        endedAt,
+        endReason,
+        durationMinutes: session.durationMinutes,
+        dataAccessed: session.accessedData,
+        patientNotified: session.patientNotified ?? false,
+        emergencyContactsNotified: session.emergencyContactsNotified ?? false,
+        notifications: session.notifications ?? [],
+    });
+    return true;
 }
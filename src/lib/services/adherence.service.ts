@@ -0,0 +1,133 @@
+// ============================================================
+// Adherence Service
+// Server side: register scheduled doses, mark them taken, and
+// roll a window of records — plus the doses the reconciled
+// courses expected — up into an AdherenceSummary.
+// Client side: the dashboard's calls to /api/adherence.
+// ============================================================
+
+import * as dynamodb from "../aws/dynamodb";
+import { doseId, expectedDoses, medKey, summarizeAdherence, withExpectedDoses } from "../utils/adherence";
+import { addDaysIso, localIsoDate } from "../utils/date";
+import type { ScheduledMed, TimeSlot } from "../utils/medSchedule";
+import { getMedicationList } from "./medication.service";
+import type { AdherenceSummary, DoseRecord, ScheduledDoseInput } from "../types/adherence";
+
+export const DEFAULT_WINDOW_DAYS = 30;
+
+export interface AdherenceReport {
+    records: DoseRecord[];
+    summary: AdherenceSummary;
+}
+
+// ---- Server ----
+
+export async function registerScheduledDoses(
+    patientId: string,
+    date: string,
+    doses: ScheduledDoseInput[],
+    recordedBy: string
+): Promise<void> {
+    const updatedAt = new Date().toISOString();
+    await dynamodb.registerDoses(doses.map((d) => ({
+        patientId,
+        doseId: doseId(date, d.slot, d.medication),
+        date,
+        slot: d.slot,
+        medication: d.medication,
+        medKey: medKey(d.medication),
+        ...(d.sourceEntryId && { sourceEntryId: d.sourceEntryId }),
+        recordedBy,
+        updatedAt,
+    })));
+}
+
+export async function recordDose(
+    patientId: string,
+    dose: { date: string; slot: string; medication: string; taken: boolean },
+    recordedBy: string
+): Promise<void> {
+    await dynamodb.setDoseStatus({
+        patientId,
+        doseId: doseId(dose.date, dose.slot, dose.medication),
+        date: dose.date,
+        slot: dose.slot,
+        medication: dose.medication,
+        medKey: medKey(dose.medication),
+        status: dose.taken ? "taken" : "pending",
+        recordedBy,
+        updatedAt: new Date().toISOString(),
+    });
+}
+
+/**
+ * Records and rollup for the `days` up to and including `today`. Doses
+ * the server-readable courses call for count even on days the
+ * dashboard never registered them; sealed prescriptions are only
+ * seen through the dashboard's registrations.
+ */
+export async function getAdherence(
+    patientId: string,
+    today: string,
+    days: number = DEFAULT_WINDOW_DAYS
+): Promise<AdherenceReport> {
+    const from = addDaysIso(today, -(days - 1));
+    const [stored, firstDate, { courses }] = await Promise.all([
+        dynamodb.listDoseRecords(patientId, from, today),
+        dynamodb.firstDoseDate(patientId),
+        getMedicationList(patientId, today),
+    ]);
+    // Tracking starts with the first registered dose; before that a
+    // course's doses are unknown rather than missed
+    const start = firstDate && firstDate > from ? firstDate : from;
+    const records = firstDate
+        ? withExpectedDoses(stored, expectedDoses(courses, start, today), patientId)
+        : stored;
+    return { records, summary: summarizeAdherence(records, today, days) };
+}
+
+// ---- Client ----
+
+async function readJson<T>(res: Response, fallback: string): Promise<T> {
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || fallback);
+    return data as T;
+}
+
+let lastRegistered = "";
+
+/**
+ * Register today's schedule (from buildTodaySchedule) so doses that are
+ * never ticked count as missed. Skips the request when nothing changed.
+ */
+export async function syncTodayDoses(patientId: string, bySlot: Map<TimeSlot, ScheduledMed[]>): Promise<void> {
+    const date = localIsoDate();
+    const doses: ScheduledDoseInput[] = [...bySlot].flatMap(([slot, meds]) =>
+        meds.map((med) => ({ slot, medication: med.name, sourceEntryId: med.sourceEntryId })));
+    const signature = JSON.stringify({ patientId, date, doses });
+    if (doses.length === 0 || signature === lastRegistered) return;
+
+    const res = await fetch("/api/adherence", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ patientId, date, doses }),
+    });
+    await readJson(res, "Failed to register today's doses");
+    lastRegistered = signature;
+}
+
+/** Mark one of today's doses taken (or undo it). */
+export async function markDose(patientId: string, slot: TimeSlot, medication: string, taken: boolean): Promise<void> {
+    const res = await fetch("/api/adherence", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ patientId, date: localIsoDate(), slot, medication, taken }),
+    });
+    await readJson(res, "Failed to record the dose");
+}
+
+export async function fetchAdherence(patientId: string, days: number = DEFAULT_WINDOW_DAYS): Promise<AdherenceReport> {
+    const qs = new URLSearchParams({ patientId, days: String(days), today: localIsoDate() });
+    const res = await fetch(`/api/adherence?${qs}`);
+    return readJson<AdherenceReport>(res, "Failed to load adherence");
+}
@@ -1,11 +1,13 @@
 // ============================================================
 // Authentication Service
-// Triple-layer auth: Card ID → DOB → OTP
+// Triple-layer auth: Card ID → DOB → OTP, then vault unlock.
+// The OTP only gates the Cognito session; data keys come from
+// the vault (vault.service.ts).
 // ============================================================
 
 import * as cognito from "../aws/cognito";
 import * as sns from "../aws/sns";
-import { deriveMasterKey } from "../crypto/keyDerivation";
+import { fetchVaultKey } from "./vault.service";
 import { logAccess, patientActor } from "./audit.service";
 import type {
     AuthState,
@@ -15,6 +17,7 @@ import type {
     LockStatus,
 } from "../types/auth";
 import type { Patient } from "../types/patient";
+import type { WrappedVaultKey } from "../types/crypto";
 
 const MAX_ATTEMPTS = 3;
 const LOCK_DURATION_MINUTES = 30;
@@ -141,7 +144,8 @@ export async function sendOTP(cardId: string): Promise<OTPChallenge> {
 }
 
 /**
- * Step 3b: Verify OTP and derive Master Key.
+ * Step 3b: Verify OTP. Establishes the Cognito session and fetches the
+ * wrapped vault key — the caller unlocks it with the vault secret.
  */
 export async function verifyOTP(
     cardId: string,
@@ -162,12 +166,15 @@ export async function verifyOTP(
             { USERNAME: cardId, ANSWER: otp }
         );
 
-        currentSession.state = "AUTHENTICATED";
-        console.log("[verifyOTP] Cognito challenge succeeded, deriving master key...");
+        currentSession.state = "VAULT_LOCKED";
+        console.log("[verifyOTP] Cognito challenge succeeded, logging access...");
 
-        // Derive the ephemeral Master Key (NEVER stored)
-        const masterKey = await deriveMasterKey(cardId, otp);
-        console.log("[verifyOTP] Master key derived, logging access...");
+        // Exchange the tokens for HttpOnly session cookies — every /api
+        // route derives the caller's identity from them
+        await establishSession(
+            result.AuthenticationResult?.IdToken || "",
+            result.AuthenticationResult?.RefreshToken
+        );
 
         // Log successful login (non-blocking — may fail client-side)
         try {
@@ -217,6 +224,17 @@ export async function verifyOTP(
             };
         }
 
+        // Wrapped vault key — ciphertext only; unlocking needs the vault secret
+        let vault: WrappedVaultKey | null;
+        try {
+            vault = await fetchVaultKey(cardId);
+        } catch (vaultErr) {
+            // Don't let a transient failure look like "no vault" — that would
+            // offer to create a second DEK and orphan existing records
+            console.error("[verifyOTP] Vault lookup failed:", vaultErr);
+            throw new Error("AUTH_VAULT_UNAVAILABLE: Could not reach your record vault. Please try again.");
+        }
+
         return {
             patient,
             tokens: {
@@ -231,13 +249,22 @@ export async function verifyOTP(
                     (result.AuthenticationResult?.ExpiresIn || 3600) * 1000
                 ).toISOString(),
             },
-            masterKey, // Ephemeral — stays in memory
+            vault,
             isNewDevice: true,
             biometricAvailable:
                 typeof window !== "undefined" &&
                 !!window.PublicKeyCredential,
         };
     } catch (error) {
+        // OTP was accepted — a server outage must not count as a failed attempt
+        if (
+            error instanceof Error &&
+            (error.message.startsWith("AUTH_VAULT_UNAVAILABLE") ||
+                error.message.startsWith("AUTH_SESSION_UNAVAILABLE"))
+        ) {
+            throw error;
+        }
+
         currentSession.failedAttempts++;
         if (currentSession.failedAttempts >= MAX_ATTEMPTS) {
             lockAccount(currentSession);
@@ -296,11 +323,48 @@ export async function logout(cardId: string): Promise<void> {
         "LOGOUT",
         patientActor(cardId, cardId)
     );
+    await endSession();
     currentSession = null;
 }
 
+/**
+ * Clear the server session cookie. Safe to call when none is set.
+ */
+export async function endSession(): Promise<void> {
+    try {
+        await fetch("/api/auth/session", { method: "DELETE" });
+    } catch {
+        // Cookie expires with the token anyway
+    }
+}
+
+/**
+ * False once the server session is over — the ID token expired and the
+ * refresh token no longer works. Offline or server errors count as
+ * alive, so a flaky connection never signs anyone out.
+ */
+export async function checkSession(): Promise<boolean> {
+    try {
+        const res = await fetch("/api/auth/session");
+        return res.status !== 401;
+    } catch {
+        return true;
+    }
+}
+
 // ---- Internal Helpers ----
 
+async function establishSession(idToken: string, refreshToken?: string): Promise<void> {
+    const res = await fetch("/api/auth/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ idToken, refreshToken }),
+    }).catch(() => null);
+    if (!res?.ok) {
+        throw new Error("AUTH_SESSION_UNAVAILABLE: Could not start a secure session. Please try again.");
+    }
+}
+
 function generateOTP(): string {
     const array = new Uint32Array(1);
     crypto.getRandomValues(array);
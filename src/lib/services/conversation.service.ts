@@ -0,0 +1,170 @@
+// ============================================================
+// Conversation Service
+// Assistant conversations, stored per asking user and patient so
+// they survive reloads and any server instance can continue one.
+// The last few turns go to the RAG engine with each question, so
+// a follow-up resolves against what was just discussed.
+// ============================================================
+
+import * as dynamodb from "../aws/dynamodb";
+import type { ChatConversation, ChatMessage, ConversationSummary, RAGQuery, RAGResponse } from "../types/rag";
+import { v4 as uuidv4 } from "uuid";
+
+// Turns (a question and its answer) passed to the engine as history
+const HISTORY_TURNS = 4;
+// Older messages are dropped from storage past this many, or once the
+// conversation is near DynamoDB's 400 KB item limit — citations make
+// answers large, so the count alone doesn't keep it under
+const MAX_STORED_MESSAGES = 200;
+const MAX_STORED_BYTES = 350 * 1024;
+const TITLE_LENGTH = 80;
+
+function titleFrom(question: string): string {
+    const line = question.trim().replace(/\s+/g, " ");
+    return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line;
+}
+
+/** The newest messages that fit the storage caps, whole turns kept together */
+function storedMessages(messages: ChatMessage[]): ChatMessage[] {
+    let kept = messages.slice(-MAX_STORED_MESSAGES);
+    // The latest turn is always kept — one answer can't approach the limit
+    while (kept.length > 2 && new TextEncoder().encode(JSON.stringify(kept)).length > MAX_STORED_BYTES) {
+        kept = kept.slice(2);
+    }
+    return kept;
+}
+
+// ---- Server ----
+
+/**
+ * The conversation a question continues, or a new one. Best-effort:
+ * if the store can't be read, the question is answered without history.
+ */
+export async function openConversation(
+    userId: string,
+    patientId: string,
+    conversationId?: string
+): Promise<ChatConversation> {
+    if (conversationId) {
+        try {
+            const stored = await dynamodb.getConversation(userId, patientId, conversationId);
+            if (stored) return stored;
+        } catch (err) {
+            console.error(`Conversation ${conversationId} lookup failed:`, err);
+        }
+    }
+    const now = new Date().toISOString();
+    return {
+        conversationId: conversationId || uuidv4(),
+        userId,
+        patientId,
+        title: "",
+        messages: [],
+        startedAt: now,
+        lastMessageAt: now,
+    };
+}
+
+/** The last HISTORY_TURNS turns, as RAGEngineOptions.conversationHistory */
+export function historyFor(conversation: ChatConversation): { role: "user" | "assistant"; content: string }[] {
+    return conversation.messages
+        .slice(-HISTORY_TURNS * 2)
+        .map((m) => ({ role: m.role, content: m.content }));
+}
+
+/**
+ * Append a question and its answer and store the conversation.
+ * Best-effort: a failure is logged, never thrown — the answer has
+ * already been given.
+ */
+export async function recordTurn(conversation: ChatConversation, query: RAGQuery, response: RAGResponse): Promise<void> {
+    const question: ChatMessage = {
+        messageId: uuidv4(),
+        role: "user",
+        content: query.queryText,
+        timestamp: new Date().toISOString(),
+    };
+    const answer: ChatMessage = {
+        messageId: uuidv4(),
+        role: "assistant",
+        content: response.answer,
+        ...(response.citations.length > 0 && { citations: response.citations }),
+        timestamp: response.generatedAt,
+    };
+    try {
+        await dynamodb.saveConversation({
+            ...conversation,
+            title: conversation.title || titleFrom(query.queryText),
+            messages: storedMessages([...conversation.messages, question, answer]),
+            lastMessageAt: response.generatedAt,
+        });
+    } catch (err) {
+        console.error(`Failed to store conversation ${conversation.conversationId}:`, err);
+    }
+}
+
+export async function listConversations(userId: string, patientId: string): Promise<ConversationSummary[]> {
+    return dynamodb.listConversations(userId, patientId);
+}
+
+export async function getConversation(userId: string, patientId: string, conversationId: string): Promise<ChatConversation | null> {
+    return dynamodb.getConversation(userId, patientId, conversationId);
+}
+
+/** @returns false if the user has no such conversation */
+export async function renameConversation(
+    userId: string,
+    patientId: string,
+    conversationId: string,
+    title: string
+): Promise<boolean> {
+    try {
+        await dynamodb.renameConversation(userId, patientId, conversationId, titleFrom(title));
+        return true;
+    } catch (err) {
+        if ((err as Error).name === "ConditionalCheckFailedException") return false;
+        throw err;
+    }
+}
+
+export async function deleteConversation(userId: string, patientId: string, conversationId: string): Promise<void> {
+    await dynamodb.deleteConversation(userId, patientId, conversationId);
+}
+
+// ---- Client ----
+
+async function readJson<T>(res: Response, fallback: string): Promise<T> {
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || fallback);
+    return data as T;
+}
+
+function conversationUrl(patientId: string, conversationId?: string): string {
+    const path = conversationId ? `/${encodeURIComponent(conversationId)}` : "";
+    return `/api/assistant/conversations${path}?patientId=${encodeURIComponent(patientId)}`;
+}
+
+/** The signed-in user's conversations about a patient, most recent first. */
+export async function fetchConversations(patientId: string): Promise<ConversationSummary[]> {
+    const res = await fetch(conversationUrl(patientId));
+    return (await readJson<{ conversations: ConversationSummary[] }>(res, "Failed to load conversations")).conversations;
+}
+
+export async function fetchConversation(patientId: string, conversationId: string): Promise<ChatConversation> {
+    const res = await fetch(conversationUrl(patientId, conversationId));
+    return readJson<ChatConversation>(res, "Failed to load conversation");
+}
+
+export async function saveConversationTitle(patientId: string, conversationId: string, title: string): Promise<void> {
+    const res = await fetch(conversationUrl(patientId, conversationId), {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+    });
+    await readJson(res, "Failed to rename conversation");
+}
+
+export async function removeConversation(patientId: string, conversationId: string): Promise<void> {
+    const res = await fetch(conversationUrl(patientId, conversationId), { method: "DELETE" });
+    await readJson(res, "Failed to delete conversation");
+}
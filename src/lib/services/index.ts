@@ -6,3 +6,13 @@ export * as access from "./access.service";
 export * as rag from "./rag.service";
 export * as audit from "./audit.service";
 export * as dataExport from "./export.service";
+export * as vault from "./vault.service";
+export * as scanQueue from "./scanQueue.service";
+export * as notifications from "./notification.service";
+export * as push from "./push.service";
+export * as adherence from "./adherence.service";
+export * as medications from "./medication.service";
+export * as insights from "./insight.service";
+export * as conversations from "./conversation.service";
+export * as labs from "./lab.service";
+export * as trends from "./trend.service";
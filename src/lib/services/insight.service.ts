@@ -0,0 +1,174 @@
+// ============================================================
+// Insight Service
+// Stored, patient-facing health insights. The rules in
+// lib/insights find them; each has a stable id, so a repeat
+// finding refreshes the existing insight (keeping its read and
+// dismissed state) instead of stacking a new one, and one that
+// no longer holds is removed.
+// ============================================================
+
+import * as dynamodb from "../aws/dynamodb";
+import { generateInsights } from "../insights/engine";
+import { completeJSON } from "../llm";
+import { getPatientProfile } from "./lab.service";
+import type { HealthInsight } from "../types/rag";
+
+const SEVERITY_ORDER: Record<HealthInsight["severity"], number> = { alert: 0, warning: 1, info: 2 };
+
+// Checkups read per refresh — the same depth as the trend charts
+const CHECKUP_LIMIT = 120;
+
+// Set INSIGHT_PHRASING=llm to have the LLM reword new insights. It only
+// rephrases; the rules decide what is raised and with which values.
+const PHRASING_ENABLED = process.env.INSIGHT_PHRASING === "llm";
+
+export type InsightAction = "read" | "dismiss";
+
+// ---- Server ----
+
+/**
+ * Store insights for their patients. Best-effort: a failure is
+ * logged, never thrown — the save that raised them has succeeded.
+ */
+export async function raiseInsights(insights: HealthInsight[]): Promise<void> {
+    await Promise.all(insights.map((insight) =>
+        dynamodb.upsertInsight(insight).catch((err) => {
+            console.error(`Failed to store insight ${insight.insightId} for ${insight.patientId}:`, err);
+        })
+    ));
+}
+
+function ruleText(insight: HealthInsight): string {
+    return `${insight.title}\n${insight.description}`;
+}
+
+function numbersIn(text: string): Set<string> {
+    return new Set(text.match(/\d+(?:\.\d+)?/g) ?? []);
+}
+
+/**
+ * Reword insights for the patient. Wording already stored for the same
+ * rule text is reused; a rewording that drops or invents a number, or
+ * any LLM failure, keeps the rule's own text.
+ */
+async function phraseInsights(insights: HealthInsight[], stored: Map<string, HealthInsight>): Promise<HealthInsight[]> {
+    const pending: HealthInsight[] = [];
+    const result = insights.map((insight) => {
+        const previous = stored.get(insight.insightId);
+        if (previous?.phrasedFrom === ruleText(insight)) {
+            return { ...insight, title: previous.title, description: previous.description, phrasedFrom: previous.phrasedFrom };
+        }
+        pending.push(insight);
+        return insight;
+    });
+    if (pending.length === 0) return result;
+
+    try {
+        const { data } = await completeJSON<{ insights?: { id?: string; title?: string; description?: string }[] }>([
+            {
+                role: "system",
+                content: "You reword health insights for an Indian patient app. Keep every fact, number, date and unit exactly as given; " +
+                    "add no new facts, advice or diagnoses. Plain, calm English; title under 60 characters, description under 300. " +
+                    "Reply as JSON: {\"insights\":[{\"id\",\"title\",\"description\"}]}.",
+            },
+            { role: "user", content: JSON.stringify(pending.map((i) => ({ id: i.insightId, title: i.title, description: i.description }))) },
+        ], { temperature: 0.2, maxTokens: 1500 });
+
+        const rewordings = new Map((data?.insights ?? []).map((r) => [r.id, r]));
+        return result.map((insight) => {
+            const r = rewordings.get(insight.insightId);
+            if (!pending.includes(insight) || !r?.title?.trim() || !r.description?.trim()) return insight;
+            const original = numbersIn(ruleText(insight));
+            const reworded = numbersIn(`${r.title}\n${r.description}`);
+            if (original.size !== reworded.size || [...original].some((n) => !reworded.has(n))) return insight;
+            return { ...insight, title: r.title.trim().slice(0, 120), description: r.description.trim().slice(0, 500), phrasedFrom: ruleText(insight) };
+        });
+    } catch (err) {
+        console.error("Insight phrasing failed, keeping rule text:", err);
+        return result;
+    }
+}
+
+function changed(previous: HealthInsight | undefined, next: HealthInsight): boolean {
+    return !previous ||
+        previous.title !== next.title ||
+        previous.description !== next.description ||
+        previous.severity !== next.severity ||
+        previous.phrasedFrom !== next.phrasedFrom ||
+        JSON.stringify(previous.relatedEntryIds) !== JSON.stringify(next.relatedEntryIds) ||
+        JSON.stringify(previous.dataPoints) !== JSON.stringify(next.dataPoints);
+}
+
+/**
+ * Run the rules over the patient's readable records and bring the
+ * stored insights in line: new findings added, changed ones updated,
+ * ones that no longer hold removed.
+ */
+export async function refreshInsights(patientId: string): Promise<void> {
+    const [entries, checkups, profile, emergency, stored] = await Promise.all([
+        dynamodb.listInsightSources(patientId),
+        // The checkup table is optional in some deployments
+        dynamodb.getCheckupHistory(patientId, CHECKUP_LIMIT).catch(() => []),
+        getPatientProfile(patientId),
+        dynamodb.getEmergencyInfo(patientId).catch(() => null),
+        dynamodb.listInsights(patientId, true),
+    ]);
+    const storedById = new Map(stored.map((i) => [i.insightId, i]));
+
+    let found = generateInsights({
+        patientId,
+        entries,
+        checkups,
+        demographics: profile.demographics,
+        birthDate: profile.birthDate,
+        allergies: emergency?.allergies ?? [],
+    });
+    if (PHRASING_ENABLED) found = await phraseInsights(found, storedById);
+
+    const foundIds = new Set(found.map((i) => i.insightId));
+    await raiseInsights(found.filter((i) => changed(storedById.get(i.insightId), i)));
+    const stale = stored.filter((i) => !foundIds.has(i.insightId)).map((i) => i.insightId);
+    if (stale.length > 0) await dynamodb.deleteInsights(patientId, stale);
+}
+
+/**
+ * Open insights, most severe first, then newest. The rules are run
+ * first; if that fails the insights already stored are returned.
+ */
+export async function getPatientInsights(patientId: string): Promise<HealthInsight[]> {
+    try {
+        await refreshInsights(patientId);
+    } catch (err) {
+        console.error(`Insight refresh failed for ${patientId}:`, err);
+    }
+    const insights = await dynamodb.listInsights(patientId);
+    return insights.sort((a, b) =>
+        SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.generatedAt.localeCompare(a.generatedAt));
+}
+
+/** Mark stored insights read, or dismiss them so they stop showing. */
+export async function updateInsights(patientId: string, insightIds: string[], action: InsightAction): Promise<void> {
+    await dynamodb.setInsightState(patientId, insightIds, action === "read" ? "isRead" : "isDismissed");
+}
+
+// ---- Client ----
+
+async function readJson<T>(res: Response, fallback: string): Promise<T> {
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || fallback);
+    return data as T;
+}
+
+export async function fetchInsights(patientId: string): Promise<HealthInsight[]> {
+    const res = await fetch(`/api/insights?patientId=${encodeURIComponent(patientId)}`);
+    return (await readJson<{ insights: HealthInsight[] }>(res, "Failed to load insights")).insights;
+}
+
+export async function markInsights(patientId: string, insightIds: string[], action: InsightAction): Promise<void> {
+    const res = await fetch("/api/insights", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ patientId, insightIds, action }),
+    });
+    await readJson<{ ok: boolean }>(res, "Failed to update insights");
+}
@@ -0,0 +1,43 @@
+// ============================================================
+// Lab Service
+// Server-side context for lab normalisation: the patient's sex
+// and age, which pick the default reference ranges lib/labs
+// falls back on when a report prints none, and the birthdate the
+// preventive schedule is placed on.
+// ============================================================
+
+import { getPatientUser } from "../aws/cognito";
+import { labDemographics } from "../labs";
+import type { LabDemographics } from "../labs";
+
+// ---- Server ----
+
+/** Sex and age from the profile, and the birthdate they came from */
+export interface PatientProfile {
+    demographics: LabDemographics;
+    birthDate?: string;
+}
+
+/**
+ * The patient's profile attributes the rules need. Best-effort: a
+ * failed lookup yields no demographics and no birthdate.
+ */
+export async function getPatientProfile(patientId: string, today: Date = new Date()): Promise<PatientProfile> {
+    try {
+        const user = await getPatientUser(patientId);
+        const attr = (name: string) => user.UserAttributes?.find((a) => a.Name === name)?.Value ?? "";
+        const birthDate = attr("birthdate");
+        return { demographics: labDemographics(attr("gender"), birthDate, today), ...(birthDate && { birthDate }) };
+    } catch (err) {
+        console.error(`Patient profile lookup failed for ${patientId}:`, err);
+        return { demographics: {} };
+    }
+}
+
+/**
+ * Sex and age from the patient's profile. Best-effort: a failed lookup
+ * yields {}, and only ranges that apply to everyone are used.
+ */
+export async function getLabDemographics(patientId: string, today: Date = new Date()): Promise<LabDemographics> {
+    return (await getPatientProfile(patientId, today)).demographics;
+}
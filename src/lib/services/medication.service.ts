@@ -0,0 +1,111 @@
+// ============================================================
+// Medication Service
+// The reconciled medication list for a patient, and interaction
+// checks against it. The server can only read plaintext entries
+// (doctor-written or unsealed), so the patient's own devices run
+// the same engines over their decrypted timeline — see
+// buildTodaySchedule() and InsightsCard.
+// ============================================================
+
+import * as dynamodb from "../aws/dynamodb";
+import { activeCourses, reconcileMedications } from "../medications/courses";
+import { checkInteractions, interactionInsights } from "../medications/interactions";
+import type { MedicationCourse } from "../medications/courses";
+import type { InteractionWarning } from "../medications/interactions";
+import type { HealthEntry } from "../types/timeline";
+import { raiseInsights } from "./insight.service";
+
+// Far enough back to see a long course start and be stopped
+const LOOKBACK_DAYS = 730;
+
+export interface MedicationList {
+    active: MedicationCourse[];
+    /** Every course in the lookback, newest first (includes the active ones) */
+    courses: MedicationCourse[];
+}
+
+// ---- Server ----
+
+/** Every course seen in the last LOOKBACK_DAYS, and which of them are current. */
+export async function getMedicationList(patientId: string, today: string = new Date().toISOString().split("T")[0]): Promise<MedicationList> {
+    const since = new Date(Date.parse(today) - LOOKBACK_DAYS * 86_400_000).toISOString().split("T")[0];
+    const courses = reconcileMedications(await dynamodb.listMedicationSources(patientId, since), today);
+    return { active: activeCourses(courses), courses };
+}
+
+/**
+ * Interactions the given medicine lines bring with each other, the
+ * patient's current courses and their recorded allergies (emergency
+ * profile plus readable entries).
+ *
+ * @param entryId The entry prescribing them, once saved — cited by the warnings
+ */
+export async function checkNewMedications(patientId: string, lines: string[], entryId?: string): Promise<InteractionWarning[]> {
+    const [list, emergency, recorded] = await Promise.all([
+        getMedicationList(patientId),
+        dynamodb.getEmergencyInfo(patientId),
+        dynamodb.listRecordedAllergies(patientId),
+    ]);
+    return checkInteractions({
+        proposed: lines.map((name) => ({ name, entryIds: entryId ? [entryId] : [] })),
+        current: list.active.map((c) => ({ name: c.name, entryIds: c.sourceEntryIds })),
+        allergies: [...new Set([...(emergency?.allergies ?? []), ...recorded])],
+    });
+}
+
+/**
+ * Check a just-saved entry's medicines and raise a patient-facing
+ * insight per interaction found. Never throws — the entry is saved.
+ */
+export async function raiseInteractionInsights(patientId: string, entryId: string, lines: string[]): Promise<InteractionWarning[]> {
+    if (lines.length === 0) return [];
+    try {
+        const warnings = await checkNewMedications(patientId, lines, entryId);
+        await raiseInsights(interactionInsights(patientId, warnings));
+        return warnings;
+    } catch (err) {
+        console.error(`Interaction check failed for ${patientId}/${entryId}:`, err);
+        return [];
+    }
+}
+
+// ---- Client ----
+
+async function readJson<T>(res: Response, fallback: string): Promise<T> {
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || fallback);
+    return data as T;
+}
+
+export async function fetchMedicationList(patientId: string): Promise<MedicationList> {
+    const res = await fetch(`/api/medications?patientId=${encodeURIComponent(patientId)}`);
+    return readJson<MedicationList>(res, "Failed to load medications");
+}
+
+/** Check medicine lines against the patient's record before they are prescribed. */
+export async function fetchInteractionCheck(patientId: string, medications: string[]): Promise<InteractionWarning[]> {
+    const res = await fetch("/api/medications/interactions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ patientId, medications }),
+    });
+    return (await readJson<{ warnings: InteractionWarning[] }>(res, "Failed to check interactions")).warnings;
+}
+
+/**
+ * Check a scan's medicines before it is sealed: on this device against
+ * the decrypted timeline (the server can't read sealed courses), then
+ * against what the server knows — readable courses and the emergency
+ * profile's allergies. A failed server check leaves the local warnings.
+ */
+export async function checkScanMedications(patientId: string, lines: string[], entries: HealthEntry[]): Promise<InteractionWarning[]> {
+    if (lines.length === 0) return [];
+    const local = checkInteractions({
+        proposed: lines.map((name) => ({ name, entryIds: [] })),
+        current: activeCourses(reconcileMedications(entries)).map((c) => ({ name: c.name, entryIds: c.sourceEntryIds })),
+        allergies: [...new Set(entries.flatMap((e) => e.metadata?.allergies ?? []))],
+    });
+    const remote = await fetchInteractionCheck(patientId, lines).catch(() => []);
+    const seen = new Set(local.map((w) => w.id));
+    return [...local, ...remote.filter((w) => !seen.has(w.id))];
+}
@@ -0,0 +1,296 @@
+// ============================================================
+// Notification Service
+// Server side: routes call notifyUser() with a typed event after
+// the action that caused it — stored in-app and pushed to the
+// user's devices; sendScheduledReminders() covers the time-driven
+// ones (appointments, refills, doses, preventive care). Client side: fetch a page,
+// mark read.
+// ============================================================
+
+import * as dynamodb from "../aws/dynamodb";
+import { pushToUser, sendDueDoseReminders } from "./push.service";
+import { reconcileMedications } from "../medications/courses";
+import type {
+    AppNotification,
+    NotificationCategory,
+    NotificationEvent,
+    NotificationLink,
+    NotificationPage,
+    NotificationQuery,
+    PushMessage,
+} from "../types/notification";
+import { v4 as uuidv4 } from "uuid";
+
+const REFILL_LEAD_DAYS = 2;
+// Days ahead of a vaccine or screening date the reminder goes out
+const PREVENTIVE_LEAD_DAYS = 3;
+// Longest prescription a refill reminder is still worked out for
+const REFILL_LOOKBACK_DAYS = 180;
+
+interface Rendered {
+    category: NotificationCategory;
+    title: string;
+    body: string;
+    link?: NotificationLink;
+}
+
+/** Title, body and deep link for an event. Kept free of clinical values. */
+export function renderNotification(event: NotificationEvent): Rendered {
+    switch (event.type) {
+        case "DOCUMENT_PROCESSED":
+            return {
+                category: "health",
+                title: "Document processed",
+                body: `"${event.documentTitle}"${event.pageCount > 1 ? ` (${event.pageCount} pages)` : ""} was read with ${event.confidence}% confidence. Review and save it to your timeline.`,
+                link: { screen: "timeline", patientId: event.patientId },
+            };
+        case "DOCTOR_ENTRY_ADDED":
+            return {
+                category: "health",
+                title: "New record from your doctor",
+                body: `Dr. ${event.doctorName.replace(/^Dr\.?\s*/i, "")} added "${event.entryTitle}" to your timeline.`,
+                link: { screen: "timeline", patientId: event.patientId, entryId: event.entryId },
+            };
+        case "ACCESS_REQUESTED":
+            return {
+                category: "security",
+                title: "Doctor requests access",
+                body: `${event.doctorName} asked to view your health records. Approve or deny the request from Access.`,
+                link: { screen: "access", patientId: event.patientId },
+            };
+        case "ACCESS_GRANTED":
+            return {
+                category: "security",
+                title: "Access granted",
+                body: `Patient ${event.patientId} gave you ${event.accessLevel === "READ_APPEND" ? "read and append" : "read-only"} access until ${event.expiresAt.split("T")[0]}.`,
+                link: { screen: "doctor-dashboard", patientId: event.patientId },
+            };
+        case "ACCESS_REVOKED":
+            return {
+                category: "security",
+                title: "Access revoked",
+                body: `Patient ${event.patientId} withdrew your access to their records.`,
+                link: { screen: "doctor-dashboard" },
+            };
+        case "BREAK_GLASS_ACCESSED":
+            return {
+                category: "security",
+                title: "Emergency access to your records",
+                body: `${event.personnelName} (${event.institution}) opened your emergency profile. Check your access log for details.`,
+                link: { screen: "access", patientId: event.patientId },
+            };
+        case "APPOINTMENT_REMINDER":
+            return {
+                category: "health",
+                title: "Appointment tomorrow",
+                body: `With ${event.doctorName} on ${event.appointmentDate}${event.time ? ` at ${event.time}` : ""}.`,
+                link: { screen: "dashboard", patientId: event.patientId },
+            };
+        case "ABNORMAL_LAB":
+            return {
+                category: "health",
+                title: "Results outside the normal range",
+                body: `${event.abnormalCount} result${event.abnormalCount === 1 ? "" : "s"} in "${event.documentTitle}" fell outside the reference range. Discuss them with your doctor.`,
+                link: { screen: "timeline", patientId: event.patientId },
+            };
+        case "MEDICATION_REFILL_DUE":
+            return {
+                category: "health",
+                title: "Refill due",
+                body: `${event.medications.join(", ")} will run out around ${event.dueDate}. Your prescription allows a refill.`,
+                link: { screen: "timeline", patientId: event.patientId, entryId: event.entryId },
+            };
+        case "PREVENTIVE_DUE": {
+            const items = [
+                event.vaccines > 0 && `${event.vaccines} vaccine dose${event.vaccines === 1 ? "" : "s"}`,
+                event.screenings > 0 && `${event.screenings} health check${event.screenings === 1 ? "" : "s"}`,
+            ].filter(Boolean).join(" and ");
+            return {
+                category: "health",
+                title: event.vaccines > 0 ? "Vaccination due" : "Health check due",
+                body: `${event.patientName ? `${event.patientName}: ` : ""}${items} due on ${event.dueDate}. See Preventive care on the dashboard.`,
+                link: { screen: "dashboard", patientId: event.patientId },
+            };
+        }
+    }
+}
+
+/**
+ * What goes to the lock screen. Health notifications can name documents
+ * or medicines, so only their title is pushed (appointment reminders
+ * excepted); security alerts go out in full.
+ */
+function pushMessageFor(notification: AppNotification): PushMessage {
+    const sensitive = notification.category === "health" && notification.type !== "APPOINTMENT_REMINDER";
+    return {
+        title: notification.title,
+        body: sensitive ? "Open ArogyaSutra to see the details." : notification.body,
+        tag: notification.notificationId,
+        ...(notification.link && { link: notification.link }),
+    };
+}
+
+/**
+ * Create a notification for one user and push it to their devices.
+ * Best-effort: a failure is logged, never thrown — the action that
+ * caused it has already happened.
+ */
+export async function notifyUser(userId: string, event: NotificationEvent): Promise<void> {
+    const createdAt = new Date().toISOString();
+    const { link, ...rendered } = renderNotification(event);
+    const notification: AppNotification = {
+        userId,
+        notificationId: `${createdAt}#${uuidv4()}`,
+        type: event.type,
+        ...rendered,
+        ...(link && { link }),
+        read: false,
+        createdAt,
+    };
+    try {
+        await dynamodb.putNotification(notification);
+    } catch (err) {
+        console.error(`Failed to store ${event.type} notification for ${userId}:`, err);
+    }
+    await pushToUser(userId, pushMessageFor(notification));
+}
+
+/** A page of notifications plus the user's unread count (for the bell). */
+export async function getNotifications(query: NotificationQuery): Promise<NotificationPage> {
+    const [page, unreadCount] = await Promise.all([
+        dynamodb.queryNotifications(query),
+        dynamodb.countUnreadNotifications(query.userId),
+    ]);
+    return { notifications: page.notifications, nextCursor: page.cursor, unreadCount };
+}
+
+// ---- Scheduled reminders ----
+
+function isoDate(ms: number): string {
+    return new Date(ms).toISOString().split("T")[0];
+}
+
+/** True when a conditional claim lost to another sweeper. */
+function alreadyClaimed(err: unknown): boolean {
+    return (err as Error).name === "ConditionalCheckFailedException";
+}
+
+/**
+ * Send reminders that are due: appointments tomorrow (unless the patient
+ * switched them off), refills for doctor-written prescriptions whose
+ * course ends within REFILL_LEAD_DAYS, dose pushes for the slots
+ * devices registered, and vaccines and screenings falling due within
+ * PREVENTIVE_LEAD_DAYS on the plans devices registered. Each source item is claimed first, so reruns
+ * never duplicate. Meant to run on a schedule (see /api/notifications/sweep).
+ */
+export async function sendScheduledReminders(): Promise<{ appointments: number; refills: number; doses: number; preventive: number }> {
+    const now = Date.now();
+    let appointments = 0;
+    let refills = 0;
+
+    for (const appt of await dynamodb.listAppointmentsDueForReminder(isoDate(now + 86_400_000))) {
+        if (!(await dynamodb.getNotificationPrefs(appt.patientId)).appointmentReminders) continue;
+        try {
+            await dynamodb.markAppointmentReminded(appt.patientId, appt.appointmentId);
+        } catch (err) {
+            if (alreadyClaimed(err)) continue;
+            throw err;
+        }
+        await notifyUser(appt.patientId, {
+            type: "APPOINTMENT_REMINDER",
+            patientId: appt.patientId,
+            appointmentId: appt.appointmentId,
+            doctorName: appt.doctorName,
+            appointmentDate: appt.appointmentDate,
+            time: appt.time,
+        });
+        appointments++;
+    }
+
+    const leadCutoff = isoDate(now + REFILL_LEAD_DAYS * 86_400_000);
+    for (const rx of await dynamodb.listRefillCandidates(isoDate(now - REFILL_LOOKBACK_DAYS * 86_400_000))) {
+        // Only courses with a written duration have a date to refill by
+        const ends = reconcileMedications([{ entryId: rx.entryId, date: rx.date, metadata: { medications: rx.medications } }], isoDate(now))
+            .filter((course) => course.duration.kind === "days" && course.endDate)
+            .map((course) => ({ name: course.name, dueDate: course.endDate as string }))
+            .filter((med) => med.dueDate >= isoDate(now) && med.dueDate <= leadCutoff);
+        if (ends.length === 0) continue;
+
+        try {
+            await dynamodb.markRefillReminded(rx.patientId, rx.entryId);
+        } catch (err) {
+            if (alreadyClaimed(err)) continue;
+            throw err;
+        }
+        await notifyUser(rx.patientId, {
+            type: "MEDICATION_REFILL_DUE",
+            patientId: rx.patientId,
+            entryId: rx.entryId,
+            medications: ends.map((med) => med.name),
+            dueDate: ends.map((med) => med.dueDate).sort()[0],
+        });
+        refills++;
+    }
+
+    const doses = await sendDueDoseReminders(now);
+
+    let preventive = 0;
+    const preventiveCutoff = isoDate(now + PREVENTIVE_LEAD_DAYS * 86_400_000);
+    for (const plan of await dynamodb.listPreventivePlans()) {
+        const due = (plan.dates ?? []).filter((d) =>
+            d.dueDate >= isoDate(now) && d.dueDate <= preventiveCutoff && !(plan.remindedDates ?? []).includes(d.dueDate));
+        if (due.length === 0) continue;
+        if (!(await dynamodb.getNotificationPrefs(plan.userId)).preventiveReminders) continue;
+
+        for (const day of due) {
+            try {
+                await dynamodb.markPreventiveReminded(plan.userId, plan.patientId, day.dueDate);
+            } catch (err) {
+                if (alreadyClaimed(err)) continue;
+                throw err;
+            }
+            await notifyUser(plan.userId, {
+                type: "PREVENTIVE_DUE",
+                patientId: plan.patientId,
+                ...(plan.patientName && { patientName: plan.patientName }),
+                dueDate: day.dueDate,
+                vaccines: day.vaccines,
+                screenings: day.screenings,
+            });
+            preventive++;
+        }
+    }
+
+    return { appointments, refills, doses, preventive };
+}
+
+// ---- Client ----
+
+async function readJson<T>(res: Response, fallback: string): Promise<T> {
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || fallback);
+    return data as T;
+}
+
+/** Fetch one page of the signed-in user's notifications. */
+export async function fetchNotifications(
+    params: Pick<NotificationQuery, "category" | "unreadOnly" | "limit" | "cursor"> = {}
+): Promise<NotificationPage> {
+    const qs = new URLSearchParams();
+    if (params.category) qs.set("category", params.category);
+    if (params.unreadOnly) qs.set("unread", "1");
+    if (params.limit) qs.set("limit", String(params.limit));
+    if (params.cursor) qs.set("cursor", params.cursor);
+    const res = await fetch(`/api/notifications?${qs}`);
+    return readJson<NotificationPage>(res, "Failed to load notifications");
+}
+
+/** Mark some notifications read, or all of them when `ids` is omitted. */
+export async function markNotificationsRead(ids?: string[]): Promise<void> {
+    const res = await fetch("/api/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(ids ? { ids } : { all: true }),
+    });
+    await readJson(res, "Failed to update notifications");
+}
@@ -0,0 +1,137 @@
+// ============================================================
+// Push Service (server only)
+// The per-user registry of push subscriptions, reminder
+// switches, fan-out of a message to every registered device,
+// and the dose-reminder sweep. The browser side — subscribing
+// this device, registering dose slots and preventive dates —
+// lives in push/client.ts, so none of this reaches a bundle.
+// ============================================================
+
+import * as dynamodb from "../aws/dynamodb";
+import { getPushSender } from "../push/sender";
+import type { DosePlan, NotificationPrefs, PushMessage, StoredPushSubscription } from "../types/notification";
+import type { PreventivePlan } from "../types/preventive";
+
+// A dose reminder this late is skipped rather than sent
+const DOSE_GRACE_MS = 45 * 60 * 1000;
+
+/** What the browser hands over from PushSubscription.toJSON() */
+export interface PushSubscriptionInput {
+    endpoint: string;
+    keys: { p256dh: string; auth: string };
+}
+
+/** Short stable id for an endpoint, so one device maps to one item. */
+async function subscriptionIdFor(endpoint: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(endpoint));
+    return Array.from(new Uint8Array(digest).slice(0, 16), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ---- Server ----
+
+export async function registerPushSubscription(
+    userId: string,
+    input: PushSubscriptionInput,
+    userAgent?: string
+): Promise<StoredPushSubscription> {
+    const subscription: StoredPushSubscription = {
+        subscriptionId: await subscriptionIdFor(input.endpoint),
+        endpoint: input.endpoint,
+        keys: { p256dh: input.keys.p256dh, auth: input.keys.auth },
+        ...(userAgent && { userAgent: userAgent.slice(0, 200) }),
+        createdAt: new Date().toISOString(),
+    };
+    await dynamodb.putPushSubscription(userId, subscription);
+    return subscription;
+}
+
+export async function unregisterPushSubscription(userId: string, endpoint: string): Promise<void> {
+    await dynamodb.deletePushSubscription(userId, await subscriptionIdFor(endpoint));
+}
+
+/**
+ * Deliver a message to every device the user has push enabled on.
+ * Best-effort like notifyUser(): failures are logged, and subscriptions
+ * the push service reports gone are removed.
+ * @returns Number of devices it was sent to
+ */
+export async function pushToUser(userId: string, message: PushMessage): Promise<number> {
+    let delivered = 0;
+    try {
+        const subscriptions = await dynamodb.listPushSubscriptions(userId);
+        await Promise.all(subscriptions.map(async (sub) => {
+            try {
+                if (await getPushSender().send(sub, message) === "gone") {
+                    await dynamodb.deletePushSubscription(userId, sub.subscriptionId);
+                } else {
+                    delivered++;
+                }
+            } catch (err) {
+                console.error(`Push to ${userId}/${sub.subscriptionId} failed:`, (err as Error).message);
+            }
+        }));
+    } catch (err) {
+        console.error(`Failed to load push subscriptions for ${userId}:`, err);
+    }
+    return delivered;
+}
+
+export async function getNotificationPrefs(userId: string): Promise<NotificationPrefs> {
+    return dynamodb.getNotificationPrefs(userId);
+}
+
+export async function updateNotificationPrefs(
+    userId: string,
+    patch: Partial<NotificationPrefs>
+): Promise<NotificationPrefs> {
+    const prefs = { ...(await dynamodb.getNotificationPrefs(userId)), ...patch };
+    await dynamodb.putNotificationPrefs(userId, prefs);
+    return prefs;
+}
+
+export async function registerDosePlan(userId: string, planDate: string, doses: DosePlan["doses"]): Promise<void> {
+    await dynamodb.putDosePlan(userId, planDate, doses);
+}
+
+export async function registerPreventivePlan(
+    userId: string,
+    patientId: string,
+    dates: PreventivePlan["dates"],
+    patientName?: string
+): Promise<void> {
+    await dynamodb.putPreventivePlan(userId, patientId, dates, patientName);
+}
+
+/**
+ * Push "time for your medicines" for every registered dose slot that
+ * has come due within DOSE_GRACE_MS, once per slot per day, for users
+ * who have dose reminders on. Run from the notification sweep.
+ */
+export async function sendDueDoseReminders(now: number = Date.now()): Promise<number> {
+    let sent = 0;
+    for (const plan of await dynamodb.listDosePlans()) {
+        const due = (plan.doses ?? []).filter((dose) => {
+            const at = Date.parse(dose.at);
+            return at <= now && now - at < DOSE_GRACE_MS && !(plan.remindedSlots ?? []).includes(dose.slot);
+        });
+        if (due.length === 0) continue;
+        if (!(await dynamodb.getNotificationPrefs(plan.userId)).doseReminders) continue;
+
+        for (const dose of due) {
+            try {
+                await dynamodb.markDoseReminded(plan.userId, plan.planDate, dose.slot);
+            } catch (err) {
+                if ((err as Error).name === "ConditionalCheckFailedException") continue;
+                throw err;
+            }
+            await pushToUser(plan.userId, {
+                title: `Time for your ${dose.slot.toLowerCase()} medicines`,
+                body: `${dose.count} dose${dose.count === 1 ? "" : "s"} due. Mark them taken on your dashboard.`,
+                tag: `dose-${plan.planDate}-${dose.slot}`,
+                link: { screen: "dashboard", patientId: plan.userId },
+            });
+            sent++;
+        }
+    }
+    return sent;
+}
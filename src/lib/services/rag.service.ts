@@ -1,26 +1,22 @@
 // ============================================================
 // RAG Clinical Assistant Service
 // Patient & doctor AI assistant using Agentic RAG Engine
-// (Kimi K2.5 primary → MiniMax Devstral-2-125B fallback)
+// (models from the LLM provider chains in lib/llm)
 // ============================================================
 
-import { generateInsights, invokeModel, type RAGContext } from "../aws/bedrock";
-import { complete as kimiComplete } from "../llm/kimi";
+import { complete } from "../llm";
 import { logAccess, patientActor, doctorActor } from "./audit.service";
+import { getPatientInsights } from "./insight.service";
+import { historyFor, openConversation, recordTurn } from "./conversation.service";
 import { ragQuery as agenticRagQuery } from "../rag/engine";
+import type { RAGEngineOptions } from "../rag/types";
 import type {
     RAGQuery,
     RAGResponse,
     SourceCitation,
     HealthInsight,
-    ChatConversation,
-    ChatMessage,
 } from "../types/rag";
 import type { DocumentTypeTag } from "../types/timeline";
-import { v4 as uuidv4 } from "uuid";
-
-// In-memory conversation store (per session)
-const conversations = new Map<string, ChatConversation>();
 
 const MEDICAL_DISCLAIMER =
     "AI-generated summary based on your health records. Your doctor makes all clinical decisions.";
@@ -30,21 +26,22 @@ const MEDICAL_DISCLAIMER =
  *
  * 1. Classifies the query and selects the optimal RAG strategy
  * 2. Retrieves and ranks relevant patient contexts from HealthLake
- * 3. Generates an answer via Kimi K2.5 (→ Bedrock fallback)
+ * 3. Generates an answer with the generation provider chain
  * 4. Applies corrective / reflective loops based on strategy
  * 5. Returns a structured RAG response with citations and confidence
+ *
+ * Pass `stream` to hear the engine's stages and answer tokens as they
+ * happen; the response is the same either way.
  */
-export async function query(ragQuery: RAGQuery): Promise<RAGResponse> {
-    const conversationId = ragQuery.conversationId || uuidv4();
-
-    // Retrieve conversation history for multi-turn context
-    const existingConversation = conversations.get(conversationId);
-    const conversationHistory = existingConversation?.messages.slice(-8).map((m) => ({
-        role: m.role as "user" | "assistant",
-        content: m.content,
-    }));
-
-    // Run agentic RAG engine — with a hard fallback to direct Nova Pro if anything fails
+export async function query(
+    ragQuery: RAGQuery,
+    stream?: Pick<RAGEngineOptions, "onProgress" | "signal">
+): Promise<RAGResponse> {
+    // The asker's stored conversation gives follow-ups their context
+    const conversation = await openConversation(ragQuery.queryByUserId, ragQuery.patientId, ragQuery.conversationId);
+    const conversationHistory = historyFor(conversation);
+
+    // Run agentic RAG engine — with a hard fallback to a direct completion if anything fails
     let engineResult: Awaited<ReturnType<typeof agenticRagQuery>>;
     try {
         engineResult = await agenticRagQuery({
@@ -53,6 +50,7 @@ export async function query(ragQuery: RAGQuery): Promise<RAGResponse> {
             conversationHistory,
             topK: 12,
             userRole: ragQuery.queryBy,
+            ...stream,
         });
 
         // Guard: engine returned empty answer (shouldn't happen after kimi fix, but be safe)
@@ -60,11 +58,13 @@ export async function query(ragQuery: RAGQuery): Promise<RAGResponse> {
             throw new Error("Agentic engine returned empty answer");
         }
     } catch (engineErr) {
-        console.error("[rag.service] agentic engine failed, falling back to Kimi direct:", engineErr);
+        // Cancelled by the asker — nobody is waiting for a fallback answer
+        if (stream?.signal?.aborted) throw engineErr;
+        console.error("[rag.service] agentic engine failed, falling back to a direct completion:", engineErr);
         try {
             // Use a system prompt that explicitly prevents hallucination without context
             const noContextSystem = "You are ArogyaSutra, a medical AI assistant. The patient asked a question but we were unable to retrieve their medical records due to a system issue. Tell them you could not access their records right now and suggest they try again shortly. Do NOT make up any medical information, prescriptions, or doctor names. Keep it brief and helpful.";
-            const fallback = await kimiComplete(
+            const fallback = await complete(
                 [
                     { role: "system", content: noContextSystem },
                     { role: "user", content: ragQuery.queryText },
@@ -82,7 +82,7 @@ export async function query(ragQuery: RAGQuery): Promise<RAGResponse> {
                 modelId: fallback.model,
             };
         } catch (fallbackErr) {
-            console.error("[rag.service] Kimi fallback also failed, using static response:", fallbackErr);
+            console.error("[rag.service] direct fallback also failed, using static response:", fallbackErr);
             engineResult = {
                 answer: "I'm sorry, I was unable to process your query right now. Please try again in a few moments.",
                 contexts: [],
@@ -90,7 +90,7 @@ export async function query(ragQuery: RAGQuery): Promise<RAGResponse> {
                 queryType: "GENERAL" as const,
                 confidence: 0.1,
                 groundingScore: 0.0,
-                provider: "bedrock" as const,
+                provider: "none",
                 modelId: "static-fallback",
             };
         }
@@ -110,12 +110,11 @@ export async function query(ragQuery: RAGQuery): Promise<RAGResponse> {
         confidence,
         modelId: engineResult.modelId,
         generatedAt: new Date().toISOString(),
-        conversationId,
+        conversationId: conversation.conversationId,
         disclaimer: MEDICAL_DISCLAIMER,
     };
 
-    // Update conversation history
-    updateConversation(conversationId, ragQuery, response);
+    await recordTurn(conversation, ragQuery, response);
 
     // Audit log
     const actor =
@@ -141,37 +140,17 @@ export async function query(ragQuery: RAGQuery): Promise<RAGResponse> {
 }
 
 /**
- * Generates proactive health insights for a patient using Bedrock.
- * Uses HealthLake records as context for Bedrock's insight generation.
+ * Proactive health insights for a patient — found by the rules in
+ * lib/insights over their records, stored with read/dismiss state.
  */
 export async function getInsights(
     patientId: string
 ): Promise<HealthInsight[]> {
-    const contexts = await fetchInsightContexts(patientId);
-    if (contexts.length === 0) return [];
-
-    const result = await generateInsights(contexts);
-
-    return parseInsights(result.answer, patientId);
-}
-
-/**
- * Gets the conversation history for a session.
- */
-export function getConversation(
-    conversationId: string
-): ChatConversation | undefined {
-    return conversations.get(conversationId);
+    return getPatientInsights(patientId);
 }
 
 // ---- Internal ----
 
-/** Fetch minimal RAGContext objects for the Bedrock insights endpoint. */
-async function fetchInsightContexts(_patientId: string): Promise<RAGContext[]> {
-    // HealthLake removed — insights use DynamoDB-backed RAG engine instead
-    return [];
-}
-
 /**
  * Build SourceCitation array by matching [Source N] patterns in the answer
  * against the scored contexts returned by the engine.
@@ -203,78 +182,3 @@ function buildCitations(
 
     return citations;
 }
-
-function parseInsights(answer: string, patientId: string): HealthInsight[] {
-    const insights: HealthInsight[] = [];
-    const lines = answer.split("\n");
-    let current: Partial<HealthInsight> = {};
-
-    for (const line of lines) {
-        if (line.startsWith("TYPE:")) {
-            if (current.title) insights.push(finalizeInsight(current, patientId));
-            current = { type: line.replace("TYPE:", "").trim() as HealthInsight["type"] };
-        } else if (line.startsWith("SEVERITY:")) {
-            current.severity = line.replace("SEVERITY:", "").trim() as HealthInsight["severity"];
-        } else if (line.startsWith("TITLE:")) {
-            current.title = line.replace("TITLE:", "").trim();
-        } else if (line.startsWith("DESCRIPTION:")) {
-            current.description = line.replace("DESCRIPTION:", "").trim();
-        }
-    }
-
-    if (current.title) insights.push(finalizeInsight(current, patientId));
-    return insights;
-}
-
-function finalizeInsight(partial: Partial<HealthInsight>, patientId: string): HealthInsight {
-    return {
-        insightId: uuidv4(),
-        patientId,
-        type: partial.type || "trend_rising",
-        title: partial.title || "Health Insight",
-        description: partial.description || "",
-        severity: partial.severity || "info",
-        relatedEntryIds: [],
-        dataPoints: [],
-        generatedAt: new Date().toISOString(),
-        isRead: false,
-        isDismissed: false,
-    };
-}
-
-function updateConversation(
-    conversationId: string,
-    query: RAGQuery,
-    response: RAGResponse
-): void {
-    let conversation = conversations.get(conversationId);
-
-    if (!conversation) {
-        conversation = {
-            conversationId,
-            patientId: query.patientId,
-            messages: [],
-            startedAt: new Date().toISOString(),
-            lastMessageAt: new Date().toISOString(),
-        };
-        conversations.set(conversationId, conversation);
-    }
-
-    const userMessage: ChatMessage = {
-        messageId: uuidv4(),
-        role: "user",
-        content: query.queryText,
-        timestamp: new Date().toISOString(),
-    };
-
-    const assistantMessage: ChatMessage = {
-        messageId: uuidv4(),
-        role: "assistant",
-        content: response.answer,
-        citations: response.citations,
-        timestamp: response.generatedAt,
-    };
-
-    conversation.messages.push(userMessage, assistantMessage);
-    conversation.lastMessageAt = new Date().toISOString();
-}
@@ -0,0 +1,209 @@
+// ============================================================
+// Scan Queue Service
+// Documents captured without a connection go into an encrypted
+// outbox (IndexedDB) and are extracted once the network is back.
+//
+// The queue is drained in the foreground rather than from a
+// service-worker sync event: the pages are sealed with the vault
+// key, which lives only in page memory, so the worker could not
+// open it. Extraction never saves anything — items wait in
+// "review" until the user confirms them through ScanModal.
+// ============================================================
+
+import { decrypt, decryptToString, deserializeBlob, encrypt, encryptString, serializeBlob } from "../crypto/aesGcm";
+import { deleteOutboxItem, getOutboxItem, listOutboxItems, putOutboxItem, type OutboxItem } from "../offline";
+import { extractDocument } from "./timeline.service";
+import type { ScanExtraction } from "../types/timeline";
+import { v4 as uuidv4 } from "uuid";
+
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 30 * 60_000;
+const MAX_ATTEMPTS = 8;
+
+/** Outbox item with its extraction opened, for display */
+export interface OutboxView {
+    item: OutboxItem;
+    extraction: ScanExtraction | null;
+}
+
+const _draining = new Map<string, Promise<void>>();
+const _changeListeners = new Set<(ownerId: string) => void>();
+
+/**
+ * Subscribe to outbox changes (enqueue, status change, removal).
+ * @returns Unsubscribe function
+ */
+export function onOutboxChange(listener: (ownerId: string) => void): () => void {
+    _changeListeners.add(listener);
+    return () => { _changeListeners.delete(listener); };
+}
+
+function notify(ownerId: string): void {
+    _changeListeners.forEach((fn) => fn(ownerId));
+}
+
+/** Delay before the next attempt: 30 s, 1 min, 2 min … capped at 30 min. */
+function backoffMs(attempts: number): number {
+    return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+/** Seal a captured document (its pages in order) and add it to the outbox. */
+export async function enqueueScan(
+    ownerId: string,
+    pages: File[],
+    masterKey: CryptoKey,
+    keyId?: string
+): Promise<OutboxItem> {
+    const now = new Date().toISOString();
+    const item: OutboxItem = {
+        id: uuidv4(),
+        ownerId,
+        status: "queued",
+        pages: await Promise.all(pages.map(async (page) => ({
+            fileName: page.name || "scan.jpg",
+            mimeType: page.type || "image/jpeg",
+            blob: serializeBlob(await encrypt(await page.arrayBuffer(), masterKey, keyId)),
+        }))),
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now,
+    };
+    await putOutboxItem(item);
+    notify(ownerId);
+    return item;
+}
+
+/**
+ * List an owner's outbox with extractions opened.
+ * Items sealed under another vault key show with a null extraction.
+ */
+export async function listOutbox(ownerId: string, masterKey: CryptoKey): Promise<OutboxView[]> {
+    const items = await listOutboxItems(ownerId);
+    return Promise.all(items.map(async (item) => ({
+        item,
+        extraction: await openExtraction(item, masterKey),
+    })));
+}
+
+/** Decrypt the captured pages back into Files for review and saving. */
+export async function openOutboxPages(item: OutboxItem, masterKey: CryptoKey): Promise<File[]> {
+    return Promise.all(item.pages.map(async (page) => {
+        const bytes = await decrypt(deserializeBlob(page.blob), masterKey);
+        return new File([bytes], page.fileName, { type: page.mimeType });
+    }));
+}
+
+async function openExtraction(item: OutboxItem, masterKey: CryptoKey): Promise<ScanExtraction | null> {
+    if (!item.extraction) return null;
+    try {
+        return JSON.parse(await decryptToString(deserializeBlob(item.extraction), masterKey)) as ScanExtraction;
+    } catch {
+        return null;
+    }
+}
+
+/** Drop an item — after it is saved to the timeline, or discarded by the user. */
+export async function removeOutboxItem(item: OutboxItem): Promise<void> {
+    await deleteOutboxItem(item.id);
+    notify(item.ownerId);
+}
+
+/** Put a failed item back in the queue for an immediate attempt. */
+export async function retryOutboxItem(item: OutboxItem): Promise<void> {
+    await putOutboxItem({
+        ...item,
+        status: "queued",
+        attempts: 0,
+        lastError: undefined,
+        nextAttemptAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+    });
+    notify(item.ownerId);
+}
+
+/**
+ * Extract every due item in an owner's outbox.
+ * Concurrent calls for the same owner share one pass. A network error
+ * stops the pass — the rest would fail the same way.
+ *
+ * @param ignoreBackoff  Attempt waiting items now (connectivity just came back)
+ */
+export function processOutbox(
+    ownerId: string,
+    masterKey: CryptoKey,
+    keyId?: string,
+    ignoreBackoff = false
+): Promise<void> {
+    const running = _draining.get(ownerId);
+    if (running) return running;
+
+    const pass = drain(ownerId, masterKey, keyId, ignoreBackoff).finally(() => { _draining.delete(ownerId); });
+    _draining.set(ownerId, pass);
+    return pass;
+}
+
+async function drain(ownerId: string, masterKey: CryptoKey, keyId: string | undefined, ignoreBackoff: boolean): Promise<void> {
+    const now = Date.now();
+    const due = (await listOutboxItems(ownerId)).filter((item) =>
+        // "uploading" here means a previous page closed mid-request
+        (item.status === "queued" || item.status === "uploading") &&
+        (ignoreBackoff || Date.parse(item.nextAttemptAt) <= now)
+    );
+
+    for (const item of due) {
+        const offline = await attempt(item, masterKey, keyId);
+        if (offline) break;
+    }
+}
+
+/** @returns true when the attempt failed for lack of a connection */
+async function attempt(item: OutboxItem, masterKey: CryptoKey, keyId?: string): Promise<boolean> {
+    // Re-read: the user may have discarded it while the pass was running
+    const current = await getOutboxItem(item.id);
+    if (!current) return false;
+
+    let pages: File[];
+    try {
+        pages = await openOutboxPages(current, masterKey);
+    } catch {
+        await settle({ ...current, status: "failed", lastError: "Captured under a different vault key" });
+        return false;
+    }
+
+    const uploading: OutboxItem = { ...current, status: "uploading", updatedAt: new Date().toISOString() };
+    await putOutboxItem(uploading);
+    notify(item.ownerId);
+
+    try {
+        const extraction = await extractDocument(pages, uploading.ownerId);
+        await settle({
+            ...uploading,
+            status: "review",
+            extraction: serializeBlob(await encryptString(JSON.stringify(extraction), masterKey, keyId)),
+            lastError: undefined,
+        });
+        return false;
+    } catch (err) {
+        const offline = err instanceof TypeError;
+        const msg = (err as Error).message;
+        const attempts = uploading.attempts + 1;
+        // Time spent offline never exhausts the retries, it only stretches the backoff
+        const giveUp = !offline && (msg.startsWith("EXTRACTION_REJECTED") || attempts >= MAX_ATTEMPTS);
+        await settle({
+            ...uploading,
+            status: giveUp ? "failed" : "queued",
+            attempts,
+            lastError: offline ? "No connection" : msg.replace(/^[A-Z_]+:\s*/, ""),
+            nextAttemptAt: new Date(Date.now() + backoffMs(attempts)).toISOString(),
+        });
+        return offline;
+    }
+}
+
+/** Write the outcome of an attempt unless the item was discarded meanwhile. */
+async function settle(item: OutboxItem): Promise<void> {
+    if (!(await getOutboxItem(item.id))) return;
+    await putOutboxItem({ ...item, updatedAt: new Date().toISOString() });
+    notify(item.ownerId);
+}
@@ -4,17 +4,23 @@
 // ============================================================
 
 import { uploadEncryptedBlob, downloadEncryptedBlob, getDocumentKey, getOriginalPhotoKey } from "../aws/s3";
-import { serializeBlob, deserializeBlob, encrypt, decrypt, encryptString } from "../crypto/aesGcm";
+import { serializeBlob, deserializeBlob, encrypt, decrypt, encryptString, decryptToString } from "../crypto/aesGcm";
 import { logAccess, patientActor } from "./audit.service";
 import { processDocument, generatePreview } from "./medvision.service";
+import { isHighAlert } from "../medications/interactions";
+import { normalizeLabResults } from "../labs/normalize";
 import type {
     HealthEntry,
+    EntryMetadata,
     TimelineRequest,
     TimelineResponse,
     StatusFlag,
     DocumentTypeTag,
+    ScanExtraction,
 } from "../types/timeline";
 import type { ExtractionPreview } from "../types/medvision";
+import type { SerializedEncryptedBlob } from "../types/crypto";
+import { getSealed, loadCached, putSealed, saveCached } from "../offline";
 import { v4 as uuidv4 } from "uuid";
 
 /**
@@ -70,10 +76,7 @@ export async function confirmAndSave(
     const fhirResourceIds: string[] = [];
     const statusFlags: StatusFlag[] = [];
     if (extraction.overallConfidence >= 70) statusFlags.push("AI-READ");
-    if (extraction.clinicalEntities.medications.some(
-        (m) => m.name.toLowerCase().includes("warfarin") ||
-            m.name.toLowerCase().includes("insulin")
-    )) {
+    if (extraction.clinicalEntities.medications.some((m) => isHighAlert(m.name))) {
         statusFlags.push("CRITICAL");
     }
 
@@ -95,7 +98,12 @@ export async function confirmAndSave(
         metadata: {
             medications: extraction.clinicalEntities.medications.map((m) => ({ name: m.name })),
             diagnoses: extraction.clinicalEntities.diagnoses.map((d) => d.name),
-            labTests: extraction.clinicalEntities.labResults.map((l) => ({ name: l.testName })),
+            labTests: normalizeLabResults(extraction.clinicalEntities.labResults.map((l) => ({
+                name: l.testName,
+                ...(l.value && { value: l.value }),
+                ...(l.unit && { unit: l.unit }),
+                ...(l.referenceRange && { referenceRange: l.referenceRange }),
+            }))),
         },
     };
 
@@ -128,17 +136,66 @@ export interface ViewerContext {
 const _rawEntriesCache = new Map<string, { entries: HealthEntry[]; ts: number }>();
 const TIMELINE_CACHE_TTL_MS = 30_000;
 
+// Offline copy (IndexedDB, sealed with the vault key): served first, then
+// revalidated in the background. Patients whose data just changed skip it
+// once so their own edit shows up immediately.
+const OFFLINE_TIMELINE_ID = "entries";
+const _networkFirst = new Set<string>();
+const _revalidating = new Map<string, Promise<void>>();
+const _revalidateListeners = new Set<(patientId: string) => void>();
+
+/**
+ * Subscribe to background revalidations that replaced cached entries.
+ * @returns Unsubscribe function
+ */
+export function onTimelineRevalidated(listener: (patientId: string) => void): () => void {
+    _revalidateListeners.add(listener);
+    return () => { _revalidateListeners.delete(listener); };
+}
+
+async function fetchRawEntries(params: URLSearchParams): Promise<HealthEntry[]> {
+    const res = await fetch(`/api/timeline/entries?${params.toString()}`);
+    if (!res.ok) {
+        const text = await res.text();
+        let msg = `Timeline fetch failed (${res.status})`;
+        try { msg = JSON.parse(text).error ?? msg; } catch { /* not JSON */ }
+        throw new Error(msg);
+    }
+    const data = await res.json();
+    return data.entries ?? [];
+}
+
+/** Fetch, then refresh both caches. */
+async function refreshEntries(
+    patientId: string,
+    params: URLSearchParams,
+    masterKey: CryptoKey | null,
+    keyId?: string
+): Promise<HealthEntry[]> {
+    const entries = await fetchRawEntries(params);
+    // Cache raw entries so AppShell prefetch and useTimeline hook share one result
+    _rawEntriesCache.set(params.toString(), { entries, ts: Date.now() });
+    if (masterKey) await saveCached(patientId, "timeline", OFFLINE_TIMELINE_ID, entries, masterKey, keyId);
+    return entries;
+}
+
 /**
  * Retrieves timeline entries for a patient from DynamoDB.
  * Uses /api/timeline/entries — HealthLake is NOT available in ap-south-1.
  * Raw entries are cached for 30 s; filters & pagination are always applied fresh.
+ * With a vault key, an offline copy is served stale-while-revalidate and is
+ * the fallback when the network is unreachable.
+ *
+ * @param keyId  keyId of the vault key — a copy sealed under another one is ignored
  */
 export async function getTimeline(
     request: TimelineRequest,
-    _masterKey: CryptoKey,
-    viewerContext?: ViewerContext
+    masterKey: CryptoKey | null,
+    viewerContext?: ViewerContext,
+    keyId?: string
 ): Promise<TimelineResponse> {
-    const params = new URLSearchParams({ patientId: request.patientId });
+    const { patientId } = request;
+    const params = new URLSearchParams({ patientId });
     if (viewerContext) {
         params.set("viewerType", viewerContext.viewerType);
         params.set("viewerId", viewerContext.viewerId);
@@ -149,23 +206,34 @@ export async function getTimeline(
     const cached = _rawEntriesCache.get(cacheKey);
 
     let entries: HealthEntry[];
+    let cachedAt: string | undefined;
     if (cached && Date.now() - cached.ts < TIMELINE_CACHE_TTL_MS) {
         entries = cached.entries;
     } else {
-        const res = await fetch(`/api/timeline/entries?${params.toString()}`);
-        if (!res.ok) {
-            const text = await res.text();
-            let msg = `Timeline fetch failed (${res.status})`;
-            try { msg = JSON.parse(text).error ?? msg; } catch { /* not JSON */ }
-            throw new Error(msg);
-        }
+        const offline = masterKey
+            ? await loadCached<HealthEntry[]>(patientId, "timeline", OFFLINE_TIMELINE_ID, masterKey, keyId)
+            : null;
 
-        const data = await res.json();
-        entries = data.entries ?? [];
-        // Cache raw entries so AppShell prefetch and useTimeline hook share one result
-        _rawEntriesCache.set(cacheKey, { entries, ts: Date.now() });
+        if (offline && !_networkFirst.has(patientId)) {
+            entries = offline.value;
+            cachedAt = offline.cachedAt;
+            revalidateInBackground(patientId, params, masterKey!, keyId);
+        } else {
+            try {
+                entries = await refreshEntries(patientId, params, masterKey, keyId);
+                _networkFirst.delete(patientId);
+            } catch (err) {
+                // Network unreachable (fetch TypeError) — fall back to the offline copy
+                if (!offline || !(err instanceof TypeError)) throw err;
+                entries = offline.value;
+                cachedAt = offline.cachedAt;
+            }
+        }
     }
 
+    // Decrypt sealed metadata (cache holds ciphertext only)
+    entries = await openEntries(entries, masterKey);
+
     // Apply client-side filters (always, even on cached data)
     let filtered = entries;
     if (request.filters?.documentTypes?.length) {
@@ -192,19 +260,128 @@ export async function getTimeline(
         page,
         pageSize,
         hasMore: start + pageSize < filtered.length,
+        cachedAt,
     };
     return response;
 }
 
-/** Clears the in-memory timeline cache for a patient (call after upload/delete). */
+function revalidateInBackground(patientId: string, params: URLSearchParams, masterKey: CryptoKey, keyId?: string): void {
+    const key = params.toString();
+    if (_revalidating.has(key)) return;
+    const run = refreshEntries(patientId, params, masterKey, keyId)
+        .then(() => _revalidateListeners.forEach((listener) => listener(patientId)))
+        .catch(() => { /* offline — keep serving the cached copy */ })
+        .finally(() => _revalidating.delete(key));
+    _revalidating.set(key, run);
+}
+
+/**
+ * Clears the in-memory timeline cache for a patient (call after upload/delete).
+ * The next load goes to the network before the offline copy.
+ */
 export function invalidateTimelineCache(patientId: string): void {
     for (const key of _rawEntriesCache.keys()) {
         if (key.startsWith(`patientId=${patientId}`)) {
             _rawEntriesCache.delete(key);
         }
     }
+    _networkFirst.add(patientId);
 }
 
+// ---- Scan extraction ----
+
+/**
+ * Send a captured document to /api/upload for OCR + entity extraction.
+ * `pages` are the photos in page order, or a single PDF.
+ * Network failures surface as the fetch TypeError; server answers as
+ * EXTRACTION_REJECTED (4xx — retrying will not help) or
+ * EXTRACTION_UNAVAILABLE (5xx / non-JSON — worth retrying).
+ */
+export async function extractDocument(pages: File[], patientId: string): Promise<ScanExtraction> {
+    const form = new FormData();
+    for (const page of pages) form.append("file", page, page.name);
+    form.append("patientId", patientId);
+
+    const res = await fetch("/api/upload", { method: "POST", body: form });
+    // Read as text first — avoids JSON parse crash if server returns HTML error page
+    const text = await res.text();
+    let body: Record<string, unknown>;
+    try { body = JSON.parse(text); }
+    catch { throw new Error(`EXTRACTION_UNAVAILABLE: Server error (${res.status})`); }
+
+    if (!res.ok) {
+        const code = res.status >= 400 && res.status < 500 && res.status !== 429
+            ? "EXTRACTION_REJECTED"
+            : "EXTRACTION_UNAVAILABLE";
+        throw new Error(`${code}: ${(body.error as string) ?? "Extraction failed"}`);
+    }
+    return body.extraction as ScanExtraction;
+}
+
+// ---- Client-side sealing (vault key) ----
+
+/** Encrypt EntryMetadata before it leaves the browser. */
+export async function sealMetadata(
+    metadata: EntryMetadata,
+    masterKey: CryptoKey,
+    keyId?: string
+): Promise<SerializedEncryptedBlob> {
+    return serializeBlob(await encryptString(JSON.stringify(metadata), masterKey, keyId));
+}
+
+/** Encrypt the original document photo before upload. */
+export async function sealPhoto(
+    photo: ArrayBuffer,
+    masterKey: CryptoKey,
+    keyId?: string
+): Promise<SerializedEncryptedBlob> {
+    return serializeBlob(await encrypt(photo, masterKey, keyId));
+}
+
+/**
+ * Decrypts `encryptedMetadata` into `metadata` for each sealed entry.
+ * Without a key (doctor, guardian proxy) or on a decryption failure the
+ * entry is returned with only its clear index fields.
+ */
+export async function openEntries(
+    entries: HealthEntry[],
+    masterKey: CryptoKey | null
+): Promise<HealthEntry[]> {
+    if (!masterKey) return entries;
+    return Promise.all(entries.map(async (entry) => {
+        if (!entry.encryptedMetadata) return entry;
+        try {
+            const json = await decryptToString(deserializeBlob(entry.encryptedMetadata), masterKey);
+            return { ...entry, metadata: JSON.parse(json) as EntryMetadata };
+        } catch {
+            console.warn("[timeline] Could not decrypt entry", entry.entryId);
+            return entry;
+        }
+    }));
+}
+
+/**
+ * Download and decrypt a sealed document photo (or PDF — pass its type
+ * so the browser can render it).
+ * The ciphertext is kept in the offline store as-is (it is already sealed
+ * with the vault key), so viewed photos open with no network.
+ */
+export async function openPhoto(s3Key: string, masterKey: CryptoKey, type = ""): Promise<Blob> {
+    const ownerId = s3Key.split("/")[1] ?? ""; // patients/<cardId>/...
+    const offline = await getSealed(ownerId, "photo", s3Key);
+    if (offline) {
+        try {
+            return new Blob([await decrypt(deserializeBlob(offline.value), masterKey)], { type });
+        } catch { /* re-keyed since it was cached — fetch again */ }
+    }
+
+    const res = await fetch(`/api/timeline/document-blob?s3Key=${encodeURIComponent(s3Key)}`);
+    if (!res.ok) throw new Error(`Document fetch failed (${res.status})`);
+    const { blob } = (await res.json()) as { blob: SerializedEncryptedBlob };
+    const bytes = await decrypt(deserializeBlob(blob), masterKey);
+    await putSealed(ownerId, "photo", s3Key, blob);
+    return new Blob([bytes], { type });
+}
 
 /**
  * Views a single timeline entry by decrypting its stored data.
@@ -0,0 +1,41 @@
+// ============================================================
+// Trend Service
+// Per-analyte lab and vitals series for a patient. The server
+// builds them from the entries it can read plus doctor checkups;
+// screens holding the decrypted timeline build their own and
+// merge (see TrendsCard), so sealed lab reports are charted too.
+// ============================================================
+
+import * as dynamodb from "../aws/dynamodb";
+import { buildTrends } from "../trends/build";
+import { getLabDemographics } from "./lab.service";
+import type { TrendsResponse } from "../types/trends";
+
+// Checkups read per request — years of monthly visits
+const CHECKUP_LIMIT = 120;
+
+// ---- Server ----
+
+/** Every series the server can build for the patient, most concerning first. */
+export async function getTrends(patientId: string): Promise<TrendsResponse> {
+    const [entries, checkups, demographics] = await Promise.all([
+        dynamodb.listTrendSources(patientId),
+        // The checkup table is optional in some deployments
+        dynamodb.getCheckupHistory(patientId, CHECKUP_LIMIT).catch(() => []),
+        getLabDemographics(patientId),
+    ]);
+    return { series: buildTrends({ entries, checkups }, demographics), demographics };
+}
+
+// ---- Client ----
+
+async function readJson<T>(res: Response, fallback: string): Promise<T> {
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || fallback);
+    return data as T;
+}
+
+export async function fetchTrends(patientId: string): Promise<TrendsResponse> {
+    const res = await fetch(`/api/trends?patientId=${encodeURIComponent(patientId)}`);
+    return readJson<TrendsResponse>(res, "Failed to load trends");
+}
@@ -0,0 +1,186 @@
+// ============================================================
+// Vault Service
+// Creates, unlocks and re-wraps the patient's stable vault key,
+// and sorts pre-vault blobs after unlock.
+// ============================================================
+
+import { cryptoEngine } from "../crypto/engine";
+import { VAULT_KDF_ITERATIONS } from "../crypto/keyDerivation";
+import type { MigrationCandidate, MigrationReport } from "../crypto/migration";
+import type { WrappedVaultKey } from "../types/crypto";
+
+const MIGRATION_BATCH_SIZE = 50;
+const MIGRATION_MARKER_PREFIX = "arogyasutra_vault_migrated_";
+const MIN_SECRET_LENGTH = 8;
+// Long enough to be a passphrase — no character mix required
+const PASSPHRASE_LENGTH = 12;
+// Digit runs either way, wrapping past 9 ("78901234")
+const DIGIT_RUNS = "01234567890123456789 98765432109876543210";
+
+/** Result of unlocking (or first-time creating) the vault */
+export interface VaultUnlockResult {
+    masterKey: CryptoKey; // The vault DEK — non-extractable, memory-only
+    vault: WrappedVaultKey;
+    created: boolean;
+}
+
+/**
+ * Why a new vault secret is too weak, or null when it will do.
+ * The wrapped key is stored server-side, so anyone who obtains it can
+ * guess secrets offline: short or single-class secrets fall quickly
+ * even at VAULT_KDF_ITERATIONS.
+ */
+export function vaultSecretProblem(secret: string): string | null {
+    if (secret.length < MIN_SECRET_LENGTH) {
+        return `Use at least ${MIN_SECRET_LENGTH} characters.`;
+    }
+    if (/^(.)\1*$/u.test(secret) || DIGIT_RUNS.includes(secret)) {
+        return "Avoid repeated or sequential characters.";
+    }
+    if (secret.length < PASSPHRASE_LENGTH && !(/\p{L}/u.test(secret) && /\p{N}/u.test(secret))) {
+        return `Mix letters and numbers, or use ${PASSPHRASE_LENGTH} or more characters.`;
+    }
+    return null;
+}
+
+function assertStrongSecret(secret: string): void {
+    const problem = vaultSecretProblem(secret);
+    if (problem) throw new Error(`VAULT_SECRET_WEAK: ${problem}`);
+}
+
+/**
+ * Fetch the wrapped vault key for a patient.
+ * @returns null when the patient has not set up a vault yet.
+ */
+export async function fetchVaultKey(patientId: string): Promise<WrappedVaultKey | null> {
+    const res = await fetch(`/api/vault/key?patientId=${encodeURIComponent(patientId)}`);
+    if (!res.ok) throw new Error(`VAULT_UNAVAILABLE: vault lookup returned ${res.status}`);
+    const data = await res.json();
+    return (data.vault as WrappedVaultKey) ?? null;
+}
+
+/**
+ * Unlock the existing vault, or create one when `existing` is null.
+ * The secret is used only to derive the KEK and is never sent anywhere.
+ * A vault wrapped at a lower KDF cost than VAULT_KDF_ITERATIONS is
+ * re-wrapped under the same secret, best-effort.
+ * @throws VAULT_SECRET_WEAK when creating with a secret vaultSecretProblem() rejects
+ */
+export async function unlockVault(
+    cardId: string,
+    secret: string,
+    existing: WrappedVaultKey | null
+): Promise<VaultUnlockResult> {
+    if (existing) {
+        const masterKey = await cryptoEngine.unlockVault(cardId, secret, existing);
+        const vault = existing.iterations < VAULT_KDF_ITERATIONS
+            ? await strengthenVault(cardId, secret, existing)
+            : existing;
+        return { masterKey, vault, created: false };
+    }
+
+    assertStrongSecret(secret);
+    const { wrapped, dataKey } = await cryptoEngine.createVault(cardId, secret);
+    const res = await fetch("/api/vault/key", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ patientId: cardId, vault: wrapped }),
+    });
+    if (res.status === 409) {
+        throw new Error("VAULT_EXISTS: A vault was created from another device. Please sign in again.");
+    }
+    if (!res.ok) throw new Error(`VAULT_UNAVAILABLE: vault creation returned ${res.status}`);
+
+    return { masterKey: dataKey, vault: wrapped, created: true };
+}
+
+/**
+ * Change the vault secret. Re-wraps the same DEK, so no record is re-encrypted.
+ * @returns The new wrapped record (same keyId).
+ * @throws VAULT_SECRET_WEAK when vaultSecretProblem() rejects the new secret
+ */
+export async function changeVaultSecret(
+    cardId: string,
+    oldSecret: string,
+    newSecret: string,
+    current: WrappedVaultKey
+): Promise<WrappedVaultKey> {
+    assertStrongSecret(newSecret);
+    return saveRewrapped(cardId, current, await cryptoEngine.rewrapVault(cardId, oldSecret, newSecret, current));
+}
+
+async function saveRewrapped(cardId: string, current: WrappedVaultKey, rewrapped: WrappedVaultKey): Promise<WrappedVaultKey> {
+    const res = await fetch("/api/vault/key", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ patientId: cardId, vault: rewrapped, previousKeyId: current.keyId }),
+    });
+    if (!res.ok) throw new Error(`VAULT_UNAVAILABLE: re-wrap returned ${res.status}`);
+    return rewrapped;
+}
+
+/** Re-wrap at the current KDF cost; keeps the old record if that can't be saved (e.g. offline). */
+async function strengthenVault(cardId: string, secret: string, current: WrappedVaultKey): Promise<WrappedVaultKey> {
+    try {
+        return await saveRewrapped(cardId, current, await cryptoEngine.rewrapVault(cardId, secret, secret, current));
+    } catch (err) {
+        console.warn("[vault] KDF upgrade skipped:", (err as Error).message);
+        return current;
+    }
+}
+
+/**
+ * Wrap the vault key for a doctor's public key so a grant can carry it.
+ * Asks for the vault secret again: approving access is a deliberate act,
+ * and the session masterKey is non-extractable by design.
+ */
+export async function shareVaultKey(
+    cardId: string,
+    secret: string,
+    vault: WrappedVaultKey,
+    doctorPublicKeyBase64: string
+): Promise<string> {
+    return cryptoEngine.shareVaultKey(cardId, secret, vault, doctorPublicKeyBase64);
+}
+
+/**
+ * Bring blobs written before the vault onto it. Runs once per vault on
+ * each device, right after unlock; returns null when it already has.
+ *
+ * Pre-vault blobs were sealed with PBKDF2(Card_ID || OTP), using the OTP
+ * of the session that wrote them. OTPs are single-use and never stored,
+ * so those keys can't be derived again and the blobs are unrecoverable:
+ * they are reported and left in place, never overwritten or deleted. The
+ * vault key itself is the only key tried — it re-stamps blobs it sealed
+ * without a keyId (written while no vault keyId was at hand).
+ */
+export async function migrateLegacyBlobs(
+    cardId: string,
+    masterKey: CryptoKey,
+    vault: WrappedVaultKey
+): Promise<MigrationReport | null> {
+    const marker = `${MIGRATION_MARKER_PREFIX}${cardId}_${vault.keyId}`;
+    if (localStorage.getItem(marker)) return null;
+
+    const res = await fetch(`/api/vault/blobs?patientId=${encodeURIComponent(cardId)}`);
+    if (!res.ok) throw new Error(`VAULT_UNAVAILABLE: blob listing returned ${res.status}`);
+    const { blobs } = (await res.json()) as { blobs: MigrationCandidate[] };
+
+    const report = await cryptoEngine.migrateBlobs(blobs, [masterKey], masterKey, vault.keyId);
+
+    for (let i = 0; i < report.migrated.length; i += MIGRATION_BATCH_SIZE) {
+        const batch = report.migrated.slice(i, i + MIGRATION_BATCH_SIZE);
+        const put = await fetch("/api/vault/blobs", {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ patientId: cardId, blobs: batch }),
+        });
+        if (!put.ok) throw new Error(`VAULT_MIGRATION_FAILED: write returned ${put.status}`);
+    }
+
+    if (report.unrecoverable.length > 0) {
+        console.warn(`[vault] ${report.unrecoverable.length} blob(s) sealed with a pre-vault OTP key can't be decrypted:`, report.unrecoverable);
+    }
+    localStorage.setItem(marker, new Date().toISOString());
+    return report;
+}
@@ -0,0 +1,261 @@
+// ============================================================
+// Trend Builder
+// Turns lab results, vitals written on entries and checkup rows
+// into one time series per analyte, then reads each series: the
+// direction of recent change and any run of out-of-range values.
+// Pure — /api/trends runs it over server-readable entries; the
+// patient's and doctor's screens run it again over the decrypted
+// timeline and merge the two (mergeTrends).
+// ============================================================
+
+import { defaultRange, findAnalyte, normalizeLabResult } from "../labs";
+import type { LabDemographics } from "../labs";
+import type { LabTestResult, VitalReading } from "../types/timeline";
+import type { TrendDirection, TrendPoint, TrendPointStatus, TrendSeries } from "../types/trends";
+
+/** An entry's lab and vitals fields — a HealthEntry fits */
+export interface TrendEntry {
+    entryId: string;
+    date: string;
+    metadata?: { labTests?: LabTestResult[]; vitals?: VitalReading[] };
+}
+
+/** A doctor checkup row — CheckupEntry from /api/checkup fits */
+export interface TrendCheckup {
+    checkupId: string;
+    recordedAt: string;
+    bpSystolic?: number;
+    bpDiastolic?: number;
+    height?: string;
+    weight?: string;
+}
+
+export interface TrendSources {
+    entries?: TrendEntry[];
+    checkups?: TrendCheckup[];
+}
+
+interface VitalDef {
+    name: string;
+    unit: string;
+    range?: { low?: number; high?: number };
+    decimals: number;
+}
+
+// Adult ranges. BMI uses the lower cut-offs recommended for Indian adults.
+const VITALS: Record<string, VitalDef> = {
+    bp_systolic: { name: "Systolic BP", unit: "mmHg", range: { low: 90, high: 139 }, decimals: 0 },
+    bp_diastolic: { name: "Diastolic BP", unit: "mmHg", range: { low: 60, high: 89 }, decimals: 0 },
+    heart_rate: { name: "Heart rate", unit: "bpm", range: { low: 60, high: 100 }, decimals: 0 },
+    temperature: { name: "Temperature", unit: "°F", range: { low: 97, high: 99.5 }, decimals: 1 },
+    spo2: { name: "SpO₂", unit: "%", range: { low: 95 }, decimals: 0 },
+    weight: { name: "Weight", unit: "kg", decimals: 1 },
+    height: { name: "Height", unit: "cm", decimals: 0 },
+    bmi: { name: "BMI", unit: "kg/m²", range: { low: 18.5, high: 22.9 }, decimals: 1 },
+};
+
+// Direction is read from this many latest points; a projected change
+// smaller than STABLE_PCT of their mean counts as stable
+const WINDOW = 6;
+const STABLE_PCT = 5;
+
+interface Draft {
+    key: string;
+    kind: TrendSeries["kind"];
+    name: string;
+    unit: string;
+    range?: { low?: number; high?: number };
+    points: TrendPoint[];
+}
+
+function round(value: number, decimals: number): number {
+    const f = 10 ** decimals;
+    return Math.round(value * f) / f;
+}
+
+function statusIn(value: number, range?: { low?: number; high?: number }): TrendPointStatus | undefined {
+    if (!range) return undefined;
+    if (range.low !== undefined && value < range.low) return "Low";
+    if (range.high !== undefined && value > range.high) return "High";
+    return "Normal";
+}
+
+function labDraft(row: LabTestResult, who: LabDemographics): Draft | undefined {
+    const analyte = findAnalyte(row.canonicalName ?? row.name);
+    if (!analyte) return undefined;
+    const range = defaultRange(analyte, who);
+    return {
+        key: analyte.loinc,
+        kind: "lab",
+        name: analyte.name,
+        unit: analyte.unit,
+        ...(range && { range: { low: range.low, high: range.high } }),
+        points: [],
+    };
+}
+
+function vitalDraft(type: string): Draft {
+    const def = VITALS[type];
+    return { key: `vital:${type}`, kind: "vital", name: def.name, unit: def.unit, ...(def.range && { range: def.range }), points: [] };
+}
+
+/** "130/85" → systolic and diastolic; °C temperatures → °F; everything else as a number */
+function vitalValues(reading: VitalReading): [string, number][] {
+    if (reading.type === "blood_pressure") {
+        const m = reading.value.match(/(\d{2,3})\s*\/\s*(\d{2,3})/);
+        return m ? [["bp_systolic", Number(m[1])], ["bp_diastolic", Number(m[2])]] : [];
+    }
+    const value = parseFloat(reading.value);
+    if (isNaN(value)) return [];
+    if (reading.type === "temperature" && (/c/i.test(reading.unit) || value < 50)) return [["temperature", value * 9 / 5 + 32]];
+    return [[reading.type, value]];
+}
+
+/** Every point from the sources, grouped by series key (points unsorted). */
+function collect(sources: TrendSources, who: LabDemographics): Map<string, Draft> {
+    const drafts = new Map<string, Draft>();
+    const add = (draft: Draft, point: TrendPoint) => {
+        const existing = drafts.get(draft.key) ?? draft;
+        existing.points.push(point);
+        drafts.set(draft.key, existing);
+    };
+
+    const addLab = (entryId: string, date: string, raw: LabTestResult, source: TrendPoint["source"]) => {
+        const lab = raw.loinc && raw.canonicalValue !== undefined ? raw : normalizeLabResult(raw, who);
+        if (lab.canonicalValue === undefined) return;
+        const draft = labDraft(lab, who);
+        if (!draft) return;
+        // The report's own flag wins over the default range
+        const status = lab.status ?? statusIn(lab.canonicalValue, draft.range);
+        add(draft, {
+            label: lab.name,
+            value: lab.canonicalValue,
+            unit: draft.unit,
+            date,
+            entryId,
+            loinc: draft.key,
+            source,
+            ...(status && { status }),
+        });
+    };
+
+    const addVital = (entryId: string, date: string, type: string, value: number, source: TrendPoint["source"]) => {
+        const def = VITALS[type];
+        if (!def) return;
+        const rounded = round(value, def.decimals);
+        const status = statusIn(rounded, def.range);
+        add(vitalDraft(type), {
+            label: def.name,
+            value: rounded,
+            unit: def.unit,
+            date,
+            entryId,
+            source,
+            ...(status && { status }),
+        });
+    };
+
+    for (const entry of sources.entries ?? []) {
+        for (const row of entry.metadata?.labTests ?? []) addLab(entry.entryId, entry.date, row, "lab");
+        for (const reading of entry.metadata?.vitals ?? []) {
+            // A sugar reading written as a vital belongs on the glucose line
+            if (reading.type === "blood_sugar") {
+                addLab(entry.entryId, (reading.date || entry.date).split("T")[0], { name: "Blood sugar", value: reading.value, unit: reading.unit }, "vital");
+                continue;
+            }
+            for (const [type, value] of vitalValues(reading)) addVital(entry.entryId, (reading.date || entry.date).split("T")[0], type, value, "vital");
+        }
+    }
+
+    for (const c of sources.checkups ?? []) {
+        const id = `checkup:${c.checkupId}`;
+        const date = c.recordedAt.split("T")[0];
+        if (c.bpSystolic) addVital(id, date, "bp_systolic", c.bpSystolic, "checkup");
+        if (c.bpDiastolic) addVital(id, date, "bp_diastolic", c.bpDiastolic, "checkup");
+        const weight = parseFloat(c.weight ?? "");
+        const height = parseFloat(c.height ?? "");
+        if (weight > 0) addVital(id, date, "weight", weight, "checkup");
+        if (height > 0) addVital(id, date, "height", height, "checkup");
+        if (weight > 0 && height > 0) addVital(id, date, "bmi", weight / (height / 100) ** 2, "checkup");
+    }
+    return drafts;
+}
+
+function directionOf(points: TrendPoint[]): { direction: TrendDirection; changePct?: number } {
+    const recent = points.slice(-WINDOW);
+    if (recent.length < 2) return { direction: "insufficient" };
+
+    // Least-squares slope over days (or over position, for same-day points)
+    const days = recent.map((p) => Date.parse(p.date) / 86_400_000);
+    const xs = days[days.length - 1] > days[0] ? days : recent.map((_, i) => i);
+    const ys = recent.map((p) => p.value);
+    const mean = (v: number[]) => v.reduce((a, b) => a + b, 0) / v.length;
+    const mx = mean(xs);
+    const my = mean(ys);
+    const sxx = xs.reduce((sum, x) => sum + (x - mx) ** 2, 0);
+    const slope = sxx ? xs.reduce((sum, x, i) => sum + (x - mx) * (ys[i] - my), 0) / sxx : 0;
+    const projectedPct = my ? (slope * (xs[xs.length - 1] - xs[0]) / Math.abs(my)) * 100 : 0;
+
+    const first = ys[0];
+    const last = ys[ys.length - 1];
+    return {
+        direction: Math.abs(projectedPct) < STABLE_PCT ? "stable" : projectedPct > 0 ? "rising" : "falling",
+        ...(first !== 0 && { changePct: round(((last - first) / Math.abs(first)) * 100, 1) }),
+    };
+}
+
+function outOfRange(status?: TrendPointStatus): "Low" | "High" | undefined {
+    return status === "Low" || status === "High" ? status : status === "Critical" ? "High" : undefined;
+}
+
+function analyse(draft: Draft): TrendSeries {
+    const points = [...draft.points].sort((a, b) => a.date.localeCompare(b.date));
+    const { direction, changePct } = directionOf(points);
+    const series: TrendSeries = { ...draft, points, direction, ...(changePct !== undefined && { changePct }) };
+
+    const latest = points[points.length - 1];
+    const latestOut = outOfRange(latest?.status);
+    if (latestOut) {
+        let count = 0;
+        while (count < points.length && outOfRange(points[points.length - 1 - count].status) === latestOut) count++;
+        if (count >= 2) series.streak = { status: latestOut, count, since: points[points.length - count].date };
+        if (direction === "rising" || direction === "falling") {
+            const away = (latestOut === "High") === (direction === "rising");
+            series.assessment = away ? "worsening" : "improving";
+        }
+    }
+    return series;
+}
+
+function byConcern(a: TrendSeries, b: TrendSeries): number {
+    const rank = (s: TrendSeries) => (s.streak ? 0 : s.assessment === "worsening" ? 1 : 2);
+    return rank(a) - rank(b) || b.points.length - a.points.length;
+}
+
+/**
+ * One series per analyte with any value we could place. Out-of-range
+ * streaks first, then worsening trends, then the rest by most points.
+ */
+export function buildTrends(sources: TrendSources, who: LabDemographics = {}): TrendSeries[] {
+    return [...collect(sources, who).values()]
+        .map(analyse)
+        .sort(byConcern);
+}
+
+/**
+ * Series from two places — the server's and ones built on the device —
+ * as one set. A point both saw (same entry, date and value) is kept once.
+ */
+export function mergeTrends(a: TrendSeries[], b: TrendSeries[]): TrendSeries[] {
+    const drafts = new Map<string, Draft>();
+    for (const s of [...a, ...b]) {
+        const draft = drafts.get(s.key) ?? { key: s.key, kind: s.kind, name: s.name, unit: s.unit, ...(s.range && { range: s.range }), points: [] };
+        for (const p of s.points) {
+            if (!draft.points.some((q) => q.entryId === p.entryId && q.date === p.date && q.value === p.value)) draft.points.push(p);
+        }
+        drafts.set(s.key, draft);
+    }
+    return [...drafts.values()]
+        .map(analyse)
+        .sort(byConcern);
+}
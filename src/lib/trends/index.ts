@@ -0,0 +1,5 @@
+// ============================================================
+// Trends — Barrel
+// ============================================================
+
+export * from "./build";
@@ -0,0 +1,74 @@
+// ============================================================
+// Medication Adherence Type Definitions
+// One record per scheduled dose (patient × date × slot × medicine).
+// The dashboard registers each day's doses as "pending" and flips
+// them to "taken"; a dose still pending once its day is over
+// counts as missed. Doses the reconciled courses call for on days
+// nobody registered are added when reading, as pending.
+// ============================================================
+
+export type DoseStatus = "pending" | "taken";
+
+/** A scheduled dose as stored in DynamoDB */
+export interface DoseRecord {
+    patientId: string;         // PK
+    doseId: string;            // SK — "<date>#<slot>#<medKey>", so a date range is a key range
+    date: string;              // patient-local YYYY-MM-DD
+    slot: string;              // TimeSlot
+    medication: string;        // display name as prescribed
+    medKey: string;            // normalised name, groups a medicine across prescriptions
+    status: DoseStatus;
+    takenAt?: string;
+    sourceEntryId?: string;    // prescription the dose came from
+    recordedBy: string;        // user who last changed it
+    updatedAt: string;
+}
+
+/** One dose as the client registers it for a day */
+export interface ScheduledDoseInput {
+    slot: string;
+    medication: string;
+    sourceEntryId?: string;
+}
+
+/** A dose a medication course calls for on one day */
+export interface ExpectedDose extends ScheduledDoseInput {
+    date: string;
+}
+
+/** Taken vs missed over a window; pending doses of today are left out */
+export interface AdherenceRate {
+    taken: number;
+    missed: number;
+    percent: number | null;    // null when nothing was due
+}
+
+export interface AdherenceDay {
+    date: string;
+    taken: number;
+    missed: number;
+}
+
+export interface MedicationAdherence {
+    medKey: string;
+    medication: string;
+    weekly: AdherenceRate;
+    monthly: AdherenceRate;
+    /** Consecutive most-recent doses of this medicine that were missed */
+    missStreak: number;
+    /** Oldest first, one per day in the window — for the per-medicine chart */
+    days: AdherenceDay[];
+    missedDoses: { date: string; slot: string }[];
+}
+
+export interface AdherenceSummary {
+    asOf: string;              // the "today" the rollup was computed for
+    weekly: AdherenceRate;     // last 7 days including today
+    monthly: AdherenceRate;    // last 30 days including today
+    /** Consecutive most-recent doses (any medicine) that were missed */
+    currentMissStreak: number;
+    longestMissStreak: number;
+    /** Days in a row, up to yesterday, with every dose taken */
+    perfectDays: number;
+    medications: MedicationAdherence[];
+}
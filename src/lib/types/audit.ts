@@ -14,7 +14,9 @@ export type AuditAction =
     | "TIMELINE_SEARCH"
     | "AI_EXTRACTION"
     | "AI_QUERY"
+    | "DOCTOR_REQUEST_ACCESS"
     | "DOCTOR_GRANT_ACCESS"
+    | "DOCTOR_DENY_ACCESS"
     | "DOCTOR_REVOKE_ACCESS"
     | "DOCTOR_VIEW_TIMELINE"
     | "DOCTOR_APPEND_ENTRY"
@@ -51,6 +53,9 @@ export interface AuditActor {
     mciNumber?: string; // Present for doctors and emergency personnel
 }
 
+/** What a doctor may do with a patient's records */
+export type AccessLevel = "READ" | "READ_APPEND";
+
 /** Access grant stored in DynamoDB */
 export interface StoredAccessGrant {
     grantId: string;
@@ -58,12 +63,32 @@ export interface StoredAccessGrant {
     doctorId: string;
     doctorName: string;
     doctorMci: string;
-    accessLevel: "READ" | "READ_APPEND";
+    accessLevel: AccessLevel;
     encryptedAccessKey: string; // Base64 RSA-encrypted key
     grantedAt: string;
     expiresAt?: string;
     revokedAt?: string;
     isActive: boolean;
+    requestId?: string; // The AccessRequest this grant answered
+}
+
+export type AccessRequestStatus = "PENDING" | "APPROVED" | "DENIED" | "CANCELLED";
+
+/** A doctor's request for consent, awaiting the patient's decision */
+export interface AccessRequest {
+    requestId: string;
+    patientId: string;
+    doctorId: string;
+    doctorName: string;
+    doctorMci: string;
+    institution?: string;
+    doctorPublicKey: string; // Base64 SPKI — the patient wraps the vault key with it
+    requestedLevel: AccessLevel;
+    reason?: string;
+    status: AccessRequestStatus;
+    requestedAt: string;
+    respondedAt?: string;
+    grantId?: string;
 }
 
 /** Audit log query parameters */
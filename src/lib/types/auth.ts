@@ -8,6 +8,7 @@ export type AuthState =
     | "CARD_ID_ENTERED"
     | "DOB_VERIFIED"
     | "OTP_SENT"
+    | "VAULT_LOCKED" // Cognito session established, vault secret not yet entered
     | "AUTHENTICATED"
     | "LOCKED";
 
@@ -58,7 +59,7 @@ export interface LockStatus {
 export interface AuthResult {
     patient: import("./patient").Patient;
     tokens: AuthTokens;
-    masterKey: CryptoKey; // Ephemeral — NEVER stored
+    vault: import("./crypto").WrappedVaultKey | null; // null → first login, vault must be created
     isNewDevice: boolean;
     biometricAvailable: boolean;
 }
@@ -6,6 +6,7 @@
 export type EncryptionAlgorithm = "AES-GCM";
 export type KeyDerivationAlgorithm = "PBKDF2";
 export type AsymmetricAlgorithm = "RSA-OAEP";
+export type KeyWrapAlgorithm = "AES-KW";
 
 /** Encrypted data blob stored in S3 */
 export interface EncryptedBlob {
@@ -58,6 +59,22 @@ export interface KeyDerivationParams {
     keyLength: 256;
 }
 
+/**
+ * Patient vault key record, stored server-side.
+ * The Data Encryption Key (DEK) is random and long-lived; it is only ever
+ * persisted wrapped by a Key Encryption Key derived from Card ID + vault secret.
+ */
+export interface WrappedVaultKey {
+    version: 1;
+    keyId: string; // Stable DEK identifier — stamped on every EncryptedBlob
+    wrappedKey: string; // Base64 AES-KW output
+    salt: string; // Base64 PBKDF2 salt (random, per patient)
+    iterations: number;
+    algorithm: KeyWrapAlgorithm;
+    createdAt: string; // ISO 8601
+    rewrappedAt?: string; // ISO 8601 — set when the vault secret changes
+}
+
 /** RSA Key pair references (CryptoKey objects, not exportable) */
 export interface KeyPairRef {
     publicKey: CryptoKey;
@@ -50,6 +50,22 @@ export interface BreakGlassSession {
     durationMinutes: number;
     isActive: boolean;
     accessedData: string[]; // List of data fields accessed
+    reason: string;
+    endedAt?: string;
+    patientNotified: boolean;
+    emergencyContactsNotified: boolean;
+    notifications?: BreakGlassNotification[];
+}
+
+/** Delivery outcome of one Break-Glass SMS alert */
+export interface BreakGlassNotification {
+    recipient: "PATIENT" | "EMERGENCY_CONTACT";
+    name: string;
+    phoneLast4: string; // Full numbers stay in the contacts record
+    delivered: boolean;
+    messageId?: string;
+    error?: string;
+    sentAt: string;
 }
 
 /** Break-Glass initiation request */
@@ -81,8 +97,10 @@ export interface BreakGlassLog {
     reason: string;
     startedAt: string;
     endedAt?: string;
+    endReason?: "ended" | "expired"; // Closed by the responder, or timed out
     durationMinutes: number;
     dataAccessed: string[];
     patientNotified: boolean;
     emergencyContactsNotified: boolean;
+    notifications?: BreakGlassNotification[];
 }
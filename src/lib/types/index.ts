@@ -11,3 +11,5 @@ export * from "./medvision";
 export * from "./rag";
 export * from "./audit";
 export * from "./auth";
+export * from "./notification";
+export * from "./adherence";
@@ -3,7 +3,7 @@
 // ============================================================
 
 /** Source of OCR processing */
-export type OCRSource = "TEXTRACT" | "PADDLEOCR";
+export type OCRSource = "TEXTRACT" | "PADDLEOCR" | "TESSERACT";
 
 /** A detected text region from OCR */
 export interface TextRegion {
@@ -0,0 +1,105 @@
+// ============================================================
+// Notification Type Definitions
+// In-app notifications are created server-side by the routes
+// (and schedulers) that cause them, one item per recipient.
+// Bodies never carry clinical values — only what the timeline
+// index already shows in the clear.
+// ============================================================
+
+export type NotificationCategory = "system" | "security" | "health";
+
+export type NotificationType =
+    | "DOCUMENT_PROCESSED"
+    | "DOCTOR_ENTRY_ADDED"
+    | "ACCESS_REQUESTED"
+    | "ACCESS_GRANTED"
+    | "ACCESS_REVOKED"
+    | "BREAK_GLASS_ACCESSED"
+    | "APPOINTMENT_REMINDER"
+    | "ABNORMAL_LAB"
+    | "MEDICATION_REFILL_DUE"
+    | "PREVENTIVE_DUE";
+
+/** Typed payload per event — what the emitting route knows */
+export type NotificationEvent =
+    | { type: "DOCUMENT_PROCESSED"; patientId: string; documentTitle: string; confidence: number; pageCount: number }
+    | { type: "DOCTOR_ENTRY_ADDED"; patientId: string; entryId: string; entryTitle: string; doctorName: string }
+    | { type: "ACCESS_REQUESTED"; patientId: string; requestId: string; doctorName: string }
+    | { type: "ACCESS_GRANTED"; patientId: string; accessLevel: string; expiresAt: string }
+    | { type: "ACCESS_REVOKED"; patientId: string }
+    | { type: "BREAK_GLASS_ACCESSED"; patientId: string; sessionId: string; personnelName: string; institution: string }
+    | { type: "APPOINTMENT_REMINDER"; patientId: string; appointmentId: string; doctorName: string; appointmentDate: string; time?: string }
+    | { type: "ABNORMAL_LAB"; patientId: string; documentTitle: string; abnormalCount: number }
+    | { type: "MEDICATION_REFILL_DUE"; patientId: string; entryId: string; medications: string[]; dueDate: string }
+    | { type: "PREVENTIVE_DUE"; patientId: string; patientName?: string; dueDate: string; vaccines: number; screenings: number };
+
+/** Where tapping the notification takes the user */
+export interface NotificationLink {
+    screen: string;          // AppShell screen id, e.g. "timeline"
+    patientId?: string;
+    entryId?: string;
+}
+
+/** A notification stored in DynamoDB */
+export interface AppNotification {
+    userId: string;            // PK — recipient
+    notificationId: string;    // SK — "<createdAt>#<uuid>", so queries sort by time
+    type: NotificationType;
+    category: NotificationCategory;
+    title: string;
+    body: string;
+    link?: NotificationLink;
+    read: boolean;
+    readAt?: string;
+    createdAt: string;
+}
+
+export interface NotificationQuery {
+    userId: string;
+    category?: NotificationCategory;
+    unreadOnly?: boolean;
+    limit?: number;
+    cursor?: string;           // opaque, from the previous page
+}
+
+export interface NotificationPage {
+    notifications: AppNotification[];
+    nextCursor?: string;
+    unreadCount: number;
+}
+
+// ---- Web Push ----
+
+/** One browser/device registered for push, stored per user */
+export interface StoredPushSubscription {
+    subscriptionId: string;    // hash of the endpoint — stable per device
+    endpoint: string;
+    keys: { p256dh: string; auth: string };
+    userAgent?: string;
+    createdAt: string;
+}
+
+/** What the service worker receives and shows */
+export interface PushMessage {
+    title: string;
+    body: string;
+    tag?: string;              // same tag replaces an earlier notification
+    link?: NotificationLink;
+}
+
+/** Per-user reminder switches (the device switch is the subscription itself) */
+export interface NotificationPrefs {
+    appointmentReminders: boolean;
+    doseReminders: boolean;
+    preventiveReminders: boolean;
+}
+
+/**
+ * Today's dose reminders for one user, registered by their device.
+ * Only counts per slot — medication names never leave the client.
+ */
+export interface DosePlan {
+    planDate: string;          // device-local YYYY-MM-DD
+    doses: { slot: string; at: string; count: number }[];
+    remindedSlots: string[];
+}
@@ -28,6 +28,7 @@ export interface EmergencyContact {
     name: string;
     relationship: string;
     phone: string;
+    notifyOnBreakGlass?: boolean; // SMS when responders open the emergency record
 }
 
 /** Patient profile stored in Cognito + DynamoDB */
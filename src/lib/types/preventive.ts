@@ -0,0 +1,46 @@
+// ============================================================
+// Preventive Care Type Definitions
+// The vaccination and screening schedule for one patient
+// (lib/preventive): India's Universal Immunisation Programme
+// for children, adult vaccines and age/sex screenings, each
+// checked against the record.
+// ============================================================
+
+import type { DataPoint } from "./rag";
+
+export type PreventiveStatus = "completed" | "due" | "overdue" | "upcoming";
+
+export interface PreventiveItem {
+    id: string;                  // "vaccine:<id>#<dose>" or "screening:<id>"
+    kind: "vaccine" | "screening";
+    name: string;                // "MMR / MR", "Lipid profile"
+    dose?: string;               // "Dose 2", "Booster", "Yearly"
+    /** When it is given, as the schedule puts it — "9 months", "every 5 years from 35" */
+    when: string;
+    status: PreventiveStatus;
+    dueDate?: string;            // YYYY-MM-DD; for completed items, when the next one falls due
+    completedDate?: string;
+    entryId?: string;            // the record that shows it was done
+    /** Last lab value or vital that counted as the screening */
+    evidence?: DataPoint;
+}
+
+export interface PreventiveSchedule {
+    /** Under-18s get the child immunisation schedule, adults the adult one plus screenings */
+    audience: "child" | "adult";
+    items: PreventiveItem[];
+    /** False when there is no date of birth to place the schedule on */
+    hasBirthDate: boolean;
+    version: string;
+}
+
+/**
+ * Upcoming due dates a device registers for reminders — counts only,
+ * never which vaccine or test, as the schedule is built on the device.
+ */
+export interface PreventivePlan {
+    patientId: string;
+    patientName?: string;        // set when a guardian registers for a dependent
+    dates: { dueDate: string; vaccines: number; screenings: number }[];
+    remindedDates: string[];
+}
@@ -22,6 +22,25 @@ export interface RAGResponse {
     disclaimer: string; // Medical disclaimer text
 }
 
+/** What the assistant is doing while a streamed answer is on its way */
+export type AssistantStage =
+    | "classifying"   // working out what kind of question it is
+    | "retrieving"    // searching the records; count = records found
+    | "drafting"      // writing an answer that will be checked before it is shown
+    | "verifying";    // checking a draft against the records
+
+/**
+ * One event of a streamed assistant answer (Accept: text/event-stream).
+ * Tokens are the answer as it is written; "done" carries the final
+ * answer with its citations, which replaces the streamed text when a
+ * verification step rewrote it.
+ */
+export type AssistantStreamEvent =
+    | { type: "stage"; stage: AssistantStage; count?: number }
+    | { type: "token"; text: string }
+    | { type: "done"; response: Pick<RAGResponse, "answer" | "conversationId" | "generatedAt"> & Partial<RAGResponse> }
+    | { type: "error"; error: string };
+
 /** Source citation linking answer to timeline entries */
 export interface SourceCitation {
     entryId: string;
@@ -32,7 +51,7 @@ export interface SourceCitation {
     relevanceScore: number; // 0-1
 }
 
-/** Proactive health insight generated by RAG */
+/** Proactive health insight raised by the rules in lib/insights */
 export interface HealthInsight {
     insightId: string;
     patientId: string;
@@ -45,6 +64,8 @@ export interface HealthInsight {
     generatedAt: string;
     isRead: boolean;
     isDismissed: boolean;
+    /** The rule's own wording, when an LLM has rephrased title and description */
+    phrasedFrom?: string;
 }
 
 /** Types of proactive insights */
@@ -64,17 +85,27 @@ export interface DataPoint {
     unit: string;
     date: string;
     entryId: string;
+    loinc?: string; // lab results — the series a point belongs to, whatever the report called it
 }
 
-/** Chat conversation state */
+/**
+ * An assistant conversation, stored per asking user and patient — a
+ * doctor's conversations about a patient are theirs alone, apart from
+ * the patient's own.
+ */
 export interface ChatConversation {
     conversationId: string;
-    patientId: string;
+    userId: string;              // who is asking — the patient, guardian or doctor
+    patientId: string;           // whose records it is about
+    title: string;               // the first question until renamed
     messages: ChatMessage[];
     startedAt: string;
     lastMessageAt: string;
 }
 
+/** A conversation in the history list, without its messages */
+export type ConversationSummary = Omit<ChatConversation, "messages"> & { messageCount: number };
+
 /** Single chat message */
 export interface ChatMessage {
     messageId: string;
@@ -2,6 +2,8 @@
 // Timeline Type Definitions
 // ============================================================
 
+import type { SerializedEncryptedBlob } from "./crypto";
+
 /** Document type tags displayed on timeline entries */
 export type DocumentTypeTag =
     | "RX"         // Prescription
@@ -33,11 +35,18 @@ export interface HealthEntry {
     createdAt: string; // ISO 8601 when entry was added
     updatedAt: string;
     encryptedBlobKey: string; // S3 key for encrypted document
+    pageBlobKeys?: string[]; // every page photo in order, for multi-photo uploads (first === encryptedBlobKey)
     thumbnailBlobKey?: string; // S3 key for encrypted thumbnail
     fhirResourceIds: string[]; // HealthLake resource references
     confidenceScore?: number; // 0-100, from AI extraction
     addedBy: EntrySource;
     metadata: EntryMetadata;
+    /**
+     * EntryMetadata sealed with the patient's vault key. When present, the
+     * stored `metadata` is empty and encryptedBlobKey points at an encrypted
+     * photo; the client fills `metadata` in after decrypting.
+     */
+    encryptedMetadata?: SerializedEncryptedBlob;
 }
 
 /** Who created this entry */
@@ -58,6 +67,8 @@ export interface EntryMetadata {
     dates?: string[];
     allergies?: string[];
     vitals?: VitalReading[];
+    pageCount?: number;                 // set for multi-page uploads; rawText carries "--- Page N ---" markers
+    sourceFormat?: "image" | "pdf";     // "pdf" — the stored original is the PDF itself, not a photo
 
     // ── Prescription (RX) ──────────────────────────────────────
     medications?: MedicationDetail[];   // rich: name + dosage + freq + route
@@ -114,6 +125,11 @@ export interface MedicationDetail {
     duration?: string;     // e.g. "7 days"
     route?: string;        // e.g. "Oral", "Topical", "IV"
     instructions?: string; // e.g. "After food", "With water"
+    // Filled in by normalisation (lib/medications/normalize) — `name` keeps the text as written
+    generic?: string;      // e.g. "metformin", "telmisartan + hydrochlorothiazide"
+    strength?: string;     // e.g. "500 mg"
+    form?: string;         // e.g. "tablet"
+    matchConfidence?: number; // 0-1, how sure the brand/generic match is
 }
 
 /** A single lab test result */
@@ -123,6 +139,13 @@ export interface LabTestResult {
     unit?: string;
     referenceRange?: string;
     status?: "Normal" | "Low" | "High" | "Critical";
+    page?: number; // page it was read from, on multi-page documents
+    // Filled in by normalisation (lib/labs) — name, value and unit keep the report's wording
+    loinc?: string;            // e.g. "4548-4"
+    canonicalName?: string;    // e.g. "HbA1c"
+    canonicalValue?: number;   // value converted to canonicalUnit
+    canonicalUnit?: string;    // e.g. "%", "mg/dL"
+    rangeSource?: "report" | "default"; // default = catalogue range for the patient's sex and age
 }
 
 /** A single vital reading */
@@ -133,6 +156,23 @@ export interface VitalReading {
     date: string;
 }
 
+/** What /api/upload extracts from a scanned document, for the user to review */
+export interface ScanExtraction {
+    documentType: DocumentTypeTag;
+    confidence: number;
+    title: string;
+    metadata: {
+        medications?: MedicationDetail[];
+        diagnoses?: string[];
+        labTests?: string[];
+        doctors?: string[];
+        institutions?: string[];
+        dates?: string[];
+        pageCount?: number;
+        sourceFormat?: "image" | "pdf";
+    };
+}
+
 /** Timeline view options */
 export interface TimelineOptions {
     sortOrder: "newest" | "oldest";
@@ -175,4 +215,6 @@ export interface TimelineResponse {
     page: number;
     pageSize: number;
     hasMore: boolean;
+    /** Set when served from the offline cache — when that copy was saved */
+    cachedAt?: string;
 }
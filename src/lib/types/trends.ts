@@ -0,0 +1,42 @@
+// ============================================================
+// Trend Type Definitions
+// Per-analyte time series built from lab reports, vitals written
+// on entries and doctor checkups (lib/trends). Lab series are
+// keyed by LOINC code, so one test from different labs shares
+// a line; vitals by "vital:<type>".
+// ============================================================
+
+import type { DataPoint } from "./rag";
+import type { LabDemographics } from "../labs";
+
+export type TrendDirection = "rising" | "falling" | "stable" | "insufficient";
+
+export type TrendPointStatus = "Normal" | "Low" | "High" | "Critical";
+
+export interface TrendPoint extends DataPoint {
+    source: "lab" | "vital" | "checkup";  // checkup points have no entry to open
+    status?: TrendPointStatus;
+}
+
+export interface TrendSeries {
+    key: string;                 // LOINC code, or "vital:<type>"
+    kind: "lab" | "vital";
+    name: string;
+    unit: string;
+    points: TrendPoint[];        // oldest first
+    /** Default range for the patient — what the chart shades */
+    range?: { low?: number; high?: number };
+    direction: TrendDirection;
+    /** First to last point of the recent window, in percent */
+    changePct?: number;
+    /** Set when the latest value is out of range and moving further out, or back in */
+    assessment?: "worsening" | "improving";
+    /** Consecutive latest points outside the range, when there are at least two */
+    streak?: { status: "Low" | "High"; count: number; since: string };
+}
+
+export interface TrendsResponse {
+    series: TrendSeries[];
+    /** Sex and age the default ranges were picked for */
+    demographics: LabDemographics;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "@jest/globals";
+import { doseId, expectedDoses, medKey, summarizeAdherence, withExpectedDoses } from "../adherence";
+import type { MedicationCourse } from "../../medications/courses";
+import type { DoseRecord } from "../../types/adherence";
+
+const PATIENT = "AS-0000-0000-0001";
+
+const course = (name: string, frequency: string, startDate: string, extra: Partial<MedicationCourse> = {}): MedicationCourse => ({
+    key: name.toLowerCase(),
+    name,
+    aliases: [],
+    frequency,
+    duration: { kind: "ongoing" },
+    startDate,
+    lastPrescribedDate: startDate,
+    status: "active",
+    sourceEntryIds: ["e1"],
+    ...extra,
+});
+
+const taken = (date: string, slot: string, medication: string): DoseRecord => ({
+    patientId: PATIENT,
+    doseId: doseId(date, slot, medication),
+    date,
+    slot,
+    medication,
+    medKey: medKey(medication),
+    status: "taken",
+    recordedBy: PATIENT,
+    updatedAt: `${date}T09:00:00.000Z`,
+});
+
+describe("expectedDoses", () => {
+    test("one dose per slot per day the course runs", () => {
+        const doses = expectedDoses([course("Metformin 500", "BD", "2025-03-02")], "2025-03-01", "2025-03-03");
+        expect(doses.map((d) => `${d.date} ${d.slot}`)).toEqual([
+            "2025-03-02 Morning", "2025-03-02 Evening",
+            "2025-03-03 Morning", "2025-03-03 Evening",
+        ]);
+    });
+
+    test("a stopped course expects nothing from its stop date", () => {
+        const stopped = course("Amlodipine 5", "OD", "2025-03-01", { status: "stopped", endDate: "2025-03-03" });
+        expect(expectedDoses([stopped], "2025-03-01", "2025-03-05").map((d) => d.date)).toEqual(["2025-03-01", "2025-03-02"]);
+    });
+
+    test("as-needed medicines expect no doses", () => {
+        expect(expectedDoses([course("Paracetamol 650", "SOS", "2025-03-01")], "2025-03-01", "2025-03-05")).toEqual([]);
+    });
+});
+
+describe("withExpectedDoses", () => {
+    test("a day nobody registered counts its doses as missed", () => {
+        const expected = expectedDoses([course("Metformin 500", "OD", "2025-03-01")], "2025-03-01", "2025-03-03");
+        const records = withExpectedDoses([taken("2025-03-01", "Morning", "Metformin 500")], expected, PATIENT);
+        expect(records).toHaveLength(3);
+
+        const summary = summarizeAdherence(records, "2025-03-03", 3);
+        expect(summary.monthly).toMatchObject({ taken: 1, missed: 1 });
+        expect(summary.medications[0].missedDoses.map((d) => d.date)).toEqual(["2025-03-02"]);
+    });
+});
@@ -0,0 +1,172 @@
+// ============================================================
+// Adherence Rollups
+// Pure functions over DoseRecords — shared by the API (doctor
+// view, RAG context) and the patient dashboard.
+// ============================================================
+
+import type {
+    AdherenceDay,
+    AdherenceRate,
+    AdherenceSummary,
+    DoseRecord,
+    ExpectedDose,
+    MedicationAdherence,
+} from "../types/adherence";
+import type { MedicationCourse } from "../medications/courses";
+import { addDaysIso } from "./date";
+import { parseFrequencySlots } from "./medSchedule";
+
+const SLOT_ORDER = ["Morning", "Afternoon", "Evening", "Night"];
+
+/** Groups one medicine across prescriptions: "Metformin  500mg" → "metformin 500mg" */
+export function medKey(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9.]+/g, " ").trim();
+}
+
+export function doseId(date: string, slot: string, medication: string): string {
+    return `${date}#${slot}#${medKey(medication)}`;
+}
+
+/**
+ * The doses a set of medication courses called for on each day from
+ * `from` to `to` — one per slot the frequency names. As-needed
+ * medicines have none. A stopped or replaced course ends the day
+ * before its endDate; other courses run through it.
+ */
+export function expectedDoses(courses: MedicationCourse[], from: string, to: string): ExpectedDose[] {
+    const doses: ExpectedDose[] = [];
+    for (const course of courses) {
+        // Doctor-typed lines carry the frequency in the name ("Metformin 500mg BD")
+        const slots = parseFrequencySlots(course.frequency ?? course.name);
+        const closed = course.status === "stopped" || course.status === "replaced";
+        const last = course.endDate && closed ? addDaysIso(course.endDate, -1) : course.endDate;
+        const sourceEntryId = course.sourceEntryIds[course.sourceEntryIds.length - 1];
+        const start = course.startDate > from ? course.startDate : from;
+        const end = last && last < to ? last : to;
+        for (let date = start; date <= end; date = addDaysIso(date, 1)) {
+            for (const slot of slots) doses.push({ date, slot, medication: course.name, sourceEntryId });
+        }
+    }
+    return doses;
+}
+
+/**
+ * Stored records plus a pending record for every expected dose nobody
+ * registered, so a day the app was never opened still counts its doses.
+ */
+export function withExpectedDoses(records: DoseRecord[], expected: ExpectedDose[], patientId: string): DoseRecord[] {
+    const merged = new Map(records.map((r) => [r.doseId, r]));
+    for (const dose of expected) {
+        const id = doseId(dose.date, dose.slot, dose.medication);
+        if (merged.has(id)) continue;
+        merged.set(id, {
+            patientId,
+            doseId: id,
+            date: dose.date,
+            slot: dose.slot,
+            medication: dose.medication,
+            medKey: medKey(dose.medication),
+            status: "pending",
+            ...(dose.sourceEntryId && { sourceEntryId: dose.sourceEntryId }),
+            recordedBy: "schedule",
+            updatedAt: dose.date,
+        });
+    }
+    return [...merged.values()];
+}
+
+/** Taken, missed (its day is over and it is still pending) or not yet decided. */
+function outcome(record: DoseRecord, today: string): "taken" | "missed" | null {
+    if (record.status === "taken") return "taken";
+    return record.date < today ? "missed" : null;
+}
+
+function rate(records: DoseRecord[], today: string, from: string): AdherenceRate {
+    let taken = 0;
+    let missed = 0;
+    for (const r of records) {
+        if (r.date < from || r.date > today) continue;
+        const o = outcome(r, today);
+        if (o === "taken") taken++;
+        else if (o === "missed") missed++;
+    }
+    const due = taken + missed;
+    return { taken, missed, percent: due === 0 ? null : Math.round((taken / due) * 100) };
+}
+
+function chronological(a: DoseRecord, b: DoseRecord): number {
+    return a.date.localeCompare(b.date) || SLOT_ORDER.indexOf(a.slot) - SLOT_ORDER.indexOf(b.slot);
+}
+
+/** Trailing and longest runs of "missed" in a chronological outcome list. */
+function missRuns(outcomes: ("taken" | "missed")[]): { current: number; longest: number } {
+    let run = 0;
+    let longest = 0;
+    for (const o of outcomes) {
+        run = o === "missed" ? run + 1 : 0;
+        longest = Math.max(longest, run);
+    }
+    return { current: run, longest };
+}
+
+/**
+ * Roll dose records up into weekly / monthly adherence, missed-dose
+ * streaks and a per-medicine daily series.
+ *
+ * @param today      Patient-local YYYY-MM-DD; its pending doses are not missed yet
+ * @param windowDays Length of the per-medicine series (and the monthly window)
+ */
+export function summarizeAdherence(records: DoseRecord[], today: string, windowDays = 30): AdherenceSummary {
+    const weekFrom = addDaysIso(today, -6);
+    const monthFrom = addDaysIso(today, -(windowDays - 1));
+    const sorted = [...records].sort(chronological);
+    const decided = (list: DoseRecord[]) =>
+        list.map((r) => outcome(r, today)).filter((o): o is "taken" | "missed" => o !== null);
+
+    const overall = missRuns(decided(sorted));
+
+    const byDate = new Map<string, DoseRecord[]>();
+    for (const r of sorted) byDate.set(r.date, [...(byDate.get(r.date) ?? []), r]);
+    let perfectDays = 0;
+    for (let day = addDaysIso(today, -1); ; day = addDaysIso(day, -1)) {
+        const doses = byDate.get(day);
+        if (!doses || doses.some((r) => r.status !== "taken")) break;
+        perfectDays++;
+    }
+
+    const byMed = new Map<string, DoseRecord[]>();
+    for (const r of sorted) byMed.set(r.medKey, [...(byMed.get(r.medKey) ?? []), r]);
+    const medications: MedicationAdherence[] = [...byMed].map(([key, list]) => {
+        const days: AdherenceDay[] = [];
+        for (let day = monthFrom; day <= today; day = addDaysIso(day, 1)) {
+            const onDay = list.filter((r) => r.date === day);
+            days.push({
+                date: day,
+                taken: onDay.filter((r) => outcome(r, today) === "taken").length,
+                missed: onDay.filter((r) => outcome(r, today) === "missed").length,
+            });
+        }
+        return {
+            medKey: key,
+            medication: list[list.length - 1].medication,
+            weekly: rate(list, today, weekFrom),
+            monthly: rate(list, today, monthFrom),
+            missStreak: missRuns(decided(list)).current,
+            days,
+            missedDoses: list
+                .filter((r) => r.date >= monthFrom && outcome(r, today) === "missed")
+                .map((r) => ({ date: r.date, slot: r.slot })),
+        };
+    });
+    medications.sort((a, b) => (a.monthly.percent ?? 101) - (b.monthly.percent ?? 101) || a.medication.localeCompare(b.medication));
+
+    return {
+        asOf: today,
+        weekly: rate(sorted, today, weekFrom),
+        monthly: rate(sorted, today, monthFrom),
+        currentMissStreak: overall.current,
+        longestMissStreak: overall.longest,
+        perfectDays,
+        medications,
+    };
+}
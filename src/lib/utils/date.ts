@@ -37,3 +37,15 @@ export function fmtMonthYear(d: Date): string {
 export function fmtMonthYearLong(d: Date): string {
     return d.toLocaleDateString("en-IN", { month: "long", year: "numeric" });
 }
+
+/** "2026-03-03" in the device's own time zone (toISOString() would use UTC) */
+export function localIsoDate(d: Date = new Date()): string {
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/** ISO date `days` after (or before, if negative) an ISO date */
+export function addDaysIso(isoDate: string, days: number): string {
+    const d = new Date(`${isoDate}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split("T")[0];
+}
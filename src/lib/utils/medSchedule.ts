@@ -4,17 +4,27 @@
 // and maps them to named time slots.
 // ============================================================
 
-import type { MedicationDetail } from "../types/timeline";
 import type { HealthEntry } from "../types/timeline";
+import { activeCourses, reconcileMedications } from "../medications/courses";
+import { localIsoDate } from "./date";
 
 export type TimeSlot = "Morning" | "Afternoon" | "Evening" | "Night";
 
+/** Local hour each slot's dose reminder fires at */
+export const SLOT_HOURS: Record<TimeSlot, number> = {
+    Morning: 8,
+    Afternoon: 13,
+    Evening: 18,
+    Night: 21,
+};
+
 export interface ScheduledMed {
     name: string;
     dosage?: string;
     instructions?: string;
     slots: TimeSlot[];
     duration?: string;
+    endDate?: string;       // when the course ends, if it has a set length
     sourceEntryId: string;
     sourceTitle: string;
     prescribedDate: string; // ISO date of the prescription
@@ -61,63 +71,62 @@ export function parseFrequencySlots(frequency?: string): TimeSlot[] {
     return ["Morning"];
 }
 
-/** How many days back to look for active prescriptions */
-const ACTIVE_DAYS = 30;
-
 /**
- * Derives today's medication schedule from the patient's recent RX timeline entries.
- * Returns schedule items grouped by time slot.
+ * Today's medication schedule from the patient's timeline: every course
+ * the reconciler considers active (see lib/medications/courses), grouped
+ * by time slot. As-needed medicines are left out.
  */
 export function buildTodaySchedule(entries: HealthEntry[]): Map<TimeSlot, ScheduledMed[]> {
-    const cutoff = Date.now() - ACTIVE_DAYS * 24 * 60 * 60 * 1000;
-
     const bySlot = new Map<TimeSlot, ScheduledMed[]>([
         ["Morning", []],
         ["Afternoon", []],
         ["Evening", []],
         ["Night", []],
     ]);
+    const titles = new Map(entries.map((e) => [e.entryId, e.title]));
 
-    const rxEntries = entries.filter(
-        (e) => e.documentType === "RX" && new Date(e.date).getTime() >= cutoff
-    );
-
-    for (const entry of rxEntries) {
-        const meds: MedicationDetail[] = entry.metadata?.medications ?? [];
-        for (const med of meds) {
-            if (!med.name) continue;
-            const slots = parseFrequencySlots(med.frequency);
-            if (slots.length === 0) continue; // SOS / PRN — skip
-            const item: ScheduledMed = {
-                name: med.name,
-                dosage: med.dosage,
-                instructions: med.instructions,
-                slots,
-                duration: med.duration,
-                sourceEntryId: entry.entryId,
-                sourceTitle: entry.title,
-                prescribedDate: entry.date,
-            };
-            for (const slot of slots) {
-                bySlot.get(slot)!.push(item);
-            }
-        }
+    for (const course of activeCourses(reconcileMedications(entries, localIsoDate()))) {
+        // Doctor-typed lines carry the frequency in the name ("Metformin 500mg BD")
+        const slots = parseFrequencySlots(course.frequency ?? course.name);
+        if (slots.length === 0) continue; // SOS / PRN — skip
+        const sourceEntryId = course.sourceEntryIds[course.sourceEntryIds.length - 1];
+        const item: ScheduledMed = {
+            name: course.name,
+            dosage: course.dosage,
+            instructions: course.instructions,
+            slots,
+            duration: course.durationText,
+            endDate: course.endDate,
+            sourceEntryId,
+            sourceTitle: titles.get(sourceEntryId) ?? "",
+            prescribedDate: course.lastPrescribedDate,
+        };
+        for (const slot of slots) bySlot.get(slot)!.push(item);
     }
 
-    // Deduplicate by medication name within each slot (latest prescription wins)
-    for (const [slot, items] of bySlot) {
-        const seen = new Set<string>();
-        const unique: ScheduledMed[] = [];
-        for (const item of items) {
-            const key = item.name.toLowerCase();
-            if (!seen.has(key)) {
-                seen.add(key);
-                unique.push(item);
-            }
-        }
-        bySlot.set(slot, unique);
+    return bySlot;
+}
+
+/** Flattens a schedule into unique meds (each carries its own slots). */
+export function scheduleItems(bySlot: Map<TimeSlot, ScheduledMed[]>): ScheduledMed[] {
+    const seen = new Map<string, ScheduledMed>();
+    for (const items of bySlot.values()) {
+        for (const item of items) seen.set(item.name.toLowerCase(), item);
     }
+    return [...seen.values()];
+}
 
+/** Inverse of scheduleItems() — regroups saved meds by time slot. */
+export function groupBySlot(items: ScheduledMed[]): Map<TimeSlot, ScheduledMed[]> {
+    const bySlot = new Map<TimeSlot, ScheduledMed[]>([
+        ["Morning", []],
+        ["Afternoon", []],
+        ["Evening", []],
+        ["Night", []],
+    ]);
+    for (const item of items) {
+        for (const slot of item.slots) bySlot.get(slot)?.push(item);
+    }
     return bySlot;
 }
 
@@ -0,0 +1,80 @@
+// ============================================================
+// Server-Sent Events — one JSON object per `data:` line
+//
+// sseResponse() wraps a producer in a text/event-stream Response;
+// its signal aborts when the client goes away (or cancels), so the
+// producer can stop the model call it is waiting on.
+// readSse() is the browser side: fetch() bodies, not EventSource,
+// since the assistant requests are POSTs with a JSON body.
+// ============================================================
+
+// ---- Server ----
+
+export function sseResponse<E>(
+    produce: (send: (event: E) => void, signal: AbortSignal) => Promise<void>,
+    requestSignal?: AbortSignal
+): Response {
+    const controller = new AbortController();
+    requestSignal?.addEventListener("abort", () => controller.abort(), { once: true });
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+        async start(stream) {
+            let open = true;
+            const send = (event: E) => {
+                if (!open || controller.signal.aborted) return;
+                stream.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+            };
+            try {
+                await produce(send, controller.signal);
+            } finally {
+                open = false;
+                if (!controller.signal.aborted) stream.close();
+            }
+        },
+        cancel() {
+            controller.abort();
+        },
+    });
+
+    return new Response(body, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            // Stops nginx-style proxies holding the events back
+            "X-Accel-Buffering": "no",
+        },
+    });
+}
+
+/** Whether a request asked for an event stream rather than one JSON body */
+export function wantsEventStream(req: Request): boolean {
+    return (req.headers.get("accept") ?? "").includes("text/event-stream");
+}
+
+// ---- Client ----
+
+/** Reads a text/event-stream body, calling onEvent with each parsed event until it ends. */
+export async function readSse<E>(res: Response, onEvent: (event: E) => void): Promise<void> {
+    if (!res.body) return;
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let boundary: number;
+        while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+            const frame = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            const data = frame
+                .split("\n")
+                .filter((line) => line.startsWith("data:"))
+                .map((line) => line.slice(5).trimStart())
+                .join("\n");
+            if (data) onEvent(JSON.parse(data) as E);
+        }
+    }
+}
@@ -0,0 +1,31 @@
+// ============================================================
+// API Proxy — keeps signed-in sessions alive
+// The session cookie expires with its ID token. When an API call
+// arrives without one but with a refresh cookie, a new ID token
+// is fetched first: the route sees it as a Bearer token and the
+// browser gets a renewed cookie with the response. /api/auth/*
+// manages the cookies itself and is left alone.
+// ============================================================
+
+import { NextRequest, NextResponse } from "next/server";
+import { REFRESH_COOKIE, SESSION_COOKIE, refreshSession, setSessionCookie } from "./lib/auth/session";
+
+export async function proxy(req: NextRequest) {
+    if (req.headers.has("authorization") || req.cookies.has(SESSION_COOKIE) || !req.cookies.has(REFRESH_COOKIE)) {
+        return NextResponse.next();
+    }
+
+    // On failure the route answers 401 and the client signs out
+    const refreshed = await refreshSession(req);
+    if (!refreshed) return NextResponse.next();
+
+    const headers = new Headers(req.headers);
+    headers.set("authorization", `Bearer ${refreshed.idToken}`);
+    const res = NextResponse.next({ request: { headers } });
+    setSessionCookie(res, refreshed.idToken, refreshed.claims.expiresAt);
+    return res;
+}
+
+export const config = {
+    matcher: ["/api/((?!auth/).*)"],
+};
@@ -0,0 +1,9 @@
+declare module '@tesseract.js-data/eng' {
+    const data: {
+        code: string;
+        /** Directory holding eng.traineddata.gz */
+        langPath: string;
+        gzip: boolean;
+    };
+    export default data;
+}
@@ -0,0 +1,40 @@
+// ============================================================
+// Service Worker additions — bundled by next-pwa into the
+// generated sw.js alongside the Workbox caching rules.
+// Shows Web Push messages and routes a tap on one back into
+// the app: an open window is focused and told which screen to
+// show, otherwise a new one opens at /?screen=<id>.
+// ============================================================
+
+self.addEventListener("push", (event) => {
+    let message = {};
+    try {
+        message = event.data ? event.data.json() : {};
+    } catch {
+        message = { body: event.data ? event.data.text() : "" };
+    }
+
+    event.waitUntil(
+        self.registration.showNotification(message.title || "ArogyaSutra", {
+            body: message.body || "",
+            tag: message.tag,
+            icon: "/favicon.ico",
+            data: { link: message.link },
+        })
+    );
+});
+
+self.addEventListener("notificationclick", (event) => {
+    event.notification.close();
+    const link = event.notification.data && event.notification.data.link;
+
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+        if (windows.length > 0) {
+            const client = windows[0];
+            if (link) client.postMessage({ type: "NOTIFICATION_CLICK", link });
+            return client.focus();
+        }
+        return self.clients.openWindow(link ? `/?screen=${encodeURIComponent(link.screen)}` : "/");
+    })());
+});